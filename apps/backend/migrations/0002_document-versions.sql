@@ -0,0 +1,18 @@
+CREATE TABLE "document_versions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"document_id" uuid NOT NULL,
+	"version_number" integer NOT NULL,
+	"file_path" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"size" integer NOT NULL,
+	"created_by" uuid,
+	CONSTRAINT "document_versions_document_id_version_number_unique" UNIQUE("document_id","version_number")
+);
+--> statement-breakpoint
+ALTER TABLE "document_versions" ADD CONSTRAINT "document_versions_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "document_versions" ADD CONSTRAINT "document_versions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Backfill: every existing document starts with its current file as version 1
+INSERT INTO "document_versions" ("document_id", "version_number", "file_path", "mime_type", "size", "created_at", "updated_at")
+SELECT "id", 1, "file_path", "mime_type", "size", "created_at", "created_at" FROM "documents";
@@ -0,0 +1,2 @@
+ALTER TABLE "documents" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+CREATE INDEX "documents_deleted_at_idx" ON "documents" USING btree ("deleted_at");
\ No newline at end of file
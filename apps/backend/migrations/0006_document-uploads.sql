@@ -0,0 +1,19 @@
+CREATE TABLE "document_uploads" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"name" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"size" integer NOT NULL,
+	"offset" integer DEFAULT 0 NOT NULL,
+	"tags" text[],
+	"metadata" jsonb,
+	"folder_id" uuid,
+	"owner_id" uuid NOT NULL,
+	"document_id" uuid
+);
+--> statement-breakpoint
+ALTER TABLE "document_uploads" ADD CONSTRAINT "document_uploads_folder_id_folders_id_fk" FOREIGN KEY ("folder_id") REFERENCES "public"."folders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "document_uploads" ADD CONSTRAINT "document_uploads_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "document_uploads" ADD CONSTRAINT "document_uploads_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "document_uploads_updated_at_idx" ON "document_uploads" USING btree ("updated_at");
\ No newline at end of file
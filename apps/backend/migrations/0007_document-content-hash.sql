@@ -0,0 +1,2 @@
+ALTER TABLE "document_versions" ADD COLUMN "content_hash" text;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "content_hash" text;
\ No newline at end of file
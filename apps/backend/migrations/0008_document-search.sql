@@ -0,0 +1,23 @@
+CREATE TABLE "document_contents" (
+	"document_id" uuid PRIMARY KEY NOT NULL,
+	"content" text NOT NULL,
+	"search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', "content"), 'D')) STORED NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "search_vector" "tsvector";--> statement-breakpoint
+ALTER TABLE "document_contents" ADD CONSTRAINT "document_contents_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "document_contents_search_vector_idx" ON "document_contents" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX "documents_search_vector_idx" ON "documents" USING gin ("search_vector");--> statement-breakpoint
+CREATE OR REPLACE FUNCTION documents_search_vector_update() RETURNS trigger AS $$
+BEGIN
+	-- File names are indexed as written and split on punctuation, so "q3_report.pdf" matches "report"
+	NEW.search_vector :=
+		setweight(to_tsvector('english', NEW.name || ' ' || regexp_replace(NEW.name, '[^[:alnum:]]+', ' ', 'g')), 'A') ||
+		setweight(to_tsvector('english', array_to_string(coalesce(NEW.tags, ARRAY[]::text[]), ' ')), 'B') ||
+		setweight(to_tsvector('english', coalesce((SELECT string_agg(value, ' ') FROM jsonb_each_text(coalesce(NEW.metadata, '{}'::jsonb))), '')), 'C');
+	RETURN NEW;
+END
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "documents_search_vector" BEFORE INSERT OR UPDATE OF "name", "tags", "metadata" ON "documents" FOR EACH ROW EXECUTE FUNCTION documents_search_vector_update();--> statement-breakpoint
+UPDATE "documents" SET "name" = "name";
\ No newline at end of file
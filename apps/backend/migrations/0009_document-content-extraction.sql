@@ -0,0 +1,13 @@
+ALTER TABLE "document_contents" DROP CONSTRAINT "document_contents_pkey";--> statement-breakpoint
+ALTER TABLE "document_contents" ALTER COLUMN "content" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "document_contents" drop column "search_vector";--> statement-breakpoint
+ALTER TABLE "document_contents" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("content", '')), 'D')) STORED NOT NULL;--> statement-breakpoint
+CREATE INDEX "document_contents_search_vector_idx" ON "document_contents" USING gin ("search_vector");--> statement-breakpoint
+ALTER TABLE "document_contents" ADD COLUMN "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL;--> statement-breakpoint
+ALTER TABLE "document_contents" ADD COLUMN "created_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "document_contents" ADD COLUMN "extractor" text;--> statement-breakpoint
+ALTER TABLE "document_contents" ADD COLUMN "status" text;--> statement-breakpoint
+UPDATE "document_contents" SET "status" = 'extracted', "extractor" = 'text';--> statement-breakpoint
+ALTER TABLE "document_contents" ALTER COLUMN "status" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "document_contents" ADD COLUMN "error" text;--> statement-breakpoint
+ALTER TABLE "document_contents" ADD CONSTRAINT "document_contents_document_id_unique" UNIQUE("document_id");
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "document_renditions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"document_id" uuid NOT NULL,
+	"size" integer NOT NULL,
+	"width" integer NOT NULL,
+	"height" integer NOT NULL,
+	"file_path" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"file_size" integer NOT NULL,
+	CONSTRAINT "document_renditions_document_id_size_unique" UNIQUE("document_id","size")
+);
+--> statement-breakpoint
+ALTER TABLE "document_renditions" ADD CONSTRAINT "document_renditions_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
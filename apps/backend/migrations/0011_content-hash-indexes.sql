@@ -0,0 +1,2 @@
+CREATE INDEX "document_versions_file_path_idx" ON "document_versions" USING btree ("file_path");--> statement-breakpoint
+CREATE INDEX "documents_content_hash_idx" ON "documents" USING btree ("content_hash");
\ No newline at end of file
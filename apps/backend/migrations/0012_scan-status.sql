@@ -0,0 +1,2 @@
+ALTER TABLE "documents" ADD COLUMN "scan_status" text DEFAULT 'pending' NOT NULL;--> statement-breakpoint
+CREATE INDEX "documents_scan_status_idx" ON "documents" USING btree ("scan_status");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "outbox" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"event_type" text NOT NULL,
+	"aggregate_id" uuid NOT NULL,
+	"payload" jsonb NOT NULL,
+	"occurred_at" timestamp NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"available_at" timestamp DEFAULT now() NOT NULL,
+	"published_at" timestamp,
+	"last_error" text
+);
+--> statement-breakpoint
+CREATE INDEX "outbox_published_at_available_at_idx" ON "outbox" USING btree ("published_at","available_at");--> statement-breakpoint
+CREATE INDEX "outbox_occurred_at_idx" ON "outbox" USING btree ("occurred_at");
\ No newline at end of file
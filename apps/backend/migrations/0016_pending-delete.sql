@@ -0,0 +1,2 @@
+ALTER TABLE "documents" ADD COLUMN "status" text DEFAULT 'active' NOT NULL;--> statement-breakpoint
+CREATE INDEX "documents_status_idx" ON "documents" USING btree ("status");
\ No newline at end of file
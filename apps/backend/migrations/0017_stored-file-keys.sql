@@ -0,0 +1,13 @@
+CREATE TABLE "stored_file_keys" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"file_path" text NOT NULL,
+	"wrapped_key" text NOT NULL,
+	"master_key_id" text NOT NULL,
+	"iv" text NOT NULL,
+	"size" integer NOT NULL,
+	CONSTRAINT "stored_file_keys_file_path_unique" UNIQUE("file_path")
+);
+--> statement-breakpoint
+CREATE INDEX "stored_file_keys_master_key_id_idx" ON "stored_file_keys" USING btree ("master_key_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "document_uploads" ADD COLUMN "file_path" text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "documents" ADD COLUMN "locked_by" uuid;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "lock_expires_at" timestamp;--> statement-breakpoint
+ALTER TABLE "documents" ADD CONSTRAINT "documents_locked_by_users_id_fk" FOREIGN KEY ("locked_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
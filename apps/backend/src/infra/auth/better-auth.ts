@@ -6,7 +6,9 @@ import {
   instanceCachingFactory,
 } from "tsyringe"
 import * as authSchema from "@/infra/db/models/auth.model"
+import config from "@/infra/config"
 import { resolveDbFromContainer } from "../db/conn"
+import { resolveMemoryStoreFromContainer } from "../db/memory/memory.store"
 import { createBetterAuthInstance } from "./create-instance"
 
 const AuthSym = Symbol.for("AuthProvider")
@@ -14,8 +16,11 @@ export type AuthHandler = ReturnType<typeof createBetterAuthInstance>
 
 const AuthProvider: FactoryProvider<AuthHandler> = {
   useFactory: instanceCachingFactory((container) => {
-    const db = resolveDbFromContainer(container)
-    const auth = createBetterAuthInstance(db, authSchema)
+    // In memory, Better Auth shares its users with the in-memory user repository
+    const auth =
+      config.db.DB_BACKEND === "memory"
+        ? createBetterAuthInstance(resolveMemoryStoreFromContainer(container))
+        : createBetterAuthInstance(resolveDbFromContainer(container), authSchema)
 
     return auth
   }),
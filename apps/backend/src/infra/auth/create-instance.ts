@@ -2,11 +2,13 @@ import { NewUserSchema } from "@contract/schemas/user"
 import config from "@infra/config"
 import { betterAuth } from "better-auth"
 import { drizzleAdapter } from "better-auth/adapters/drizzle"
+import { memoryAdapter } from "better-auth/adapters/memory"
 import { APIError, createAuthMiddleware } from "better-auth/api"
 import { openAPI } from "better-auth/plugins"
 import { z } from "zod/v4"
 import { CORS_TRUSTED_ORIGINS } from "@/constants"
 import type { AppDatabase } from "../db/conn"
+import { MemoryStore } from "../db/memory/memory.store"
 
 const beforeHooks = createAuthMiddleware(async (ctx) => {
   if (ctx.path === "/sign-up/email") {
@@ -24,15 +26,18 @@ const beforeHooks = createAuthMiddleware(async (ctx) => {
 
 // biome-ignore lint/suspicious/noExplicitAny: Need it for type inference
 export const createBetterAuthInstance = <T extends Record<string, any>>(
-  db: AppDatabase,
+  db: AppDatabase | MemoryStore,
   schema?: T,
 ) => {
+  const inMemory = db instanceof MemoryStore
   const auth = betterAuth({
     basePath: "/auth",
-    database: drizzleAdapter(db, {
-      provider: "pg",
-      schema,
-    }),
+    database: inMemory
+      ? memoryAdapter(db.auth)
+      : drizzleAdapter(db, {
+          provider: "pg",
+          schema,
+        }),
 
     // Configure user schema to match your domain entities
     user: {
@@ -92,7 +97,8 @@ export const createBetterAuthInstance = <T extends Record<string, any>>(
     // },
 
     advanced: {
-      database: { generateId: false }, // generate uuids via drizzle
+      // generate uuids via drizzle - the memory adapter has no defaults, so ids are generated here
+      database: { generateId: inMemory ? () => crypto.randomUUID() : false },
     },
 
     // https://www.better-auth.com/docs/concepts/hooks#example-enforce-email-domain-restriction
@@ -15,4 +15,7 @@ const TRUSTED_ORIGIN = env
 const APP_NAME = env.get("APP_NAME").default("Headless DMS").asString()
 const BASE_URL = env.get("BASE_URL").default("http://localhost:8000").asString()
 
-export default { PORT, NODE_ENV, TRUSTED_ORIGIN, APP_NAME, BASE_URL } as const
+// Behind a reverse proxy, client addresses come from X-Forwarded-For (which clients can forge otherwise)
+const TRUST_PROXY = env.get("TRUST_PROXY").default("false").asBool()
+
+export default { PORT, NODE_ENV, TRUSTED_ORIGIN, APP_NAME, BASE_URL, TRUST_PROXY } as const
@@ -1,8 +1,30 @@
 import "dotenv/config"
 import * as env from "env-var"
 
-const DB_URL = env.get("DB_URL").required().asString()
+// "memory" keeps every table in process memory - nothing survives a restart, for demos only
+export const DbBackends = ["postgres", "memory"] as const
+export type DbBackend = (typeof DbBackends)[number]
 
-const dbConfig = { DB_URL } as const
+const DB_BACKEND = env.get("DB_BACKEND").default("postgres").asEnum(DbBackends)
+
+// "pglite" runs Postgres embedded in the process (WASM), persisted to PGLITE_DATA_DIR - for
+// single-process installs without a database server
+export const DbDrivers = ["postgres-js", "pglite"] as const
+export type DbDriver = (typeof DbDrivers)[number]
+
+const DB_DRIVER = env.get("DB_DRIVER").default("postgres-js").asEnum(DbDrivers)
+
+const DB_URL = env
+  .get("DB_URL")
+  .required(DB_BACKEND === "postgres" && DB_DRIVER === "postgres-js")
+  .asString()
+
+const PGLITE_DATA_DIR = env.get("PGLITE_DATA_DIR").default("./data/pglite").asString()
+
+// The migrations the embedded database is brought up to date with on boot, relative to the
+// working directory like PGLITE_DATA_DIR - a bundled server no longer sits next to them
+const MIGRATIONS_DIR = env.get("MIGRATIONS_DIR").default("./migrations").asString()
+
+const dbConfig = { DB_BACKEND, DB_DRIVER, DB_URL, PGLITE_DATA_DIR, MIGRATIONS_DIR } as const
 
 export default dbConfig
@@ -3,6 +3,8 @@ import "dotenv/config"
 import appConfig from "./app.config"
 import authConfig from "./auth.config"
 import dbConfig from "./db.config"
+import jobsConfig from "./jobs.config"
+import scanningConfig from "./scanning.config"
 import storageConfig from "./storage.config"
 
-export default { auth: authConfig, db: dbConfig, app: appConfig, storage: storageConfig }
+export default { auth: authConfig, db: dbConfig, app: appConfig, storage: storageConfig, jobs: jobsConfig, scanning: scanningConfig }
@@ -0,0 +1,76 @@
+import "dotenv/config"
+import * as env from "env-var"
+
+// Trashed documents are purged for good once they are older than the retention period
+const TRASH_RETENTION_DAYS = env
+  .get("TRASH_RETENTION_DAYS")
+  .default(30)
+  .asIntPositive()
+const TRASH_PURGE_INTERVAL_MINUTES = env
+  .get("TRASH_PURGE_INTERVAL_MINUTES")
+  .default(60)
+  .asIntPositive()
+
+// Purges whose files couldn't all be deleted are retried this often
+const DELETION_RETRY_INTERVAL_MINUTES = env
+  .get("DELETION_RETRY_INTERVAL_MINUTES")
+  .default(15)
+  .asIntPositive()
+
+// Unfinished resumable uploads are discarded once they received nothing for this long
+const UPLOAD_EXPIRY_HOURS = env
+  .get("UPLOAD_EXPIRY_HOURS")
+  .default(24)
+  .asIntPositive()
+const UPLOAD_PURGE_INTERVAL_MINUTES = env
+  .get("UPLOAD_PURGE_INTERVAL_MINUTES")
+  .default(60)
+  .asIntPositive()
+
+// Domain events are relayed from the outbox this often, and kept for a while once published
+const OUTBOX_RELAY_INTERVAL_SECONDS = env
+  .get("OUTBOX_RELAY_INTERVAL_SECONDS")
+  .default(5)
+  .asIntPositive()
+const OUTBOX_RETENTION_DAYS = env
+  .get("OUTBOX_RETENTION_DAYS")
+  .default(7)
+  .asIntPositive()
+
+// Storage is reconciled with the documents this often. Scheduled runs only report orphaned files
+// unless cleanup is enabled, and never touch files younger than the grace period
+const STORAGE_RECONCILE_INTERVAL_HOURS = env
+  .get("STORAGE_RECONCILE_INTERVAL_HOURS")
+  .default(24)
+  .asIntPositive()
+const STORAGE_RECONCILE_CLEANUP = env
+  .get("STORAGE_RECONCILE_CLEANUP")
+  .default("false")
+  .asBool()
+const STORAGE_RECONCILE_GRACE_MINUTES = env
+  .get("STORAGE_RECONCILE_GRACE_MINUTES")
+  .default(60)
+  .asIntPositive()
+
+const jobsConfig = {
+  trash: {
+    retentionDays: TRASH_RETENTION_DAYS,
+    purgeIntervalMinutes: TRASH_PURGE_INTERVAL_MINUTES,
+    deletionRetryIntervalMinutes: DELETION_RETRY_INTERVAL_MINUTES,
+  },
+  uploads: {
+    expiryHours: UPLOAD_EXPIRY_HOURS,
+    purgeIntervalMinutes: UPLOAD_PURGE_INTERVAL_MINUTES,
+  },
+  outbox: {
+    relayIntervalSeconds: OUTBOX_RELAY_INTERVAL_SECONDS,
+    retentionDays: OUTBOX_RETENTION_DAYS,
+  },
+  reconciliation: {
+    intervalHours: STORAGE_RECONCILE_INTERVAL_HOURS,
+    cleanup: STORAGE_RECONCILE_CLEANUP,
+    graceMinutes: STORAGE_RECONCILE_GRACE_MINUTES,
+  },
+} as const
+
+export default jobsConfig
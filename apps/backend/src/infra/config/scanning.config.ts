@@ -0,0 +1,35 @@
+import "dotenv/config"
+import * as env from "env-var"
+
+export type ContentScannerBackend = "local" | "clamd"
+
+// "local" only detects the EICAR test file - use clamd for real malware scanning
+const CONTENT_SCANNER = env
+  .get("CONTENT_SCANNER")
+  .default("local")
+  .asEnum(["local", "clamd"] as const)
+
+const CLAMD_HOST = env.get("CLAMD_HOST").default("127.0.0.1").asString()
+const CLAMD_PORT = env.get("CLAMD_PORT").default(3310).asPortNumber()
+const CLAMD_TIMEOUT_MS = env
+  .get("CLAMD_TIMEOUT_MS")
+  .default(60_000)
+  .asIntPositive()
+
+// Documents whose scan is pending or failed are scanned again on this interval
+const SCAN_RETRY_INTERVAL_MINUTES = env
+  .get("SCAN_RETRY_INTERVAL_MINUTES")
+  .default(15)
+  .asIntPositive()
+
+const scanningConfig = {
+  backend: CONTENT_SCANNER,
+  retryIntervalMinutes: SCAN_RETRY_INTERVAL_MINUTES,
+  clamd: {
+    host: CLAMD_HOST,
+    port: CLAMD_PORT,
+    timeoutMs: CLAMD_TIMEOUT_MS,
+  },
+} as const
+
+export default scanningConfig
@@ -1,15 +1,42 @@
 import "dotenv/config"
 import * as env from "env-var"
 
-export type StorageBackend = "local" | "s3"
+// Files in "memory" are lost when the process exits - for demos without a disk or bucket
+export const StorageBackends = ["local", "s3", "memory"] as const
+export type StorageBackend = (typeof StorageBackends)[number]
 
 const STORAGE_BACKEND = env
   .get("STORAGE_BACKEND")
   .default("local")
-  .asEnum(["local", "s3"] as const)
+  .asEnum(StorageBackends)
+
+// Set while files move to STORAGE_BACKEND from another backend - it stays readable until they moved
+const STORAGE_MIGRATION_SOURCE = env
+  .get("STORAGE_MIGRATION_SOURCE")
+  .asEnum(StorageBackends)
+
+// Copy rate of storage migrations, in MiB per second
+const STORAGE_MIGRATION_RATE_MIB = env
+  .get("STORAGE_MIGRATION_RATE_MIB")
+  .default(10)
+  .asIntPositive()
 
 const STORAGE_PATH = env.get("STORAGE_PATH").default("./uploads").asString()
 
+// Stored files are encrypted while a master key is set (32 bytes, base64). Keys it replaced stay
+// listed until rotation re-wrapped the data keys of the files they protect
+const STORAGE_ENCRYPTION_KEY = env.get("STORAGE_ENCRYPTION_KEY").asString()
+const STORAGE_ENCRYPTION_PREVIOUS_KEYS = env
+  .get("STORAGE_ENCRYPTION_PREVIOUS_KEYS")
+  .default("")
+  .asArray(",")
+
+// Largest file accepted through resumable (tus) uploads - sizes are stored as 32-bit integers
+const TUS_MAX_SIZE = env
+  .get("TUS_MAX_SIZE")
+  .default(1024 * 1024 * 1024)
+  .asIntPositive()
+
 // S3 Configuration - Using standard AWS environment variables
 const S3_BUCKET_NAME = env.get("S3_BUCKET_NAME").asString()
 const S3_REGION = env.get("AWS_DEFAULT_REGION").default("us-east-1").asString()
@@ -17,15 +44,33 @@ const S3_ACCESS_KEY_ID = env.get("AWS_ACCESS_KEY_ID").asString()
 const S3_SECRET_ACCESS_KEY = env.get("AWS_SECRET_ACCESS_KEY").asString()
 const S3_ENDPOINT = env.get("S3_ENDPOINT").asString()
 
+// Let clients upload to and download from the bucket directly, through presigned URLs
+const S3_PRESIGNED_URLS = env.get("S3_PRESIGNED_URLS").default("false").asBool()
+const S3_UPLOAD_URL_EXPIRY_MINUTES = env
+  .get("S3_UPLOAD_URL_EXPIRY_MINUTES")
+  .default(15)
+  .asIntPositive()
+
 const storageConfig = {
   backend: STORAGE_BACKEND,
   path: STORAGE_PATH,
+  migration: {
+    source: STORAGE_MIGRATION_SOURCE,
+    rateMib: STORAGE_MIGRATION_RATE_MIB,
+  },
+  encryption: {
+    key: STORAGE_ENCRYPTION_KEY,
+    previousKeys: STORAGE_ENCRYPTION_PREVIOUS_KEYS,
+  },
+  tusMaxSize: Math.min(TUS_MAX_SIZE, 2 ** 31 - 1),
   s3: {
     bucketName: S3_BUCKET_NAME,
     region: S3_REGION,
     accessKeyId: S3_ACCESS_KEY_ID,
     secretAccessKey: S3_SECRET_ACCESS_KEY,
     endpoint: S3_ENDPOINT,
+    presignedUrls: S3_PRESIGNED_URLS,
+    uploadUrlExpiryMinutes: S3_UPLOAD_URL_EXPIRY_MINUTES,
   },
 } as const
 
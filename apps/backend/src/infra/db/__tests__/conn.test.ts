@@ -0,0 +1,72 @@
+import "reflect-metadata"
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+
+// The connection module loads the app config, so its secrets must be set - bun sets NODE_ENV to
+// "test", which the config doesn't accept
+process.env.NODE_ENV = "testing"
+process.env.HASH_SECRET ??= "embedded-db"
+process.env.JWT_SECRET ??= "embedded-db"
+process.env.DOCS_AUTH_PASS ??= "embedded-db"
+process.env.DB_DRIVER ??= "pglite"
+// Tests may run from the repository root rather than apps/backend
+process.env.MIGRATIONS_DIR ??= join(import.meta.dir, "../../../../migrations")
+
+const { openEmbeddedDb, resolveDb } = await import("../conn")
+const { documents, folders, users } = await import("../schema")
+
+// Opening a PGlite data directory and running every migration takes seconds, more than bun's
+// default timeout allows on a slow machine
+const OPEN_TIMEOUT = 60_000
+
+describe("openEmbeddedDb", () => {
+  let dataDir: string
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), "embedded-db-"))
+  })
+
+  afterEach(async () => {
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  test(
+    "should apply the migrations to a new data directory",
+    async () => {
+      const close = await openEmbeddedDb(dataDir)
+
+      try {
+        // Selecting every column fails unless the latest migrations have been applied
+        expect(await resolveDb().select().from(users)).toEqual([])
+        expect(await resolveDb().select().from(documents)).toEqual([])
+      } finally {
+        await close()
+      }
+    },
+    OPEN_TIMEOUT,
+  )
+
+  test(
+    "should keep what was written once reopened",
+    async () => {
+      const close = await openEmbeddedDb(dataDir)
+      await resolveDb().insert(folders).values({ name: "Archive" })
+      await close()
+
+      // Reopening runs the migrations again, which must leave the data alone
+      const reopened = await openEmbeddedDb(dataDir)
+
+      try {
+        const saved = await resolveDb()
+          .select({ name: folders.name })
+          .from(folders)
+        expect(saved).toEqual([{ name: "Archive" }])
+      } finally {
+        await reopened()
+      }
+    },
+    OPEN_TIMEOUT,
+  )
+})
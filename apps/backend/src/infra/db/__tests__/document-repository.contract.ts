@@ -0,0 +1,701 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import type { DocumentEntity } from "@domain/document/document.entity"
+import {
+  DocumentAlreadyExistsError,
+  DocumentLockedError,
+  DocumentModifiedError,
+  DocumentNotFoundError,
+} from "@domain/document/document.errors"
+import type { DocumentRepository } from "@domain/document/document.repository"
+import { DocumentPermissionEntity } from "@domain/document/document-permission.entity"
+import { FolderEntity } from "@domain/folder/folder.entity"
+import {
+  minutesAfterStart,
+  newDocument,
+  newUser,
+  type RepositoryFixture,
+} from "./repository.fixture"
+
+const names = (documents: DocumentEntity[]) =>
+  documents.map((document) => document.name)
+
+/**
+ * What callers of a DocumentRepository rely on, run against the repositories `setup` creates for
+ * each test.
+ */
+export const describeDocumentRepositoryContract = (
+  name: string,
+  setup: () => Promise<RepositoryFixture>,
+) => {
+  describe(`DocumentRepository contract: ${name}`, () => {
+    let fixture: RepositoryFixture
+    let repository: DocumentRepository
+
+    beforeEach(async () => {
+      fixture = await setup()
+      repository = fixture.documents
+    })
+
+    afterEach(async () => {
+      await fixture.cleanup?.()
+    })
+
+    const create = async (document: DocumentEntity) =>
+      (await repository.create(document)).unwrap()
+
+    describe("create and find", () => {
+      test("should read back every field that was saved", async () => {
+        const created = await create(
+          newDocument({
+            name: "report",
+            filePath: "contract/report.pdf",
+            mimeType: "application/pdf",
+            size: 1234,
+            tags: ["finance", "q1"],
+            metadata: { department: "sales" },
+            contentHash: "abc123",
+          }),
+        )
+
+        const found = (await repository.findById(created.id)).unwrap()
+
+        expect(found.id).toBe(created.id)
+        expect(found.name).toBe("report")
+        expect(found.filePath).toBe("contract/report.pdf")
+        expect(found.mimeType).toBe("application/pdf")
+        expect(found.size).toBe(1234)
+        expect(found.tags).toEqual(["finance", "q1"])
+        expect(found.metadata).toEqual({ department: "sales" })
+        expect(found.contentHash).toBe("abc123")
+        expect(found.scanStatus).toBe("pending")
+        expect(found.folderId).toBeUndefined()
+        expect(found.ownerId).toBeUndefined()
+        expect(found.deletedAt).toBeUndefined()
+      })
+
+      test("should keep the id of the entity", async () => {
+        const document = newDocument({ name: "report" })
+
+        expect((await create(document)).id).toBe(document.id)
+      })
+
+      test("should read back empty tags and metadata as empty", async () => {
+        const created = await create(newDocument({ name: "plain" }))
+
+        const found = (await repository.findById(created.id)).unwrap()
+
+        expect(found.tags).toEqual([])
+        expect(found.metadata).toEqual({})
+      })
+
+      test("should find documents by name, folder and file path", async () => {
+        const created = await create(newDocument({ name: "report" }))
+
+        expect((await repository.findByName("report")).unwrap().id).toBe(
+          created.id,
+        )
+        expect(
+          (await repository.findByNameInFolder("report", null)).unwrap().id,
+        ).toBe(created.id)
+        expect(
+          (await repository.findByFilePath("contract/report.txt")).unwrap().id,
+        ).toBe(created.id)
+      })
+    })
+
+    describe("conflicts", () => {
+      test("should reject a second document of the same name in a folder", async () => {
+        await create(newDocument({ name: "report" }))
+
+        const result = await repository.create(
+          newDocument({ name: "report", filePath: "contract/other.txt" }),
+        )
+
+        expect(result.isErr()).toBe(true)
+        expect(result.unwrapErr()).toBeInstanceOf(DocumentAlreadyExistsError)
+      })
+
+      test("should allow the same name in different folders", async () => {
+        const folder = (
+          await fixture.folders.create(FolderEntity.create({ name: "archive" }))
+        ).unwrap()
+        await create(newDocument({ name: "report" }))
+
+        const result = await repository.create(
+          newDocument({
+            name: "report",
+            filePath: "contract/archived.txt",
+            folderId: folder.id,
+          }),
+        )
+
+        expect(result.isOk()).toBe(true)
+        expect(
+          (await repository.findByNameInFolder("report", folder.id)).unwrap()
+            .folderId,
+        ).toBe(folder.id)
+      })
+
+      test("should free the name of a trashed document", async () => {
+        const trashed = await create(newDocument({ name: "report" }))
+        ;(await repository.update(trashed.moveToTrash())).unwrap()
+
+        const result = await repository.create(
+          newDocument({ name: "report", filePath: "contract/new.txt" }),
+        )
+
+        expect(result.isOk()).toBe(true)
+      })
+    })
+
+    describe("not found", () => {
+      const missing = newDocument({ name: "missing" })
+
+      test("should fail to find an unknown id", async () => {
+        const result = await repository.findById(missing.id)
+
+        expect(result.isErr()).toBe(true)
+        expect(result.unwrapErr()).toBeInstanceOf(DocumentNotFoundError)
+      })
+
+      test("should fail to find unknown names and file paths", async () => {
+        expect((await repository.findByName("missing")).isErr()).toBe(true)
+        expect(
+          (await repository.findByNameInFolder("missing", null)).isErr(),
+        ).toBe(true)
+        expect(
+          (await repository.findByFilePath("contract/missing.txt")).isErr(),
+        ).toBe(true)
+      })
+
+      test("should fail to update or delete a document that wasn't saved", async () => {
+        const update = await repository.update(missing)
+        const updateFields = await repository.updateDocumentFields(missing.id, {
+          name: "renamed",
+        })
+        const remove = await repository.delete(missing)
+
+        expect(update.unwrapErr()).toBeInstanceOf(DocumentNotFoundError)
+        expect(updateFields.unwrapErr()).toBeInstanceOf(DocumentNotFoundError)
+        expect(remove.unwrapErr()).toBeInstanceOf(DocumentNotFoundError)
+      })
+
+      test("should hide trashed documents from finders", async () => {
+        const created = await create(newDocument({ name: "report" }))
+        ;(await repository.update(created.moveToTrash())).unwrap()
+
+        expect((await repository.findById(created.id)).isErr()).toBe(true)
+        expect((await repository.findByName("report")).isErr()).toBe(true)
+        expect((await repository.count()).unwrap()).toBe(0)
+        expect((await repository.findDeletedById(created.id)).unwrap().id).toBe(
+          created.id,
+        )
+      })
+    })
+
+    describe("update and delete", () => {
+      test("should save the changes of the entity", async () => {
+        const created = await create(newDocument({ name: "report" }))
+
+        const updated = (
+          await repository.update(
+            created.update({
+              name: "renamed",
+              tags: ["final"],
+              metadata: { status: "done" },
+            }),
+          )
+        ).unwrap()
+        const found = (await repository.findById(created.id)).unwrap()
+
+        expect(updated.name).toBe("renamed")
+        expect(found.name).toBe("renamed")
+        expect(found.tags).toEqual(["final"])
+        expect(found.metadata).toEqual({ status: "done" })
+      })
+
+      test("should change only the fields given", async () => {
+        const created = await create(
+          newDocument({ name: "report", tags: ["draft"], size: 10 }),
+        )
+
+        const updated = (
+          await repository.updateDocumentFields(created.id, { size: 20 })
+        ).unwrap()
+
+        expect(updated.size).toBe(20)
+        expect(updated.name).toBe("report")
+        expect(updated.tags).toEqual(["draft"])
+      })
+
+      test("should remove deleted documents", async () => {
+        const created = await create(newDocument({ name: "report" }))
+
+        ;(await repository.delete(created)).unwrap()
+
+        expect((await repository.findById(created.id)).isErr()).toBe(true)
+        expect((await repository.findDeletedById(created.id)).isErr()).toBe(
+          true,
+        )
+      })
+    })
+
+    describe("versions", () => {
+      test("should start at version 1 and raise it on every save", async () => {
+        const created = await create(newDocument({ name: "report" }))
+
+        const updated = (
+          await repository.update(created.update({ name: "renamed" }))
+        ).unwrap()
+        const resized = (
+          await repository.updateDocumentFields(created.id, { size: 20 })
+        ).unwrap()
+
+        expect(created.version).toBe(1)
+        expect(updated.version).toBe(2)
+        expect(resized.version).toBe(3)
+      })
+
+      test("should only save over the expected version", async () => {
+        const created = await create(newDocument({ name: "report" }))
+        ;(
+          await repository.update(created.update({ name: "first" }), 1)
+        ).unwrap()
+
+        const result = await repository.update(
+          created.update({ name: "second" }),
+          1,
+        )
+        const found = (await repository.findById(created.id)).unwrap()
+
+        expect(result.unwrapErr()).toBeInstanceOf(DocumentModifiedError)
+        expect(result.unwrapErr().message).toContain("version 2, not 1")
+        expect(found.name).toBe("first")
+        expect(found.version).toBe(2)
+      })
+
+      test("should leave the version alone when checking out", async () => {
+        const holder = (
+          await fixture.users.create(newUser("holder@example.com"))
+        ).unwrap().id
+        const created = await create(newDocument({ name: "report" }))
+
+        const checkedOut = (
+          await repository.saveCheckout(
+            created.checkOut(holder, new Date(Date.now() + 60_000)),
+            holder,
+          )
+        ).unwrap()
+
+        expect(checkedOut.version).toBe(1)
+      })
+    })
+
+    describe("checkout", () => {
+      const inMinutes = (minutes: number) =>
+        new Date(Date.now() + minutes * 60_000)
+
+      const createUser = async (email: string) =>
+        (await fixture.users.create(newUser(email))).unwrap().id
+
+      test("should save the holder and expiry, and nothing else", async () => {
+        const holder = await createUser("holder@example.com")
+        const created = await create(newDocument({ name: "report" }))
+        const expiresAt = inMinutes(30)
+
+        const checkedOut = (
+          await repository.saveCheckout(
+            created.update({ name: "unsaved" }).checkOut(holder, expiresAt),
+            holder,
+          )
+        ).unwrap()
+        const found = (await repository.findById(created.id)).unwrap()
+
+        expect(checkedOut.lockedBy).toBe(holder)
+        expect(found.lockedBy).toBe(holder)
+        expect(found.lockExpiresAt?.epochMillis).toBe(expiresAt.getTime())
+        expect(found.name).toBe("report")
+      })
+
+      test("should keep the saved checkout when the document is updated", async () => {
+        const holder = await createUser("holder@example.com")
+        const created = await create(newDocument({ name: "report" }))
+        await repository.saveCheckout(
+          created.checkOut(holder, inMinutes(30)),
+          holder,
+        )
+
+        // `created` was read before the checkout, so it isn't checked out itself
+
+        ;(await repository.update(created.update({ name: "renamed" }))).unwrap()
+        const found = (await repository.findById(created.id)).unwrap()
+
+        expect(found.name).toBe("renamed")
+        expect(found.lockedBy).toBe(holder)
+      })
+
+      test("should refuse an update from a user other than the holder of a checkout taken since the read", async () => {
+        const holder = await createUser("holder@example.com")
+        const other = await createUser("other@example.com")
+        const created = await create(newDocument({ name: "report" }))
+        // `created` was read before the checkout, so it isn't checked out itself
+        await repository.saveCheckout(
+          created.checkOut(holder, inMinutes(30)),
+          holder,
+        )
+
+        const result = await repository.update(
+          created.update({ name: "renamed" }),
+          undefined,
+          other,
+        )
+        const byHolder = await repository.update(
+          created.update({ name: "by holder" }),
+          undefined,
+          holder,
+        )
+
+        expect(result.unwrapErr()).toBeInstanceOf(DocumentLockedError)
+        expect(byHolder.unwrap().name).toBe("by holder")
+        expect((await repository.findById(created.id)).unwrap().lockedBy).toBe(
+          holder,
+        )
+      })
+
+      test("should refuse a checkout while another user's is running", async () => {
+        const holder = await createUser("holder@example.com")
+        const other = await createUser("other@example.com")
+        const created = await create(newDocument({ name: "report" }))
+        await repository.saveCheckout(
+          created.checkOut(holder, inMinutes(30)),
+          holder,
+        )
+
+        const result = await repository.saveCheckout(
+          created.checkOut(other, inMinutes(30)),
+          other,
+        )
+        const checkIn = await repository.saveCheckout(created.checkIn(), other)
+
+        expect(result.unwrapErr()).toBeInstanceOf(DocumentLockedError)
+        expect(checkIn.unwrapErr()).toBeInstanceOf(DocumentLockedError)
+        expect((await repository.findById(created.id)).unwrap().lockedBy).toBe(
+          holder,
+        )
+      })
+
+      test("should let the holder extend and check in, and others take over lapsed checkouts", async () => {
+        const holder = await createUser("holder@example.com")
+        const other = await createUser("other@example.com")
+        const created = await create(newDocument({ name: "report" }))
+        await repository.saveCheckout(
+          created.checkOut(holder, inMinutes(-1)),
+          holder,
+        )
+
+        const takenOver = await repository.saveCheckout(
+          created.checkOut(other, inMinutes(30)),
+          other,
+        )
+        const extended = await repository.saveCheckout(
+          created.checkOut(other, inMinutes(60)),
+          other,
+        )
+        const checkedIn = await repository.saveCheckout(
+          created.checkIn(),
+          other,
+        )
+
+        expect(takenOver.unwrap().lockedBy).toBe(other)
+        expect(extended.unwrap().lockExpiresAt?.epochMillis).toBeGreaterThan(
+          takenOver.unwrap().lockExpiresAt?.epochMillis ?? 0,
+        )
+        expect(checkedIn.unwrap().lockedBy).toBeUndefined()
+        expect(checkedIn.unwrap().lockExpiresAt).toBeUndefined()
+      })
+
+      test("should break any checkout when no user is given", async () => {
+        const holder = await createUser("holder@example.com")
+        const created = await create(newDocument({ name: "report" }))
+        await repository.saveCheckout(
+          created.checkOut(holder, inMinutes(30)),
+          holder,
+        )
+
+        const broken = (
+          await repository.saveCheckout(created.checkIn())
+        ).unwrap()
+
+        expect(broken.isLocked()).toBe(false)
+      })
+
+      test("should fail to check out a document that wasn't saved", async () => {
+        const holder = await createUser("holder@example.com")
+        const missing = newDocument({ name: "missing" })
+
+        const result = await repository.saveCheckout(
+          missing.checkOut(holder, inMinutes(30)),
+          holder,
+        )
+
+        expect(result.unwrapErr()).toBeInstanceOf(DocumentNotFoundError)
+      })
+
+      test("should release the checkouts of deleted users", async () => {
+        const holder = (
+          await fixture.users.create(newUser("holder@example.com"))
+        ).unwrap()
+        const created = await create(newDocument({ name: "report" }))
+        await repository.saveCheckout(
+          created.checkOut(holder.id, inMinutes(30)),
+          holder.id,
+        )
+
+        ;(await fixture.users.delete(holder)).unwrap()
+
+        const found = (await repository.findById(created.id)).unwrap()
+        expect(found.lockedBy).toBeUndefined()
+        expect(found.isLocked()).toBe(false)
+      })
+    })
+
+    describe("filters", () => {
+      let folderId: NonNullable<DocumentEntity["folderId"]>
+
+      beforeEach(async () => {
+        folderId = (
+          await fixture.folders.create(FolderEntity.create({ name: "reports" }))
+        ).unwrap().id
+
+        await create(
+          newDocument(
+            {
+              name: "alpha report",
+              mimeType: "application/pdf",
+              size: 100,
+              tags: ["finance", "q1"],
+              metadata: { department: "sales" },
+            },
+            minutesAfterStart(1),
+          ),
+        )
+        await create(
+          newDocument(
+            {
+              name: "beta notes",
+              size: 200,
+              tags: ["q2"],
+              metadata: { department: "ops", region: "eu" },
+            },
+            minutesAfterStart(2),
+          ),
+        )
+        await create(
+          newDocument(
+            { name: "gamma REPORT", size: 300, folderId },
+            minutesAfterStart(3),
+          ),
+        )
+      })
+
+      test("should list every document, newest first", async () => {
+        const { documents, total } = (await repository.find()).unwrap()
+
+        expect(names(documents)).toEqual([
+          "gamma REPORT",
+          "beta notes",
+          "alpha report",
+        ])
+        expect(total).toBe(3)
+      })
+
+      test("should match names partially, ignoring case", async () => {
+        const { documents } = (
+          await repository.find({ name: "report" })
+        ).unwrap()
+
+        expect(names(documents)).toEqual(["gamma REPORT", "alpha report"])
+      })
+
+      test("should match the mime type exactly", async () => {
+        const { documents } = (
+          await repository.find({ mimeType: "text/plain" })
+        ).unwrap()
+
+        expect(names(documents)).toEqual(["gamma REPORT", "beta notes"])
+      })
+
+      test("should match documents with any of the tags", async () => {
+        const { documents } = (
+          await repository.find({ tags: ["q1", "q2"] })
+        ).unwrap()
+
+        expect(names(documents)).toEqual(["beta notes", "alpha report"])
+        expect(
+          names((await repository.findByTags(["finance"])).unwrap()),
+        ).toEqual(["alpha report"])
+      })
+
+      test("should match documents with any of the metadata pairs", async () => {
+        const ops = (
+          await repository.find({ metadata: { department: "ops" } })
+        ).unwrap()
+        const either = (
+          await repository.find({
+            metadata: { department: "sales", region: "eu" },
+          })
+        ).unwrap()
+
+        expect(names(ops.documents)).toEqual(["beta notes"])
+        expect(names(either.documents)).toEqual(["beta notes", "alpha report"])
+      })
+
+      test("should include both ends of size and date ranges", async () => {
+        const bySize = (
+          await repository.find({ minSize: 200, maxSize: 300 })
+        ).unwrap()
+        const byDate = (
+          await repository.find({
+            fromDate: minutesAfterStart(1),
+            toDate: minutesAfterStart(2),
+          })
+        ).unwrap()
+
+        expect(names(bySize.documents)).toEqual(["gamma REPORT", "beta notes"])
+        expect(names(byDate.documents)).toEqual(["beta notes", "alpha report"])
+      })
+
+      test("should tell documents at the root from those in a folder", async () => {
+        const root = (await repository.find({ folderId: null })).unwrap()
+        const inFolder = (await repository.find({ folderId })).unwrap()
+
+        expect(names(root.documents)).toEqual(["beta notes", "alpha report"])
+        expect(names(inFolder.documents)).toEqual(["gamma REPORT"])
+        expect(names((await repository.findByFolder(null)).unwrap())).toEqual([
+          "alpha report",
+          "beta notes",
+        ])
+      })
+
+      test("should combine filters", async () => {
+        const { documents, total } = (
+          await repository.find({ name: "report", mimeType: "text/plain" })
+        ).unwrap()
+
+        expect(names(documents)).toEqual(["gamma REPORT"])
+        expect(total).toBe(1)
+      })
+
+      test("should count the same documents it finds", async () => {
+        const query = { tags: ["q1", "q2"] }
+
+        expect((await repository.count(query)).unwrap()).toBe(2)
+        expect((await repository.count()).unwrap()).toBe(3)
+        expect((await repository.exists(query)).unwrap()).toBe(true)
+        expect((await repository.exists({ name: "missing" })).unwrap()).toBe(
+          false,
+        )
+      })
+    })
+
+    describe("visibility", () => {
+      test("should show users what they own or were granted", async () => {
+        const owner = (
+          await fixture.users.create(newUser("owner@example.com"))
+        ).unwrap()
+        const reader = (
+          await fixture.users.create(newUser("reader@example.com"))
+        ).unwrap()
+        const shared = await create(
+          newDocument(
+            { name: "shared", ownerId: owner.id },
+            minutesAfterStart(1),
+          ),
+        )
+        await create(
+          newDocument(
+            { name: "private", ownerId: owner.id },
+            minutesAfterStart(2),
+          ),
+        )
+        ;(
+          await fixture.permissions.upsert(
+            DocumentPermissionEntity.create({
+              documentId: shared.id,
+              userId: reader.id,
+              level: "read",
+              grantedBy: owner.id,
+            }),
+          )
+        ).unwrap()
+
+        const forOwner = (
+          await repository.find({ visibleTo: owner.id })
+        ).unwrap()
+        const forReader = (
+          await repository.find({ visibleTo: reader.id })
+        ).unwrap()
+
+        expect(names(forOwner.documents)).toEqual(["private", "shared"])
+        expect(names(forReader.documents)).toEqual(["shared"])
+        expect(
+          names((await repository.findByFolder(null, reader.id)).unwrap()),
+        ).toEqual(["shared"])
+      })
+    })
+
+    describe("pagination", () => {
+      beforeEach(async () => {
+        for (const minute of [1, 2, 3, 4, 5]) {
+          await create(
+            newDocument(
+              { name: `document ${minute}` },
+              minutesAfterStart(minute),
+            ),
+          )
+        }
+      })
+
+      test("should split the documents into pages", async () => {
+        const pages = await Promise.all(
+          [1, 2, 3].map(async (page) =>
+            (await repository.find(undefined, { page, limit: 2 })).unwrap(),
+          ),
+        )
+
+        expect(pages.map((page) => names(page.documents))).toEqual([
+          ["document 5", "document 4"],
+          ["document 3", "document 2"],
+          ["document 1"],
+        ])
+        expect(pages.map((page) => page.total)).toEqual([5, 5, 5])
+      })
+
+      test("should return no documents past the last page", async () => {
+        const { documents, total } = (
+          await repository.find(undefined, { page: 4, limit: 2 })
+        ).unwrap()
+
+        expect(documents).toEqual([])
+        expect(total).toBe(5)
+      })
+
+      test("should default to the first ten documents", async () => {
+        for (const minute of [6, 7, 8, 9, 10, 11]) {
+          await create(
+            newDocument(
+              { name: `document ${minute}` },
+              minutesAfterStart(minute),
+            ),
+          )
+        }
+
+        const { documents, total } = (await repository.find()).unwrap()
+
+        expect(documents).toHaveLength(10)
+        expect(documents[0]?.name).toBe("document 11")
+        expect(total).toBe(11)
+      })
+    })
+  })
+}
@@ -0,0 +1,115 @@
+import "reflect-metadata"
+import { afterAll } from "bun:test"
+import { join } from "node:path"
+import type { AppDatabase } from "../conn"
+import { InMemoryDocumentRepository } from "../memory/document.repository"
+import { InMemoryDocumentPermissionRepository } from "../memory/document-permission.repository"
+import { InMemoryFolderRepository } from "../memory/folder.repository"
+import { MemoryStore } from "../memory/memory.store"
+import { InMemoryUserRepository } from "../memory/user.repository"
+import { describeDocumentRepositoryContract } from "./document-repository.contract"
+import type { RepositoryFixture } from "./repository.fixture"
+import { describeUserRepositoryContract } from "./user-repository.contract"
+
+const inMemory = async (): Promise<RepositoryFixture> => {
+  const store = new MemoryStore()
+
+  return {
+    documents: new InMemoryDocumentRepository(store),
+    users: new InMemoryUserRepository(store),
+    folders: new InMemoryFolderRepository(store),
+    permissions: new InMemoryDocumentPermissionRepository(store),
+  }
+}
+
+describeDocumentRepositoryContract("in-memory", inMemory)
+describeUserRepositoryContract("in-memory", inMemory)
+
+// The Drizzle repositories run on PGlite (Postgres compiled to WASM, in memory), or against the
+// Postgres database at TEST_DB_URL when it is set. Either is migrated once and emptied before every
+// test - never point TEST_DB_URL at a database holding anything of value
+const TEST_DB_URL = process.env.TEST_DB_URL
+
+// The repositories' modules load the app config, so its secrets must be set - bun sets NODE_ENV
+// to "test", which the config doesn't accept
+process.env.NODE_ENV = "testing"
+process.env.HASH_SECRET ??= "repository-contract"
+process.env.JWT_SECRET ??= "repository-contract"
+process.env.DOCS_AUTH_PASS ??= "repository-contract"
+if (TEST_DB_URL) {
+  process.env.DB_URL ??= TEST_DB_URL
+} else {
+  process.env.DB_DRIVER ??= "pglite"
+}
+
+const schema = await import("../schema")
+const { DrizzleDocumentRepository } = await import(
+  "../repos/document.repository"
+)
+const { DrizzleDocumentPermissionRepository } = await import(
+  "../repos/document-permission.repository"
+)
+const { DrizzleFolderRepository } = await import("../repos/folder.repository")
+const { DrizzleUserRepository } = await import("../repos/user.repository")
+
+const migrationsFolder = join(import.meta.dir, "../../../../migrations")
+
+// Every table but audit_events, which is append-only and refuses TRUNCATE - none of the
+// repositories under test write to it
+const RESETTABLE_TABLES = `
+  SELECT tablename FROM pg_tables
+  WHERE schemaname = 'public' AND tablename <> 'audit_events'
+`
+
+const truncate = (tables: { tablename: string }[]) =>
+  `TRUNCATE ${tables.map(({ tablename }) => `"${tablename}"`).join(", ")} CASCADE`
+
+const drizzleFixture =
+  (db: AppDatabase, reset: () => Promise<unknown>) =>
+  async (): Promise<RepositoryFixture> => {
+    await reset()
+
+    return {
+      documents: new DrizzleDocumentRepository(db),
+      users: new DrizzleUserRepository(db),
+      folders: new DrizzleFolderRepository(db),
+      permissions: new DrizzleDocumentPermissionRepository(db),
+    }
+  }
+
+if (TEST_DB_URL) {
+  const { default: postgres } = await import("postgres")
+  const { drizzle } = await import("drizzle-orm/postgres-js")
+  const { migrate } = await import("drizzle-orm/postgres-js/migrator")
+
+  const client = postgres(TEST_DB_URL, { max: 1, onnotice: () => {} })
+  const db = drizzle(client, { schema })
+  await migrate(db, { migrationsFolder })
+
+  afterAll(() => client.end())
+
+  const reset = truncate(
+    await client.unsafe<{ tablename: string }[]>(RESETTABLE_TABLES),
+  )
+  const drizzlePostgres = drizzleFixture(db, () => client.unsafe(reset))
+
+  describeDocumentRepositoryContract("Drizzle on Postgres", drizzlePostgres)
+  describeUserRepositoryContract("Drizzle on Postgres", drizzlePostgres)
+} else {
+  const { PGlite } = await import("@electric-sql/pglite")
+  const { drizzle } = await import("drizzle-orm/pglite")
+  const { migrate } = await import("drizzle-orm/pglite/migrator")
+
+  const client = new PGlite()
+  const db = drizzle(client, { schema })
+  await migrate(db, { migrationsFolder })
+
+  afterAll(() => client.close())
+
+  const { rows } = await client.query<{ tablename: string }>(RESETTABLE_TABLES)
+  const reset = truncate(rows)
+  const drizzlePglite = drizzleFixture(db, () => client.exec(reset))
+
+  describeDocumentRepositoryContract("Drizzle on PGlite", drizzlePglite)
+  describeUserRepositoryContract("Drizzle on PGlite", drizzlePglite)
+}
@@ -0,0 +1,66 @@
+import {
+  DocumentEntity,
+  type NewDocumentType,
+} from "@domain/document/document.entity"
+import type { DocumentRepository } from "@domain/document/document.repository"
+import type { DocumentPermissionRepository } from "@domain/document/document-permission.repository"
+import type { FolderRepository } from "@domain/folder/folder.repository"
+import { UserEntity } from "@domain/user/user.entity"
+import type { UserRepository } from "@domain/user/user.repository"
+import { FpUtils } from "@domain/utils"
+
+/**
+ * The repositories of one database, emptied for every test. The document contract needs users,
+ * folders and grants as well, since documents refer to them.
+ */
+export interface RepositoryFixture {
+  documents: DocumentRepository
+  users: UserRepository
+  folders: FolderRepository
+  permissions: DocumentPermissionRepository
+  cleanup?: () => Promise<void>
+}
+
+// Rows are created at fixed times, so orderings don't depend on how fast a test runs
+const BASE_TIME = Date.UTC(2024, 0, 1)
+export const minutesAfterStart = (minutes: number) =>
+  new Date(BASE_TIME + minutes * 60_000)
+
+export const newDocument = (
+  data: Partial<NewDocumentType> & { name: string },
+  createdAt?: Date,
+): DocumentEntity => {
+  const document = DocumentEntity.create({
+    filePath: `contract/${data.name}.txt`,
+    mimeType: "text/plain",
+    size: 100,
+    ...data,
+  })
+  if (!createdAt) return document
+
+  return FpUtils.serialized(document)
+    .flatMap((row) =>
+      DocumentEntity.fromEncoded({ ...row, createdAt, updatedAt: createdAt }),
+    )
+    .unwrap()
+}
+
+export const newUser = (
+  email: string,
+  role: "user" | "admin" = "user",
+  createdAt?: Date,
+): UserEntity => {
+  const user = UserEntity.create({
+    name: email.split("@")[0] ?? email,
+    email,
+    password: "password123",
+    role,
+  })
+  if (!createdAt) return user
+
+  return FpUtils.serialized(user)
+    .flatMap((row) =>
+      UserEntity.fromEncoded({ ...row, createdAt, updatedAt: createdAt }),
+    )
+    .unwrap()
+}
@@ -0,0 +1,257 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import type { UserEntity } from "@domain/user/user.entity"
+import {
+  UserAlreadyExistsError,
+  UserModifiedError,
+  UserNotFoundError,
+} from "@domain/user/user.errors"
+import type { UserRepository } from "@domain/user/user.repository"
+import {
+  minutesAfterStart,
+  newUser,
+  type RepositoryFixture,
+} from "./repository.fixture"
+
+const emails = (users: UserEntity[]) => users.map((user) => String(user.email))
+
+/**
+ * What callers of a UserRepository rely on, run against the repositories `setup` creates for each
+ * test.
+ */
+export const describeUserRepositoryContract = (
+  name: string,
+  setup: () => Promise<RepositoryFixture>,
+) => {
+  describe(`UserRepository contract: ${name}`, () => {
+    let fixture: RepositoryFixture
+    let repository: UserRepository
+
+    beforeEach(async () => {
+      fixture = await setup()
+      repository = fixture.users
+    })
+
+    afterEach(async () => {
+      await fixture.cleanup?.()
+    })
+
+    const create = async (user: UserEntity) =>
+      (await repository.create(user)).unwrap()
+
+    describe("create and find", () => {
+      test("should read back every field that was saved", async () => {
+        // Repositories may assign ids of their own, so the saved user's id is the one to use
+        const created = await create(newUser("ann@example.com", "admin"))
+
+        const found = (await repository.findById(created.id)).unwrap()
+
+        expect(found.id).toBe(created.id)
+        expect(String(found.name)).toBe("ann")
+        expect(String(found.email)).toBe("ann@example.com")
+        expect(found.role).toBe("admin")
+        expect(found.emailVerified).toBe(false)
+      })
+
+      test("should find users by email", async () => {
+        const created = await create(newUser("ann@example.com"))
+
+        expect(
+          (await repository.findByEmail("ann@example.com")).unwrap().id,
+        ).toBe(created.id)
+      })
+    })
+
+    describe("conflicts", () => {
+      test("should reject a second user with the same email", async () => {
+        await create(newUser("ann@example.com"))
+
+        const result = await repository.create(newUser("ann@example.com"))
+
+        expect(result.isErr()).toBe(true)
+        expect(result.unwrapErr()).toBeInstanceOf(UserAlreadyExistsError)
+      })
+    })
+
+    describe("not found", () => {
+      const missing = newUser("missing@example.com")
+
+      test("should fail to find an unknown id or email", async () => {
+        const byId = await repository.findById(missing.id)
+
+        expect(byId.unwrapErr()).toBeInstanceOf(UserNotFoundError)
+        expect(
+          (await repository.findByEmail("missing@example.com")).isErr(),
+        ).toBe(true)
+      })
+
+      test("should fail to update or delete a user that wasn't saved", async () => {
+        const update = await repository.update(missing)
+        const updateFields = await repository.updateUserFields(missing.id, {
+          name: "renamed",
+        })
+        const remove = await repository.delete(missing)
+
+        expect(update.unwrapErr()).toBeInstanceOf(UserNotFoundError)
+        expect(updateFields.unwrapErr()).toBeInstanceOf(UserNotFoundError)
+        expect(remove.unwrapErr()).toBeInstanceOf(UserNotFoundError)
+      })
+    })
+
+    describe("update and delete", () => {
+      test("should save the changes of the entity", async () => {
+        const created = await create(newUser("ann@example.com"))
+
+        ;(
+          await repository.update(created.updateName("Ann").updateRole("admin"))
+        ).unwrap()
+        const found = (await repository.findById(created.id)).unwrap()
+
+        expect(String(found.name)).toBe("Ann")
+        expect(found.role).toBe("admin")
+        expect(String(found.email)).toBe("ann@example.com")
+      })
+
+      test("should change only the fields given", async () => {
+        const created = await create(newUser("ann@example.com"))
+
+        const updated = (
+          await repository.updateUserFields(created.id, { role: "admin" })
+        ).unwrap()
+
+        expect(updated.role).toBe("admin")
+        expect(String(updated.name)).toBe("ann")
+      })
+
+      test("should remove deleted users", async () => {
+        const created = await create(newUser("ann@example.com"))
+
+        ;(await repository.delete(created)).unwrap()
+
+        expect((await repository.findById(created.id)).isErr()).toBe(true)
+        expect((await repository.findByEmail("ann@example.com")).isErr()).toBe(
+          true,
+        )
+      })
+    })
+
+    describe("versions", () => {
+      test("should start at version 1 and raise it on every save", async () => {
+        const created = await create(newUser("ann@example.com"))
+
+        const updated = (
+          await repository.update(created.updateRole("admin"))
+        ).unwrap()
+        const renamed = (
+          await repository.updateUserFields(created.id, { name: "Ann" })
+        ).unwrap()
+
+        expect(created.version).toBe(1)
+        expect(updated.version).toBe(2)
+        expect(renamed.version).toBe(3)
+      })
+
+      test("should only save over the expected version", async () => {
+        const created = await create(newUser("ann@example.com"))
+        ;(await repository.update(created.updateRole("admin"), 1)).unwrap()
+
+        const result = await repository.update(created.updateName("Ann"), 1)
+        const found = (await repository.findById(created.id)).unwrap()
+
+        expect(result.unwrapErr()).toBeInstanceOf(UserModifiedError)
+        expect(found.role).toBe("admin")
+        expect(String(found.name)).toBe("ann")
+        expect(found.version).toBe(2)
+      })
+    })
+
+    describe("filters", () => {
+      beforeEach(async () => {
+        await create(newUser("ann@example.com", "admin", minutesAfterStart(1)))
+        await create(newUser("bob@example.com", "user", minutesAfterStart(2)))
+        await create(newUser("ANNA@other.org", "user", minutesAfterStart(3)))
+      })
+
+      test("should list every user, oldest first", async () => {
+        const { users, total } = (await repository.find()).unwrap()
+
+        expect(emails(users)).toEqual([
+          "ann@example.com",
+          "bob@example.com",
+          "ANNA@other.org",
+        ])
+        expect(total).toBe(3)
+      })
+
+      test("should match emails partially, ignoring case", async () => {
+        const { users } = (await repository.find({ email: "ann" })).unwrap()
+
+        expect(emails(users)).toEqual(["ann@example.com", "ANNA@other.org"])
+      })
+
+      test("should match the role exactly", async () => {
+        const { users } = (await repository.find({ role: "user" })).unwrap()
+
+        expect(emails(users)).toEqual(["bob@example.com", "ANNA@other.org"])
+        expect(emails((await repository.findByRole("admin")).unwrap())).toEqual(
+          ["ann@example.com"],
+        )
+      })
+
+      test("should combine filters", async () => {
+        const { users, total } = (
+          await repository.find({ email: "ann", role: "user" })
+        ).unwrap()
+
+        expect(emails(users)).toEqual(["ANNA@other.org"])
+        expect(total).toBe(1)
+      })
+
+      test("should count the same users it finds", async () => {
+        expect((await repository.count({ role: "user" })).unwrap()).toBe(2)
+        expect((await repository.count()).unwrap()).toBe(3)
+        expect((await repository.exists({ email: "bob" })).unwrap()).toBe(true)
+        expect((await repository.exists({ email: "carol" })).unwrap()).toBe(
+          false,
+        )
+      })
+    })
+
+    describe("pagination", () => {
+      beforeEach(async () => {
+        for (const minute of [1, 2, 3, 4, 5]) {
+          await create(
+            newUser(
+              `user${minute}@example.com`,
+              "user",
+              minutesAfterStart(minute),
+            ),
+          )
+        }
+      })
+
+      test("should split the users into pages", async () => {
+        const pages = await Promise.all(
+          [1, 2, 3].map(async (page) =>
+            (await repository.find(undefined, { page, limit: 2 })).unwrap(),
+          ),
+        )
+
+        expect(pages.map((page) => emails(page.users))).toEqual([
+          ["user1@example.com", "user2@example.com"],
+          ["user3@example.com", "user4@example.com"],
+          ["user5@example.com"],
+        ])
+        expect(pages.map((page) => page.total)).toEqual([5, 5, 5])
+      })
+
+      test("should return no users past the last page", async () => {
+        const { users, total } = (
+          await repository.find(undefined, { page: 4, limit: 2 })
+        ).unwrap()
+
+        expect(users).toEqual([])
+        expect(total).toBe(5)
+      })
+    })
+  })
+}
@@ -1,3 +1,8 @@
+import { resolve } from "node:path"
+import { PGlite } from "@electric-sql/pglite"
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core"
+import { drizzle as drizzlePglite } from "drizzle-orm/pglite"
+import { migrate } from "drizzle-orm/pglite/migrator"
 import { drizzle } from "drizzle-orm/postgres-js"
 import postgres from "postgres"
 import {
@@ -11,22 +16,36 @@ import config from "@/infra/config"
 
 import * as schema from "./schema"
 
-export const createDbInstance = () => {
+const createPostgresInstance = () => {
   const client = postgres(config.db.DB_URL, {
     max: 25, // Reduced from 25 to avoid connection limit issues
     idle_timeout: 60, // Close idle connections after 60 seconds
   })
 
-  const db = drizzle(client, {
+  return drizzle(client, {
     schema,
     logger: config.app.NODE_ENV === "development",
   })
+}
+
+// Postgres compiled to WASM, running inside this process and persisted to PGLITE_DATA_DIR
+const createPgliteInstance = (dataDir = config.db.PGLITE_DATA_DIR) => {
+  const client = new PGlite(dataDir)
 
-  return db
+  return drizzlePglite(client, {
+    schema,
+    logger: config.app.NODE_ENV === "development",
+  })
 }
 
+// Both drivers speak the same Postgres dialect, so repositories work the same on either
+export type AppDatabase = PgDatabase<PgQueryResultHKT, typeof schema>
+
+export const createDbInstance = (): AppDatabase =>
+  config.db.DB_DRIVER === "pglite" ? createPgliteInstance() : createPostgresInstance()
+
 const DbSym = Symbol.for("Database")
-export type AppDatabase = ReturnType<typeof createDbInstance>
+export type AppTransaction = Parameters<Parameters<AppDatabase["transaction"]>[0]>[0]
 
 export const DbProvider: FactoryProvider<AppDatabase> = {
   useFactory: instanceCachingFactory(createDbInstance),
@@ -34,6 +53,20 @@ export const DbProvider: FactoryProvider<AppDatabase> = {
 
 container.register(DbSym, DbProvider)
 
+/**
+ * Opens the embedded database (DB_DRIVER=pglite) in PGLITE_DATA_DIR, or the given directory,
+ * applies the migrations in MIGRATIONS_DIR it is missing and registers it for injection - there is no database
+ * server to run drizzle-kit against. Returns a function that closes the database, so that
+ * everything written reaches the disk.
+ */
+export const openEmbeddedDb = async (dataDir = config.db.PGLITE_DATA_DIR) => {
+  const db = createPgliteInstance(dataDir)
+  await migrate(db, { migrationsFolder: resolve(config.db.MIGRATIONS_DIR) })
+
+  container.register<AppDatabase>(DbSym, { useValue: db })
+  return () => db.$client.close()
+}
+
 export const InjectDb = () => inject(DbSym)
 export const resolveDb = () => container.resolve(DbSym) as AppDatabase
 export const resolveDbFromContainer = (depcontainer: DependencyContainer) =>
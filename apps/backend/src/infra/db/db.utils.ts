@@ -1,6 +1,6 @@
 import type { DateTimeEncoded, UUIDType } from "@domain/utils/refined-types"
 import type { SQL } from "drizzle-orm"
-import { timestamp, uuid } from "drizzle-orm/pg-core"
+import { customType, timestamp, uuid } from "drizzle-orm/pg-core"
 
 // simple branded type occurs only at the type level
 export const getPrimaryKeyCol = <T extends UUIDType = UUIDType>() =>
@@ -26,6 +26,13 @@ export const getPrimaryKeyCol = <T extends UUIDType = UUIDType>() =>
 // export const dateTimeColWithDefault = (name: string) =>
 //   dateTimeCol(name).$defaultFn(() => DateTime.now())
 
+// Full-text search vectors are only built and queried in SQL, never read by the app
+export const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector"
+  },
+})
+
 export const getBaseColumns = <T extends UUIDType = UUIDType>() => ({
   id: getPrimaryKeyCol<T>(),
   createdAt: timestamp("created_at")
@@ -0,0 +1,139 @@
+import "reflect-metadata"
+import { beforeEach, describe, expect, test } from "bun:test"
+import { DocumentEntity } from "@domain/document/document.entity"
+import { DocumentContentEntity } from "@domain/document/document-content.entity"
+import { DocumentPermissionEntity } from "@domain/document/document-permission.entity"
+import { UserEntity } from "@domain/user/user.entity"
+import { InMemoryDocumentRepository } from "../document.repository"
+import { InMemoryDocumentContentRepository } from "../document-content.repository"
+import { InMemoryDocumentPermissionRepository } from "../document-permission.repository"
+import { MemoryStore } from "../memory.store"
+import { InMemoryUserRepository } from "../user.repository"
+
+const newUser = (email: string) =>
+  UserEntity.create({
+    name: email.split("@")[0] as string,
+    email,
+    password: "password123",
+    role: "user",
+  })
+
+describe("in-memory repositories", () => {
+  let store: MemoryStore
+  let documents: InMemoryDocumentRepository
+  let users: InMemoryUserRepository
+  let permissions: InMemoryDocumentPermissionRepository
+  let contents: InMemoryDocumentContentRepository
+
+  beforeEach(() => {
+    store = new MemoryStore()
+    documents = new InMemoryDocumentRepository(store)
+    users = new InMemoryUserRepository(store)
+    permissions = new InMemoryDocumentPermissionRepository(store)
+    contents = new InMemoryDocumentContentRepository(store)
+  })
+
+  const createDocument = async (name: string, ownerId?: UserEntity["id"]) =>
+    (
+      await documents.create(
+        DocumentEntity.create({
+          name,
+          filePath: `2024/01/01/${name}.txt`,
+          mimeType: "text/plain",
+          size: 10,
+          ownerId,
+        }),
+      )
+    ).unwrap()
+
+  test("shares the users table with Better Auth", async () => {
+    const user = (await users.create(newUser("ann@example.com"))).unwrap()
+
+    expect(store.auth.users.map((row) => row.id)).toEqual([user.id])
+
+    // Better Auth's memory adapter replaces the array as it writes to it
+    store.auth.users = [
+      ...store.auth.users,
+      {
+        ...store.auth.users[0],
+        id: crypto.randomUUID(),
+        email: "signed-up@example.com",
+      } as (typeof store.auth.users)[number],
+    ]
+
+    const found = await users.findByEmail("signed-up@example.com")
+    expect(found.isOk()).toBe(true)
+    expect((await users.count()).unwrap()).toBe(2)
+  })
+
+  test("lists documents the user owns or holds a grant on", async () => {
+    const owner = (await users.create(newUser("owner@example.com"))).unwrap()
+    const reader = (await users.create(newUser("reader@example.com"))).unwrap()
+
+    const shared = await createDocument("shared", owner.id)
+    await createDocument("private", owner.id)
+    await permissions.upsert(
+      DocumentPermissionEntity.create({
+        documentId: shared.id,
+        userId: reader.id,
+        level: "read",
+        grantedBy: owner.id,
+      }),
+    )
+
+    const visible = (await documents.find({ visibleTo: reader.id })).unwrap()
+    expect(visible.documents.map((document) => document.name)).toEqual([
+      "shared",
+    ])
+    expect((await documents.count({ visibleTo: owner.id })).unwrap()).toBe(2)
+  })
+
+  test("searches the extracted content of documents", async () => {
+    const report = await createDocument("report")
+    await createDocument("invoice")
+    const content = DocumentContentEntity.create({ documentId: report.id })
+    await contents.save(
+      content.extracted("text", "Quarterly revenue grew across regions"),
+    )
+
+    const { hits, total } = (
+      await documents.searchDocuments("revenue")
+    ).unwrap()
+
+    expect(total).toBe(1)
+    expect(hits[0]?.document.id).toBe(report.id)
+    expect(hits[0]?.snippet).toContain("<mark>revenue</mark>")
+  })
+
+  test("deleting a document removes the rows that belong to it", async () => {
+    const owner = (await users.create(newUser("owner@example.com"))).unwrap()
+    const document = await createDocument("doomed", owner.id)
+    await permissions.upsert(
+      DocumentPermissionEntity.create({
+        documentId: document.id,
+        userId: owner.id,
+        level: "manage",
+        grantedBy: owner.id,
+      }),
+    )
+    await contents.save(
+      DocumentContentEntity.create({ documentId: document.id }),
+    )
+
+    ;(await documents.delete(document)).unwrap()
+
+    expect(store.documentPermissions.size).toBe(0)
+    expect(store.documentContents.size).toBe(0)
+    expect((await documents.findById(document.id)).isErr()).toBe(true)
+  })
+
+  test("deleting a user leaves their documents without an owner", async () => {
+    const owner = (await users.create(newUser("owner@example.com"))).unwrap()
+    const document = await createDocument("orphan", owner.id)
+
+    ;(await users.delete(owner)).unwrap()
+
+    const found = (await documents.findById(document.id)).unwrap()
+    expect(found.ownerId).toBeUndefined()
+  })
+})
@@ -0,0 +1,94 @@
+import type { Result } from "@carbonteq/fp"
+import {
+  type AuditEventEncoded,
+  AuditEventEntity,
+} from "@domain/audit/audit-event.entity"
+import {
+  type AuditEventFilterQuery,
+  AuditEventRepository,
+} from "@domain/audit/audit-event.repository"
+import { FpUtils } from "@domain/utils"
+import { injectable } from "tsyringe"
+import { enhanceEntityMapper } from "../repos/repo.utils"
+import {
+  InjectMemoryStore,
+  type MemoryStore,
+  paginate,
+  timeOf,
+} from "./memory.store"
+
+type AuditEventCondition = (row: AuditEventEncoded) => boolean
+
+const mapper = enhanceEntityMapper((row: AuditEventEncoded) =>
+  AuditEventEntity.fromEncoded(row),
+)
+
+// Audit events are only ever appended, as in Postgres
+@injectable()
+export class InMemoryAuditEventRepository extends AuditEventRepository {
+  constructor(@InjectMemoryStore() private readonly store: MemoryStore) {
+    super()
+  }
+
+  async append(
+    event: AuditEventEntity,
+  ): Promise<Result<AuditEventEntity, Error>> {
+    return FpUtils.serialized(event)
+      .mapErr(() => new Error("Failed to record audit event"))
+      .flatMap((row) => {
+        this.store.auditEvents.set(row.id, row)
+        return mapper.mapOne(row)
+      })
+  }
+
+  async find(
+    query?: AuditEventFilterQuery,
+    pagination?: { page?: number; limit?: number },
+  ): Promise<Result<{ events: AuditEventEntity[]; total: number }, Error>> {
+    const conditions = this.buildQueryConditions(query)
+    // The id breaks ties between events recorded in the same instant, so pages never overlap
+    const rows = [...this.store.auditEvents.values()]
+      .filter((row) => conditions.every((condition) => condition(row)))
+      .sort(
+        (a, b) =>
+          timeOf(b.createdAt) - timeOf(a.createdAt) || b.id.localeCompare(a.id),
+      )
+
+    return mapper
+      .mapMany(paginate(rows, pagination))
+      .map((events) => ({ events, total: rows.length }))
+  }
+
+  private buildQueryConditions(
+    query?: AuditEventFilterQuery,
+  ): AuditEventCondition[] {
+    const conditions: AuditEventCondition[] = []
+
+    if (query?.actorId) {
+      const actorId = query.actorId
+      conditions.push((row) => row.actorId === actorId)
+    }
+    if (query?.targetType) {
+      const targetType = query.targetType
+      conditions.push((row) => row.targetType === targetType)
+    }
+    if (query?.targetId) {
+      const targetId = query.targetId
+      conditions.push((row) => row.targetId === targetId)
+    }
+    if (query?.action && query.action.length > 0) {
+      const actions = query.action
+      conditions.push((row) => actions.includes(row.action))
+    }
+    if (query?.fromDate) {
+      const fromTime = query.fromDate.getTime()
+      conditions.push((row) => timeOf(row.createdAt) >= fromTime)
+    }
+    if (query?.toDate) {
+      const toTime = query.toDate.getTime()
+      conditions.push((row) => timeOf(row.createdAt) <= toTime)
+    }
+
+    return conditions
+  }
+}
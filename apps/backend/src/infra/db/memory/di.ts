@@ -0,0 +1,86 @@
+import { AuditEventRepository } from "@domain/audit/audit-event.repository"
+import { DocumentRepository } from "@domain/document/document.repository"
+import { DocumentContentRepository } from "@domain/document/document-content.repository"
+import { DocumentPermissionRepository } from "@domain/document/document-permission.repository"
+import { DocumentRenditionRepository } from "@domain/document/document-rendition.repository"
+import { DocumentUploadRepository } from "@domain/document/document-upload.repository"
+import { DocumentVersionRepository } from "@domain/document/document-version.repository"
+import { OutboxRepository } from "@domain/events/outbox.repository"
+import { FolderRepository } from "@domain/folder/folder.repository"
+import { UserRepository } from "@domain/user/user.repository"
+import { WebhookRepository } from "@domain/webhook/webhook.repository"
+import { WebhookDeliveryRepository } from "@domain/webhook/webhook-delivery.repository"
+import { container } from "tsyringe"
+import { asImplementation } from "@/infra/di/utils"
+import { FileKeyStoreSym } from "@/infra/storage/encryption/file-key.store"
+import { InMemoryAuditEventRepository } from "./audit-event.repository"
+import { InMemoryDocumentRepository } from "./document.repository"
+import { InMemoryDocumentContentRepository } from "./document-content.repository"
+import { InMemoryDocumentPermissionRepository } from "./document-permission.repository"
+import { InMemoryDocumentRenditionRepository } from "./document-rendition.repository"
+import { InMemoryDocumentUploadRepository } from "./document-upload.repository"
+import { InMemoryDocumentVersionRepository } from "./document-version.repository"
+import { InMemoryFolderRepository } from "./folder.repository"
+import { InMemoryOutboxRepository } from "./outbox.repository"
+import { InMemoryFileKeyStore } from "./stored-file-key.repository"
+import { InMemoryUserRepository } from "./user.repository"
+import { InMemoryWebhookRepository } from "./webhook.repository"
+import { InMemoryWebhookDeliveryRepository } from "./webhook-delivery.repository"
+
+export const registerInMemoryRepositories = () => {
+  container.register(
+    ...asImplementation(UserRepository, InMemoryUserRepository),
+  )
+  container.register(
+    ...asImplementation(DocumentRepository, InMemoryDocumentRepository),
+  )
+  container.register(
+    ...asImplementation(
+      DocumentVersionRepository,
+      InMemoryDocumentVersionRepository,
+    ),
+  )
+  container.register(
+    ...asImplementation(
+      DocumentPermissionRepository,
+      InMemoryDocumentPermissionRepository,
+    ),
+  )
+  container.register(
+    ...asImplementation(
+      DocumentUploadRepository,
+      InMemoryDocumentUploadRepository,
+    ),
+  )
+  container.register(
+    ...asImplementation(
+      DocumentContentRepository,
+      InMemoryDocumentContentRepository,
+    ),
+  )
+  container.register(
+    ...asImplementation(
+      DocumentRenditionRepository,
+      InMemoryDocumentRenditionRepository,
+    ),
+  )
+  container.register(
+    ...asImplementation(FolderRepository, InMemoryFolderRepository),
+  )
+  container.register(
+    ...asImplementation(AuditEventRepository, InMemoryAuditEventRepository),
+  )
+  container.register(
+    ...asImplementation(WebhookRepository, InMemoryWebhookRepository),
+  )
+  container.register(
+    ...asImplementation(
+      WebhookDeliveryRepository,
+      InMemoryWebhookDeliveryRepository,
+    ),
+  )
+  container.register(
+    ...asImplementation(OutboxRepository, InMemoryOutboxRepository),
+  )
+  container.register(FileKeyStoreSym, { useClass: InMemoryFileKeyStore })
+}
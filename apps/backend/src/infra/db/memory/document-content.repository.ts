@@ -0,0 +1,63 @@
+import { Result as R, type Result } from "@carbonteq/fp"
+import type { DocumentType } from "@domain/document/document.entity"
+import { DocumentContentNotFoundError } from "@domain/document/document.errors"
+import {
+  type DocumentContentEncoded,
+  DocumentContentEntity,
+} from "@domain/document/document-content.entity"
+import { DocumentContentRepository } from "@domain/document/document-content.repository"
+import { FpUtils, type RepoResult } from "@domain/utils"
+import { injectable } from "tsyringe"
+import { enhanceEntityMapper } from "../repos/repo.utils"
+import { InjectMemoryStore, type MemoryStore } from "./memory.store"
+
+const mapper = enhanceEntityMapper((row: DocumentContentEncoded) =>
+  DocumentContentEntity.fromEncoded(row),
+)
+
+@injectable()
+export class InMemoryDocumentContentRepository extends DocumentContentRepository {
+  constructor(@InjectMemoryStore() private readonly store: MemoryStore) {
+    super()
+  }
+
+  async save(
+    content: DocumentContentEntity,
+  ): Promise<Result<DocumentContentEntity, Error>> {
+    const existing = this.find(content.documentId)
+
+    return FpUtils.serialized(content)
+      .mapErr(() => new Error("Failed to save document content"))
+      .flatMap((contentData) => {
+        // Re-extractions keep the row (and id) of the document's earlier extraction
+        const row: DocumentContentEncoded = {
+          ...contentData,
+          id: existing?.id ?? contentData.id,
+          createdAt: existing?.createdAt ?? contentData.createdAt,
+          updatedAt: new Date(),
+        }
+        this.store.documentContents.set(row.id, row)
+
+        return mapper.mapOne(row)
+      })
+  }
+
+  async findByDocumentId(
+    documentId: DocumentType["id"],
+  ): Promise<RepoResult<DocumentContentEntity, DocumentContentNotFoundError>> {
+    const row = this.find(documentId)
+    if (!row) {
+      return R.Err(new DocumentContentNotFoundError(documentId))
+    }
+
+    return mapper.mapOne(row)
+  }
+
+  private find(
+    documentId: DocumentType["id"],
+  ): DocumentContentEncoded | undefined {
+    return [...this.store.documentContents.values()].find(
+      (row) => row.documentId === documentId,
+    )
+  }
+}
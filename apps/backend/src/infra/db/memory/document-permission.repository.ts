@@ -0,0 +1,93 @@
+import { Result as R, type Result } from "@carbonteq/fp"
+import type { DocumentType } from "@domain/document/document.entity"
+import { DocumentPermissionNotFoundError } from "@domain/document/document.errors"
+import {
+  type DocumentPermissionEncoded,
+  DocumentPermissionEntity,
+} from "@domain/document/document-permission.entity"
+import { DocumentPermissionRepository } from "@domain/document/document-permission.repository"
+import type { UserType } from "@domain/user/user.entity"
+import { FpUtils, type RepoResult } from "@domain/utils"
+import { injectable } from "tsyringe"
+import { enhanceEntityMapper } from "../repos/repo.utils"
+import { InjectMemoryStore, type MemoryStore, timeOf } from "./memory.store"
+
+const mapper = enhanceEntityMapper((row: DocumentPermissionEncoded) =>
+  DocumentPermissionEntity.fromEncoded(row),
+)
+
+@injectable()
+export class InMemoryDocumentPermissionRepository extends DocumentPermissionRepository {
+  constructor(@InjectMemoryStore() private readonly store: MemoryStore) {
+    super()
+  }
+
+  async upsert(
+    permission: DocumentPermissionEntity,
+  ): Promise<Result<DocumentPermissionEntity, Error>> {
+    const existing = this.find(permission.documentId, permission.userId)
+
+    return FpUtils.serialized(permission)
+      .mapErr(() => new Error("Failed to save document permission"))
+      .flatMap((permissionData) => {
+        // A grant for a user who already has one keeps its row - the latest level wins
+        const row: DocumentPermissionEncoded = existing
+          ? {
+              ...existing,
+              level: permissionData.level,
+              grantedBy: permissionData.grantedBy,
+              updatedAt: new Date(),
+            }
+          : permissionData
+        this.store.documentPermissions.set(row.id, row)
+
+        return mapper.mapOne(row)
+      })
+  }
+
+  async revoke(
+    documentId: DocumentType["id"],
+    userId: UserType["id"],
+  ): Promise<Result<void, DocumentPermissionNotFoundError>> {
+    const existing = this.find(documentId, userId)
+    if (!existing) {
+      return R.Err(new DocumentPermissionNotFoundError(documentId, userId))
+    }
+
+    this.store.documentPermissions.delete(existing.id)
+    return R.Ok(undefined)
+  }
+
+  async findByDocumentAndUser(
+    documentId: DocumentType["id"],
+    userId: UserType["id"],
+  ): Promise<
+    RepoResult<DocumentPermissionEntity, DocumentPermissionNotFoundError>
+  > {
+    const row = this.find(documentId, userId)
+    if (!row) {
+      return R.Err(new DocumentPermissionNotFoundError(documentId, userId))
+    }
+
+    return mapper.mapOne(row)
+  }
+
+  async findByDocumentId(
+    documentId: DocumentType["id"],
+  ): Promise<Result<DocumentPermissionEntity[], Error>> {
+    const rows = [...this.store.documentPermissions.values()]
+      .filter((row) => row.documentId === documentId)
+      .sort((a, b) => timeOf(a.createdAt) - timeOf(b.createdAt))
+
+    return mapper.mapMany(rows)
+  }
+
+  private find(
+    documentId: DocumentType["id"],
+    userId: UserType["id"],
+  ): DocumentPermissionEncoded | undefined {
+    return [...this.store.documentPermissions.values()].find(
+      (row) => row.documentId === documentId && row.userId === userId,
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { Result as R, type Result } from "@carbonteq/fp"
+import type { DocumentType } from "@domain/document/document.entity"
+import {
+  type DocumentRenditionEncoded,
+  DocumentRenditionEntity,
+} from "@domain/document/document-rendition.entity"
+import { DocumentRenditionRepository } from "@domain/document/document-rendition.repository"
+import { FpUtils } from "@domain/utils"
+import { injectable } from "tsyringe"
+import { enhanceEntityMapper } from "../repos/repo.utils"
+import { InjectMemoryStore, type MemoryStore } from "./memory.store"
+
+const mapper = enhanceEntityMapper((row: DocumentRenditionEncoded) =>
+  DocumentRenditionEntity.fromEncoded(row),
+)
+
+@injectable()
+export class InMemoryDocumentRenditionRepository extends DocumentRenditionRepository {
+  constructor(@InjectMemoryStore() private readonly store: MemoryStore) {
+    super()
+  }
+
+  async create(
+    rendition: DocumentRenditionEntity,
+  ): Promise<Result<DocumentRenditionEntity, Error>> {
+    // Each size is rendered once per document
+    const taken = [...this.store.documentRenditions.values()].some(
+      (row) =>
+        row.documentId === rendition.documentId && row.size === rendition.size,
+    )
+    if (taken) {
+      return R.Err(
+        new Error(
+          `Document ${rendition.documentId} already has a ${rendition.size} rendition`,
+        ),
+      )
+    }
+
+    return FpUtils.serialized(rendition)
+      .mapErr(() => new Error("Failed to create document rendition"))
+      .flatMap((row) => {
+        this.store.documentRenditions.set(row.id, row)
+        return mapper.mapOne(row)
+      })
+  }
+
+  async findByDocumentId(
+    documentId: DocumentType["id"],
+  ): Promise<Result<DocumentRenditionEntity[], Error>> {
+    const rows = [...this.store.documentRenditions.values()]
+      .filter((row) => row.documentId === documentId)
+      .sort((a, b) => a.size - b.size)
+
+    return mapper.mapMany(rows)
+  }
+
+  async deleteByDocumentId(
+    documentId: DocumentType["id"],
+  ): Promise<Result<void, Error>> {
+    for (const [id, row] of this.store.documentRenditions) {
+      if (row.documentId === documentId)
+        this.store.documentRenditions.delete(id)
+    }
+
+    return R.Ok(undefined)
+  }
+}
@@ -0,0 +1,86 @@
+import { Result as R, type Result } from "@carbonteq/fp"
+import { DocumentUploadNotFoundError } from "@domain/document/document.errors"
+import {
+  type DocumentUploadEncoded,
+  DocumentUploadEntity,
+  type DocumentUploadType,
+} from "@domain/document/document-upload.entity"
+import { DocumentUploadRepository } from "@domain/document/document-upload.repository"
+import { FpUtils, type RepoResult } from "@domain/utils"
+import { injectable } from "tsyringe"
+import { enhanceEntityMapper } from "../repos/repo.utils"
+import { InjectMemoryStore, type MemoryStore, timeOf } from "./memory.store"
+
+const mapper = enhanceEntityMapper((row: DocumentUploadEncoded) =>
+  DocumentUploadEntity.fromEncoded(row),
+)
+
+@injectable()
+export class InMemoryDocumentUploadRepository extends DocumentUploadRepository {
+  constructor(@InjectMemoryStore() private readonly store: MemoryStore) {
+    super()
+  }
+
+  async create(
+    upload: DocumentUploadEntity,
+  ): Promise<Result<DocumentUploadEntity, Error>> {
+    return FpUtils.serialized(upload)
+      .map((row) => {
+        this.store.documentUploads.set(row.id, row)
+        return upload
+      })
+      .mapErr(() => new Error("Failed to save document upload"))
+  }
+
+  // Only the progress of an upload changes
+  async update(
+    upload: DocumentUploadEntity,
+  ): Promise<RepoResult<DocumentUploadEntity, DocumentUploadNotFoundError>> {
+    const existing = this.store.documentUploads.get(upload.id)
+    if (!existing) {
+      return R.Err(new DocumentUploadNotFoundError(upload.id))
+    }
+
+    const row: DocumentUploadEncoded = {
+      ...existing,
+      offset: upload.offset,
+      documentId: upload.documentId,
+      updatedAt: new Date(),
+    }
+    this.store.documentUploads.set(row.id, row)
+    return mapper.mapOne(row)
+  }
+
+  async delete(
+    id: DocumentUploadType["id"],
+  ): Promise<Result<void, DocumentUploadNotFoundError>> {
+    if (!this.store.documentUploads.delete(id)) {
+      return R.Err(new DocumentUploadNotFoundError(id))
+    }
+
+    return R.Ok(undefined)
+  }
+
+  async findById(
+    id: DocumentUploadType["id"],
+  ): Promise<RepoResult<DocumentUploadEntity, DocumentUploadNotFoundError>> {
+    const row = this.store.documentUploads.get(id)
+    if (!row) {
+      return R.Err(new DocumentUploadNotFoundError(id))
+    }
+
+    return mapper.mapOne(row)
+  }
+
+  async findStaleBefore(
+    cutoff: Date,
+  ): Promise<Result<DocumentUploadEntity[], Error>> {
+    const rows = [...this.store.documentUploads.values()].filter(
+      (row) =>
+        row.documentId === undefined &&
+        timeOf(row.updatedAt) < cutoff.getTime(),
+    )
+
+    return mapper.mapMany(rows)
+  }
+}
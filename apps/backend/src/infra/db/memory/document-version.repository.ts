@@ -0,0 +1,96 @@
+import { Result as R, type Result } from "@carbonteq/fp"
+import type { DocumentType } from "@domain/document/document.entity"
+import {
+  DocumentVersionAlreadyExistsError,
+  DocumentVersionNotFoundError,
+} from "@domain/document/document.errors"
+import {
+  type DocumentVersionEncoded,
+  DocumentVersionEntity,
+  type DocumentVersionType,
+} from "@domain/document/document-version.entity"
+import { DocumentVersionRepository } from "@domain/document/document-version.repository"
+import { FpUtils, type RepoResult } from "@domain/utils"
+import { injectable } from "tsyringe"
+import { enhanceEntityMapper } from "../repos/repo.utils"
+import { InjectMemoryStore, type MemoryStore } from "./memory.store"
+
+const mapper = enhanceEntityMapper((row: DocumentVersionEncoded) =>
+  DocumentVersionEntity.fromEncoded(row),
+)
+
+@injectable()
+export class InMemoryDocumentVersionRepository extends DocumentVersionRepository {
+  constructor(@InjectMemoryStore() private readonly store: MemoryStore) {
+    super()
+  }
+
+  async create(
+    version: DocumentVersionEntity,
+  ): Promise<Result<DocumentVersionEntity, DocumentVersionAlreadyExistsError>> {
+    const alreadyExists = () =>
+      new DocumentVersionAlreadyExistsError(
+        version.documentId,
+        version.versionNumber,
+      )
+
+    // Version numbers are unique per document
+    const taken = [...this.store.documentVersions.values()].some(
+      (row) =>
+        row.documentId === version.documentId &&
+        row.versionNumber === version.versionNumber,
+    )
+    if (taken) {
+      return R.Err(alreadyExists())
+    }
+
+    return FpUtils.serialized(version)
+      .map((row) => {
+        this.store.documentVersions.set(row.id, row)
+        return version
+      })
+      .mapErr(alreadyExists)
+  }
+
+  async findById(
+    id: DocumentVersionType["id"],
+  ): Promise<RepoResult<DocumentVersionEntity, DocumentVersionNotFoundError>> {
+    const row = this.store.documentVersions.get(id)
+    if (!row) {
+      return R.Err(new DocumentVersionNotFoundError(id))
+    }
+
+    return mapper.mapOne(row)
+  }
+
+  async delete(
+    id: DocumentVersionType["id"],
+  ): Promise<Result<void, DocumentVersionNotFoundError>> {
+    if (!this.store.documentVersions.delete(id)) {
+      return R.Err(new DocumentVersionNotFoundError(id))
+    }
+
+    return R.Ok(undefined)
+  }
+
+  async findByDocumentId(
+    documentId: DocumentType["id"],
+  ): Promise<Result<DocumentVersionEntity[], Error>> {
+    const rows = [...this.store.documentVersions.values()]
+      .filter((row) => row.documentId === documentId)
+      .sort((a, b) => b.versionNumber - a.versionNumber)
+
+    return mapper.mapMany(rows)
+  }
+
+  async isFileShared(
+    filePath: string,
+    documentId: DocumentType["id"],
+  ): Promise<Result<boolean, Error>> {
+    return R.Ok(
+      [...this.store.documentVersions.values()].some(
+        (row) => row.filePath === filePath && row.documentId !== documentId,
+      ),
+    )
+  }
+}
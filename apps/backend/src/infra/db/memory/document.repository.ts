@@ -0,0 +1,684 @@
+import { Result as R, type Result } from "@carbonteq/fp"
+import {
+  DocumentEntity as Document,
+  type DocumentEncoded,
+  type DocumentEntity,
+  type DocumentType,
+  type DocumentUpdateType,
+} from "@domain/document/document.entity"
+import {
+  DocumentAlreadyExistsError,
+  DocumentLockedError,
+  DocumentModifiedError,
+  DocumentNotFoundError,
+  DocumentValidationError,
+} from "@domain/document/document.errors"
+import {
+  type DocumentDuplicateGroup,
+  type DocumentFileReference,
+  type DocumentFilterQuery,
+  DocumentRepository,
+  type DocumentSearchHit,
+} from "@domain/document/document.repository"
+import type { FolderParentId } from "@domain/folder/folder.repository"
+import type { UserType } from "@domain/user/user.entity"
+import { FpUtils, type RepoResult } from "@domain/utils"
+import { injectable } from "tsyringe"
+import { enhanceEntityMapper } from "../repos/repo.utils"
+import {
+  InjectMemoryStore,
+  type MemoryStore,
+  paginate,
+  timeOf,
+  versionOf,
+} from "./memory.store"
+import { writeToOutbox } from "./outbox.repository"
+
+type DocumentRow = DocumentEncoded
+type DocumentCondition = (row: DocumentRow) => boolean
+
+// Names are unique per folder; documents at the root have no folder
+const folderCondition =
+  (folderId: FolderParentId): DocumentCondition =>
+  (row) =>
+    (row.folderId ?? null) === (folderId ?? null)
+
+// Trashed documents are invisible to every query except the trash ones
+const notDeleted: DocumentCondition = (row) => row.deletedAt === undefined
+
+// Documents whose purge started have left the trash, they only wait for their files to be deleted
+const inTrash: DocumentCondition = (row) =>
+  row.deletedAt !== undefined && (row.status ?? "active") === "active"
+
+const byCreatedAtDesc = (a: DocumentRow, b: DocumentRow) =>
+  timeOf(b.createdAt) - timeOf(a.createdAt)
+
+const mapper = enhanceEntityMapper((row: DocumentRow) =>
+  Document.fromEncoded({
+    ...row,
+    tags: row.tags || [],
+    metadata: row.metadata || {},
+    version: versionOf(row),
+  }),
+)
+
+// Words of a search term, without the quotes and operators of the websearch syntax
+const searchWords = (searchTerm: string): string[] =>
+  searchTerm
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 0 && word !== "or")
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+/**
+ * Documents in the in-memory database. Filters, ordering and pagination follow the Drizzle
+ * repository; full-text search is approximated by matching every word of the search term, with
+ * matches in the name ranked above the ones in tags, metadata values and the content.
+ */
+@injectable()
+export class InMemoryDocumentRepository extends DocumentRepository {
+  constructor(@InjectMemoryStore() private readonly store: MemoryStore) {
+    super()
+  }
+
+  async create(
+    document: DocumentEntity,
+  ): Promise<Result<DocumentEntity, DocumentAlreadyExistsError>> {
+    const existing = this.rows(
+      (row) => row.name === document.name,
+      folderCondition(document.folderId ?? null),
+      notDeleted,
+    )
+    if (existing.length > 0) {
+      return R.Err(new DocumentAlreadyExistsError(document.name))
+    }
+
+    return FpUtils.serialized(document)
+      .flatMap((row) => {
+        this.store.documents.set(row.id, row)
+        writeToOutbox(this.store, document.domainEvents)
+
+        return mapper.mapOne(row)
+      })
+      .mapErr(() => new DocumentAlreadyExistsError(document.name))
+  }
+
+  async update(
+    document: DocumentEntity,
+    expectedVersion?: number,
+    userId?: UserType["id"],
+  ): Promise<
+    RepoResult<
+      DocumentEntity,
+      DocumentNotFoundError | DocumentModifiedError | DocumentLockedError
+    >
+  > {
+    const current = this.store.documents.get(document.id)
+    if (!current) {
+      return R.Err(new DocumentNotFoundError(document.id))
+    }
+    const currentResult = mapper.mapOne(current)
+    if (
+      userId &&
+      currentResult.isOk() &&
+      currentResult.unwrap().isLockedAgainst(userId)
+    ) {
+      return R.Err(new DocumentLockedError(currentResult.unwrap()))
+    }
+    if (
+      expectedVersion !== undefined &&
+      versionOf(current) !== expectedVersion
+    ) {
+      return R.Err(
+        new DocumentModifiedError(
+          { id: document.id, version: versionOf(current) },
+          expectedVersion,
+        ),
+      )
+    }
+
+    return FpUtils.serialized(document)
+      .flatMap((docData) => {
+        // The checkout is only saved by saveCheckout()
+        const row = {
+          ...docData,
+          lockedBy: current.lockedBy,
+          lockExpiresAt: current.lockExpiresAt,
+          version: versionOf(current) + 1,
+          updatedAt: new Date(),
+        }
+        this.store.documents.set(row.id, row)
+        writeToOutbox(this.store, document.domainEvents)
+
+        return mapper.mapOne(row)
+      })
+      .mapErr(() => new DocumentNotFoundError(document.id))
+  }
+
+  async saveCheckout(
+    document: DocumentEntity,
+    userId?: UserType["id"],
+  ): Promise<
+    RepoResult<DocumentEntity, DocumentNotFoundError | DocumentLockedError>
+  > {
+    const row = this.store.documents.get(document.id)
+    if (!row || !notDeleted(row)) {
+      return R.Err(new DocumentNotFoundError(document.id))
+    }
+
+    // Checked in, held by the user or lapsed - anything else is someone else's running checkout
+    const currentResult = mapper.mapOne(row)
+    if (userId && currentResult.isOk()) {
+      const current = currentResult.unwrap()
+      if (current.isLockedAgainst(userId)) {
+        return R.Err(new DocumentLockedError(current))
+      }
+    }
+
+    return FpUtils.serialized(document)
+      .flatMap((docData) => {
+        const locked = {
+          ...row,
+          lockedBy: docData.lockedBy,
+          lockExpiresAt: docData.lockExpiresAt,
+        }
+        this.store.documents.set(locked.id, locked)
+
+        return mapper.mapOne(locked)
+      })
+      .mapErr(() => new DocumentNotFoundError(document.id))
+  }
+
+  async delete(
+    document: DocumentEntity,
+  ): Promise<Result<void, DocumentNotFoundError>> {
+    if (!this.store.documents.delete(document.id)) {
+      return R.Err(new DocumentNotFoundError(document.id))
+    }
+
+    // What references the document goes with it, as the foreign keys cascade in Postgres
+    const tables = [
+      this.store.documentVersions,
+      this.store.documentPermissions,
+      this.store.documentUploads,
+      this.store.documentContents,
+      this.store.documentRenditions,
+    ]
+    for (const table of tables) {
+      for (const [id, row] of table) {
+        if (row.documentId === document.id) table.delete(id)
+      }
+    }
+    writeToOutbox(this.store, document.domainEvents)
+
+    return R.Ok(undefined)
+  }
+
+  async findById(
+    id: DocumentType["id"],
+  ): Promise<RepoResult<DocumentEntity, DocumentNotFoundError>> {
+    const row = this.store.documents.get(id)
+    if (!row || !notDeleted(row)) {
+      return R.Err(new DocumentNotFoundError(id))
+    }
+
+    return mapper.mapOne(row)
+  }
+
+  async findByName(
+    name: string,
+  ): Promise<RepoResult<DocumentEntity, DocumentNotFoundError>> {
+    return this.findOne((row) => row.name === name, notDeleted)
+  }
+
+  async findByNameInFolder(
+    name: string,
+    folderId: FolderParentId,
+  ): Promise<RepoResult<DocumentEntity, DocumentNotFoundError>> {
+    return this.findOne(
+      (row) => row.name === name,
+      folderCondition(folderId),
+      notDeleted,
+    )
+  }
+
+  async findByFolder(
+    folderId: FolderParentId,
+    visibleTo?: UserType["id"],
+  ): Promise<Result<DocumentEntity[], Error>> {
+    const rows = this.rows(
+      folderCondition(folderId),
+      notDeleted,
+      ...(visibleTo ? [this.visibleCondition(visibleTo)] : []),
+    ).sort((a, b) => a.name.localeCompare(b.name))
+
+    return mapper.mapMany(rows)
+  }
+
+  async find(
+    query?: DocumentFilterQuery,
+    pagination?: { page?: number; limit?: number },
+  ): Promise<Result<{ documents: DocumentEntity[]; total: number }, Error>> {
+    return this.findPage(
+      [notDeleted, ...this.buildQueryConditions(query)],
+      pagination,
+      byCreatedAtDesc,
+    )
+  }
+
+  async findByTags(tags: string[]): Promise<Result<DocumentEntity[], Error>> {
+    return mapper.mapMany(
+      this.rows(
+        (row) => (row.tags ?? []).some((tag) => tags.includes(tag)),
+        notDeleted,
+      ),
+    )
+  }
+
+  async findByMimeType(
+    mimeType: string,
+  ): Promise<Result<DocumentEntity[], Error>> {
+    return mapper.mapMany(
+      this.rows((row) => row.mimeType === mimeType, notDeleted),
+    )
+  }
+
+  async findByDateRange(
+    fromDate: Date,
+    toDate: Date,
+  ): Promise<Result<DocumentEntity[], Error>> {
+    return mapper.mapMany(
+      this.rows(
+        (row) => timeOf(row.createdAt) >= fromDate.getTime(),
+        (row) => timeOf(row.createdAt) <= toDate.getTime(),
+        notDeleted,
+      ),
+    )
+  }
+
+  async findBySizeRange(
+    minSize: number,
+    maxSize: number,
+  ): Promise<Result<DocumentEntity[], Error>> {
+    return mapper.mapMany(
+      this.rows(
+        (row) => row.size >= minSize && row.size <= maxSize,
+        notDeleted,
+      ),
+    )
+  }
+
+  async exists(query: DocumentFilterQuery): Promise<Result<boolean, Error>> {
+    return R.Ok(
+      this.rows(notDeleted, ...this.buildQueryConditions(query)).length > 0,
+    )
+  }
+
+  async count(query?: DocumentFilterQuery): Promise<Result<number, Error>> {
+    return R.Ok(
+      this.rows(notDeleted, ...this.buildQueryConditions(query)).length,
+    )
+  }
+
+  async updateDocumentFields(
+    id: DocumentType["id"],
+    updates: DocumentUpdateType,
+  ): Promise<RepoResult<DocumentEntity, DocumentNotFoundError>> {
+    const existing = this.store.documents.get(id)
+    if (!existing) {
+      return R.Err(new DocumentNotFoundError(id))
+    }
+
+    // Only the fields that were provided change
+    const row: DocumentRow = {
+      ...existing,
+      ...(updates.name !== undefined && { name: updates.name }),
+      ...(updates.filePath !== undefined && { filePath: updates.filePath }),
+      ...(updates.mimeType !== undefined && { mimeType: updates.mimeType }),
+      ...(updates.size !== undefined && { size: updates.size }),
+      ...(updates.contentHash !== undefined && {
+        contentHash: updates.contentHash ?? undefined,
+      }),
+      ...(updates.scanStatus !== undefined && {
+        scanStatus: updates.scanStatus,
+      }),
+      ...(updates.tags !== undefined && { tags: [...updates.tags] }),
+      ...(updates.metadata !== undefined && {
+        metadata: { ...updates.metadata },
+      }),
+      ...(updates.folderId !== undefined && {
+        folderId: updates.folderId ?? undefined,
+      }),
+      version: versionOf(existing) + 1,
+      updatedAt: new Date(),
+    }
+
+    this.store.documents.set(id, row)
+    return mapper.mapOne(row)
+  }
+
+  async findByFilePath(
+    filePath: string,
+  ): Promise<RepoResult<DocumentEntity, DocumentNotFoundError>> {
+    return this.findOne((row) => row.filePath === filePath, notDeleted)
+  }
+
+  async searchDocuments(
+    searchTerm: string,
+    query?: DocumentFilterQuery,
+    pagination?: { page?: number; limit?: number },
+  ): Promise<Result<{ hits: DocumentSearchHit[]; total: number }, Error>> {
+    const words = searchWords(searchTerm)
+    if (words.length === 0) {
+      return R.Ok({ hits: [], total: 0 })
+    }
+
+    const matches = this.rows(notDeleted, ...this.buildQueryConditions(query))
+      .map((row) => this.searchMatch(row, words))
+      .filter((match) => match !== undefined)
+      .sort((a, b) => b.rank - a.rank || byCreatedAtDesc(a.row, b.row))
+    const page = paginate(matches, pagination)
+
+    return mapper.mapMany(page.map((match) => match.row)).map((documents) => ({
+      hits: documents.map((document, index) => ({
+        document,
+        rank: page[index]?.rank ?? 0,
+        snippet: page[index]?.snippet ?? "",
+      })),
+      total: matches.length,
+    }))
+  }
+
+  async findRecentDocuments(
+    hours: number,
+  ): Promise<Result<DocumentEntity[], Error>> {
+    const cutoffTime = Date.now() - hours * 60 * 60 * 1000
+    const rows = this.rows(
+      (row) => timeOf(row.updatedAt) >= cutoffTime,
+      notDeleted,
+    ).sort((a, b) => timeOf(b.updatedAt) - timeOf(a.updatedAt))
+
+    return mapper.mapMany(rows)
+  }
+
+  async findDuplicates(
+    query?: DocumentFilterQuery,
+    pagination?: { page?: number; limit?: number },
+  ): Promise<
+    Result<{ groups: DocumentDuplicateGroup[]; total: number }, Error>
+  > {
+    // Files stored before hashing can't be compared
+    const byHash = new Map<string, DocumentRow[]>()
+    for (const row of this.rows(
+      notDeleted,
+      (row) => row.contentHash !== undefined,
+      ...this.buildQueryConditions(query),
+    )) {
+      const hash = row.contentHash as string
+      byHash.set(hash, [...(byHash.get(hash) ?? []), row])
+    }
+
+    const duplicates = [...byHash.entries()]
+      .filter(([, rows]) => rows.length > 1)
+      .map(([contentHash, rows]) => ({
+        contentHash,
+        size: Math.max(...rows.map((row) => row.size)),
+        rows: rows.sort((a, b) => timeOf(a.createdAt) - timeOf(b.createdAt)),
+      }))
+      .sort(
+        (a, b) => b.size - a.size || a.contentHash.localeCompare(b.contentHash),
+      )
+
+    const groups: DocumentDuplicateGroup[] = []
+    for (const { contentHash, size, rows } of paginate(
+      duplicates,
+      pagination,
+    )) {
+      const documents = mapper.mapMany(rows)
+      if (documents.isErr()) {
+        return R.Err(documents.unwrapErr())
+      }
+      groups.push({ contentHash, size, documents: documents.unwrap() })
+    }
+
+    return R.Ok({ groups, total: duplicates.length })
+  }
+
+  async findDeletedById(
+    id: DocumentType["id"],
+  ): Promise<RepoResult<DocumentEntity, DocumentNotFoundError>> {
+    const row = this.store.documents.get(id)
+    if (!row || !inTrash(row)) {
+      return R.Err(new DocumentNotFoundError(id))
+    }
+
+    return mapper.mapOne(row)
+  }
+
+  async findDeleted(
+    query?: DocumentFilterQuery,
+    pagination?: { page?: number; limit?: number },
+  ): Promise<Result<{ documents: DocumentEntity[]; total: number }, Error>> {
+    // Most recently deleted first
+    return this.findPage(
+      [inTrash, ...this.buildQueryConditions(query)],
+      pagination,
+      (a, b) => this.deletedTime(b) - this.deletedTime(a),
+    )
+  }
+
+  async findDeletedBefore(
+    cutoff: Date,
+  ): Promise<Result<DocumentEntity[], Error>> {
+    const rows = this.rows(
+      (row) => this.deletedTime(row) < cutoff.getTime(),
+      inTrash,
+    ).sort((a, b) => this.deletedTime(a) - this.deletedTime(b))
+
+    return mapper.mapMany(rows)
+  }
+
+  async findPendingDelete(
+    limit: number,
+  ): Promise<Result<DocumentEntity[], Error>> {
+    const rows = this.rows((row) => row.status === "pending_delete")
+      .sort((a, b) => timeOf(a.updatedAt) - timeOf(b.updatedAt))
+      .slice(0, limit)
+
+    return mapper.mapMany(rows)
+  }
+
+  async findFileReferences(): Promise<Result<DocumentFileReference[], Error>> {
+    // Trashed and pending documents still own their files, so nothing is filtered out
+    const references = new Map<string, DocumentFileReference>()
+    const rows = [
+      ...this.store.documents.values(),
+      ...[
+        ...this.store.documentVersions.values(),
+        ...this.store.documentRenditions.values(),
+      ].map(({ documentId, filePath }) => ({ id: documentId, filePath })),
+    ]
+    for (const { id, filePath } of rows) {
+      references.set(JSON.stringify([id, filePath]), {
+        documentId: id as DocumentType["id"],
+        filePath,
+      })
+    }
+
+    return R.Ok([...references.values()])
+  }
+
+  async relocateFile(
+    fromPath: string,
+    toPath: string,
+  ): Promise<Result<number, Error>> {
+    const relocate = <T extends { filePath: string }>(
+      table: Map<string, T>,
+    ): number => {
+      let moved = 0
+      for (const [id, row] of table) {
+        if (row.filePath === fromPath) {
+          table.set(id, { ...row, filePath: toPath })
+          moved++
+        }
+      }
+      return moved
+    }
+
+    return R.Ok(
+      relocate(this.store.documents) +
+        relocate(this.store.documentVersions) +
+        relocate(this.store.documentRenditions),
+    )
+  }
+
+  private findPage(
+    conditions: DocumentCondition[],
+    pagination: { page?: number; limit?: number } | undefined,
+    orderBy: (a: DocumentRow, b: DocumentRow) => number,
+  ): Result<{ documents: DocumentEntity[]; total: number }, Error> {
+    const rows = this.rows(...conditions).sort(orderBy)
+
+    return mapper
+      .mapMany(paginate(rows, pagination))
+      .map((documents) => ({ documents, total: rows.length }))
+  }
+
+  private findOne(
+    ...conditions: DocumentCondition[]
+  ): RepoResult<DocumentEntity, DocumentNotFoundError> {
+    const [row] = this.rows(...conditions)
+    if (!row) {
+      return R.Err(new DocumentValidationError("Document not found"))
+    }
+
+    return mapper.mapOne(row)
+  }
+
+  private rows(...conditions: DocumentCondition[]): DocumentRow[] {
+    return [...this.store.documents.values()].filter((row) =>
+      conditions.every((condition) => condition(row)),
+    )
+  }
+
+  private deletedTime(row: DocumentRow): number {
+    return row.deletedAt === undefined ? 0 : timeOf(row.deletedAt)
+  }
+
+  private buildQueryConditions(
+    query?: DocumentFilterQuery,
+  ): DocumentCondition[] {
+    const conditions: DocumentCondition[] = []
+
+    if (query?.name) {
+      const name = query.name.toLowerCase()
+      conditions.push((row) => row.name.toLowerCase().includes(name))
+    }
+    if (query?.mimeType) {
+      const mimeType = query.mimeType
+      conditions.push((row) => row.mimeType === mimeType)
+    }
+    if (query?.tags && query.tags.length > 0) {
+      const tags = query.tags
+      conditions.push((row) =>
+        (row.tags ?? []).some((tag) => tags.includes(tag)),
+      )
+    }
+    if (query?.metadata && Object.keys(query.metadata).length > 0) {
+      // Any of the key-value pairs matching is enough
+      const pairs = Object.entries(query.metadata)
+      conditions.push((row) =>
+        pairs.some(([key, value]) => row.metadata?.[key] === value),
+      )
+    }
+    if (query?.fromDate) {
+      const fromTime = query.fromDate.getTime()
+      conditions.push((row) => timeOf(row.createdAt) >= fromTime)
+    }
+    if (query?.toDate) {
+      const toTime = query.toDate.getTime()
+      conditions.push((row) => timeOf(row.createdAt) <= toTime)
+    }
+    if (query?.minSize !== undefined) {
+      const minSize = query.minSize
+      conditions.push((row) => row.size >= minSize)
+    }
+    if (query?.maxSize !== undefined) {
+      const maxSize = query.maxSize
+      conditions.push((row) => row.size <= maxSize)
+    }
+    if (query?.folderId !== undefined) {
+      conditions.push(folderCondition(query.folderId))
+    }
+    if (query?.contentHash) {
+      const contentHash = query.contentHash
+      conditions.push((row) => row.contentHash === contentHash)
+    }
+    if (query?.scanStatus && query.scanStatus.length > 0) {
+      const scanStatus = query.scanStatus
+      conditions.push(
+        (row) =>
+          row.scanStatus !== undefined && scanStatus.includes(row.scanStatus),
+      )
+    }
+    if (query?.visibleTo) {
+      conditions.push(this.visibleCondition(query.visibleTo))
+    }
+
+    return conditions
+  }
+
+  // Documents the user owns, plus documents they were granted any level of access to
+  private visibleCondition(userId: UserType["id"]): DocumentCondition {
+    const granted = new Set(
+      [...this.store.documentPermissions.values()]
+        .filter((permission) => permission.userId === userId)
+        .map((permission) => permission.documentId),
+    )
+    return (row) => row.ownerId === userId || granted.has(row.id)
+  }
+
+  // Every word has to appear somewhere; matches in the name count the most, then tags, metadata
+  // values and finally the content
+  private searchMatch(
+    row: DocumentRow,
+    words: string[],
+  ): { row: DocumentRow; rank: number; snippet: string } | undefined {
+    const content = [...this.store.documentContents.values()].find(
+      (documentContent) => documentContent.documentId === row.id,
+    )?.content
+    const fields: [string, number][] = [
+      [row.name, 1],
+      [(row.tags ?? []).join(", "), 0.4],
+      [Object.values(row.metadata ?? {}).join(" "), 0.2],
+      [content ?? "", 0.1],
+    ]
+
+    let rank = 0
+    for (const word of words) {
+      const weight = Math.max(
+        0,
+        ...fields
+          .filter(([text]) => text.toLowerCase().includes(word))
+          .map(([, fieldWeight]) => fieldWeight),
+      )
+      if (weight === 0) return undefined
+      rank += weight
+    }
+
+    const alternatives = words.map(escapeRegExp).join("|")
+    const snippet = [row.name, (row.tags ?? []).join(", "), content]
+      .filter(
+        (text): text is string =>
+          !!text && new RegExp(alternatives, "i").test(text),
+      )
+      .map((text) =>
+        text.replace(new RegExp(`(${alternatives})`, "gi"), "<mark>$1</mark>"),
+      )
+      .join(" … ")
+
+    return { row, rank, snippet }
+  }
+}
@@ -0,0 +1,144 @@
+import { Result as R, type Result } from "@carbonteq/fp"
+import {
+  type FolderEncoded,
+  FolderEntity,
+  type FolderType,
+} from "@domain/folder/folder.entity"
+import {
+  FolderAlreadyExistsError,
+  FolderNotFoundError,
+} from "@domain/folder/folder.errors"
+import {
+  type FolderParentId,
+  FolderRepository,
+} from "@domain/folder/folder.repository"
+import { FpUtils, type RepoResult } from "@domain/utils"
+import { injectable } from "tsyringe"
+import { enhanceEntityMapper } from "../repos/repo.utils"
+import { InjectMemoryStore, type MemoryStore } from "./memory.store"
+
+const mapper = enhanceEntityMapper((row: FolderEncoded) =>
+  FolderEntity.fromEncoded(row),
+)
+
+const inParent = (row: FolderEncoded, parentId: FolderParentId) =>
+  (row.parentId ?? null) === (parentId ?? null)
+
+@injectable()
+export class InMemoryFolderRepository extends FolderRepository {
+  constructor(@InjectMemoryStore() private readonly store: MemoryStore) {
+    super()
+  }
+
+  async create(
+    folder: FolderEntity,
+  ): Promise<Result<FolderEntity, FolderAlreadyExistsError>> {
+    // Names are unique among siblings
+    if (this.findRow(folder.name, folder.parentId ?? null)) {
+      return R.Err(new FolderAlreadyExistsError(folder.name))
+    }
+
+    return FpUtils.serialized(folder)
+      .map((row) => {
+        this.store.folders.set(row.id, row)
+        return folder
+      })
+      .mapErr(() => new FolderAlreadyExistsError(folder.name))
+  }
+
+  async update(
+    folder: FolderEntity,
+  ): Promise<RepoResult<FolderEntity, FolderNotFoundError>> {
+    const existing = this.store.folders.get(folder.id)
+    if (!existing) {
+      return R.Err(new FolderNotFoundError(folder.id))
+    }
+
+    const row: FolderEncoded = {
+      ...existing,
+      name: folder.name,
+      parentId: folder.parentId,
+      updatedAt: new Date(),
+    }
+    this.store.folders.set(row.id, row)
+    return mapper.mapOne(row)
+  }
+
+  async delete(
+    id: FolderType["id"],
+  ): Promise<Result<void, FolderNotFoundError>> {
+    // Folders still holding documents or folders can't be deleted, as in Postgres
+    const inUse =
+      [...this.store.folders.values()].some((row) => row.parentId === id) ||
+      [...this.store.documents.values()].some((row) => row.folderId === id)
+    if (inUse || !this.store.folders.delete(id)) {
+      return R.Err(new FolderNotFoundError(id))
+    }
+
+    for (const [uploadId, row] of this.store.documentUploads) {
+      if (row.folderId === id) this.store.documentUploads.delete(uploadId)
+    }
+    return R.Ok(undefined)
+  }
+
+  async findById(
+    id: FolderType["id"],
+  ): Promise<RepoResult<FolderEntity, FolderNotFoundError>> {
+    const row = this.store.folders.get(id)
+    if (!row) {
+      return R.Err(new FolderNotFoundError(id))
+    }
+
+    return mapper.mapOne(row)
+  }
+
+  async findByName(
+    name: string,
+    parentId: FolderParentId,
+  ): Promise<RepoResult<FolderEntity, FolderNotFoundError>> {
+    const row = this.findRow(name, parentId)
+    if (!row) {
+      return R.Err(new FolderNotFoundError(name as FolderType["id"]))
+    }
+
+    return mapper.mapOne(row)
+  }
+
+  async findChildren(
+    parentId: FolderParentId,
+  ): Promise<Result<FolderEntity[], Error>> {
+    const rows = [...this.store.folders.values()]
+      .filter((row) => inParent(row, parentId))
+      .sort((a, b) => a.name.localeCompare(b.name))
+
+    return mapper.mapMany(rows)
+  }
+
+  async findAncestors(
+    id: FolderType["id"],
+  ): Promise<Result<FolderEntity[], Error>> {
+    const ancestors: FolderEncoded[] = []
+    const visited = new Set<string>([id])
+
+    // The visited set guards against bad data
+    let parentId = this.store.folders.get(id)?.parentId
+    while (parentId && !visited.has(parentId)) {
+      visited.add(parentId)
+      const parent = this.store.folders.get(parentId)
+      if (!parent) break
+      ancestors.unshift(parent)
+      parentId = parent.parentId
+    }
+
+    return mapper.mapMany(ancestors)
+  }
+
+  private findRow(
+    name: string,
+    parentId: FolderParentId,
+  ): FolderEncoded | undefined {
+    return [...this.store.folders.values()].find(
+      (row) => row.name === name && inParent(row, parentId),
+    )
+  }
+}
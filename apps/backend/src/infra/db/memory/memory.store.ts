@@ -0,0 +1,94 @@
+import type { AuditEventEncoded } from "@domain/audit/audit-event.entity"
+import type { DocumentEncoded } from "@domain/document/document.entity"
+import type { DocumentContentEncoded } from "@domain/document/document-content.entity"
+import type { DocumentPermissionEncoded } from "@domain/document/document-permission.entity"
+import type { DocumentRenditionEncoded } from "@domain/document/document-rendition.entity"
+import type { DocumentUploadEncoded } from "@domain/document/document-upload.entity"
+import type { DocumentVersionEncoded } from "@domain/document/document-version.entity"
+import type { OutboxMessageEncoded } from "@domain/events/outbox-message.entity"
+import type { FolderEncoded } from "@domain/folder/folder.entity"
+import type { UserEncoded } from "@domain/user/user.entity"
+import type { DateTimeEncoded } from "@domain/utils"
+import type { WebhookEncoded } from "@domain/webhook/webhook.entity"
+import type { WebhookDeliveryEncoded } from "@domain/webhook/webhook-delivery.entity"
+import {
+  container,
+  type DependencyContainer,
+  type FactoryProvider,
+  inject,
+  instanceCachingFactory,
+} from "tsyringe"
+import type { StoredFileKey } from "@/infra/storage/encryption/file-key.store"
+
+// Users as Better Auth's memory adapter stores them
+export type MemoryUserRow = UserEncoded & { image?: string | null }
+
+// Better Auth's tables, keyed by their model names. Its adapter replaces the arrays as it writes
+// to them, so they are looked up anew every time instead of being held on to
+export interface MemoryAuthTables {
+  // biome-ignore lint/suspicious/noExplicitAny: rows of the tables Better Auth manages itself
+  [model: string]: any[]
+  users: MemoryUserRow[]
+}
+
+/**
+ * The tables of the in-memory database (DB_BACKEND=memory), shared by the in-memory repositories
+ * and Better Auth. Rows are the encoded entities, keyed by id. Nothing is awaited while a
+ * repository changes them, so each change is as atomic as a transaction.
+ */
+export class MemoryStore {
+  readonly documents = new Map<string, DocumentEncoded>()
+  readonly documentVersions = new Map<string, DocumentVersionEncoded>()
+  readonly documentPermissions = new Map<string, DocumentPermissionEncoded>()
+  readonly documentUploads = new Map<string, DocumentUploadEncoded>()
+  readonly documentContents = new Map<string, DocumentContentEncoded>()
+  readonly documentRenditions = new Map<string, DocumentRenditionEncoded>()
+  readonly folders = new Map<string, FolderEncoded>()
+  readonly auditEvents = new Map<string, AuditEventEncoded>()
+  readonly webhooks = new Map<string, WebhookEncoded>()
+  readonly webhookDeliveries = new Map<string, WebhookDeliveryEncoded>()
+  readonly outbox = new Map<string, OutboxMessageEncoded>()
+  readonly storedFileKeys = new Map<string, StoredFileKey>() // Keyed by file path
+
+  readonly auth: MemoryAuthTables = {
+    users: [],
+    session: [],
+    account: [],
+    verification: [],
+  }
+}
+
+// Timestamps of rows compare as milliseconds, however they were encoded
+export const timeOf = (value: DateTimeEncoded): number => {
+  if (value instanceof Date) return value.getTime()
+  if (typeof value === "number") return value
+  return Date.parse(value)
+}
+
+// Rows start at version 1 like the database's column default - Better Auth's rows have none
+export const versionOf = (row: { version?: number }): number => row.version ?? 1
+
+// Defaults match the Drizzle repositories
+export const paginate = <T>(
+  rows: T[],
+  pagination?: { page?: number; limit?: number },
+): T[] => {
+  const page = pagination?.page || 1
+  const limit = pagination?.limit || 10
+  return rows.slice((page - 1) * limit, page * limit)
+}
+
+const MemoryStoreSym = Symbol.for("MemoryStore")
+
+export const MemoryStoreProvider: FactoryProvider<MemoryStore> = {
+  useFactory: instanceCachingFactory(() => new MemoryStore()),
+}
+
+container.register(MemoryStoreSym, MemoryStoreProvider)
+
+export const InjectMemoryStore = () => inject(MemoryStoreSym)
+export const resolveMemoryStore = () =>
+  container.resolve(MemoryStoreSym) as MemoryStore
+export const resolveMemoryStoreFromContainer = (
+  depcontainer: DependencyContainer,
+) => depcontainer.resolve(MemoryStoreSym) as MemoryStore
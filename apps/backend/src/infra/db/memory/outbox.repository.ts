@@ -0,0 +1,101 @@
+import { Result as R, type Result } from "@carbonteq/fp"
+import type { DomainEvent } from "@domain/events/domain-event"
+import { OutboxMessageNotFoundError } from "@domain/events/outbox.errors"
+import { OutboxRepository } from "@domain/events/outbox.repository"
+import {
+  type OutboxMessageEncoded,
+  OutboxMessageEntity,
+} from "@domain/events/outbox-message.entity"
+import { FpUtils, type RepoResult } from "@domain/utils"
+import { injectable } from "tsyringe"
+import { enhanceEntityMapper } from "../repos/repo.utils"
+import { InjectMemoryStore, type MemoryStore, timeOf } from "./memory.store"
+
+const mapper = enhanceEntityMapper((row: OutboxMessageEncoded) =>
+  OutboxMessageEntity.fromEncoded(row),
+)
+
+/**
+ * Save the events an entity recorded, along with the change that saves the entity.
+ */
+export const writeToOutbox = (
+  store: MemoryStore,
+  events: readonly DomainEvent[],
+): void => {
+  for (const event of events) {
+    const message = OutboxMessageEntity.fromEvent(event)
+    FpUtils.serialized(message).map((row) => store.outbox.set(row.id, row))
+  }
+}
+
+@injectable()
+export class InMemoryOutboxRepository extends OutboxRepository {
+  constructor(@InjectMemoryStore() private readonly store: MemoryStore) {
+    super()
+  }
+
+  async claimDue(
+    limit: number,
+    leaseMs: number,
+  ): Promise<Result<OutboxMessageEntity[], Error>> {
+    const now = new Date()
+    const due = [...this.store.outbox.values()]
+      .filter(
+        (row) =>
+          row.publishedAt === undefined &&
+          timeOf(row.availableAt) <= now.getTime(),
+      )
+      .sort(
+        (a, b) =>
+          timeOf(a.occurredAt) - timeOf(b.occurredAt) ||
+          a.id.localeCompare(b.id),
+      )
+      .slice(0, limit)
+      .map((row) => ({
+        ...row,
+        availableAt: new Date(now.getTime() + leaseMs),
+        updatedAt: now,
+      }))
+
+    for (const row of due) {
+      this.store.outbox.set(row.id, row)
+    }
+    return mapper.mapMany(due)
+  }
+
+  async update(
+    message: OutboxMessageEntity,
+  ): Promise<RepoResult<OutboxMessageEntity, OutboxMessageNotFoundError>> {
+    const existing = this.store.outbox.get(message.id)
+    if (!existing) {
+      return R.Err(new OutboxMessageNotFoundError(message.id))
+    }
+
+    const row: OutboxMessageEncoded = {
+      ...existing,
+      attempts: message.attempts,
+      availableAt: new Date(message.availableAt.epochMillis),
+      publishedAt: message.publishedAt
+        ? new Date(message.publishedAt.epochMillis)
+        : undefined,
+      lastError: message.lastError,
+      updatedAt: new Date(),
+    }
+    this.store.outbox.set(row.id, row)
+    return mapper.mapOne(row)
+  }
+
+  async deletePublishedBefore(cutoff: Date): Promise<Result<number, Error>> {
+    let deleted = 0
+    for (const row of this.store.outbox.values()) {
+      if (
+        row.publishedAt !== undefined &&
+        timeOf(row.publishedAt) < cutoff.getTime()
+      ) {
+        this.store.outbox.delete(row.id)
+        deleted++
+      }
+    }
+    return R.Ok(deleted)
+  }
+}
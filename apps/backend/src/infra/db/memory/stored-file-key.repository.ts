@@ -0,0 +1,79 @@
+import { Result as R, type Result } from "@carbonteq/fp"
+import { injectable } from "tsyringe"
+import type {
+  FileKeyStore,
+  StoredFileKey,
+} from "@/infra/storage/encryption/file-key.store"
+import type { WrappedKey } from "@/infra/storage/encryption/master-keyring"
+import { InjectMemoryStore, type MemoryStore } from "./memory.store"
+
+@injectable()
+export class InMemoryFileKeyStore implements FileKeyStore {
+  constructor(@InjectMemoryStore() private readonly store: MemoryStore) {}
+
+  async find(
+    filePath: string,
+  ): Promise<Result<StoredFileKey | undefined, Error>> {
+    const key = this.store.storedFileKeys.get(filePath)
+    return R.Ok(key && { ...key })
+  }
+
+  async save(key: StoredFileKey): Promise<Result<void, Error>> {
+    this.store.storedFileKeys.set(key.filePath, { ...key })
+    return R.Ok(undefined)
+  }
+
+  async move(fromPath: string, toPath: string): Promise<Result<void, Error>> {
+    const key = this.store.storedFileKeys.get(fromPath)
+    if (key) {
+      this.store.storedFileKeys.delete(fromPath)
+      this.store.storedFileKeys.set(toPath, { ...key, filePath: toPath })
+    }
+    return R.Ok(undefined)
+  }
+
+  async delete(filePath: string): Promise<Result<void, Error>> {
+    this.store.storedFileKeys.delete(filePath)
+    return R.Ok(undefined)
+  }
+
+  async findWrappedWithout(
+    masterKeyId: string,
+    afterPath: string | undefined,
+    limit: number,
+  ): Promise<Result<StoredFileKey[], Error>> {
+    const keys = [...this.store.storedFileKeys.values()]
+      .filter(
+        (key) =>
+          key.masterKeyId !== masterKeyId &&
+          (afterPath === undefined || key.filePath > afterPath),
+      )
+      .sort((a, b) => (a.filePath < b.filePath ? -1 : 1))
+      .slice(0, limit)
+
+    return R.Ok(keys.map((key) => ({ ...key })))
+  }
+
+  async rewrap(
+    filePath: string,
+    previous: WrappedKey,
+    next: WrappedKey,
+  ): Promise<Result<boolean, Error>> {
+    // A file stored again since it was read has a new data key, which must not be overwritten
+    const key = this.store.storedFileKeys.get(filePath)
+    if (
+      !key ||
+      key.wrappedKey !== previous.wrappedKey ||
+      key.masterKeyId !== previous.masterKeyId
+    ) {
+      return R.Ok(false)
+    }
+
+    this.store.storedFileKeys.set(filePath, {
+      ...key,
+      wrappedKey: next.wrappedKey,
+      masterKeyId: next.masterKeyId,
+    })
+    return R.Ok(true)
+  }
+}
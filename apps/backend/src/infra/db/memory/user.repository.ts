@@ -0,0 +1,257 @@
+import { Result as R, type Result } from "@carbonteq/fp"
+import {
+  UserEntity as User,
+  type UserEntity,
+  type UserType,
+  type UserUpdateType,
+} from "@domain/user/user.entity"
+import {
+  UserAlreadyExistsError,
+  UserModifiedError,
+  UserNotFoundError,
+  UserValidationError,
+} from "@domain/user/user.errors"
+import {
+  type UserFilterQuery,
+  UserRepository,
+} from "@domain/user/user.repository"
+import { FpUtils, type RepoResult } from "@domain/utils"
+import { injectable } from "tsyringe"
+import { enhanceEntityMapper } from "../repos/repo.utils"
+import {
+  InjectMemoryStore,
+  type MemoryStore,
+  type MemoryUserRow,
+  paginate,
+  timeOf,
+  versionOf,
+} from "./memory.store"
+import { writeToOutbox } from "./outbox.repository"
+
+type UserCondition = (row: MemoryUserRow) => boolean
+
+const mapper = enhanceEntityMapper((row: MemoryUserRow) =>
+  User.fromEncoded({
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    role: row.role,
+    emailVerified: row.emailVerified,
+    version: versionOf(row),
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  }),
+)
+
+/**
+ * Users in the in-memory database. They share their table with Better Auth, so users who signed
+ * up are found here and users saved here can sign in once they have an account.
+ */
+@injectable()
+export class InMemoryUserRepository extends UserRepository {
+  constructor(@InjectMemoryStore() private readonly store: MemoryStore) {
+    super()
+  }
+
+  async create(
+    user: UserEntity,
+  ): Promise<Result<UserEntity, UserAlreadyExistsError>> {
+    if (this.rows((row) => row.email === user.email).length > 0) {
+      return R.Err(new UserAlreadyExistsError(user.email))
+    }
+
+    return FpUtils.serialized(user)
+      .flatMap((row) => {
+        this.store.auth.users = [...this.store.auth.users, row]
+        writeToOutbox(this.store, user.domainEvents)
+
+        return mapper.mapOne(row)
+      })
+      .mapErr(() => new UserAlreadyExistsError(user.email))
+  }
+
+  async update(
+    user: UserEntity,
+    expectedVersion?: number,
+  ): Promise<RepoResult<UserEntity, UserNotFoundError | UserModifiedError>> {
+    const existing = this.rows((row) => row.id === user.id)[0]
+    if (!existing) {
+      return R.Err(new UserNotFoundError(user.id))
+    }
+    if (
+      expectedVersion !== undefined &&
+      versionOf(existing) !== expectedVersion
+    ) {
+      return R.Err(
+        new UserModifiedError(
+          { id: user.id, version: versionOf(existing) },
+          expectedVersion,
+        ),
+      )
+    }
+
+    return FpUtils.serialized(user)
+      .flatMap((userData) => {
+        const row = this.replace({
+          ...existing,
+          ...userData,
+          version: versionOf(existing) + 1,
+          updatedAt: new Date(),
+        })
+        writeToOutbox(this.store, user.domainEvents)
+
+        return mapper.mapOne(row)
+      })
+      .mapErr(() => new UserNotFoundError(user.id))
+  }
+
+  async delete(user: UserEntity): Promise<Result<void, UserNotFoundError>> {
+    const users = this.store.auth.users
+    if (!users.some((row) => row.id === user.id)) {
+      return R.Err(new UserNotFoundError(user.id))
+    }
+
+    this.store.auth.users = users.filter((row) => row.id !== user.id)
+    this.removeReferences(user.id)
+    writeToOutbox(this.store, user.domainEvents)
+
+    return R.Ok(undefined)
+  }
+
+  async findById(
+    id: UserType["id"],
+  ): Promise<RepoResult<UserEntity, UserNotFoundError>> {
+    const [row] = this.rows((row) => row.id === id)
+    if (!row) {
+      return R.Err(new UserNotFoundError(id))
+    }
+
+    return mapper.mapOne(row).mapErr(() => new UserNotFoundError(id))
+  }
+
+  async findByEmail(
+    email: string,
+  ): Promise<RepoResult<UserEntity, UserNotFoundError>> {
+    const [row] = this.rows((row) => row.email === email)
+    if (!row) {
+      return R.Err(new UserValidationError("User not found"))
+    }
+
+    return mapper
+      .mapOne(row)
+      .mapErr(() => new UserValidationError("User not found"))
+  }
+
+  async find(
+    query?: UserFilterQuery,
+    pagination?: { page?: number; limit?: number },
+  ): Promise<Result<{ users: UserEntity[]; total: number }, Error>> {
+    const rows = this.rows(...this.buildQueryConditions(query)).sort(
+      (a, b) => timeOf(a.createdAt) - timeOf(b.createdAt),
+    )
+
+    const userResults = mapper.mapMany(paginate(rows, pagination))
+    if (userResults.isErr()) {
+      return R.Err(
+        new Error(
+          `Failed to transform user records: ${userResults.unwrapErr().message}`,
+        ),
+      )
+    }
+
+    return R.Ok({ users: userResults.unwrap(), total: rows.length })
+  }
+
+  async findByRole(
+    role: "user" | "admin",
+  ): Promise<Result<UserEntity[], Error>> {
+    const userResults = mapper.mapMany(this.rows((row) => row.role === role))
+    if (userResults.isErr()) {
+      return R.Err(
+        new Error(
+          `Failed to transform user records: ${userResults.unwrapErr().message}`,
+        ),
+      )
+    }
+
+    return R.Ok(userResults.unwrap())
+  }
+
+  async exists(query: UserFilterQuery): Promise<Result<boolean, Error>> {
+    return R.Ok(this.rows(...this.buildQueryConditions(query)).length > 0)
+  }
+
+  async count(query?: UserFilterQuery): Promise<Result<number, Error>> {
+    return R.Ok(this.rows(...this.buildQueryConditions(query)).length)
+  }
+
+  async updateUserFields(
+    id: UserType["id"],
+    updates: UserUpdateType,
+  ): Promise<RepoResult<UserEntity, UserNotFoundError>> {
+    const [existing] = this.rows((row) => row.id === id)
+    if (!existing) {
+      return R.Err(new UserNotFoundError(id))
+    }
+
+    const row = this.replace({
+      ...existing,
+      ...updates,
+      version: versionOf(existing) + 1,
+      updatedAt: new Date(),
+    })
+    return mapper.mapOne(row).mapErr(() => new UserNotFoundError(id))
+  }
+
+  private rows(...conditions: UserCondition[]): MemoryUserRow[] {
+    return this.store.auth.users.filter((row) =>
+      conditions.every((condition) => condition(row)),
+    )
+  }
+
+  private replace(row: MemoryUserRow): MemoryUserRow {
+    this.store.auth.users = this.store.auth.users.map((existing) =>
+      existing.id === row.id ? row : existing,
+    )
+    return row
+  }
+
+  // The foreign keys on users cascade or are set to null in Postgres
+  private removeReferences(userId: UserType["id"]): void {
+    for (const model of ["session", "account"]) {
+      this.store.auth[model] = (this.store.auth[model] ?? []).filter(
+        (row) => row.userId !== userId,
+      )
+    }
+    for (const [id, row] of this.store.documents) {
+      if (row.ownerId === userId || row.lockedBy === userId) {
+        this.store.documents.set(id, {
+          ...row,
+          ownerId: row.ownerId === userId ? undefined : row.ownerId,
+          lockedBy: row.lockedBy === userId ? undefined : row.lockedBy,
+        })
+      }
+    }
+    for (const [id, row] of this.store.documentPermissions) {
+      if (row.userId === userId) this.store.documentPermissions.delete(id)
+    }
+    for (const [id, row] of this.store.documentUploads) {
+      if (row.ownerId === userId) this.store.documentUploads.delete(id)
+    }
+  }
+
+  private buildQueryConditions(query?: UserFilterQuery): UserCondition[] {
+    const conditions: UserCondition[] = []
+
+    if (query?.email) {
+      const email = query.email.toLowerCase()
+      conditions.push((row) => row.email.toLowerCase().includes(email))
+    }
+    if (query?.role) {
+      const role = query.role
+      conditions.push((row) => row.role === role)
+    }
+
+    return conditions
+  }
+}
@@ -0,0 +1,90 @@
+import { Result as R, type Result } from "@carbonteq/fp"
+import { FpUtils, type RepoResult } from "@domain/utils"
+import type { WebhookType } from "@domain/webhook/webhook.entity"
+import { WebhookDeliveryNotFoundError } from "@domain/webhook/webhook.errors"
+import {
+  type WebhookDeliveryEncoded,
+  WebhookDeliveryEntity,
+  type WebhookDeliveryType,
+} from "@domain/webhook/webhook-delivery.entity"
+import { WebhookDeliveryRepository } from "@domain/webhook/webhook-delivery.repository"
+import { injectable } from "tsyringe"
+import { enhanceEntityMapper } from "../repos/repo.utils"
+import {
+  InjectMemoryStore,
+  type MemoryStore,
+  paginate,
+  timeOf,
+} from "./memory.store"
+
+const mapper = enhanceEntityMapper((row: WebhookDeliveryEncoded) =>
+  WebhookDeliveryEntity.fromEncoded(row),
+)
+
+@injectable()
+export class InMemoryWebhookDeliveryRepository extends WebhookDeliveryRepository {
+  constructor(@InjectMemoryStore() private readonly store: MemoryStore) {
+    super()
+  }
+
+  async create(
+    delivery: WebhookDeliveryEntity,
+  ): Promise<Result<WebhookDeliveryEntity, Error>> {
+    return FpUtils.serialized(delivery)
+      .mapErr(() => new Error("Failed to save webhook delivery"))
+      .flatMap((row) => {
+        this.store.webhookDeliveries.set(row.id, row)
+        return mapper.mapOne(row)
+      })
+  }
+
+  async update(
+    delivery: WebhookDeliveryEntity,
+  ): Promise<RepoResult<WebhookDeliveryEntity, WebhookDeliveryNotFoundError>> {
+    const existing = this.store.webhookDeliveries.get(delivery.id)
+    if (!existing) {
+      return R.Err(new WebhookDeliveryNotFoundError(delivery.id))
+    }
+
+    const row: WebhookDeliveryEncoded = {
+      ...existing,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      responseStatus: delivery.responseStatus,
+      responseBody: delivery.responseBody,
+      error: delivery.error,
+      updatedAt: new Date(),
+    }
+    this.store.webhookDeliveries.set(row.id, row)
+    return mapper.mapOne(row)
+  }
+
+  async findById(
+    id: WebhookDeliveryType["id"],
+  ): Promise<RepoResult<WebhookDeliveryEntity, WebhookDeliveryNotFoundError>> {
+    const row = this.store.webhookDeliveries.get(id)
+    if (!row) {
+      return R.Err(new WebhookDeliveryNotFoundError(id))
+    }
+
+    return mapper.mapOne(row)
+  }
+
+  async findByWebhookId(
+    webhookId: WebhookType["id"],
+    pagination?: { page?: number; limit?: number },
+  ): Promise<
+    Result<{ deliveries: WebhookDeliveryEntity[]; total: number }, Error>
+  > {
+    const rows = [...this.store.webhookDeliveries.values()]
+      .filter((row) => row.webhookId === webhookId)
+      .sort(
+        (a, b) =>
+          timeOf(b.createdAt) - timeOf(a.createdAt) || b.id.localeCompare(a.id),
+      )
+
+    return mapper
+      .mapMany(paginate(rows, pagination))
+      .map((deliveries) => ({ deliveries, total: rows.length }))
+  }
+}
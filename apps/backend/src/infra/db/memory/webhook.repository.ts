@@ -0,0 +1,96 @@
+import { Result as R, type Result } from "@carbonteq/fp"
+import { FpUtils, type RepoResult } from "@domain/utils"
+import {
+  type WebhookEncoded,
+  WebhookEntity,
+  type WebhookEvent,
+  type WebhookType,
+} from "@domain/webhook/webhook.entity"
+import { WebhookNotFoundError } from "@domain/webhook/webhook.errors"
+import { WebhookRepository } from "@domain/webhook/webhook.repository"
+import { injectable } from "tsyringe"
+import { enhanceEntityMapper } from "../repos/repo.utils"
+import { InjectMemoryStore, type MemoryStore, timeOf } from "./memory.store"
+
+const mapper = enhanceEntityMapper((row: WebhookEncoded) =>
+  WebhookEntity.fromEncoded(row),
+)
+
+@injectable()
+export class InMemoryWebhookRepository extends WebhookRepository {
+  constructor(@InjectMemoryStore() private readonly store: MemoryStore) {
+    super()
+  }
+
+  async create(webhook: WebhookEntity): Promise<Result<WebhookEntity, Error>> {
+    return FpUtils.serialized(webhook)
+      .mapErr(() => new Error("Failed to save webhook"))
+      .flatMap((row) => {
+        this.store.webhooks.set(row.id, row)
+        return mapper.mapOne(row)
+      })
+  }
+
+  // The secret a webhook was created with never changes
+  async update(
+    webhook: WebhookEntity,
+  ): Promise<RepoResult<WebhookEntity, WebhookNotFoundError>> {
+    const existing = this.store.webhooks.get(webhook.id)
+    if (!existing) {
+      return R.Err(new WebhookNotFoundError(webhook.id))
+    }
+
+    const row: WebhookEncoded = {
+      ...existing,
+      url: webhook.url,
+      events: [...webhook.events],
+      active: webhook.active,
+      description: webhook.description,
+      updatedAt: new Date(),
+    }
+    this.store.webhooks.set(row.id, row)
+    return mapper.mapOne(row)
+  }
+
+  async delete(
+    id: WebhookType["id"],
+  ): Promise<Result<void, WebhookNotFoundError>> {
+    if (!this.store.webhooks.delete(id)) {
+      return R.Err(new WebhookNotFoundError(id))
+    }
+
+    for (const [deliveryId, row] of this.store.webhookDeliveries) {
+      if (row.webhookId === id) this.store.webhookDeliveries.delete(deliveryId)
+    }
+    return R.Ok(undefined)
+  }
+
+  async findById(
+    id: WebhookType["id"],
+  ): Promise<RepoResult<WebhookEntity, WebhookNotFoundError>> {
+    const row = this.store.webhooks.get(id)
+    if (!row) {
+      return R.Err(new WebhookNotFoundError(id))
+    }
+
+    return mapper.mapOne(row)
+  }
+
+  async findAll(): Promise<Result<WebhookEntity[], Error>> {
+    const rows = [...this.store.webhooks.values()].sort(
+      (a, b) => timeOf(a.createdAt) - timeOf(b.createdAt),
+    )
+
+    return mapper.mapMany(rows)
+  }
+
+  async findSubscribedTo(
+    event: WebhookEvent,
+  ): Promise<Result<WebhookEntity[], Error>> {
+    const rows = [...this.store.webhooks.values()].filter(
+      (row) => row.active && row.events.includes(event),
+    )
+
+    return mapper.mapMany(rows)
+  }
+}
@@ -56,13 +56,34 @@
 
 // NEW DMS TABLES
 import type { UserType } from "@domain/user/user.entity"
-import type { DocumentType } from "@domain/document/document.entity"
-import { pgTable, text, timestamp, uuid, jsonb, integer, boolean } from "drizzle-orm/pg-core"
+import type { DocumentStatus, DocumentType, ScanStatus } from "@domain/document/document.entity"
+import type { DocumentVersionType } from "@domain/document/document-version.entity"
+import type { DocumentPermissionType } from "@domain/document/document-permission.entity"
+import type { DocumentUploadType } from "@domain/document/document-upload.entity"
+import type { DocumentContentStatus, DocumentContentType } from "@domain/document/document-content.entity"
+import type { DocumentRenditionType } from "@domain/document/document-rendition.entity"
+import type { FolderType } from "@domain/folder/folder.entity"
+import type { AuditAction, AuditEventType, AuditSnapshot, AuditTargetType } from "@domain/audit/audit-event.entity"
+import type { WebhookEvent, WebhookType } from "@domain/webhook/webhook.entity"
+import type { WebhookDeliveryStatus, WebhookDeliveryType, WebhookPayload } from "@domain/webhook/webhook-delivery.entity"
+import type { DomainEventPayload, DomainEventType } from "@domain/events/domain-event"
+import type { OutboxMessageType } from "@domain/events/outbox-message.entity"
+import { pgTable, text, timestamp, uuid, jsonb, integer, boolean, unique, index, type AnyPgColumn } from "drizzle-orm/pg-core"
 import { sql } from "drizzle-orm"
-import { getBaseColumns, getPrimaryKeyCol } from "../db.utils"
+import { getBaseColumns, getPrimaryKeyCol, tsvector } from "../db.utils"
 
 type UserId = UserType["id"]
 type DocumentId = DocumentType["id"]
+type DocumentVersionId = DocumentVersionType["id"]
+type DocumentPermissionId = DocumentPermissionType["id"]
+type DocumentUploadId = DocumentUploadType["id"]
+type DocumentContentId = DocumentContentType["id"]
+type DocumentRenditionId = DocumentRenditionType["id"]
+type FolderId = FolderType["id"]
+type AuditEventId = AuditEventType["id"]
+type WebhookId = WebhookType["id"]
+type WebhookDeliveryId = WebhookDeliveryType["id"]
+type OutboxMessageId = OutboxMessageType["id"]
 
 // DMS User table
 export const users = pgTable("users", {
@@ -72,8 +93,21 @@ export const users = pgTable("users", {
   email: text("email").notNull().unique(),
   role: text("role", { enum: ["user", "admin"] }).notNull().default("user"),
   emailVerified: boolean("email_verified").notNull().default(false),
+  version: integer("version").notNull().default(1), // Raised by every save - the ETag of the user
 })
 
+// DMS Folder table - parent_id is null for root folders
+export const folders = pgTable("folders", {
+  ...getBaseColumns<FolderId>(),
+
+  name: text("name").notNull(),
+  parentId: uuid("parent_id")
+    .$type<FolderId>()
+    .references((): AnyPgColumn => folders.id, { onDelete: "restrict" }),
+}, (table) => [
+  index("folders_parent_id_idx").on(table.parentId),
+])
+
 // DMS Document table
 export const documents = pgTable("documents", {
   ...getBaseColumns<DocumentId>(),
@@ -82,10 +116,226 @@ export const documents = pgTable("documents", {
   filePath: text("file_path").notNull(),
   mimeType: text("mime_type").notNull(),
   size: integer("size").notNull(), // Using integer for file size in bytes
+  contentHash: text("content_hash"), // SHA-256 hex of the current file; null for files uploaded before hashing
+  scanStatus: text("scan_status").$type<ScanStatus>().notNull().default("pending"), // Files stored before scanning existed are scanned by the retry job
   tags: text("tags").array().default(sql`ARRAY[]::text[]`),
   metadata: jsonb("metadata").$type<Record<string, string>>().default({}),
+  folderId: uuid("folder_id")
+    .$type<FolderId>()
+    .references(() => folders.id, { onDelete: "restrict" }), // Null for documents at the root
+  ownerId: uuid("owner_id")
+    .$type<UserId>()
+    .references(() => users.id, { onDelete: "set null" }), // Null for documents uploaded before ownership existed
+  deletedAt: timestamp("deleted_at"), // Set while the document sits in the trash
+  status: text("status").$type<DocumentStatus>().notNull().default("active"), // pending_delete while a purge waits for its files to be deleted
+  lockedBy: uuid("locked_by")
+    .$type<UserId>()
+    .references(() => users.id, { onDelete: "set null" }), // The user who checked the document out
+  lockExpiresAt: timestamp("lock_expires_at"), // Set along with locked_by - lapsed checkouts no longer lock the document
+  version: integer("version").notNull().default(1), // Raised by every save except checkouts - the ETag of the document
+  searchVector: tsvector("search_vector"), // Name, tags and metadata values - maintained by the documents_search_vector trigger
+}, (table) => [
+  index("documents_folder_id_idx").on(table.folderId),
+  index("documents_owner_id_idx").on(table.ownerId),
+  index("documents_deleted_at_idx").on(table.deletedAt),
+  index("documents_content_hash_idx").on(table.contentHash),
+  index("documents_scan_status_idx").on(table.scanStatus),
+  index("documents_status_idx").on(table.status),
+  index("documents_search_vector_idx").using("gin", table.searchVector),
+])
+
+// DMS Text extracted from the current file of a document, along with how the extraction went
+export const documentContents = pgTable("document_contents", {
+  ...getBaseColumns<DocumentContentId>(),
+
+  documentId: uuid("document_id")
+    .$type<DocumentId>()
+    .notNull()
+    .unique()
+    .references(() => documents.id, { onDelete: "cascade" }),
+  status: text("status").$type<DocumentContentStatus>().notNull(),
+  extractor: text("extractor"),
+  content: text("content"), // Only set once extracted
+  error: text("error"), // Only set when the extraction failed
+  searchVector: tsvector("search_vector")
+    .notNull()
+    .generatedAlwaysAs(sql`setweight(to_tsvector('english', coalesce("content", '')), 'D')`),
+}, (table) => [
+  index("document_contents_search_vector_idx").using("gin", table.searchVector),
+])
+
+// DMS Derived files of the current file of a document (thumbnails), at most one per size
+export const documentRenditions = pgTable("document_renditions", {
+  ...getBaseColumns<DocumentRenditionId>(),
+
+  documentId: uuid("document_id")
+    .$type<DocumentId>()
+    .notNull()
+    .references(() => documents.id, { onDelete: "cascade" }),
+  size: integer("size").notNull(), // Longest edge in pixels the rendition was generated for
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  filePath: text("file_path").notNull(),
+  mimeType: text("mime_type").notNull(),
+  fileSize: integer("file_size").notNull(),
+}, (table) => [
+  unique("document_renditions_document_id_size_unique").on(table.documentId, table.size),
+])
+
+// DMS Document version history - one row per uploaded (or restored) file
+export const documentVersions = pgTable("document_versions", {
+  ...getBaseColumns<DocumentVersionId>(),
+
+  documentId: uuid("document_id")
+    .$type<DocumentId>()
+    .notNull()
+    .references(() => documents.id, { onDelete: "cascade" }),
+  versionNumber: integer("version_number").notNull(),
+  filePath: text("file_path").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  contentHash: text("content_hash"),
+  createdBy: uuid("created_by")
+    .$type<UserId>()
+    .references(() => users.id, { onDelete: "set null" }),
+}, (table) => [
+  unique("document_versions_document_id_version_number_unique").on(table.documentId, table.versionNumber),
+  index("document_versions_file_path_idx").on(table.filePath), // Files are shared by documents linked as duplicates
+])
+
+// DMS Document access grants - at most one level per user and document
+export const documentPermissions = pgTable("document_permissions", {
+  ...getBaseColumns<DocumentPermissionId>(),
+
+  documentId: uuid("document_id")
+    .$type<DocumentId>()
+    .notNull()
+    .references(() => documents.id, { onDelete: "cascade" }),
+  userId: uuid("user_id")
+    .$type<UserId>()
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  level: text("level", { enum: ["read", "write", "manage"] }).notNull(),
+  grantedBy: uuid("granted_by")
+    .$type<UserId>()
+    .references(() => users.id, { onDelete: "set null" }),
+}, (table) => [
+  unique("document_permissions_document_id_user_id_unique").on(table.documentId, table.userId),
+  index("document_permissions_user_id_idx").on(table.userId),
+])
+
+// DMS Resumable uploads - chunks are staged in storage until offset reaches size
+export const documentUploads = pgTable("document_uploads", {
+  ...getBaseColumns<DocumentUploadId>(),
+
+  name: text("name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(), // Total length announced by the client
+  offset: integer("offset").notNull().default(0), // Bytes received so far
+  tags: text("tags").array(),
+  metadata: jsonb("metadata").$type<Record<string, string>>(),
+  folderId: uuid("folder_id")
+    .$type<FolderId>()
+    .references(() => folders.id, { onDelete: "cascade" }),
+  ownerId: uuid("owner_id")
+    .$type<UserId>()
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  documentId: uuid("document_id")
+    .$type<DocumentId>()
+    .references(() => documents.id, { onDelete: "cascade" }), // Set once the upload was turned into a document
+  filePath: text("file_path"), // Only set for direct uploads - where the client puts the file
+}, (table) => [
+  index("document_uploads_updated_at_idx").on(table.updatedAt),
+])
+
+// DMS Audit log - append-only, the audit_events_append_only trigger rejects updates and deletes.
+// Actors and targets aren't foreign keys so events outlive the users and documents they mention.
+export const auditEvents = pgTable("audit_events", {
+  ...getBaseColumns<AuditEventId>(),
+
+  action: text("action").$type<AuditAction>().notNull(),
+  actorId: uuid("actor_id").$type<UserId>(), // Null for operations run by the system
+  actorEmail: text("actor_email"),
+  targetType: text("target_type").$type<AuditTargetType>().notNull(),
+  targetId: text("target_id").notNull(),
+  before: jsonb("before").$type<AuditSnapshot>(), // Only the fields the operation changed
+  after: jsonb("after").$type<AuditSnapshot>(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+}, (table) => [
+  index("audit_events_created_at_idx").on(table.createdAt),
+  index("audit_events_actor_id_idx").on(table.actorId),
+  index("audit_events_target_idx").on(table.targetType, table.targetId),
+])
+
+// DMS Webhooks - endpoints notified of the events they subscribed to
+export const webhooks = pgTable("webhooks", {
+  ...getBaseColumns<WebhookId>(),
+
+  url: text("url").notNull(),
+  secret: text("secret").notNull(), // Deliveries are signed with it, so it can't be hashed
+  events: text("events").array().$type<WebhookEvent[]>().notNull(),
+  active: boolean("active").notNull().default(true),
+  description: text("description"),
+  createdBy: uuid("created_by")
+    .$type<UserId>()
+    .references(() => users.id, { onDelete: "set null" }),
 })
 
+// DMS Webhook delivery log - one row per event sent to a webhook, retries included
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  ...getBaseColumns<WebhookDeliveryId>(),
+
+  webhookId: uuid("webhook_id")
+    .$type<WebhookId>()
+    .notNull()
+    .references(() => webhooks.id, { onDelete: "cascade" }),
+  event: text("event").$type<WebhookEvent>().notNull(),
+  payload: jsonb("payload").$type<WebhookPayload>().notNull(),
+  status: text("status", { enum: ["pending", "succeeded", "failed"] }).$type<WebhookDeliveryStatus>().notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"), // Of the last attempt the endpoint answered
+  responseBody: text("response_body"), // Truncated
+  error: text("error"),
+  redeliveryOf: uuid("redelivery_of"), // The original may be gone
+}, (table) => [
+  index("webhook_deliveries_webhook_id_created_at_idx").on(table.webhookId, table.createdAt),
+])
+
+// DMS Outbox - domain events written in the transaction of the change that caused them, until the
+// relay handed them to every subscriber. Rows take the id of their event.
+export const outbox = pgTable("outbox", {
+  ...getBaseColumns<OutboxMessageId>(),
+
+  eventType: text("event_type").$type<DomainEventType>().notNull(),
+  aggregateId: uuid("aggregate_id").notNull(), // Not a foreign key, deletions have events too
+  payload: jsonb("payload").$type<DomainEventPayload>().notNull(),
+  occurredAt: timestamp("occurred_at").notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  availableAt: timestamp("available_at").notNull().defaultNow(), // Pushed back while claimed and after failures
+  publishedAt: timestamp("published_at"),
+  lastError: text("last_error"),
+}, (table) => [
+  index("outbox_published_at_available_at_idx").on(table.publishedAt, table.availableAt),
+  index("outbox_occurred_at_idx").on(table.occurredAt),
+])
+
+// DMS Data keys of encrypted stored files, one per file - wrapped by a master key, which rotation
+// swaps without touching the files. Paths are relative to their backend, so keys survive migrations.
+// No foreign keys: documents and versions share files, so a key goes with its file, not a row.
+export const storedFileKeys = pgTable("stored_file_keys", {
+  ...getBaseColumns(),
+
+  filePath: text("file_path").notNull().unique(),
+  wrappedKey: text("wrapped_key").notNull(), // Base64
+  masterKeyId: text("master_key_id").notNull(), // Fingerprint of the master key that wrapped it
+  iv: text("iv").notNull(), // Base64 - the nonces of the segments of the file are derived from it
+  size: integer("size").notNull(), // Of the plaintext
+}, (table) => [
+  index("stored_file_keys_master_key_id_idx").on(table.masterKeyId),
+])
+
 
 export const session = pgTable("session", {
   ...getBaseColumns(),
@@ -0,0 +1,140 @@
+import { Result as R, type Result } from "@carbonteq/fp"
+import {
+  AuditEventEntity,
+  type AuditEventType,
+} from "@domain/audit/audit-event.entity"
+import {
+  type AuditEventFilterQuery,
+  AuditEventRepository,
+} from "@domain/audit/audit-event.repository"
+
+import { and, desc, eq, gte, inArray, lte, sql } from "drizzle-orm"
+import { injectable } from "tsyringe"
+import type { AppDatabase } from "../conn"
+import { InjectDb } from "../conn"
+import { auditEvents } from "../schema"
+import { enhanceEntityMapper } from "./repo.utils"
+
+const mapper = enhanceEntityMapper((row: typeof auditEvents.$inferSelect) =>
+  AuditEventEntity.fromEncoded({
+    id: row.id as AuditEventType["id"],
+    action: row.action,
+    actorId: row.actorId ?? undefined,
+    actorEmail: row.actorEmail ?? undefined,
+    targetType: row.targetType,
+    targetId: row.targetId,
+    before: row.before ?? undefined,
+    after: row.after ?? undefined,
+    ipAddress: row.ipAddress ?? undefined,
+    userAgent: row.userAgent ?? undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  }),
+)
+
+@injectable()
+export class DrizzleAuditEventRepository extends AuditEventRepository {
+  constructor(@InjectDb() private readonly db: AppDatabase) {
+    super()
+  }
+
+  async append(
+    event: AuditEventEntity,
+  ): Promise<Result<AuditEventEntity, Error>> {
+    try {
+      const [row] = await this.db
+        .insert(auditEvents)
+        .values({
+          id: event.id,
+          action: event.action,
+          actorId: event.actorId,
+          actorEmail: event.actorEmail,
+          targetType: event.targetType,
+          targetId: event.targetId,
+          before: event.before,
+          after: event.after,
+          ipAddress: event.ipAddress,
+          userAgent: event.userAgent,
+        })
+        .returning()
+
+      if (!row) {
+        return R.Err(new Error("Failed to record audit event"))
+      }
+
+      return mapper.mapOne(row)
+    } catch (error) {
+      return R.Err(
+        error instanceof Error
+          ? error
+          : new Error("Failed to record audit event"),
+      )
+    }
+  }
+
+  async find(
+    query?: AuditEventFilterQuery,
+    pagination?: { page?: number; limit?: number },
+  ): Promise<Result<{ events: AuditEventEntity[]; total: number }, Error>> {
+    try {
+      const conditions = this.buildQueryConditions(query)
+      const whereClause = conditions.length > 0 ? and(...conditions) : undefined
+
+      const [countRow] = await this.db
+        .select({ count: sql<number>`count(*)` })
+        .from(auditEvents)
+        .where(whereClause)
+      const total = Number(countRow?.count ?? 0)
+
+      const page = pagination?.page || 1
+      const limit = pagination?.limit || 10
+
+      // The id breaks ties between events recorded in the same instant, so pages never overlap
+      const rows = await this.db
+        .select()
+        .from(auditEvents)
+        .where(whereClause)
+        .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+        .limit(limit)
+        .offset((page - 1) * limit)
+
+      return mapper.mapMany(rows).map((events) => ({ events, total }))
+    } catch (error) {
+      return R.Err(
+        error instanceof Error
+          ? error
+          : new Error("Failed to find audit events"),
+      )
+    }
+  }
+
+  private buildQueryConditions(query?: AuditEventFilterQuery) {
+    const conditions = []
+
+    if (query?.actorId) {
+      conditions.push(eq(auditEvents.actorId, query.actorId))
+    }
+
+    if (query?.targetType) {
+      conditions.push(eq(auditEvents.targetType, query.targetType))
+    }
+
+    if (query?.targetId) {
+      conditions.push(eq(auditEvents.targetId, query.targetId))
+    }
+
+    if (query?.action && query.action.length > 0) {
+      conditions.push(inArray(auditEvents.action, query.action))
+    }
+
+    if (query?.fromDate) {
+      conditions.push(gte(auditEvents.createdAt, query.fromDate))
+    }
+
+    if (query?.toDate) {
+      conditions.push(lte(auditEvents.createdAt, query.toDate))
+    }
+
+    return conditions
+  }
+}
@@ -2,12 +2,34 @@
 // import { ItemRepository } from "@domain/grocery-list-item/item.repository"
 import { UserRepository } from "@domain/user/user.repository"
 import { DocumentRepository } from "@domain/document/document.repository"
+import { DocumentVersionRepository } from "@domain/document/document-version.repository"
+import { DocumentPermissionRepository } from "@domain/document/document-permission.repository"
+import { DocumentUploadRepository } from "@domain/document/document-upload.repository"
+import { DocumentContentRepository } from "@domain/document/document-content.repository"
+import { DocumentRenditionRepository } from "@domain/document/document-rendition.repository"
+import { FolderRepository } from "@domain/folder/folder.repository"
+import { AuditEventRepository } from "@domain/audit/audit-event.repository"
+import { WebhookRepository } from "@domain/webhook/webhook.repository"
+import { WebhookDeliveryRepository } from "@domain/webhook/webhook-delivery.repository"
+import { OutboxRepository } from "@domain/events/outbox.repository"
 import { container } from "tsyringe"
 import { asImplementation } from "@/infra/di/utils"
+import { FileKeyStoreSym } from "@/infra/storage/encryption/file-key.store"
 // import { DrizzleGroceryListRepository } from "./grocery-list.repository"
 // import { DrizzleItemRepository } from "./item.repository"
 import { DrizzleUserRepository } from "./user.repository"
 import { DrizzleDocumentRepository } from "./document.repository"
+import { DrizzleDocumentVersionRepository } from "./document-version.repository"
+import { DrizzleDocumentPermissionRepository } from "./document-permission.repository"
+import { DrizzleDocumentUploadRepository } from "./document-upload.repository"
+import { DrizzleDocumentContentRepository } from "./document-content.repository"
+import { DrizzleDocumentRenditionRepository } from "./document-rendition.repository"
+import { DrizzleFolderRepository } from "./folder.repository"
+import { DrizzleAuditEventRepository } from "./audit-event.repository"
+import { DrizzleWebhookRepository } from "./webhook.repository"
+import { DrizzleWebhookDeliveryRepository } from "./webhook-delivery.repository"
+import { DrizzleOutboxRepository } from "./outbox.repository"
+import { DrizzleFileKeyStore } from "./stored-file-key.repository"
 
 export const registerRepositories = () => {
   // container.register(
@@ -16,4 +38,15 @@ export const registerRepositories = () => {
   // container.register(...asImplementation(ItemRepository, DrizzleItemRepository))
   container.register(...asImplementation(UserRepository, DrizzleUserRepository))
   container.register(...asImplementation(DocumentRepository, DrizzleDocumentRepository))
+  container.register(...asImplementation(DocumentVersionRepository, DrizzleDocumentVersionRepository))
+  container.register(...asImplementation(DocumentPermissionRepository, DrizzleDocumentPermissionRepository))
+  container.register(...asImplementation(DocumentUploadRepository, DrizzleDocumentUploadRepository))
+  container.register(...asImplementation(DocumentContentRepository, DrizzleDocumentContentRepository))
+  container.register(...asImplementation(DocumentRenditionRepository, DrizzleDocumentRenditionRepository))
+  container.register(...asImplementation(FolderRepository, DrizzleFolderRepository))
+  container.register(...asImplementation(AuditEventRepository, DrizzleAuditEventRepository))
+  container.register(...asImplementation(WebhookRepository, DrizzleWebhookRepository))
+  container.register(...asImplementation(WebhookDeliveryRepository, DrizzleWebhookDeliveryRepository))
+  container.register(...asImplementation(OutboxRepository, DrizzleOutboxRepository))
+  container.register(FileKeyStoreSym, { useClass: DrizzleFileKeyStore })
 }
@@ -0,0 +1,91 @@
+import { Result as R, type Result } from "@carbonteq/fp"
+import type { DocumentType } from "@domain/document/document.entity"
+import { DocumentContentNotFoundError } from "@domain/document/document.errors"
+import {
+  DocumentContentEntity,
+  type DocumentContentType,
+} from "@domain/document/document-content.entity"
+import { DocumentContentRepository } from "@domain/document/document-content.repository"
+import type { RepoResult } from "@domain/utils"
+
+import { eq } from "drizzle-orm"
+import { injectable } from "tsyringe"
+import type { AppDatabase } from "../conn"
+import { InjectDb } from "../conn"
+import { documentContents } from "../schema"
+import { enhanceEntityMapper } from "./repo.utils"
+
+const mapper = enhanceEntityMapper(
+  (row: typeof documentContents.$inferSelect) =>
+    DocumentContentEntity.fromEncoded({
+      id: row.id as DocumentContentType["id"],
+      documentId: row.documentId,
+      status: row.status,
+      extractor: row.extractor ?? undefined,
+      content: row.content ?? undefined,
+      error: row.error ?? undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    }),
+)
+
+@injectable()
+export class DrizzleDocumentContentRepository extends DocumentContentRepository {
+  constructor(@InjectDb() private readonly db: AppDatabase) {
+    super()
+  }
+
+  async save(
+    content: DocumentContentEntity,
+  ): Promise<Result<DocumentContentEntity, Error>> {
+    try {
+      const fields = {
+        status: content.status,
+        extractor: content.extractor ?? null,
+        content: content.content ?? null,
+        error: content.error ?? null,
+        updatedAt: new Date(),
+      }
+
+      // Re-extractions keep the row (and id) of the document's earlier extraction
+      const [row] = await this.db
+        .insert(documentContents)
+        .values({ id: content.id, documentId: content.documentId, ...fields })
+        .onConflictDoUpdate({
+          target: documentContents.documentId,
+          set: fields,
+        })
+        .returning()
+
+      if (!row) {
+        return R.Err(new Error("Failed to save document content"))
+      }
+
+      return mapper.mapOne(row)
+    } catch (error) {
+      return R.Err(
+        error instanceof Error
+          ? error
+          : new Error("Failed to save document content"),
+      )
+    }
+  }
+
+  async findByDocumentId(
+    documentId: DocumentType["id"],
+  ): Promise<RepoResult<DocumentContentEntity, DocumentContentNotFoundError>> {
+    try {
+      const row = await this.db.query.documentContents.findFirst({
+        where: eq(documentContents.documentId, documentId),
+      })
+
+      if (!row) {
+        return R.Err(new DocumentContentNotFoundError(documentId))
+      }
+
+      return mapper.mapOne(row)
+    } catch {
+      return R.Err(new DocumentContentNotFoundError(documentId))
+    }
+  }
+}
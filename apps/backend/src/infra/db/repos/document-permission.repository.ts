@@ -0,0 +1,144 @@
+import { Result as R, type Result } from "@carbonteq/fp"
+import type { DocumentType } from "@domain/document/document.entity"
+import { DocumentPermissionNotFoundError } from "@domain/document/document.errors"
+import {
+  DocumentPermissionEntity,
+  type DocumentPermissionType,
+} from "@domain/document/document-permission.entity"
+import { DocumentPermissionRepository } from "@domain/document/document-permission.repository"
+import type { UserType } from "@domain/user/user.entity"
+import type { RepoResult } from "@domain/utils"
+
+import { and, asc, eq } from "drizzle-orm"
+import { injectable } from "tsyringe"
+import type { AppDatabase } from "../conn"
+import { InjectDb } from "../conn"
+import { documentPermissions } from "../schema"
+import { enhanceEntityMapper } from "./repo.utils"
+
+const mapper = enhanceEntityMapper(
+  (row: typeof documentPermissions.$inferSelect) =>
+    DocumentPermissionEntity.fromEncoded({
+      id: row.id as DocumentPermissionType["id"],
+      documentId: row.documentId,
+      userId: row.userId,
+      level: row.level,
+      grantedBy: row.grantedBy ?? undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    }),
+)
+
+@injectable()
+export class DrizzleDocumentPermissionRepository extends DocumentPermissionRepository {
+  constructor(@InjectDb() private readonly db: AppDatabase) {
+    super()
+  }
+
+  async upsert(
+    permission: DocumentPermissionEntity,
+  ): Promise<Result<DocumentPermissionEntity, Error>> {
+    try {
+      // A concurrent grant for the same user may have landed first - the latest level wins
+      const [row] = await this.db
+        .insert(documentPermissions)
+        .values({
+          id: permission.id,
+          documentId: permission.documentId,
+          userId: permission.userId,
+          level: permission.level,
+          grantedBy: permission.grantedBy,
+        })
+        .onConflictDoUpdate({
+          target: [documentPermissions.documentId, documentPermissions.userId],
+          set: {
+            level: permission.level,
+            grantedBy: permission.grantedBy ?? null,
+            updatedAt: new Date(),
+          },
+        })
+        .returning()
+
+      if (!row) {
+        return R.Err(new Error("Failed to save document permission"))
+      }
+
+      return mapper.mapOne(row)
+    } catch (error) {
+      return R.Err(
+        error instanceof Error
+          ? error
+          : new Error("Failed to save document permission"),
+      )
+    }
+  }
+
+  async revoke(
+    documentId: DocumentType["id"],
+    userId: UserType["id"],
+  ): Promise<Result<void, DocumentPermissionNotFoundError>> {
+    try {
+      const deleted = await this.db
+        .delete(documentPermissions)
+        .where(
+          and(
+            eq(documentPermissions.documentId, documentId),
+            eq(documentPermissions.userId, userId),
+          ),
+        )
+        .returning()
+
+      if (deleted.length === 0) {
+        return R.Err(new DocumentPermissionNotFoundError(documentId, userId))
+      }
+
+      return R.Ok(undefined)
+    } catch {
+      return R.Err(new DocumentPermissionNotFoundError(documentId, userId))
+    }
+  }
+
+  async findByDocumentAndUser(
+    documentId: DocumentType["id"],
+    userId: UserType["id"],
+  ): Promise<
+    RepoResult<DocumentPermissionEntity, DocumentPermissionNotFoundError>
+  > {
+    try {
+      const row = await this.db.query.documentPermissions.findFirst({
+        where: and(
+          eq(documentPermissions.documentId, documentId),
+          eq(documentPermissions.userId, userId),
+        ),
+      })
+
+      if (!row) {
+        return R.Err(new DocumentPermissionNotFoundError(documentId, userId))
+      }
+
+      return mapper.mapOne(row)
+    } catch {
+      return R.Err(new DocumentPermissionNotFoundError(documentId, userId))
+    }
+  }
+
+  async findByDocumentId(
+    documentId: DocumentType["id"],
+  ): Promise<Result<DocumentPermissionEntity[], Error>> {
+    try {
+      const rows = await this.db
+        .select()
+        .from(documentPermissions)
+        .where(eq(documentPermissions.documentId, documentId))
+        .orderBy(asc(documentPermissions.createdAt))
+
+      return mapper.mapMany(rows)
+    } catch (error) {
+      return R.Err(
+        error instanceof Error
+          ? error
+          : new Error("Failed to find document permissions"),
+      )
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { Result as R, type Result } from "@carbonteq/fp"
+import type { DocumentType } from "@domain/document/document.entity"
+import {
+  DocumentRenditionEntity,
+  type DocumentRenditionType,
+} from "@domain/document/document-rendition.entity"
+import { DocumentRenditionRepository } from "@domain/document/document-rendition.repository"
+
+import { asc, eq } from "drizzle-orm"
+import { injectable } from "tsyringe"
+import type { AppDatabase } from "../conn"
+import { InjectDb } from "../conn"
+import { documentRenditions } from "../schema"
+import { enhanceEntityMapper } from "./repo.utils"
+
+const mapper = enhanceEntityMapper(
+  (row: typeof documentRenditions.$inferSelect) =>
+    DocumentRenditionEntity.fromEncoded({
+      id: row.id as DocumentRenditionType["id"],
+      documentId: row.documentId,
+      size: row.size,
+      width: row.width,
+      height: row.height,
+      filePath: row.filePath,
+      mimeType: row.mimeType,
+      fileSize: row.fileSize,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    }),
+)
+
+@injectable()
+export class DrizzleDocumentRenditionRepository extends DocumentRenditionRepository {
+  constructor(@InjectDb() private readonly db: AppDatabase) {
+    super()
+  }
+
+  async create(
+    rendition: DocumentRenditionEntity,
+  ): Promise<Result<DocumentRenditionEntity, Error>> {
+    try {
+      const [row] = await this.db
+        .insert(documentRenditions)
+        .values({
+          id: rendition.id,
+          documentId: rendition.documentId,
+          size: rendition.size,
+          width: rendition.width,
+          height: rendition.height,
+          filePath: rendition.filePath,
+          mimeType: rendition.mimeType,
+          fileSize: rendition.fileSize,
+        })
+        .returning()
+
+      if (!row) {
+        return R.Err(new Error("Failed to create document rendition"))
+      }
+
+      return mapper.mapOne(row)
+    } catch (error) {
+      return R.Err(
+        error instanceof Error
+          ? error
+          : new Error("Failed to create document rendition"),
+      )
+    }
+  }
+
+  async findByDocumentId(
+    documentId: DocumentType["id"],
+  ): Promise<Result<DocumentRenditionEntity[], Error>> {
+    try {
+      const rows = await this.db
+        .select()
+        .from(documentRenditions)
+        .where(eq(documentRenditions.documentId, documentId))
+        .orderBy(asc(documentRenditions.size))
+
+      return mapper.mapMany(rows)
+    } catch (error) {
+      return R.Err(
+        error instanceof Error
+          ? error
+          : new Error("Failed to find document renditions"),
+      )
+    }
+  }
+
+  async deleteByDocumentId(
+    documentId: DocumentType["id"],
+  ): Promise<Result<void, Error>> {
+    try {
+      await this.db
+        .delete(documentRenditions)
+        .where(eq(documentRenditions.documentId, documentId))
+
+      return R.Ok(undefined)
+    } catch (error) {
+      return R.Err(
+        error instanceof Error
+          ? error
+          : new Error("Failed to delete document renditions"),
+      )
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import { Result as R, type Result } from "@carbonteq/fp"
+import { DocumentUploadNotFoundError } from "@domain/document/document.errors"
+import {
+  DocumentUploadEntity,
+  type DocumentUploadType,
+} from "@domain/document/document-upload.entity"
+import { DocumentUploadRepository } from "@domain/document/document-upload.repository"
+import { FpUtils, type RepoResult } from "@domain/utils"
+
+import { and, eq, isNull, lt } from "drizzle-orm"
+import { injectable } from "tsyringe"
+import type { AppDatabase } from "../conn"
+import { InjectDb } from "../conn"
+import { documentUploads } from "../schema"
+import { enhanceEntityMapper } from "./repo.utils"
+
+const mapper = enhanceEntityMapper((row: typeof documentUploads.$inferSelect) =>
+  DocumentUploadEntity.fromEncoded({
+    id: row.id as DocumentUploadType["id"],
+    name: row.name,
+    mimeType: row.mimeType,
+    size: row.size,
+    offset: row.offset,
+    tags: row.tags ?? undefined,
+    metadata: row.metadata ?? undefined,
+    folderId: row.folderId ?? undefined,
+    ownerId: row.ownerId,
+    documentId: row.documentId ?? undefined,
+    filePath: row.filePath ?? undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  }),
+)
+
+@injectable()
+export class DrizzleDocumentUploadRepository extends DocumentUploadRepository {
+  constructor(@InjectDb() private readonly db: AppDatabase) {
+    super()
+  }
+
+  async create(
+    upload: DocumentUploadEntity,
+  ): Promise<Result<DocumentUploadEntity, Error>> {
+    try {
+      const encoded = FpUtils.serialized(upload)
+      const res = await encoded
+        .map(async (uploadData) => {
+          await this.db.insert(documentUploads).values({
+            id: upload.id,
+            name: uploadData.name,
+            mimeType: uploadData.mimeType,
+            size: uploadData.size,
+            offset: uploadData.offset,
+            tags: upload.tags ? [...upload.tags] : null,
+            metadata: upload.metadata ? { ...upload.metadata } : null,
+            folderId: upload.folderId,
+            ownerId: upload.ownerId,
+            filePath: upload.filePath,
+            createdAt: uploadData.createdAt,
+            updatedAt: uploadData.updatedAt,
+          })
+
+          return upload
+        })
+        .mapErr(() => new Error("Failed to save document upload"))
+        .toPromise()
+
+      return res
+    } catch (error) {
+      return R.Err(
+        error instanceof Error
+          ? error
+          : new Error("Failed to save document upload"),
+      )
+    }
+  }
+
+  async update(
+    upload: DocumentUploadEntity,
+  ): Promise<RepoResult<DocumentUploadEntity, DocumentUploadNotFoundError>> {
+    try {
+      const [row] = await this.db
+        .update(documentUploads)
+        .set({
+          offset: upload.offset,
+          documentId: upload.documentId ?? null,
+          updatedAt: new Date(),
+        })
+        .where(eq(documentUploads.id, upload.id))
+        .returning()
+
+      if (!row) {
+        return R.Err(new DocumentUploadNotFoundError(upload.id))
+      }
+
+      return mapper.mapOne(row)
+    } catch {
+      return R.Err(new DocumentUploadNotFoundError(upload.id))
+    }
+  }
+
+  async delete(
+    id: DocumentUploadType["id"],
+  ): Promise<Result<void, DocumentUploadNotFoundError>> {
+    try {
+      const deleted = await this.db
+        .delete(documentUploads)
+        .where(eq(documentUploads.id, id))
+        .returning()
+
+      if (deleted.length === 0) {
+        return R.Err(new DocumentUploadNotFoundError(id))
+      }
+
+      return R.Ok(undefined)
+    } catch {
+      return R.Err(new DocumentUploadNotFoundError(id))
+    }
+  }
+
+  async findById(
+    id: DocumentUploadType["id"],
+  ): Promise<RepoResult<DocumentUploadEntity, DocumentUploadNotFoundError>> {
+    try {
+      const row = await this.db.query.documentUploads.findFirst({
+        where: eq(documentUploads.id, id),
+      })
+
+      if (!row) {
+        return R.Err(new DocumentUploadNotFoundError(id))
+      }
+
+      return mapper.mapOne(row)
+    } catch {
+      return R.Err(new DocumentUploadNotFoundError(id))
+    }
+  }
+
+  async findStaleBefore(
+    cutoff: Date,
+  ): Promise<Result<DocumentUploadEntity[], Error>> {
+    try {
+      const rows = await this.db
+        .select()
+        .from(documentUploads)
+        .where(
+          and(
+            isNull(documentUploads.documentId),
+            lt(documentUploads.updatedAt, cutoff),
+          ),
+        )
+
+      return mapper.mapMany(rows)
+    } catch (error) {
+      return R.Err(new Error(`Failed to find stale document uploads: ${error}`))
+    }
+  }
+}
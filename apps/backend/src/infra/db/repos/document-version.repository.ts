@@ -0,0 +1,164 @@
+import { Result as R, type Result } from "@carbonteq/fp"
+import type { DocumentType } from "@domain/document/document.entity"
+import {
+  DocumentVersionAlreadyExistsError,
+  DocumentVersionNotFoundError,
+} from "@domain/document/document.errors"
+import {
+  DocumentVersionEntity,
+  type DocumentVersionType,
+} from "@domain/document/document-version.entity"
+import { DocumentVersionRepository } from "@domain/document/document-version.repository"
+import type { UserType } from "@domain/user/user.entity"
+import { FpUtils, type RepoResult } from "@domain/utils"
+
+import { and, desc, eq, ne } from "drizzle-orm"
+import { injectable } from "tsyringe"
+import type { AppDatabase } from "../conn"
+import { InjectDb } from "../conn"
+import { documentVersions } from "../schema"
+import { enhanceEntityMapper } from "./repo.utils"
+
+const mapper = enhanceEntityMapper(
+  (row: typeof documentVersions.$inferSelect) =>
+    DocumentVersionEntity.fromEncoded({
+      id: row.id as DocumentVersionType["id"],
+      documentId: row.documentId,
+      versionNumber: row.versionNumber,
+      filePath: row.filePath,
+      mimeType: row.mimeType,
+      size: row.size,
+      contentHash: row.contentHash ?? undefined,
+      createdBy: row.createdBy ?? undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    }),
+)
+
+@injectable()
+export class DrizzleDocumentVersionRepository extends DocumentVersionRepository {
+  constructor(@InjectDb() private readonly db: AppDatabase) {
+    super()
+  }
+
+  async create(
+    version: DocumentVersionEntity,
+  ): Promise<Result<DocumentVersionEntity, DocumentVersionAlreadyExistsError>> {
+    const alreadyExists = () =>
+      new DocumentVersionAlreadyExistsError(
+        version.documentId,
+        version.versionNumber,
+      )
+
+    try {
+      const encoded = FpUtils.serialized(version)
+      const res = await encoded
+        .map(async (versionData) => {
+          await this.db.insert(documentVersions).values({
+            id: version.id,
+            documentId: version.documentId,
+            versionNumber: versionData.versionNumber,
+            filePath: versionData.filePath,
+            mimeType: versionData.mimeType,
+            size: versionData.size,
+            contentHash: versionData.contentHash,
+            createdBy: versionData.createdBy as UserType["id"] | undefined,
+            createdAt: versionData.createdAt,
+            updatedAt: versionData.updatedAt,
+          })
+
+          return version
+        })
+        .mapErr(alreadyExists)
+        .toPromise()
+
+      return res
+    } catch {
+      // Unique (document_id, version_number) violation - a concurrent upload won the race
+      return R.Err(alreadyExists())
+    }
+  }
+
+  async findById(
+    id: DocumentVersionType["id"],
+  ): Promise<RepoResult<DocumentVersionEntity, DocumentVersionNotFoundError>> {
+    try {
+      const row = await this.db.query.documentVersions.findFirst({
+        where: eq(documentVersions.id, id),
+      })
+
+      if (!row) {
+        return R.Err(new DocumentVersionNotFoundError(id))
+      }
+
+      return mapper.mapOne(row)
+    } catch {
+      return R.Err(new DocumentVersionNotFoundError(id))
+    }
+  }
+
+  async delete(
+    id: DocumentVersionType["id"],
+  ): Promise<Result<void, DocumentVersionNotFoundError>> {
+    try {
+      const rows = await this.db
+        .delete(documentVersions)
+        .where(eq(documentVersions.id, id))
+        .returning({ id: documentVersions.id })
+
+      if (rows.length === 0) {
+        return R.Err(new DocumentVersionNotFoundError(id))
+      }
+
+      return R.Ok(undefined)
+    } catch {
+      return R.Err(new DocumentVersionNotFoundError(id))
+    }
+  }
+
+  async findByDocumentId(
+    documentId: DocumentType["id"],
+  ): Promise<Result<DocumentVersionEntity[], Error>> {
+    try {
+      const rows = await this.db
+        .select()
+        .from(documentVersions)
+        .where(eq(documentVersions.documentId, documentId))
+        .orderBy(desc(documentVersions.versionNumber))
+
+      return mapper.mapMany(rows)
+    } catch (error) {
+      return R.Err(
+        error instanceof Error
+          ? error
+          : new Error("Failed to find document versions"),
+      )
+    }
+  }
+
+  async isFileShared(
+    filePath: string,
+    documentId: DocumentType["id"],
+  ): Promise<Result<boolean, Error>> {
+    try {
+      const [row] = await this.db
+        .select({ id: documentVersions.id })
+        .from(documentVersions)
+        .where(
+          and(
+            eq(documentVersions.filePath, filePath),
+            ne(documentVersions.documentId, documentId),
+          ),
+        )
+        .limit(1)
+
+      return R.Ok(row !== undefined)
+    } catch (error) {
+      return R.Err(
+        error instanceof Error
+          ? error
+          : new Error("Failed to check file references"),
+      )
+    }
+  }
+}
@@ -1,17 +1,37 @@
 import { Result as R, type Result } from "@carbonteq/fp"
 import type { DocumentEntity, DocumentType, DocumentUpdateType } from "@domain/document/document.entity"
 import { DocumentEntity as Document } from "@domain/document/document.entity"
-import { DocumentNotFoundError, DocumentAlreadyExistsError, DocumentValidationError } from "@domain/document/document.errors"
-import { DocumentRepository, type DocumentFilterQuery } from "@domain/document/document.repository"
+import { DocumentNotFoundError, DocumentAlreadyExistsError, DocumentLockedError, DocumentModifiedError, DocumentValidationError } from "@domain/document/document.errors"
+import { DocumentRepository, type DocumentDuplicateGroup, type DocumentFileReference, type DocumentFilterQuery, type DocumentSearchHit } from "@domain/document/document.repository"
+import type { FolderParentId } from "@domain/folder/folder.repository"
+import type { UserType } from "@domain/user/user.entity"
 import { FpUtils, type RepoResult, type RepoUnitResult } from "@domain/utils"
 
-import { and, eq, sql, gte, lte, asc, desc, ilike, arrayOverlaps, or } from "drizzle-orm"
+import { and, eq, sql, gte, lte, asc, desc, ilike, arrayOverlaps, or, isNull, isNotNull, inArray, lt, type SQL } from "drizzle-orm"
 import { injectable } from "tsyringe"
 import type { AppDatabase } from "../conn"
 import { InjectDb } from "../conn"
-import { documents } from "../schema"
+import { documentContents, documentPermissions, documentRenditions, documentVersions, documents } from "../schema"
+import { writeToOutbox } from "./outbox.repository"
 import { enhanceEntityMapper } from "./repo.utils"
 
+// Names are unique per folder; documents at the root have no folder
+const folderCondition = (folderId: FolderParentId) =>
+  folderId ? eq(documents.folderId, folderId) : isNull(documents.folderId)
+
+// Text search configuration - must match the one used by the search_vector columns
+const SEARCH_CONFIG = "english"
+
+// Trashed documents are invisible to every query except the trash ones
+const notDeleted = () => isNull(documents.deletedAt)
+
+// Documents whose purge started have left the trash, they only wait for their files to be deleted
+const inTrash = () => and(isNotNull(documents.deletedAt), eq(documents.status, "active"))
+
+// Checked in, held by the user or lapsed - anything else is someone else's running checkout
+const checkoutAvailableTo = (userId: UserType["id"]) =>
+  or(isNull(documents.lockedBy), eq(documents.lockedBy, userId), lte(documents.lockExpiresAt, new Date()))
+
 const mapper = enhanceEntityMapper((row: typeof documents.$inferSelect) =>
   Document.fromEncoded({
     id: row.id as DocumentType["id"],
@@ -19,8 +39,17 @@ const mapper = enhanceEntityMapper((row: typeof documents.$inferSelect) =>
     filePath: row.filePath,
     mimeType: row.mimeType,
     size: row.size,
+    contentHash: row.contentHash ?? undefined,
+    scanStatus: row.scanStatus,
+    status: row.status,
     tags: row.tags || [],
-    metadata: row.metadata || { "" : "" },
+    metadata: row.metadata || {},
+    folderId: row.folderId ?? undefined,
+    ownerId: row.ownerId ?? undefined,
+    deletedAt: row.deletedAt ?? undefined,
+    lockedBy: row.lockedBy ?? undefined,
+    lockExpiresAt: row.lockExpiresAt ?? undefined,
+    version: row.version,
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
   })
@@ -34,9 +63,9 @@ export class DrizzleDocumentRepository extends DocumentRepository {
 
   async create(document: DocumentEntity): Promise<Result<DocumentEntity, DocumentAlreadyExistsError>> {
     try {
-      // Check if document already exists
+      // Check if document already exists in the same folder
       const existing = await this.db.query.documents.findFirst({
-        where: eq(documents.name, document.name),
+        where: and(eq(documents.name, document.name), folderCondition(document.folderId ?? null), notDeleted()),
       })
 
       if (existing) {
@@ -45,16 +74,23 @@ export class DrizzleDocumentRepository extends DocumentRepository {
 
       const encoded = FpUtils.serialized(document)
       const res = await encoded
-        .map(async (docData) => {
-            const { id, ...docDataWithoutId } = docData
-            const [newDoc] = await this.db.insert(documents).values({
-              ...docDataWithoutId,
+        .flatMap((docData) =>
+          this.db.transaction(async (tx) => {
+            // Keep the entity id so rows that reference the document (e.g. versions) line up
+            const [newDoc] = await tx.insert(documents).values({
+              ...docData,
+              id: document.id,
+              folderId: document.folderId,
+              ownerId: document.ownerId,
+              lockedBy: document.lockedBy,
               tags: docData.tags ? [...docData.tags] : [], // Convert readonly to mutable
               metadata: docData.metadata ? { ...docData.metadata } : {}, // Convert readonly to mutable
             }).returning()
+            await writeToOutbox(tx, document.domainEvents)
 
-          return document
-        })
+            return mapper.mapOne(newDoc!)
+          })
+        )
         .mapErr(() => new DocumentAlreadyExistsError(document.name)) // Transform ValidationError to DocumentAlreadyExistsError
         .toPromise()
 
@@ -64,29 +100,62 @@ export class DrizzleDocumentRepository extends DocumentRepository {
     }
   }
 
-  async update(document: DocumentEntity): Promise<RepoResult<DocumentEntity, DocumentNotFoundError>> {
+  async update(
+    document: DocumentEntity,
+    expectedVersion?: number,
+    userId?: UserType["id"]
+  ): Promise<RepoResult<DocumentEntity, DocumentNotFoundError | DocumentModifiedError | DocumentLockedError>> {
     try {
       const encoded = FpUtils.serialized(document)
       const res = await encoded
-      .flatMap(async (docData) => {
+      .flatMap((docData) => this.db.transaction(async (tx): Promise<RepoResult<DocumentEntity, DocumentNotFoundError | DocumentModifiedError | DocumentLockedError>> => {
         const { id, ...docDataWithoutId } = docData
-        const [updatedDoc] = await this.db.update(documents)
+        const [updatedDoc] = await tx.update(documents)
           .set({
             ...docDataWithoutId,
             tags: docData.tags ? [...docData.tags] : [],
             metadata: docData.metadata ? { ...docData.metadata } : {},
+            folderId: document.folderId ?? null,
+            ownerId: document.ownerId ?? null,
+            deletedAt: document.deletedAt ? new Date(document.deletedAt.epochMillis) : null,
+            // Left as they are - a checkout taken since the document was read must not be undone
+            lockedBy: undefined,
+            lockExpiresAt: undefined,
+            version: sql`${documents.version} + 1`,
             updatedAt: new Date(),
           })
-          .where(eq(documents.id, document.id))
+          .where(and(
+            eq(documents.id, document.id),
+            expectedVersion !== undefined ? eq(documents.version, expectedVersion) : undefined,
+            userId ? checkoutAvailableTo(userId) : undefined
+          ))
           .returning()
 
         if (!updatedDoc) {
+          // Still there, so someone checked it out or saved it since it was read
+          const current = await tx.query.documents.findFirst({ where: eq(documents.id, document.id) })
+          if (!current) {
+            return R.Err(new DocumentNotFoundError(document.id))
+          }
+          const currentResult = mapper.mapOne(current)
+          if (userId && currentResult.isOk() && currentResult.unwrap().isLockedAgainst(userId)) {
+            return R.Err(new DocumentLockedError(currentResult.unwrap()))
+          }
+          if (expectedVersion !== undefined) {
+            return R.Err(new DocumentModifiedError(current, expectedVersion))
+          }
           return R.Err(new DocumentNotFoundError(document.id))
         }
-
-        return R.Ok(document)
-      })
-      .mapErr(() => new DocumentNotFoundError(document.id)) // Transform ValidationError to DocumentNotFoundError
+        await writeToOutbox(tx, document.domainEvents)
+
+        return mapper.mapOne(updatedDoc)
+      }))
+      // Transform ValidationError to DocumentNotFoundError
+      .mapErr((error) =>
+        error instanceof DocumentModifiedError || error instanceof DocumentLockedError
+          ? error
+          : new DocumentNotFoundError(document.id)
+      )
       .toPromise()
 
       return res
@@ -95,25 +164,56 @@ export class DrizzleDocumentRepository extends DocumentRepository {
     }
   }
 
-  async delete(id: DocumentType["id"]): Promise<Result<void, DocumentNotFoundError>> {
+  async saveCheckout(
+    document: DocumentEntity,
+    userId?: UserType["id"]
+  ): Promise<RepoResult<DocumentEntity, DocumentNotFoundError | DocumentLockedError>> {
     try {
-        const deletedDocs = await this.db.delete(documents).where(eq(documents.id, id)).returning()
-      
-      if (deletedDocs.length === 0) {
-        return R.Err(new DocumentNotFoundError(id))
+      const available = userId ? checkoutAvailableTo(userId) : undefined
+      const [lockedDoc] = await this.db.update(documents)
+        .set({
+          lockedBy: document.lockedBy ?? null,
+          lockExpiresAt: document.lockExpiresAt ? new Date(document.lockExpiresAt.epochMillis) : null,
+        })
+        .where(and(eq(documents.id, document.id), notDeleted(), available))
+        .returning()
+
+      if (lockedDoc) {
+        return mapper.mapOne(lockedDoc)
       }
-// ... exis
 
-      return R.Ok(undefined)
+      const currentResult = await this.findById(document.id)
+      if (currentResult.isErr()) {
+        return currentResult
+      }
+
+      return R.Err(new DocumentLockedError(currentResult.unwrap()))
     } catch (error) {
-      return R.Err(new DocumentNotFoundError(id))
+      return R.Err(new DocumentNotFoundError(document.id))
+    }
+  }
+
+  async delete(document: DocumentEntity): Promise<Result<void, DocumentNotFoundError>> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        const deletedDocs = await tx.delete(documents).where(eq(documents.id, document.id)).returning()
+
+        if (deletedDocs.length === 0) {
+          return R.Err(new DocumentNotFoundError(document.id))
+        }
+        await writeToOutbox(tx, document.domainEvents)
+
+        return R.Ok(undefined)
+      })
+    } catch (error) {
+      return R.Err(new DocumentNotFoundError(document.id))
     }
   }
 
   async findById(id: DocumentType["id"]): Promise<RepoResult<DocumentEntity, DocumentNotFoundError>> {
     try {
       const row = await this.db.query.documents.findFirst({
-        where: eq(documents.id, id),
+        where: and(eq(documents.id, id), notDeleted()),
       })
 
       if (!row) {
@@ -129,7 +229,7 @@ export class DrizzleDocumentRepository extends DocumentRepository {
   async findByName(name: string): Promise<RepoResult<DocumentEntity, DocumentNotFoundError>> {
     try {
       const row = await this.db.query.documents.findFirst({
-        where: eq(documents.name, name),
+        where: and(eq(documents.name, name), notDeleted()),
       })
 
       if (!row) {
@@ -142,10 +242,53 @@ export class DrizzleDocumentRepository extends DocumentRepository {
     }
   }
 
+  async findByNameInFolder(name: string, folderId: FolderParentId): Promise<RepoResult<DocumentEntity, DocumentNotFoundError>> {
+    try {
+      const row = await this.db.query.documents.findFirst({
+        where: and(eq(documents.name, name), folderCondition(folderId), notDeleted()),
+      })
+
+      if (!row) {
+        return R.Err(new DocumentValidationError("Document not found"))
+      }
+
+      return mapper.mapOne(row)
+    } catch (error) {
+      return R.Err(new DocumentValidationError("Document not found"))
+    }
+  }
+
+  async findByFolder(folderId: FolderParentId, visibleTo?: UserType["id"]): Promise<Result<DocumentEntity[], Error>> {
+    try {
+      const results = await this.db.select()
+        .from(documents)
+        .where(and(folderCondition(folderId), notDeleted(), visibleTo ? this.visibleCondition(visibleTo) : undefined))
+        .orderBy(asc(documents.name))
+        .execute()
+
+      const docResults = mapper.mapMany(results)
+      
+      if (docResults.isErr()) {
+        return R.Err(new Error(`Failed to transform document records: ${docResults.unwrapErr().message}`))
+      }
+
+      return R.Ok(docResults.unwrap())
+    } catch (error) {
+      return R.Err(new Error(`Failed to find documents by folder: ${error}`))
+    }
+  }
+
   async find(query?: DocumentFilterQuery, pagination?: { page?: number; limit?: number }): Promise<Result<{ documents: DocumentEntity[]; total: number }, Error>> {
+    return this.findPage([notDeleted(), ...this.buildQueryConditions(query)], pagination, desc(documents.createdAt))
+  }
+
+  private async findPage(
+    conditions: (SQL | undefined)[],
+    pagination: { page?: number; limit?: number } | undefined,
+    orderBy: SQL
+  ): Promise<Result<{ documents: DocumentEntity[]; total: number }, Error>> {
     try {
-      const conditions = this.buildQueryConditions(query)
-      const whereClause = conditions.length > 0 ? and(...conditions) : undefined
+      const whereClause = and(...conditions)
 
       // Get total count
       const countResult = await this.db.select({ count: sql<number>`count(*)` })
@@ -165,7 +308,7 @@ export class DrizzleDocumentRepository extends DocumentRepository {
         .where(whereClause)
         .limit(limit)
         .offset(offset)
-        .orderBy(desc(documents.createdAt))
+        .orderBy(orderBy)
         .execute()
 
       // Transform results to Document entities
@@ -185,7 +328,7 @@ export class DrizzleDocumentRepository extends DocumentRepository {
     try {
       const results = await this.db.select()
         .from(documents)
-        .where(arrayOverlaps(documents.tags, tags))
+        .where(and(arrayOverlaps(documents.tags, tags), notDeleted()))
         .execute()
 
       const docResults = mapper.mapMany(results)
@@ -204,7 +347,7 @@ export class DrizzleDocumentRepository extends DocumentRepository {
     try {
       const results = await this.db.select()
         .from(documents)
-        .where(eq(documents.mimeType, mimeType))
+        .where(and(eq(documents.mimeType, mimeType), notDeleted()))
         .execute()
 
       const docResults = mapper.mapMany(results)
@@ -226,7 +369,8 @@ export class DrizzleDocumentRepository extends DocumentRepository {
         .where(
           and(
             gte(documents.createdAt, fromDate),
-            lte(documents.createdAt, toDate)
+            lte(documents.createdAt, toDate),
+            notDeleted()
           )
         )
         .execute()
@@ -250,7 +394,8 @@ export class DrizzleDocumentRepository extends DocumentRepository {
         .where(
           and(
             gte(documents.size, minSize),
-            lte(documents.size, maxSize)
+            lte(documents.size, maxSize),
+            notDeleted()
           )
         )
         .execute()
@@ -269,15 +414,14 @@ export class DrizzleDocumentRepository extends DocumentRepository {
 
   async exists(query: DocumentFilterQuery): Promise<Result<boolean, Error>> {
     try {
-      const conditions = this.buildQueryConditions(query)
-      const whereClause = conditions.length > 0 ? and(...conditions) : undefined
+      const whereClause = and(notDeleted(), ...this.buildQueryConditions(query))
 
       const result = await this.db.select({ count: sql<number>`count(*)` })
         .from(documents)
         .where(whereClause)
         .execute()
 
-      return R.Ok((result[0]?.count || 0) > 0)
+      return R.Ok(Number(result[0]?.count || 0) > 0)
     } catch (error) {
       return R.Err(new Error(`Failed to check document existence: ${error}`))
     }
@@ -285,15 +429,14 @@ export class DrizzleDocumentRepository extends DocumentRepository {
 
   async count(query?: DocumentFilterQuery): Promise<Result<number, Error>> {
     try {
-      const conditions = this.buildQueryConditions(query)
-      const whereClause = conditions.length > 0 ? and(...conditions) : undefined
+      const whereClause = and(notDeleted(), ...this.buildQueryConditions(query))
 
       const result = await this.db.select({ count: sql<number>`count(*)` })
         .from(documents)
         .where(whereClause)
         .execute()
 
-      return R.Ok(result[0]?.count || 0)
+      return R.Ok(Number(result[0]?.count || 0)) // count(*) comes back as a string
     } catch (error) {
       return R.Err(new Error(`Failed to count documents: ${error}`))
     }
@@ -306,6 +449,7 @@ export class DrizzleDocumentRepository extends DocumentRepository {
     try {
       // Build the set object with only provided fields
       const setData: any = {
+        version: sql`${documents.version} + 1`,
         updatedAt: new Date(),
       }
 
@@ -325,6 +469,14 @@ export class DrizzleDocumentRepository extends DocumentRepository {
       if (updates.size !== undefined) {
         setData.size = updates.size
       }
+
+      if (updates.contentHash !== undefined) {
+        setData.contentHash = updates.contentHash
+      }
+
+      if (updates.scanStatus !== undefined) {
+        setData.scanStatus = updates.scanStatus
+      }
       
       if (updates.tags !== undefined) {
         setData.tags = [...updates.tags]
@@ -333,6 +485,10 @@ export class DrizzleDocumentRepository extends DocumentRepository {
       if (updates.metadata !== undefined) {
         setData.metadata = { ...updates.metadata }
       }
+      
+      if (updates.folderId !== undefined) {
+        setData.folderId = updates.folderId
+      }
 
       const [updatedDoc] = await this.db.update(documents)
         .set(setData)
@@ -352,7 +508,7 @@ export class DrizzleDocumentRepository extends DocumentRepository {
   async findByFilePath(filePath: string): Promise<RepoResult<DocumentEntity, DocumentNotFoundError>> {
     try {
       const row = await this.db.query.documents.findFirst({
-        where: eq(documents.filePath, filePath),
+        where: and(eq(documents.filePath, filePath), notDeleted()),
       })
 
       if (!row) {
@@ -365,25 +521,65 @@ export class DrizzleDocumentRepository extends DocumentRepository {
     }
   }
 
-  async searchDocuments(searchTerm: string): Promise<Result<DocumentEntity[], Error>> {
+  async searchDocuments(
+    searchTerm: string,
+    query?: DocumentFilterQuery,
+    pagination?: { page?: number; limit?: number }
+  ): Promise<Result<{ hits: DocumentSearchHit[]; total: number }, Error>> {
     try {
-      const results = await this.db.select()
+      // websearch syntax: "quoted phrases", OR and -excluded words
+      const tsQuery = sql`websearch_to_tsquery(${SEARCH_CONFIG}::regconfig, ${searchTerm})`
+      const whereClause = and(
+        notDeleted(),
+        or(
+          sql`${documents.searchVector} @@ ${tsQuery}`,
+          sql`${documentContents.searchVector} @@ ${tsQuery}`
+        ),
+        ...this.buildQueryConditions(query)
+      )
+
+      const countResult = await this.db.select({ count: sql<number>`count(*)` })
         .from(documents)
-        .where(
-          or(
-            ilike(documents.name, `%${searchTerm}%`),
-            arrayOverlaps(documents.tags, [searchTerm])
-          )
-        )
+        .leftJoin(documentContents, eq(documentContents.documentId, documents.id))
+        .where(whereClause)
         .execute()
+      const total = Number(countResult[0]?.count || 0)
+
+      const page = pagination?.page || 1
+      const limit = pagination?.limit || 10
+      const offset = (page - 1) * limit
+
+      // Name matches weigh the most, then tags, metadata values and finally the file content
+      const rank = sql<number>`ts_rank_cd(coalesce(${documents.searchVector}, ''::tsvector) || coalesce(${documentContents.searchVector}, ''::tsvector), ${tsQuery})`
+      const snippet = sql<string>`ts_headline(
+        ${SEARCH_CONFIG}::regconfig,
+        concat_ws(' … ', ${documents.name}, array_to_string(${documents.tags}, ', '), ${documentContents.content}),
+        ${tsQuery},
+        'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'
+      )`
+
+      const results = await this.db.select({ document: documents, rank, snippet })
+        .from(documents)
+        .leftJoin(documentContents, eq(documentContents.documentId, documents.id))
+        .where(whereClause)
+        .orderBy(desc(rank), desc(documents.createdAt))
+        .limit(limit)
+        .offset(offset)
+        .execute()
+
+      const docResults = mapper.mapMany(results.map((row) => row.document))
 
-      const docResults = mapper.mapMany(results)
-      
       if (docResults.isErr()) {
         return R.Err(new Error(`Failed to transform document records: ${docResults.unwrapErr().message}`))
       }
 
-      return R.Ok(docResults.unwrap())
+      const hits = docResults.unwrap().map((document, index) => ({
+        document,
+        rank: Number(results[index]?.rank ?? 0),
+        snippet: results[index]?.snippet ?? "",
+      }))
+
+      return R.Ok({ hits, total })
     } catch (error) {
       return R.Err(new Error(`Failed to search documents: ${error}`))
     }
@@ -396,7 +592,7 @@ export class DrizzleDocumentRepository extends DocumentRepository {
 
       const results = await this.db.select()
         .from(documents)
-        .where(gte(documents.updatedAt, cutoffTime))
+        .where(and(gte(documents.updatedAt, cutoffTime), notDeleted()))
         .orderBy(desc(documents.updatedAt))
         .execute()
 
@@ -412,6 +608,174 @@ export class DrizzleDocumentRepository extends DocumentRepository {
     }
   }
 
+  async findDuplicates(
+    query?: DocumentFilterQuery,
+    pagination?: { page?: number; limit?: number }
+  ): Promise<Result<{ groups: DocumentDuplicateGroup[]; total: number }, Error>> {
+    try {
+      // Files stored before hashing can't be compared
+      const whereClause = and(notDeleted(), isNotNull(documents.contentHash), ...this.buildQueryConditions(query))
+
+      const duplicates = this.db.select({
+          contentHash: documents.contentHash,
+          size: sql<number>`max(${documents.size})`.as("size"),
+        })
+        .from(documents)
+        .where(whereClause)
+        .groupBy(documents.contentHash)
+        .having(sql`count(*) > 1`)
+        .as("duplicates")
+
+      const countResult = await this.db.select({ count: sql<number>`count(*)` })
+        .from(duplicates)
+        .execute()
+      const total = Number(countResult[0]?.count || 0)
+
+      const page = pagination?.page || 1
+      const limit = pagination?.limit || 10
+      const offset = (page - 1) * limit
+
+      const hashes = await this.db.select()
+        .from(duplicates)
+        .orderBy(desc(duplicates.size), asc(duplicates.contentHash))
+        .limit(limit)
+        .offset(offset)
+        .execute()
+
+      if (hashes.length === 0) {
+        return R.Ok({ groups: [], total })
+      }
+
+      const results = await this.db.select()
+        .from(documents)
+        .where(and(whereClause, inArray(documents.contentHash, hashes.map((row) => row.contentHash as string))))
+        .orderBy(asc(documents.createdAt))
+        .execute()
+
+      const docResults = mapper.mapMany(results)
+
+      if (docResults.isErr()) {
+        return R.Err(new Error(`Failed to transform document records: ${docResults.unwrapErr().message}`))
+      }
+
+      const groups = hashes.map(({ contentHash, size }) => ({
+        contentHash: contentHash as string,
+        size: Number(size),
+        documents: docResults.unwrap().filter((document) => document.contentHash === contentHash),
+      }))
+
+      return R.Ok({ groups, total })
+    } catch (error) {
+      return R.Err(new Error(`Failed to find duplicate documents: ${error}`))
+    }
+  }
+
+  async findDeletedById(id: DocumentType["id"]): Promise<RepoResult<DocumentEntity, DocumentNotFoundError>> {
+    try {
+      const row = await this.db.query.documents.findFirst({
+        where: and(eq(documents.id, id), inTrash()),
+      })
+
+      if (!row) {
+        return R.Err(new DocumentNotFoundError(id))
+      }
+
+      return mapper.mapOne(row)
+    } catch (error) {
+      return R.Err(new DocumentNotFoundError(id))
+    }
+  }
+
+  async findDeleted(query?: DocumentFilterQuery, pagination?: { page?: number; limit?: number }): Promise<Result<{ documents: DocumentEntity[]; total: number }, Error>> {
+    // Most recently deleted first
+    return this.findPage([inTrash(), ...this.buildQueryConditions(query)], pagination, desc(documents.deletedAt))
+  }
+
+  async findDeletedBefore(cutoff: Date): Promise<Result<DocumentEntity[], Error>> {
+    try {
+      const results = await this.db.select()
+        .from(documents)
+        .where(and(lt(documents.deletedAt, cutoff), inTrash()))
+        .orderBy(asc(documents.deletedAt))
+        .execute()
+
+      const docResults = mapper.mapMany(results)
+      
+      if (docResults.isErr()) {
+        return R.Err(new Error(`Failed to transform document records: ${docResults.unwrapErr().message}`))
+      }
+
+      return R.Ok(docResults.unwrap())
+    } catch (error) {
+      return R.Err(new Error(`Failed to find deleted documents: ${error}`))
+    }
+  }
+
+  async findPendingDelete(limit: number): Promise<Result<DocumentEntity[], Error>> {
+    try {
+      const results = await this.db.select()
+        .from(documents)
+        .where(eq(documents.status, "pending_delete"))
+        .orderBy(asc(documents.updatedAt))
+        .limit(limit)
+
+      const docResults = mapper.mapMany(results)
+
+      if (docResults.isErr()) {
+        return R.Err(new Error(`Failed to transform document records: ${docResults.unwrapErr().message}`))
+      }
+
+      return R.Ok(docResults.unwrap())
+    } catch (error) {
+      return R.Err(new Error(`Failed to find documents pending deletion: ${error}`))
+    }
+  }
+
+  async findFileReferences(): Promise<Result<DocumentFileReference[], Error>> {
+    try {
+      // Trashed and pending documents still own their files, so nothing is filtered out
+      const references = await this.db.select({ documentId: documents.id, filePath: documents.filePath })
+        .from(documents)
+        .union(
+          this.db.select({ documentId: documentVersions.documentId, filePath: documentVersions.filePath })
+            .from(documentVersions),
+        )
+        .union(
+          this.db.select({ documentId: documentRenditions.documentId, filePath: documentRenditions.filePath })
+            .from(documentRenditions),
+        )
+
+      return R.Ok(references)
+    } catch (error) {
+      return R.Err(new Error(`Failed to find the files of documents: ${error}`))
+    }
+  }
+
+  async relocateFile(fromPath: string, toPath: string): Promise<Result<number, Error>> {
+    try {
+      const relocated = await this.db.transaction(async (tx) => {
+        const movedDocuments = await tx.update(documents)
+          .set({ filePath: toPath })
+          .where(eq(documents.filePath, fromPath))
+          .returning({ id: documents.id })
+        const movedVersions = await tx.update(documentVersions)
+          .set({ filePath: toPath })
+          .where(eq(documentVersions.filePath, fromPath))
+          .returning({ id: documentVersions.id })
+        const movedRenditions = await tx.update(documentRenditions)
+          .set({ filePath: toPath })
+          .where(eq(documentRenditions.filePath, fromPath))
+          .returning({ id: documentRenditions.id })
+
+        return movedDocuments.length + movedVersions.length + movedRenditions.length
+      })
+
+      return R.Ok(relocated)
+    } catch (error) {
+      return R.Err(new Error(`Failed to relocate file ${fromPath}: ${error}`))
+    }
+  }
+
   private buildQueryConditions(query?: DocumentFilterQuery) {
     const conditions = []
     
@@ -453,6 +817,35 @@ export class DrizzleDocumentRepository extends DocumentRepository {
       conditions.push(lte(documents.size, query.maxSize))
     }
     
+    if (query?.folderId !== undefined) {
+      conditions.push(folderCondition(query.folderId))
+    }
+
+    if (query?.contentHash) {
+      conditions.push(eq(documents.contentHash, query.contentHash))
+    }
+
+    if (query?.scanStatus && query.scanStatus.length > 0) {
+      conditions.push(inArray(documents.scanStatus, query.scanStatus))
+    }
+
+    if (query?.visibleTo) {
+      conditions.push(this.visibleCondition(query.visibleTo))
+    }
+    
     return conditions
   }
+
+  // Documents the user owns, plus documents they were granted any level of access to
+  private visibleCondition(userId: UserType["id"]) {
+    return or(
+      eq(documents.ownerId, userId),
+      inArray(
+        documents.id,
+        this.db.select({ documentId: documentPermissions.documentId })
+          .from(documentPermissions)
+          .where(eq(documentPermissions.userId, userId))
+      )
+    )
+  }
 }
@@ -0,0 +1,202 @@
+import { Result as R, type Result } from "@carbonteq/fp"
+import { FolderEntity, type FolderType } from "@domain/folder/folder.entity"
+import {
+  FolderAlreadyExistsError,
+  FolderNotFoundError,
+} from "@domain/folder/folder.errors"
+import {
+  type FolderParentId,
+  FolderRepository,
+} from "@domain/folder/folder.repository"
+import { FpUtils, type RepoResult } from "@domain/utils"
+
+import { and, asc, eq, isNull } from "drizzle-orm"
+import { injectable } from "tsyringe"
+import type { AppDatabase } from "../conn"
+import { InjectDb } from "../conn"
+import { folders } from "../schema"
+import { enhanceEntityMapper } from "./repo.utils"
+
+const mapper = enhanceEntityMapper((row: typeof folders.$inferSelect) =>
+  FolderEntity.fromEncoded({
+    id: row.id,
+    name: row.name,
+    parentId: row.parentId ?? undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  }),
+)
+
+const parentCondition = (parentId: FolderParentId) =>
+  parentId ? eq(folders.parentId, parentId) : isNull(folders.parentId)
+
+@injectable()
+export class DrizzleFolderRepository extends FolderRepository {
+  constructor(@InjectDb() private readonly db: AppDatabase) {
+    super()
+  }
+
+  async create(
+    folder: FolderEntity,
+  ): Promise<Result<FolderEntity, FolderAlreadyExistsError>> {
+    try {
+      // Names are unique among siblings
+      const existing = await this.db.query.folders.findFirst({
+        where: and(
+          eq(folders.name, folder.name),
+          parentCondition(folder.parentId ?? null),
+        ),
+      })
+
+      if (existing) {
+        return R.Err(new FolderAlreadyExistsError(folder.name))
+      }
+
+      const encoded = FpUtils.serialized(folder)
+      const res = await encoded
+        .map(async (folderData) => {
+          await this.db.insert(folders).values({
+            id: folder.id,
+            name: folderData.name,
+            parentId: folder.parentId,
+            createdAt: folderData.createdAt,
+            updatedAt: folderData.updatedAt,
+          })
+
+          return folder
+        })
+        .mapErr(() => new FolderAlreadyExistsError(folder.name))
+        .toPromise()
+
+      return res
+    } catch {
+      return R.Err(new FolderAlreadyExistsError(folder.name))
+    }
+  }
+
+  async update(
+    folder: FolderEntity,
+  ): Promise<RepoResult<FolderEntity, FolderNotFoundError>> {
+    try {
+      const [updatedFolder] = await this.db
+        .update(folders)
+        .set({
+          name: folder.name,
+          parentId: folder.parentId ?? null,
+          updatedAt: new Date(),
+        })
+        .where(eq(folders.id, folder.id))
+        .returning()
+
+      if (!updatedFolder) {
+        return R.Err(new FolderNotFoundError(folder.id))
+      }
+
+      return mapper.mapOne(updatedFolder)
+    } catch {
+      return R.Err(new FolderNotFoundError(folder.id))
+    }
+  }
+
+  async delete(
+    id: FolderType["id"],
+  ): Promise<Result<void, FolderNotFoundError>> {
+    try {
+      const deletedFolders = await this.db
+        .delete(folders)
+        .where(eq(folders.id, id))
+        .returning()
+
+      if (deletedFolders.length === 0) {
+        return R.Err(new FolderNotFoundError(id))
+      }
+
+      return R.Ok(undefined)
+    } catch {
+      return R.Err(new FolderNotFoundError(id))
+    }
+  }
+
+  async findById(
+    id: FolderType["id"],
+  ): Promise<RepoResult<FolderEntity, FolderNotFoundError>> {
+    try {
+      const row = await this.db.query.folders.findFirst({
+        where: eq(folders.id, id),
+      })
+
+      if (!row) {
+        return R.Err(new FolderNotFoundError(id))
+      }
+
+      return mapper.mapOne(row)
+    } catch {
+      return R.Err(new FolderNotFoundError(id))
+    }
+  }
+
+  async findByName(
+    name: string,
+    parentId: FolderParentId,
+  ): Promise<RepoResult<FolderEntity, FolderNotFoundError>> {
+    try {
+      const row = await this.db.query.folders.findFirst({
+        where: and(eq(folders.name, name), parentCondition(parentId)),
+      })
+
+      if (!row) {
+        return R.Err(new FolderNotFoundError(name as FolderType["id"]))
+      }
+
+      return mapper.mapOne(row)
+    } catch {
+      return R.Err(new FolderNotFoundError(name as FolderType["id"]))
+    }
+  }
+
+  async findChildren(
+    parentId: FolderParentId,
+  ): Promise<Result<FolderEntity[], Error>> {
+    try {
+      const rows = await this.db
+        .select()
+        .from(folders)
+        .where(parentCondition(parentId))
+        .orderBy(asc(folders.name))
+
+      return mapper.mapMany(rows)
+    } catch (error) {
+      return R.Err(new Error(`Failed to find child folders: ${error}`))
+    }
+  }
+
+  async findAncestors(
+    id: FolderType["id"],
+  ): Promise<Result<FolderEntity[], Error>> {
+    try {
+      const ancestors: (typeof folders.$inferSelect)[] = []
+      const visited = new Set<string>([id])
+
+      const start = await this.db.query.folders.findFirst({
+        where: eq(folders.id, id),
+      })
+      let parentId = start?.parentId ?? null
+
+      // Walk up one level at a time; trees are shallow and the visited set guards against bad data
+      while (parentId && !visited.has(parentId)) {
+        visited.add(parentId)
+        const parent = await this.db.query.folders.findFirst({
+          where: eq(folders.id, parentId),
+        })
+        if (!parent) break
+
+        ancestors.unshift(parent)
+        parentId = parent.parentId
+      }
+
+      return mapper.mapMany(ancestors)
+    } catch (error) {
+      return R.Err(new Error(`Failed to find folder ancestors: ${error}`))
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import { Result as R, type Result } from "@carbonteq/fp"
+import type { DomainEvent } from "@domain/events/domain-event"
+import { OutboxMessageNotFoundError } from "@domain/events/outbox.errors"
+import { OutboxRepository } from "@domain/events/outbox.repository"
+import {
+  OutboxMessageEntity,
+  type OutboxMessageType,
+} from "@domain/events/outbox-message.entity"
+import type { RepoResult } from "@domain/utils"
+
+import { and, asc, eq, inArray, isNotNull, isNull, lt, lte } from "drizzle-orm"
+import { injectable } from "tsyringe"
+import type { AppDatabase, AppTransaction } from "../conn"
+import { InjectDb } from "../conn"
+import { outbox } from "../schema"
+import { enhanceEntityMapper } from "./repo.utils"
+
+const mapper = enhanceEntityMapper((row: typeof outbox.$inferSelect) =>
+  OutboxMessageEntity.fromEncoded({
+    id: row.id as OutboxMessageType["id"],
+    eventType: row.eventType,
+    aggregateId: row.aggregateId,
+    payload: row.payload,
+    occurredAt: row.occurredAt,
+    attempts: row.attempts,
+    availableAt: row.availableAt,
+    publishedAt: row.publishedAt ?? undefined,
+    lastError: row.lastError ?? undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  }),
+)
+
+/**
+ * Save the events an entity recorded, inside the transaction that saves the entity - they are
+ * only relayed if the change itself was committed.
+ */
+export const writeToOutbox = async (
+  tx: AppTransaction,
+  events: readonly DomainEvent[],
+): Promise<void> => {
+  if (events.length === 0) {
+    return
+  }
+
+  await tx.insert(outbox).values(
+    events.map((event) => {
+      const message = OutboxMessageEntity.fromEvent(event)
+      return {
+        id: message.id,
+        eventType: message.eventType,
+        aggregateId: message.aggregateId,
+        payload: message.payload,
+        occurredAt: new Date(message.occurredAt.epochMillis),
+        attempts: message.attempts,
+        availableAt: new Date(message.availableAt.epochMillis),
+      }
+    }),
+  )
+}
+
+@injectable()
+export class DrizzleOutboxRepository extends OutboxRepository {
+  constructor(@InjectDb() private readonly db: AppDatabase) {
+    super()
+  }
+
+  async claimDue(
+    limit: number,
+    leaseMs: number,
+  ): Promise<Result<OutboxMessageEntity[], Error>> {
+    try {
+      const now = new Date()
+
+      // Concurrent relays skip the rows another one is claiming instead of waiting for them
+      const due = this.db
+        .select({ id: outbox.id })
+        .from(outbox)
+        .where(and(isNull(outbox.publishedAt), lte(outbox.availableAt, now)))
+        .orderBy(asc(outbox.occurredAt), asc(outbox.id))
+        .limit(limit)
+        .for("update", { skipLocked: true })
+
+      const rows = await this.db
+        .update(outbox)
+        .set({
+          availableAt: new Date(now.getTime() + leaseMs),
+          updatedAt: now,
+        })
+        .where(inArray(outbox.id, due))
+        .returning()
+
+      // RETURNING doesn't keep the order of the subquery
+      const claimed = rows.sort(
+        (a, b) =>
+          a.occurredAt.getTime() - b.occurredAt.getTime() ||
+          a.id.localeCompare(b.id),
+      )
+
+      return mapper.mapMany(claimed)
+    } catch (error) {
+      return R.Err(
+        error instanceof Error
+          ? error
+          : new Error("Failed to claim outbox messages"),
+      )
+    }
+  }
+
+  async update(
+    message: OutboxMessageEntity,
+  ): Promise<RepoResult<OutboxMessageEntity, OutboxMessageNotFoundError>> {
+    try {
+      const [row] = await this.db
+        .update(outbox)
+        .set({
+          attempts: message.attempts,
+          availableAt: new Date(message.availableAt.epochMillis),
+          publishedAt: message.publishedAt
+            ? new Date(message.publishedAt.epochMillis)
+            : null,
+          lastError: message.lastError ?? null,
+          updatedAt: new Date(),
+        })
+        .where(eq(outbox.id, message.id))
+        .returning()
+
+      if (!row) {
+        return R.Err(new OutboxMessageNotFoundError(message.id))
+      }
+
+      return mapper.mapOne(row)
+    } catch {
+      return R.Err(new OutboxMessageNotFoundError(message.id))
+    }
+  }
+
+  async deletePublishedBefore(cutoff: Date): Promise<Result<number, Error>> {
+    try {
+      const rows = await this.db
+        .delete(outbox)
+        .where(
+          and(isNotNull(outbox.publishedAt), lt(outbox.publishedAt, cutoff)),
+        )
+        .returning({ id: outbox.id })
+
+      return R.Ok(rows.length)
+    } catch (error) {
+      return R.Err(
+        error instanceof Error
+          ? error
+          : new Error("Failed to prune the outbox"),
+      )
+    }
+  }
+}
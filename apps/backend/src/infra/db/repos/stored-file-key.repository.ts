@@ -0,0 +1,147 @@
+import { Result as R, type Result } from "@carbonteq/fp"
+import { and, asc, eq, gt, ne } from "drizzle-orm"
+import { injectable } from "tsyringe"
+import type {
+  FileKeyStore,
+  StoredFileKey,
+} from "@/infra/storage/encryption/file-key.store"
+import type { WrappedKey } from "@/infra/storage/encryption/master-keyring"
+import type { AppDatabase } from "../conn"
+import { InjectDb } from "../conn"
+import { storedFileKeys } from "../schema"
+
+const toStoredFileKey = (
+  row: typeof storedFileKeys.$inferSelect,
+): StoredFileKey => ({
+  filePath: row.filePath,
+  wrappedKey: row.wrappedKey,
+  masterKeyId: row.masterKeyId,
+  iv: row.iv,
+  size: row.size,
+})
+
+const toError = (error: unknown, message: string) =>
+  error instanceof Error ? error : new Error(message)
+
+@injectable()
+export class DrizzleFileKeyStore implements FileKeyStore {
+  constructor(@InjectDb() private readonly db: AppDatabase) {}
+
+  async find(
+    filePath: string,
+  ): Promise<Result<StoredFileKey | undefined, Error>> {
+    try {
+      const [row] = await this.db
+        .select()
+        .from(storedFileKeys)
+        .where(eq(storedFileKeys.filePath, filePath))
+        .limit(1)
+
+      return R.Ok(row && toStoredFileKey(row))
+    } catch (error) {
+      return R.Err(toError(error, "Failed to find file key"))
+    }
+  }
+
+  async save(key: StoredFileKey): Promise<Result<void, Error>> {
+    try {
+      await this.db
+        .insert(storedFileKeys)
+        .values(key)
+        .onConflictDoUpdate({
+          target: storedFileKeys.filePath,
+          set: {
+            wrappedKey: key.wrappedKey,
+            masterKeyId: key.masterKeyId,
+            iv: key.iv,
+            size: key.size,
+            updatedAt: new Date(),
+          },
+        })
+
+      return R.Ok(undefined)
+    } catch (error) {
+      return R.Err(toError(error, "Failed to save file key"))
+    }
+  }
+
+  async move(fromPath: string, toPath: string): Promise<Result<void, Error>> {
+    try {
+      await this.db
+        .update(storedFileKeys)
+        .set({ filePath: toPath, updatedAt: new Date() })
+        .where(eq(storedFileKeys.filePath, fromPath))
+
+      return R.Ok(undefined)
+    } catch (error) {
+      return R.Err(toError(error, "Failed to move file key"))
+    }
+  }
+
+  async delete(filePath: string): Promise<Result<void, Error>> {
+    try {
+      await this.db
+        .delete(storedFileKeys)
+        .where(eq(storedFileKeys.filePath, filePath))
+
+      return R.Ok(undefined)
+    } catch (error) {
+      return R.Err(toError(error, "Failed to delete file key"))
+    }
+  }
+
+  async findWrappedWithout(
+    masterKeyId: string,
+    afterPath: string | undefined,
+    limit: number,
+  ): Promise<Result<StoredFileKey[], Error>> {
+    try {
+      const rows = await this.db
+        .select()
+        .from(storedFileKeys)
+        .where(
+          and(
+            ne(storedFileKeys.masterKeyId, masterKeyId),
+            afterPath === undefined
+              ? undefined
+              : gt(storedFileKeys.filePath, afterPath),
+          ),
+        )
+        .orderBy(asc(storedFileKeys.filePath))
+        .limit(limit)
+
+      return R.Ok(rows.map(toStoredFileKey))
+    } catch (error) {
+      return R.Err(toError(error, "Failed to find file keys to rotate"))
+    }
+  }
+
+  async rewrap(
+    filePath: string,
+    previous: WrappedKey,
+    next: WrappedKey,
+  ): Promise<Result<boolean, Error>> {
+    try {
+      // A file stored again since it was read has a new data key, which must not be overwritten
+      const rows = await this.db
+        .update(storedFileKeys)
+        .set({
+          wrappedKey: next.wrappedKey,
+          masterKeyId: next.masterKeyId,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(storedFileKeys.filePath, filePath),
+            eq(storedFileKeys.wrappedKey, previous.wrappedKey),
+            eq(storedFileKeys.masterKeyId, previous.masterKeyId),
+          ),
+        )
+        .returning({ id: storedFileKeys.id })
+
+      return R.Ok(rows.length > 0)
+    } catch (error) {
+      return R.Err(toError(error, "Failed to rewrap file key"))
+    }
+  }
+}
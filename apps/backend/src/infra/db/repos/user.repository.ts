@@ -1,7 +1,7 @@
 import { Result as R, type Result } from "@carbonteq/fp"
 import type { UserEntity, UserType, UserUpdateType } from "@domain/user/user.entity"
 import { UserEntity as User } from "@domain/user/user.entity"
-import { UserNotFoundError, UserAlreadyExistsError, UserValidationError } from "@domain/user/user.errors"
+import { UserNotFoundError, UserAlreadyExistsError, UserModifiedError, UserValidationError } from "@domain/user/user.errors"
 import { UserRepository, type UserFilterQuery } from "@domain/user/user.repository"
 import { FpUtils, type RepoResult, type RepoUnitResult } from "@domain/utils"
 import { and, eq, sql, asc, ilike } from "drizzle-orm"
@@ -9,6 +9,7 @@ import { injectable } from "tsyringe"
 import type { AppDatabase } from "../conn"
 import { InjectDb } from "../conn"
 import { users } from "../schema"
+import { writeToOutbox } from "./outbox.repository"
 import { enhanceEntityMapper } from "./repo.utils"
 
 const mapper = enhanceEntityMapper<typeof users.$inferSelect, UserEntity>((row: typeof users.$inferSelect) => {
@@ -19,6 +20,7 @@ const mapper = enhanceEntityMapper<typeof users.$inferSelect, UserEntity>((row:
     email: row.email,
     role: row.role,
     emailVerified: row.emailVerified,
+    version: row.version,
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
   }
@@ -50,14 +52,17 @@ export class DrizzleUserRepository extends UserRepository {
 
       const encoded = FpUtils.serialized(user)
       const res = await encoded
-        .map(async (userData) => {
+        .flatMap((userData) =>
+          this.db.transaction(async (tx) => {
             const { id, ...userDataWithoutId } = userData
-            const [newUser] = await this.db.insert(users).values({
+            const [newUser] = await tx.insert(users).values({
               ...userDataWithoutId,
-           }).returning()
+            }).returning()
+            await writeToOutbox(tx, user.domainEvents)
 
-           return user
-        })
+            return mapper.mapOne(newUser!)
+          })
+        )
         .mapErr(() => new UserAlreadyExistsError(user.email)) // Transform ValidationError to UserAlreadyExistsError
         .toPromise()
 
@@ -67,27 +72,42 @@ export class DrizzleUserRepository extends UserRepository {
     }
   }
 
-  async update(user: UserEntity): Promise<RepoResult<UserEntity, UserNotFoundError>> {
+  async update(
+    user: UserEntity,
+    expectedVersion?: number
+  ): Promise<RepoResult<UserEntity, UserNotFoundError | UserModifiedError>> {
     try {
       const encoded = FpUtils.serialized(user)
       const res = await encoded
-      .flatMap(async (userData) => {
+      .flatMap((userData) => this.db.transaction(async (tx): Promise<RepoResult<UserEntity, UserNotFoundError | UserModifiedError>> => {
         const { id, ...userDataWithoutId } = userData
-        const [updatedUser] = await this.db.update(users)
+        const [updatedUser] = await tx.update(users)
           .set({
             ...userDataWithoutId,
+            version: sql`${users.version} + 1`,
             updatedAt: new Date(),
           })
-          .where(eq(users.id, user.id))
+          .where(and(
+            eq(users.id, user.id),
+            expectedVersion !== undefined ? eq(users.version, expectedVersion) : undefined
+          ))
           .returning()
 
         if (!updatedUser) {
+          if (expectedVersion !== undefined) {
+            // Still there, so someone saved them since the expected version
+            const current = await tx.query.users.findFirst({ where: eq(users.id, user.id) })
+            if (current) {
+              return R.Err(new UserModifiedError(current, expectedVersion))
+            }
+          }
           return R.Err(new UserNotFoundError(user.id))
         }
+        await writeToOutbox(tx, user.domainEvents)
 
-        return R.Ok(user)
-      })
-      .mapErr(() => new UserNotFoundError(user.id))
+        return mapper.mapOne(updatedUser)
+      }))
+      .mapErr((error) => error instanceof UserModifiedError ? error : new UserNotFoundError(user.id))
       .toPromise()
 
       return res
@@ -96,17 +116,20 @@ export class DrizzleUserRepository extends UserRepository {
     }
   }
 
-  async delete(id: UserType["id"]): Promise<R<void, UserNotFoundError>> {
+  async delete(user: UserEntity): Promise<R<void, UserNotFoundError>> {
     try {
-        const deletedUsers = await this.db.delete(users).where(eq(users.id, id)).returning()
-      
+      return await this.db.transaction(async (tx) => {
+        const deletedUsers = await tx.delete(users).where(eq(users.id, user.id)).returning()
+
         if (deletedUsers.length === 0) {
-          return R.Err(new UserNotFoundError(id))
+          return R.Err(new UserNotFoundError(user.id))
         }
+        await writeToOutbox(tx, user.domainEvents)
 
-      return R.Ok(undefined)
+        return R.Ok(undefined)
+      })
     } catch (error) {
-      return R.Err(new UserNotFoundError(id))
+      return R.Err(new UserNotFoundError(user.id))
     }
   }
 
@@ -231,7 +254,7 @@ export class DrizzleUserRepository extends UserRepository {
         .where(whereClause)
         .execute()
 
-      return R.Ok((result[0]?.count || 0) > 0)
+      return R.Ok(Number(result[0]?.count || 0) > 0)
     } catch (error) {
       return R.Err(new Error(`Failed to check user existence: ${error}`))
     }
@@ -247,7 +270,7 @@ export class DrizzleUserRepository extends UserRepository {
         .where(whereClause)
         .execute()
 
-      return R.Ok(result[0]?.count || 0)
+      return R.Ok(Number(result[0]?.count || 0)) // count(*) comes back as a string
     } catch (error) {
       return R.Err(new Error(`Failed to count users: ${error}`))
     }
@@ -261,6 +284,7 @@ export class DrizzleUserRepository extends UserRepository {
       const [updatedUser] = await this.db.update(users)
         .set({
           ...updates,
+          version: sql`${users.version} + 1`,
           updatedAt: new Date(),
         })
         .where(eq(users.id, id))
@@ -0,0 +1,151 @@
+import { Result as R, type Result } from "@carbonteq/fp"
+import type { RepoResult } from "@domain/utils"
+import type { WebhookType } from "@domain/webhook/webhook.entity"
+import { WebhookDeliveryNotFoundError } from "@domain/webhook/webhook.errors"
+import {
+  WebhookDeliveryEntity,
+  type WebhookDeliveryType,
+} from "@domain/webhook/webhook-delivery.entity"
+import { WebhookDeliveryRepository } from "@domain/webhook/webhook-delivery.repository"
+
+import { desc, eq, sql } from "drizzle-orm"
+import { injectable } from "tsyringe"
+import type { AppDatabase } from "../conn"
+import { InjectDb } from "../conn"
+import { webhookDeliveries } from "../schema"
+import { enhanceEntityMapper } from "./repo.utils"
+
+const mapper = enhanceEntityMapper(
+  (row: typeof webhookDeliveries.$inferSelect) =>
+    WebhookDeliveryEntity.fromEncoded({
+      id: row.id as WebhookDeliveryType["id"],
+      webhookId: row.webhookId,
+      event: row.event,
+      payload: row.payload,
+      status: row.status,
+      attempts: row.attempts,
+      responseStatus: row.responseStatus ?? undefined,
+      responseBody: row.responseBody ?? undefined,
+      error: row.error ?? undefined,
+      redeliveryOf: row.redeliveryOf ?? undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    }),
+)
+
+@injectable()
+export class DrizzleWebhookDeliveryRepository extends WebhookDeliveryRepository {
+  constructor(@InjectDb() private readonly db: AppDatabase) {
+    super()
+  }
+
+  async create(
+    delivery: WebhookDeliveryEntity,
+  ): Promise<Result<WebhookDeliveryEntity, Error>> {
+    try {
+      const [row] = await this.db
+        .insert(webhookDeliveries)
+        .values({
+          id: delivery.id,
+          webhookId: delivery.webhookId,
+          event: delivery.event,
+          payload: delivery.payload,
+          status: delivery.status,
+          attempts: delivery.attempts,
+          redeliveryOf: delivery.redeliveryOf,
+        })
+        .returning()
+
+      if (!row) {
+        return R.Err(new Error("Failed to save webhook delivery"))
+      }
+
+      return mapper.mapOne(row)
+    } catch (error) {
+      return R.Err(
+        error instanceof Error
+          ? error
+          : new Error("Failed to save webhook delivery"),
+      )
+    }
+  }
+
+  async update(
+    delivery: WebhookDeliveryEntity,
+  ): Promise<RepoResult<WebhookDeliveryEntity, WebhookDeliveryNotFoundError>> {
+    try {
+      const [row] = await this.db
+        .update(webhookDeliveries)
+        .set({
+          status: delivery.status,
+          attempts: delivery.attempts,
+          responseStatus: delivery.responseStatus ?? null,
+          responseBody: delivery.responseBody ?? null,
+          error: delivery.error ?? null,
+          updatedAt: new Date(),
+        })
+        .where(eq(webhookDeliveries.id, delivery.id))
+        .returning()
+
+      if (!row) {
+        return R.Err(new WebhookDeliveryNotFoundError(delivery.id))
+      }
+
+      return mapper.mapOne(row)
+    } catch {
+      return R.Err(new WebhookDeliveryNotFoundError(delivery.id))
+    }
+  }
+
+  async findById(
+    id: WebhookDeliveryType["id"],
+  ): Promise<RepoResult<WebhookDeliveryEntity, WebhookDeliveryNotFoundError>> {
+    try {
+      const row = await this.db.query.webhookDeliveries.findFirst({
+        where: eq(webhookDeliveries.id, id),
+      })
+
+      if (!row) {
+        return R.Err(new WebhookDeliveryNotFoundError(id))
+      }
+
+      return mapper.mapOne(row)
+    } catch {
+      return R.Err(new WebhookDeliveryNotFoundError(id))
+    }
+  }
+
+  async findByWebhookId(
+    webhookId: WebhookType["id"],
+    pagination?: { page?: number; limit?: number },
+  ): Promise<
+    Result<{ deliveries: WebhookDeliveryEntity[]; total: number }, Error>
+  > {
+    try {
+      const [countRow] = await this.db
+        .select({ count: sql<number>`count(*)` })
+        .from(webhookDeliveries)
+        .where(eq(webhookDeliveries.webhookId, webhookId))
+      const total = Number(countRow?.count ?? 0)
+
+      const page = pagination?.page || 1
+      const limit = pagination?.limit || 10
+
+      const rows = await this.db
+        .select()
+        .from(webhookDeliveries)
+        .where(eq(webhookDeliveries.webhookId, webhookId))
+        .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+        .limit(limit)
+        .offset((page - 1) * limit)
+
+      return mapper.mapMany(rows).map((deliveries) => ({ deliveries, total }))
+    } catch (error) {
+      return R.Err(
+        error instanceof Error
+          ? error
+          : new Error("Failed to find webhook deliveries"),
+      )
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import { Result as R, type Result } from "@carbonteq/fp"
+import type { RepoResult } from "@domain/utils"
+import {
+  WebhookEntity,
+  type WebhookEvent,
+  type WebhookType,
+} from "@domain/webhook/webhook.entity"
+import { WebhookNotFoundError } from "@domain/webhook/webhook.errors"
+import { WebhookRepository } from "@domain/webhook/webhook.repository"
+
+import { and, arrayContains, asc, eq } from "drizzle-orm"
+import { injectable } from "tsyringe"
+import type { AppDatabase } from "../conn"
+import { InjectDb } from "../conn"
+import { webhooks } from "../schema"
+import { enhanceEntityMapper } from "./repo.utils"
+
+const mapper = enhanceEntityMapper((row: typeof webhooks.$inferSelect) =>
+  WebhookEntity.fromEncoded({
+    id: row.id as WebhookType["id"],
+    url: row.url,
+    secret: row.secret,
+    events: row.events,
+    active: row.active,
+    description: row.description ?? undefined,
+    createdBy: row.createdBy ?? undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  }),
+)
+
+@injectable()
+export class DrizzleWebhookRepository extends WebhookRepository {
+  constructor(@InjectDb() private readonly db: AppDatabase) {
+    super()
+  }
+
+  async create(webhook: WebhookEntity): Promise<Result<WebhookEntity, Error>> {
+    try {
+      const [row] = await this.db
+        .insert(webhooks)
+        .values({
+          id: webhook.id,
+          url: webhook.url,
+          secret: webhook.secret,
+          events: [...webhook.events],
+          active: webhook.active,
+          description: webhook.description,
+          createdBy: webhook.createdBy,
+        })
+        .returning()
+
+      if (!row) {
+        return R.Err(new Error("Failed to save webhook"))
+      }
+
+      return mapper.mapOne(row)
+    } catch (error) {
+      return R.Err(
+        error instanceof Error ? error : new Error("Failed to save webhook"),
+      )
+    }
+  }
+
+  async update(
+    webhook: WebhookEntity,
+  ): Promise<RepoResult<WebhookEntity, WebhookNotFoundError>> {
+    try {
+      const [row] = await this.db
+        .update(webhooks)
+        .set({
+          url: webhook.url,
+          events: [...webhook.events],
+          active: webhook.active,
+          description: webhook.description ?? null,
+          updatedAt: new Date(),
+        })
+        .where(eq(webhooks.id, webhook.id))
+        .returning()
+
+      if (!row) {
+        return R.Err(new WebhookNotFoundError(webhook.id))
+      }
+
+      return mapper.mapOne(row)
+    } catch {
+      return R.Err(new WebhookNotFoundError(webhook.id))
+    }
+  }
+
+  async delete(
+    id: WebhookType["id"],
+  ): Promise<Result<void, WebhookNotFoundError>> {
+    try {
+      const deleted = await this.db
+        .delete(webhooks)
+        .where(eq(webhooks.id, id))
+        .returning()
+
+      if (deleted.length === 0) {
+        return R.Err(new WebhookNotFoundError(id))
+      }
+
+      return R.Ok(undefined)
+    } catch {
+      return R.Err(new WebhookNotFoundError(id))
+    }
+  }
+
+  async findById(
+    id: WebhookType["id"],
+  ): Promise<RepoResult<WebhookEntity, WebhookNotFoundError>> {
+    try {
+      const row = await this.db.query.webhooks.findFirst({
+        where: eq(webhooks.id, id),
+      })
+
+      if (!row) {
+        return R.Err(new WebhookNotFoundError(id))
+      }
+
+      return mapper.mapOne(row)
+    } catch {
+      return R.Err(new WebhookNotFoundError(id))
+    }
+  }
+
+  async findAll(): Promise<Result<WebhookEntity[], Error>> {
+    try {
+      const rows = await this.db
+        .select()
+        .from(webhooks)
+        .orderBy(asc(webhooks.createdAt))
+
+      return mapper.mapMany(rows)
+    } catch (error) {
+      return R.Err(new Error(`Failed to find webhooks: ${error}`))
+    }
+  }
+
+  async findSubscribedTo(
+    event: WebhookEvent,
+  ): Promise<Result<WebhookEntity[], Error>> {
+    try {
+      const rows = await this.db
+        .select()
+        .from(webhooks)
+        .where(
+          and(
+            eq(webhooks.active, true),
+            arrayContains(webhooks.events, [event]),
+          ),
+        )
+
+      return mapper.mapMany(rows)
+    } catch (error) {
+      return R.Err(new Error(`Failed to find webhooks for ${event}: ${error}`))
+    }
+  }
+}
@@ -1,22 +1,49 @@
 // import { GroceryListWorkflows, UserWorkflows, DocumentWorkflows } from "@application/workflows"
-import { UserWorkflows, DocumentWorkflows } from "@application/workflows"
+import { UserWorkflows, DocumentWorkflows, AuditWorkflows, WebhookWorkflows } from "@application/workflows"
 import { container } from "tsyringe"
 import { registerRepositories } from "../db/repos/di"
+import { registerInMemoryRepositories } from "../db/memory/di"
 import { StorageService } from "../storage"
 import { JwtService } from "@application/services/jwt.service"
+import { ContentScanner, EicarScanner } from "@application/services/content-scanning"
+import { WebhookDispatcher } from "@application/services/webhooks"
+import { DomainEventBus, OutboxRelay } from "@application/services/events"
+import { WebhookEvents } from "@domain/webhook/webhook.entity"
+import { ClamdScanner } from "../scanning"
+import { asImplementation } from "./utils"
+import config from "../config"
 
-const services = [StorageService, JwtService] as const
-const workflows = [UserWorkflows, DocumentWorkflows] as const
+const services = [StorageService, JwtService, WebhookDispatcher, DomainEventBus, OutboxRelay] as const
+const workflows = [UserWorkflows, DocumentWorkflows, AuditWorkflows, WebhookWorkflows] as const
 
 export const wireDi = () => {
-  registerRepositories()
+  // DB_BACKEND=memory runs without a database, keeping every table in process memory
+  if (config.db.DB_BACKEND === "memory") {
+    registerInMemoryRepositories()
+  } else {
+    registerRepositories()
+  }
 
   // register application services
   container.registerSingleton(StorageService, StorageService)
   container.registerSingleton(JwtService, JwtService)
+  // A singleton, so every workflow shares the circuit breakers of the webhook endpoints
+  container.registerSingleton(WebhookDispatcher, WebhookDispatcher)
+  // Domain events reach their subscribers through the outbox, relayed by the relay-outbox job
+  container.registerSingleton(DomainEventBus, DomainEventBus)
+  container.registerSingleton(OutboxRelay, OutboxRelay)
+  container
+    .resolve(DomainEventBus)
+    .subscribe(WebhookEvents, (event) => container.resolve(WebhookDispatcher).dispatch(event))
+  // The malware scanner chosen with CONTENT_SCANNER
+  container.register(
+    ...asImplementation(ContentScanner, config.scanning.backend === "clamd" ? ClamdScanner : EicarScanner)
+  )
 
   // register workflows
   // container.registerSingleton(GroceryListWorkflows, GroceryListWorkflows)
   container.registerSingleton(UserWorkflows, UserWorkflows)
   container.registerSingleton(DocumentWorkflows, DocumentWorkflows)
+  container.registerSingleton(AuditWorkflows, AuditWorkflows)
+  container.registerSingleton(WebhookWorkflows, WebhookWorkflows)
 }
@@ -0,0 +1,26 @@
+import { DocumentWorkflows } from "@application/workflows"
+import { container } from "tsyringe"
+import config from "../config"
+import type { ScheduledJob } from "./scheduler"
+
+export const finishDeletionsJob: ScheduledJob = {
+  name: "finish-deletions",
+  intervalMs: config.jobs.trash.deletionRetryIntervalMinutes * 60 * 1000,
+  run: async () => {
+    const result = await container
+      .resolve(DocumentWorkflows)
+      .finishPendingDeletions()
+
+    if (result.isErr()) {
+      console.error("Finishing deletions failed:", result.unwrapErr().message)
+      return
+    }
+
+    const { deleted, pending } = result.unwrap()
+    if (deleted > 0 || pending > 0) {
+      console.log(
+        `🗑️  Finished deleting ${deleted} document(s), ${pending} still pending`,
+      )
+    }
+  },
+}
@@ -0,0 +1,26 @@
+import { finishDeletionsJob } from "./finish-deletions.job"
+import { purgeTrashJob } from "./purge-trash.job"
+import { purgeUploadsJob } from "./purge-uploads.job"
+import { reconcileStorageJob } from "./reconcile-storage.job"
+import { relayOutboxJob } from "./relay-outbox.job"
+import { rescanDocumentsJob } from "./rescan-documents.job"
+import { scheduleJob } from "./scheduler"
+
+const jobs = [
+  purgeTrashJob,
+  finishDeletionsJob,
+  purgeUploadsJob,
+  rescanDocumentsJob,
+  relayOutboxJob,
+  reconcileStorageJob,
+]
+
+/**
+ * Start all background jobs. Returns a function that stops them again.
+ */
+export const startJobs = (): (() => void) => {
+  const stops = jobs.map(scheduleJob)
+  return () => {
+    for (const stop of stops) stop()
+  }
+}
@@ -0,0 +1,29 @@
+import { DocumentWorkflows } from "@application/workflows"
+import { container } from "tsyringe"
+import config from "../config"
+import type { ScheduledJob } from "./scheduler"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const purgeTrashJob: ScheduledJob = {
+  name: "purge-trash",
+  intervalMs: config.jobs.trash.purgeIntervalMinutes * 60 * 1000,
+  run: async () => {
+    const cutoff = new Date(
+      Date.now() - config.jobs.trash.retentionDays * DAY_MS,
+    )
+    const result = await container
+      .resolve(DocumentWorkflows)
+      .purgeDeletedDocuments(cutoff)
+
+    if (result.isErr()) {
+      console.error("Trash purge failed:", result.unwrapErr().message)
+      return
+    }
+
+    const { purged, failed } = result.unwrap()
+    if (purged > 0 || failed > 0) {
+      console.log(`🗑️  Purged ${purged} trashed document(s), ${failed} failed`)
+    }
+  },
+}
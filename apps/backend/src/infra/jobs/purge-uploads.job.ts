@@ -0,0 +1,29 @@
+import { DocumentWorkflows } from "@application/workflows"
+import { container } from "tsyringe"
+import config from "../config"
+import type { ScheduledJob } from "./scheduler"
+
+const HOUR_MS = 60 * 60 * 1000
+
+export const purgeUploadsJob: ScheduledJob = {
+  name: "purge-uploads",
+  intervalMs: config.jobs.uploads.purgeIntervalMinutes * 60 * 1000,
+  run: async () => {
+    const cutoff = new Date(
+      Date.now() - config.jobs.uploads.expiryHours * HOUR_MS,
+    )
+    const result = await container
+      .resolve(DocumentWorkflows)
+      .purgeStaleUploads(cutoff)
+
+    if (result.isErr()) {
+      console.error("Upload purge failed:", result.unwrapErr().message)
+      return
+    }
+
+    const { purged, failed } = result.unwrap()
+    if (purged > 0 || failed > 0) {
+      console.log(`🗑️  Purged ${purged} stale upload(s), ${failed} failed`)
+    }
+  },
+}
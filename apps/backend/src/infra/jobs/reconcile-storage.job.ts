@@ -0,0 +1,30 @@
+import { DocumentWorkflows } from "@application/workflows"
+import { container } from "tsyringe"
+import config from "../config"
+import type { ScheduledJob } from "./scheduler"
+
+export const reconcileStorageJob: ScheduledJob = {
+  name: "reconcile-storage",
+  intervalMs: config.jobs.reconciliation.intervalHours * 60 * 60 * 1000,
+  run: async () => {
+    const { cleanup, graceMinutes } = config.jobs.reconciliation
+    const result = await container
+      .resolve(DocumentWorkflows)
+      .reconcileStorage(undefined, { cleanup, graceMinutes })
+
+    if (result.isErr()) {
+      console.error(
+        "Storage reconciliation failed:",
+        result.unwrapErr().message,
+      )
+      return
+    }
+
+    const { orphans, missing, deleted } = result.unwrap()
+    if (orphans.length > 0 || missing.length > 0) {
+      console.warn(
+        `🧹 Storage reconciliation found ${orphans.length} orphaned file(s) (${deleted} deleted) and ${missing.length} missing file(s)`,
+      )
+    }
+  },
+}
@@ -0,0 +1,33 @@
+import { OutboxRelay } from "@application/services/events"
+import { container } from "tsyringe"
+import config from "../config"
+import type { ScheduledJob } from "./scheduler"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const relayOutboxJob: ScheduledJob = {
+  name: "relay-outbox",
+  intervalMs: config.jobs.outbox.relayIntervalSeconds * 1000,
+  run: async () => {
+    const relay = container.resolve(OutboxRelay)
+
+    const result = await relay.relay()
+    if (result.isErr()) {
+      console.error("Outbox relay failed:", result.unwrapErr().message)
+      return
+    }
+
+    const { published, failed } = result.unwrap()
+    if (published > 0 || failed > 0) {
+      console.log(`📬 Relayed ${published} domain event(s), ${failed} failed`)
+    }
+
+    const cutoff = new Date(
+      Date.now() - config.jobs.outbox.retentionDays * DAY_MS,
+    )
+    const pruneResult = await relay.prune(cutoff)
+    if (pruneResult.isErr()) {
+      console.error("Outbox prune failed:", pruneResult.unwrapErr().message)
+    }
+  },
+}
@@ -0,0 +1,24 @@
+import { DocumentWorkflows } from "@application/workflows"
+import { container } from "tsyringe"
+import config from "../config"
+import type { ScheduledJob } from "./scheduler"
+
+export const rescanDocumentsJob: ScheduledJob = {
+  name: "rescan-documents",
+  intervalMs: config.scanning.retryIntervalMinutes * 60 * 1000,
+  run: async () => {
+    const result = await container.resolve(DocumentWorkflows).rescanDocuments()
+
+    if (result.isErr()) {
+      console.error("Document rescan failed:", result.unwrapErr().message)
+      return
+    }
+
+    const { scanned, infected, failed } = result.unwrap()
+    if (scanned > 0 || failed > 0) {
+      console.log(
+        `🛡️  Scanned ${scanned} document(s), ${infected} infected, ${failed} failed`,
+      )
+    }
+  },
+}
@@ -0,0 +1,30 @@
+export interface ScheduledJob {
+  name: string
+  intervalMs: number
+  run: () => Promise<void>
+}
+
+/**
+ * Run a job on a fixed interval. A run is skipped while the previous one is still in progress,
+ * and the timer doesn't keep the process alive. Returns a function that stops the job.
+ */
+export const scheduleJob = (job: ScheduledJob): (() => void) => {
+  let running = false
+
+  const tick = async () => {
+    if (running) return
+    running = true
+    try {
+      await job.run()
+    } catch (error) {
+      console.error(`Job "${job.name}" failed:`, error)
+    } finally {
+      running = false
+    }
+  }
+
+  const timer = setInterval(tick, job.intervalMs)
+  timer.unref()
+
+  return () => clearInterval(timer)
+}
@@ -0,0 +1,105 @@
+import { connect } from "node:net"
+import {
+  ContentScanner,
+  type ScanVerdict,
+} from "@application/services/content-scanning"
+import { Result } from "@carbonteq/fp"
+import { ExternalServiceError } from "@domain/utils/base.errors"
+import { injectable } from "tsyringe"
+import scanningConfig from "../config/scanning.config"
+
+/**
+ * Scans files with a ClamAV daemon over TCP, streaming them with the INSTREAM command: each chunk
+ * is sent prefixed with its length as a 32-bit big-endian integer, and a zero length ends the file.
+ */
+@injectable()
+export class ClamdScanner extends ContentScanner {
+  readonly name = "clamd"
+  private readonly options = scanningConfig.clamd
+
+  async scan(
+    content: ReadableStream<Uint8Array>,
+  ): Promise<Result<ScanVerdict, Error>> {
+    try {
+      const reply = await this.instream(content)
+
+      // "stream: OK", "stream: <signature> FOUND" or "<reason> ERROR"
+      if (reply === "stream: OK") {
+        return Result.Ok({ status: "clean" })
+      }
+
+      const found = /^stream: (.+) FOUND$/.exec(reply)
+      if (found?.[1]) {
+        return Result.Ok({ status: "infected", signature: found[1] })
+      }
+
+      return Result.Err(
+        new ExternalServiceError(
+          this.name,
+          `clamd could not scan the file: ${reply || "no reply"}`,
+        ),
+      )
+    } catch (error) {
+      await content.cancel().catch(() => undefined)
+      return Result.Err(
+        new ExternalServiceError(
+          this.name,
+          `clamd is unavailable: ${error instanceof Error ? error.message : error}`,
+          error,
+        ),
+      )
+    }
+  }
+
+  private instream(content: ReadableStream<Uint8Array>): Promise<string> {
+    const { host, port, timeoutMs } = this.options
+
+    return new Promise((resolve, reject) => {
+      const replies: Buffer[] = []
+      const socket = connect({ host, port })
+
+      socket.setTimeout(timeoutMs, () =>
+        socket.destroy(new Error(`no reply within ${timeoutMs} ms`)),
+      )
+      socket.on("data", (data: Buffer) => replies.push(data))
+      // clamd may hang up mid-file (e.g. once it exceeds StreamMaxLength) - its reply says why
+      socket.on("error", (error) => {
+        if (replies.length === 0) reject(error)
+      })
+      // clamd closes the connection after replying ("z" commands end the reply with a NUL byte)
+      socket.on("close", () =>
+        resolve(
+          Buffer.concat(replies).toString("utf8").replace(/\0/g, "").trim(),
+        ),
+      )
+
+      socket.on("connect", async () => {
+        const reader = content.getReader()
+        try {
+          socket.write("zINSTREAM\0")
+          while (!socket.destroyed) {
+            const { done, value } = await reader.read()
+            if (done) {
+              socket.end(Buffer.alloc(4))
+              break
+            }
+
+            const length = Buffer.alloc(4)
+            length.writeUInt32BE(value.length, 0)
+            // Wait for the socket to drain rather than buffering the whole file
+            if (!socket.write(Buffer.concat([length, value]))) {
+              await new Promise((resume) => {
+                socket.once("drain", resume)
+                socket.once("close", resume)
+              })
+            }
+          }
+        } catch (error) {
+          socket.destroy(error instanceof Error ? error : undefined)
+        } finally {
+          await reader.cancel().catch(() => undefined)
+        }
+      })
+    })
+  }
+}
@@ -0,0 +1,251 @@
+import "reflect-metadata"
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { randomBytes } from "node:crypto"
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { Result } from "@carbonteq/fp"
+import { encryptedSize, SEGMENT_SIZE } from "../encryption/file-cipher"
+import type { FileKeyStore, StoredFileKey } from "../encryption/file-key.store"
+import { rewrapFileKeys } from "../encryption/key-rotation"
+import { MasterKeyring, type WrappedKey } from "../encryption/master-keyring"
+import { EncryptedStorageStrategy } from "../strategies/encrypted.storage"
+import { LocalStorageStrategy } from "../strategies/local.storage"
+
+// Stands in for the stored_file_keys table
+class MockFileKeyStore implements FileKeyStore {
+  keys = new Map<string, StoredFileKey>()
+  failDeletes = false
+
+  async find(filePath: string) {
+    return Result.Ok(this.keys.get(filePath))
+  }
+
+  async save(key: StoredFileKey) {
+    this.keys.set(key.filePath, { ...key })
+    return Result.Ok(undefined)
+  }
+
+  async move(fromPath: string, toPath: string) {
+    const key = this.keys.get(fromPath)
+    if (key) {
+      this.keys.delete(fromPath)
+      this.keys.set(toPath, { ...key, filePath: toPath })
+    }
+    return Result.Ok(undefined)
+  }
+
+  async delete(filePath: string): Promise<Result<void, Error>> {
+    if (this.failDeletes) {
+      return Result.Err(new Error("Database unavailable"))
+    }
+    this.keys.delete(filePath)
+    return Result.Ok(undefined)
+  }
+
+  async findWrappedWithout(
+    masterKeyId: string,
+    afterPath: string | undefined,
+    limit: number,
+  ) {
+    return Result.Ok(
+      [...this.keys.values()]
+        .filter((key) => key.masterKeyId !== masterKeyId)
+        .filter((key) => afterPath === undefined || key.filePath > afterPath)
+        .sort((a, b) => a.filePath.localeCompare(b.filePath))
+        .slice(0, limit),
+    )
+  }
+
+  async rewrap(filePath: string, previous: WrappedKey, next: WrappedKey) {
+    const key = this.keys.get(filePath)
+    if (key?.wrappedKey !== previous.wrappedKey) {
+      return Result.Ok(false)
+    }
+    this.keys.set(filePath, { ...key, ...next })
+    return Result.Ok(true)
+  }
+}
+
+const masterKey = () => randomBytes(32).toString("base64")
+
+const readAll = async (stream: ReadableStream<Uint8Array>) =>
+  Buffer.from(await new Response(stream).arrayBuffer())
+
+describe("EncryptedStorageStrategy", () => {
+  let directory: string
+  let inner: LocalStorageStrategy
+  let keyStore: MockFileKeyStore
+  let currentKey: string
+  let keyring: MasterKeyring
+  let storage: EncryptedStorageStrategy
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "encrypted-storage-"))
+    inner = new LocalStorageStrategy(directory)
+    keyStore = new MockFileKeyStore()
+    currentKey = masterKey()
+    keyring = new MasterKeyring(currentKey)
+    storage = new EncryptedStorageStrategy(inner, keyring, keyStore)
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  test("should store files encrypted and read them back", async () => {
+    const content = Buffer.from("quarterly numbers")
+
+    const filePath = (
+      await storage.upload(content, "report.txt", "text/plain")
+    ).unwrap()
+
+    const stored = await readFile(join(directory, filePath))
+    expect(stored.includes(content)).toBe(false)
+    expect((await storage.download(filePath)).unwrap()).toEqual(content)
+    expect(
+      await readAll((await storage.createReadStream(filePath)).unwrap()),
+    ).toEqual(content)
+    expect((await storage.getFileInfo(filePath)).unwrap().size).toBe(
+      content.length,
+    )
+  })
+
+  test("should encrypt streamed uploads as they arrive", async () => {
+    const content = randomBytes(SEGMENT_SIZE * 2 + 7)
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let offset = 0; offset < content.length; offset += 1000) {
+          controller.enqueue(content.subarray(offset, offset + 1000))
+        }
+        controller.close()
+      },
+    })
+
+    const filePath = (
+      await storage.uploadStream(
+        stream,
+        "large.bin",
+        "application/octet-stream",
+      )
+    ).unwrap()
+
+    const stored = await readFile(join(directory, filePath))
+    expect(stored.length).toBe(encryptedSize(content.length))
+    expect((await storage.download(filePath)).unwrap()).toEqual(content)
+    expect(keyStore.keys.get(filePath)?.size).toBe(content.length)
+  })
+
+  test("should read ranges within and across segments", async () => {
+    const content = randomBytes(SEGMENT_SIZE * 3 + 123)
+    const filePath = (
+      await storage.upload(content, "large.bin", "application/octet-stream")
+    ).unwrap()
+
+    const ranges = [
+      { start: 0, end: 9 },
+      { start: 100, end: SEGMENT_SIZE + 99 },
+      { start: SEGMENT_SIZE - 1, end: SEGMENT_SIZE * 2 },
+      { start: SEGMENT_SIZE * 3, end: content.length - 1 },
+    ]
+    for (const range of ranges) {
+      const stream = (await storage.createReadStream(filePath, range)).unwrap()
+
+      expect(await readAll(stream)).toEqual(
+        content.subarray(range.start, range.end + 1),
+      )
+    }
+  })
+
+  test("should refuse files that were tampered with", async () => {
+    const filePath = (
+      await storage.upload(
+        Buffer.from("signed contract"),
+        "a.txt",
+        "text/plain",
+      )
+    ).unwrap()
+    const stored = await readFile(join(directory, filePath))
+    stored[0] = (stored[0] ?? 0) ^ 1
+    await writeFile(join(directory, filePath), stored)
+
+    const result = await storage.download(filePath)
+
+    expect(result.isErr()).toBe(true)
+    expect(result.unwrapErr().message).toBe(
+      `Failed to decrypt file: ${filePath}`,
+    )
+  })
+
+  test("should read files stored before encryption was enabled as they are", async () => {
+    const content = Buffer.from("legacy notes")
+    const filePath = (
+      await inner.upload(content, "notes.txt", "text/plain")
+    ).unwrap()
+
+    expect((await storage.download(filePath)).unwrap()).toEqual(content)
+    expect(
+      await readAll(
+        (
+          await storage.createReadStream(filePath, { start: 7, end: 11 })
+        ).unwrap(),
+      ),
+    ).toEqual(Buffer.from("notes"))
+  })
+
+  test("should keep the key with the file when it is quarantined or deleted", async () => {
+    const content = Buffer.from("suspicious macro")
+    const filePath = (
+      await storage.upload(content, "macro.doc", "application/msword")
+    ).unwrap()
+
+    const quarantined = (await storage.quarantine(filePath)).unwrap()
+
+    expect(keyStore.keys.has(filePath)).toBe(false)
+    expect((await storage.download(quarantined)).unwrap()).toEqual(content)
+
+    await storage.delete(quarantined)
+
+    expect(keyStore.keys.size).toBe(0)
+  })
+
+  test("should drop the key of a deleted file when the delete is retried", async () => {
+    const filePath = (
+      await storage.upload(Buffer.from("draft"), "draft.txt", "text/plain")
+    ).unwrap()
+
+    keyStore.failDeletes = true
+    const failed = await storage.delete(filePath)
+    keyStore.failDeletes = false
+
+    expect(failed.isErr()).toBe(true)
+    expect(keyStore.keys.has(filePath)).toBe(true)
+
+    // The file is already gone, but its key still goes
+    expect((await storage.delete(filePath)).unwrap()).toBe(false)
+    expect(keyStore.keys.has(filePath)).toBe(false)
+  })
+
+  test("should re-wrap data keys on rotation without touching the files", async () => {
+    const content = Buffer.from("board minutes")
+    const filePath = (
+      await storage.upload(content, "minutes.txt", "text/plain")
+    ).unwrap()
+    const stored = await readFile(join(directory, filePath))
+    const nextKey = masterKey()
+    const rotated = new MasterKeyring(nextKey, [currentKey])
+
+    const report = await rewrapFileKeys(keyStore, rotated, { batchSize: 1 })
+
+    expect(report.unwrap()).toEqual({ rewrapped: 1, failed: 0 })
+    expect(keyStore.keys.get(filePath)?.masterKeyId).toBe(rotated.current.id)
+    expect(await readFile(join(directory, filePath))).toEqual(stored)
+    // The previous master key can be dropped once rotation finished
+    const afterRotation = new EncryptedStorageStrategy(
+      inner,
+      new MasterKeyring(nextKey),
+      keyStore,
+    )
+    expect((await afterRotation.download(filePath)).unwrap()).toEqual(content)
+  })
+})
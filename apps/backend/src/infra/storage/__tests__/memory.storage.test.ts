@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, test } from "bun:test"
+import { InMemoryStorageStrategy } from "../strategies/memory.storage"
+
+// What every strategy does is covered by the storage strategy contract
+describe("InMemoryStorageStrategy", () => {
+  let storage: InMemoryStorageStrategy
+
+  beforeEach(() => {
+    storage = new InMemoryStorageStrategy()
+  })
+
+  test("stores files under dated paths like the local strategy", async () => {
+    const filePath = (
+      await storage.upload(Buffer.from("hello"), "notes.txt", "text/plain")
+    ).unwrap()
+
+    expect(filePath).toMatch(/^\d{4}\/\d{2}\/\d{2}\/notes_\d+_\w+\.txt$/)
+    expect((await storage.download(filePath)).unwrap().toString()).toBe("hello")
+
+    const info = (await storage.getFileInfo(filePath)).unwrap()
+    expect(info.mimeType).toBe("text/plain")
+    expect(info.size).toBe(5)
+  })
+
+  test("keeps a copy of what was uploaded", async () => {
+    const content = Buffer.from("original")
+    const filePath = (
+      await storage.upload(content, "file.txt", "text/plain")
+    ).unwrap()
+
+    content.write("modified")
+
+    expect((await storage.download(filePath)).unwrap().toString()).toBe(
+      "original",
+    )
+  })
+
+  test("has no presigned URLs", async () => {
+    expect(
+      (await storage.createUploadUrl("a.txt", "text/plain", 1, 60)).unwrap(),
+    ).toBeUndefined()
+    expect(
+      (
+        await storage.createDownloadUrl("a.txt", {
+          fileName: "a.txt",
+          mimeType: "text/plain",
+          expiresInSeconds: 60,
+        })
+      ).unwrap(),
+    ).toBeUndefined()
+  })
+})
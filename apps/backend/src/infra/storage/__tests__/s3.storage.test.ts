@@ -0,0 +1,205 @@
+import "reflect-metadata"
+import { beforeEach, describe, expect, spyOn, test } from "bun:test"
+import { randomBytes } from "node:crypto"
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  PutObjectCommand,
+  S3Client,
+  UploadPartCommand,
+} from "@aws-sdk/client-s3"
+import { S3StorageStrategy } from "../strategies/s3.storage"
+
+const PART_SIZE = 8 * 1024 * 1024
+
+// Every field of a command's input is optional, so the bucket keys by whatever was sent
+type Key = string | undefined
+
+// The strategy sends its bytes as buffers
+const bytesOf = (body: unknown) => Buffer.from(body as Uint8Array)
+
+// Stands in for a bucket, answering the commands uploads are made of
+class FakeBucket {
+  objects = new Map<Key, { body: Buffer; contentType?: string }>()
+  multipart = new Map<
+    Key,
+    { key: Key; parts: Map<number | undefined, Buffer> }
+  >()
+  aborted: Key[] = []
+  sent: string[] = []
+  failPart?: number
+
+  async send(command: object): Promise<unknown> {
+    this.sent.push(command.constructor.name)
+
+    if (command instanceof PutObjectCommand) {
+      const { input } = command
+      this.objects.set(input.Key, {
+        body: bytesOf(input.Body),
+        contentType: input.ContentType,
+      })
+      return {}
+    }
+    if (command instanceof CreateMultipartUploadCommand) {
+      const { input } = command
+      const uploadId = `upload-${this.multipart.size + 1}`
+      this.multipart.set(uploadId, { key: input.Key, parts: new Map() })
+      return { UploadId: uploadId }
+    }
+    if (command instanceof UploadPartCommand) {
+      const { input } = command
+      if (input.PartNumber === this.failPart) {
+        throw new Error("Connection reset")
+      }
+      this.multipart
+        .get(input.UploadId)
+        ?.parts.set(input.PartNumber, bytesOf(input.Body))
+      return { ETag: `"etag-${input.PartNumber}"` }
+    }
+    if (command instanceof CompleteMultipartUploadCommand) {
+      const { input } = command
+      const upload = this.multipart.get(input.UploadId)
+      const parts = (input.MultipartUpload?.Parts ?? []).map(
+        ({ PartNumber }) => upload?.parts.get(PartNumber) ?? Buffer.alloc(0),
+      )
+      this.objects.set(input.Key, { body: Buffer.concat(parts) })
+      this.multipart.delete(input.UploadId)
+      return {}
+    }
+    if (command instanceof AbortMultipartUploadCommand) {
+      const { input } = command
+      this.aborted.push(input.UploadId)
+      this.multipart.delete(input.UploadId)
+      return {}
+    }
+    throw new Error(`Unexpected command: ${command.constructor.name}`)
+  }
+}
+
+const options = {
+  bucketName: "documents",
+  region: "us-east-1",
+  accessKeyId: "AKIDEXAMPLE",
+  secretAccessKey: "wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY",
+  endpoint: "http://localhost:4566",
+}
+
+const streamOf = (content: Buffer, chunkSize = 1024 * 1024) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let offset = 0; offset < content.length; offset += chunkSize) {
+        controller.enqueue(content.subarray(offset, offset + chunkSize))
+      }
+      controller.close()
+    },
+  })
+
+describe("S3StorageStrategy", () => {
+  let bucket: FakeBucket
+  let client: S3Client
+  let storage: S3StorageStrategy
+
+  beforeEach(() => {
+    bucket = new FakeBucket()
+    client = new S3Client({
+      region: options.region,
+      credentials: {
+        accessKeyId: options.accessKeyId,
+        secretAccessKey: options.secretAccessKey,
+      },
+      endpoint: options.endpoint,
+      forcePathStyle: true,
+    })
+    spyOn(client, "send").mockImplementation((command) => bucket.send(command))
+    storage = new S3StorageStrategy(options, client)
+  })
+
+  test("should upload small files in a single request", async () => {
+    const content = Buffer.from("quarterly numbers")
+
+    const filePath = (
+      await storage.upload(content, "report.txt", "text/plain")
+    ).unwrap()
+
+    expect(bucket.sent).toEqual(["PutObjectCommand"])
+    expect(bucket.objects.get(filePath)).toEqual({
+      body: content,
+      contentType: "text/plain",
+    })
+  })
+
+  test("should upload large buffers and streams in parts", async () => {
+    const content = randomBytes(PART_SIZE * 2 + 123)
+
+    const fromBuffer = (
+      await storage.upload(content, "video.mp4", "video/mp4")
+    ).unwrap()
+    const fromStream = (
+      await storage.uploadStream(streamOf(content), "video.mp4", "video/mp4")
+    ).unwrap()
+
+    expect(
+      bucket.sent.filter((name) => name === "UploadPartCommand"),
+    ).toHaveLength(6)
+    expect(bucket.objects.get(fromBuffer)?.body.equals(content)).toBe(true)
+    expect(bucket.objects.get(fromStream)?.body.equals(content)).toBe(true)
+  })
+
+  test("should abort the multipart upload when a part fails", async () => {
+    bucket.failPart = 2
+
+    const result = await storage.uploadStream(
+      streamOf(randomBytes(PART_SIZE * 2)),
+      "video.mp4",
+      "video/mp4",
+    )
+
+    expect(result.isErr()).toBe(true)
+    expect(bucket.aborted).toEqual(["upload-1"])
+    expect(bucket.objects.size).toBe(0)
+  })
+
+  test("should presign uploads of exactly the declared file", async () => {
+    const target = (
+      await storage.createUploadUrl("scan 1.pdf", "application/pdf", 2048, 900)
+    ).unwrap()
+
+    const url = new URL(target?.url ?? "")
+    expect(url.origin).toBe(options.endpoint)
+    expect(url.pathname).toBe(
+      `/documents/${target?.filePath.replace(" ", "%20")}`,
+    )
+    expect(url.searchParams.get("X-Amz-Expires")).toBe("900")
+    expect(url.searchParams.get("X-Amz-Credential")).toStartWith(
+      `${options.accessKeyId}/`,
+    )
+    expect(url.searchParams.get("X-Amz-SignedHeaders")).toBe(
+      "content-length;content-type;host",
+    )
+    expect(url.searchParams.get("X-Amz-Signature")).toMatch(/^[0-9a-f]{64}$/)
+    expect(target?.headers).toEqual({
+      "content-length": "2048",
+      "content-type": "application/pdf",
+    })
+  })
+
+  test("should presign downloads under the document name", async () => {
+    const url = new URL(
+      (
+        await storage.createDownloadUrl("2025/01/01/report_1_a.txt", {
+          fileName: "Q1 report.txt",
+          mimeType: "text/plain",
+          expiresInSeconds: 300,
+        })
+      ).unwrap() ?? "",
+    )
+
+    expect(url.pathname).toBe("/documents/2025/01/01/report_1_a.txt")
+    expect(url.searchParams.get("response-content-disposition")).toBe(
+      "attachment; filename*=UTF-8''Q1%20report.txt",
+    )
+    expect(url.searchParams.get("response-content-type")).toBe("text/plain")
+    expect(url.searchParams.get("X-Amz-SignedHeaders")).toBe("host")
+  })
+})
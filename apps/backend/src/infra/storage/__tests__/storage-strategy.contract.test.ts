@@ -0,0 +1,20 @@
+import "reflect-metadata"
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { LocalStorageStrategy } from "../strategies/local.storage"
+import { InMemoryStorageStrategy } from "../strategies/memory.storage"
+import { describeStorageStrategyContract } from "./storage-strategy.contract"
+
+describeStorageStrategyContract("local disk", async () => {
+  const directory = await mkdtemp(join(tmpdir(), "storage-contract-"))
+
+  return {
+    storage: new LocalStorageStrategy(directory),
+    cleanup: () => rm(directory, { recursive: true, force: true }),
+  }
+})
+
+describeStorageStrategyContract("in-memory", async () => ({
+  storage: new InMemoryStorageStrategy(),
+}))
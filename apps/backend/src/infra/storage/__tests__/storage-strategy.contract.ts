@@ -0,0 +1,288 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { createHash } from "node:crypto"
+import type { IStorageStrategy } from "../storage.strategy"
+import { QUARANTINE_PREFIX } from "../storage.strategy"
+
+export interface StorageStrategyFixture {
+  storage: IStorageStrategy
+  cleanup?: () => Promise<void>
+}
+
+const readAll = async (stream: ReadableStream<Uint8Array>) =>
+  Buffer.from(await new Response(stream).arrayBuffer())
+
+const streamOf = (...parts: string[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const part of parts) {
+        controller.enqueue(new TextEncoder().encode(part))
+      }
+      controller.close()
+    },
+  })
+
+/**
+ * The behavior every storage strategy shares, run against the strategy `setup` creates for each
+ * test. Strategies differ in where files go, not in what callers can expect of them.
+ */
+export const describeStorageStrategyContract = (
+  name: string,
+  setup: () => Promise<StorageStrategyFixture>,
+) => {
+  describe(`IStorageStrategy contract: ${name}`, () => {
+    let fixture: StorageStrategyFixture
+    let storage: IStorageStrategy
+
+    beforeEach(async () => {
+      fixture = await setup()
+      storage = fixture.storage
+    })
+
+    afterEach(async () => {
+      await fixture.cleanup?.()
+    })
+
+    describe("storing files", () => {
+      test("should read back what was uploaded", async () => {
+        const filePath = (
+          await storage.upload(Buffer.from("hello"), "notes.txt", "text/plain")
+        ).unwrap()
+
+        expect(filePath).toEndWith(".txt")
+        expect((await storage.exists(filePath)).unwrap()).toBe(true)
+        expect((await storage.download(filePath)).unwrap().toString()).toBe(
+          "hello",
+        )
+      })
+
+      test("should give every upload its own path", async () => {
+        const first = (
+          await storage.upload(Buffer.from("a"), "same.txt", "text/plain")
+        ).unwrap()
+        const second = (
+          await storage.upload(Buffer.from("b"), "same.txt", "text/plain")
+        ).unwrap()
+
+        expect(first).not.toBe(second)
+        expect((await storage.download(first)).unwrap().toString()).toBe("a")
+      })
+
+      test("should store streamed uploads", async () => {
+        const filePath = (
+          await storage.uploadStream(
+            streamOf("hello ", "world"),
+            "streamed.txt",
+            "text/plain",
+          )
+        ).unwrap()
+
+        expect((await storage.download(filePath)).unwrap().toString()).toBe(
+          "hello world",
+        )
+      })
+
+      test("should write files to the given path", async () => {
+        ;(
+          await storage.put("contract/a.txt", Buffer.from("abc"), "text/plain")
+        ).unwrap()
+
+        const info = (await storage.getFileInfo("contract/a.txt")).unwrap()
+        expect(info.path).toBe("contract/a.txt")
+        expect(info.name).toBe("a.txt")
+        expect(info.size).toBe(3)
+        expect(info.mimeType).toBe("text/plain")
+      })
+
+      test("should replace the file at a path that is written again", async () => {
+        await storage.put("contract/a.txt", Buffer.from("old"), "text/plain")
+        await storage.put("contract/a.txt", Buffer.from("new"), "text/plain")
+
+        expect(
+          (await storage.download("contract/a.txt")).unwrap().toString(),
+        ).toBe("new")
+      })
+    })
+
+    describe("reading files", () => {
+      beforeEach(async () => {
+        await storage.put(
+          "contract/digits.txt",
+          Buffer.from("0123456789"),
+          "text/plain",
+        )
+      })
+
+      test("should stream the whole file", async () => {
+        const stream = (
+          await storage.createReadStream("contract/digits.txt")
+        ).unwrap()
+
+        expect((await readAll(stream)).toString()).toBe("0123456789")
+      })
+
+      test("should stream inclusive byte ranges", async () => {
+        const stream = (
+          await storage.createReadStream("contract/digits.txt", {
+            start: 2,
+            end: 4,
+          })
+        ).unwrap()
+
+        expect((await readAll(stream)).toString()).toBe("234")
+      })
+
+      test("should cut ranges short at the end of the file", async () => {
+        const stream = (
+          await storage.createReadStream("contract/digits.txt", {
+            start: 8,
+            end: 100,
+          })
+        ).unwrap()
+
+        expect((await readAll(stream)).toString()).toBe("89")
+      })
+    })
+
+    describe("missing files", () => {
+      test("should fail to read them", async () => {
+        expect((await storage.download("contract/missing.txt")).isErr()).toBe(
+          true,
+        )
+        expect(
+          (await storage.createReadStream("contract/missing.txt")).isErr(),
+        ).toBe(true)
+        expect(
+          (await storage.getFileInfo("contract/missing.txt")).isErr(),
+        ).toBe(true)
+      })
+
+      test("should report that they don't exist", async () => {
+        expect((await storage.exists("contract/missing.txt")).unwrap()).toBe(
+          false,
+        )
+      })
+
+      test("should report that there was nothing to delete", async () => {
+        expect((await storage.delete("contract/missing.txt")).unwrap()).toBe(
+          false,
+        )
+      })
+
+      test("should fail to quarantine them", async () => {
+        expect((await storage.quarantine("contract/missing.txt")).isErr()).toBe(
+          true,
+        )
+      })
+    })
+
+    describe("deleting files", () => {
+      test("should remove the file", async () => {
+        await storage.put("contract/a.txt", Buffer.from("abc"), "text/plain")
+
+        expect((await storage.delete("contract/a.txt")).unwrap()).toBe(true)
+        expect((await storage.exists("contract/a.txt")).unwrap()).toBe(false)
+        expect((await storage.download("contract/a.txt")).isErr()).toBe(true)
+      })
+    })
+
+    describe("listing files", () => {
+      test("should list the files under a prefix in path order", async () => {
+        await storage.put("contract/b/2.txt", Buffer.from("22"), "text/plain")
+        await storage.put("contract/b/1.txt", Buffer.from("1"), "text/plain")
+        await storage.put("contract/c/3.txt", Buffer.from("333"), "text/plain")
+
+        const objects = (await storage.list("contract/b/")).unwrap()
+
+        expect(objects.map((object) => [object.path, object.size])).toEqual([
+          ["contract/b/1.txt", 1],
+          ["contract/b/2.txt", 2],
+        ])
+      })
+
+      test("should list nothing under an unused prefix", async () => {
+        expect((await storage.list("contract/none/")).unwrap()).toEqual([])
+      })
+
+      test("should leave staged chunks out", async () => {
+        await storage.stageChunk("upload-1", 0, Buffer.from("chunk"))
+
+        expect((await storage.list("")).unwrap()).toEqual([])
+      })
+    })
+
+    describe("resumable uploads", () => {
+      test("should assemble staged chunks in offset order", async () => {
+        await storage.stageChunk("upload-1", 5, Buffer.from("world"))
+        await storage.stageChunk("upload-1", 0, Buffer.from("hello"))
+
+        const assembled = (
+          await storage.assembleChunks("upload-1", "greeting.txt", "text/plain")
+        ).unwrap()
+
+        expect(
+          (await storage.download(assembled.filePath)).unwrap().toString(),
+        ).toBe("helloworld")
+        expect(assembled.contentHash).toBe(
+          createHash("sha256").update("helloworld").digest("hex"),
+        )
+      })
+
+      test("should replace a chunk that is sent again", async () => {
+        await storage.stageChunk("upload-1", 0, Buffer.from("HELLO"))
+        await storage.stageChunk("upload-1", 0, Buffer.from("hello"))
+
+        const assembled = (
+          await storage.assembleChunks("upload-1", "greeting.txt", "text/plain")
+        ).unwrap()
+
+        expect(
+          (await storage.download(assembled.filePath)).unwrap().toString(),
+        ).toBe("hello")
+      })
+
+      test("should fail to assemble an upload without chunks", async () => {
+        expect(
+          (
+            await storage.assembleChunks("unknown", "x.txt", "text/plain")
+          ).isErr(),
+        ).toBe(true)
+      })
+
+      test("should discard staged chunks", async () => {
+        await storage.stageChunk("upload-1", 0, Buffer.from("hello"))
+
+        expect((await storage.discardChunks("upload-1")).unwrap()).toBe(true)
+        expect((await storage.discardChunks("upload-1")).unwrap()).toBe(false)
+        expect(
+          (
+            await storage.assembleChunks("upload-1", "x.txt", "text/plain")
+          ).isErr(),
+        ).toBe(true)
+      })
+    })
+
+    describe("quarantine", () => {
+      test("should move the file under the quarantine prefix", async () => {
+        await storage.put(
+          "contract/infected.txt",
+          Buffer.from("bad"),
+          "text/plain",
+        )
+
+        const quarantinePath = (
+          await storage.quarantine("contract/infected.txt")
+        ).unwrap()
+
+        expect(quarantinePath).toBe(
+          `${QUARANTINE_PREFIX}/contract/infected.txt`,
+        )
+        expect((await storage.exists("contract/infected.txt")).unwrap()).toBe(
+          false,
+        )
+        expect(
+          (await storage.download(quarantinePath)).unwrap().toString(),
+        ).toBe("bad")
+      })
+    })
+  })
+}
@@ -0,0 +1,158 @@
+import "reflect-metadata"
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { Result } from "@carbonteq/fp"
+import type {
+  DocumentFileReference,
+  DocumentRepository,
+} from "@domain/document/document.repository"
+import { StorageMigrator } from "../storage.migrator"
+import { markStoragePath, parseStoragePath } from "../storage.strategy"
+import { LocalStorageStrategy } from "../strategies/local.storage"
+
+// Stands in for the documents table, with only the queries the migrator runs
+class MockDocumentRepository {
+  references: DocumentFileReference[] = []
+
+  async findFileReferences() {
+    return Result.Ok(this.references)
+  }
+
+  async relocateFile(fromPath: string, toPath: string) {
+    let relocated = 0
+    for (const reference of this.references) {
+      if (reference.filePath === fromPath) {
+        reference.filePath = toPath
+        relocated++
+      }
+    }
+    return Result.Ok(relocated)
+  }
+}
+
+describe("Storage paths", () => {
+  test("should read the backend from marked paths only", () => {
+    expect(parseStoragePath("s3:2025/01/31/report.pdf")).toEqual({
+      backend: "s3",
+      path: "2025/01/31/report.pdf",
+    })
+    expect(parseStoragePath("2025/01/31/report.pdf")).toEqual({
+      path: "2025/01/31/report.pdf",
+    })
+    expect(parseStoragePath("gcs:report.pdf")).toEqual({
+      path: "gcs:report.pdf",
+    })
+  })
+
+  test("should turn marked paths back into the path they were made from", () => {
+    const path = ".quarantine/2025/01/31/report.pdf"
+
+    expect(parseStoragePath(markStoragePath("local", path))).toEqual({
+      backend: "local",
+      path,
+    })
+  })
+})
+
+describe("StorageMigrator", () => {
+  let directory: string
+  let source: LocalStorageStrategy
+  let target: LocalStorageStrategy
+  let repository: MockDocumentRepository
+  let migrator: StorageMigrator
+
+  const store = async (name: string, content: string, documentId = name) => {
+    const filePath = (
+      await source.upload(Buffer.from(content), name, "text/plain")
+    ).unwrap()
+    repository.references.push({ documentId: documentId as never, filePath })
+    return filePath
+  }
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "storage-migration-"))
+    source = new LocalStorageStrategy(join(directory, "local"))
+    // A second directory stands in for the bucket
+    target = new LocalStorageStrategy(join(directory, "s3"))
+    repository = new MockDocumentRepository()
+    migrator = new StorageMigrator(
+      repository as unknown as DocumentRepository,
+      { backend: "local", strategy: source },
+      { backend: "s3", strategy: target },
+    )
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  test("should copy every file and point its documents at the copy", async () => {
+    const report = await store("report.txt", "quarterly numbers")
+    const notes = await store("notes.txt", "meeting notes")
+    // A version of another document sharing the file
+    repository.references.push({
+      documentId: "copy" as never,
+      filePath: report,
+    })
+
+    const result = await migrator.migrate()
+
+    expect(result.unwrap()).toMatchObject({
+      total: 2,
+      migrated: 2,
+      failed: 0,
+      bytes: 30,
+    })
+    expect(repository.references.map(({ filePath }) => filePath)).toEqual([
+      markStoragePath("s3", report),
+      markStoragePath("s3", notes),
+      markStoragePath("s3", report),
+    ])
+    expect((await target.download(report)).unwrap().toString()).toBe(
+      "quarterly numbers",
+    )
+    // The original stays readable for whoever still holds its path
+    expect((await source.exists(report)).unwrap()).toBe(true)
+  })
+
+  test("should pick up where an interrupted migration stopped", async () => {
+    await store("first.txt", "first")
+    await store("second.txt", "second")
+    await store("third.txt", "third")
+    const progress: number[] = []
+
+    const first = await migrator.migrate({ limit: 2 })
+    const second = await migrator.migrate({
+      onProgress: ({ migrated }) => progress.push(migrated),
+    })
+
+    expect(first.unwrap()).toMatchObject({ total: 2, migrated: 2 })
+    expect(second.unwrap()).toMatchObject({ total: 1, migrated: 1 })
+    expect(progress).toEqual([1])
+    expect((await migrator.pending()).unwrap()).toEqual([])
+  })
+
+  test("should leave files that can't be copied where they are", async () => {
+    const lost = await store("lost.txt", "gone missing")
+    await source.delete(lost)
+
+    const result = await migrator.migrate()
+
+    expect(result.unwrap()).toMatchObject({ migrated: 0, failed: 1 })
+    expect(result.unwrap().failures[0]?.filePath).toBe(lost)
+    expect(repository.references[0]?.filePath).toBe(lost)
+  })
+
+  test("should not exceed the copy rate", async () => {
+    await store("first.txt", "a".repeat(50))
+    await store("second.txt", "b".repeat(50))
+    const startedAt = Date.now()
+
+    await migrator.migrate({ bytesPerSecond: 1000 })
+
+    // 100 bytes at 1000 bytes per second
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(95)
+  })
+})
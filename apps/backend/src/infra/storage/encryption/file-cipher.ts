@@ -0,0 +1,231 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto"
+import type { ByteRange } from "../storage.strategy"
+
+/**
+ * Files are encrypted with AES-256-GCM in segments of a fixed size, each with its own tag, so a
+ * range can be decrypted without reading the whole file. The nonce of a segment is the IV of the
+ * file with the segment index mixed into its last four bytes, and the last segment is marked in its
+ * authenticated data - segments can't be reordered, swapped between files or cut off unnoticed.
+ */
+export const SEGMENT_SIZE = 64 * 1024
+export const KEY_LENGTH = 32
+export const IV_LENGTH = 12
+const TAG_LENGTH = 16
+
+const ALGORITHM = "aes-256-gcm"
+const FINAL_SEGMENT = Buffer.from([1])
+const INNER_SEGMENT = Buffer.from([0])
+
+export const generateDataKey = (): Buffer => randomBytes(KEY_LENGTH)
+export const generateIv = (): Buffer => randomBytes(IV_LENGTH)
+
+const segmentCount = (size: number) => Math.ceil(size / SEGMENT_SIZE)
+
+// Plaintext bytes in the segment - only the last one may be short
+const segmentLength = (index: number, size: number) =>
+  Math.min(SEGMENT_SIZE, size - index * SEGMENT_SIZE)
+
+export const encryptedSize = (size: number): number =>
+  size + segmentCount(size) * TAG_LENGTH
+
+const segmentNonce = (iv: Buffer, index: number) => {
+  const nonce = Buffer.from(iv)
+  nonce.writeUInt32BE(
+    (nonce.readUInt32BE(IV_LENGTH - 4) ^ index) >>> 0,
+    IV_LENGTH - 4,
+  )
+  return nonce
+}
+
+const encryptSegment = (
+  key: Buffer,
+  iv: Buffer,
+  index: number,
+  final: boolean,
+  plaintext: Buffer,
+) => {
+  const cipher = createCipheriv(ALGORITHM, key, segmentNonce(iv, index))
+  cipher.setAAD(final ? FINAL_SEGMENT : INNER_SEGMENT)
+  return Buffer.concat([
+    cipher.update(plaintext),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ])
+}
+
+// Throws when the segment was tampered with
+const decryptSegment = (
+  key: Buffer,
+  iv: Buffer,
+  index: number,
+  final: boolean,
+  segment: Buffer,
+) => {
+  const decipher = createDecipheriv(ALGORITHM, key, segmentNonce(iv, index))
+  decipher.setAAD(final ? FINAL_SEGMENT : INNER_SEGMENT)
+  decipher.setAuthTag(segment.subarray(segment.length - TAG_LENGTH))
+  return Buffer.concat([
+    decipher.update(segment.subarray(0, segment.length - TAG_LENGTH)),
+    decipher.final(),
+  ])
+}
+
+export const encryptFile = (file: Buffer, key: Buffer, iv: Buffer): Buffer => {
+  const count = segmentCount(file.length)
+  const segments: Buffer[] = []
+
+  for (let index = 0; index < count; index++) {
+    const start = index * SEGMENT_SIZE
+    const plaintext = file.subarray(start, start + SEGMENT_SIZE)
+    segments.push(
+      encryptSegment(key, iv, index, index === count - 1, plaintext),
+    )
+  }
+
+  return Buffer.concat(segments)
+}
+
+/**
+ * Decrypt a whole file. Throws when it was tampered with or doesn't have the size it was stored with.
+ */
+export const decryptFile = (
+  encrypted: Buffer,
+  key: Buffer,
+  iv: Buffer,
+  size: number,
+): Buffer => {
+  if (encrypted.length !== encryptedSize(size)) {
+    throw new Error(
+      `Expected ${encryptedSize(size)} encrypted bytes, got ${encrypted.length}`,
+    )
+  }
+
+  const count = segmentCount(size)
+  const segments: Buffer[] = []
+  let offset = 0
+
+  for (let index = 0; index < count; index++) {
+    const length = segmentLength(index, size) + TAG_LENGTH
+    segments.push(
+      decryptSegment(
+        key,
+        iv,
+        index,
+        index === count - 1,
+        encrypted.subarray(offset, offset + length),
+      ),
+    )
+    offset += length
+  }
+
+  return Buffer.concat(segments)
+}
+
+/**
+ * Encrypt a stream as it arrives, producing the same bytes as encryptFile. A full segment is held
+ * back until more data follows, since only the end of the stream tells which segment is the last.
+ * The plaintext size is known once the stream ended.
+ */
+export const createEncryptStream = (
+  key: Buffer,
+  iv: Buffer,
+): { stream: TransformStream<Uint8Array, Uint8Array>; size: () => number } => {
+  let index = 0
+  let size = 0
+  let pending = Buffer.alloc(0)
+
+  const stream = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      pending = Buffer.concat([pending, chunk])
+      size += chunk.length
+
+      while (pending.length > SEGMENT_SIZE) {
+        controller.enqueue(
+          encryptSegment(
+            key,
+            iv,
+            index++,
+            false,
+            pending.subarray(0, SEGMENT_SIZE),
+          ),
+        )
+        pending = pending.subarray(SEGMENT_SIZE)
+      }
+    },
+    flush(controller) {
+      if (pending.length > 0) {
+        controller.enqueue(encryptSegment(key, iv, index, true, pending))
+      }
+    },
+  })
+
+  return { stream, size: () => size }
+}
+
+// The encrypted bytes holding a range of the plaintext, and the first segment among them
+export const encryptedRange = (
+  range: ByteRange,
+): { range: ByteRange; firstSegment: number } => {
+  const firstSegment = Math.floor(range.start / SEGMENT_SIZE)
+  const lastSegment = Math.floor(range.end / SEGMENT_SIZE)
+  const encryptedSegmentSize = SEGMENT_SIZE + TAG_LENGTH
+
+  return {
+    range: {
+      start: firstSegment * encryptedSegmentSize,
+      // The last segment may be short, which storage ranges running past the end tolerate
+      end: (lastSegment + 1) * encryptedSegmentSize - 1,
+    },
+    firstSegment,
+  }
+}
+
+/**
+ * Decrypt a stream of encrypted segments as they arrive, starting at the given segment, and pass
+ * on only the plaintext within the range (the whole file without one). The stream errors when a
+ * segment was tampered with or the encrypted data ends early.
+ */
+export const createDecryptStream = (
+  key: Buffer,
+  iv: Buffer,
+  size: number,
+  range: ByteRange = { start: 0, end: size - 1 },
+): TransformStream<Uint8Array, Uint8Array> => {
+  const count = segmentCount(size)
+  let index = Math.floor(range.start / SEGMENT_SIZE)
+  let pending = Buffer.alloc(0)
+
+  const lastSegment = Math.min(Math.floor(range.end / SEGMENT_SIZE), count - 1)
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      pending = Buffer.concat([pending, chunk])
+
+      while (index <= lastSegment) {
+        const length = segmentLength(index, size) + TAG_LENGTH
+        if (pending.length < length) return
+
+        const plaintext = decryptSegment(
+          key,
+          iv,
+          index,
+          index === count - 1,
+          pending.subarray(0, length),
+        )
+        pending = pending.subarray(length)
+
+        // Trim the segment down to the part within the range
+        const segmentStart = index * SEGMENT_SIZE
+        const from = Math.max(range.start - segmentStart, 0)
+        const to = Math.min(range.end - segmentStart + 1, plaintext.length)
+        controller.enqueue(plaintext.subarray(from, to))
+        index++
+      }
+    },
+    flush() {
+      if (index <= lastSegment) {
+        throw new Error(`Encrypted file ended within segment ${index}`)
+      }
+    },
+  })
+}
@@ -0,0 +1,38 @@
+import type { Result } from "@carbonteq/fp"
+import { container } from "tsyringe"
+import type { WrappedKey } from "./master-keyring"
+
+// The envelope of an encrypted file - its data key can only be used once unwrapped
+export interface StoredFileKey extends WrappedKey {
+  filePath: string // Relative to the backend the file is on
+  iv: string // Base64
+  size: number // Of the plaintext
+}
+
+/**
+ * Where the data keys of encrypted files are kept. Files without a key were stored before
+ * encryption was enabled and are read as they are.
+ */
+export interface FileKeyStore {
+  find(filePath: string): Promise<Result<StoredFileKey | undefined, Error>>
+  // Replaces the key of a file that already has one
+  save(key: StoredFileKey): Promise<Result<void, Error>>
+  move(fromPath: string, toPath: string): Promise<Result<void, Error>>
+  delete(filePath: string): Promise<Result<void, Error>>
+  // Rotation - keys wrapped by any other master key, ordered by path and starting after the given one
+  findWrappedWithout(
+    masterKeyId: string,
+    afterPath: string | undefined,
+    limit: number,
+  ): Promise<Result<StoredFileKey[], Error>>
+  // Swaps the wrapping of a key unless it changed since it was read. Returns whether it did
+  rewrap(
+    filePath: string,
+    previous: WrappedKey,
+    next: WrappedKey,
+  ): Promise<Result<boolean, Error>>
+}
+
+export const FileKeyStoreSym = Symbol.for("FileKeyStore")
+export const resolveFileKeyStore = () =>
+  container.resolve<FileKeyStore>(FileKeyStoreSym)
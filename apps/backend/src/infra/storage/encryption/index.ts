@@ -0,0 +1,4 @@
+export * from "./file-cipher"
+export * from "./file-key.store"
+export * from "./key-rotation"
+export * from "./master-keyring"
@@ -0,0 +1,70 @@
+import { Result } from "@carbonteq/fp"
+import type { FileKeyStore } from "./file-key.store"
+import type { MasterKeyring } from "./master-keyring"
+
+export interface KeyRotationReport {
+  rewrapped: number
+  failed: number // Keys none of the master keys could unwrap, left as they were
+}
+
+export interface KeyRotationOptions {
+  batchSize?: number
+  onProgress?: (report: KeyRotationReport) => void
+}
+
+/**
+ * Re-wrap the data keys wrapped by previous master keys with the current one. Only the keys
+ * change - the files stay encrypted with the same data keys, so none of them is read or rewritten.
+ * Keys that were rewritten in the meantime are skipped, and running it again picks up the rest.
+ */
+export const rewrapFileKeys = async (
+  keyStore: FileKeyStore,
+  keyring: MasterKeyring,
+  options: KeyRotationOptions = {},
+): Promise<Result<KeyRotationReport, Error>> => {
+  const batchSize = options.batchSize ?? 100
+  const report: KeyRotationReport = { rewrapped: 0, failed: 0 }
+  let afterPath: string | undefined
+
+  while (true) {
+    const batchResult = await keyStore.findWrappedWithout(
+      keyring.current.id,
+      afterPath,
+      batchSize,
+    )
+    if (batchResult.isErr()) {
+      return Result.Err(batchResult.unwrapErr())
+    }
+
+    const batch = batchResult.unwrap()
+    for (const key of batch) {
+      const dataKey = keyring.unwrap(key)
+      if (dataKey.isErr()) {
+        console.error(
+          `Failed to rotate the key of ${key.filePath}:`,
+          dataKey.unwrapErr(),
+        )
+        report.failed++
+        continue
+      }
+
+      const rewrapResult = await keyStore.rewrap(
+        key.filePath,
+        key,
+        keyring.wrap(dataKey.unwrap()),
+      )
+      if (rewrapResult.isErr()) {
+        return Result.Err(rewrapResult.unwrapErr())
+      }
+      if (rewrapResult.unwrap()) {
+        report.rewrapped++
+      }
+    }
+    options.onProgress?.({ ...report })
+
+    if (batch.length < batchSize) {
+      return Result.Ok(report)
+    }
+    afterPath = batch.at(-1)?.filePath
+  }
+}
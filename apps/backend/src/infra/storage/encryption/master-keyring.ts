@@ -0,0 +1,107 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "node:crypto"
+import { Result } from "@carbonteq/fp"
+import { IV_LENGTH, KEY_LENGTH } from "./file-cipher"
+
+const ALGORITHM = "aes-256-gcm"
+const TAG_LENGTH = 16
+
+export interface MasterKey {
+  id: string // Fingerprint of the key, recorded with the data keys it wrapped
+  key: Buffer
+}
+
+export interface WrappedKey {
+  wrappedKey: string // Base64 of the nonce, the encrypted data key and the tag
+  masterKeyId: string
+}
+
+const parseMasterKey = (encoded: string): MasterKey => {
+  const key = Buffer.from(encoded.trim(), "base64")
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(
+      `Storage encryption keys must be ${KEY_LENGTH} bytes, base64-encoded`,
+    )
+  }
+  return {
+    id: createHash("sha256").update(key).digest("hex").slice(0, 16),
+    key,
+  }
+}
+
+/**
+ * The master keys that wrap the data keys of stored files. Data keys are always wrapped with the
+ * current key; previous keys only unwrap the data keys rotation didn't get to yet.
+ */
+export class MasterKeyring {
+  readonly current: MasterKey
+  private readonly keys: Map<string, MasterKey>
+
+  constructor(currentKey: string, previousKeys: readonly string[] = []) {
+    this.current = parseMasterKey(currentKey)
+
+    const keys = [
+      this.current,
+      ...previousKeys.filter((key) => key.trim()).map(parseMasterKey),
+    ]
+    this.keys = new Map(keys.map((key) => [key.id, key]))
+  }
+
+  wrap(dataKey: Buffer): WrappedKey {
+    const nonce = randomBytes(IV_LENGTH)
+    const cipher = createCipheriv(ALGORITHM, this.current.key, nonce)
+    const encrypted = Buffer.concat([cipher.update(dataKey), cipher.final()])
+
+    return {
+      wrappedKey: Buffer.concat([
+        nonce,
+        encrypted,
+        cipher.getAuthTag(),
+      ]).toString("base64"),
+      masterKeyId: this.current.id,
+    }
+  }
+
+  unwrap({ wrappedKey, masterKeyId }: WrappedKey): Result<Buffer, Error> {
+    const masterKey = this.keys.get(masterKeyId)
+    if (!masterKey) {
+      return Result.Err(
+        new Error(
+          `Master key ${masterKeyId} is unknown - was it dropped before rotation finished?`,
+        ),
+      )
+    }
+
+    try {
+      const wrapped = Buffer.from(wrappedKey, "base64")
+      const decipher = createDecipheriv(
+        ALGORITHM,
+        masterKey.key,
+        wrapped.subarray(0, IV_LENGTH),
+      )
+      decipher.setAuthTag(wrapped.subarray(wrapped.length - TAG_LENGTH))
+
+      return Result.Ok(
+        Buffer.concat([
+          decipher.update(
+            wrapped.subarray(IV_LENGTH, wrapped.length - TAG_LENGTH),
+          ),
+          decipher.final(),
+        ]),
+      )
+    } catch (error) {
+      return Result.Err(
+        new Error(
+          `Failed to unwrap a data key with master key ${masterKeyId}`,
+          {
+            cause: error,
+          },
+        ),
+      )
+    }
+  }
+}
@@ -1,5 +1,9 @@
 export * from "./storage.strategy"
 export * from "./storage.service"
+export * from "./storage.migrator"
 export * from "../config/storage.config"
 export * from "./strategies/local.storage"
 export * from "./strategies/s3.storage"
+export * from "./strategies/memory.storage"
+export * from "./strategies/encrypted.storage"
+export * from "./encryption"
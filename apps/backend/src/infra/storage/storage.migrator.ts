@@ -0,0 +1,199 @@
+import { createHash } from "node:crypto"
+import { Result } from "@carbonteq/fp"
+import { DocumentRepository } from "@domain/document/document.repository"
+import type { StorageBackend } from "../config/storage.config"
+import type { IStorageStrategy } from "./storage.strategy"
+import {
+  markStoragePath,
+  parseStoragePath,
+  StorageError,
+} from "./storage.strategy"
+
+export interface StorageMigrationBackend {
+  backend: StorageBackend
+  strategy: IStorageStrategy
+}
+
+export interface StorageMigrationProgress {
+  total: number // Files left to migrate when the run started
+  migrated: number
+  failed: number
+  bytes: number // Copied so far
+  filePath?: string // The file that was just handled
+}
+
+export interface StorageMigrationReport extends StorageMigrationProgress {
+  failures: { filePath: string; error: string }[]
+}
+
+export interface StorageMigrationOptions {
+  bytesPerSecond?: number // Copy rate - unlimited without
+  limit?: number // Files to migrate in this run - all of them without
+  onProgress?: (progress: StorageMigrationProgress) => void
+}
+
+const sha256 = (file: Buffer) => createHash("sha256").update(file).digest("hex")
+
+/**
+ * Moves the files documents use from one backend to another while the application keeps running.
+ * Each file is copied to the same path on the target, read back and compared with the original,
+ * and only then are the documents, versions and renditions using it pointed at the marked path.
+ * The original stays where it was, so readers holding the old path keep working.
+ *
+ * Files already pointed at the target are skipped, so an interrupted migration resumes by running
+ * it again.
+ */
+export class StorageMigrator {
+  constructor(
+    private readonly documentRepository: DocumentRepository,
+    private readonly from: StorageMigrationBackend,
+    private readonly to: StorageMigrationBackend,
+  ) {
+    if (from.backend === to.backend) {
+      throw new Error(
+        `Can't migrate files from the ${from.backend} backend to itself`,
+      )
+    }
+  }
+
+  /**
+   * The files still to migrate - unmarked paths are taken to live on the source backend
+   */
+  async pending(): Promise<Result<string[], Error>> {
+    const referencesResult = await this.documentRepository.findFileReferences()
+    if (referencesResult.isErr()) {
+      return Result.Err(referencesResult.unwrapErr())
+    }
+
+    const filePaths = new Set(
+      referencesResult.unwrap().map((reference) => reference.filePath),
+    )
+    return Result.Ok(
+      [...filePaths].filter(
+        (filePath) =>
+          (parseStoragePath(filePath).backend ?? this.from.backend) ===
+          this.from.backend,
+      ),
+    )
+  }
+
+  async migrate(
+    options: StorageMigrationOptions = {},
+  ): Promise<Result<StorageMigrationReport, Error>> {
+    const pendingResult = await this.pending()
+    if (pendingResult.isErr()) {
+      return Result.Err(pendingResult.unwrapErr())
+    }
+
+    const filePaths = pendingResult.unwrap().slice(0, options.limit)
+    const report: StorageMigrationReport = {
+      total: filePaths.length,
+      migrated: 0,
+      failed: 0,
+      bytes: 0,
+      failures: [],
+    }
+    const startedAt = Date.now()
+
+    for (const filePath of filePaths) {
+      const migrateResult = await this.migrateFile(filePath)
+      if (migrateResult.isErr()) {
+        report.failed++
+        report.failures.push({
+          filePath,
+          error: migrateResult.unwrapErr().message,
+        })
+      } else {
+        report.migrated++
+        report.bytes += migrateResult.unwrap()
+      }
+      options.onProgress?.({
+        total: report.total,
+        migrated: report.migrated,
+        failed: report.failed,
+        bytes: report.bytes,
+        filePath,
+      })
+
+      // Wait until the average rate since the start is back under the limit
+      if (options.bytesPerSecond) {
+        const delay =
+          startedAt +
+          (report.bytes / options.bytesPerSecond) * 1000 -
+          Date.now()
+        if (delay > 0) {
+          await new Promise((resolve) => setTimeout(resolve, delay))
+        }
+      }
+    }
+
+    return Result.Ok(report)
+  }
+
+  // Returns the size of the copied file
+  private async migrateFile(
+    filePath: string,
+  ): Promise<Result<number, StorageError | Error>> {
+    const { path } = parseStoragePath(filePath)
+
+    const fileResult = await this.from.strategy.download(path)
+    if (fileResult.isErr()) {
+      return Result.Err(fileResult.unwrapErr())
+    }
+    const file = fileResult.unwrap()
+
+    // Local files don't record their type, so S3 objects written from them get one from the extension
+    const infoResult = await this.from.strategy.getFileInfo(path)
+    const mimeType = infoResult.isOk()
+      ? infoResult.unwrap().mimeType
+      : "application/octet-stream"
+
+    const putResult = await this.to.strategy.put(path, file, mimeType)
+    if (putResult.isErr()) {
+      return Result.Err(putResult.unwrapErr())
+    }
+
+    const copyResult = await this.to.strategy.download(path)
+    if (copyResult.isErr()) {
+      return Result.Err(
+        StorageError.migrationFailed(
+          filePath,
+          "the copy can't be read back",
+          copyResult.unwrapErr(),
+        ),
+      )
+    }
+    const copy = copyResult.unwrap()
+    if (copy.length !== file.length) {
+      return Result.Err(
+        StorageError.migrationFailed(
+          filePath,
+          `the copy has ${copy.length} of ${file.length} bytes`,
+        ),
+      )
+    }
+    if (sha256(copy) !== sha256(file)) {
+      return Result.Err(
+        StorageError.migrationFailed(
+          filePath,
+          "the checksum of the copy doesn't match",
+        ),
+      )
+    }
+
+    const relocateResult = await this.documentRepository.relocateFile(
+      filePath,
+      markStoragePath(this.to.backend, path),
+    )
+    if (relocateResult.isErr()) {
+      return Result.Err(relocateResult.unwrapErr())
+    }
+
+    // Deleted while it was copied - the copy would only be an orphan
+    if (relocateResult.unwrap() === 0) {
+      await this.to.strategy.delete(path)
+    }
+
+    return Result.Ok(file.length)
+  }
+}
@@ -1,61 +1,240 @@
 import { inject, injectable } from "tsyringe"
 import { Result } from "@carbonteq/fp"
 import { CircuitBreaker, Retry } from "@domain/resilience"
-import { StorageError } from "./storage.strategy"
-import type { IStorageStrategy, FileInfo } from "./storage.strategy"
+import { QUARANTINE_PREFIX, StorageError, markStoragePath, parseStoragePath } from "./storage.strategy"
+import type {
+  IStorageStrategy,
+  FileInfo,
+  ByteRange,
+  AssembledFile,
+  StoredObject,
+  PresignedUpload,
+  PresignedDownloadOptions,
+} from "./storage.strategy"
 import { LocalStorageStrategy } from "./strategies/local.storage"
 import { S3StorageStrategy } from "./strategies/s3.storage"
-import storageConfig from "../config/storage.config"
+import { InMemoryStorageStrategy } from "./strategies/memory.storage"
+import { EncryptedStorageStrategy } from "./strategies/encrypted.storage"
+import { MasterKeyring } from "./encryption/master-keyring"
+import { resolveFileKeyStore } from "./encryption/file-key.store"
+import storageConfig, { type StorageBackend } from "../config/storage.config"
+
+interface ResolvedPath {
+  backend: StorageBackend
+  strategy: IStorageStrategy
+  path: string
+  marked: boolean
+}
 
 @injectable()
 export class StorageService {
+  private readonly backend: StorageBackend
   private readonly strategy: IStorageStrategy
+  // The backend files move away from during a migration, read from until they all moved
+  private readonly migrationSource?: { backend: StorageBackend; strategy: IStorageStrategy }
   private readonly circuitBreaker: CircuitBreaker
   private readonly retry: Retry
 
   constructor() {
-    this.strategy = this.createStrategy()
+    this.backend = storageConfig.backend
+    this.strategy = StorageService.encrypted(StorageService.createStrategy(this.backend))
+
+    const source = storageConfig.migration.source
+    if (source === this.backend) {
+      throw new Error("STORAGE_MIGRATION_SOURCE must differ from STORAGE_BACKEND")
+    }
+    if (source) {
+      this.migrationSource = {
+        backend: source,
+        strategy: StorageService.encrypted(StorageService.createStrategy(source)),
+      }
+    }
+
     this.circuitBreaker = new CircuitBreaker()
     this.retry = new Retry()
   }
 
+  static createStrategy(backend: StorageBackend): IStorageStrategy {
+    switch (backend) {
+      case "s3":
+        return new S3StorageStrategy()
+      case "memory":
+        return new InMemoryStorageStrategy()
+      case "local":
+      default:
+        return new LocalStorageStrategy(storageConfig.path)
+    }
+  }
+
+  /**
+   * Encrypts what the strategy stores while a master key is configured. Migrations copy files
+   * between the plain strategies, so the encrypted bytes and their data keys carry over as they are
+   */
+  static encrypted(strategy: IStorageStrategy): IStorageStrategy {
+    const { key, previousKeys } = storageConfig.encryption
+    if (!key) {
+      return strategy
+    }
+    return new EncryptedStorageStrategy(strategy, new MasterKeyring(key, previousKeys), resolveFileKeyStore())
+  }
+
   async upload(file: Buffer, name: string, mimeType: string): Promise<Result<string, StorageError>> {
-    return await this.retry.retryWithResult(async () => {
+    const result = await this.retry.retryWithResult(async () => {
       return await this.strategy.upload(file, name, mimeType)
     })
+    return result.map(path => this.writtenPath(path))
+  }
+
+  // Not retried - the stream can only be read once
+  async uploadStream(stream: ReadableStream<Uint8Array>, name: string, mimeType: string): Promise<Result<string, StorageError>> {
+    const result = await this.strategy.uploadStream(stream, name, mimeType)
+    return result.map(path => this.writtenPath(path))
   }
 
   async download(filePath: string): Promise<Result<Buffer, StorageError>> {
-    return await this.retry.retryWithResult(async () => {
-      return await this.strategy.download(filePath)
-    })
+    return await this.onBackendOf(filePath, (strategy, path) => strategy.download(path))
+  }
+
+  // Retries only cover opening the stream; a stream that fails midway errors for the caller
+  async createReadStream(filePath: string, range?: ByteRange): Promise<Result<ReadableStream<Uint8Array>, StorageError>> {
+    return await this.onBackendOf(filePath, (strategy, path) => strategy.createReadStream(path, range))
   }
 
   async delete(filePath: string): Promise<Result<boolean, StorageError>> {
-    return await this.retry.retryWithResult(async () => {
-      return await this.strategy.delete(filePath)
-    })
+    return await this.onBackendOf(filePath, (strategy, path) => strategy.delete(path))
   }
 
   async exists(filePath: string): Promise<Result<boolean, StorageError>> {
+    return await this.onBackendOf(filePath, (strategy, path) => strategy.exists(path))
+  }
+
+  async getFileInfo(filePath: string): Promise<Result<FileInfo, StorageError>> {
+    return await this.onBackendOf(filePath, (strategy, path) => strategy.getFileInfo(path))
+  }
+
+  // Lists the files of STORAGE_BACKEND, with their paths as they were written
+  async list(prefix: string): Promise<Result<StoredObject[], StorageError>> {
+    const result = await this.retry.retryWithResult(async () => {
+      return await this.strategy.list(prefix)
+    })
+    return result.map(objects => objects.map(object => ({ ...object, path: this.writtenPath(object.path) })))
+  }
+
+  async stageChunk(uploadId: string, offset: number, chunk: Buffer): Promise<Result<void, StorageError>> {
     return await this.retry.retryWithResult(async () => {
-      return await this.strategy.exists(filePath)
+      return await this.strategy.stageChunk(uploadId, offset, chunk)
     })
   }
 
-  async getFileInfo(filePath: string): Promise<Result<FileInfo, StorageError>> {
+  async assembleChunks(uploadId: string, name: string, mimeType: string): Promise<Result<AssembledFile, StorageError>> {
+    const result = await this.retry.retryWithResult(async () => {
+      return await this.strategy.assembleChunks(uploadId, name, mimeType)
+    })
+    return result.map(assembled => ({ ...assembled, filePath: this.writtenPath(assembled.filePath) }))
+  }
+
+  async discardChunks(uploadId: string): Promise<Result<boolean, StorageError>> {
     return await this.retry.retryWithResult(async () => {
-      return await this.strategy.getFileInfo(filePath)
+      return await this.strategy.discardChunks(uploadId)
     })
   }
 
-  private createStrategy(): IStorageStrategy {
-    switch (storageConfig.backend) {
-      case "s3":
-        return new S3StorageStrategy()
-      case "local":
-      default:
-        return new LocalStorageStrategy(storageConfig.path)
+  // The file stays on its backend, and its new path keeps the marker of the old one
+  async quarantine(filePath: string): Promise<Result<string, StorageError>> {
+    const resolved = this.resolve(filePath)
+    if (resolved.isErr()) {
+      return Result.Err(resolved.unwrapErr())
     }
+
+    const { backend, strategy, path, marked } = resolved.unwrap()
+    const result = await this.retry.retryWithResult(async () => {
+      return await strategy.quarantine(path)
+    })
+    return result.map(quarantined => (marked ? markStoragePath(backend, quarantined) : quarantined))
+  }
+
+  /**
+   * A URL the client uploads a new file to on its own, while S3_PRESIGNED_URLS is set and
+   * STORAGE_BACKEND can issue one. Files uploaded this way were never seen by the server
+   */
+  async createUploadUrl(
+    name: string,
+    mimeType: string,
+    size: number,
+    expiresInSeconds: number,
+  ): Promise<Result<PresignedUpload, StorageError>> {
+    if (!storageConfig.s3.presignedUrls) {
+      return Result.Err(StorageError.presignUnavailable("S3_PRESIGNED_URLS is not set"))
+    }
+
+    const result = await this.strategy.createUploadUrl(name, mimeType, size, expiresInSeconds)
+    if (result.isErr()) {
+      return Result.Err(result.unwrapErr())
+    }
+
+    const upload = result.unwrap()
+    if (!upload) {
+      return Result.Err(StorageError.presignUnavailable(`${this.backend} storage can't accept direct uploads`))
+    }
+    return Result.Ok({ ...upload, filePath: this.writtenPath(upload.filePath) })
+  }
+
+  // Resolves to undefined when the file has to be served through the server instead
+  async createDownloadUrl(filePath: string, options: PresignedDownloadOptions): Promise<Result<string | undefined, StorageError>> {
+    if (!storageConfig.s3.presignedUrls) {
+      return Result.Ok(undefined)
+    }
+    return await this.onBackendOf(filePath, (strategy, path) => strategy.createDownloadUrl(path, options))
+  }
+
+  isQuarantined(filePath: string): boolean {
+    return parseStoragePath(filePath).path.startsWith(`${QUARANTINE_PREFIX}/`)
+  }
+
+  /**
+   * The path with the backend it resolves to always spelled out, so paths written with and without
+   * a marker compare equal when they name the same file
+   */
+  canonicalPath(filePath: string): string {
+    const { backend, path } = parseStoragePath(filePath)
+    return markStoragePath(backend ?? this.unmarkedBackend, path)
+  }
+
+  // Unmarked paths were written before the migration that is under way, if any
+  private get unmarkedBackend(): StorageBackend {
+    return this.migrationSource?.backend ?? this.backend
+  }
+
+  // Paths are only marked while unmarked ones would point at another backend
+  private writtenPath(path: string): string {
+    return this.unmarkedBackend === this.backend ? path : markStoragePath(this.backend, path)
+  }
+
+  private resolve(filePath: string): Result<ResolvedPath, StorageError> {
+    const { backend = this.unmarkedBackend, path } = parseStoragePath(filePath)
+    const marked = path !== filePath
+
+    if (backend === this.backend) {
+      return Result.Ok({ backend, strategy: this.strategy, path, marked })
+    }
+    if (backend === this.migrationSource?.backend) {
+      return Result.Ok({ backend, strategy: this.migrationSource.strategy, path, marked })
+    }
+    return Result.Err(StorageError.backendUnavailable(filePath, backend))
+  }
+
+  private async onBackendOf<T>(
+    filePath: string,
+    operation: (strategy: IStorageStrategy, path: string) => Promise<Result<T, StorageError>>,
+  ): Promise<Result<T, StorageError>> {
+    const resolved = this.resolve(filePath)
+    if (resolved.isErr()) {
+      return Result.Err(resolved.unwrapErr())
+    }
+
+    const { strategy, path } = resolved.unwrap()
+    return await this.retry.retryWithResult(async () => {
+      return await operation(strategy, path)
+    })
   }
 }
@@ -1,5 +1,6 @@
 import { Result } from "@carbonteq/fp"
 import { AppError } from "@domain/utils/base.errors"
+import { StorageBackends, type StorageBackend } from "../config/storage.config"
 
 export class StorageError extends AppError {
   readonly code: string = "STORAGE_ERROR"
@@ -27,8 +28,64 @@ export class StorageError extends AppError {
   static deleteFailed(filePath: string, cause?: unknown): StorageError {
     return new StorageError(`Failed to delete file: ${filePath}`, { filePath }, cause)
   }
+
+  static chunkFailed(uploadId: string, offset: number, cause?: unknown): StorageError {
+    return new StorageError(`Failed to stage chunk at offset ${offset} of upload: ${uploadId}`, { uploadId, offset }, cause)
+  }
+
+  static assemblyFailed(uploadId: string, cause?: unknown): StorageError {
+    return new StorageError(`Failed to assemble upload: ${uploadId}`, { uploadId }, cause)
+  }
+
+  static quarantineFailed(filePath: string, cause?: unknown): StorageError {
+    return new StorageError(`Failed to quarantine file: ${filePath}`, { filePath }, cause)
+  }
+
+  static listFailed(prefix: string, cause?: unknown): StorageError {
+    return new StorageError(`Failed to list files below: ${prefix || "/"}`, { prefix }, cause)
+  }
+
+  static backendUnavailable(filePath: string, backend: StorageBackend): StorageError {
+    return new StorageError(`File is stored on the ${backend} backend, which isn't configured: ${filePath}`, { filePath, backend })
+  }
+
+  static keyUnavailable(filePath: string, cause?: unknown): StorageError {
+    return new StorageError(`Failed to get the encryption key of file: ${filePath}`, { filePath }, cause)
+  }
+
+  static decryptionFailed(filePath: string, cause?: unknown): StorageError {
+    return new StorageError(`Failed to decrypt file: ${filePath}`, { filePath }, cause)
+  }
+
+  static presignUnavailable(reason: string): StorageError {
+    return new StorageError(`Presigned URLs are unavailable: ${reason}`, { reason })
+  }
+
+  static migrationFailed(filePath: string, reason: string, cause?: unknown): StorageError {
+    return new StorageError(`Failed to migrate file: ${filePath} (${reason})`, { filePath }, cause)
+  }
 }
 
+// Paths written while files migrate between backends name their backend, like
+// "s3:2025/01/31/report_1738281600000_ab12cd.pdf". Paths without a marker live on the backend files
+// were stored on before - the migration source while a migration runs, STORAGE_BACKEND otherwise.
+export interface StoragePath {
+  backend?: StorageBackend // Only set for marked paths
+  path: string // The path within the backend
+}
+
+const STORAGE_PATH_MARKER = new RegExp(`^(${StorageBackends.join("|")}):(.*)$`, "s")
+
+export const parseStoragePath = (filePath: string): StoragePath => {
+  const match = STORAGE_PATH_MARKER.exec(filePath)
+  return match ? { backend: match[1] as StorageBackend, path: match[2]! } : { path: filePath }
+}
+
+export const markStoragePath = (backend: StorageBackend, path: string): string => `${backend}:${path}`
+
+// Quarantined files keep their path below this prefix, so their paths tell them apart
+export const QUARANTINE_PREFIX = ".quarantine"
+
 export interface FileInfo {
   name: string
   path: string
@@ -37,10 +94,71 @@ export interface FileInfo {
   createdAt: Date
 }
 
+// Inclusive on both ends, like the byte positions of an HTTP Range header
+export interface ByteRange {
+  start: number
+  end: number
+}
+
+// A stored file as listings report it
+export interface StoredObject {
+  path: string
+  size: number
+  modifiedAt: Date
+}
+
+export interface AssembledFile {
+  filePath: string
+  contentHash: string // SHA-256 hex of the concatenated chunks
+}
+
+// Where and how a client uploads a file straight to the backend
+export interface PresignedUpload {
+  filePath: string // Where the file will be stored
+  url: string
+  headers: Record<string, string> // Must be sent with the upload exactly as given
+  expiresAt: Date
+}
+
+export interface PresignedDownloadOptions {
+  fileName: string
+  mimeType: string
+  expiresInSeconds: number
+}
+
 export interface IStorageStrategy {
   upload(file: Buffer, name: string, mimeType: string): Promise<Result<string, StorageError>>
+  // Like upload, for files too large to hold in memory at once
+  uploadStream(stream: ReadableStream<Uint8Array>, name: string, mimeType: string): Promise<Result<string, StorageError>>
   download(filePath: string): Promise<Result<Buffer, StorageError>>
+  // Streams the file (or only the given range of it) without buffering it in memory
+  createReadStream(filePath: string, range?: ByteRange): Promise<Result<ReadableStream<Uint8Array>, StorageError>>
   delete(filePath: string): Promise<Result<boolean, StorageError>>
   exists(filePath: string): Promise<Result<boolean, StorageError>>
   getFileInfo(filePath: string): Promise<Result<FileInfo, StorageError>>
+  // Stores the file at exactly this path, replacing any file there - copies files between backends
+  put(filePath: string, file: Buffer, mimeType: string): Promise<Result<void, StorageError>>
+  // Every stored file whose path starts with the prefix ("" for all of them), quarantined files
+  // included. Staged chunks aren't files yet and are left out
+  list(prefix: string): Promise<Result<StoredObject[], StorageError>>
+
+  // Resumable uploads: chunks are staged per upload (keyed by their byte offset) and
+  // concatenated into a regular file once complete. Assembling keeps the chunks, so a
+  // failed finalization can be retried - discard them once the document exists
+  stageChunk(uploadId: string, offset: number, chunk: Buffer): Promise<Result<void, StorageError>>
+  assembleChunks(uploadId: string, name: string, mimeType: string): Promise<Result<AssembledFile, StorageError>>
+  discardChunks(uploadId: string): Promise<Result<boolean, StorageError>>
+
+  // Move a file into the quarantine area (below QUARANTINE_PREFIX), returning its new path
+  quarantine(filePath: string): Promise<Result<string, StorageError>>
+
+  // Presigned URLs let clients transfer files to and from the backend directly. Both resolve to
+  // undefined where the backend can't issue them, or the server has to see the bytes itself
+  createUploadUrl(
+    name: string,
+    mimeType: string,
+    size: number,
+    expiresInSeconds: number,
+  ): Promise<Result<PresignedUpload | undefined, StorageError>>
+  createDownloadUrl(filePath: string, options: PresignedDownloadOptions): Promise<Result<string | undefined, StorageError>>
 }
@@ -0,0 +1,362 @@
+import { Result } from "@carbonteq/fp"
+import {
+  createDecryptStream,
+  createEncryptStream,
+  decryptFile,
+  encryptedRange,
+  encryptedSize,
+  encryptFile,
+  generateDataKey,
+  generateIv,
+} from "../encryption/file-cipher"
+import type { FileKeyStore, StoredFileKey } from "../encryption/file-key.store"
+import type { MasterKeyring } from "../encryption/master-keyring"
+import type {
+  AssembledFile,
+  ByteRange,
+  FileInfo,
+  IStorageStrategy,
+  PresignedDownloadOptions,
+  PresignedUpload,
+  StoredObject,
+} from "../storage.strategy"
+import { StorageError } from "../storage.strategy"
+
+interface FileEncryption {
+  dataKey: Buffer
+  iv: Buffer
+  size: number
+}
+
+/**
+ * Encrypts the files of another strategy at rest, each with its own data key (see file-cipher).
+ * Data keys are kept in the key store, wrapped with the master key. Files without a key were
+ * stored before encryption was enabled and are passed through as they are.
+ *
+ * Staged chunks of resumable uploads stay plaintext until they are assembled, and listings report
+ * the encrypted sizes.
+ */
+export class EncryptedStorageStrategy implements IStorageStrategy {
+  constructor(
+    private readonly inner: IStorageStrategy,
+    private readonly keyring: MasterKeyring,
+    private readonly keyStore: FileKeyStore,
+  ) {}
+
+  async upload(
+    file: Buffer,
+    name: string,
+    mimeType: string,
+  ): Promise<Result<string, StorageError>> {
+    const { encrypted, encryption } = this.encrypt(file)
+
+    const uploadResult = await this.inner.upload(encrypted, name, mimeType)
+    if (uploadResult.isErr()) {
+      return uploadResult
+    }
+
+    const filePath = uploadResult.unwrap()
+    const saveResult = await this.saveKey(filePath, encryption)
+    if (saveResult.isErr()) {
+      // Without its key the file could never be read again
+      await this.inner.delete(filePath)
+      return Result.Err(StorageError.uploadFailed(name, saveResult.unwrapErr()))
+    }
+
+    return Result.Ok(filePath)
+  }
+
+  async uploadStream(
+    stream: ReadableStream<Uint8Array>,
+    name: string,
+    mimeType: string,
+  ): Promise<Result<string, StorageError>> {
+    const dataKey = generateDataKey()
+    const iv = generateIv()
+    const encryption = createEncryptStream(dataKey, iv)
+
+    const uploadResult = await this.inner.uploadStream(
+      stream.pipeThrough(encryption.stream),
+      name,
+      mimeType,
+    )
+    if (uploadResult.isErr()) {
+      return uploadResult
+    }
+
+    const filePath = uploadResult.unwrap()
+    const saveResult = await this.saveKey(filePath, {
+      dataKey,
+      iv,
+      size: encryption.size(),
+    })
+    if (saveResult.isErr()) {
+      await this.inner.delete(filePath)
+      return Result.Err(StorageError.uploadFailed(name, saveResult.unwrapErr()))
+    }
+
+    return Result.Ok(filePath)
+  }
+
+  async put(
+    filePath: string,
+    file: Buffer,
+    mimeType: string,
+  ): Promise<Result<void, StorageError>> {
+    const { encrypted, encryption } = this.encrypt(file)
+
+    const putResult = await this.inner.put(filePath, encrypted, mimeType)
+    if (putResult.isErr()) {
+      return putResult
+    }
+
+    const saveResult = await this.saveKey(filePath, encryption)
+    if (saveResult.isErr()) {
+      return Result.Err(
+        StorageError.uploadFailed(filePath, saveResult.unwrapErr()),
+      )
+    }
+
+    return Result.Ok(undefined)
+  }
+
+  async download(filePath: string): Promise<Result<Buffer, StorageError>> {
+    const encryptionResult = await this.findEncryption(filePath)
+    if (encryptionResult.isErr()) {
+      return Result.Err(encryptionResult.unwrapErr())
+    }
+
+    const downloadResult = await this.inner.download(filePath)
+    const encryption = encryptionResult.unwrap()
+    if (downloadResult.isErr() || !encryption) {
+      return downloadResult
+    }
+
+    try {
+      return Result.Ok(
+        decryptFile(
+          downloadResult.unwrap(),
+          encryption.dataKey,
+          encryption.iv,
+          encryption.size,
+        ),
+      )
+    } catch (error) {
+      return Result.Err(StorageError.decryptionFailed(filePath, error))
+    }
+  }
+
+  // Ranges are served from the segments holding them, so only those are read and decrypted
+  async createReadStream(
+    filePath: string,
+    range?: ByteRange,
+  ): Promise<Result<ReadableStream<Uint8Array>, StorageError>> {
+    const encryptionResult = await this.findEncryption(filePath)
+    if (encryptionResult.isErr()) {
+      return Result.Err(encryptionResult.unwrapErr())
+    }
+
+    const encryption = encryptionResult.unwrap()
+    if (!encryption) {
+      return this.inner.createReadStream(filePath, range)
+    }
+
+    const { dataKey, iv, size } = encryption
+    const innerRange = range && encryptedRange(range).range
+    const streamResult = await this.inner.createReadStream(
+      filePath,
+      innerRange && {
+        start: innerRange.start,
+        end: Math.min(innerRange.end, encryptedSize(size) - 1),
+      },
+    )
+
+    return streamResult.map((stream) =>
+      stream.pipeThrough(createDecryptStream(dataKey, iv, size, range)),
+    )
+  }
+
+  async delete(filePath: string): Promise<Result<boolean, StorageError>> {
+    const deleteResult = await this.inner.delete(filePath)
+    if (deleteResult.isErr()) {
+      return deleteResult
+    }
+
+    // Kept until the file is gone, so a failed delete leaves it readable
+    const keyResult = await this.keyStore.delete(filePath)
+    if (keyResult.isErr()) {
+      return Result.Err(
+        StorageError.deleteFailed(filePath, keyResult.unwrapErr()),
+      )
+    }
+
+    return deleteResult
+  }
+
+  async exists(filePath: string): Promise<Result<boolean, StorageError>> {
+    return this.inner.exists(filePath)
+  }
+
+  async getFileInfo(filePath: string): Promise<Result<FileInfo, StorageError>> {
+    const keyResult = await this.keyStore.find(filePath)
+    if (keyResult.isErr()) {
+      return Result.Err(
+        StorageError.keyUnavailable(filePath, keyResult.unwrapErr()),
+      )
+    }
+
+    const key = keyResult.unwrap()
+    const infoResult = await this.inner.getFileInfo(filePath)
+    return infoResult.map((info) => (key ? { ...info, size: key.size } : info))
+  }
+
+  async list(prefix: string): Promise<Result<StoredObject[], StorageError>> {
+    return this.inner.list(prefix)
+  }
+
+  async stageChunk(
+    uploadId: string,
+    offset: number,
+    chunk: Buffer,
+  ): Promise<Result<void, StorageError>> {
+    return this.inner.stageChunk(uploadId, offset, chunk)
+  }
+
+  // The chunks are assembled as they are, then the file is encrypted in place
+  async assembleChunks(
+    uploadId: string,
+    name: string,
+    mimeType: string,
+  ): Promise<Result<AssembledFile, StorageError>> {
+    const assembleResult = await this.inner.assembleChunks(
+      uploadId,
+      name,
+      mimeType,
+    )
+    if (assembleResult.isErr()) {
+      return assembleResult
+    }
+
+    const assembled = assembleResult.unwrap()
+    const fileResult = await this.inner.download(assembled.filePath)
+    const putResult = fileResult.isOk()
+      ? await this.put(assembled.filePath, fileResult.unwrap(), mimeType)
+      : Result.Err(fileResult.unwrapErr())
+    if (putResult.isErr()) {
+      await this.inner.delete(assembled.filePath)
+      return Result.Err(
+        StorageError.assemblyFailed(uploadId, putResult.unwrapErr()),
+      )
+    }
+
+    return Result.Ok(assembled)
+  }
+
+  async discardChunks(
+    uploadId: string,
+  ): Promise<Result<boolean, StorageError>> {
+    return this.inner.discardChunks(uploadId)
+  }
+
+  async quarantine(filePath: string): Promise<Result<string, StorageError>> {
+    const quarantineResult = await this.inner.quarantine(filePath)
+    if (quarantineResult.isErr()) {
+      return quarantineResult
+    }
+
+    // The file is quarantined either way - unreadable is no worse for an infected file
+    const quarantinedPath = quarantineResult.unwrap()
+    const moveResult = await this.keyStore.move(filePath, quarantinedPath)
+    if (moveResult.isErr()) {
+      console.error(
+        `Failed to move the key of quarantined file ${filePath}:`,
+        moveResult.unwrapErr(),
+      )
+    }
+
+    return Result.Ok(quarantinedPath)
+  }
+
+  // Uploads have to pass through the server to be encrypted
+  async createUploadUrl(
+    _name: string,
+    _mimeType: string,
+    _size: number,
+    _expiresInSeconds: number,
+  ): Promise<Result<PresignedUpload | undefined, StorageError>> {
+    return Result.Ok(undefined)
+  }
+
+  // Only files stored before encryption was enabled can be downloaded without decrypting them
+  async createDownloadUrl(
+    filePath: string,
+    options: PresignedDownloadOptions,
+  ): Promise<Result<string | undefined, StorageError>> {
+    const keyResult = await this.keyStore.find(filePath)
+    if (keyResult.isErr()) {
+      return Result.Err(
+        StorageError.keyUnavailable(filePath, keyResult.unwrapErr()),
+      )
+    }
+    if (keyResult.unwrap()) {
+      return Result.Ok(undefined)
+    }
+
+    return this.inner.createDownloadUrl(filePath, options)
+  }
+
+  private encrypt(file: Buffer): {
+    encrypted: Buffer
+    encryption: FileEncryption
+  } {
+    const dataKey = generateDataKey()
+    const iv = generateIv()
+    return {
+      encrypted: encryptFile(file, dataKey, iv),
+      encryption: { dataKey, iv, size: file.length },
+    }
+  }
+
+  private async saveKey(
+    filePath: string,
+    { dataKey, iv, size }: FileEncryption,
+  ): Promise<Result<void, Error>> {
+    const key: StoredFileKey = {
+      filePath,
+      ...this.keyring.wrap(dataKey),
+      iv: iv.toString("base64"),
+      size,
+    }
+    return this.keyStore.save(key)
+  }
+
+  // Undefined for files stored before encryption was enabled
+  private async findEncryption(
+    filePath: string,
+  ): Promise<Result<FileEncryption | undefined, StorageError>> {
+    const keyResult = await this.keyStore.find(filePath)
+    if (keyResult.isErr()) {
+      return Result.Err(
+        StorageError.keyUnavailable(filePath, keyResult.unwrapErr()),
+      )
+    }
+
+    const key = keyResult.unwrap()
+    if (!key) {
+      return Result.Ok(undefined)
+    }
+
+    const dataKeyResult = this.keyring.unwrap(key)
+    if (dataKeyResult.isErr()) {
+      return Result.Err(
+        StorageError.keyUnavailable(filePath, dataKeyResult.unwrapErr()),
+      )
+    }
+
+    return Result.Ok({
+      dataKey: dataKeyResult.unwrap(),
+      iv: Buffer.from(key.iv, "base64"),
+      size: key.size,
+    })
+  }
+}
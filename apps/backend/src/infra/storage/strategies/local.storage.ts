@@ -1,9 +1,24 @@
-import { promises as fs, existsSync } from "fs"
-import { join, dirname, basename, extname } from "path"
+import { promises as fs, existsSync, createReadStream, createWriteStream } from "node:fs"
+import { join, dirname, basename, extname, relative, sep } from "node:path"
+import { createHash } from "node:crypto"
+import { Readable } from "node:stream"
+import { pipeline } from "node:stream/promises"
 import { injectable } from "tsyringe"
 import { Result } from "@carbonteq/fp"
-import { StorageError } from "../storage.strategy"
-import type { IStorageStrategy, FileInfo } from "../storage.strategy"
+import { QUARANTINE_PREFIX, StorageError } from "../storage.strategy"
+import type {
+  IStorageStrategy,
+  FileInfo,
+  ByteRange,
+  AssembledFile,
+  StoredObject,
+  PresignedUpload,
+  PresignedDownloadOptions,
+} from "../storage.strategy"
+
+// Staged chunks of resumable uploads live next to the uploaded files
+const CHUNK_DIRECTORY = ".chunks"
+
 @injectable()
 export class LocalStorageStrategy implements IStorageStrategy {
   constructor(private readonly basePath: string = "./uploads") {
@@ -24,6 +39,21 @@ export class LocalStorageStrategy implements IStorageStrategy {
     }
   }
 
+  async uploadStream(stream: ReadableStream<Uint8Array>, name: string, mimeType: string): Promise<Result<string, StorageError>> {
+    const filePath = this.buildFilePath(name)
+    const fullPath = join(this.basePath, filePath)
+
+    try {
+      await this.ensureDirectory(dirname(fullPath))
+      await pipeline(Readable.fromWeb(stream), createWriteStream(fullPath))
+
+      return Result.Ok(filePath)
+    } catch (error) {
+      await fs.rm(fullPath, { force: true }).catch(() => undefined)
+      return Result.Err(StorageError.uploadFailed(name, error))
+    }
+  }
+
   async download(filePath: string): Promise<Result<Buffer, StorageError>> {
     try {
       const fullPath = join(this.basePath, filePath)
@@ -39,6 +69,21 @@ export class LocalStorageStrategy implements IStorageStrategy {
     }
   }
 
+  async createReadStream(filePath: string, range?: ByteRange): Promise<Result<ReadableStream<Uint8Array>, StorageError>> {
+    try {
+      const fullPath = join(this.basePath, filePath)
+
+      if (!existsSync(fullPath)) {
+        return Result.Err(StorageError.fileNotFound(filePath))
+      }
+
+      const stream = createReadStream(fullPath, range && { start: range.start, end: range.end })
+      return Result.Ok(Readable.toWeb(stream) as ReadableStream<Uint8Array>)
+    } catch (error) {
+      return Result.Err(StorageError.downloadFailed(filePath, error instanceof Error ? error : undefined))
+    }
+  }
+
   async delete(filePath: string): Promise<Result<boolean, StorageError>> {
     try {
       const fullPath = join(this.basePath, filePath)
@@ -86,6 +131,155 @@ export class LocalStorageStrategy implements IStorageStrategy {
     }
   }
 
+  async put(filePath: string, file: Buffer, mimeType: string): Promise<Result<void, StorageError>> {
+    try {
+      const fullPath = join(this.basePath, filePath)
+
+      await this.ensureDirectory(dirname(fullPath))
+      await fs.writeFile(fullPath, file)
+
+      return Result.Ok(undefined)
+    } catch (error) {
+      return Result.Err(StorageError.uploadFailed(filePath, error))
+    }
+  }
+
+  async list(prefix: string): Promise<Result<StoredObject[], StorageError>> {
+    try {
+      if (!existsSync(this.basePath)) {
+        return Result.Ok([])
+      }
+
+      const objects: StoredObject[] = []
+      const entries = await fs.readdir(this.basePath, { recursive: true, withFileTypes: true })
+
+      for (const entry of entries) {
+        if (!entry.isFile()) continue
+
+        // Stored paths use forward slashes whatever the platform
+        const fullPath = join(entry.parentPath, entry.name)
+        const filePath = relative(this.basePath, fullPath).split(sep).join("/")
+        if (filePath.startsWith(`${CHUNK_DIRECTORY}/`) || !filePath.startsWith(prefix)) continue
+
+        const stats = await fs.stat(fullPath)
+        objects.push({ path: filePath, size: stats.size, modifiedAt: stats.mtime })
+      }
+
+      return Result.Ok(objects.sort((a, b) => a.path.localeCompare(b.path)))
+    } catch (error) {
+      return Result.Err(StorageError.listFailed(prefix, error))
+    }
+  }
+
+  async stageChunk(uploadId: string, offset: number, chunk: Buffer): Promise<Result<void, StorageError>> {
+    try {
+      const chunkDir = this.buildChunkDirectory(uploadId)
+
+      await this.ensureDirectory(chunkDir)
+      // Re-sending the chunk at the same offset simply overwrites it
+      await fs.writeFile(join(chunkDir, this.buildChunkName(offset)), chunk)
+
+      return Result.Ok(undefined)
+    } catch (error) {
+      return Result.Err(StorageError.chunkFailed(uploadId, offset, error))
+    }
+  }
+
+  async assembleChunks(uploadId: string, name: string, mimeType: string): Promise<Result<AssembledFile, StorageError>> {
+    const filePath = this.buildFilePath(name)
+    const fullPath = join(this.basePath, filePath)
+
+    try {
+      const chunkDir = this.buildChunkDirectory(uploadId)
+      const chunkNames = existsSync(chunkDir) ? (await fs.readdir(chunkDir)).sort() : []
+
+      if (chunkNames.length === 0) {
+        return Result.Err(StorageError.assemblyFailed(uploadId))
+      }
+
+      await this.ensureDirectory(dirname(fullPath))
+
+      // Append (and hash) one chunk at a time so the whole file never sits in memory
+      const hash = createHash("sha256")
+      const target = await fs.open(fullPath, "w")
+      try {
+        for (const chunkName of chunkNames) {
+          const chunk = await fs.readFile(join(chunkDir, chunkName))
+          hash.update(chunk)
+          await target.write(chunk)
+        }
+      } finally {
+        await target.close()
+      }
+
+      return Result.Ok({ filePath, contentHash: hash.digest("hex") })
+    } catch (error) {
+      await fs.rm(fullPath, { force: true }).catch(() => undefined)
+      return Result.Err(StorageError.assemblyFailed(uploadId, error))
+    }
+  }
+
+  async discardChunks(uploadId: string): Promise<Result<boolean, StorageError>> {
+    try {
+      const chunkDir = this.buildChunkDirectory(uploadId)
+
+      if (!existsSync(chunkDir)) {
+        return Result.Ok(false)
+      }
+
+      await fs.rm(chunkDir, { recursive: true, force: true })
+      return Result.Ok(true)
+    } catch (error) {
+      return Result.Err(StorageError.deleteFailed(this.buildChunkDirectory(uploadId), error))
+    }
+  }
+
+  async quarantine(filePath: string): Promise<Result<string, StorageError>> {
+    try {
+      const fullPath = join(this.basePath, filePath)
+
+      if (!existsSync(fullPath)) {
+        return Result.Err(StorageError.fileNotFound(filePath))
+      }
+
+      const quarantinePath = `${QUARANTINE_PREFIX}/${filePath}`
+      const fullQuarantinePath = join(this.basePath, quarantinePath)
+
+      await this.ensureDirectory(dirname(fullQuarantinePath))
+      await fs.rename(fullPath, fullQuarantinePath)
+
+      return Result.Ok(quarantinePath)
+    } catch (error) {
+      return Result.Err(StorageError.quarantineFailed(filePath, error))
+    }
+  }
+
+  // Files on disk are only ever reached through the server
+  async createUploadUrl(
+    _name: string,
+    _mimeType: string,
+    _size: number,
+    _expiresInSeconds: number,
+  ): Promise<Result<PresignedUpload | undefined, StorageError>> {
+    return Result.Ok(undefined)
+  }
+
+  async createDownloadUrl(
+    _filePath: string,
+    _options: PresignedDownloadOptions,
+  ): Promise<Result<string | undefined, StorageError>> {
+    return Result.Ok(undefined)
+  }
+
+  private buildChunkDirectory(uploadId: string): string {
+    return join(this.basePath, CHUNK_DIRECTORY, basename(uploadId))
+  }
+
+  // Zero-padded so that sorting the names orders the chunks by offset
+  private buildChunkName(offset: number): string {
+    return String(offset).padStart(16, "0")
+  }
+
   private buildFilePath(fileName: string): string {
     const timestamp = Date.now()
     const randomId = Math.random().toString(36).substr(2, 9)
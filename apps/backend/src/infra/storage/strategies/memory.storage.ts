@@ -0,0 +1,228 @@
+import { createHash } from "node:crypto"
+import { basename, extname } from "node:path"
+import { Result } from "@carbonteq/fp"
+import type {
+  AssembledFile,
+  ByteRange,
+  FileInfo,
+  IStorageStrategy,
+  PresignedDownloadOptions,
+  PresignedUpload,
+  StoredObject,
+} from "../storage.strategy"
+import { QUARANTINE_PREFIX, StorageError } from "../storage.strategy"
+
+interface StoredFile {
+  content: Buffer
+  mimeType: string
+  createdAt: Date
+}
+
+/**
+ * Keeps files in process memory, so the app runs without a disk or bucket to store them in. They
+ * are gone once the process exits - meant for demos and tests, not for anything worth keeping.
+ */
+export class InMemoryStorageStrategy implements IStorageStrategy {
+  private readonly files = new Map<string, StoredFile>()
+  // Staged chunks of resumable uploads, by upload and offset
+  private readonly chunks = new Map<string, Map<number, Buffer>>()
+
+  async upload(
+    file: Buffer,
+    name: string,
+    mimeType: string,
+  ): Promise<Result<string, StorageError>> {
+    const filePath = this.buildFilePath(name)
+    this.store(filePath, file, mimeType)
+    return Result.Ok(filePath)
+  }
+
+  async uploadStream(
+    stream: ReadableStream<Uint8Array>,
+    name: string,
+    mimeType: string,
+  ): Promise<Result<string, StorageError>> {
+    try {
+      const parts: Uint8Array[] = []
+      for await (const part of stream) {
+        parts.push(part)
+      }
+
+      return this.upload(Buffer.concat(parts), name, mimeType)
+    } catch (error) {
+      return Result.Err(StorageError.uploadFailed(name, error))
+    }
+  }
+
+  async download(filePath: string): Promise<Result<Buffer, StorageError>> {
+    const file = this.files.get(filePath)
+    if (!file) {
+      return Result.Err(StorageError.fileNotFound(filePath))
+    }
+
+    return Result.Ok(Buffer.from(file.content))
+  }
+
+  async createReadStream(
+    filePath: string,
+    range?: ByteRange,
+  ): Promise<Result<ReadableStream<Uint8Array>, StorageError>> {
+    const file = this.files.get(filePath)
+    if (!file) {
+      return Result.Err(StorageError.fileNotFound(filePath))
+    }
+
+    // Ranges running past the end are cut short, as they are on disk
+    const content = range
+      ? file.content.subarray(range.start, range.end + 1)
+      : file.content
+    return Result.Ok(
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          if (content.length > 0) {
+            controller.enqueue(new Uint8Array(content))
+          }
+          controller.close()
+        },
+      }),
+    )
+  }
+
+  async delete(filePath: string): Promise<Result<boolean, StorageError>> {
+    return Result.Ok(this.files.delete(filePath))
+  }
+
+  async exists(filePath: string): Promise<Result<boolean, StorageError>> {
+    return Result.Ok(this.files.has(filePath))
+  }
+
+  async getFileInfo(filePath: string): Promise<Result<FileInfo, StorageError>> {
+    const file = this.files.get(filePath)
+    if (!file) {
+      return Result.Err(StorageError.fileNotFound(filePath))
+    }
+
+    return Result.Ok({
+      name: basename(filePath),
+      path: filePath,
+      mimeType: file.mimeType,
+      size: file.content.length,
+      createdAt: file.createdAt,
+    })
+  }
+
+  async put(
+    filePath: string,
+    file: Buffer,
+    mimeType: string,
+  ): Promise<Result<void, StorageError>> {
+    this.store(filePath, file, mimeType)
+    return Result.Ok(undefined)
+  }
+
+  async list(prefix: string): Promise<Result<StoredObject[], StorageError>> {
+    const objects = [...this.files.entries()]
+      .filter(([filePath]) => filePath.startsWith(prefix))
+      .map(([filePath, file]) => ({
+        path: filePath,
+        size: file.content.length,
+        modifiedAt: file.createdAt,
+      }))
+
+    return Result.Ok(objects.sort((a, b) => a.path.localeCompare(b.path)))
+  }
+
+  async stageChunk(
+    uploadId: string,
+    offset: number,
+    chunk: Buffer,
+  ): Promise<Result<void, StorageError>> {
+    const staged = this.chunks.get(uploadId) ?? new Map<number, Buffer>()
+    // Re-sending the chunk at the same offset simply overwrites it
+    staged.set(offset, Buffer.from(chunk))
+    this.chunks.set(uploadId, staged)
+
+    return Result.Ok(undefined)
+  }
+
+  async assembleChunks(
+    uploadId: string,
+    name: string,
+    mimeType: string,
+  ): Promise<Result<AssembledFile, StorageError>> {
+    const staged = this.chunks.get(uploadId)
+    if (!staged || staged.size === 0) {
+      return Result.Err(StorageError.assemblyFailed(uploadId))
+    }
+
+    const content = Buffer.concat(
+      [...staged.entries()].sort(([a], [b]) => a - b).map(([, chunk]) => chunk),
+    )
+    const filePath = this.buildFilePath(name)
+    this.store(filePath, content, mimeType)
+
+    return Result.Ok({
+      filePath,
+      contentHash: createHash("sha256").update(content).digest("hex"),
+    })
+  }
+
+  async discardChunks(
+    uploadId: string,
+  ): Promise<Result<boolean, StorageError>> {
+    return Result.Ok(this.chunks.delete(uploadId))
+  }
+
+  async quarantine(filePath: string): Promise<Result<string, StorageError>> {
+    const file = this.files.get(filePath)
+    if (!file) {
+      return Result.Err(StorageError.fileNotFound(filePath))
+    }
+
+    const quarantinePath = `${QUARANTINE_PREFIX}/${filePath}`
+    this.files.set(quarantinePath, file)
+    this.files.delete(filePath)
+
+    return Result.Ok(quarantinePath)
+  }
+
+  // Files in memory are only ever reached through the server
+  async createUploadUrl(
+    _name: string,
+    _mimeType: string,
+    _size: number,
+    _expiresInSeconds: number,
+  ): Promise<Result<PresignedUpload | undefined, StorageError>> {
+    return Result.Ok(undefined)
+  }
+
+  async createDownloadUrl(
+    _filePath: string,
+    _options: PresignedDownloadOptions,
+  ): Promise<Result<string | undefined, StorageError>> {
+    return Result.Ok(undefined)
+  }
+
+  // Copied, so callers reusing their buffer can't change what was stored
+  private store(filePath: string, content: Buffer, mimeType: string): void {
+    this.files.set(filePath, {
+      content: Buffer.from(content),
+      mimeType,
+      createdAt: new Date(),
+    })
+  }
+
+  // Laid out like the paths of the local strategy, so files can migrate between the two
+  private buildFilePath(fileName: string): string {
+    const extension = extname(fileName)
+    const baseName = basename(fileName, extension)
+    const randomId = Math.random().toString(36).slice(2, 11)
+
+    const date = new Date()
+    const year = date.getFullYear()
+    const month = String(date.getMonth() + 1).padStart(2, "0")
+    const day = String(date.getDate()).padStart(2, "0")
+
+    return `${year}/${month}/${day}/${baseName}_${Date.now()}_${randomId}${extension}`
+  }
+}
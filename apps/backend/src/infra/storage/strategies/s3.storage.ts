@@ -1,25 +1,92 @@
-import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, HeadObjectCommand } from "@aws-sdk/client-s3"
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  DeleteObjectsCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  CopyObjectCommand,
+} from "@aws-sdk/client-s3"
+import { SignatureV4 } from "@smithy/signature-v4"
+import { createHash } from "node:crypto"
 import { injectable } from "tsyringe"
 import { Result } from "@carbonteq/fp"
-import { StorageError } from "../storage.strategy"
-import type { IStorageStrategy, FileInfo } from "../storage.strategy"
+import { QUARANTINE_PREFIX, StorageError } from "../storage.strategy"
+import type {
+  IStorageStrategy,
+  FileInfo,
+  ByteRange,
+  AssembledFile,
+  StoredObject,
+  PresignedUpload,
+  PresignedDownloadOptions,
+} from "../storage.strategy"
 import storageConfig from "../../config/storage.config"
 
+export type S3StorageOptions = Pick<
+  typeof storageConfig.s3,
+  "bucketName" | "region" | "accessKeyId" | "secretAccessKey" | "endpoint"
+>
+
+// Staged chunks of resumable uploads live under their own prefix
+const CHUNK_PREFIX = ".chunks"
+
+// S3 rejects multipart parts below 5 MiB (except the last one), so small chunks are merged
+const MIN_PART_SIZE = 5 * 1024 * 1024
+
+// Files larger than one part are uploaded in parts, so neither memory nor S3's limit for single
+// uploads (5 GiB) caps their size
+const PART_SIZE = 8 * 1024 * 1024
+
+// Presigned URLs leave the payload unsigned - its length and type are signed as headers instead
+const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD"
+
+// Percent-encodes everything but the unreserved characters, as Signature V4 does
+const escapeUri = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+
+// Splits a file into upload parts as it is read, holding at most one part in memory
+async function* readParts(source: Buffer | ReadableStream<Uint8Array>): AsyncGenerator<Buffer> {
+  if (Buffer.isBuffer(source)) {
+    for (let offset = 0; offset < source.length; offset += PART_SIZE) {
+      yield source.subarray(offset, offset + PART_SIZE)
+    }
+    return
+  }
+
+  let pending = Buffer.alloc(0)
+  for await (const chunk of source) {
+    pending = Buffer.concat([pending, chunk])
+    while (pending.length >= PART_SIZE) {
+      yield pending.subarray(0, PART_SIZE)
+      pending = pending.subarray(PART_SIZE)
+    }
+  }
+  if (pending.length > 0) {
+    yield pending
+  }
+}
+
 @injectable()
 export class S3StorageStrategy implements IStorageStrategy {
   private readonly s3Client: S3Client
   private readonly bucketName: string
+  private readonly signer: SignatureV4
 
-  constructor() {
-    const { s3 } = storageConfig
-    
+  // The client can be swapped for tests, e.g. one pointed at a local S3 stand-in
+  constructor(private readonly s3: S3StorageOptions = storageConfig.s3, client?: S3Client) {
     if (!s3.bucketName) {
       throw new Error("S3 configuration is incomplete. Please set S3_BUCKET_NAME")
     }
 
     this.bucketName = s3.bucketName
 
-    this.s3Client = new S3Client({
+    this.s3Client = client ?? new S3Client({
       region: s3.region,
       // AWS SDK will automatically use AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_DEFAULT_REGION
       // from environment variables if credentials are not explicitly provided
@@ -34,27 +101,39 @@ export class S3StorageStrategy implements IStorageStrategy {
         forcePathStyle: true, // Required for LocalStack
       }),
     })
+
+    // The signer the client signs its requests with, for URLs that are sent by others
+    this.signer = new SignatureV4({
+      service: "s3",
+      region: s3.region,
+      credentials: this.s3Client.config.credentials,
+      sha256: this.s3Client.config.sha256,
+      uriEscapePath: false, // S3 signs paths as they are sent
+    })
   }
 
   async upload(file: Buffer, name: string, mimeType: string): Promise<Result<string, StorageError>> {
     try {
       const filePath = this.buildFilePath(name)
 
-      const command = new PutObjectCommand({
-        Bucket: this.bucketName,
-        Key: filePath,
-        Body: file,
-        ContentType: mimeType,
-        ContentLength: file.length,
-      })
-
-      await this.s3Client.send(command)
+      await this.putObject(filePath, file, mimeType)
       return Result.Ok(filePath)
     } catch (error) {
       return Result.Err(StorageError.uploadFailed(name, error instanceof Error ? error : undefined))
     }
   }
 
+  async uploadStream(stream: ReadableStream<Uint8Array>, name: string, mimeType: string): Promise<Result<string, StorageError>> {
+    try {
+      const filePath = this.buildFilePath(name)
+
+      await this.putObject(filePath, stream, mimeType)
+      return Result.Ok(filePath)
+    } catch (error) {
+      return Result.Err(StorageError.uploadFailed(name, error))
+    }
+  }
+
   async download(filePath: string): Promise<Result<Buffer, StorageError>> {
     try {
       const command = new GetObjectCommand({
@@ -82,6 +161,29 @@ export class S3StorageStrategy implements IStorageStrategy {
     }
   }
 
+  async createReadStream(filePath: string, range?: ByteRange): Promise<Result<ReadableStream<Uint8Array>, StorageError>> {
+    try {
+      const command = new GetObjectCommand({
+        Bucket: this.bucketName,
+        Key: filePath,
+        ...(range && { Range: `bytes=${range.start}-${range.end}` }),
+      })
+
+      const response = await this.s3Client.send(command)
+
+      if (!response.Body) {
+        return Result.Err(StorageError.fileNotFound(filePath))
+      }
+
+      return Result.Ok(response.Body.transformToWebStream() as ReadableStream<Uint8Array>)
+    } catch (error) {
+      if (error instanceof Error && error.name === "NoSuchKey") {
+        return Result.Err(StorageError.fileNotFound(filePath))
+      }
+      return Result.Err(StorageError.downloadFailed(filePath, error instanceof Error ? error : undefined))
+    }
+  }
+
   async delete(filePath: string): Promise<Result<boolean, StorageError>> {
     try {
       const command = new DeleteObjectCommand({
@@ -138,6 +240,341 @@ export class S3StorageStrategy implements IStorageStrategy {
     }
   }
 
+  async put(filePath: string, file: Buffer, mimeType: string): Promise<Result<void, StorageError>> {
+    try {
+      await this.putObject(filePath, file, mimeType)
+      return Result.Ok(undefined)
+    } catch (error) {
+      return Result.Err(StorageError.uploadFailed(filePath, error))
+    }
+  }
+
+  async list(prefix: string): Promise<Result<StoredObject[], StorageError>> {
+    try {
+      const objects: StoredObject[] = []
+      let continuationToken: string | undefined
+
+      do {
+        const response = await this.s3Client.send(new ListObjectsV2Command({
+          Bucket: this.bucketName,
+          Prefix: prefix || undefined,
+          ContinuationToken: continuationToken,
+        }))
+
+        for (const object of response.Contents ?? []) {
+          if (!object.Key || object.Key.startsWith(`${CHUNK_PREFIX}/`)) continue
+          objects.push({
+            path: object.Key,
+            size: object.Size ?? 0,
+            modifiedAt: object.LastModified ?? new Date(0),
+          })
+        }
+        continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined
+      } while (continuationToken)
+
+      // Listings come back in key order already
+      return Result.Ok(objects)
+    } catch (error) {
+      return Result.Err(StorageError.listFailed(prefix, error))
+    }
+  }
+
+  async stageChunk(uploadId: string, offset: number, chunk: Buffer): Promise<Result<void, StorageError>> {
+    try {
+      // Re-sending the chunk at the same offset simply overwrites it
+      const command = new PutObjectCommand({
+        Bucket: this.bucketName,
+        Key: `${this.buildChunkPrefix(uploadId)}${this.buildChunkName(offset)}`,
+        Body: chunk,
+        ContentLength: chunk.length,
+      })
+
+      await this.s3Client.send(command)
+      return Result.Ok(undefined)
+    } catch (error) {
+      return Result.Err(StorageError.chunkFailed(uploadId, offset, error))
+    }
+  }
+
+  async assembleChunks(uploadId: string, name: string, mimeType: string): Promise<Result<AssembledFile, StorageError>> {
+    const filePath = this.buildFilePath(name)
+    let multipartUploadId: string | undefined
+
+    try {
+      const chunkKeys = await this.listChunkKeys(uploadId)
+      if (chunkKeys.length === 0) {
+        return Result.Err(StorageError.assemblyFailed(uploadId))
+      }
+
+      const multipart = await this.s3Client.send(new CreateMultipartUploadCommand({
+        Bucket: this.bucketName,
+        Key: filePath,
+        ContentType: mimeType,
+      }))
+      multipartUploadId = multipart.UploadId
+
+      const hash = createHash("sha256")
+      const parts: { ETag?: string; PartNumber: number }[] = []
+      let pending: Buffer[] = []
+      let pendingSize = 0
+
+      const flush = async () => {
+        const partNumber = parts.length + 1
+        const body = Buffer.concat(pending)
+        const response = await this.s3Client.send(new UploadPartCommand({
+          Bucket: this.bucketName,
+          Key: filePath,
+          UploadId: multipartUploadId,
+          PartNumber: partNumber,
+          Body: body,
+          ContentLength: body.length,
+        }))
+        parts.push({ ETag: response.ETag, PartNumber: partNumber })
+        pending = []
+        pendingSize = 0
+      }
+
+      for (const key of chunkKeys) {
+        const chunk = await this.download(key)
+        if (chunk.isErr()) {
+          throw chunk.unwrapErr()
+        }
+
+        hash.update(chunk.unwrap())
+        pending.push(chunk.unwrap())
+        pendingSize += chunk.unwrap().length
+        if (pendingSize >= MIN_PART_SIZE) {
+          await flush()
+        }
+      }
+      if (pendingSize > 0) {
+        await flush()
+      }
+
+      await this.s3Client.send(new CompleteMultipartUploadCommand({
+        Bucket: this.bucketName,
+        Key: filePath,
+        UploadId: multipartUploadId,
+        MultipartUpload: { Parts: parts },
+      }))
+
+      return Result.Ok({ filePath, contentHash: hash.digest("hex") })
+    } catch (error) {
+      if (multipartUploadId) {
+        await this.s3Client
+          .send(new AbortMultipartUploadCommand({ Bucket: this.bucketName, Key: filePath, UploadId: multipartUploadId }))
+          .catch(() => undefined)
+      }
+      return Result.Err(StorageError.assemblyFailed(uploadId, error))
+    }
+  }
+
+  async discardChunks(uploadId: string): Promise<Result<boolean, StorageError>> {
+    try {
+      const chunkKeys = await this.listChunkKeys(uploadId)
+      await this.deleteKeys(chunkKeys)
+
+      return Result.Ok(chunkKeys.length > 0)
+    } catch (error) {
+      return Result.Err(StorageError.deleteFailed(this.buildChunkPrefix(uploadId), error))
+    }
+  }
+
+  // S3 can't move objects - the file is copied into the quarantine prefix, then deleted
+  async quarantine(filePath: string): Promise<Result<string, StorageError>> {
+    try {
+      const quarantinePath = `${QUARANTINE_PREFIX}/${filePath}`
+
+      await this.s3Client.send(new CopyObjectCommand({
+        Bucket: this.bucketName,
+        Key: quarantinePath,
+        CopySource: encodeURI(`${this.bucketName}/${filePath}`),
+      }))
+      await this.s3Client.send(new DeleteObjectCommand({
+        Bucket: this.bucketName,
+        Key: filePath,
+      }))
+
+      return Result.Ok(quarantinePath)
+    } catch (error) {
+      if (error instanceof Error && error.name === "NoSuchKey") {
+        return Result.Err(StorageError.fileNotFound(filePath))
+      }
+      return Result.Err(StorageError.quarantineFailed(filePath, error))
+    }
+  }
+
+  // The client uploads with a PUT of exactly `size` bytes of the given type - anything else is rejected
+  async createUploadUrl(
+    name: string,
+    mimeType: string,
+    size: number,
+    expiresInSeconds: number,
+  ): Promise<Result<PresignedUpload | undefined, StorageError>> {
+    try {
+      const filePath = this.buildFilePath(name)
+      const headers = { "content-length": String(size), "content-type": mimeType }
+      const url = await this.presign("PUT", filePath, expiresInSeconds, headers)
+
+      return Result.Ok({
+        filePath,
+        url,
+        headers,
+        expiresAt: new Date(Date.now() + expiresInSeconds * 1000),
+      })
+    } catch (error) {
+      return Result.Err(new StorageError(`Failed to presign upload: ${name}`, { name }, error))
+    }
+  }
+
+  async createDownloadUrl(
+    filePath: string,
+    { fileName, mimeType, expiresInSeconds }: PresignedDownloadOptions,
+  ): Promise<Result<string | undefined, StorageError>> {
+    try {
+      const url = await this.presign("GET", filePath, expiresInSeconds, {}, {
+        "response-content-type": mimeType,
+        "response-content-disposition": `attachment; filename*=UTF-8''${escapeUri(fileName)}`,
+      })
+      return Result.Ok(url)
+    } catch (error) {
+      return Result.Err(new StorageError(`Failed to presign download: ${filePath}`, { filePath }, error))
+    }
+  }
+
+  // Small files take a single request; larger ones are uploaded part by part as they are read
+  private async putObject(key: string, source: Buffer | ReadableStream<Uint8Array>, mimeType: string): Promise<void> {
+    const parts = readParts(source)
+    const first = await parts.next()
+    const second = first.done ? first : await parts.next()
+
+    if (second.done) {
+      const body = first.done ? Buffer.alloc(0) : first.value
+      await this.s3Client.send(new PutObjectCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        Body: body,
+        ContentType: mimeType,
+        ContentLength: body.length,
+      }))
+      return
+    }
+
+    const multipart = await this.s3Client.send(new CreateMultipartUploadCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      ContentType: mimeType,
+    }))
+    const uploadId = multipart.UploadId
+
+    try {
+      const uploaded: { ETag?: string; PartNumber: number }[] = []
+      const uploadPart = async (body: Buffer) => {
+        const partNumber = uploaded.length + 1
+        const response = await this.s3Client.send(new UploadPartCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          UploadId: uploadId,
+          PartNumber: partNumber,
+          Body: body,
+          ContentLength: body.length,
+        }))
+        uploaded.push({ ETag: response.ETag, PartNumber: partNumber })
+      }
+
+      await uploadPart(first.value!)
+      await uploadPart(second.value)
+      for await (const part of parts) {
+        await uploadPart(part)
+      }
+
+      await this.s3Client.send(new CompleteMultipartUploadCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: { Parts: uploaded },
+      }))
+    } catch (error) {
+      // Parts of an aborted upload would be billed until a lifecycle rule removes them
+      await this.s3Client
+        .send(new AbortMultipartUploadCommand({ Bucket: this.bucketName, Key: key, UploadId: uploadId }))
+        .catch(() => undefined)
+      throw error
+    }
+  }
+
+  private async presign(
+    method: "GET" | "PUT",
+    key: string,
+    expiresInSeconds: number,
+    headers: Record<string, string> = {},
+    query: Record<string, string> = {},
+  ): Promise<string> {
+    const path = key.split("/").map(escapeUri).join("/")
+    const endpoint = this.s3.endpoint ? new URL(this.s3.endpoint) : undefined
+    // Custom endpoints (LocalStack, MinIO) address the bucket in the path, like the client does
+    const hostname = endpoint?.hostname ?? `${this.bucketName}.s3.${this.s3.region}.amazonaws.com`
+    const port = endpoint?.port ? Number(endpoint.port) : undefined
+    const host = port ? `${hostname}:${port}` : hostname
+
+    const signed = await this.signer.presign(
+      {
+        method,
+        protocol: endpoint?.protocol ?? "https:",
+        hostname,
+        port,
+        path: endpoint ? `${endpoint.pathname.replace(/\/$/, "")}/${this.bucketName}/${path}` : `/${path}`,
+        query,
+        headers: { ...headers, host, "x-amz-content-sha256": UNSIGNED_PAYLOAD },
+      },
+      { expiresIn: expiresInSeconds },
+    )
+
+    const search = Object.entries(signed.query ?? {})
+      .map(([name, value]) => `${escapeUri(name)}=${escapeUri(String(value))}`)
+      .join("&")
+    return `${signed.protocol}//${host}${signed.path}?${search}`
+  }
+
+  // Keys sort by offset thanks to the zero-padded chunk names
+  private async listChunkKeys(uploadId: string): Promise<string[]> {
+    const keys: string[] = []
+    let continuationToken: string | undefined
+
+    do {
+      const response = await this.s3Client.send(new ListObjectsV2Command({
+        Bucket: this.bucketName,
+        Prefix: this.buildChunkPrefix(uploadId),
+        ContinuationToken: continuationToken,
+      }))
+
+      for (const object of response.Contents ?? []) {
+        if (object.Key) keys.push(object.Key)
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined
+    } while (continuationToken)
+
+    return keys.sort()
+  }
+
+  private async deleteKeys(keys: string[]): Promise<void> {
+    // DeleteObjects accepts at most 1000 keys per request
+    for (let i = 0; i < keys.length; i += 1000) {
+      await this.s3Client.send(new DeleteObjectsCommand({
+        Bucket: this.bucketName,
+        Delete: { Objects: keys.slice(i, i + 1000).map((Key) => ({ Key })) },
+      }))
+    }
+  }
+
+  private buildChunkPrefix(uploadId: string): string {
+    return `${CHUNK_PREFIX}/${uploadId}/`
+  }
+
+  private buildChunkName(offset: number): string {
+    return String(offset).padStart(16, "0")
+  }
+
   private buildFilePath(fileName: string): string {
     const timestamp = Date.now()
     const randomId = Math.random().toString(36).substr(2, 9)
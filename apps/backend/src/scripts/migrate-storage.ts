@@ -0,0 +1,102 @@
+#!/usr/bin/env bun
+
+import "reflect-metadata"
+import { parseArgs } from "node:util"
+import config from "@/infra/config"
+import { createDbInstance } from "@/infra/db/conn"
+import { DrizzleDocumentRepository } from "@/infra/db/repos/document.repository"
+import { StorageMigrator, StorageService } from "@/infra/storage"
+
+// Moves the files from STORAGE_MIGRATION_SOURCE to STORAGE_BACKEND. Runs again resume where it stopped
+const { values: options } = parseArgs({
+  args: process.argv.slice(2),
+  options: {
+    rate: { type: "string" }, // MiB per second
+    limit: { type: "string" }, // Files to migrate in this run
+  },
+})
+
+const MIB = 1024 * 1024
+
+const positiveNumber = (value: string | undefined, flag: string) => {
+  if (value === undefined) return undefined
+  const parsed = Number(value)
+  if (!(parsed > 0)) {
+    console.error(`❌ ${flag} must be a positive number`)
+    process.exit(1)
+  }
+  return parsed
+}
+
+async function migrateStorage() {
+  const { backend, migration } = config.storage
+  if (!migration.source) {
+    console.error(
+      "❌ Set STORAGE_MIGRATION_SOURCE to the backend the files move away from",
+    )
+    process.exit(1)
+  }
+
+  const rateMib = positiveNumber(options.rate, "--rate") ?? migration.rateMib
+  const limit = positiveNumber(options.limit, "--limit")
+
+  const migrator = new StorageMigrator(
+    new DrizzleDocumentRepository(createDbInstance()),
+    {
+      backend: migration.source,
+      strategy: StorageService.createStrategy(migration.source),
+    },
+    { backend, strategy: StorageService.createStrategy(backend) },
+  )
+
+  console.log(
+    `🚚 Migrating files from ${migration.source} to ${backend} storage at up to ${rateMib} MiB/s...`,
+  )
+
+  const result = await migrator.migrate({
+    bytesPerSecond: rateMib * MIB,
+    limit,
+    onProgress: ({ total, migrated, failed, bytes, filePath }) => {
+      console.log(
+        `   [${migrated + failed}/${total}] ${filePath} (${(bytes / MIB).toFixed(1)} MiB copied)`,
+      )
+    },
+  })
+
+  if (result.isErr()) {
+    console.error("❌ Error migrating storage:", result.unwrapErr().message)
+    process.exit(1)
+  }
+
+  const report = result.unwrap()
+  console.log(
+    `\n✅ Migrated ${report.migrated} of ${report.total} file(s), ${(report.bytes / MIB).toFixed(1)} MiB`,
+  )
+
+  if (report.failures.length > 0) {
+    console.log(`\n⚠️  Failed files: ${report.failures.length}`)
+    for (const failure of report.failures) {
+      console.log(`   ${failure.filePath}: ${failure.error}`)
+    }
+  }
+
+  const pendingResult = await migrator.pending()
+  const pending = pendingResult.isOk() ? pendingResult.unwrap().length : 0
+  if (pending > 0) {
+    console.log(
+      `\n💡 ${pending} file(s) left on ${migration.source} - run again to continue`,
+    )
+  } else {
+    console.log(
+      `\n💡 Every file is on ${backend} now - STORAGE_MIGRATION_SOURCE can be unset`,
+    )
+  }
+}
+
+// Run the migration
+if (import.meta.main) {
+  await migrateStorage()
+  process.exit(0)
+}
+
+export { migrateStorage }
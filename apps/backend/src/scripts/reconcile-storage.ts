@@ -0,0 +1,82 @@
+#!/usr/bin/env bun
+
+import "reflect-metadata"
+import { parseArgs } from "node:util"
+import { DocumentWorkflows } from "@application/workflows"
+import { container } from "tsyringe"
+import config from "@/infra/config"
+import { wireDi } from "@/infra/di"
+
+// Dry run unless --cleanup is passed, leaving files younger than the grace period alone
+const { values: options } = parseArgs({
+  args: process.argv.slice(2),
+  options: {
+    cleanup: { type: "boolean", default: false },
+    "grace-minutes": { type: "string" },
+  },
+})
+
+async function reconcileStorage() {
+  const graceMinutes = Number(
+    options["grace-minutes"] ?? config.jobs.reconciliation.graceMinutes,
+  )
+  if (!Number.isInteger(graceMinutes) || graceMinutes < 0) {
+    console.error("❌ --grace-minutes must be a whole number of minutes")
+    process.exit(1)
+  }
+
+  wireDi()
+
+  console.log(
+    `🔍 Reconciling ${config.storage.backend} storage with the documents (${options.cleanup ? "cleanup" : "dry run"})...`,
+  )
+
+  const result = await container
+    .resolve(DocumentWorkflows)
+    .reconcileStorage(undefined, { cleanup: options.cleanup, graceMinutes })
+
+  if (result.isErr()) {
+    console.error("❌ Error reconciling storage:", result.unwrapErr().message)
+    process.exit(1)
+  }
+
+  const report = result.unwrap()
+  console.log(
+    `📦 ${report.stored} stored file(s), ${report.referenced} referenced by documents`,
+  )
+  if (report.recent > 0) {
+    console.log(
+      `⏳ ${report.recent} unreferenced file(s) younger than ${graceMinutes} minute(s) left alone`,
+    )
+  }
+
+  console.log(`\n🗑️  Orphaned files: ${report.orphans.length}`)
+  for (const orphan of report.orphans) {
+    console.log(
+      `   ${orphan.filePath} (${orphan.size} bytes, ${orphan.modifiedAt.toISOString()})${orphan.deleted ? " - deleted" : ""}`,
+    )
+  }
+
+  console.log(`\n⚠️  Missing files: ${report.missing.length}`)
+  for (const missing of report.missing) {
+    console.log(
+      `   ${missing.filePath} (documents: ${missing.documentIds.join(", ")})`,
+    )
+  }
+
+  if (options.cleanup) {
+    console.log(
+      `\n✅ Deleted ${report.deleted} of ${report.orphans.length} orphaned file(s)`,
+    )
+  } else if (report.orphans.length > 0) {
+    console.log("\n💡 Run again with --cleanup to delete the orphaned files")
+  }
+}
+
+// Run the reconciliation
+if (import.meta.main) {
+  await reconcileStorage()
+  process.exit(0)
+}
+
+export { reconcileStorage }
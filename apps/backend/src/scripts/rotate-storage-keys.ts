@@ -0,0 +1,74 @@
+#!/usr/bin/env bun
+
+import "reflect-metadata"
+import { parseArgs } from "node:util"
+import config from "@/infra/config"
+import { registerRepositories } from "@/infra/db/repos/di"
+import {
+  MasterKeyring,
+  resolveFileKeyStore,
+  rewrapFileKeys,
+} from "@/infra/storage"
+
+// Re-wraps the data keys of stored files with STORAGE_ENCRYPTION_KEY. Files aren't read or rewritten
+const { values: options } = parseArgs({
+  args: process.argv.slice(2),
+  options: {
+    "batch-size": { type: "string" },
+  },
+})
+
+async function rotateStorageKeys() {
+  const { key, previousKeys } = config.storage.encryption
+  if (!key) {
+    console.error(
+      "❌ Set STORAGE_ENCRYPTION_KEY to the master key to rotate to",
+    )
+    process.exit(1)
+  }
+
+  const batchSize = Number(options["batch-size"] ?? 100)
+  if (!Number.isInteger(batchSize) || batchSize <= 0) {
+    console.error("❌ --batch-size must be a positive whole number")
+    process.exit(1)
+  }
+
+  registerRepositories()
+  const keyring = new MasterKeyring(key, previousKeys)
+
+  console.log(
+    `🔑 Re-wrapping data keys with master key ${keyring.current.id}...`,
+  )
+
+  const result = await rewrapFileKeys(resolveFileKeyStore(), keyring, {
+    batchSize,
+    onProgress: ({ rewrapped, failed }) => {
+      console.log(`   ${rewrapped} re-wrapped, ${failed} failed`)
+    },
+  })
+
+  if (result.isErr()) {
+    console.error("❌ Error rotating keys:", result.unwrapErr().message)
+    process.exit(1)
+  }
+
+  const report = result.unwrap()
+  console.log(`\n✅ Re-wrapped ${report.rewrapped} data key(s)`)
+
+  if (report.failed > 0) {
+    console.log(
+      `\n⚠️  ${report.failed} key(s) couldn't be unwrapped - list the master keys that wrapped them in STORAGE_ENCRYPTION_PREVIOUS_KEYS`,
+    )
+    process.exit(1)
+  }
+
+  console.log(
+    "\n💡 Every data key is wrapped by the current master key - STORAGE_ENCRYPTION_PREVIOUS_KEYS can be unset",
+  )
+}
+
+// Run the rotation
+if (import.meta.main) {
+  await rotateStorageKeys()
+  process.exit(0)
+}
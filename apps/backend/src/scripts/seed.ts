@@ -4,6 +4,7 @@ import "reflect-metadata"
 import { faker } from "@faker-js/faker"
 import { eq } from "drizzle-orm"
 import { createDbInstance } from "@/infra/db/conn"
+import { registerRepositories } from "@/infra/db/repos/di"
 import { users, documents, account } from "@/infra/db/schema"
 import { StorageService } from "@/infra/storage/storage.service"
 import { UUID } from "@domain/utils/refined-types"
@@ -11,6 +12,8 @@ import type { UserType } from "@domain/user/user.entity"
 import type { DocumentType } from "@domain/document/document.entity"
 
 const db = createDbInstance()
+// Encrypted storage keeps the data keys of the files in the database
+registerRepositories()
 const storageService = new StorageService()
 
 // Seed configuration - use environment variables for security
@@ -0,0 +1,99 @@
+import { AuditEventFiltersDto } from "@application/dtos/audit.dto"
+import { ApplicationResult } from "@application/utils/application-result.utils"
+import { AuditWorkflows } from "@application/workflows"
+import type { AuditEventEntity } from "@domain/audit"
+import { container } from "tsyringe"
+import { authenticated } from "../utils/orpc"
+import { requireAdmin } from "../utils/rbac"
+import { handleAppResult } from "../utils/result-handler"
+
+const base = authenticated.audit
+
+// Unknown actions are rejected (422) rather than ignored, which would widen the results
+const parseAuditFilters = (input: {
+  actorId?: string
+  targetType?: "document" | "user"
+  targetId?: string
+  action?: string
+  from?: Date
+  to?: Date
+}) =>
+  handleAppResult(
+    ApplicationResult.fromResult(
+      AuditEventFiltersDto.create({
+        ...input,
+        action: input.action
+          ?.split(",")
+          .map((action) => action.trim())
+          .filter((action) => action.length > 0),
+      }),
+    ),
+  )
+
+const serializeEvent = (event: AuditEventEntity) => ({
+  id: event.id,
+  action: event.action,
+  actorId: event.actorId,
+  actorEmail: event.actorEmail,
+  targetType: event.targetType,
+  targetId: event.targetId,
+  before: event.before,
+  after: event.after,
+  ipAddress: event.ipAddress,
+  userAgent: event.userAgent,
+  occurredAt: new Date(event.createdAt.epochMillis).toISOString(),
+})
+
+// Get audit events with filtering and pagination (admin only)
+const getAuditEventsHandler = base.getAuditEvents.handler(
+  requireAdmin(async ({ input, context }) => {
+    const auditWorkflows = container.resolve(AuditWorkflows)
+    const { page = 1, limit = 10, ...filters } = input
+
+    const result = await auditWorkflows.getAuditEvents(
+      context.user,
+      parseAuditFilters(filters),
+      { data: { page, limit } },
+    )
+
+    if (result.isErr()) {
+      return handleAppResult(result)
+    }
+
+    const { events, total } = result.unwrap()
+    return {
+      events: events.map(serializeEvent),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    }
+  }),
+)
+
+// Export audit events as CSV (admin only) - served as a file download
+const exportAuditEventsHandler = base.exportAuditEvents.handler(
+  requireAdmin(async ({ input, context }) => {
+    const auditWorkflows = container.resolve(AuditWorkflows)
+    const result = await auditWorkflows.exportAuditEvents(
+      context.user,
+      parseAuditFilters(input),
+    )
+
+    if (result.isErr()) {
+      return handleAppResult(result)
+    }
+
+    const date = new Date().toISOString().slice(0, 10)
+    return new File([result.unwrap()], `audit-events-${date}.csv`, {
+      type: "text/csv; charset=utf-8",
+    })
+  }),
+)
+
+export default base.router({
+  getAuditEvents: getAuditEventsHandler,
+  exportAuditEvents: exportAuditEventsHandler,
+})
@@ -1,16 +1,94 @@
 import { DocumentWorkflows } from "@application/workflows"
+import type { DocumentContentEntity, DocumentEntity, DocumentPermissionEntity, DocumentVersionEntity } from "@domain/document"
+import type { UserEntity } from "@domain/user/user.entity"
 import { container } from "tsyringe"
+import config from "@/infra/config"
 import { authenticated } from "../utils/orpc"
 import { handleAppResult } from "../utils/result-handler"
 import { requireAdmin } from "../utils/rbac"
+import { expectedVersion, versionTag } from "../utils/version-tag"
 import { getFileStreamingOptions, getContentDisposition, getCacheHeaders } from "../utils/file-streaming.utils"
 
 const base = authenticated.document
 
-// Get documents with filtering and pagination (authenticated)
-const getDocumentsHandler = base.getDocuments.handler(async ({ input }) => {
+const serializeVersion = (version: DocumentVersionEntity) => ({
+  id: version.id,
+  documentId: version.documentId,
+  versionNumber: version.versionNumber,
+  filePath: version.filePath,
+  mimeType: version.mimeType,
+  size: version.size,
+  contentHash: version.contentHash,
+  createdBy: version.createdBy,
+  createdAt: new Date(version.createdAt.epochMillis).toISOString(),
+})
+
+const serializeContent = (content: DocumentContentEntity) => ({
+  documentId: content.documentId,
+  status: content.status,
+  extractor: content.extractor,
+  content: content.content,
+  error: content.error,
+  updatedAt: new Date(content.updatedAt.epochMillis).toISOString(),
+})
+
+const serializePermission = (permission: DocumentPermissionEntity) => ({
+  id: permission.id,
+  documentId: permission.documentId,
+  userId: permission.userId,
+  level: permission.level,
+  grantedBy: permission.grantedBy,
+  createdAt: new Date(permission.createdAt.epochMillis).toISOString(),
+  updatedAt: new Date(permission.updatedAt.epochMillis).toISOString(),
+})
+
+// Lapsed checkouts are reported as checked in
+const serializeLock = (document: DocumentEntity) => {
+  const locked = document.isLocked()
+  return {
+    documentId: document.id,
+    locked,
+    lockedBy: locked ? document.lockedBy : undefined,
+    expiresAt: locked && document.lockExpiresAt ? new Date(document.lockExpiresAt.epochMillis).toISOString() : undefined,
+  }
+}
+
+// Link a document (or one of its versions) straight from storage when the backend issues URLs for
+// it, falling back to a download token served through /api/files/download
+const createDownloadLink = async (user: UserEntity, documentId: string, versionId?: string) => {
   const documentWorkflows = container.resolve(DocumentWorkflows)
-  // Transform query to match expected DTO format
+  const expiresAt = new Date(Date.now() + 5 * 60 * 1000) // 5 minutes from now
+
+  const urlResult = await documentWorkflows.generatePresignedDownloadUrl(user, documentId, 5, versionId)
+  if (urlResult.isErr()) {
+    return handleAppResult(urlResult)
+  }
+
+  const url = urlResult.unwrap()
+  if (url) {
+    return { downloadUrl: url, expiresAt: expiresAt.toISOString() }
+  }
+
+  const result = await documentWorkflows.generateDownloadToken(user, documentId, 5, versionId) // 5 minutes expiry
+  if (result.isErr()) {
+    return handleAppResult(result)
+  }
+
+  return {
+    downloadUrl: `/api/files/download?token=${result.unwrap()}`,
+    expiresAt: expiresAt.toISOString(),
+  }
+}
+
+// Transform the filter query parameters shared by listing and search to match the expected DTO format
+const parseDocumentFilters = (input: {
+  name?: string
+  mimeType?: string
+  tags?: string
+  metadata?: string
+  metadataKey?: string
+  metadataValue?: string
+}) => {
   let metadata: Record<string, string> | undefined = undefined
   
   // Handle metadata in different formats
@@ -33,15 +111,20 @@ const getDocumentsHandler = base.getDocuments.handler(async ({ input }) => {
     metadata = { [input.metadataKey]: input.metadataValue }
   }
   
-  const filters = {
+  return {
     name: input.name,
     mimeType: input.mimeType,
     tags: input.tags ? input.tags.split(',').map(t => t.trim()) : undefined,
     metadata,
   }
-  
+}
+
+// Get documents with filtering and pagination - only documents the caller can read (authenticated)
+const getDocumentsHandler = base.getDocuments.handler(async ({ input, context }) => {
+  const documentWorkflows = container.resolve(DocumentWorkflows)
   const result = await documentWorkflows.getDocuments(
-    { data: filters },
+    context.user,
+    { data: parseDocumentFilters(input) },
     { data: { page: input.page || 1, limit: input.limit || 10 } }
   )
   
@@ -58,6 +141,9 @@ const getDocumentsHandler = base.getDocuments.handler(async ({ input }) => {
     size: doc.size,
     tags: doc.tags,
     metadata: doc.metadata,
+    folderId: doc.folderId,
+    ownerId: doc.ownerId,
+    version: doc.version,
     createdAt: new Date(doc.createdAt.epochMillis).toISOString(),
     updatedAt: new Date(doc.updatedAt.epochMillis).toISOString(),
   }))
@@ -73,31 +159,84 @@ const getDocumentsHandler = base.getDocuments.handler(async ({ input }) => {
   }
 })
 
+// Full-text search, best matches first - only documents the caller can read (authenticated)
+const searchDocumentsHandler = base.searchDocuments.handler(async ({ input, context }) => {
+  const documentWorkflows = container.resolve(DocumentWorkflows)
+  const result = await documentWorkflows.searchDocuments(
+    context.user,
+    { data: { query: input.q } },
+    { data: parseDocumentFilters(input) },
+    { data: { page: input.page || 1, limit: input.limit || 10 } }
+  )
+  
+  if (result.isErr()) {
+    return handleAppResult(result)
+  }
+  
+  const { hits, total } = result.unwrap()
+  const results = hits.map(({ document: doc, rank, snippet }) => ({
+    document: {
+      id: doc.id,
+      name: doc.name,
+      mimeType: doc.mimeType,
+      filePath: doc.filePath,
+      size: doc.size,
+      tags: doc.tags,
+      metadata: doc.metadata,
+      folderId: doc.folderId,
+      ownerId: doc.ownerId,
+      version: doc.version,
+      createdAt: new Date(doc.createdAt.epochMillis).toISOString(),
+      updatedAt: new Date(doc.updatedAt.epochMillis).toISOString(),
+    },
+    rank,
+    snippet,
+  }))
+  
+  return {
+    results,
+    pagination: {
+      page: input.page || 1,
+      limit: input.limit || 10,
+      total,
+      totalPages: Math.ceil(total / (input.limit || 10)),
+    }
+  }
+})
+
 // Get document by ID (authenticated)
-const getDocumentByIdHandler = base.getDocumentById.handler(async ({ input }) => {
+const getDocumentByIdHandler = base.getDocumentById.handler(async ({ input, context }) => {
   const documentWorkflows = container.resolve(DocumentWorkflows)
-  const result = await documentWorkflows.getDocumentById(input.params.id)
+  const result = await documentWorkflows.getDocumentById(context.user, input.params.id)
   
   if (result.isErr()) {
     return handleAppResult(result)
   }
   
   const document = result.unwrap()
+  const lock = serializeLock(document)
+  context.resHeaders?.set("ETag", versionTag(document.version))
   return {
     id: document.id,
     name: document.name,
     mimeType: document.mimeType,
     filePath: document.filePath,
     size: document.size,
+    contentHash: document.contentHash,
     tags: document.tags,
     metadata: document.metadata,
+    folderId: document.folderId,
+    ownerId: document.ownerId,
+    lockedBy: lock.lockedBy,
+    lockExpiresAt: lock.expiresAt,
+    version: document.version,
     createdAt: new Date(document.createdAt.epochMillis).toISOString(),
     updatedAt: new Date(document.updatedAt.epochMillis).toISOString(),
   }
 })
 
-// Upload document (admin only)
-const uploadDocumentHandler = base.uploadDocument.handler(requireAdmin(async ({ input, context }) => {
+// Upload document - the uploader becomes its owner (authenticated)
+const uploadDocumentHandler = base.uploadDocument.handler(async ({ input, context }) => {
   const documentWorkflows = container.resolve(DocumentWorkflows)
   const result = await documentWorkflows.uploadDocument(context.user, input)
   
@@ -106,29 +245,92 @@ const uploadDocumentHandler = base.uploadDocument.handler(requireAdmin(async ({
   }
   
   const document = result.unwrap()
+  context.resHeaders?.set("ETag", versionTag(document.version))
   return {
     id: document.id,
     name: document.name,
     mimeType: document.mimeType,
     filePath: document.filePath,
     size: document.size,
+    contentHash: document.contentHash,
     tags: document.tags,
     metadata: document.metadata,
+    folderId: document.folderId,
+    ownerId: document.ownerId,
+    version: document.version,
     createdAt: new Date(document.createdAt.epochMillis).toISOString(),
     updatedAt: new Date(document.updatedAt.epochMillis).toISOString(),
   }
-}))
+})
+
+// Request a URL to upload a file straight to storage (authenticated)
+const createUploadUrlHandler = base.createUploadUrl.handler(async ({ input, context }) => {
+  const documentWorkflows = container.resolve(DocumentWorkflows)
+  const result = await documentWorkflows.createDirectUpload(
+    context.user,
+    { data: input },
+    config.storage.s3.uploadUrlExpiryMinutes
+  )
+
+  if (result.isErr()) {
+    return handleAppResult(result)
+  }
+
+  const { upload, target } = result.unwrap()
+  return {
+    uploadId: upload.id,
+    uploadUrl: target.url,
+    method: "PUT" as const,
+    headers: target.headers,
+    expiresAt: target.expiresAt.toISOString(),
+  }
+})
 
-// Update document (admin only)
-const updateDocumentHandler = base.updateDocument.handler(requireAdmin(async ({ input, context }) => {
+// Create the document from a file uploaded straight to storage (authenticated)
+const finalizeUploadHandler = base.finalizeUpload.handler(async ({ input, context }) => {
   const documentWorkflows = container.resolve(DocumentWorkflows)
-  const result = await documentWorkflows.patchDocument(context.user, input.params.id, { data: input.body })
+  const result = await documentWorkflows.finalizeDirectUpload(context.user, input.params.id)
+
+  if (result.isErr()) {
+    return handleAppResult(result)
+  }
+
+  const document = result.unwrap()
+  context.resHeaders?.set("ETag", versionTag(document.version))
+  return {
+    id: document.id,
+    name: document.name,
+    mimeType: document.mimeType,
+    filePath: document.filePath,
+    size: document.size,
+    contentHash: document.contentHash,
+    scanStatus: document.scanStatus,
+    tags: document.tags,
+    metadata: document.metadata,
+    folderId: document.folderId,
+    ownerId: document.ownerId,
+    version: document.version,
+    createdAt: new Date(document.createdAt.epochMillis).toISOString(),
+    updatedAt: new Date(document.updatedAt.epochMillis).toISOString(),
+  }
+})
+
+// Update document (write access)
+const updateDocumentHandler = base.updateDocument.handler(async ({ input, context }) => {
+  const documentWorkflows = container.resolve(DocumentWorkflows)
+  const result = await documentWorkflows.patchDocument(
+    context.user,
+    input.params.id,
+    { data: input.body },
+    expectedVersion(input.headers["if-match"])
+  )
   
   if (result.isErr()) {
     return handleAppResult(result)
   }
   
   const document = result.unwrap()
+  context.resHeaders?.set("ETag", versionTag(document.version))
   return {
     id: document.id,
     name: document.name,
@@ -137,44 +339,378 @@ const updateDocumentHandler = base.updateDocument.handler(requireAdmin(async ({
     size: document.size,
     tags: document.tags,
     metadata: document.metadata,
+    folderId: document.folderId,
+    ownerId: document.ownerId,
+    version: document.version,
     createdAt: new Date(document.createdAt.epochMillis).toISOString(),
     updatedAt: new Date(document.updatedAt.epochMillis).toISOString(),
   }
-}))
+})
+
+// Move document into a folder (write access)
+const moveDocumentHandler = base.moveDocument.handler(async ({ input, context }) => {
+  const documentWorkflows = container.resolve(DocumentWorkflows)
+  const result = await documentWorkflows.moveDocument(context.user, input.params.id, { data: input.body })
+  
+  if (result.isErr()) {
+    return handleAppResult(result)
+  }
+  
+  const document = result.unwrap()
+  context.resHeaders?.set("ETag", versionTag(document.version))
+  return {
+    id: document.id,
+    name: document.name,
+    mimeType: document.mimeType,
+    filePath: document.filePath,
+    size: document.size,
+    tags: document.tags,
+    metadata: document.metadata,
+    folderId: document.folderId,
+    ownerId: document.ownerId,
+    version: document.version,
+    createdAt: new Date(document.createdAt.epochMillis).toISOString(),
+    updatedAt: new Date(document.updatedAt.epochMillis).toISOString(),
+  }
+})
 
 // Generate download link (authenticated)
-const generateDownloadLinkHandler = base.generateDownloadLink.handler(async ({ input }) => {
+const generateDownloadLinkHandler = base.generateDownloadLink.handler(async ({ input, context }) =>
+  createDownloadLink(context.user, input.params.id)
+)
+
+
+
+// Move document to the trash (manage access)
+const deleteDocumentHandler = base.deleteDocument.handler(async ({ input, context }) => {
+  const documentWorkflows = container.resolve(DocumentWorkflows)
+  const result = await documentWorkflows.deleteDocument(context.user, input.params.id)
+  
+  return handleAppResult(result)
+})
+
+// List trashed documents (authenticated)
+const getTrashHandler = base.getTrash.handler(async ({ input, context }) => {
   const documentWorkflows = container.resolve(DocumentWorkflows)
-  const result = await documentWorkflows.generateDownloadToken(input.params.id, 5) // 5 minutes expiry
+  const result = await documentWorkflows.getTrash(
+    context.user,
+    { data: { page: input.page || 1, limit: input.limit || 10 } }
+  )
   
   if (result.isErr()) {
     return handleAppResult(result)
   }
   
-  const token = result.unwrap()
-  const expiresAt = new Date(Date.now() + 5 * 60 * 1000) // 5 minutes from now
+  const { documents, total } = result.unwrap()
+  const serializedDocuments = documents.map(doc => ({
+    id: doc.id,
+    name: doc.name,
+    mimeType: doc.mimeType,
+    filePath: doc.filePath,
+    size: doc.size,
+    tags: doc.tags,
+    metadata: doc.metadata,
+    folderId: doc.folderId,
+    ownerId: doc.ownerId,
+    version: doc.version,
+    createdAt: new Date(doc.createdAt.epochMillis).toISOString(),
+    updatedAt: new Date(doc.updatedAt.epochMillis).toISOString(),
+    deletedAt: new Date((doc.deletedAt ?? doc.updatedAt).epochMillis).toISOString(),
+  }))
   
   return {
-    downloadUrl: `/api/files/download?token=${token}`,
-    expiresAt: expiresAt.toISOString(),
+    documents: serializedDocuments,
+    pagination: {
+      page: input.page || 1,
+      limit: input.limit || 10,
+      total,
+      totalPages: Math.ceil(total / (input.limit || 10)),
+    }
+  }
+})
+
+// List groups of documents with identical files - only documents the caller can read (authenticated)
+const getDuplicatesHandler = base.getDuplicates.handler(async ({ input, context }) => {
+  const documentWorkflows = container.resolve(DocumentWorkflows)
+  const result = await documentWorkflows.getDuplicates(
+    context.user,
+    { data: { page: input.page || 1, limit: input.limit || 10 } }
+  )
+  
+  if (result.isErr()) {
+    return handleAppResult(result)
+  }
+  
+  const { groups, total } = result.unwrap()
+  return {
+    groups: groups.map(group => ({
+      contentHash: group.contentHash,
+      size: group.size,
+      documents: group.documents.map(doc => ({
+        id: doc.id,
+        name: doc.name,
+        filePath: doc.filePath,
+        mimeType: doc.mimeType,
+        folderId: doc.folderId,
+        ownerId: doc.ownerId,
+        version: doc.version,
+        createdAt: new Date(doc.createdAt.epochMillis).toISOString(),
+      })),
+    })),
+    pagination: {
+      page: input.page || 1,
+      limit: input.limit || 10,
+      total,
+      totalPages: Math.ceil(total / (input.limit || 10)),
+    }
   }
 })
 
+// Verify the stored files of a page of documents (admin only)
+const verifyDocumentIntegrityHandler = base.verifyDocumentIntegrity.handler(requireAdmin(async ({ input, context }) => {
+  const documentWorkflows = container.resolve(DocumentWorkflows)
+  const result = await documentWorkflows.verifyDocumentIntegrity(
+    context.user,
+    { data: { page: input.page || 1, limit: input.limit || 10 } }
+  )
+  
+  if (result.isErr()) {
+    return handleAppResult(result)
+  }
+  
+  const { total, ...report } = result.unwrap()
+  return {
+    ...report,
+    pagination: {
+      page: input.page || 1,
+      limit: input.limit || 10,
+      total,
+      totalPages: Math.ceil(total / (input.limit || 10)),
+    }
+  }
+}))
+
+// Reconcile storage with the documents (admin only) - a dry run unless told otherwise
+const reconcileStorageHandler = base.reconcileStorage.handler(requireAdmin(async ({ input, context }) => {
+  const documentWorkflows = container.resolve(DocumentWorkflows)
+  const dryRun = input.dryRun ?? true
+  const result = await documentWorkflows.reconcileStorage(context.user, {
+    cleanup: !dryRun,
+    graceMinutes: input.graceMinutes ?? config.jobs.reconciliation.graceMinutes,
+  })
+
+  if (result.isErr()) {
+    return handleAppResult(result)
+  }
 
+  const report = result.unwrap()
+  return {
+    dryRun,
+    ...report,
+    orphans: report.orphans.map(orphan => ({ ...orphan, modifiedAt: orphan.modifiedAt.toISOString() })),
+  }
+}))
 
-// Delete document (admin only)
-const deleteDocumentHandler = base.deleteDocument.handler(requireAdmin(async ({ input, context }) => {
+// Restore a document from the trash (manage access)
+const restoreDocumentHandler = base.restoreDocument.handler(async ({ input, context }) => {
   const documentWorkflows = container.resolve(DocumentWorkflows)
-  const result = await documentWorkflows.deleteDocument(context.user, input.params.id)
+  const result = await documentWorkflows.restoreDocument(context.user, input.params.id)
+  
+  if (result.isErr()) {
+    return handleAppResult(result)
+  }
+  
+  const document = result.unwrap()
+  context.resHeaders?.set("ETag", versionTag(document.version))
+  return {
+    id: document.id,
+    name: document.name,
+    mimeType: document.mimeType,
+    filePath: document.filePath,
+    size: document.size,
+    tags: document.tags,
+    metadata: document.metadata,
+    folderId: document.folderId,
+    ownerId: document.ownerId,
+    version: document.version,
+    createdAt: new Date(document.createdAt.epochMillis).toISOString(),
+    updatedAt: new Date(document.updatedAt.epochMillis).toISOString(),
+  }
+})
+
+// Permanently delete a trashed document (manage access)
+const permanentlyDeleteDocumentHandler = base.permanentlyDeleteDocument.handler(async ({ input, context }) => {
+  const documentWorkflows = container.resolve(DocumentWorkflows)
+  const result = await documentWorkflows.permanentlyDeleteDocument(context.user, input.params.id)
   
   return handleAppResult(result)
+})
+
+// Upload a new version of a document (write access)
+const uploadDocumentVersionHandler = base.uploadDocumentVersion.handler(async ({ input, context }) => {
+  const documentWorkflows = container.resolve(DocumentWorkflows)
+  const result = await documentWorkflows.uploadDocumentVersion(context.user, input.params.id, { data: input.body })
+  
+  if (result.isErr()) {
+    return handleAppResult(result)
+  }
+  
+  return serializeVersion(result.unwrap())
+})
+
+// Get document version history (authenticated)
+const getDocumentVersionsHandler = base.getDocumentVersions.handler(async ({ input, context }) => {
+  const documentWorkflows = container.resolve(DocumentWorkflows)
+  const result = await documentWorkflows.getDocumentVersions(context.user, input.params.id)
+  
+  if (result.isErr()) {
+    return handleAppResult(result)
+  }
+  
+  return {
+    versions: result.unwrap().map(serializeVersion),
+  }
+})
+
+// Get the extracted text of a document (read access)
+const getDocumentContentHandler = base.getDocumentContent.handler(async ({ input, context }) => {
+  const documentWorkflows = container.resolve(DocumentWorkflows)
+  const result = await documentWorkflows.getDocumentContent(context.user, input.params.id)
+  
+  if (result.isErr()) {
+    return handleAppResult(result)
+  }
+  
+  return serializeContent(result.unwrap())
+})
+
+// Get a thumbnail of an image document (read access) - served as the PNG itself
+const getDocumentThumbnailHandler = base.getDocumentThumbnail.handler(async ({ input, context }) => {
+  const documentWorkflows = container.resolve(DocumentWorkflows)
+  const result = await documentWorkflows.getDocumentThumbnail(context.user, input.params.id, input.query.size)
+  
+  if (result.isErr()) {
+    return handleAppResult(result)
+  }
+  
+  const { rendition, file } = result.unwrap()
+  return new File([file], `thumbnail_${rendition.size}px.png`, { type: rendition.mimeType })
+})
+
+// Restore an earlier version (write access)
+const restoreDocumentVersionHandler = base.restoreDocumentVersion.handler(async ({ input, context }) => {
+  const documentWorkflows = container.resolve(DocumentWorkflows)
+  const result = await documentWorkflows.restoreDocumentVersion(context.user, input.params.id, input.params.versionId)
+  
+  if (result.isErr()) {
+    return handleAppResult(result)
+  }
+  
+  return serializeVersion(result.unwrap())
+})
+
+// Generate download link for a specific version (authenticated)
+const generateVersionDownloadLinkHandler = base.generateVersionDownloadLink.handler(async ({ input, context }) =>
+  createDownloadLink(context.user, input.params.id, input.params.versionId)
+)
+
+// List the users granted access to a document (manage access)
+const getDocumentPermissionsHandler = base.getDocumentPermissions.handler(async ({ input, context }) => {
+  const documentWorkflows = container.resolve(DocumentWorkflows)
+  const result = await documentWorkflows.getDocumentPermissions(context.user, input.params.id)
+  
+  if (result.isErr()) {
+    return handleAppResult(result)
+  }
+  
+  return {
+    permissions: result.unwrap().map(serializePermission),
+  }
+})
+
+// Grant a user access to a document (manage access)
+const grantDocumentPermissionHandler = base.grantDocumentPermission.handler(async ({ input, context }) => {
+  const documentWorkflows = container.resolve(DocumentWorkflows)
+  const result = await documentWorkflows.grantDocumentPermission(context.user, input.params.id, { data: input.body })
+  
+  if (result.isErr()) {
+    return handleAppResult(result)
+  }
+  
+  return serializePermission(result.unwrap())
+})
+
+// Revoke a user's access to a document (manage access)
+const revokeDocumentPermissionHandler = base.revokeDocumentPermission.handler(async ({ input, context }) => {
+  const documentWorkflows = container.resolve(DocumentWorkflows)
+  const result = await documentWorkflows.revokeDocumentPermission(context.user, input.params.id, input.params.userId)
+  
+  return handleAppResult(result)
+})
+
+// Check out a document, or extend the caller's checkout (write access)
+const checkoutDocumentHandler = base.checkoutDocument.handler(async ({ input, context }) => {
+  const documentWorkflows = container.resolve(DocumentWorkflows)
+  const result = await documentWorkflows.checkoutDocument(context.user, input.params.id, { data: input.body ?? {} })
+
+  if (result.isErr()) {
+    return handleAppResult(result)
+  }
+
+  return serializeLock(result.unwrap())
+})
+
+// Check in a document (the user holding the checkout)
+const checkinDocumentHandler = base.checkinDocument.handler(async ({ input, context }) => {
+  const documentWorkflows = container.resolve(DocumentWorkflows)
+  const result = await documentWorkflows.checkinDocument(context.user, input.params.id)
+
+  if (result.isErr()) {
+    return handleAppResult(result)
+  }
+
+  return serializeLock(result.unwrap())
+})
+
+// Break the checkout of a document (admin only)
+const breakDocumentLockHandler = base.breakDocumentLock.handler(requireAdmin(async ({ input, context }) => {
+  const documentWorkflows = container.resolve(DocumentWorkflows)
+  const result = await documentWorkflows.breakDocumentLock(context.user, input.params.id, { data: input.body })
+
+  if (result.isErr()) {
+    return handleAppResult(result)
+  }
+
+  return serializeLock(result.unwrap())
 }))
 
 export default base.router({
   getDocuments: getDocumentsHandler,
+  searchDocuments: searchDocumentsHandler,
   getDocumentById: getDocumentByIdHandler,
   uploadDocument: uploadDocumentHandler,
+  createUploadUrl: createUploadUrlHandler,
+  finalizeUpload: finalizeUploadHandler,
   updateDocument: updateDocumentHandler,
+  moveDocument: moveDocumentHandler,
   generateDownloadLink: generateDownloadLinkHandler,
   deleteDocument: deleteDocumentHandler,
+  getTrash: getTrashHandler,
+  getDuplicates: getDuplicatesHandler,
+  verifyDocumentIntegrity: verifyDocumentIntegrityHandler,
+  reconcileStorage: reconcileStorageHandler,
+  restoreDocument: restoreDocumentHandler,
+  permanentlyDeleteDocument: permanentlyDeleteDocumentHandler,
+  uploadDocumentVersion: uploadDocumentVersionHandler,
+  getDocumentVersions: getDocumentVersionsHandler,
+  getDocumentContent: getDocumentContentHandler,
+  getDocumentThumbnail: getDocumentThumbnailHandler,
+  restoreDocumentVersion: restoreDocumentVersionHandler,
+  generateVersionDownloadLink: generateVersionDownloadLinkHandler,
+  getDocumentPermissions: getDocumentPermissionsHandler,
+  grantDocumentPermission: grantDocumentPermissionHandler,
+  revokeDocumentPermission: revokeDocumentPermissionHandler,
+  checkoutDocument: checkoutDocumentHandler,
+  checkinDocument: checkinDocumentHandler,
+  breakDocumentLock: breakDocumentLockHandler,
 })
@@ -0,0 +1,156 @@
+import { FolderWorkflows } from "@application/workflows"
+import type { FolderContents } from "@application/workflows/folder.workflow"
+import type { FolderEntity } from "@domain/folder"
+import { container } from "tsyringe"
+import { authenticated } from "../utils/orpc"
+import { requireAdmin } from "../utils/rbac"
+import { handleAppResult } from "../utils/result-handler"
+
+const base = authenticated.folder
+
+const serializeFolder = (folder: FolderEntity) => ({
+  id: folder.id,
+  name: folder.name,
+  parentId: folder.parentId,
+  createdAt: new Date(folder.createdAt.epochMillis).toISOString(),
+  updatedAt: new Date(folder.updatedAt.epochMillis).toISOString(),
+})
+
+const serializeContents = (contents: FolderContents) => ({
+  folder: contents.folder ? serializeFolder(contents.folder) : undefined,
+  breadcrumbs: contents.breadcrumbs.map((folder) => ({
+    id: folder.id,
+    name: folder.name,
+  })),
+  folders: contents.folders.map(serializeFolder),
+  documents: contents.documents.map((doc) => ({
+    id: doc.id,
+    name: doc.name,
+    mimeType: doc.mimeType,
+    filePath: doc.filePath,
+    size: doc.size,
+    tags: doc.tags,
+    metadata: doc.metadata,
+    folderId: doc.folderId,
+    ownerId: doc.ownerId,
+    version: doc.version,
+    createdAt: new Date(doc.createdAt.epochMillis).toISOString(),
+    updatedAt: new Date(doc.updatedAt.epochMillis).toISOString(),
+  })),
+})
+
+// Create folder (admin only)
+const createFolderHandler = base.createFolder.handler(
+  requireAdmin(async ({ input, context }) => {
+    const folderWorkflows = container.resolve(FolderWorkflows)
+    const result = await folderWorkflows.createFolder(context.user, input)
+
+    if (result.isErr()) {
+      return handleAppResult(result)
+    }
+
+    return serializeFolder(result.unwrap())
+  }),
+)
+
+// List root folders and documents (authenticated)
+const getRootChildrenHandler = base.getRootChildren.handler(
+  async ({ context }) => {
+    const folderWorkflows = container.resolve(FolderWorkflows)
+    const result = await folderWorkflows.getFolderChildren(context.user, null)
+
+    if (result.isErr()) {
+      return handleAppResult(result)
+    }
+
+    return serializeContents(result.unwrap())
+  },
+)
+
+// Get folder by ID (authenticated)
+const getFolderByIdHandler = base.getFolderById.handler(async ({ input }) => {
+  const folderWorkflows = container.resolve(FolderWorkflows)
+  const result = await folderWorkflows.getFolderById(input.params.id)
+
+  if (result.isErr()) {
+    return handleAppResult(result)
+  }
+
+  return serializeFolder(result.unwrap())
+})
+
+// List folder children with breadcrumbs (authenticated)
+const getFolderChildrenHandler = base.getFolderChildren.handler(
+  async ({ input, context }) => {
+    const folderWorkflows = container.resolve(FolderWorkflows)
+    const result = await folderWorkflows.getFolderChildren(
+      context.user,
+      input.params.id,
+    )
+
+    if (result.isErr()) {
+      return handleAppResult(result)
+    }
+
+    return serializeContents(result.unwrap())
+  },
+)
+
+// Rename folder (admin only)
+const renameFolderHandler = base.renameFolder.handler(
+  requireAdmin(async ({ input, context }) => {
+    const folderWorkflows = container.resolve(FolderWorkflows)
+    const result = await folderWorkflows.renameFolder(
+      context.user,
+      input.params.id,
+      { data: input.body },
+    )
+
+    if (result.isErr()) {
+      return handleAppResult(result)
+    }
+
+    return serializeFolder(result.unwrap())
+  }),
+)
+
+// Move folder (admin only)
+const moveFolderHandler = base.moveFolder.handler(
+  requireAdmin(async ({ input, context }) => {
+    const folderWorkflows = container.resolve(FolderWorkflows)
+    const result = await folderWorkflows.moveFolder(
+      context.user,
+      input.params.id,
+      { data: input.body },
+    )
+
+    if (result.isErr()) {
+      return handleAppResult(result)
+    }
+
+    return serializeFolder(result.unwrap())
+  }),
+)
+
+// Delete folder (admin only)
+const deleteFolderHandler = base.deleteFolder.handler(
+  requireAdmin(async ({ input, context }) => {
+    const folderWorkflows = container.resolve(FolderWorkflows)
+    const result = await folderWorkflows.deleteFolder(
+      context.user,
+      input.params.id,
+    )
+
+    return handleAppResult(result)
+  }),
+)
+
+export default base.router({
+  createFolder: createFolderHandler,
+  getRootChildren: getRootChildrenHandler,
+  getFolderById: getFolderByIdHandler,
+  getFolderChildren: getFolderChildrenHandler,
+  renameFolder: renameFolderHandler,
+  moveFolder: moveFolderHandler,
+  deleteFolder: deleteFolderHandler,
+})
@@ -3,6 +3,9 @@ import { authenticated, publicRoutes as publicBase } from "../utils/orpc"
 // import userRouter from "./user-orpc"
 import userRouter from "./user"
 import documentRouter from "./document"
+import folderRouter from "./folder"
+import auditRouter from "./audit"
+import webhookRouter from "./webhook"
 
 export const router = {
   public: publicBase.router({}),
@@ -11,6 +14,9 @@ export const router = {
     user: userRouter, // New user management routes
     // groceryList: groceryListRouter,
     document: documentRouter,
+    folder: folderRouter,
+    audit: auditRouter,
+    webhook: webhookRouter,
   }),
 }
 
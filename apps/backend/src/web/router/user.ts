@@ -3,6 +3,7 @@ import { container } from "tsyringe"
 import { authenticated } from "../utils/orpc"
 import { handleAppResult } from "../utils/result-handler"
 import { requireAdmin } from "../utils/rbac"
+import { expectedVersion, versionTag } from "../utils/version-tag"
 
 const base = authenticated.user
 
@@ -45,6 +46,7 @@ const getUsersHandler = base.getUsers.handler(requireAdmin(async ({ input, conte
     id: user.id,
     email: user.email,
     role: user.role,
+    version: user.version,
     createdAt: new Date(user.createdAt.epochMillis).toISOString(),
     updatedAt: new Date(user.updatedAt.epochMillis).toISOString(),
   }))
@@ -73,10 +75,12 @@ const getUserByIdHandler = base.getUserById.handler(requireAdmin(async ({ input,
   }
   
   const user = result.unwrap()
+  context.resHeaders?.set("ETag", versionTag(user.version))
   return {
     id: user.id,
     email: user.email,
     role: user.role,
+    version: user.version,
     createdAt: new Date(user.createdAt.epochMillis).toISOString(),
     updatedAt: new Date(user.updatedAt.epochMillis).toISOString(),
   }
@@ -85,9 +89,16 @@ const getUserByIdHandler = base.getUserById.handler(requireAdmin(async ({ input,
 // Update user role (admin only)
 const updateUserRoleHandler = base.updateUserRole.handler(requireAdmin(async ({ input, context }) => {
   const userWorkflows = container.resolve(UserWorkflows)
-  const result = await userWorkflows.updateUserRole(context.user, input.params.id, { data: input.body })
+  const result = await userWorkflows.updateUserRole(
+    context.user,
+    input.params.id,
+    { data: input.body },
+    expectedVersion(input.headers["if-match"])
+  )
   
-  return handleAppResult(result)
+  const { version, ...response } = handleAppResult(result)
+  context.resHeaders?.set("ETag", versionTag(version))
+  return response
 }))
 
 
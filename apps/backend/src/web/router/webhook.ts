@@ -0,0 +1,169 @@
+import { WebhookWorkflows } from "@application/workflows"
+import type { WebhookDeliveryEntity, WebhookEntity } from "@domain/webhook"
+import { container } from "tsyringe"
+import { authenticated } from "../utils/orpc"
+import { requireAdmin } from "../utils/rbac"
+import { handleAppResult } from "../utils/result-handler"
+
+const base = authenticated.webhook
+
+// Everything but the secret, which is only returned when the webhook is registered
+const serializeWebhook = (webhook: WebhookEntity) => ({
+  id: webhook.id,
+  url: webhook.url,
+  events: webhook.events,
+  active: webhook.active,
+  description: webhook.description,
+  createdBy: webhook.createdBy,
+  createdAt: new Date(webhook.createdAt.epochMillis).toISOString(),
+  updatedAt: new Date(webhook.updatedAt.epochMillis).toISOString(),
+})
+
+const serializeDelivery = (delivery: WebhookDeliveryEntity) => ({
+  id: delivery.id,
+  webhookId: delivery.webhookId,
+  event: delivery.event,
+  payload: delivery.payload,
+  status: delivery.status,
+  attempts: delivery.attempts,
+  responseStatus: delivery.responseStatus,
+  responseBody: delivery.responseBody,
+  error: delivery.error,
+  redeliveryOf: delivery.redeliveryOf,
+  createdAt: new Date(delivery.createdAt.epochMillis).toISOString(),
+  updatedAt: new Date(delivery.updatedAt.epochMillis).toISOString(),
+})
+
+// Register webhook (admin only)
+const createWebhookHandler = base.createWebhook.handler(
+  requireAdmin(async ({ input, context }) => {
+    const webhookWorkflows = container.resolve(WebhookWorkflows)
+    const result = await webhookWorkflows.createWebhook(context.user, input)
+
+    if (result.isErr()) {
+      return handleAppResult(result)
+    }
+
+    const webhook = result.unwrap()
+    return { ...serializeWebhook(webhook), secret: webhook.secret }
+  }),
+)
+
+// List webhooks (admin only)
+const getWebhooksHandler = base.getWebhooks.handler(
+  requireAdmin(async ({ context }) => {
+    const webhookWorkflows = container.resolve(WebhookWorkflows)
+    const result = await webhookWorkflows.getWebhooks(context.user)
+
+    if (result.isErr()) {
+      return handleAppResult(result)
+    }
+
+    return result.unwrap().map(serializeWebhook)
+  }),
+)
+
+// Get webhook by ID (admin only)
+const getWebhookByIdHandler = base.getWebhookById.handler(
+  requireAdmin(async ({ input, context }) => {
+    const webhookWorkflows = container.resolve(WebhookWorkflows)
+    const result = await webhookWorkflows.getWebhookById(
+      context.user,
+      input.params.id,
+    )
+
+    if (result.isErr()) {
+      return handleAppResult(result)
+    }
+
+    return serializeWebhook(result.unwrap())
+  }),
+)
+
+// Update webhook (admin only)
+const updateWebhookHandler = base.updateWebhook.handler(
+  requireAdmin(async ({ input, context }) => {
+    const webhookWorkflows = container.resolve(WebhookWorkflows)
+    const result = await webhookWorkflows.updateWebhook(
+      context.user,
+      input.params.id,
+      { data: input.body },
+    )
+
+    if (result.isErr()) {
+      return handleAppResult(result)
+    }
+
+    return serializeWebhook(result.unwrap())
+  }),
+)
+
+// Delete webhook (admin only)
+const deleteWebhookHandler = base.deleteWebhook.handler(
+  requireAdmin(async ({ input, context }) => {
+    const webhookWorkflows = container.resolve(WebhookWorkflows)
+    const result = await webhookWorkflows.deleteWebhook(
+      context.user,
+      input.params.id,
+    )
+
+    return handleAppResult(result)
+  }),
+)
+
+// List the deliveries of a webhook (admin only)
+const getWebhookDeliveriesHandler = base.getWebhookDeliveries.handler(
+  requireAdmin(async ({ input, context }) => {
+    const webhookWorkflows = container.resolve(WebhookWorkflows)
+    const { page = 1, limit = 10 } = input.query
+
+    const result = await webhookWorkflows.getWebhookDeliveries(
+      context.user,
+      input.params.id,
+      { data: { page, limit } },
+    )
+
+    if (result.isErr()) {
+      return handleAppResult(result)
+    }
+
+    const { deliveries, total } = result.unwrap()
+    return {
+      deliveries: deliveries.map(serializeDelivery),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    }
+  }),
+)
+
+// Send a delivery again (admin only)
+const redeliverWebhookDeliveryHandler = base.redeliverWebhookDelivery.handler(
+  requireAdmin(async ({ input, context }) => {
+    const webhookWorkflows = container.resolve(WebhookWorkflows)
+    const result = await webhookWorkflows.redeliverWebhookDelivery(
+      context.user,
+      input.params.id,
+      input.params.deliveryId,
+    )
+
+    if (result.isErr()) {
+      return handleAppResult(result)
+    }
+
+    return serializeDelivery(result.unwrap())
+  }),
+)
+
+export default base.router({
+  createWebhook: createWebhookHandler,
+  getWebhooks: getWebhooksHandler,
+  getWebhookById: getWebhookByIdHandler,
+  updateWebhook: updateWebhookHandler,
+  deleteWebhook: deleteWebhookHandler,
+  getWebhookDeliveries: getWebhookDeliveriesHandler,
+  redeliverWebhookDelivery: redeliverWebhookDeliveryHandler,
+})
@@ -11,9 +11,22 @@ import { container } from "tsyringe"
 import config from "@/infra/config"
 import { addOpenApiDocs } from "./utils/openapidocs.handler"
 import { wireDi } from "@/infra/di"
+import { openEmbeddedDb } from "@/infra/db/conn"
+import { startJobs } from "@/infra/jobs"
 import { CORS_TRUSTED_ORIGINS } from "@/constants"
 import { DocumentWorkflows } from "@application/workflows"
-import { getFileStreamingOptions, getContentDisposition, getCacheHeaders } from "./utils/file-streaming.utils"
+import { WebhookDispatcher } from "@application/services/webhooks"
+import {
+  getFileStreamingOptions,
+  getContentDisposition,
+  getCacheHeaders,
+  getEntityTag,
+  isNotModified,
+  isRangeFresh,
+  parseRangeHeader,
+} from "./utils/file-streaming.utils"
+import { addTusUploadRoutes, TUS_EXPOSED_HEADERS } from "./utils/tus.handler"
+import { auditContext } from "./utils/audit-context"
 
 
 // =============================================================================
@@ -24,7 +37,7 @@ function loadConfigs() {
   console.log("📋 Loading configurations...")
   
   // Validate essential configs
-  if (!config.db.DB_URL) {
+  if (config.db.DB_BACKEND === "postgres" && config.db.DB_DRIVER === "postgres-js" && !config.db.DB_URL) {
     throw new Error("Database URL is required")
   }
   if (!config.auth.JWT_SECRET) {
@@ -37,11 +50,30 @@ function loadConfigs() {
   console.log("✅ Configurations loaded successfully")
   console.log(`   Environment: ${config.app.NODE_ENV}`)
   console.log(`   Port: ${config.app.PORT}`)
+  console.log(`   Database Backend: ${config.db.DB_BACKEND}`)
+  if (config.db.DB_BACKEND === "postgres") {
+    console.log(`   Database Driver: ${config.db.DB_DRIVER}`)
+  }
   console.log(`   Storage Backend: ${config.storage.backend}`)
+  if (config.storage.migration.source) {
+    console.log(`   Storage Migration: reading files not yet moved from ${config.storage.migration.source}`)
+  }
   
   return config
 }
 
+async function openDatabase() {
+  if (config.db.DB_BACKEND !== "postgres" || config.db.DB_DRIVER !== "pglite") {
+    return undefined
+  }
+
+  console.log(`🗄️  Opening embedded database in ${config.db.PGLITE_DATA_DIR}...`)
+  const closeDb = await openEmbeddedDb()
+  console.log("✅ Embedded database migrated")
+
+  return closeDb
+}
+
 function initializeDI() {
   console.log("🔧 Initializing dependency injection...")
   wireDi()
@@ -59,32 +91,76 @@ function addFileDownloadRoute(app: Hono, container: any) {
       }
       
       const documentWorkflows = container.resolve(DocumentWorkflows)
-      const result = await documentWorkflows.downloadDocumentByToken(token)
+      const result = await documentWorkflows.resolveDownload(token)
       
       if (result.isErr()) {
         const error = result.unwrapErr()
         return c.json({ error: error.message }, 404)
       }
       
-      const { document, file } = result.unwrap()
+      const download = result.unwrap()
+      const { document, version } = download
       
-      // Get enhanced file streaming options
-      const streamingOptions = getFileStreamingOptions(document.name, document.mimeType, file)
+      // Get enhanced file streaming options (a version-pinned token serves that version's file)
+      const file = version ?? document
+      const lastModified = version ? new Date(version.createdAt.epochMillis) : new Date(document.updatedAt.epochMillis)
+      const validators = { etag: getEntityTag(file.contentHash, file.size, lastModified), lastModified }
+      const streamingOptions = getFileStreamingOptions(document.name, file.mimeType, file.size)
       const contentDisposition = getContentDisposition(document.name, streamingOptions.mimeType)
-      const cacheHeaders = getCacheHeaders(streamingOptions.mimeType)
+      const cacheHeaders = getCacheHeaders(streamingOptions.mimeType, validators)
+      
+      // Conditional GET - the client's copy is still current
+      const notModified = isNotModified(
+        { ifNoneMatch: c.req.header('If-None-Match'), ifModifiedSince: c.req.header('If-Modified-Since') },
+        validators
+      )
+      if (notModified) {
+        return new Response(null, { status: 304, headers: cacheHeaders })
+      }
+      
+      const range = isRangeFresh(c.req.header('If-Range'), validators)
+        ? parseRangeHeader(c.req.header('Range'), streamingOptions.fileSize)
+        : { type: 'full' as const }
+      
+      if (range.type === 'unsatisfiable') {
+        return new Response(null, {
+          status: 416,
+          headers: { 'Content-Range': `bytes */${streamingOptions.fileSize}` },
+        })
+      }
       
-      // Return streaming file response with proper headers
-      return new Response(streamingOptions.fileBuffer, {
+      const streamResult = await documentWorkflows.openDownloadStream(
+        download,
+        range.type === 'partial' ? { start: range.start, end: range.end } : undefined
+      )
+      if (streamResult.isErr()) {
+        return c.json({ error: streamResult.unwrapErr().message }, 404)
+      }
+      
+      const headers: Record<string, string> = {
+        'Content-Type': streamingOptions.mimeType,
+        'Content-Disposition': contentDisposition,
+        'Accept-Ranges': 'bytes',
+        'X-Content-Type-Options': 'nosniff',
+        'X-Frame-Options': 'DENY',
+        ...cacheHeaders,
+      }
+      
+      // Return streaming file response - the whole file, or the requested part of it
+      if (range.type === 'partial') {
+        return new Response(streamResult.unwrap(), {
+          status: 206,
+          headers: {
+            ...headers,
+            'Content-Length': (range.end - range.start + 1).toString(),
+            'Content-Range': `bytes ${range.start}-${range.end}/${streamingOptions.fileSize}`,
+          },
+        })
+      }
+      
+      return new Response(streamResult.unwrap(), {
         status: 200,
-        headers: {
-          'Content-Type': streamingOptions.mimeType,
-          'Content-Length': streamingOptions.fileSize.toString(),
-          'Content-Disposition': contentDisposition,
-          'Accept-Ranges': 'bytes',
-          'X-Content-Type-Options': 'nosniff',
-          'X-Frame-Options': 'DENY',
-          ...cacheHeaders,
-        },
+        headers: { ...headers, 'Content-Length': streamingOptions.fileSize.toString() },
       })
     } catch (error) {
       console.error("File download error:", error)
@@ -102,18 +178,20 @@ function createServer(): Hono {
   
   // Add middleware
   app.use(logger())
+  app.use(auditContext())
   app.use(
     "/*",
     cors({
       origin: CORS_TRUSTED_ORIGINS,
       allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS", "PATCH", "HEAD"],
       credentials: true,
-      exposeHeaders: ["Set-Cookie"],
+      exposeHeaders: ["Set-Cookie", ...TUS_EXPOSED_HEADERS],
     }),
   )
   
   // Add direct file download route FIRST (before ORPC to avoid conflicts)
   addFileDownloadRoute(app, container)
+  addTusUploadRoutes(app, container)
   
   // Add route handlers
   addRpcHandler(app, container)
@@ -130,16 +208,30 @@ function createServer(): Hono {
 
 
 
-function setupGracefulShutdown(server: any) {
+function setupGracefulShutdown(server: any, stopJobs: () => void, closeDb?: () => Promise<void>) {
   const shutdown = async (signal: string) => {
     console.log(`\n🛑 Received ${signal}, initiating graceful shutdown...`)
     
     try {
+      // Stop background jobs
+      stopJobs()
+      console.log("✅ Background jobs stopped")
+
       // Stop Bun server
       if (server) {
         server.stop()
         console.log("✅ Server stopped")
       }
+
+      // Let webhook deliveries in progress finish rather than leave them pending
+      await container.resolve(WebhookDispatcher).settle()
+      console.log("✅ Webhook deliveries settled")
+
+      // The embedded database writes everything to disk as it closes
+      if (closeDb) {
+        await closeDb()
+        console.log("✅ Database closed")
+      }
       
       console.log("✅ Graceful shutdown completed")
       process.exit(0)
@@ -167,13 +259,16 @@ async function bootstrap() {
     // Step 1: Load configurations
     const configs = loadConfigs()
     
-    // Step 2: Initialize dependency injection
+    // Step 2: Open the embedded database, migrated to the current schema (DB_DRIVER=pglite)
+    const closeDb = await openDatabase()
+
+    // Step 3: Initialize dependency injection
     initializeDI()
     
-    // Step 3: Create server
+    // Step 4: Create server
     const app = createServer()
     
-    // Step 4: Start server
+    // Step 5: Start server
     console.log(`\n🌐 Starting server on port ${configs.app.PORT}...`)
     
     const server = Bun.serve({
@@ -181,8 +276,12 @@ async function bootstrap() {
       fetch: app.fetch,
     })
     
-    // Step 5: Setup graceful shutdown (after server is created)
-    setupGracefulShutdown(server)
+    // Step 6: Start background jobs (trash and stale upload purges)
+    const stopJobs = startJobs()
+    console.log(`   Trash retention: ${configs.jobs.trash.retentionDays} days`)
+
+    // Step 7: Setup graceful shutdown (after server is created)
+    setupGracefulShutdown(server, stopJobs, closeDb)
     
     console.log(`✅ Server started successfully!`)
     console.log(`   URL: http://localhost:${configs.app.PORT}`)
@@ -6,11 +6,16 @@ describe("Effect Schema Converter - Error Handling & Edge Cases", () => {
   describe("Error handling", () => {
     test("should throw meaningful error for unsupported schema types", () => {
       // Create a schema that might not be supported
-      const schema = S.Unknown
+      const schema = S.SymbolFromSelf
 
       expect(() => convertEffectSchemaToOpenAPI(schema)).toThrow()
     })
 
+    test("should accept anything for unknown and any", () => {
+      expect(convertEffectSchemaToOpenAPI(S.Unknown)).toEqual({})
+      expect(convertEffectSchemaToOpenAPI(S.Any)).toEqual({})
+    })
+
     test("should handle empty object schemas", () => {
       const schema = S.Struct({})
       const result = convertEffectSchemaToOpenAPI(schema)
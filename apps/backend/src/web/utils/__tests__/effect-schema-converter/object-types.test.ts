@@ -196,5 +196,15 @@ describe("Effect Schema Converter - Object Types", () => {
         },
       })
     })
+
+    test("should allow any values in a record of unknowns", () => {
+      const schema = S.Record({ key: S.String, value: S.Unknown })
+      const result = convertEffectSchemaToOpenAPI(schema)
+
+      expect(result).toEqual({
+        type: "object",
+        additionalProperties: {},
+      })
+    })
   })
 })
@@ -0,0 +1,131 @@
+import { describe, expect, test } from "bun:test"
+import {
+  getEntityTag,
+  isNotModified,
+  isRangeFresh,
+  parseRangeHeader,
+} from "../file-streaming.utils"
+
+describe("File Streaming Utils", () => {
+  describe("parseRangeHeader", () => {
+    test("should parse a closed range", () => {
+      expect(parseRangeHeader("bytes=0-99", 1000)).toEqual({
+        type: "partial",
+        start: 0,
+        end: 99,
+      })
+    })
+
+    test("should parse open-ended and suffix ranges", () => {
+      expect(parseRangeHeader("bytes=900-", 1000)).toEqual({
+        type: "partial",
+        start: 900,
+        end: 999,
+      })
+      expect(parseRangeHeader("bytes=-100", 1000)).toEqual({
+        type: "partial",
+        start: 900,
+        end: 999,
+      })
+      expect(parseRangeHeader("bytes=-5000", 1000)).toEqual({
+        type: "partial",
+        start: 0,
+        end: 999,
+      })
+    })
+
+    test("should clamp a range running past the end of the file", () => {
+      expect(parseRangeHeader("bytes=500-5000", 1000)).toEqual({
+        type: "partial",
+        start: 500,
+        end: 999,
+      })
+    })
+
+    test("should flag ranges starting past the end of the file", () => {
+      expect(parseRangeHeader("bytes=1000-", 1000)).toEqual({
+        type: "unsatisfiable",
+      })
+      expect(parseRangeHeader("bytes=-0", 1000)).toEqual({
+        type: "unsatisfiable",
+      })
+    })
+
+    test("should serve the full file for missing, malformed or multiple ranges", () => {
+      expect(parseRangeHeader(undefined, 1000)).toEqual({ type: "full" })
+      expect(parseRangeHeader("bytes=50-10", 1000)).toEqual({ type: "full" })
+      expect(parseRangeHeader("items=0-10", 1000)).toEqual({ type: "full" })
+      expect(parseRangeHeader("bytes=0-10,20-30", 1000)).toEqual({
+        type: "full",
+      })
+    })
+  })
+
+  describe("conditional requests", () => {
+    const lastModified = new Date("2025-01-01T12:00:00.500Z")
+    const validators = {
+      etag: getEntityTag("abc123", 10, lastModified),
+      lastModified,
+    }
+
+    test("should build strong ETags from the content hash and weak ones without it", () => {
+      expect(getEntityTag("abc123", 10, lastModified)).toBe('"abc123"')
+      expect(getEntityTag(undefined, 10, lastModified)).toStartWith('W/"')
+    })
+
+    test("should match If-None-Match with the weak comparison", () => {
+      expect(isNotModified({ ifNoneMatch: '"abc123"' }, validators)).toBe(true)
+      expect(isNotModified({ ifNoneMatch: 'W/"abc123"' }, validators)).toBe(
+        true,
+      )
+      expect(
+        isNotModified({ ifNoneMatch: '"other", "abc123"' }, validators),
+      ).toBe(true)
+      expect(isNotModified({ ifNoneMatch: "*" }, validators)).toBe(true)
+      expect(isNotModified({ ifNoneMatch: '"other"' }, validators)).toBe(false)
+    })
+
+    test("should compare If-Modified-Since with second precision", () => {
+      expect(
+        isNotModified(
+          { ifModifiedSince: lastModified.toUTCString() },
+          validators,
+        ),
+      ).toBe(true)
+      expect(
+        isNotModified(
+          { ifModifiedSince: "Tue, 31 Dec 2024 12:00:00 GMT" },
+          validators,
+        ),
+      ).toBe(false)
+      expect(isNotModified({ ifModifiedSince: "not a date" }, validators)).toBe(
+        false,
+      )
+    })
+
+    test("should let If-None-Match take precedence over If-Modified-Since", () => {
+      expect(
+        isNotModified(
+          {
+            ifNoneMatch: '"other"',
+            ifModifiedSince: lastModified.toUTCString(),
+          },
+          validators,
+        ),
+      ).toBe(false)
+    })
+
+    test("should only honour If-Range with a matching strong ETag or date", () => {
+      expect(isRangeFresh(undefined, validators)).toBe(true)
+      expect(isRangeFresh('"abc123"', validators)).toBe(true)
+      expect(isRangeFresh('"other"', validators)).toBe(false)
+      expect(isRangeFresh(lastModified.toUTCString(), validators)).toBe(true)
+
+      const weak = {
+        ...validators,
+        etag: getEntityTag(undefined, 10, lastModified),
+      }
+      expect(isRangeFresh(weak.etag, weak)).toBe(false)
+    })
+  })
+})
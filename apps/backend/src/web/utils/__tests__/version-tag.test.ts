@@ -0,0 +1,27 @@
+import { describe, expect, test } from "bun:test"
+import { ORPCError } from "@orpc/server"
+import { expectedVersion, versionTag } from "../version-tag"
+
+describe("Version Tags", () => {
+  test("should tag versions as strong ETags", () => {
+    expect(versionTag(3)).toBe('"3"')
+    expect(versionTag(undefined)).toBe('"1"')
+  })
+
+  test("should read the version of a single tag", () => {
+    expect(expectedVersion('"3"')).toBe(3)
+    expect(expectedVersion(' "12" ')).toBe(12)
+  })
+
+  test("should expect no version without the header or for *", () => {
+    expect(expectedVersion(undefined)).toBeUndefined()
+    expect(expectedVersion("")).toBeUndefined()
+    expect(expectedVersion("*")).toBeUndefined()
+  })
+
+  test("should refuse weak tags, lists and anything else", () => {
+    for (const ifMatch of ['W/"3"', '"3", "4"', "3", '"abc"']) {
+      expect(() => expectedVersion(ifMatch)).toThrow(ORPCError)
+    }
+  })
+})
@@ -0,0 +1,33 @@
+import { AuditLogger } from "@application/services/audit"
+import type { Context, MiddlewareHandler } from "hono"
+import { getConnInfo } from "hono/bun"
+import config from "@/infra/config"
+
+const clientAddress = (c: Context): string | undefined => {
+  if (config.app.TRUST_PROXY) {
+    // The first entry is the client, the rest are the proxies it went through
+    const forwarded = c.req.header("X-Forwarded-For")?.split(",")[0]?.trim()
+    if (forwarded) {
+      return forwarded
+    }
+  }
+
+  try {
+    return getConnInfo(c).remote.address
+  } catch {
+    // Requests that didn't come through Bun.serve (e.g. app.request in tests) have no connection
+    return undefined
+  }
+}
+
+/**
+ * Stamp every audit event recorded while handling a request with where the request came from
+ */
+export const auditContext = (): MiddlewareHandler => async (c, next) =>
+  AuditLogger.runWithContext(
+    {
+      ipAddress: clientAddress(c),
+      userAgent: c.req.header("User-Agent"),
+    },
+    next,
+  )
@@ -66,6 +66,10 @@ function convertASTNode(ast: AST, context: SchemaVisitContext): SchemaObject {
       return { type: "null" }
     case "UndefinedKeyword":
       return {} as SchemaObject
+    // Free-form values (e.g. JSON payloads) - the empty schema accepts anything
+    case "UnknownKeyword":
+    case "AnyKeyword":
+      return {} as SchemaObject
     case "Literal":
       return convertLiteral(ast)
     case "TypeLiteral":
@@ -552,6 +556,8 @@ function isAutoGeneratedTitle(value: unknown): boolean {
     "boolean",
     "undefined",
     "null",
+    "unknown",
+    "any",
     "nonEmptyString",
     "int",
     "greaterThan",
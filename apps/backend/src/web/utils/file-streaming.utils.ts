@@ -6,34 +6,44 @@ export interface FileStreamingOptions {
   mimeType: string
   fileName: string
   fileSize: number
-  fileBuffer: Buffer
 }
 
+// Validators sent with a file so clients can revalidate it with conditional requests
+export interface FileValidators {
+  etag: string
+  lastModified: Date
+}
+
+// Result of parsing a Range header against the file size; byte positions are inclusive
+export type RangeRequest =
+  | { type: "full" }
+  | { type: "partial"; start: number; end: number }
+  | { type: "unsatisfiable" }
+
 /**
  * Get proper MIME type and streaming options for different file types
  */
 export function getFileStreamingOptions(
   fileName: string,
   mimeType: string,
-  fileBuffer: Buffer
+  fileSize: number
 ): FileStreamingOptions {
   const extension = fileName.split('.').pop()?.toLowerCase() || ''
   
-  // Enhanced MIME type detection based on file extension and content
-  const detectedMimeType = getEnhancedMimeType(extension, mimeType, fileBuffer)
+  // Enhanced MIME type detection based on file extension
+  const detectedMimeType = getEnhancedMimeType(extension, mimeType)
   
   return {
     mimeType: detectedMimeType,
     fileName,
-    fileSize: fileBuffer.length,
-    fileBuffer,
+    fileSize,
   }
 }
 
 /**
  * Enhanced MIME type detection
  */
-function getEnhancedMimeType(extension: string, originalMimeType: string, fileBuffer: Buffer): string {
+function getEnhancedMimeType(extension: string, originalMimeType: string): string {
   // If we have a valid original MIME type, use it
   if (originalMimeType && originalMimeType !== 'application/octet-stream') {
     return originalMimeType
@@ -163,7 +173,7 @@ export function getContentDisposition(fileName: string, mimeType: string): strin
 /**
  * Get appropriate cache headers based on file type
  */
-export function getCacheHeaders(mimeType: string): Record<string, string> {
+export function getCacheHeaders(mimeType: string, validators: FileValidators): Record<string, string> {
   // Static assets that can be cached
   const cacheableTypes = [
     'image/',
@@ -176,17 +186,119 @@ export function getCacheHeaders(mimeType: string): Record<string, string> {
   
   const shouldCache = cacheableTypes.some(type => mimeType.startsWith(type))
   
+  const validatorHeaders = {
+    'ETag': validators.etag,
+    'Last-Modified': validators.lastModified.toUTCString(),
+  }
+  
   if (shouldCache) {
     return {
       'Cache-Control': 'public, max-age=31536000', // 1 year
-      'ETag': `"${Date.now()}"`,
+      ...validatorHeaders,
     }
   }
   
-  // Sensitive documents should not be cached
+  // Sensitive documents are never stored in shared caches, and are revalidated on every use
   return {
-    'Cache-Control': 'no-cache, no-store, must-revalidate',
-    'Pragma': 'no-cache',
-    'Expires': '0',
+    'Cache-Control': 'private, no-cache',
+    ...validatorHeaders,
+  }
+}
+
+/**
+ * Build the ETag of a file - strong from its content hash, or weak from its size and
+ * modification time for files uploaded before content hashing
+ */
+export function getEntityTag(contentHash: string | undefined, fileSize: number, lastModified: Date): string {
+  if (contentHash) {
+    return `"${contentHash}"`
+  }
+  
+  return `W/"${fileSize.toString(16)}-${lastModified.getTime().toString(16)}"`
+}
+
+// If-None-Match uses the weak comparison: W/"x" and "x" match
+function stripWeakPrefix(etag: string): string {
+  return etag.startsWith('W/') ? etag.slice(2) : etag
+}
+
+// HTTP dates only have second precision
+function toHttpSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000)
+}
+
+/**
+ * Whether a GET can be answered with 304 Not Modified (RFC 9110 section 13.2.2):
+ * If-None-Match wins over If-Modified-Since when both are sent
+ */
+export function isNotModified(
+  headers: { ifNoneMatch?: string; ifModifiedSince?: string },
+  validators: FileValidators
+): boolean {
+  if (headers.ifNoneMatch) {
+    const etag = stripWeakPrefix(validators.etag)
+    return headers.ifNoneMatch
+      .split(',')
+      .map((tag) => tag.trim())
+      .some((tag) => tag === '*' || stripWeakPrefix(tag) === etag)
+  }
+  
+  if (headers.ifModifiedSince) {
+    const since = Date.parse(headers.ifModifiedSince)
+    return !Number.isNaN(since) && toHttpSeconds(validators.lastModified) <= Math.floor(since / 1000)
   }
+  
+  return false
+}
+
+/**
+ * Whether the Range header still applies given an If-Range precondition - a client resuming a
+ * download with a stale validator gets the whole (changed) file instead of a mismatched part
+ */
+export function isRangeFresh(ifRange: string | undefined, validators: FileValidators): boolean {
+  if (!ifRange) {
+    return true
+  }
+  
+  // Only strong ETags can be used for ranges
+  if (ifRange.startsWith('"')) {
+    return !validators.etag.startsWith('W/') && ifRange === validators.etag
+  }
+  
+  const date = Date.parse(ifRange)
+  return !Number.isNaN(date) && toHttpSeconds(validators.lastModified) === Math.floor(date / 1000)
+}
+
+/**
+ * Parse a Range header (RFC 9110 section 14.2) into inclusive byte positions. Only single
+ * ranges are served - multiple ranges, other units and malformed headers get the full file.
+ */
+export function parseRangeHeader(header: string | undefined, fileSize: number): RangeRequest {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/)
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return { type: 'full' }
+  }
+  
+  const [, first, last] = match
+  
+  // Suffix range: the last N bytes
+  if (first === '') {
+    const suffixLength = Number(last)
+    if (suffixLength === 0 || fileSize === 0) {
+      return { type: 'unsatisfiable' }
+    }
+    return { type: 'partial', start: Math.max(fileSize - suffixLength, 0), end: fileSize - 1 }
+  }
+  
+  const start = Number(first)
+  const end = last === '' ? fileSize - 1 : Math.min(Number(last), fileSize - 1)
+  
+  if (last !== '' && Number(last) < start) {
+    return { type: 'full' } // Syntactically invalid, so the header is ignored
+  }
+  if (start >= fileSize) {
+    return { type: 'unsatisfiable' }
+  }
+  
+  return { type: 'partial', start, end }
 }
@@ -33,6 +33,13 @@ export const handleAppResult = <T>(result: ApplicationResult<T>): T => {
     case "Conflict":
       throw new ORPCError("CONFLICT", { message, status: 409, cause: error })
 
+    case "PreconditionFailed":
+      throw new ORPCError("PRECONDITION_FAILED", {
+        message,
+        status: 412,
+        cause: error,
+      })
+
     case "ExternalServiceError":
       throw new ORPCError("BAD_GATEWAY", { message, status: 502, cause: error })
 
@@ -0,0 +1,260 @@
+import { CreateDocumentUploadDto } from "@application/dtos/document.dto"
+import type {
+  AppError,
+  ApplicationResult,
+} from "@application/utils/application-result.utils"
+import { DocumentWorkflows } from "@application/workflows"
+import type { DocumentUploadEntity } from "@domain/document"
+import type { UserEntity } from "@domain/user/user.entity"
+import type { Context, Hono } from "hono"
+import type { DependencyContainer } from "tsyringe"
+import config from "@/infra/config"
+import { createAuthContext } from "./auth-context"
+
+// tus 1.0 resumable uploads - https://tus.io/protocols/resumable-upload
+const TUS_VERSION = "1.0.0"
+const TUS_EXTENSIONS = "creation,termination,expiration"
+const UPLOADS_PATH = "/api/files/uploads"
+
+const HOUR_MS = 60 * 60 * 1000
+
+const tusHeaders = {
+  "Tus-Resumable": TUS_VERSION,
+}
+
+// Headers a browser client needs to read from tus responses
+export const TUS_EXPOSED_HEADERS = [
+  "Location",
+  "Upload-Offset",
+  "Upload-Length",
+  "Upload-Expires",
+  "Tus-Resumable",
+  "Tus-Version",
+  "Tus-Extension",
+  "Tus-Max-Size",
+  "X-Document-Id",
+]
+
+const statusFor = (error: AppError) => {
+  switch (error.status) {
+    case "NotFound":
+      return 404
+    case "Unauthorized":
+      return 401
+    case "Forbidden":
+      return 403
+    case "InvalidData":
+      return 400
+    case "Conflict":
+      return 409
+    default:
+      return 500
+  }
+}
+
+const errorResponse = (status: number, message: string) =>
+  new Response(message, {
+    status,
+    headers: { ...tusHeaders, "Content-Type": "text/plain" },
+  })
+
+const appErrorResponse = (result: ApplicationResult<never>) => {
+  const error = result.unwrapErr()
+  if (statusFor(error) === 500) {
+    console.error("Resumable upload error:", error)
+  }
+  return errorResponse(statusFor(error), error.message || "An error occurred")
+}
+
+// Upload-Metadata is a comma-separated list of "key base64(value)" pairs
+const parseUploadMetadata = (header: string | undefined) => {
+  const metadata: Record<string, string> = {}
+  if (!header) return metadata
+
+  for (const pair of header.split(",")) {
+    const [key, value] = pair.trim().split(" ")
+    if (key) {
+      metadata[key] = value ? Buffer.from(value, "base64").toString("utf8") : ""
+    }
+  }
+  return metadata
+}
+
+const parseOffset = (value: string | undefined) =>
+  value !== undefined && /^\d+$/.test(value) ? Number(value) : undefined
+
+// Offset and expiry details shared by the HEAD, POST and PATCH responses
+const uploadHeaders = (upload: DocumentUploadEntity) => ({
+  ...tusHeaders,
+  "Upload-Offset": String(upload.offset),
+  "Upload-Length": String(upload.size),
+  ...(upload.isFinalized()
+    ? { "X-Document-Id": String(upload.documentId) }
+    : {
+        "Upload-Expires": new Date(
+          upload.updatedAt.epochMillis +
+            config.jobs.uploads.expiryHours * HOUR_MS,
+        ).toUTCString(),
+      }),
+})
+
+/**
+ * tus endpoints for large files: POST creates an upload, PATCH appends a chunk at the current
+ * offset, HEAD reports the offset to resume from and DELETE terminates the upload. The chunk
+ * that completes an upload creates the document; its id is returned in X-Document-Id.
+ */
+export const addTusUploadRoutes = (
+  app: Hono,
+  container: DependencyContainer,
+) => {
+  const withUser = async (
+    c: Context,
+    handler: (
+      user: UserEntity,
+      documentWorkflows: DocumentWorkflows,
+    ) => Promise<Response>,
+  ) => {
+    try {
+      if (c.req.header("Tus-Resumable") !== TUS_VERSION) {
+        return new Response(null, {
+          status: 412,
+          headers: { ...tusHeaders, "Tus-Version": TUS_VERSION },
+        })
+      }
+
+      const auth = await createAuthContext(c, container)
+      if (auth.isErr()) {
+        return errorResponse(401, "Not authenticated")
+      }
+
+      return await handler(auth.unwrap(), container.resolve(DocumentWorkflows))
+    } catch (error) {
+      console.error("Resumable upload error:", error)
+      return errorResponse(500, "Internal server error")
+    }
+  }
+
+  // Capability discovery
+  const options = () =>
+    new Response(null, {
+      status: 204,
+      headers: {
+        ...tusHeaders,
+        "Tus-Version": TUS_VERSION,
+        "Tus-Extension": TUS_EXTENSIONS,
+        "Tus-Max-Size": String(config.storage.tusMaxSize),
+      },
+    })
+  app.options(UPLOADS_PATH, options)
+  app.options(`${UPLOADS_PATH}/:id`, options)
+
+  // Creation
+  app.post(UPLOADS_PATH, (c) =>
+    withUser(c, async (user, documentWorkflows) => {
+      if (c.req.header("Upload-Defer-Length")) {
+        return errorResponse(400, "Upload-Defer-Length is not supported")
+      }
+
+      const size = parseOffset(c.req.header("Upload-Length"))
+      if (size === undefined) {
+        return errorResponse(400, "Upload-Length header is required")
+      }
+      if (size > config.storage.tusMaxSize) {
+        return errorResponse(413, "Upload exceeds Tus-Max-Size")
+      }
+
+      const metadata = parseUploadMetadata(c.req.header("Upload-Metadata"))
+      const dto = CreateDocumentUploadDto.create({
+        name: metadata.name ?? metadata.filename,
+        size,
+        mimeType: metadata.mimeType ?? metadata.filetype,
+        tags: metadata.tags,
+        metadata: metadata.metadata,
+        folderId: metadata.folderId,
+      })
+      if (dto.isErr()) {
+        return errorResponse(400, dto.unwrapErr().message)
+      }
+
+      const result = await documentWorkflows.createUpload(user, dto.unwrap())
+      if (result.isErr()) {
+        return appErrorResponse(result)
+      }
+
+      const upload = result.unwrap()
+      return new Response(null, {
+        status: 201,
+        headers: {
+          ...uploadHeaders(upload),
+          Location: new URL(`${UPLOADS_PATH}/${upload.id}`, c.req.url).href,
+        },
+      })
+    }),
+  )
+
+  // Offset query - Hono answers HEAD requests with the GET handler minus the body
+  app.get(`${UPLOADS_PATH}/:id`, (c) =>
+    withUser(c, async (user, documentWorkflows) => {
+      const result = await documentWorkflows.getUpload(user, c.req.param("id"))
+      if (result.isErr()) {
+        return appErrorResponse(result)
+      }
+
+      return new Response(null, {
+        status: 200,
+        headers: {
+          ...uploadHeaders(result.unwrap()),
+          "Cache-Control": "no-store",
+        },
+      })
+    }),
+  )
+
+  // Chunk upload
+  app.patch(`${UPLOADS_PATH}/:id`, (c) =>
+    withUser(c, async (user, documentWorkflows) => {
+      if (c.req.header("Content-Type") !== "application/offset+octet-stream") {
+        return errorResponse(
+          415,
+          "Content-Type must be application/offset+octet-stream",
+        )
+      }
+
+      const offset = parseOffset(c.req.header("Upload-Offset"))
+      if (offset === undefined) {
+        return errorResponse(400, "Upload-Offset header is required")
+      }
+
+      const chunk = Buffer.from(await c.req.arrayBuffer())
+      const result = await documentWorkflows.appendUploadChunk(
+        user,
+        c.req.param("id"),
+        offset,
+        chunk,
+      )
+      if (result.isErr()) {
+        return appErrorResponse(result)
+      }
+
+      return new Response(null, {
+        status: 204,
+        headers: uploadHeaders(result.unwrap()),
+      })
+    }),
+  )
+
+  // Termination
+  app.delete(`${UPLOADS_PATH}/:id`, (c) =>
+    withUser(c, async (user, documentWorkflows) => {
+      const result = await documentWorkflows.terminateUpload(
+        user,
+        c.req.param("id"),
+      )
+      if (result.isErr()) {
+        return appErrorResponse(result)
+      }
+
+      return new Response(null, { status: 204, headers: tusHeaders })
+    }),
+  )
+}
@@ -0,0 +1,32 @@
+import { ORPCError } from "@orpc/server"
+
+/**
+ * The ETag of a document or user - its version as a strong tag. Rows saved before versions
+ * existed start at 1.
+ */
+export const versionTag = (version: number | undefined): string =>
+  `"${version ?? 1}"`
+
+/**
+ * The version an If-Match header expects - undefined without the header or for `*`, which matches
+ * whatever version is saved. A save can only check one version, so the header must hold a single
+ * strong tag; weak tags never match.
+ */
+export const expectedVersion = (
+  ifMatch: string | undefined,
+): number | undefined => {
+  const tag = ifMatch?.trim()
+  if (!tag || tag === "*") {
+    return undefined
+  }
+
+  const version = /^"(\d+)"$/.exec(tag)?.[1]
+  if (!version) {
+    throw new ORPCError("PRECONDITION_FAILED", {
+      message: `If-Match must be a single version tag such as "1", not ${tag}`,
+      status: 412,
+    })
+  }
+
+  return Number(version)
+}
@@ -0,0 +1,29 @@
+import { simpleSchemaDto } from "@application/utils/validation.utils"
+import { AuditActions, AuditTargetTypes } from "@domain/audit"
+import { Schema as S } from "effect"
+
+// Audit event filters for getAuditEvents and exportAuditEvents - time bounds are inclusive
+export const AuditEventFiltersSchema = S.Struct({
+  actorId: S.optional(S.UUID),
+  targetType: S.optional(S.Literal(...AuditTargetTypes)),
+  targetId: S.optional(S.String),
+  action: S.optional(S.Array(S.Literal(...AuditActions))),
+  from: S.optional(S.DateFromSelf),
+  to: S.optional(S.DateFromSelf),
+})
+
+export class AuditEventFiltersDto extends simpleSchemaDto(
+  "AuditEventFiltersDto",
+  AuditEventFiltersSchema,
+) {}
+
+// Pagination parameters for getAuditEvents
+export const AuditPaginationSchema = S.Struct({
+  page: S.Number.pipe(S.greaterThan(0)),
+  limit: S.Number.pipe(S.greaterThan(0)).pipe(S.lessThanOrEqualTo(100)),
+})
+
+export class AuditPaginationDto extends simpleSchemaDto(
+  "AuditPaginationDto",
+  AuditPaginationSchema,
+) {}
@@ -1,12 +1,14 @@
 import { simpleSchemaDto } from "@application/utils/validation.utils"
 import { Schema as S } from "effect"
 
-// Upload document DTO (formdata: name, file, tags?, metadata?)
+// Upload document DTO (formdata: name, file, tags?, metadata?, folderId?)
 export const UploadDocumentDtoSchema = S.Struct({
   name: S.String.pipe(S.minLength(1), S.maxLength(255)),
   file: S.Struct({}), // Empty struct to accept any object
   tags: S.optional(S.String), // Will be parsed as comma-separated string
   metadata: S.optional(S.String), // Will be parsed as JSON string
+  folderId: S.optional(S.UUID), // Omitted for documents at the root
+  duplicates: S.optional(S.Literal("allow", "reject", "link")), // When a readable document has the same file - defaults to allow
 })
 
 export class UploadDocumentDto extends simpleSchemaDto(
@@ -14,6 +16,87 @@ export class UploadDocumentDto extends simpleSchemaDto(
   UploadDocumentDtoSchema,
 ) {}
 
+// Upload document version DTO (formdata: file)
+export const UploadDocumentVersionDtoSchema = S.Struct({
+  file: S.Struct({}), // Empty struct to accept any object
+})
+
+export class UploadDocumentVersionDto extends simpleSchemaDto(
+  "UploadDocumentVersionDto",
+  UploadDocumentVersionDtoSchema,
+) {}
+
+// Create resumable upload DTO (sent as tus Upload-Length and Upload-Metadata headers)
+export const CreateDocumentUploadDtoSchema = S.Struct({
+  name: S.String.pipe(S.minLength(1), S.maxLength(255)),
+  size: S.Number.pipe(S.int(), S.positive()),
+  mimeType: S.optional(S.String.pipe(S.minLength(1))), // Defaults to application/octet-stream
+  tags: S.optional(S.String), // Will be parsed as comma-separated string
+  metadata: S.optional(S.String), // Will be parsed as JSON string
+  folderId: S.optional(S.UUID), // Omitted for documents at the root
+})
+
+export class CreateDocumentUploadDto extends simpleSchemaDto(
+  "CreateDocumentUploadDto",
+  CreateDocumentUploadDtoSchema,
+) {}
+
+// Create direct upload DTO - the client uploads the file straight to storage, then finalizes it
+export const CreateDirectUploadDtoSchema = S.Struct({
+  name: S.String.pipe(S.minLength(1), S.maxLength(255)),
+  size: S.Number.pipe(S.int(), S.positive()),
+  mimeType: S.optional(S.String.pipe(S.minLength(1))), // Defaults to application/octet-stream
+  tags: S.optional(S.Array(S.String)),
+  metadata: S.optional(S.Record({ key: S.String, value: S.String })),
+  folderId: S.optional(S.UUID), // Omitted for documents at the root
+})
+
+export class CreateDirectUploadDto extends simpleSchemaDto(
+  "CreateDirectUploadDto",
+  CreateDirectUploadDtoSchema,
+) {}
+
+// Move document DTO (null moves the document to the root)
+export const MoveDocumentDtoSchema = S.Struct({
+  folderId: S.NullOr(S.UUID),
+})
+
+export class MoveDocumentDto extends simpleSchemaDto(
+  "MoveDocumentDto",
+  MoveDocumentDtoSchema,
+) {}
+
+// Grant document permission DTO (replaces the user's previous level, if any)
+export const GrantDocumentPermissionDtoSchema = S.Struct({
+  userId: S.UUID,
+  level: S.Literal("read", "write", "manage"),
+})
+
+export class GrantDocumentPermissionDto extends simpleSchemaDto(
+  "GrantDocumentPermissionDto",
+  GrantDocumentPermissionDtoSchema,
+) {}
+
+// Check out document DTO (checking out a document the caller holds extends the checkout)
+export const CheckoutDocumentDtoSchema = S.Struct({
+  expiresInMinutes: S.optional(S.Number.pipe(S.int(), S.greaterThan(0), S.lessThanOrEqualTo(1440))), // Defaults to 60, at most 24 hours
+})
+
+export class CheckoutDocumentDto extends simpleSchemaDto(
+  "CheckoutDocumentDto",
+  CheckoutDocumentDtoSchema,
+) {}
+
+// Break document lock DTO (the reason is kept in the audit log)
+export const BreakDocumentLockDtoSchema = S.Struct({
+  reason: S.String.pipe(S.minLength(1), S.maxLength(500)),
+})
+
+export class BreakDocumentLockDto extends simpleSchemaDto(
+  "BreakDocumentLockDto",
+  BreakDocumentLockDtoSchema,
+) {}
+
 // Document filters for getDocuments
 export const DocumentFiltersSchema = S.Struct({
   name: S.optional(S.String),
@@ -27,6 +110,16 @@ export class DocumentFiltersDto extends simpleSchemaDto(
   DocumentFiltersSchema,
 ) {}
 
+// Full-text search DTO (websearch syntax: "quoted phrases", OR and -excluded words)
+export const SearchDocumentsDtoSchema = S.Struct({
+  query: S.Trim.pipe(S.minLength(1), S.maxLength(256)),
+})
+
+export class SearchDocumentsDto extends simpleSchemaDto(
+  "SearchDocumentsDto",
+  SearchDocumentsDtoSchema,
+) {}
+
 // Pagination parameters for getDocuments
 export const DocumentPaginationSchema = S.Struct({
   page: S.Number.pipe(S.greaterThan(0)),
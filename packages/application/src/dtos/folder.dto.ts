@@ -0,0 +1,33 @@
+import { simpleSchemaDto } from "@application/utils/validation.utils"
+import { Schema as S } from "effect"
+
+// Create folder DTO (parentId omitted for a root folder)
+export const CreateFolderDtoSchema = S.Struct({
+  name: S.String.pipe(S.minLength(1), S.maxLength(255)),
+  parentId: S.optional(S.UUID),
+})
+
+export class CreateFolderDto extends simpleSchemaDto(
+  "CreateFolderDto",
+  CreateFolderDtoSchema,
+) {}
+
+// Rename folder DTO
+export const RenameFolderDtoSchema = S.Struct({
+  name: S.String.pipe(S.minLength(1), S.maxLength(255)),
+})
+
+export class RenameFolderDto extends simpleSchemaDto(
+  "RenameFolderDto",
+  RenameFolderDtoSchema,
+) {}
+
+// Move folder DTO (null moves the folder to the root)
+export const MoveFolderDtoSchema = S.Struct({
+  parentId: S.NullOr(S.UUID),
+})
+
+export class MoveFolderDto extends simpleSchemaDto(
+  "MoveFolderDto",
+  MoveFolderDtoSchema,
+) {}
@@ -0,0 +1,39 @@
+import { simpleSchemaDto } from "@application/utils/validation.utils"
+import { WebhookEventSchema, WebhookUrlSchema } from "@domain/webhook"
+import { Schema as S } from "effect"
+
+// Register webhook DTO - the secret is generated, not chosen
+export const CreateWebhookDtoSchema = S.Struct({
+  url: WebhookUrlSchema,
+  events: S.Array(WebhookEventSchema).pipe(S.minItems(1)),
+  description: S.optional(S.String.pipe(S.maxLength(255))),
+})
+
+export class CreateWebhookDto extends simpleSchemaDto(
+  "CreateWebhookDto",
+  CreateWebhookDtoSchema,
+) {}
+
+// Update webhook DTO (only the given fields change)
+export const UpdateWebhookDtoSchema = S.Struct({
+  url: S.optional(WebhookUrlSchema),
+  events: S.optional(S.Array(WebhookEventSchema).pipe(S.minItems(1))),
+  active: S.optional(S.Boolean),
+  description: S.optional(S.String.pipe(S.maxLength(255))),
+})
+
+export class UpdateWebhookDto extends simpleSchemaDto(
+  "UpdateWebhookDto",
+  UpdateWebhookDtoSchema,
+) {}
+
+// Pagination parameters for getWebhookDeliveries
+export const WebhookDeliveryPaginationSchema = S.Struct({
+  page: S.Number.pipe(S.greaterThan(0)),
+  limit: S.Number.pipe(S.greaterThan(0)).pipe(S.lessThanOrEqualTo(100)),
+})
+
+export class WebhookDeliveryPaginationDto extends simpleSchemaDto(
+  "WebhookDeliveryPaginationDto",
+  WebhookDeliveryPaginationSchema,
+) {}
@@ -1,5 +1,6 @@
 export * from "./utils/application-result.utils"
 export * from "./utils/pagination.utils"
+export * from "./utils/saga.utils"
 export * from "./utils/validation.utils"
 export * from "./workflows"
 export * from "./dtos/user.dto"
@@ -0,0 +1,45 @@
+import type { AuditEventEntity } from "@domain/audit"
+
+const CSV_COLUMNS = [
+  "occurredAt",
+  "action",
+  "actorId",
+  "actorEmail",
+  "targetType",
+  "targetId",
+  "ipAddress",
+  "userAgent",
+  "before",
+  "after",
+] as const
+
+/**
+ * Quote a field when it needs it. Fields that spreadsheets would evaluate as formulas get a
+ * leading apostrophe, since user agents and document names come straight from clients.
+ */
+const escapeField = (value: string): string => {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+const toRow = (event: AuditEventEntity): string[] => [
+  new Date(event.createdAt.epochMillis).toISOString(),
+  event.action,
+  event.actorId ?? "",
+  event.actorEmail ?? "",
+  event.targetType,
+  event.targetId,
+  event.ipAddress ?? "",
+  event.userAgent ?? "",
+  event.before ? JSON.stringify(event.before) : "",
+  event.after ? JSON.stringify(event.after) : "",
+]
+
+/**
+ * Render audit events as CSV (RFC 4180, CRLF line endings) with a header row
+ */
+export const toAuditCsv = (events: readonly AuditEventEntity[]): string =>
+  [CSV_COLUMNS, ...events.map(toRow)]
+    .map((row) => row.map(escapeField).join(","))
+    .join("\r\n")
+    .concat("\r\n")
@@ -0,0 +1,100 @@
+import { AsyncLocalStorage } from "node:async_hooks"
+import {
+  type AuditAction,
+  AuditEventEntity,
+  AuditEventRepository,
+  type AuditSnapshot,
+  type AuditTargetType,
+} from "@domain/audit"
+import type { UserType } from "@domain/user"
+import { injectable } from "tsyringe"
+
+// Where the request behind the recorded operations came from
+export interface AuditRequestContext {
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface AuditEntry {
+  action: AuditAction
+  // Omitted for operations run by the system - a UserEntity will do
+  actor?: { id: UserType["id"]; email?: string }
+  targetType: AuditTargetType
+  targetId: string
+  before?: AuditSnapshot
+  after?: AuditSnapshot
+}
+
+const requestContext = new AsyncLocalStorage<AuditRequestContext>()
+
+/**
+ * Reduce two snapshots of the same target to the fields that differ between them
+ */
+export const diffSnapshots = (
+  before: AuditSnapshot,
+  after: AuditSnapshot,
+): { before: AuditSnapshot; after: AuditSnapshot } => {
+  const changedBefore: Record<string, unknown> = {}
+  const changedAfter: Record<string, unknown> = {}
+
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changedBefore[key] = before[key] ?? null
+      changedAfter[key] = after[key] ?? null
+    }
+  }
+
+  return { before: changedBefore, after: changedAfter }
+}
+
+@injectable()
+export class AuditLogger {
+  constructor(private readonly auditEventRepository: AuditEventRepository) {}
+
+  /**
+   * Run `fn` with the details of the request that triggered it - every event recorded while it
+   * runs (including in the async work it starts) is stamped with them
+   */
+  static runWithContext<T>(context: AuditRequestContext, fn: () => T): T {
+    return requestContext.run(context, fn)
+  }
+
+  /**
+   * Append an event to the audit log. The operation has already happened by the time it is
+   * recorded, so a failure is logged rather than reported to the caller.
+   */
+  async record(entry: AuditEntry): Promise<void> {
+    const { action, actor, targetType, targetId } = entry
+    const changes =
+      entry.before && entry.after
+        ? diffSnapshots(entry.before, entry.after)
+        : { before: entry.before, after: entry.after }
+    const context = requestContext.getStore()
+
+    try {
+      const event = AuditEventEntity.create({
+        action,
+        actorId: actor?.id,
+        actorEmail: actor?.email,
+        targetType,
+        targetId,
+        ...changes,
+        ipAddress: context?.ipAddress,
+        userAgent: context?.userAgent,
+      })
+
+      const result = await this.auditEventRepository.append(event)
+      if (result.isErr()) {
+        console.error(
+          `Failed to record ${action} of ${targetType} ${targetId}:`,
+          result.unwrapErr(),
+        )
+      }
+    } catch (error) {
+      console.error(
+        `Failed to record ${action} of ${targetType} ${targetId}:`,
+        error,
+      )
+    }
+  }
+}
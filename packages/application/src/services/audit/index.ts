@@ -0,0 +1,2 @@
+export * from "./audit-csv"
+export * from "./audit-logger"
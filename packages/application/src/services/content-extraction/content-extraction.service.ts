@@ -0,0 +1,96 @@
+import { Result } from "@carbonteq/fp"
+import { injectable } from "tsyringe"
+import type { ContentExtractor } from "./content-extractor"
+import { CsvExtractor } from "./extractors/csv.extractor"
+import { DocxExtractor } from "./extractors/docx.extractor"
+import { HtmlExtractor } from "./extractors/html.extractor"
+import { JsonExtractor } from "./extractors/json.extractor"
+import { MarkdownExtractor } from "./extractors/markdown.extractor"
+import { PdfExtractor } from "./extractors/pdf.extractor"
+import { PlainTextExtractor } from "./extractors/plain-text.extractor"
+
+// Only the start of long documents is kept - it is what search and previews need
+export const MAX_EXTRACTED_TEXT_LENGTH = 256 * 1024
+
+// Larger files are not loaded into memory for extraction
+const DEFAULT_MAX_FILE_SIZE = 50 * 1024 * 1024
+
+export interface ExtractedContent {
+  extractor: string
+  content: string
+}
+
+@injectable()
+export class ContentExtractionService {
+  private readonly extractors = new Map<string, ContentExtractor>()
+  readonly maxFileSize: number
+
+  constructor() {
+    this.maxFileSize =
+      Number(process.env.CONTENT_EXTRACTION_MAX_FILE_SIZE) ||
+      DEFAULT_MAX_FILE_SIZE
+
+    for (const extractor of [
+      new PlainTextExtractor(),
+      new MarkdownExtractor(),
+      new CsvExtractor(),
+      new JsonExtractor(),
+      new HtmlExtractor(),
+      new DocxExtractor(),
+      new PdfExtractor(),
+    ]) {
+      this.register(extractor)
+    }
+  }
+
+  /**
+   * Add an extractor, taking over its MIME types from any extractor registered before
+   */
+  register(extractor: ContentExtractor): void {
+    for (const mimeType of extractor.mimeTypes) {
+      this.extractors.set(mimeType.toLowerCase(), extractor)
+    }
+  }
+
+  /**
+   * Find the extractor for a MIME type - exact matches first, then structured syntax suffixes
+   * (application/ld+json is JSON), then wildcards such as text/*
+   */
+  findExtractor(mimeType: string): ContentExtractor | undefined {
+    const [type = ""] = mimeType.toLowerCase().split(";")
+    const baseType = type.trim()
+    const [topLevel] = baseType.split("/")
+    const suffix = baseType.match(/\+(json|xml)$/)?.[1]
+
+    return (
+      this.extractors.get(baseType) ??
+      (suffix ? this.extractors.get(`application/${suffix}`) : undefined) ??
+      this.extractors.get(`${topLevel}/*`)
+    )
+  }
+
+  /**
+   * Extract the text of a file, truncated to MAX_EXTRACTED_TEXT_LENGTH
+   */
+  async extract(
+    mimeType: string,
+    file: Buffer,
+  ): Promise<Result<ExtractedContent, Error>> {
+    const extractor = this.findExtractor(mimeType)
+    if (!extractor) {
+      return Result.Err(new Error(`No content extractor for '${mimeType}'`))
+    }
+
+    try {
+      const content = await extractor.extract(file)
+      return Result.Ok({
+        extractor: extractor.name,
+        content: content.slice(0, MAX_EXTRACTED_TEXT_LENGTH),
+      })
+    } catch (error) {
+      return Result.Err(
+        error instanceof Error ? error : new Error("Content extraction failed"),
+      )
+    }
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Turns the bytes of one family of file formats into plain text. Extractors are plain TypeScript
+ * without native tools or network access, and throw an Error describing why a file is unreadable.
+ */
+export interface ContentExtractor {
+  // Recorded alongside the extracted text, e.g. "pdf"
+  readonly name: string
+  // Exact types such as "application/pdf", or wildcards such as "text/*"
+  readonly mimeTypes: readonly string[]
+
+  extract(file: Buffer): Promise<string>
+}
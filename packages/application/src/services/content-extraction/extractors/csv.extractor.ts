@@ -0,0 +1,70 @@
+import type { ContentExtractor } from "../content-extractor"
+import { decodeText, normalizeWhitespace } from "../utils/text.utils"
+
+/**
+ * Split CSV text into rows of fields, honouring quoted fields with embedded separators,
+ * line breaks and doubled quotes (RFC 4180)
+ */
+const parseDelimited = (text: string, separator: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true
+    } else if (char === separator) {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+/**
+ * Comma- and tab-separated tables - one line per row with the fields separated by tabs
+ */
+export class CsvExtractor implements ContentExtractor {
+  readonly name = "csv"
+  readonly mimeTypes = ["text/csv", "text/tab-separated-values"]
+
+  async extract(file: Buffer): Promise<string> {
+    const text = decodeText(file)
+    // Sniff the separator from the header line rather than trusting the MIME type
+    const header = text.slice(0, text.search(/\r?\n|$/))
+    const separator =
+      header.split("\t").length > header.split(",").length ? "\t" : ","
+
+    const lines = parseDelimited(text, separator).map((row) =>
+      row
+        .map((field) => field.trim())
+        .filter((field) => field.length > 0)
+        .join("\t"),
+    )
+    return normalizeWhitespace(lines.join("\n"))
+  }
+}
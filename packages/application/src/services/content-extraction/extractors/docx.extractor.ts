@@ -0,0 +1,47 @@
+import type { ContentExtractor } from "../content-extractor"
+import { decodeEntities, normalizeWhitespace } from "../utils/text.utils"
+import { readZipEntry } from "../utils/zip.utils"
+
+// Text runs, tabs, breaks and paragraph ends of WordprocessingML
+const WORD_MARKUP =
+  /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr)\b[^>]*\/>|<\/w:p>/g
+
+// The main story first, then the parts that hold text outside of it
+const DOCUMENT_PARTS = [
+  "word/document.xml",
+  "word/footnotes.xml",
+  "word/endnotes.xml",
+]
+
+// Only the markup above carries text - field codes, deleted runs and the rest are skipped
+const readStory = (xml: string) => {
+  let text = ""
+  for (const [, run, tag] of xml.matchAll(WORD_MARKUP)) {
+    text += run ?? (tag === "tab" ? "\t" : "\n")
+  }
+  return text
+}
+
+/**
+ * Word documents (OOXML) - read straight from the zip container, without any Office tooling
+ */
+export class DocxExtractor implements ContentExtractor {
+  readonly name = "docx"
+  readonly mimeTypes = [
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ]
+
+  async extract(file: Buffer): Promise<string> {
+    const parts = DOCUMENT_PARTS.map((part) => readZipEntry(file, part))
+    if (!parts[0]) {
+      throw new Error("Not a Word document: word/document.xml is missing")
+    }
+
+    const text = parts
+      .filter((part): part is Buffer => part !== undefined)
+      .map((part) => readStory(part.toString("utf8")))
+      .join("\n\n")
+
+    return normalizeWhitespace(decodeEntities(text))
+  }
+}
@@ -0,0 +1,39 @@
+import type { ContentExtractor } from "../content-extractor"
+import {
+  decodeEntities,
+  decodeText,
+  normalizeWhitespace,
+} from "../utils/text.utils"
+
+// Elements that start a new line of text
+const BLOCK_ELEMENTS =
+  "address|article|aside|blockquote|br|dd|div|dl|dt|figcaption|figure|footer|form|h[1-6]|header|hr|li|main|nav|ol|p|pre|section|table|td|th|title|tr|ul"
+
+/**
+ * HTML and XML markup reduced to its text - scripts, styles and comments are dropped and
+ * block-level elements become line breaks
+ */
+export class HtmlExtractor implements ContentExtractor {
+  readonly name = "html"
+  readonly mimeTypes = [
+    "text/html",
+    "application/xhtml+xml",
+    "text/xml",
+    "application/xml",
+  ]
+
+  async extract(file: Buffer): Promise<string> {
+    const text = decodeText(file)
+      .replace(/<!--[\s\S]*?-->/g, " ")
+      .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, data: string) =>
+        data.replace(/</g, "&lt;").replace(/>/g, "&gt;"),
+      )
+      .replace(/<(script|style|noscript|template)\b[\s\S]*?<\/\1\s*>/gi, " ")
+      .replace(/<!DOCTYPE[^>]*>|<\?[\s\S]*?\?>/gi, " ")
+      .replace(new RegExp(`</?(${BLOCK_ELEMENTS})\\b[^>]*>`, "gi"), "\n")
+      .replace(/<[^>]*>/g, " ")
+
+    // Adjacent block elements would otherwise leave blank lines everywhere
+    return normalizeWhitespace(decodeEntities(text)).replace(/\n+/g, "\n")
+  }
+}
@@ -0,0 +1,38 @@
+import type { ContentExtractor } from "../content-extractor"
+import { decodeText, normalizeWhitespace } from "../utils/text.utils"
+
+// Keys are structure, not content - only the string and number values are kept
+const collectValues = (value: unknown, values: string[]) => {
+  if (typeof value === "string") {
+    if (value.trim()) values.push(value)
+  } else if (typeof value === "number") {
+    values.push(String(value))
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectValues(item, values)
+  } else if (value !== null && typeof value === "object") {
+    for (const item of Object.values(value)) collectValues(item, values)
+  }
+}
+
+/**
+ * JSON documents, reduced to their values one per line
+ */
+export class JsonExtractor implements ContentExtractor {
+  readonly name = "json"
+  readonly mimeTypes = ["application/json"]
+
+  async extract(file: Buffer): Promise<string> {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(decodeText(file))
+    } catch (error) {
+      throw new Error(
+        `Invalid JSON: ${error instanceof Error ? error.message : error}`,
+      )
+    }
+
+    const values: string[] = []
+    collectValues(parsed, values)
+    return normalizeWhitespace(values.join("\n"))
+  }
+}
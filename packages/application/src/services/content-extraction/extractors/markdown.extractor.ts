@@ -0,0 +1,25 @@
+import type { ContentExtractor } from "../content-extractor"
+import { decodeText, normalizeWhitespace } from "../utils/text.utils"
+
+/**
+ * Markdown with the syntax stripped - headings, emphasis, links and code fences keep their text
+ */
+export class MarkdownExtractor implements ContentExtractor {
+  readonly name = "markdown"
+  readonly mimeTypes = ["text/markdown", "text/x-markdown"]
+
+  async extract(file: Buffer): Promise<string> {
+    const text = decodeText(file)
+      .replace(/^(```|~~~).*$/gm, "") // code fences
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1") // images keep their alt text
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1") // links keep their label
+      .replace(/^[ \t]*\[[^\]]+\]:\s*\S+.*$/gm, "") // reference link definitions
+      .replace(/<[^>\n]+>/g, " ") // inline HTML
+      .replace(/^[ \t]{0,3}([-*_])([ \t]*\1){2,}[ \t]*$/gm, "") // horizontal rules
+      .replace(/^[ \t]{0,3}(#{1,6}|>+|[-*+]|\d+[.)])[ \t]+/gm, "") // headings, quotes and list markers
+      .replace(/(\*{1,3}|~~|`+)(\S(?:.*?\S)?)\1/g, "$2") // emphasis and inline code
+      .replace(/(^|\W)(_{1,3})(\S(?:.*?\S)?)\2(?=\W|$)/gm, "$1$3") // but not snake_case
+
+    return normalizeWhitespace(text)
+  }
+}
@@ -0,0 +1,471 @@
+import type { ContentExtractor } from "../content-extractor"
+import {
+  type PdfDict,
+  PdfDocument,
+  PdfKeyword,
+  PdfLexer,
+  PdfName,
+  PdfParser,
+  PdfStream,
+  type PdfValue,
+} from "../utils/pdf.utils"
+import { normalizeWhitespace } from "../utils/text.utils"
+
+// Form XObjects can nest; deeper nesting is almost certainly a reference loop
+const MAX_FORM_DEPTH = 8
+
+// TJ offsets (thousandths of an em) wider than this are gaps between words
+const WORD_GAP = 250
+
+// WinAnsiEncoding differs from Latin-1 in 0x80-0x9f
+const WIN_ANSI_HIGH =
+  "€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ"
+
+// Glyph names used by /Differences encodings that aren't a single character or uniXXXX
+const GLYPH_NAMES: Record<string, string> = {
+  space: " ",
+  exclam: "!",
+  quotedbl: '"',
+  numbersign: "#",
+  dollar: "$",
+  percent: "%",
+  ampersand: "&",
+  quotesingle: "'",
+  parenleft: "(",
+  parenright: ")",
+  asterisk: "*",
+  plus: "+",
+  comma: ",",
+  hyphen: "-",
+  period: ".",
+  slash: "/",
+  zero: "0",
+  one: "1",
+  two: "2",
+  three: "3",
+  four: "4",
+  five: "5",
+  six: "6",
+  seven: "7",
+  eight: "8",
+  nine: "9",
+  colon: ":",
+  semicolon: ";",
+  less: "<",
+  equal: "=",
+  greater: ">",
+  question: "?",
+  at: "@",
+  bracketleft: "[",
+  backslash: "\\",
+  bracketright: "]",
+  underscore: "_",
+  quoteleft: "‘",
+  quoteright: "’",
+  quotedblleft: "“",
+  quotedblright: "”",
+  endash: "–",
+  emdash: "—",
+  bullet: "•",
+  ellipsis: "…",
+  fi: "fi",
+  fl: "fl",
+  ff: "ff",
+  ffi: "ffi",
+  ffl: "ffl",
+}
+
+const glyphToUnicode = (name: string): string | undefined => {
+  if (name.length === 1) return name
+  if (/^uni[0-9A-F]{4}$/i.test(name)) {
+    return String.fromCharCode(Number.parseInt(name.slice(3), 16))
+  }
+  return GLYPH_NAMES[name]
+}
+
+const winAnsiEncoding = () =>
+  Array.from({ length: 256 }, (_, code) =>
+    code >= 0x80 && code <= 0x9f
+      ? WIN_ANSI_HIGH[code - 0x80]
+      : String.fromCharCode(code),
+  )
+
+const utf16 = (bytes: Buffer) => {
+  const swapped = Buffer.from(bytes)
+  if (swapped.length % 2 === 0) swapped.swap16()
+  return swapped.toString("utf16le")
+}
+
+/**
+ * Maps the character codes of one font to text - through its ToUnicode CMap when it has one,
+ * otherwise through its (simple) encoding. Composite fonts without a CMap can't be mapped.
+ */
+class PdfFont {
+  private constructor(
+    private readonly codeLength: number,
+    private readonly toUnicode?: Map<number, string>,
+    private readonly encoding?: (string | undefined)[],
+  ) {}
+
+  static load(pdf: PdfDocument, dict: PdfDict): PdfFont {
+    const composite =
+      dict.get("Subtype") instanceof PdfName &&
+      (dict.get("Subtype") as PdfName).value === "Type0"
+
+    const cmap = pdf.get(dict, "ToUnicode")
+    if (cmap instanceof PdfStream) {
+      const data = pdf.decodeStream(cmap)
+      if (data) {
+        const { codeLength, mappings } = PdfFont.parseCMap(data)
+        return new PdfFont(
+          codeLength ?? (composite ? 2 : 1),
+          mappings,
+          composite ? undefined : PdfFont.simpleEncoding(pdf, dict),
+        )
+      }
+    }
+
+    return composite
+      ? new PdfFont(2)
+      : new PdfFont(1, undefined, PdfFont.simpleEncoding(pdf, dict))
+  }
+
+  decode(bytes: Buffer): string {
+    let text = ""
+    for (let i = 0; i + this.codeLength <= bytes.length; i += this.codeLength) {
+      const code = bytes.readUIntBE(i, this.codeLength)
+      text += this.toUnicode?.get(code) ?? this.encoding?.[code] ?? ""
+    }
+    return text
+  }
+
+  private static simpleEncoding(pdf: PdfDocument, dict: PdfDict) {
+    const encoding: (string | undefined)[] = winAnsiEncoding()
+
+    const differences = pdf.get(pdf.getDict(dict, "Encoding"), "Differences")
+    if (Array.isArray(differences)) {
+      let code = 0
+      for (const entry of differences) {
+        if (typeof entry === "number") {
+          code = entry
+        } else if (entry instanceof PdfName) {
+          encoding[code++] = glyphToUnicode(entry.value)
+        }
+      }
+    }
+    return encoding
+  }
+
+  private static parseCMap(data: Buffer) {
+    const lexer = new PdfLexer(data)
+    const mappings = new Map<number, string>()
+    let codeLength: number | undefined
+
+    const strings = (end: string) => {
+      const values: (Buffer | Buffer[])[] = []
+      for (
+        let token = lexer.nextToken();
+        token !== undefined;
+        token = lexer.nextToken()
+      ) {
+        if (token instanceof PdfKeyword) {
+          if (token.value === end) break
+          if (token.value === "[") {
+            const items: Buffer[] = []
+            for (
+              let item = lexer.nextToken();
+              item instanceof Buffer;
+              item = lexer.nextToken()
+            ) {
+              items.push(item)
+            }
+            values.push(items)
+          }
+        } else if (token instanceof Buffer) {
+          values.push(token)
+        }
+      }
+      return values
+    }
+
+    for (
+      let token = lexer.nextToken();
+      token !== undefined;
+      token = lexer.nextToken()
+    ) {
+      if (!(token instanceof PdfKeyword)) continue
+
+      if (token.value === "begincodespacerange") {
+        const [low] = strings("endcodespacerange")
+        if (low instanceof Buffer && low.length > 0) codeLength ??= low.length
+      } else if (token.value === "beginbfchar") {
+        const values = strings("endbfchar")
+        for (let i = 0; i + 1 < values.length; i += 2) {
+          const [source, target] = [values[i], values[i + 1]]
+          if (
+            source instanceof Buffer &&
+            target instanceof Buffer &&
+            source.length > 0
+          ) {
+            mappings.set(
+              source.readUIntBE(0, Math.min(source.length, 4)),
+              utf16(target),
+            )
+          }
+        }
+      } else if (token.value === "beginbfrange") {
+        const values = strings("endbfrange")
+        for (let i = 0; i + 2 < values.length; i += 3) {
+          const [low, high, target] = [values[i], values[i + 1], values[i + 2]]
+          if (
+            !(low instanceof Buffer) ||
+            !(high instanceof Buffer) ||
+            low.length === 0
+          ) {
+            continue
+          }
+          const start = low.readUIntBE(0, Math.min(low.length, 4))
+          const end = Math.min(
+            high.readUIntBE(0, Math.min(high.length, 4)),
+            start + 0xffff,
+          )
+
+          for (let code = start; code <= end; code++) {
+            if (Array.isArray(target)) {
+              const item = target[code - start]
+              if (item) mappings.set(code, utf16(item))
+            } else if (target instanceof Buffer && target.length >= 2) {
+              // Consecutive codes map to consecutive characters
+              const next = Buffer.from(target)
+              next.writeUInt16BE(
+                (next.readUInt16BE(next.length - 2) + code - start) & 0xffff,
+                next.length - 2,
+              )
+              mappings.set(code, utf16(next))
+            }
+          }
+        }
+      }
+    }
+
+    return { codeLength, mappings }
+  }
+}
+
+/**
+ * Collects shown text with the spacing implied by text positioning - separate lines become
+ * line breaks, large gaps become spaces
+ */
+class TextWriter {
+  private readonly parts: string[] = []
+  private pending = ""
+
+  write(text: string) {
+    if (!text) return
+    if (this.pending && this.parts.length > 0) this.parts.push(this.pending)
+    this.pending = ""
+    this.parts.push(text)
+  }
+
+  space() {
+    if (this.pending !== "\n") this.pending = " "
+  }
+
+  newline() {
+    this.pending = "\n"
+  }
+
+  toString() {
+    return this.parts.join("")
+  }
+}
+
+/**
+ * Interprets the text operators of page content streams
+ */
+class PdfTextReader {
+  private readonly fonts = new Map<PdfDict, PdfFont>()
+
+  constructor(private readonly pdf: PdfDocument) {}
+
+  readPage(page: PdfDict, resources: PdfDict | undefined): string {
+    const contents = this.pdf.get(page, "Contents")
+    const streams = (Array.isArray(contents) ? contents : [contents])
+      .map((stream) => this.pdf.resolve(stream))
+      .filter((stream): stream is PdfStream => stream instanceof PdfStream)
+
+    // A page's content may be split across streams at any token boundary
+    const data = Buffer.concat(
+      streams.flatMap((stream) => {
+        const decoded = this.pdf.decodeStream(stream)
+        return decoded ? [decoded, Buffer.from("\n")] : []
+      }),
+    )
+
+    const writer = new TextWriter()
+    this.readContent(data, resources, writer, 0)
+    return writer.toString()
+  }
+
+  private readContent(
+    data: Buffer,
+    resources: PdfDict | undefined,
+    writer: TextWriter,
+    depth: number,
+  ) {
+    const parser = new PdfParser(data)
+    const operands: PdfValue[] = []
+    let font: PdfFont | undefined
+    let lineY: number | undefined
+
+    const show = (value: PdfValue | undefined) => {
+      if (value instanceof Buffer && font) writer.write(font.decode(value))
+    }
+
+    for (
+      let value = parser.parseValue();
+      value !== undefined;
+      value = parser.parseValue()
+    ) {
+      if (!(value instanceof PdfKeyword)) {
+        operands.push(value)
+        continue
+      }
+
+      switch (value.value) {
+        case "Tf":
+          font = this.font(resources, operands[0])
+          break
+        case "Tj":
+          show(operands[0])
+          break
+        case "'":
+          writer.newline()
+          show(operands[0])
+          break
+        case '"':
+          writer.newline()
+          show(operands[2])
+          break
+        case "TJ":
+          for (const item of Array.isArray(operands[0]) ? operands[0] : []) {
+            if (typeof item === "number") {
+              if (item < -WORD_GAP) writer.space()
+            } else {
+              show(item)
+            }
+          }
+          break
+        case "Td":
+        case "TD":
+          if (operands[1] !== 0) writer.newline()
+          else if (typeof operands[0] === "number" && operands[0] > 0)
+            writer.space()
+          break
+        case "T*":
+          writer.newline()
+          break
+        case "Tm": {
+          const y = operands[5]
+          if (lineY !== undefined && y !== lineY) writer.newline()
+          else writer.space()
+          lineY = typeof y === "number" ? y : undefined
+          break
+        }
+        case "ET":
+          writer.space()
+          break
+        case "Do":
+          this.readForm(resources, operands[0], writer, depth)
+          break
+        case "ID":
+          parser.skipInlineImage()
+          break
+      }
+      operands.length = 0
+    }
+  }
+
+  private font(resources: PdfDict | undefined, name: PdfValue | undefined) {
+    if (!(name instanceof PdfName)) return undefined
+    const dict = this.pdf.getDict(
+      this.pdf.getDict(resources, "Font"),
+      name.value,
+    )
+    if (!dict) return undefined
+
+    let font = this.fonts.get(dict)
+    if (!font) {
+      font = PdfFont.load(this.pdf, dict)
+      this.fonts.set(dict, font)
+    }
+    return font
+  }
+
+  // Form XObjects are reusable content, e.g. headers repeated on every page
+  private readForm(
+    resources: PdfDict | undefined,
+    name: PdfValue | undefined,
+    writer: TextWriter,
+    depth: number,
+  ) {
+    if (!(name instanceof PdfName) || depth >= MAX_FORM_DEPTH) return
+
+    const form = this.pdf.get(
+      this.pdf.getDict(resources, "XObject"),
+      name.value,
+    )
+    const subtype =
+      form instanceof PdfStream ? form.dict.get("Subtype") : undefined
+    if (
+      !(form instanceof PdfStream) ||
+      !(subtype instanceof PdfName) ||
+      subtype.value !== "Form"
+    ) {
+      return
+    }
+
+    const data = this.pdf.decodeStream(form)
+    if (data) {
+      this.readContent(
+        data,
+        this.pdf.getDict(form.dict, "Resources") ?? resources,
+        writer,
+        depth + 1,
+      )
+    }
+  }
+}
+
+/**
+ * The text layer of PDF files. Scanned pages without text, and encrypted files, are reported as
+ * failures - recognising text in images (OCR) is out of scope.
+ */
+export class PdfExtractor implements ContentExtractor {
+  readonly name = "pdf"
+  readonly mimeTypes = ["application/pdf"]
+
+  async extract(file: Buffer): Promise<string> {
+    if (file.subarray(0, 1024).indexOf("%PDF-") < 0) {
+      throw new Error("Not a PDF file")
+    }
+
+    const pdf = PdfDocument.parse(file)
+    if (pdf.isEncrypted()) {
+      throw new Error("Encrypted PDFs are not supported")
+    }
+
+    const reader = new PdfTextReader(pdf)
+    const text = normalizeWhitespace(
+      pdf
+        .pages()
+        .map(({ page, resources }) => reader.readPage(page, resources))
+        .join("\n\n"),
+    )
+
+    if (!text) {
+      throw new Error("The PDF has no text layer")
+    }
+    return text
+  }
+}
@@ -0,0 +1,21 @@
+import type { ContentExtractor } from "../content-extractor"
+import { decodeText, normalizeWhitespace } from "../utils/text.utils"
+
+/**
+ * Files whose bytes are readable text as they are - any text/* type without a more specific
+ * extractor, plus a few application/* types that are text underneath
+ */
+export class PlainTextExtractor implements ContentExtractor {
+  readonly name = "text"
+  readonly mimeTypes = [
+    "text/*",
+    "application/javascript",
+    "application/sql",
+    "application/x-yaml",
+    "application/yaml",
+  ]
+
+  async extract(file: Buffer): Promise<string> {
+    return normalizeWhitespace(decodeText(file))
+  }
+}
@@ -0,0 +1,2 @@
+export * from "./content-extraction.service"
+export * from "./content-extractor"
@@ -0,0 +1,583 @@
+import { constants, inflateSync } from "node:zlib"
+
+// Enough for any page description; larger streams are images or embedded files
+const MAX_STREAM_SIZE = 64 * 1024 * 1024
+const MAX_REFERENCE_DEPTH = 16
+
+export class PdfName {
+  constructor(readonly value: string) {}
+}
+
+export class PdfRef {
+  constructor(
+    readonly num: number,
+    readonly gen: number,
+  ) {}
+}
+
+// Keywords and operators, plus the [ ] << >> delimiters while parsing
+export class PdfKeyword {
+  constructor(readonly value: string) {}
+}
+
+export type PdfDict = Map<string, PdfValue>
+// Strings are kept as bytes - their encoding depends on where they are used
+export type PdfValue =
+  | number
+  | boolean
+  | null
+  | Buffer
+  | PdfName
+  | PdfRef
+  | PdfStream
+  | PdfValue[]
+  | PdfDict
+
+export class PdfStream {
+  constructor(
+    readonly dict: PdfDict,
+    readonly data: Buffer,
+  ) {}
+}
+
+type Token = number | boolean | null | Buffer | PdfName | PdfKeyword
+
+const isWhitespace = (c: number) =>
+  c === 0x00 ||
+  c === 0x09 ||
+  c === 0x0a ||
+  c === 0x0c ||
+  c === 0x0d ||
+  c === 0x20
+
+const DELIMITERS = new Set(Array.from("()<>[]{}/%", (c) => c.charCodeAt(0)))
+const isRegular = (c: number) => !isWhitespace(c) && !DELIMITERS.has(c)
+
+const NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)$/
+
+const ESCAPES: Record<number, number> = {
+  110: 0x0a, // \n
+  114: 0x0d, // \r
+  116: 0x09, // \t
+  98: 0x08, // \b
+  102: 0x0c, // \f
+}
+
+const hexValue = (c: number) => {
+  if (c >= 0x30 && c <= 0x39) return c - 0x30
+  if (c >= 0x41 && c <= 0x46) return c - 0x37
+  if (c >= 0x61 && c <= 0x66) return c - 0x57
+  return -1
+}
+
+/**
+ * Tokenizer for the PDF object syntax, shared by file bodies, content streams and CMaps
+ */
+export class PdfLexer {
+  constructor(
+    readonly buffer: Buffer,
+    public position = 0,
+  ) {}
+
+  nextToken(): Token | undefined {
+    this.skipWhitespace()
+    if (this.position >= this.buffer.length) return undefined
+
+    const c = this.buffer[this.position] as number
+    switch (c) {
+      case 0x28: // (
+        return this.readLiteralString()
+      case 0x3c: // <
+        if (this.buffer[this.position + 1] === 0x3c) {
+          this.position += 2
+          return new PdfKeyword("<<")
+        }
+        return this.readHexString()
+      case 0x3e: // >
+        this.position += this.buffer[this.position + 1] === 0x3e ? 2 : 1
+        return new PdfKeyword(">>")
+      case 0x5b: // [
+      case 0x5d: // ]
+      case 0x7b: // {
+      case 0x7d: // }
+        this.position++
+        return new PdfKeyword(String.fromCharCode(c))
+      case 0x2f: // /
+        this.position++
+        return new PdfName(this.readName())
+      default: {
+        const word = this.readRegular()
+        if (NUMBER.test(word)) return Number(word)
+        if (word === "true" || word === "false") return word === "true"
+        if (word === "null") return null
+        return new PdfKeyword(word)
+      }
+    }
+  }
+
+  private skipWhitespace() {
+    while (this.position < this.buffer.length) {
+      const c = this.buffer[this.position] as number
+      if (c === 0x25) {
+        // Comments run to the end of the line
+        while (
+          this.position < this.buffer.length &&
+          this.buffer[this.position] !== 0x0a &&
+          this.buffer[this.position] !== 0x0d
+        ) {
+          this.position++
+        }
+      } else if (isWhitespace(c)) {
+        this.position++
+      } else {
+        return
+      }
+    }
+  }
+
+  private readRegular(): string {
+    const start = this.position
+    while (
+      this.position < this.buffer.length &&
+      isRegular(this.buffer[this.position] as number)
+    ) {
+      this.position++
+    }
+    // A stray delimiter such as ")" - skip it so the lexer keeps moving
+    if (this.position === start) this.position++
+    return this.buffer.toString("latin1", start, this.position)
+  }
+
+  private readName(): string {
+    return this.readRegular().replace(/#([0-9a-f]{2})/gi, (_, hex: string) =>
+      String.fromCharCode(Number.parseInt(hex, 16)),
+    )
+  }
+
+  private readLiteralString(): Buffer {
+    const bytes: number[] = []
+    let depth = 1
+    this.position++
+
+    while (this.position < this.buffer.length) {
+      const c = this.buffer[this.position++] as number
+      if (c === 0x28) {
+        depth++
+      } else if (c === 0x29 && --depth === 0) {
+        break
+      } else if (c === 0x5c) {
+        const next = this.buffer[this.position++] as number
+        if (next in ESCAPES) {
+          bytes.push(ESCAPES[next] as number)
+        } else if (next >= 0x30 && next <= 0x37) {
+          // Up to three octal digits
+          let code = next - 0x30
+          for (let i = 0; i < 2; i++) {
+            const digit = this.buffer[this.position] as number
+            if (digit < 0x30 || digit > 0x37) break
+            code = code * 8 + digit - 0x30
+            this.position++
+          }
+          bytes.push(code & 0xff)
+        } else if (next === 0x0d || next === 0x0a) {
+          // Line continuation
+          if (next === 0x0d && this.buffer[this.position] === 0x0a) {
+            this.position++
+          }
+        } else {
+          bytes.push(next)
+        }
+        continue
+      }
+      bytes.push(c)
+    }
+
+    return Buffer.from(bytes)
+  }
+
+  private readHexString(): Buffer {
+    const digits: number[] = []
+    this.position++
+
+    while (this.position < this.buffer.length) {
+      const c = this.buffer[this.position++] as number
+      if (c === 0x3e) break
+      const value = hexValue(c)
+      if (value >= 0) digits.push(value)
+    }
+    // An odd final digit is followed by an implied 0
+    if (digits.length % 2) digits.push(0)
+
+    const bytes = Buffer.alloc(digits.length / 2)
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] =
+        ((digits[2 * i] as number) << 4) | (digits[2 * i + 1] as number)
+    }
+    return bytes
+  }
+}
+
+/**
+ * Builds arrays, dictionaries and indirect references out of the lexer's tokens. Operators are
+ * returned as keywords, so the same parser walks content streams.
+ */
+export class PdfParser {
+  private readonly lexer: PdfLexer
+  private readonly lookahead: { token: Token | undefined; end: number }[] = []
+  // Offset just past the last token taken from the parser
+  end = 0
+
+  constructor(buffer: Buffer, position = 0) {
+    this.lexer = new PdfLexer(buffer, position)
+    this.end = position
+  }
+
+  parseValue(): PdfValue | PdfKeyword | undefined {
+    const token = this.next()
+
+    if (typeof token === "number") {
+      // "12 0 R" is a reference to object 12
+      const gen = this.peek(0)
+      const keyword = this.peek(1)
+      if (
+        Number.isInteger(token) &&
+        typeof gen === "number" &&
+        keyword instanceof PdfKeyword &&
+        keyword.value === "R"
+      ) {
+        this.next()
+        this.next()
+        return new PdfRef(token, gen)
+      }
+      return token
+    }
+
+    if (token instanceof PdfKeyword) {
+      if (token.value === "[") return this.parseArray()
+      if (token.value === "<<") return this.parseDict()
+    }
+
+    return token
+  }
+
+  // Skip the binary data of an inline image, up to its EI operator
+  skipInlineImage() {
+    const { buffer } = this.lexer
+    let position = this.end + 1
+    while (position < buffer.length - 1) {
+      if (
+        buffer[position] === 0x45 &&
+        buffer[position + 1] === 0x49 &&
+        isWhitespace(buffer[position - 1] as number) &&
+        (position + 2 >= buffer.length ||
+          !isRegular(buffer[position + 2] as number))
+      ) {
+        break
+      }
+      position++
+    }
+    this.lookahead.length = 0
+    this.lexer.position = position + 2
+    this.end = this.lexer.position
+  }
+
+  private parseArray(): PdfValue[] {
+    const items: PdfValue[] = []
+    for (;;) {
+      const value = this.parseValue()
+      if (value === undefined) return items
+      if (value instanceof PdfKeyword) {
+        if (value.value === "]") return items
+        continue
+      }
+      items.push(value)
+    }
+  }
+
+  private parseDict(): PdfDict {
+    const dict: PdfDict = new Map()
+    for (;;) {
+      const key = this.parseValue()
+      if (key === undefined) return dict
+      if (key instanceof PdfKeyword && key.value === ">>") return dict
+      if (!(key instanceof PdfName)) continue
+
+      const value = this.parseValue()
+      if (value === undefined) return dict
+      if (value instanceof PdfKeyword) {
+        if (value.value === ">>") return dict
+        continue
+      }
+      dict.set(key.value, value)
+    }
+  }
+
+  next(): Token | undefined {
+    const entry = this.lookahead.shift() ?? this.read()
+    this.end = entry.end
+    return entry.token
+  }
+
+  private peek(index: number): Token | undefined {
+    while (this.lookahead.length <= index) {
+      this.lookahead.push(this.read())
+    }
+    return this.lookahead[index]?.token
+  }
+
+  private read() {
+    const token = this.lexer.nextToken()
+    return { token, end: this.lexer.position }
+  }
+}
+
+const isKeyword = (value: unknown, keyword: string) =>
+  value instanceof PdfKeyword && value.value === keyword
+
+const isName = (value: unknown, name: string) =>
+  value instanceof PdfName && value.value === name
+
+const decodeAsciiHex = (data: Buffer) =>
+  new PdfLexer(
+    Buffer.from(`<${data.toString("latin1")}>`),
+  ).nextToken() as Buffer
+
+const decodeAscii85 = (data: Buffer) => {
+  const text = data.toString("latin1").replace(/\s/g, "")
+  const end = text.indexOf("~>")
+  const input = (end >= 0 ? text.slice(0, end) : text).replace(/^<~/, "")
+  const bytes: number[] = []
+  let group: number[] = []
+
+  const flush = (length: number) => {
+    while (group.length < 5) group.push(84) // pad with "u"
+    let value = 0
+    for (const digit of group) value = value * 85 + digit
+    for (let i = 0; i < length - 1; i++) {
+      bytes.push((value >>> (24 - 8 * i)) & 0xff)
+    }
+    group = []
+  }
+
+  for (const char of input) {
+    if (char === "z" && group.length === 0) {
+      bytes.push(0, 0, 0, 0)
+      continue
+    }
+    group.push(char.charCodeAt(0) - 33)
+    if (group.length === 5) flush(5)
+  }
+  if (group.length > 0) flush(group.length)
+
+  return Buffer.from(bytes)
+}
+
+/**
+ * The objects of a PDF file, found by scanning for "n g obj" headers rather than trusting the
+ * cross-reference table - so damaged files and incremental updates (later objects win) still read.
+ */
+export class PdfDocument {
+  private readonly objects = new Map<number, PdfValue>()
+  private readonly trailers: PdfDict[] = []
+
+  private constructor(private readonly buffer: Buffer) {}
+
+  static parse(buffer: Buffer): PdfDocument {
+    const document = new PdfDocument(buffer)
+    document.scanObjects()
+    document.scanTrailers()
+    document.expandObjectStreams()
+    return document
+  }
+
+  isEncrypted(): boolean {
+    return this.trailers.some((trailer) => trailer.has("Encrypt"))
+  }
+
+  // Follow indirect references to the value they point at
+  resolve(value: PdfValue | undefined): PdfValue | undefined {
+    let current = value
+    for (let depth = 0; current instanceof PdfRef; depth++) {
+      if (depth >= MAX_REFERENCE_DEPTH) return undefined
+      current = this.objects.get(current.num)
+    }
+    return current
+  }
+
+  get(dict: PdfDict | undefined, key: string): PdfValue | undefined {
+    return this.resolve(dict?.get(key))
+  }
+
+  getDict(dict: PdfDict | undefined, key: string): PdfDict | undefined {
+    const value = this.get(dict, key)
+    if (value instanceof PdfStream) return value.dict
+    return value instanceof Map ? value : undefined
+  }
+
+  /**
+   * The pages in reading order, each with the resources it uses (which may be inherited from
+   * the page tree). Falls back to every page object in the file when the page tree is broken.
+   */
+  pages(): { page: PdfDict; resources?: PdfDict }[] {
+    const pages: { page: PdfDict; resources?: PdfDict }[] = []
+    const visited = new Set<PdfDict>()
+
+    const walk = (node: PdfValue | undefined, inherited?: PdfDict) => {
+      const dict = this.resolve(node)
+      if (!(dict instanceof Map) || visited.has(dict)) return
+      visited.add(dict)
+
+      const resources = this.getDict(dict, "Resources") ?? inherited
+      const kids = this.get(dict, "Kids")
+      if (Array.isArray(kids)) {
+        for (const kid of kids) walk(kid, resources)
+      } else if (isName(dict.get("Type"), "Page") || dict.has("Contents")) {
+        pages.push({ page: dict, resources })
+      }
+    }
+
+    const root = this.trailers.findLast((trailer) => trailer.has("Root"))
+    walk(this.getDict(root, "Root")?.get("Pages"))
+    if (pages.length > 0) return pages
+
+    for (const [, value] of [...this.objects].sort(([a], [b]) => a - b)) {
+      if (value instanceof Map && isName(value.get("Type"), "Page")) {
+        pages.push({ page: value, resources: this.getDict(value, "Resources") })
+      }
+    }
+    return pages
+  }
+
+  /**
+   * Undo the stream's filters; undefined for filters that only apply to images (DCT, JBIG2, ...)
+   */
+  decodeStream(stream: PdfStream): Buffer | undefined {
+    const filter = this.get(stream.dict, "Filter")
+    const filters = Array.isArray(filter) ? filter : filter ? [filter] : []
+    const params = this.get(stream.dict, "DecodeParms")
+
+    let data = stream.data
+    for (const entry of filters) {
+      const name = this.resolve(entry)
+      if (!(name instanceof PdfName)) return undefined
+
+      switch (name.value) {
+        case "FlateDecode":
+        case "Fl": {
+          const predictor =
+            params instanceof Map ? this.get(params, "Predictor") : undefined
+          if (typeof predictor === "number" && predictor > 1) return undefined
+          // Sync flush salvages what it can from truncated streams
+          data = inflateSync(data, {
+            finishFlush: constants.Z_SYNC_FLUSH,
+            maxOutputLength: MAX_STREAM_SIZE,
+          })
+          break
+        }
+        case "ASCIIHexDecode":
+        case "AHx":
+          data = decodeAsciiHex(data)
+          break
+        case "ASCII85Decode":
+        case "A85":
+          data = decodeAscii85(data)
+          break
+        default:
+          return undefined
+      }
+    }
+    return data
+  }
+
+  private scanObjects() {
+    const text = this.buffer.toString("latin1")
+    const header = /(\d+)\s+(\d+)\s+obj\b/g
+
+    for (let match = header.exec(text); match; match = header.exec(text)) {
+      const parser = new PdfParser(this.buffer, match.index + match[0].length)
+      const value = parser.parseValue()
+      if (value === undefined || value instanceof PdfKeyword) continue
+
+      const num = Number(match[1])
+      if (value instanceof Map && isKeyword(parser.next(), "stream")) {
+        const stream = this.readStreamData(text, value, parser.end)
+        this.objects.set(num, stream)
+        if (isName(value.get("Type"), "XRef")) this.trailers.push(value)
+        // Don't look for object headers inside the (binary) stream data
+        header.lastIndex =
+          stream.data.byteOffset - this.buffer.byteOffset + stream.data.length
+      } else {
+        this.objects.set(num, value)
+      }
+    }
+  }
+
+  private readStreamData(text: string, dict: PdfDict, keywordEnd: number) {
+    let start = keywordEnd
+    if (this.buffer[start] === 0x0d) start++
+    if (this.buffer[start] === 0x0a) start++
+
+    // Trust /Length when it lands on "endstream", otherwise search for the keyword
+    const length = dict.get("Length")
+    if (
+      typeof length === "number" &&
+      /^\s*endstream/.test(text.slice(start + length, start + length + 32))
+    ) {
+      return new PdfStream(dict, this.buffer.subarray(start, start + length))
+    }
+
+    const endstream = text.indexOf("endstream", start)
+    let end = endstream < 0 ? this.buffer.length : endstream
+    if (this.buffer[end - 1] === 0x0a) end--
+    if (this.buffer[end - 1] === 0x0d) end--
+    return new PdfStream(
+      dict,
+      this.buffer.subarray(start, Math.max(start, end)),
+    )
+  }
+
+  private scanTrailers() {
+    const text = this.buffer.toString("latin1")
+    const trailer = /trailer\s*<</g
+
+    for (let match = trailer.exec(text); match; match = trailer.exec(text)) {
+      const value = new PdfParser(
+        this.buffer,
+        match.index + match[0].length - 2,
+      ).parseValue()
+      if (value instanceof Map) this.trailers.push(value)
+    }
+  }
+
+  // Objects packed into object streams (PDF 1.5+) only exist once their stream is decoded
+  private expandObjectStreams() {
+    for (const value of [...this.objects.values()]) {
+      if (
+        !(value instanceof PdfStream) ||
+        !isName(value.dict.get("Type"), "ObjStm")
+      ) {
+        continue
+      }
+
+      const data = this.decodeStream(value)
+      const count = this.get(value.dict, "N")
+      const first = this.get(value.dict, "First")
+      if (!data || typeof count !== "number" || typeof first !== "number") {
+        continue
+      }
+
+      const index = new PdfParser(data)
+      for (let i = 0; i < count; i++) {
+        const num = index.next()
+        const offset = index.next()
+        if (typeof num !== "number" || typeof offset !== "number") break
+        if (this.objects.has(num)) continue
+
+        const object = new PdfParser(data, first + offset).parseValue()
+        if (object !== undefined && !(object instanceof PdfKeyword)) {
+          this.objects.set(num, object)
+        }
+      }
+    }
+  }
+}
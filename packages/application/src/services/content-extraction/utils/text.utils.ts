@@ -0,0 +1,71 @@
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  euro: "€",
+  pound: "£",
+  yen: "¥",
+  cent: "¢",
+  sect: "§",
+  deg: "°",
+  middot: "·",
+  bull: "•",
+  hellip: "…",
+  ndash: "–",
+  mdash: "—",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  laquo: "«",
+  raquo: "»",
+}
+
+/**
+ * Decode a text file as UTF-8, unless a byte order mark says it is UTF-16
+ */
+export const decodeText = (file: Buffer): string => {
+  if (file[0] === 0xff && file[1] === 0xfe) {
+    return new TextDecoder("utf-16le").decode(file)
+  }
+  if (file[0] === 0xfe && file[1] === 0xff) {
+    return new TextDecoder("utf-16be").decode(file)
+  }
+  return new TextDecoder("utf-8").decode(file)
+}
+
+/**
+ * Replace HTML/XML character references; unknown named entities are left as they are
+ */
+export const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (entity, name: string) => {
+    if (name.startsWith("#")) {
+      const codePoint =
+        name[1] === "x" || name[1] === "X"
+          ? Number.parseInt(name.slice(2), 16)
+          : Number.parseInt(name.slice(1), 10)
+      return codePoint > 0 && codePoint <= 0x10ffff
+        ? String.fromCodePoint(codePoint)
+        : entity
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity
+  })
+
+/**
+ * Collapse runs of spaces and blank lines, keeping paragraph breaks. NUL characters are dropped
+ * as Postgres text can't hold them.
+ */
+export const normalizeWhitespace = (text: string): string =>
+  text
+    .replaceAll("\u0000", "")
+    .replace(/\r\n?/g, "\n")
+    .replace(/[^\S\n]+/g, " ")
+    .replace(/ ?\n ?/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
@@ -0,0 +1,84 @@
+import { inflateRawSync } from "node:zlib"
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+const METHOD_STORED = 0
+const METHOD_DEFLATED = 8
+
+// The end record is 22 bytes, followed by a comment of up to 64 KiB
+const MAX_END_RECORD_SEARCH = 22 + 0xffff
+
+// Guards against zip bombs - no office document part comes close
+const MAX_ENTRY_SIZE = 64 * 1024 * 1024
+
+const findEndOfCentralDirectory = (archive: Buffer): number => {
+  const lowest = Math.max(0, archive.length - MAX_END_RECORD_SEARCH)
+  for (let offset = archive.length - 22; offset >= lowest; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset
+    }
+  }
+  throw new Error("Not a zip archive")
+}
+
+/**
+ * Read one file out of a zip archive (stored or deflated entries only, no ZIP64 or encryption).
+ * Returns undefined when the archive has no entry of that name.
+ */
+export const readZipEntry = (
+  archive: Buffer,
+  entryName: string,
+): Buffer | undefined => {
+  const endOffset = findEndOfCentralDirectory(archive)
+  const entryCount = archive.readUInt16LE(endOffset + 10)
+  let offset = archive.readUInt32LE(endOffset + 16)
+  if (offset === 0xffffffff || offset >= archive.length) {
+    throw new Error("ZIP64 archives are not supported")
+  }
+
+  for (let index = 0; index < entryCount; index++) {
+    if (archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("Corrupt zip central directory")
+    }
+
+    const flags = archive.readUInt16LE(offset + 8)
+    const method = archive.readUInt16LE(offset + 10)
+    const compressedSize = archive.readUInt32LE(offset + 20)
+    const nameLength = archive.readUInt16LE(offset + 28)
+    const extraLength = archive.readUInt16LE(offset + 30)
+    const commentLength = archive.readUInt16LE(offset + 32)
+    const localOffset = archive.readUInt32LE(offset + 42)
+    const name = archive.toString("utf8", offset + 46, offset + 46 + nameLength)
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name !== entryName) continue
+
+    if (flags & 0x1) {
+      throw new Error("Encrypted zip entries are not supported")
+    }
+    if (archive.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt zip entry '${name}'`)
+    }
+
+    // The local header repeats the name but may carry a different extra field
+    const dataOffset =
+      localOffset +
+      30 +
+      archive.readUInt16LE(localOffset + 26) +
+      archive.readUInt16LE(localOffset + 28)
+    const data = archive.subarray(dataOffset, dataOffset + compressedSize)
+
+    switch (method) {
+      case METHOD_STORED:
+        return data
+      case METHOD_DEFLATED:
+        return inflateRawSync(data, { maxOutputLength: MAX_ENTRY_SIZE })
+      default:
+        throw new Error(`Unsupported zip compression method ${method}`)
+    }
+  }
+
+  return undefined
+}
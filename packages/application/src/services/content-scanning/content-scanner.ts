@@ -0,0 +1,19 @@
+import type { Result } from "@carbonteq/fp"
+
+export type ScanVerdict =
+  | { status: "clean" }
+  | { status: "infected"; signature: string }
+
+/**
+ * Scans files for malware. Adapters read the file as a stream, so large files never sit in
+ * memory, and return an Error when the scanner can't give a verdict (it's unreachable, or the
+ * file is over its limits) - such files are scanned again later rather than treated as clean.
+ */
+export abstract class ContentScanner {
+  // Shown in logs next to the verdicts, e.g. "clamd"
+  abstract readonly name: string
+
+  abstract scan(
+    content: ReadableStream<Uint8Array>,
+  ): Promise<Result<ScanVerdict, Error>>
+}
@@ -0,0 +1,56 @@
+import { Result } from "@carbonteq/fp"
+import { injectable } from "tsyringe"
+import { ContentScanner, type ScanVerdict } from "./content-scanner"
+
+const EICAR_SIGNATURE =
+  "X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*"
+
+// The test file is the signature, optionally followed by whitespace, in 128 bytes at most
+const EICAR_MAX_LENGTH = 128
+
+/**
+ * Detects the EICAR anti-virus test file and nothing else - a stand-in for a real scanner in
+ * development and tests, where the whole scanning flow works without a scanner to talk to
+ */
+@injectable()
+export class EicarScanner extends ContentScanner {
+  readonly name = "eicar"
+
+  async scan(
+    content: ReadableStream<Uint8Array>,
+  ): Promise<Result<ScanVerdict, Error>> {
+    try {
+      const reader = content.getReader()
+      const chunks: Uint8Array[] = []
+      let length = 0
+
+      // Anything longer than the test file is clean, so there's no need to read further
+      try {
+        while (length <= EICAR_MAX_LENGTH) {
+          const { done, value } = await reader.read()
+          if (done) break
+          chunks.push(value)
+          length += value.length
+        }
+      } finally {
+        await reader.cancel().catch(() => undefined)
+      }
+
+      const text = Buffer.concat(chunks).toString("latin1")
+      const infected =
+        length <= EICAR_MAX_LENGTH &&
+        text.startsWith(EICAR_SIGNATURE) &&
+        text.slice(EICAR_SIGNATURE.length).trim() === ""
+
+      return Result.Ok(
+        infected
+          ? { status: "infected", signature: "Eicar-Test-Signature" }
+          : { status: "clean" },
+      )
+    } catch (error) {
+      return Result.Err(
+        error instanceof Error ? error : new Error("Failed to scan file"),
+      )
+    }
+  }
+}
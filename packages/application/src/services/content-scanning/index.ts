@@ -0,0 +1,2 @@
+export * from "./content-scanner"
+export * from "./eicar.scanner"
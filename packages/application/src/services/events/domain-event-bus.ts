@@ -0,0 +1,63 @@
+import { Result } from "@carbonteq/fp"
+import type { DomainEvent, DomainEventType } from "@domain/events"
+import { injectable } from "tsyringe"
+
+/**
+ * Reacts to a domain event, throwing when it couldn't. Events are delivered at least once - a
+ * failing subscriber gets the event again, and so do the others - so handlers should tolerate
+ * repeats, which carry the same event id.
+ */
+export type DomainEventHandler = (event: DomainEvent) => Promise<void> | void
+
+@injectable()
+export class DomainEventBus {
+  private readonly handlers = new Map<DomainEventType, DomainEventHandler[]>()
+
+  /**
+   * Call the handler for every event of the given types. Returns a function that unsubscribes it.
+   */
+  subscribe(
+    types: readonly DomainEventType[],
+    handler: DomainEventHandler,
+  ): () => void {
+    for (const type of new Set(types)) {
+      this.handlers.set(type, [...(this.handlers.get(type) ?? []), handler])
+    }
+
+    return () => {
+      for (const [type, handlers] of this.handlers) {
+        this.handlers.set(
+          type,
+          handlers.filter((subscribed) => subscribed !== handler),
+        )
+      }
+    }
+  }
+
+  /**
+   * Hand the event to every subscriber in turn. One failing subscriber doesn't keep the event from
+   * the others; the failures are reported once all of them ran.
+   */
+  async publish(event: DomainEvent): Promise<Result<void, Error>> {
+    const failures: unknown[] = []
+
+    for (const handler of this.handlers.get(event.type) ?? []) {
+      try {
+        await handler(event)
+      } catch (error) {
+        failures.push(error)
+      }
+    }
+
+    if (failures.length > 0) {
+      return Result.Err(
+        new AggregateError(
+          failures,
+          `${failures.length} subscriber(s) failed to handle ${event.type}`,
+        ),
+      )
+    }
+
+    return Result.Ok(undefined)
+  }
+}
@@ -0,0 +1,2 @@
+export * from "./domain-event-bus"
+export * from "./outbox-relay"
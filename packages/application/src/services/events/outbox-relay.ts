@@ -0,0 +1,103 @@
+import { Result } from "@carbonteq/fp"
+import { OutboxRepository } from "@domain/events"
+import { injectable } from "tsyringe"
+import { DomainEventBus } from "./domain-event-bus"
+
+// Failed messages are retried at least this often, however many times they failed
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000
+
+export interface OutboxRelayPolicy {
+  batchSize: number // Messages relayed per run
+  // How long a relay holds the messages it claimed before another one may pick them up
+  leaseMs: number
+  // Wait after the first failure of a message, doubling with every further failure
+  retryDelayMs: number
+}
+
+export interface OutboxRelayReport {
+  published: number
+  failed: number
+}
+
+const positiveOr = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback
+}
+
+@injectable()
+export class OutboxRelay {
+  readonly policy: OutboxRelayPolicy
+
+  constructor(
+    private readonly outboxRepository: OutboxRepository,
+    private readonly eventBus: DomainEventBus,
+  ) {
+    this.policy = {
+      batchSize: positiveOr(process.env.OUTBOX_BATCH_SIZE, 100),
+      leaseMs: positiveOr(process.env.OUTBOX_LEASE_MS, 60_000),
+      retryDelayMs: positiveOr(process.env.OUTBOX_RETRY_DELAY_MS, 5000),
+    }
+  }
+
+  /**
+   * Publish the due messages of the outbox to the event bus, oldest events first. A message is only
+   * marked as published once every subscriber handled it, so events are delivered at least once;
+   * failed messages are retried later, after the messages behind them.
+   */
+  async relay(): Promise<Result<OutboxRelayReport, Error>> {
+    const { batchSize, leaseMs } = this.policy
+
+    const claimResult = await this.outboxRepository.claimDue(batchSize, leaseMs)
+    if (claimResult.isErr()) {
+      return Result.Err(claimResult.unwrapErr())
+    }
+
+    let published = 0
+    let failed = 0
+
+    for (const message of claimResult.unwrap()) {
+      const publishResult = await this.eventBus.publish(message.toEvent())
+
+      const relayed = publishResult.isOk()
+        ? message.markPublished()
+        : message.markFailed(
+            publishResult.unwrapErr().message,
+            new Date(Date.now() + this.retryDelay(message.attempts)),
+          )
+      if (publishResult.isOk()) {
+        published++
+      } else {
+        console.error(
+          `Failed to relay ${message.eventType} ${message.id}:`,
+          publishResult.unwrapErr(),
+        )
+        failed++
+      }
+
+      // Left as it is, the message is relayed again once the lease ran out
+      const updateResult = await this.outboxRepository.update(relayed)
+      if (updateResult.isErr()) {
+        console.error(
+          `Failed to record the relay of ${message.id}:`,
+          updateResult.unwrapErr(),
+        )
+      }
+    }
+
+    return Result.Ok({ published, failed })
+  }
+
+  /**
+   * Delete the messages published before the cutoff. Returns how many were deleted.
+   */
+  async prune(cutoff: Date): Promise<Result<number, Error>> {
+    return this.outboxRepository.deletePublishedBefore(cutoff)
+  }
+
+  private retryDelay(previousAttempts: number): number {
+    return Math.min(
+      this.policy.retryDelayMs * 2 ** previousAttempts,
+      Math.max(this.policy.retryDelayMs, MAX_RETRY_DELAY_MS),
+    )
+  }
+}
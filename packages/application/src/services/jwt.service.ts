@@ -2,6 +2,12 @@ import { injectable } from "tsyringe"
 import { Result } from "@carbonteq/fp"
 import jwt from "jsonwebtoken"
 
+export interface DownloadTokenPayload {
+  documentId: string
+  versionId?: string
+  userId?: string // Who the token was issued to
+}
+
 @injectable()
 export class JwtService {
   private readonly secret: string
@@ -11,11 +17,13 @@ export class JwtService {
   }
 
   /**
-   * Generate a JWT token for document download
+   * Generate a JWT token for document download, optionally pinned to a specific version
    */
-  async generateToken(documentId: string, expiresInMinutes: number = 5): Promise<string> {
+  async generateToken(documentId: string, expiresInMinutes: number = 5, versionId?: string, userId?: string): Promise<string> {
     const payload = {
       documentId,
+      ...(versionId && { versionId }),
+      ...(userId && { userId }),
       exp: Math.floor(Date.now() / 1000) + (expiresInMinutes * 60), // Convert minutes to seconds
       iat: Math.floor(Date.now() / 1000), // Issued at
     }
@@ -26,15 +34,15 @@ export class JwtService {
   /**
    * Verify and decode a JWT token
    */
-  async verifyToken(token: string): Promise<Result<string, Error>> {
+  async verifyToken(token: string): Promise<Result<DownloadTokenPayload, Error>> {
     try {
       const payload = jwt.verify(token, this.secret) as any
-      
+
       if (!payload.documentId) {
         return Result.Err(new Error("Invalid token payload - missing document ID"))
       }
-      
-      return Result.Ok(payload.documentId)
+
+      return Result.Ok(this.toDownloadPayload(payload))
     } catch (error) {
       if (error instanceof jwt.JsonWebTokenError) {
         return Result.Err(new Error("Invalid download token"))
@@ -51,17 +59,25 @@ export class JwtService {
   /**
    * Decode token without verification (for internal use)
    */
-  async decodeToken(token: string): Promise<Result<string, Error>> {
+  async decodeToken(token: string): Promise<Result<DownloadTokenPayload, Error>> {
     try {
       const payload = jwt.decode(token) as any
-      
+
       if (!payload || !payload.documentId) {
         return Result.Err(new Error("Invalid token payload - missing document ID"))
       }
-      
-      return Result.Ok(payload.documentId)
+
+      return Result.Ok(this.toDownloadPayload(payload))
     } catch (error) {
       return Result.Err(new Error("Failed to decode token"))
     }
   }
+
+  private toDownloadPayload(payload: { documentId: string; versionId?: unknown; userId?: unknown }): DownloadTokenPayload {
+    return {
+      documentId: payload.documentId,
+      ...(typeof payload.versionId === "string" && { versionId: payload.versionId }),
+      ...(typeof payload.userId === "string" && { userId: payload.userId }),
+    }
+  }
 }
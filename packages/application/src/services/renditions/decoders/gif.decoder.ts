@@ -0,0 +1,246 @@
+import type { ImageDecoder, RawImage } from "../image-decoder"
+import { assertImageSize } from "../utils/image.utils"
+
+const EXTENSION_INTRODUCER = 0x21
+const IMAGE_SEPARATOR = 0x2c
+const TRAILER = 0x3b
+const GRAPHIC_CONTROL_LABEL = 0xf9
+
+const MAX_LZW_CODES = 4096
+
+// Rows of an interlaced frame arrive as every 8th row from 0, every 8th from 4, every 4th from 2, then the odd rows
+const INTERLACE_PASSES = [
+  [0, 8],
+  [4, 8],
+  [2, 4],
+  [1, 2],
+] as const
+
+/**
+ * Concatenate a run of data sub-blocks (each prefixed with its length, ended by an empty one)
+ */
+const readSubBlocks = (
+  file: Buffer,
+  offset: number,
+): { data: Buffer; next: number } => {
+  const blocks: Buffer[] = []
+  let position = offset
+  while (position < file.length) {
+    const length = file[position] as number
+    position++
+    if (length === 0) break
+    blocks.push(file.subarray(position, position + length))
+    position += length
+  }
+  return { data: Buffer.concat(blocks), next: position }
+}
+
+/**
+ * Decode the LZW-compressed colour indices of a frame. Truncated data leaves the remaining
+ * pixels at index 0, as browsers do.
+ */
+const decodeLzw = (
+  data: Buffer,
+  minCodeSize: number,
+  pixelCount: number,
+): Uint8Array => {
+  const output = new Uint8Array(pixelCount)
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+
+  const prefix = new Uint16Array(MAX_LZW_CODES)
+  const suffix = new Uint8Array(MAX_LZW_CODES)
+  const stack = new Uint8Array(MAX_LZW_CODES + 1)
+  for (let code = 0; code < clearCode; code++) {
+    suffix[code] = code
+  }
+
+  let codeSize = minCodeSize + 1
+  let nextCode = endCode + 1
+  let previous = -1
+  let first = 0
+
+  let bits = 0
+  let bitCount = 0
+  let position = 0
+  let written = 0
+
+  while (written < pixelCount) {
+    while (bitCount < codeSize) {
+      if (position >= data.length) return output
+      bits |= (data[position] as number) << bitCount
+      bitCount += 8
+      position++
+    }
+    const code = bits & ((1 << codeSize) - 1)
+    bits >>>= codeSize
+    bitCount -= codeSize
+
+    if (code === clearCode) {
+      codeSize = minCodeSize + 1
+      nextCode = endCode + 1
+      previous = -1
+      continue
+    }
+    if (code === endCode) break
+
+    if (previous === -1) {
+      if (code >= clearCode) {
+        throw new Error("Corrupt GIF image data")
+      }
+      output[written++] = code
+      previous = code
+      first = code
+      continue
+    }
+    if (code > nextCode) {
+      throw new Error("Corrupt GIF image data")
+    }
+
+    // Walk the chain of the code back to its root, collecting the indices in reverse
+    let top = 0
+    let current = code
+    if (code === nextCode) {
+      stack[top++] = first
+      current = previous
+    }
+    while (current > endCode) {
+      stack[top++] = suffix[current] as number
+      current = prefix[current] as number
+    }
+    first = suffix[current] as number
+    stack[top++] = first
+
+    if (nextCode < MAX_LZW_CODES) {
+      prefix[nextCode] = previous
+      suffix[nextCode] = first
+      nextCode++
+      if (nextCode === 1 << codeSize && codeSize < 12) {
+        codeSize++
+      }
+    }
+
+    while (top > 0 && written < pixelCount) {
+      output[written++] = stack[--top] as number
+    }
+    previous = code
+  }
+
+  return output
+}
+
+/**
+ * Decodes the first frame of GIF images onto their logical screen, which starts out transparent
+ */
+export class GifDecoder implements ImageDecoder {
+  readonly name = "gif"
+  readonly mimeTypes = ["image/gif"] as const
+
+  async decode(file: Buffer): Promise<RawImage> {
+    const signature = file.toString("latin1", 0, 6)
+    if (signature !== "GIF87a" && signature !== "GIF89a") {
+      throw new Error("Not a GIF image")
+    }
+
+    const width = file.readUInt16LE(6)
+    const height = file.readUInt16LE(8)
+    assertImageSize(width, height)
+
+    const screenFlags = file[10] as number
+    let offset = 13
+    let globalColors: Buffer | undefined
+    if (screenFlags & 0x80) {
+      const length = 3 * 2 ** ((screenFlags & 0x07) + 1)
+      globalColors = file.subarray(offset, offset + length)
+      offset += length
+    }
+
+    let transparentIndex: number | undefined
+
+    while (offset < file.length) {
+      const introducer = file[offset]
+
+      if (introducer === EXTENSION_INTRODUCER) {
+        const label = file[offset + 1]
+        const { data, next } = readSubBlocks(file, offset + 2)
+        if (
+          label === GRAPHIC_CONTROL_LABEL &&
+          data.length >= 4 &&
+          (data[0] as number) & 0x01
+        ) {
+          transparentIndex = data[3]
+        }
+        offset = next
+        continue
+      }
+
+      if (introducer !== IMAGE_SEPARATOR) {
+        if (introducer === TRAILER) break
+        throw new Error("Corrupt GIF image: unknown block")
+      }
+
+      const left = file.readUInt16LE(offset + 1)
+      const top = file.readUInt16LE(offset + 3)
+      const frameWidth = file.readUInt16LE(offset + 5)
+      const frameHeight = file.readUInt16LE(offset + 7)
+      const frameFlags = file[offset + 9] as number
+      offset += 10
+
+      let colors = globalColors
+      if (frameFlags & 0x80) {
+        const length = 3 * 2 ** ((frameFlags & 0x07) + 1)
+        colors = file.subarray(offset, offset + length)
+        offset += length
+      }
+      if (!colors) {
+        throw new Error("Corrupt GIF image: no colour table")
+      }
+
+      const minCodeSize = file[offset] as number
+      if (minCodeSize < 2 || minCodeSize > 11) {
+        throw new Error("Corrupt GIF image data")
+      }
+      const { data } = readSubBlocks(file, offset + 1)
+      const indices = decodeLzw(data, minCodeSize, frameWidth * frameHeight)
+
+      // Frame rows in the order they are stored
+      const rowOrder =
+        frameFlags & 0x40
+          ? INTERLACE_PASSES.flatMap(([start, step]) =>
+              Array.from(
+                {
+                  length: Math.max(0, Math.ceil((frameHeight - start) / step)),
+                },
+                (_, i) => start + i * step,
+              ),
+            )
+          : Array.from({ length: frameHeight }, (_, i) => i)
+
+      const output = new Uint8Array(width * height * 4)
+      rowOrder.forEach((frameY, storedY) => {
+        const y = top + frameY
+        if (y >= height) return
+        for (let frameX = 0; frameX < frameWidth; frameX++) {
+          const x = left + frameX
+          const index = indices[storedY * frameWidth + frameX] as number
+          if (
+            x >= width ||
+            index === transparentIndex ||
+            index * 3 + 2 >= colors.length
+          )
+            continue
+
+          const p = (y * width + x) * 4
+          output[p] = colors[index * 3] as number
+          output[p + 1] = colors[index * 3 + 1] as number
+          output[p + 2] = colors[index * 3 + 2] as number
+          output[p + 3] = 255
+        }
+      })
+
+      return { width, height, data: output }
+    }
+
+    throw new Error("Corrupt GIF image: no image data")
+  }
+}
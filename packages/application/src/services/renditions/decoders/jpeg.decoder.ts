@@ -0,0 +1,761 @@
+import type { ImageDecoder, RawImage } from "../image-decoder"
+import { assertImageSize } from "../utils/image.utils"
+
+// Position in an 8x8 block of each coefficient, in the zigzag order they are stored in
+const ZIGZAG = new Uint8Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40,
+  48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28, 35, 42, 49, 56, 57, 50, 43, 36, 29,
+  22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54,
+  47, 55, 62, 63,
+])
+
+// cos((2x + 1)uπ / 16) scaled for the 1D inverse DCT, indexed by [x * 8 + u]
+const IDCT_COSINES = Float32Array.from({ length: 64 }, (_, i) => {
+  const x = i >> 3
+  const u = i & 7
+  return (
+    ((u === 0 ? Math.SQRT1_2 : 1) *
+      Math.cos(((2 * x + 1) * u * Math.PI) / 16)) /
+    2
+  )
+})
+
+const SOF_BASELINE = 0xc0
+const SOF_EXTENDED = 0xc1
+const SOF_PROGRESSIVE = 0xc2
+const DHT = 0xc4
+const SOI = 0xd8
+const EOI = 0xd9
+const SOS = 0xda
+const DQT = 0xdb
+const DRI = 0xdd
+const APP1 = 0xe1
+const APP14 = 0xee
+
+const isRestartMarker = (marker: number) => marker >= 0xd0 && marker <= 0xd7
+
+interface HuffmanTable {
+  maxCode: Int32Array // Largest code of each length, -1 when there is none
+  minCode: Int32Array
+  valueIndex: Int32Array // Index into values of the first code of each length
+  values: Uint8Array
+}
+
+interface Component {
+  id: number
+  h: number // Sampling factors
+  v: number
+  quantizationId: number
+  blocksPerLine: number // Blocks covering the image
+  blocksPerColumn: number
+  blocksPerLineForMcu: number // Blocks covering whole MCUs, which the image is padded to
+  blocksPerColumnForMcu: number
+  coefficients: Int16Array
+  dcTable?: HuffmanTable
+  acTable?: HuffmanTable
+  prediction: number
+}
+
+interface Frame {
+  progressive: boolean
+  width: number
+  height: number
+  maxH: number
+  maxV: number
+  mcusPerLine: number
+  mcusPerColumn: number
+  components: Component[]
+}
+
+const buildHuffmanTable = (
+  counts: Uint8Array,
+  values: Uint8Array,
+): HuffmanTable => {
+  const maxCode = new Int32Array(17).fill(-1)
+  const minCode = new Int32Array(17)
+  const valueIndex = new Int32Array(17)
+  let code = 0
+  let index = 0
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1] as number
+    valueIndex[length] = index
+    minCode[length] = code
+    if (count > 0) {
+      maxCode[length] = code + count - 1
+    }
+    code = (code + count) << 1
+    index += count
+  }
+  return { maxCode, minCode, valueIndex, values }
+}
+
+/**
+ * Split the entropy-coded data of a scan at its restart markers, removing the stuffed zero
+ * bytes. Returns the segments and the offset of the marker that ends the scan.
+ */
+const readScanSegments = (
+  file: Buffer,
+  offset: number,
+): { segments: Uint8Array[]; next: number } => {
+  const segments: Uint8Array[] = []
+  let segment: number[] = []
+  let position = offset
+
+  while (position < file.length) {
+    const byte = file[position] as number
+    if (byte !== 0xff) {
+      segment.push(byte)
+      position++
+      continue
+    }
+
+    const marker = file[position + 1] as number
+    if (marker === 0x00) {
+      segment.push(0xff)
+      position += 2
+    } else if (marker === 0xff) {
+      position++ // Fill byte before a marker
+    } else if (isRestartMarker(marker)) {
+      segments.push(Uint8Array.from(segment))
+      segment = []
+      position += 2
+    } else {
+      break
+    }
+  }
+
+  segments.push(Uint8Array.from(segment))
+  return { segments, next: position }
+}
+
+/**
+ * Reads the Huffman-coded bits of one restart segment. Reading past its end yields zero bits,
+ * which lets truncated files decode as far as they go.
+ */
+class BitReader {
+  private position = 0
+  private byte = 0
+  private bitsLeft = 0
+
+  constructor(private readonly data: Uint8Array) {}
+
+  readBit(): number {
+    if (this.bitsLeft === 0) {
+      this.byte = this.data[this.position++] ?? 0
+      this.bitsLeft = 8
+    }
+    this.bitsLeft--
+    return (this.byte >> this.bitsLeft) & 1
+  }
+
+  receive(length: number): number {
+    let value = 0
+    for (let i = 0; i < length; i++) {
+      value = (value << 1) | this.readBit()
+    }
+    return value
+  }
+
+  // Read a value of the given bit length, mapping the lower half of the range to negative numbers
+  receiveExtend(length: number): number {
+    if (length === 0) return 0
+    const value = this.receive(length)
+    return value < 1 << (length - 1) ? value - (1 << length) + 1 : value
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = 0
+    for (let length = 1; length <= 16; length++) {
+      code = (code << 1) | this.readBit()
+      if (code <= (table.maxCode[length] as number)) {
+        return table.values[
+          (table.valueIndex[length] as number) +
+            code -
+            (table.minCode[length] as number)
+        ] as number
+      }
+    }
+    throw new Error("Corrupt JPEG image: invalid Huffman code")
+  }
+}
+
+interface Scan {
+  components: Component[]
+  spectralStart: number
+  spectralEnd: number
+  successiveHigh: number
+  successiveLow: number
+}
+
+/**
+ * Decode the coefficients of one scan into the blocks of its components
+ */
+const decodeScan = (
+  frame: Frame,
+  scan: Scan,
+  segments: Uint8Array[],
+  restartInterval: number,
+): void => {
+  const { spectralStart, spectralEnd, successiveHigh, successiveLow } = scan
+  let reader = new BitReader(segments[0] ?? new Uint8Array())
+  let endOfBandRun = 0
+
+  // State of a refinement scan that is carried from one block to the next
+  let refineState: "initial" | "skip" | "skipThenSet" | "set" | "endOfBand" =
+    "initial"
+  let zerosToSkip = 0
+  let nextValue = 0
+
+  const decodeBaseline = (component: Component, offset: number) => {
+    const { coefficients } = component
+    const dcLength = reader.decode(component.dcTable as HuffmanTable)
+    component.prediction += reader.receiveExtend(dcLength)
+    coefficients[offset] = component.prediction
+
+    for (let k = 1; k < 64; ) {
+      const symbol = reader.decode(component.acTable as HuffmanTable)
+      const length = symbol & 15
+      const run = symbol >> 4
+      if (length === 0) {
+        if (run < 15) break
+        k += 16
+        continue
+      }
+      k += run
+      if (k > 63) break
+      coefficients[offset + (ZIGZAG[k] as number)] =
+        reader.receiveExtend(length)
+      k++
+    }
+  }
+
+  const decodeDcFirst = (component: Component, offset: number) => {
+    const dcLength = reader.decode(component.dcTable as HuffmanTable)
+    component.prediction +=
+      reader.receiveExtend(dcLength) * (1 << successiveLow)
+    component.coefficients[offset] = component.prediction
+  }
+
+  const decodeDcRefine = (component: Component, offset: number) => {
+    if (reader.readBit()) {
+      component.coefficients[offset] =
+        (component.coefficients[offset] as number) | (1 << successiveLow)
+    }
+  }
+
+  const decodeAcFirst = (component: Component, offset: number) => {
+    if (endOfBandRun > 0) {
+      endOfBandRun--
+      return
+    }
+    for (let k = spectralStart; k <= spectralEnd; ) {
+      const symbol = reader.decode(component.acTable as HuffmanTable)
+      const length = symbol & 15
+      const run = symbol >> 4
+      if (length === 0) {
+        if (run < 15) {
+          endOfBandRun = reader.receive(run) + (1 << run) - 1
+          break
+        }
+        k += 16
+        continue
+      }
+      k += run
+      if (k > 63) break
+      component.coefficients[offset + (ZIGZAG[k] as number)] =
+        reader.receiveExtend(length) * (1 << successiveLow)
+      k++
+    }
+  }
+
+  // Successive approximation of AC coefficients (G.1.2.3 of the spec): coefficients that are
+  // already non-zero get a correction bit, new ones are placed after a run of zero coefficients
+  const decodeAcRefine = (component: Component, offset: number) => {
+    const { coefficients } = component
+    const bit = 1 << successiveLow
+
+    for (let k = spectralStart; k <= spectralEnd; ) {
+      const index = offset + (ZIGZAG[k] as number)
+      const coefficient = coefficients[index] as number
+
+      if (refineState === "initial") {
+        const symbol = reader.decode(component.acTable as HuffmanTable)
+        const length = symbol & 15
+        const run = symbol >> 4
+        if (length === 0) {
+          if (run < 15) {
+            endOfBandRun = reader.receive(run) + (1 << run)
+            refineState = "endOfBand"
+          } else {
+            zerosToSkip = 16
+            refineState = "skip"
+          }
+        } else {
+          if (length !== 1) {
+            throw new Error("Corrupt JPEG image: invalid refinement")
+          }
+          nextValue = reader.receiveExtend(1)
+          zerosToSkip = run
+          refineState = run > 0 ? "skipThenSet" : "set"
+        }
+        continue
+      }
+
+      if (coefficient !== 0) {
+        if (reader.readBit()) {
+          coefficients[index] = coefficient + (coefficient < 0 ? -bit : bit)
+        }
+      } else if (refineState === "skip" || refineState === "skipThenSet") {
+        zerosToSkip--
+        if (zerosToSkip === 0) {
+          refineState = refineState === "skipThenSet" ? "set" : "initial"
+        }
+      } else if (refineState === "set") {
+        coefficients[index] = nextValue * bit
+        refineState = "initial"
+      }
+      k++
+    }
+
+    if (refineState === "endOfBand") {
+      endOfBandRun--
+      if (endOfBandRun === 0) {
+        refineState = "initial"
+      }
+    }
+  }
+
+  const decodeBlock = frame.progressive
+    ? spectralStart === 0
+      ? successiveHigh === 0
+        ? decodeDcFirst
+        : decodeDcRefine
+      : successiveHigh === 0
+        ? decodeAcFirst
+        : decodeAcRefine
+    : decodeBaseline
+
+  const blockOffset = (component: Component, row: number, column: number) =>
+    64 * (row * component.blocksPerLineForMcu + column)
+
+  // A scan of one component codes its blocks in raster order, without MCU padding
+  const single = scan.components.length === 1 ? scan.components[0] : undefined
+  const mcuCount = single
+    ? single.blocksPerLine * single.blocksPerColumn
+    : frame.mcusPerLine * frame.mcusPerColumn
+
+  let segmentIndex = 0
+  for (let mcu = 0; mcu < mcuCount; mcu++) {
+    if (restartInterval > 0 && mcu > 0 && mcu % restartInterval === 0) {
+      segmentIndex++
+      reader = new BitReader(segments[segmentIndex] ?? new Uint8Array())
+      endOfBandRun = 0
+      refineState = "initial"
+      for (const component of scan.components) {
+        component.prediction = 0
+      }
+    }
+
+    if (single) {
+      const row = Math.floor(mcu / single.blocksPerLine)
+      const column = mcu % single.blocksPerLine
+      decodeBlock(single, blockOffset(single, row, column))
+      continue
+    }
+
+    const mcuRow = Math.floor(mcu / frame.mcusPerLine)
+    const mcuColumn = mcu % frame.mcusPerLine
+    for (const component of scan.components) {
+      for (let v = 0; v < component.v; v++) {
+        for (let h = 0; h < component.h; h++) {
+          const row = mcuRow * component.v + v
+          const column = mcuColumn * component.h + h
+          decodeBlock(component, blockOffset(component, row, column))
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Dequantize and inverse-DCT the blocks of a component into an 8-bit sample plane
+ */
+const buildPlane = (
+  component: Component,
+  quantization: Uint16Array,
+): Uint8Array => {
+  const lineLength = component.blocksPerLineForMcu * 8
+  const plane = new Uint8Array(lineLength * component.blocksPerColumnForMcu * 8)
+  const dequantized = new Float32Array(64)
+  const rows = new Float32Array(64)
+
+  for (
+    let blockRow = 0;
+    blockRow < component.blocksPerColumnForMcu;
+    blockRow++
+  ) {
+    for (
+      let blockColumn = 0;
+      blockColumn < component.blocksPerLineForMcu;
+      blockColumn++
+    ) {
+      const offset =
+        64 * (blockRow * component.blocksPerLineForMcu + blockColumn)
+      for (let i = 0; i < 64; i++) {
+        dequantized[i] =
+          (component.coefficients[offset + i] as number) *
+          (quantization[i] as number)
+      }
+
+      // 1D inverse DCT of every row, then of every column
+      for (let v = 0; v < 8; v++) {
+        for (let x = 0; x < 8; x++) {
+          let sum = 0
+          for (let u = 0; u < 8; u++) {
+            sum +=
+              (IDCT_COSINES[x * 8 + u] as number) *
+              (dequantized[v * 8 + u] as number)
+          }
+          rows[v * 8 + x] = sum
+        }
+      }
+      for (let x = 0; x < 8; x++) {
+        for (let y = 0; y < 8; y++) {
+          let sum = 0
+          for (let v = 0; v < 8; v++) {
+            sum +=
+              (IDCT_COSINES[y * 8 + v] as number) * (rows[v * 8 + x] as number)
+          }
+          const sample = Math.round(sum + 128)
+          plane[(blockRow * 8 + y) * lineLength + blockColumn * 8 + x] =
+            sample < 0 ? 0 : sample > 255 ? 255 : sample
+        }
+      }
+    }
+  }
+
+  return plane
+}
+
+/**
+ * Read the orientation tag from the first IFD of an Exif segment (1 when it has none)
+ */
+const readExifOrientation = (segment: Buffer): number => {
+  if (segment.toString("latin1", 0, 6) !== "Exif\0\0") return 1
+  const tiff = segment.subarray(6)
+  if (tiff.length < 8) return 1
+
+  const littleEndian = tiff.toString("latin1", 0, 2) === "II"
+  const readUInt16 = (offset: number) =>
+    littleEndian ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset)
+  const readUInt32 = (offset: number) =>
+    littleEndian ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset)
+
+  const ifd = readUInt32(4)
+  if (ifd + 2 > tiff.length) return 1
+  const entries = readUInt16(ifd)
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12
+    if (entry + 12 > tiff.length) break
+    if (readUInt16(entry) === 0x0112) {
+      const orientation = readUInt16(entry + 8)
+      return orientation >= 1 && orientation <= 8 ? orientation : 1
+    }
+  }
+  return 1
+}
+
+const clamp = (value: number) =>
+  value < 0 ? 0 : value > 255 ? 255 : Math.round(value)
+
+/**
+ * Decodes baseline and progressive JPEG images with Huffman coding - greyscale, YCbCr, and
+ * Adobe CMYK/YCCK. Chroma is upsampled by repeating samples, which is invisible in thumbnails.
+ */
+export class JpegDecoder implements ImageDecoder {
+  readonly name = "jpeg"
+  readonly mimeTypes = ["image/jpeg", "image/pjpeg"] as const
+
+  async decode(file: Buffer): Promise<RawImage> {
+    if (file[0] !== 0xff || file[1] !== SOI) {
+      throw new Error("Not a JPEG image")
+    }
+
+    const quantizationTables: Uint16Array[] = []
+    const dcTables: HuffmanTable[] = []
+    const acTables: HuffmanTable[] = []
+    let frame: Frame | undefined
+    let restartInterval = 0
+    let orientation = 1
+    let adobeTransform: number | undefined
+
+    let offset = 2
+    while (offset < file.length) {
+      if (file[offset] !== 0xff) {
+        offset++ // Skip garbage between segments
+        continue
+      }
+      const marker = file[offset + 1] as number
+      if (marker === 0xff) {
+        offset++
+        continue
+      }
+      offset += 2
+      if (marker === EOI) break
+      if (marker === SOI || isRestartMarker(marker)) continue
+
+      const length = file.readUInt16BE(offset)
+      const segment = file.subarray(offset + 2, offset + length)
+      offset += length
+
+      switch (marker) {
+        case APP1:
+          if (orientation === 1) orientation = readExifOrientation(segment)
+          break
+
+        case APP14:
+          if (
+            segment.toString("latin1", 0, 5) === "Adobe" &&
+            segment.length >= 12
+          ) {
+            adobeTransform = segment[11]
+          }
+          break
+
+        case DQT:
+          for (let position = 0; position < segment.length; ) {
+            const precision = (segment[position] as number) >> 4
+            const id = (segment[position] as number) & 15
+            position++
+            const table = new Uint16Array(64)
+            for (let k = 0; k < 64; k++) {
+              table[ZIGZAG[k] as number] = precision
+                ? segment.readUInt16BE(position + k * 2)
+                : (segment[position + k] as number)
+            }
+            quantizationTables[id] = table
+            position += precision ? 128 : 64
+          }
+          break
+
+        case DHT:
+          for (let position = 0; position < segment.length; ) {
+            const tableClass = (segment[position] as number) >> 4
+            const id = (segment[position] as number) & 15
+            const counts = segment.subarray(position + 1, position + 17)
+            const total = counts.reduce((sum, count) => sum + count, 0)
+            const values = Uint8Array.from(
+              segment.subarray(position + 17, position + 17 + total),
+            )
+            const table = buildHuffmanTable(counts, values)
+            if (tableClass === 0) {
+              dcTables[id] = table
+            } else {
+              acTables[id] = table
+            }
+            position += 17 + total
+          }
+          break
+
+        case DRI:
+          restartInterval = segment.readUInt16BE(0)
+          break
+
+        case SOF_BASELINE:
+        case SOF_EXTENDED:
+        case SOF_PROGRESSIVE:
+          frame = this.readFrame(segment, marker === SOF_PROGRESSIVE)
+          break
+
+        case SOS: {
+          if (!frame) {
+            throw new Error("Corrupt JPEG image: scan before frame header")
+          }
+          const scanFrame = frame
+          const count = segment[0] as number
+          const components = Array.from({ length: count }, (_, i) => {
+            const id = segment[1 + i * 2]
+            const tables = segment[2 + i * 2] as number
+            const component = scanFrame.components.find((c) => c.id === id)
+            if (!component) {
+              throw new Error(
+                "Corrupt JPEG image: scan of an unknown component",
+              )
+            }
+            component.dcTable = dcTables[tables >> 4]
+            component.acTable = acTables[tables & 15]
+            component.prediction = 0
+            return component
+          })
+          const parameters = 1 + count * 2
+          const approximation = segment[parameters + 2] as number
+          const scan: Scan = {
+            components,
+            spectralStart: segment[parameters] as number,
+            spectralEnd: segment[parameters + 1] as number,
+            successiveHigh: approximation >> 4,
+            successiveLow: approximation & 15,
+          }
+
+          const { segments, next } = readScanSegments(file, offset)
+          decodeScan(frame, scan, segments, restartInterval)
+          offset = next
+          break
+        }
+
+        default:
+          if (
+            marker >= 0xc3 &&
+            marker <= 0xcf &&
+            marker !== DHT &&
+            marker !== 0xc8 &&
+            marker !== 0xcc
+          ) {
+            throw new Error(
+              "Lossless and arithmetic-coded JPEG images are not supported",
+            )
+          }
+      }
+    }
+
+    if (!frame) {
+      throw new Error("Corrupt JPEG image: no frame header")
+    }
+
+    return {
+      width: frame.width,
+      height: frame.height,
+      data: this.toRgba(frame, quantizationTables, adobeTransform),
+      orientation,
+    }
+  }
+
+  private readFrame(segment: Buffer, progressive: boolean): Frame {
+    if (segment[0] !== 8) {
+      throw new Error("Only 8-bit JPEG images are supported")
+    }
+    const height = segment.readUInt16BE(1)
+    const width = segment.readUInt16BE(3)
+    assertImageSize(width, height)
+
+    const count = segment[5] as number
+    if (count !== 1 && count !== 3 && count !== 4) {
+      throw new Error(`JPEG images with ${count} components are not supported`)
+    }
+
+    const sampling = Array.from({ length: count }, (_, i) => ({
+      id: segment[6 + i * 3] as number,
+      h: (segment[7 + i * 3] as number) >> 4 || 1,
+      v: (segment[7 + i * 3] as number) & 15 || 1,
+      quantizationId: segment[8 + i * 3] as number,
+    }))
+    const maxH = Math.max(...sampling.map((c) => c.h))
+    const maxV = Math.max(...sampling.map((c) => c.v))
+    const mcusPerLine = Math.ceil(width / 8 / maxH)
+    const mcusPerColumn = Math.ceil(height / 8 / maxV)
+
+    const components = sampling.map((c): Component => {
+      const blocksPerLineForMcu = mcusPerLine * c.h
+      const blocksPerColumnForMcu = mcusPerColumn * c.v
+      return {
+        ...c,
+        blocksPerLine: Math.ceil(Math.ceil((width * c.h) / maxH) / 8),
+        blocksPerColumn: Math.ceil(Math.ceil((height * c.v) / maxV) / 8),
+        blocksPerLineForMcu,
+        blocksPerColumnForMcu,
+        coefficients: new Int16Array(
+          64 * blocksPerLineForMcu * blocksPerColumnForMcu,
+        ),
+        prediction: 0,
+      }
+    })
+
+    return {
+      progressive,
+      width,
+      height,
+      maxH,
+      maxV,
+      mcusPerLine,
+      mcusPerColumn,
+      components,
+    }
+  }
+
+  private toRgba(
+    frame: Frame,
+    quantizationTables: Uint16Array[],
+    adobeTransform: number | undefined,
+  ): Uint8Array {
+    const { width, height, components } = frame
+    const planes = components.map((component) => {
+      const quantization = quantizationTables[component.quantizationId]
+      if (!quantization) {
+        throw new Error("Corrupt JPEG image: missing quantization table")
+      }
+      return buildPlane(component, quantization)
+    })
+
+    // Sample of each component for every pixel, upsampling subsampled components by repetition
+    const columns = components.map((c) =>
+      Int32Array.from({ length: width }, (_, x) =>
+        Math.floor((x * c.h) / frame.maxH),
+      ),
+    )
+    const lineLengths = components.map((c) => c.blocksPerLineForMcu * 8)
+    const sample = (index: number, x: number, y: number) => {
+      const component = components[index] as Component
+      const row = Math.floor((y * component.v) / frame.maxV)
+      return (planes[index] as Uint8Array)[
+        row * (lineLengths[index] as number) +
+          ((columns[index] as Int32Array)[x] as number)
+      ] as number
+    }
+
+    // RGB-coded images are flagged by an Adobe transform of 0, or by their component ids without one
+    const rgbIds =
+      components.map((c) => String.fromCharCode(c.id)).join("") === "RGB"
+    const transform =
+      components.length === 3
+        ? (adobeTransform ?? (rgbIds ? 0 : 1)) !== 0
+        : adobeTransform === 2
+
+    const output = new Uint8Array(width * height * 4)
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const p = (y * width + x) * 4
+        let r = sample(0, x, y)
+        let g = r
+        let b = r
+
+        if (components.length >= 3) {
+          g = sample(1, x, y)
+          b = sample(2, x, y)
+          if (transform) {
+            const luma = r
+            const cb = g - 128
+            const cr = b - 128
+            r = clamp(luma + 1.402 * cr)
+            g = clamp(luma - 0.344136 * cb - 0.714136 * cr)
+            b = clamp(luma + 1.772 * cb)
+          }
+        }
+
+        // Adobe stores CMYK inverted, so the channels already hold 255 - C/M/Y/K
+        if (components.length === 4) {
+          const k = sample(3, x, y)
+          r = Math.round((r * k) / 255)
+          g = Math.round((g * k) / 255)
+          b = Math.round((b * k) / 255)
+        }
+
+        output[p] = r
+        output[p + 1] = g
+        output[p + 2] = b
+        output[p + 3] = 255
+      }
+    }
+
+    return output
+  }
+}
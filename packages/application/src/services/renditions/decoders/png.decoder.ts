@@ -0,0 +1,287 @@
+import { inflateSync } from "node:zlib"
+import type { ImageDecoder, RawImage } from "../image-decoder"
+import { assertImageSize } from "../utils/image.utils"
+import { PNG_SIGNATURE, paeth } from "../utils/png.utils"
+
+// Samples per pixel of each colour type: greyscale, RGB, palette, greyscale + alpha, RGBA
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }
+
+// Adam7 interlacing: [x start, y start, x step, y step] of each pass
+const ADAM7_PASSES = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+] as const
+
+interface PngHeader {
+  width: number
+  height: number
+  bitDepth: number
+  colorType: number
+  interlaced: boolean
+}
+
+interface PngChunks {
+  header: PngHeader
+  palette?: Buffer
+  transparency?: Buffer
+  data: Buffer
+}
+
+const readChunks = (file: Buffer): PngChunks => {
+  if (file.length < 8 || !file.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error("Not a PNG image")
+  }
+
+  let header: PngHeader | undefined
+  let palette: Buffer | undefined
+  let transparency: Buffer | undefined
+  const data: Buffer[] = []
+
+  let offset = 8
+  while (offset + 8 <= file.length) {
+    const length = file.readUInt32BE(offset)
+    const type = file.toString("latin1", offset + 4, offset + 8)
+    const body = file.subarray(offset + 8, offset + 8 + length)
+    offset += 12 + length
+
+    if (type === "IHDR") {
+      header = {
+        width: body.readUInt32BE(0),
+        height: body.readUInt32BE(4),
+        bitDepth: body[8] as number,
+        colorType: body[9] as number,
+        interlaced: body[12] === 1,
+      }
+    } else if (type === "PLTE") {
+      palette = body
+    } else if (type === "tRNS") {
+      transparency = body
+    } else if (type === "IDAT") {
+      data.push(body)
+    } else if (type === "IEND") {
+      break
+    }
+  }
+
+  if (!header) {
+    throw new Error("Corrupt PNG image: IHDR is missing")
+  }
+  if (data.length === 0) {
+    throw new Error("Corrupt PNG image: no image data")
+  }
+
+  return { header, palette, transparency, data: Buffer.concat(data) }
+}
+
+// Bytes of one filtered scanline (without its filter type byte)
+const rowLength = (width: number, bitsPerPixel: number) =>
+  Math.ceil((width * bitsPerPixel) / 8)
+
+/**
+ * Undo the per-scanline filters of a (sub)image, returning its raw scanlines
+ */
+const unfilter = (
+  data: Buffer,
+  offset: number,
+  width: number,
+  height: number,
+  bitsPerPixel: number,
+): Uint8Array[] => {
+  const length = rowLength(width, bitsPerPixel)
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3)
+  const rows: Uint8Array[] = []
+  let previous = new Uint8Array(length)
+
+  for (let y = 0; y < height; y++) {
+    const start = offset + y * (length + 1)
+    const filterType = data[start]
+    const row = Uint8Array.from(data.subarray(start + 1, start + 1 + length))
+
+    // The bytes before the first pixel count as 0, like the row above the first row
+    const left = (i: number) =>
+      i >= bytesPerPixel ? (row[i - bytesPerPixel] as number) : 0
+    const upLeft = (i: number) =>
+      i >= bytesPerPixel ? (previous[i - bytesPerPixel] as number) : 0
+
+    switch (filterType) {
+      case 0:
+        break
+      case 1:
+        for (let i = bytesPerPixel; i < length; i++)
+          row[i] = (row[i] as number) + left(i)
+        break
+      case 2:
+        for (let i = 0; i < length; i++)
+          row[i] = (row[i] as number) + (previous[i] as number)
+        break
+      case 3:
+        for (let i = 0; i < length; i++)
+          row[i] =
+            (row[i] as number) + ((left(i) + (previous[i] as number)) >> 1)
+        break
+      case 4:
+        for (let i = 0; i < length; i++)
+          row[i] =
+            (row[i] as number) +
+            paeth(left(i), previous[i] as number, upLeft(i))
+        break
+      default:
+        throw new Error(`Corrupt PNG image: unknown filter type ${filterType}`)
+    }
+
+    rows.push(row)
+    previous = row
+  }
+
+  return rows
+}
+
+/**
+ * Decodes PNG images of every colour type and bit depth, interlaced or not. 16-bit samples are
+ * reduced to 8 bits and only the first frame of animated PNGs is read.
+ */
+export class PngDecoder implements ImageDecoder {
+  readonly name = "png"
+  readonly mimeTypes = ["image/png", "image/apng"] as const
+
+  async decode(file: Buffer): Promise<RawImage> {
+    const {
+      header,
+      palette = Buffer.alloc(0),
+      transparency,
+      data,
+    } = readChunks(file)
+    const { width, height, bitDepth, colorType, interlaced } = header
+
+    const channels = CHANNELS[colorType]
+    if (!channels || ![1, 2, 4, 8, 16].includes(bitDepth)) {
+      throw new Error(
+        `Unsupported PNG colour type ${colorType} with bit depth ${bitDepth}`,
+      )
+    }
+    if (colorType === 3 && palette.length === 0) {
+      throw new Error("Corrupt PNG image: PLTE is missing")
+    }
+    assertImageSize(width, height)
+
+    const bitsPerPixel = channels * bitDepth
+    const passes = interlaced
+      ? ADAM7_PASSES.map(([x, y, stepX, stepY]) => ({
+          x,
+          y,
+          stepX,
+          stepY,
+          width: Math.ceil((width - x) / stepX),
+          height: Math.ceil((height - y) / stepY),
+        }))
+      : [{ x: 0, y: 0, stepX: 1, stepY: 1, width, height }]
+
+    const expectedLength = passes.reduce(
+      (total, pass) =>
+        pass.width > 0 && pass.height > 0
+          ? total + pass.height * (rowLength(pass.width, bitsPerPixel) + 1)
+          : total,
+      0,
+    )
+    const raw = inflateSync(data, { maxOutputLength: expectedLength })
+    if (raw.length < expectedLength) {
+      throw new Error("Corrupt PNG image: image data is truncated")
+    }
+
+    const maxSample = 2 ** bitDepth - 1
+    const scale = (sample: number) =>
+      bitDepth === 16 ? sample >> 8 : Math.round((sample * 255) / maxSample)
+
+    // The one colour (in raw samples) that tRNS makes transparent for greyscale and RGB images
+    const transparentKey =
+      transparency && (colorType === 0 || colorType === 2)
+        ? Array.from({ length: channels }, (_, i) =>
+            transparency.readUInt16BE(i * 2),
+          )
+        : undefined
+
+    const output = new Uint8Array(width * height * 4)
+    const samples = new Array<number>(channels)
+    let offset = 0
+
+    for (const pass of passes) {
+      if (pass.width === 0 || pass.height === 0) continue
+
+      const rows = unfilter(raw, offset, pass.width, pass.height, bitsPerPixel)
+      offset += pass.height * (rowLength(pass.width, bitsPerPixel) + 1)
+
+      rows.forEach((row, passY) => {
+        const rowStart = ((pass.y + passY * pass.stepY) * width + pass.x) * 4
+
+        // Most images are plain 8-bit RGB(A) - copy those without unpacking samples
+        if (
+          bitDepth === 8 &&
+          (colorType === 6 || (colorType === 2 && !transparentKey)) &&
+          pass.stepX === 1
+        ) {
+          for (let x = 0; x < pass.width; x++) {
+            const p = rowStart + x * 4
+            const q = x * channels
+            output[p] = row[q] as number
+            output[p + 1] = row[q + 1] as number
+            output[p + 2] = row[q + 2] as number
+            output[p + 3] = colorType === 6 ? (row[q + 3] as number) : 255
+          }
+          return
+        }
+
+        for (let passX = 0; passX < pass.width; passX++) {
+          for (let channel = 0; channel < channels; channel++) {
+            const index = passX * channels + channel
+            if (bitDepth === 16) {
+              samples[channel] =
+                ((row[index * 2] as number) << 8) |
+                (row[index * 2 + 1] as number)
+            } else if (bitDepth === 8) {
+              samples[channel] = row[index] as number
+            } else {
+              const bit = index * bitDepth
+              samples[channel] =
+                ((row[bit >> 3] as number) >> (8 - bitDepth - (bit & 7))) &
+                maxSample
+            }
+          }
+
+          const p = rowStart + passX * pass.stepX * 4
+          const first = samples[0] ?? 0
+          const second = samples[1] ?? 0
+          const third = samples[2] ?? 0
+          const fourth = samples[3] ?? 0
+
+          if (colorType === 3) {
+            output[p] = palette[first * 3] ?? 0
+            output[p + 1] = palette[first * 3 + 1] ?? 0
+            output[p + 2] = palette[first * 3 + 2] ?? 0
+            output[p + 3] = transparency?.[first] ?? 255
+            continue
+          }
+
+          const grey = colorType === 0 || colorType === 4
+          output[p] = scale(first)
+          output[p + 1] = scale(grey ? first : second)
+          output[p + 2] = scale(grey ? first : third)
+          output[p + 3] =
+            colorType === 4
+              ? scale(second)
+              : colorType === 6
+                ? scale(fourth)
+                : transparentKey?.every((key, i) => key === samples[i])
+                  ? 0
+                  : 255
+        }
+      })
+    }
+
+    return { width, height, data: output }
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Decoded pixels of an image: 8-bit RGBA samples, row by row from the top-left corner
+ */
+export interface RawImage {
+  width: number
+  height: number
+  data: Uint8Array
+  // EXIF orientation (1-8) the pixels still have to be turned by, 1 when they are upright
+  orientation?: number
+}
+
+/**
+ * Turns the bytes of one image format into pixels. Decoders are plain TypeScript without native
+ * tools, and throw an Error describing why a file is unreadable.
+ */
+export interface ImageDecoder {
+  // e.g. "png"
+  readonly name: string
+  readonly mimeTypes: readonly string[]
+
+  decode(file: Buffer): Promise<RawImage>
+}
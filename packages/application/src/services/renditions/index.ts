@@ -0,0 +1,2 @@
+export * from "./image-decoder"
+export * from "./rendition.service"
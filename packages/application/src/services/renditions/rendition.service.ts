@@ -0,0 +1,116 @@
+import { Result } from "@carbonteq/fp"
+import { injectable } from "tsyringe"
+import { GifDecoder } from "./decoders/gif.decoder"
+import { JpegDecoder } from "./decoders/jpeg.decoder"
+import { PngDecoder } from "./decoders/png.decoder"
+import type { ImageDecoder, RawImage } from "./image-decoder"
+import { fitWithin, orient, resize } from "./utils/image.utils"
+import { encodePng } from "./utils/png.utils"
+
+// Longest edge (in pixels) of the thumbnails generated for every image
+const DEFAULT_THUMBNAIL_SIZES = [128, 256, 512]
+
+// Larger files are not loaded into memory for rendering
+const DEFAULT_MAX_FILE_SIZE = 50 * 1024 * 1024
+
+export const THUMBNAIL_MIME_TYPE = "image/png"
+
+export interface Thumbnail {
+  size: number
+  width: number
+  height: number
+  mimeType: string
+  file: Buffer
+}
+
+/**
+ * Parse a comma-separated list of thumbnail sizes, ignoring entries that aren't positive integers
+ */
+const parseSizes = (value: string | undefined): number[] => {
+  const sizes = (value ?? "")
+    .split(",")
+    .map((entry) => Number(entry.trim()))
+    .filter((size) => Number.isInteger(size) && size > 0)
+
+  return sizes.length > 0
+    ? [...new Set(sizes)].sort((a, b) => a - b)
+    : DEFAULT_THUMBNAIL_SIZES
+}
+
+@injectable()
+export class RenditionService {
+  private readonly decoders = new Map<string, ImageDecoder>()
+  readonly thumbnailSizes: readonly number[]
+  readonly maxFileSize: number
+
+  constructor() {
+    this.thumbnailSizes = parseSizes(process.env.THUMBNAIL_SIZES)
+    this.maxFileSize =
+      Number(process.env.RENDITION_MAX_FILE_SIZE) || DEFAULT_MAX_FILE_SIZE
+
+    for (const decoder of [
+      new PngDecoder(),
+      new JpegDecoder(),
+      new GifDecoder(),
+    ]) {
+      this.register(decoder)
+    }
+  }
+
+  /**
+   * Add a decoder, taking over its MIME types from any decoder registered before
+   */
+  register(decoder: ImageDecoder): void {
+    for (const mimeType of decoder.mimeTypes) {
+      this.decoders.set(mimeType.toLowerCase(), decoder)
+    }
+  }
+
+  findDecoder(mimeType: string): ImageDecoder | undefined {
+    const [type = ""] = mimeType.toLowerCase().split(";")
+    return this.decoders.get(type.trim())
+  }
+
+  /**
+   * Render a thumbnail of the image for every configured size, largest first. Each thumbnail is
+   * shrunk from the next larger one, and images smaller than a size keep their dimensions.
+   */
+  async generateThumbnails(
+    mimeType: string,
+    file: Buffer,
+  ): Promise<Result<Thumbnail[], Error>> {
+    const decoder = this.findDecoder(mimeType)
+    if (!decoder) {
+      return Result.Err(new Error(`No image decoder for '${mimeType}'`))
+    }
+
+    try {
+      const original = await decoder.decode(file)
+      const thumbnails: Thumbnail[] = []
+      let source: RawImage = original
+
+      for (const size of [...this.thumbnailSizes].reverse()) {
+        // Turned images swap their edges, which doesn't change the longest one
+        const { width, height } = fitWithin(source.width, source.height, size)
+        source = resize(source, width, height)
+
+        const upright = orient(source)
+        thumbnails.push({
+          size,
+          width: upright.width,
+          height: upright.height,
+          mimeType: THUMBNAIL_MIME_TYPE,
+          file: encodePng(upright),
+        })
+      }
+
+      return Result.Ok(thumbnails)
+    } catch (error) {
+      return Result.Err(
+        error instanceof Error
+          ? error
+          : new Error("Thumbnail generation failed"),
+      )
+    }
+  }
+}
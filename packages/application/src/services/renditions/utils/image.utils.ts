@@ -0,0 +1,183 @@
+import type { RawImage } from "../image-decoder"
+
+// Guards against decompression bombs - a decoded image takes 4 bytes per pixel, plus the
+// decoder's working memory
+export const MAX_IMAGE_PIXELS = 50_000_000
+
+/**
+ * Fail before allocating pixels for images that are malformed or too large to decode
+ */
+export const assertImageSize = (width: number, height: number): void => {
+  if (
+    !Number.isInteger(width) ||
+    !Number.isInteger(height) ||
+    width < 1 ||
+    height < 1
+  ) {
+    throw new Error(`Invalid image dimensions ${width}x${height}`)
+  }
+  if (width * height > MAX_IMAGE_PIXELS) {
+    throw new Error(
+      `Images over ${MAX_IMAGE_PIXELS / 1_000_000} megapixels are not supported`,
+    )
+  }
+}
+
+/**
+ * Scale dimensions down so the longest edge is at most `size`, keeping the aspect ratio.
+ * Images that already fit keep their dimensions.
+ */
+export const fitWithin = (
+  width: number,
+  height: number,
+  size: number,
+): { width: number; height: number } => {
+  const scale = Math.min(1, size / Math.max(width, height))
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  }
+}
+
+interface Contribution {
+  start: number
+  weights: Float32Array
+}
+
+// Share of every source pixel in each target pixel when shrinking a row or column of pixels
+const contributions = (
+  sourceSize: number,
+  targetSize: number,
+): Contribution[] => {
+  const scale = sourceSize / targetSize
+  return Array.from({ length: targetSize }, (_, target) => {
+    const from = target * scale
+    const to = Math.min(sourceSize, from + scale)
+    const start = Math.floor(from)
+    const weights = new Float32Array(Math.ceil(to) - start)
+    for (let source = start; source < start + weights.length; source++) {
+      weights[source - start] =
+        (Math.min(to, source + 1) - Math.max(from, source)) / scale
+    }
+    return { start, weights }
+  })
+}
+
+/**
+ * Shrink an image by averaging the source pixels each target pixel covers. Colours are weighted
+ * by their alpha so transparent pixels don't bleed into their neighbours.
+ */
+export const resize = (
+  image: RawImage,
+  width: number,
+  height: number,
+): RawImage => {
+  if (width === image.width && height === image.height) {
+    return image
+  }
+
+  const { data } = image
+  const columns = contributions(image.width, width)
+  const rows = contributions(image.height, height)
+
+  // Horizontal pass into premultiplied floats, one row of the source at a time
+  const pass = new Float32Array(width * image.height * 4)
+  for (let y = 0; y < image.height; y++) {
+    const sourceRow = y * image.width
+    for (let x = 0; x < width; x++) {
+      const { start, weights } = columns[x] as Contribution
+      let r = 0
+      let g = 0
+      let b = 0
+      let a = 0
+      for (let i = 0; i < weights.length; i++) {
+        const p = (sourceRow + start + i) * 4
+        const weight = (weights[i] as number) * (data[p + 3] as number)
+        r += (data[p] as number) * weight
+        g += (data[p + 1] as number) * weight
+        b += (data[p + 2] as number) * weight
+        a += weight
+      }
+      const q = (y * width + x) * 4
+      pass[q] = r
+      pass[q + 1] = g
+      pass[q + 2] = b
+      pass[q + 3] = a
+    }
+  }
+
+  // Vertical pass, turning the premultiplied sums back into colours
+  const output = new Uint8Array(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    const { start, weights } = rows[y] as Contribution
+    for (let x = 0; x < width; x++) {
+      let r = 0
+      let g = 0
+      let b = 0
+      let a = 0
+      for (let i = 0; i < weights.length; i++) {
+        const q = ((start + i) * width + x) * 4
+        const weight = weights[i] as number
+        r += (pass[q] as number) * weight
+        g += (pass[q + 1] as number) * weight
+        b += (pass[q + 2] as number) * weight
+        a += (pass[q + 3] as number) * weight
+      }
+      const p = (y * width + x) * 4
+      if (a > 0) {
+        output[p] = Math.min(255, Math.round(r / a))
+        output[p + 1] = Math.min(255, Math.round(g / a))
+        output[p + 2] = Math.min(255, Math.round(b / a))
+        output[p + 3] = Math.min(255, Math.round(a))
+      }
+    }
+  }
+
+  return { width, height, data: output, orientation: image.orientation }
+}
+
+/**
+ * Turn the pixels of an image upright according to its EXIF orientation
+ */
+export const orient = (image: RawImage): RawImage => {
+  const orientation = image.orientation ?? 1
+  if (orientation < 2 || orientation > 8) {
+    return { ...image, orientation: 1 }
+  }
+
+  const { width: w, height: h, data } = image
+  // Orientations 5-8 are turned by 90 degrees
+  const swapped = orientation >= 5
+  const width = swapped ? h : w
+  const height = swapped ? w : h
+
+  // Where each pixel of the upright image comes from in the stored one
+  const source = (x: number, y: number): number => {
+    switch (orientation) {
+      case 2:
+        return y * w + (w - 1 - x)
+      case 3:
+        return (h - 1 - y) * w + (w - 1 - x)
+      case 4:
+        return (h - 1 - y) * w + x
+      case 5:
+        return x * w + y
+      case 6:
+        return (h - 1 - x) * w + y
+      case 7:
+        return (h - 1 - x) * w + (w - 1 - y)
+      default:
+        return x * w + (w - 1 - y)
+    }
+  }
+
+  const output = new Uint8Array(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const from = source(x, y) * 4
+      output.set(data.subarray(from, from + 4), (y * width + x) * 4)
+    }
+  }
+
+  return { width, height, data: output, orientation: 1 }
+}
@@ -0,0 +1,145 @@
+import { deflateSync } from "node:zlib"
+import type { RawImage } from "../image-decoder"
+
+export const PNG_SIGNATURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+])
+
+const COLOR_TYPE_RGB = 2
+const COLOR_TYPE_RGBA = 6
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = (CRC_TABLE[(crc ^ byte) & 0xff] as number) ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+const chunk = (type: string, data: Buffer): Buffer => {
+  const header = Buffer.alloc(8)
+  header.writeUInt32BE(data.length, 0)
+  header.write(type, 4, "latin1")
+  const crc = Buffer.alloc(4)
+  crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), data])), 0)
+  return Buffer.concat([header, data, crc])
+}
+
+// The Paeth predictor of the PNG filter type 4
+export const paeth = (left: number, up: number, upLeft: number): number => {
+  const estimate = left + up - upLeft
+  const toLeft = Math.abs(estimate - left)
+  const toUp = Math.abs(estimate - up)
+  const toUpLeft = Math.abs(estimate - upLeft)
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left
+  return toUp <= toUpLeft ? up : upLeft
+}
+
+// Filter one scanline with the given filter type (0-4)
+const filterRow = (
+  filterType: number,
+  row: Uint8Array,
+  previous: Uint8Array,
+  bytesPerPixel: number,
+): Buffer => {
+  const filtered = Buffer.alloc(row.length + 1)
+  filtered[0] = filterType
+  for (let i = 0; i < row.length; i++) {
+    const left = i >= bytesPerPixel ? (row[i - bytesPerPixel] as number) : 0
+    const up = previous[i] as number
+    const upLeft =
+      i >= bytesPerPixel ? (previous[i - bytesPerPixel] as number) : 0
+    const predictor =
+      filterType === 1
+        ? left
+        : filterType === 2
+          ? up
+          : filterType === 3
+            ? (left + up) >> 1
+            : filterType === 4
+              ? paeth(left, up, upLeft)
+              : 0
+    filtered[i + 1] = ((row[i] as number) - predictor) & 0xff
+  }
+  return filtered
+}
+
+// Smallest sum of absolute differences is the usual heuristic for picking a row's filter
+const filterCost = (filtered: Buffer): number => {
+  let cost = 0
+  for (let i = 1; i < filtered.length; i++) {
+    const value = filtered[i] as number
+    cost += value < 128 ? value : 256 - value
+  }
+  return cost
+}
+
+/**
+ * Encode pixels as a PNG file - RGB when every pixel is opaque, RGBA otherwise
+ */
+export const encodePng = (image: RawImage): Buffer => {
+  const { width, height, data } = image
+
+  let opaque = true
+  for (let p = 3; p < data.length; p += 4) {
+    if (data[p] !== 255) {
+      opaque = false
+      break
+    }
+  }
+
+  const bytesPerPixel = opaque ? 3 : 4
+  const stride = width * bytesPerPixel
+  const rows: Buffer[] = []
+  let previous: Uint8Array = new Uint8Array(stride)
+
+  for (let y = 0; y < height; y++) {
+    let row: Uint8Array
+    if (opaque) {
+      row = new Uint8Array(stride)
+      for (let x = 0; x < width; x++) {
+        row.set(
+          data.subarray((y * width + x) * 4, (y * width + x) * 4 + 3),
+          x * 3,
+        )
+      }
+    } else {
+      row = data.subarray(y * stride, (y + 1) * stride)
+    }
+
+    let best = filterRow(0, row, previous, bytesPerPixel)
+    let bestCost = filterCost(best)
+    for (let filterType = 1; filterType <= 4; filterType++) {
+      const filtered = filterRow(filterType, row, previous, bytesPerPixel)
+      const cost = filterCost(filtered)
+      if (cost < bestCost) {
+        best = filtered
+        bestCost = cost
+      }
+    }
+
+    rows.push(best)
+    previous = row
+  }
+
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(width, 0)
+  header.writeUInt32BE(height, 4)
+  header[8] = 8 // bit depth
+  header[9] = opaque ? COLOR_TYPE_RGB : COLOR_TYPE_RGBA
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(Buffer.concat(rows))),
+    chunk("IEND", Buffer.alloc(0)),
+  ])
+}
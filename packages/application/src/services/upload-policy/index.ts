@@ -0,0 +1,2 @@
+export * from "./mime-sniffer"
+export * from "./upload-policy.service"
@@ -0,0 +1,360 @@
+// Enough of the start of a file for every signature, including the names of the first entries of
+// Office zip packages
+export const SNIFF_LENGTH = 8 * 1024
+
+interface Signature {
+  mimeType: string
+  // Declared types the content is also consistent with (patterns for matchesMimeType)
+  accepts?: readonly string[]
+  matches(head: Buffer): boolean
+}
+
+const startsWith = (
+  head: Buffer,
+  bytes: readonly number[] | string,
+  offset = 0,
+) => {
+  const expected =
+    typeof bytes === "string"
+      ? Buffer.from(bytes, "latin1")
+      : Buffer.from(bytes)
+  return (
+    head.length >= offset + expected.length &&
+    head.subarray(offset, offset + expected.length).equals(expected)
+  )
+}
+
+// RIFF containers name their format at byte 8
+const riff = (format: string) => (head: Buffer) =>
+  startsWith(head, "RIFF") && startsWith(head, format, 8)
+
+// Markup is recognised after leading whitespace and a UTF-8 byte order mark, case-insensitively
+const markupStart = (head: Buffer) =>
+  head
+    .subarray(0, 512)
+    .toString("latin1")
+    .replace(/^(\xef\xbb\xbf)?\s*/, "")
+    .toLowerCase()
+
+// Office Open XML files are zip packages recognised by the names of their first entries
+const isZipWith = (head: Buffer, entryPrefix: string) =>
+  startsWith(head, "PK\x03\x04") &&
+  head.toString("latin1").includes(entryPrefix)
+
+// Windows executables - a DOS stub whose header points at the PE header (when within reach)
+const isPortableExecutable = (head: Buffer) => {
+  if (!startsWith(head, "MZ") || head.length < 64) return false
+  const peOffset = head.readUInt32LE(0x3c)
+  return peOffset + 4 > head.length || startsWith(head, "PE\0\0", peOffset)
+}
+
+const ZIP_PACKAGES = [
+  "application/zip",
+  "application/x-zip-compressed",
+  "application/java-archive",
+  "application/epub+zip",
+  "application/vnd.android.package-archive",
+  "application/vnd.openxmlformats-officedocument.*",
+  "application/vnd.oasis.opendocument.*",
+  "application/vnd.ms-excel.sheet.macroEnabled.12",
+  "application/vnd.ms-powerpoint.presentation.macroEnabled.12",
+  "application/vnd.ms-word.document.macroEnabled.12",
+]
+
+// Word, Excel, PowerPoint, Outlook and installer files before 2007 share the compound file format
+const COMPOUND_FILES = [
+  "application/x-cfb",
+  "application/msword",
+  "application/vnd.ms-excel",
+  "application/vnd.ms-powerpoint",
+  "application/vnd.ms-outlook",
+  "application/x-msi",
+]
+
+const MPEG4_FAMILY = [
+  "video/mp4",
+  "audio/mp4",
+  "video/quicktime",
+  "video/x-m4v",
+  "audio/x-m4a",
+  "audio/m4a",
+  "video/3gpp",
+  "video/3gpp2",
+]
+
+// Ordered from the most to the least specific - the first match wins
+const SIGNATURES: readonly Signature[] = [
+  // Documents
+  {
+    mimeType: "application/pdf",
+    accepts: ["application/x-pdf"],
+    // The header may follow up to 1024 bytes of junk, but starts a line
+    matches: (head) =>
+      /(^|[\r\n])%PDF-\d/.test(head.subarray(0, 1024).toString("latin1")),
+  },
+  {
+    mimeType: "application/rtf",
+    accepts: ["text/rtf"],
+    matches: (head) => startsWith(head, "{\\rtf"),
+  },
+  {
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    accepts: ZIP_PACKAGES,
+    matches: (head) => isZipWith(head, "word/"),
+  },
+  {
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    accepts: ZIP_PACKAGES,
+    matches: (head) => isZipWith(head, "xl/"),
+  },
+  {
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    accepts: ZIP_PACKAGES,
+    matches: (head) => isZipWith(head, "ppt/"),
+  },
+  {
+    mimeType: "application/zip",
+    accepts: ZIP_PACKAGES,
+    matches: (head) =>
+      startsWith(head, "PK\x03\x04") || startsWith(head, "PK\x05\x06"),
+  },
+  {
+    mimeType: "application/x-cfb",
+    accepts: COMPOUND_FILES,
+    matches: (head) =>
+      startsWith(head, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]),
+  },
+
+  // Images
+  {
+    mimeType: "image/png",
+    accepts: ["image/apng"],
+    matches: (head) =>
+      startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  },
+  {
+    mimeType: "image/jpeg",
+    accepts: ["image/pjpeg", "image/jpg"],
+    matches: (head) => startsWith(head, [0xff, 0xd8, 0xff]),
+  },
+  {
+    mimeType: "image/gif",
+    matches: (head) => startsWith(head, "GIF87a") || startsWith(head, "GIF89a"),
+  },
+  { mimeType: "image/webp", matches: riff("WEBP") },
+  {
+    mimeType: "image/bmp",
+    accepts: ["image/x-ms-bmp", "image/x-bmp"],
+    matches: (head) =>
+      startsWith(head, "BM") && head.length >= 14 && head.readUInt32LE(6) === 0,
+  },
+  {
+    mimeType: "image/tiff",
+    matches: (head) =>
+      startsWith(head, [0x49, 0x49, 0x2a, 0x00]) ||
+      startsWith(head, [0x4d, 0x4d, 0x00, 0x2a]),
+  },
+  {
+    mimeType: "image/x-icon",
+    accepts: ["image/vnd.microsoft.icon"],
+    matches: (head) => startsWith(head, [0x00, 0x00, 0x01, 0x00]),
+  },
+  {
+    mimeType: "image/heic",
+    accepts: ["image/heif", "image/avif"],
+    matches: (head) =>
+      startsWith(head, "ftyp", 4) &&
+      ["heic", "heix", "mif1", "msf1", "avif"].some((brand) =>
+        startsWith(head, brand, 8),
+      ),
+  },
+
+  // Audio and video
+  {
+    mimeType: "video/quicktime",
+    accepts: MPEG4_FAMILY,
+    matches: (head) => startsWith(head, "ftypqt  ", 4),
+  },
+  {
+    mimeType: "video/mp4",
+    accepts: MPEG4_FAMILY,
+    matches: (head) => startsWith(head, "ftyp", 4),
+  },
+  {
+    mimeType: "video/webm",
+    accepts: ["audio/webm", "video/x-matroska", "audio/x-matroska"],
+    matches: (head) => startsWith(head, [0x1a, 0x45, 0xdf, 0xa3]),
+  },
+  {
+    mimeType: "video/x-msvideo",
+    accepts: ["video/avi", "video/msvideo"],
+    matches: riff("AVI "),
+  },
+  {
+    mimeType: "audio/wav",
+    accepts: ["audio/x-wav", "audio/wave", "audio/vnd.wave"],
+    matches: riff("WAVE"),
+  },
+  {
+    mimeType: "audio/ogg",
+    accepts: ["video/ogg", "application/ogg", "audio/opus"],
+    matches: (head) => startsWith(head, "OggS"),
+  },
+  {
+    mimeType: "audio/flac",
+    accepts: ["audio/x-flac"],
+    matches: (head) => startsWith(head, "fLaC"),
+  },
+  {
+    mimeType: "audio/mpeg",
+    accepts: ["audio/mp3", "audio/mpeg3"],
+    // An ID3 tag, or the sync bits of an MPEG audio frame header (layer bits set)
+    matches: (head) =>
+      startsWith(head, "ID3") ||
+      (head.length >= 2 &&
+        head[0] === 0xff &&
+        ((head[1] as number) & 0xe6) > 0xe0),
+  },
+
+  // Archives
+  {
+    mimeType: "application/gzip",
+    accepts: ["application/x-gzip", "application/x-tar"],
+    matches: (head) => startsWith(head, [0x1f, 0x8b]),
+  },
+  {
+    mimeType: "application/x-7z-compressed",
+    matches: (head) => startsWith(head, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c]),
+  },
+  {
+    mimeType: "application/vnd.rar",
+    accepts: ["application/x-rar-compressed", "application/x-rar"],
+    matches: (head) => startsWith(head, "Rar!\x1a\x07"),
+  },
+  {
+    mimeType: "application/x-bzip2",
+    matches: (head) =>
+      startsWith(head, "BZh") &&
+      /[1-9]/.test(String.fromCharCode(head[3] ?? 0)),
+  },
+  {
+    mimeType: "application/x-tar",
+    matches: (head) => startsWith(head, "ustar", 257),
+  },
+
+  // Executables
+  {
+    mimeType: "application/vnd.microsoft.portable-executable",
+    accepts: [
+      "application/x-msdownload",
+      "application/x-dosexec",
+      "application/x-msdos-program",
+      "application/x-ms-dos-executable",
+    ],
+    matches: isPortableExecutable,
+  },
+  {
+    mimeType: "application/x-executable",
+    accepts: [
+      "application/x-elf",
+      "application/x-sharedlib",
+      "application/x-pie-executable",
+    ],
+    matches: (head) => startsWith(head, [0x7f, 0x45, 0x4c, 0x46]),
+  },
+  {
+    mimeType: "application/x-mach-binary",
+    matches: (head) =>
+      [
+        [0xfe, 0xed, 0xfa, 0xce],
+        [0xfe, 0xed, 0xfa, 0xcf],
+        [0xce, 0xfa, 0xed, 0xfe],
+        [0xcf, 0xfa, 0xed, 0xfe],
+      ].some((magic) => startsWith(head, magic)),
+  },
+  {
+    mimeType: "application/wasm",
+    matches: (head) => startsWith(head, [0x00, 0x61, 0x73, 0x6d]),
+  },
+  {
+    mimeType: "text/x-shellscript",
+    accepts: [
+      "text/*",
+      "application/x-sh",
+      "application/x-shellscript",
+      "application/x-python-code",
+      "application/javascript",
+    ],
+    matches: (head) => startsWith(head, "#!"),
+  },
+
+  // Markup
+  {
+    mimeType: "image/svg+xml",
+    accepts: ["+xml", "application/xml", "text/xml"],
+    matches: (head) =>
+      /^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!doctype svg[^>]*>\s*)?<svg[\s>]/.test(
+        markupStart(head),
+      ),
+  },
+  {
+    mimeType: "text/html",
+    accepts: ["application/xhtml+xml", "text/xml", "application/xml"],
+    matches: (head) =>
+      /^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!doctype html|<html|<head|<body|<script|<iframe)[\s>]/.test(
+        markupStart(head),
+      ),
+  },
+  {
+    mimeType: "application/xml",
+    accepts: ["text/xml", "+xml"],
+    matches: (head) => markupStart(head).startsWith("<?xml"),
+  },
+]
+
+const signatureOf = (head: Buffer) =>
+  SIGNATURES.find((signature) => signature.matches(head))
+
+/**
+ * Whether a MIME type matches a pattern - an exact type, a wildcard such as "image/*" or
+ * "application/vnd.oasis.opendocument.*", or a structured syntax suffix such as "+xml"
+ */
+export const matchesMimeType = (mimeType: string, pattern: string): boolean => {
+  const type = baseMimeType(mimeType)
+  const expected = pattern.toLowerCase()
+
+  if (expected.startsWith("+")) return type.endsWith(expected)
+  if (expected.endsWith("/*")) return type.startsWith(expected.slice(0, -1))
+  if (expected.endsWith(".*")) return type.startsWith(expected.slice(0, -1))
+  return type === expected
+}
+
+// "Text/HTML; charset=utf-8" is "text/html"
+export const baseMimeType = (mimeType: string): string =>
+  (mimeType.toLowerCase().split(";")[0] ?? "").trim()
+
+/**
+ * Detect the type of a file from the signature ("magic bytes") at its start. Formats without a
+ * signature, plain text among them, are undefined.
+ */
+export const sniffMimeType = (head: Buffer): string | undefined =>
+  signatureOf(head)?.mimeType
+
+/**
+ * Whether the content at the start of a file is consistent with a declared type. Files without a
+ * recognised signature are consistent with any type, as their content can't be told apart.
+ */
+export const isConsistentWith = (
+  head: Buffer,
+  declaredType: string,
+): boolean => {
+  const signature = signatureOf(head)
+  if (!signature) return true
+
+  return [signature.mimeType, ...(signature.accepts ?? [])].some((pattern) =>
+    matchesMimeType(declaredType, pattern),
+  )
+}
@@ -0,0 +1,201 @@
+import { Result } from "@carbonteq/fp"
+import { DocumentUploadError } from "@domain/document/document.errors"
+import { injectable } from "tsyringe"
+import {
+  baseMimeType,
+  isConsistentWith,
+  matchesMimeType,
+  sniffMimeType,
+} from "./mime-sniffer"
+
+// Executables and scripts Windows runs when they are opened
+const DEFAULT_BLOCKED_EXTENSIONS = [
+  "exe",
+  "dll",
+  "com",
+  "bat",
+  "cmd",
+  "msi",
+  "scr",
+  "pif",
+  "cpl",
+  "vbs",
+  "vbe",
+  "jse",
+  "wsf",
+  "wsh",
+  "ps1",
+  "hta",
+  "lnk",
+  "reg",
+]
+
+const FALLBACK_MIME_TYPE = "application/octet-stream"
+
+// The types implied by common extensions, for files uploaded without a specific type
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ppt: "application/vnd.ms-powerpoint",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  txt: "text/plain",
+  rtf: "application/rtf",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  bmp: "image/bmp",
+  svg: "image/svg+xml",
+  mp4: "video/mp4",
+  avi: "video/x-msvideo",
+  mov: "video/quicktime",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  zip: "application/zip",
+  rar: "application/vnd.rar",
+  "7z": "application/x-7z-compressed",
+}
+
+/**
+ * What happens to a file whose content doesn't match its declared type - it is rejected, stored
+ * with the detected type, or stored with the declared type regardless
+ */
+export type TypeMismatchHandling = "reject" | "correct" | "allow"
+
+export interface UploadPolicy {
+  // Patterns for matchesMimeType - every type is allowed when empty
+  allowedTypes: readonly string[]
+  maxFileSize?: number
+  blockedExtensions: readonly string[]
+  onTypeMismatch: TypeMismatchHandling
+}
+
+export interface UploadCandidate {
+  // The document name, and the name of the uploaded file when it has one
+  name: string
+  fileName?: string
+  declaredType?: string
+  size: number
+  // The start of the file (SNIFF_LENGTH bytes) - the content isn't checked without it
+  head?: Buffer
+}
+
+/**
+ * Parse a comma-separated list, trimmed and lowercased, dropping empty entries
+ */
+const parseList = (value: string): string[] =>
+  value
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter((entry) => entry.length > 0)
+
+const parseMismatchHandling = (
+  value: string | undefined,
+): TypeMismatchHandling =>
+  value === "correct" || value === "allow" ? value : "reject"
+
+const extensionOf = (name: string): string | undefined => {
+  const dot = name.lastIndexOf(".")
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : undefined
+}
+
+export const mimeTypeFromExtension = (name: string): string | undefined => {
+  const extension = extensionOf(name)
+  return extension ? EXTENSION_MIME_TYPES[extension] : undefined
+}
+
+@injectable()
+export class UploadPolicyService {
+  readonly policy: UploadPolicy
+
+  constructor() {
+    const maxFileSize = Number(process.env.UPLOAD_MAX_FILE_SIZE)
+
+    this.policy = {
+      allowedTypes: parseList(process.env.UPLOAD_ALLOWED_TYPES ?? ""),
+      maxFileSize: maxFileSize > 0 ? maxFileSize : undefined,
+      // Set to an empty value to accept every extension
+      blockedExtensions:
+        process.env.UPLOAD_BLOCKED_EXTENSIONS === undefined
+          ? DEFAULT_BLOCKED_EXTENSIONS
+          : parseList(process.env.UPLOAD_BLOCKED_EXTENSIONS).map((extension) =>
+              extension.replace(/^\./, ""),
+            ),
+      onTypeMismatch: parseMismatchHandling(process.env.UPLOAD_TYPE_MISMATCH),
+    }
+  }
+
+  /**
+   * Check a file against the upload policy, resolving the MIME type it should be stored with. The
+   * declared type is trusted only as far as the file's signature agrees with it; without a specific
+   * declared type, the type implied by the extension is checked instead.
+   */
+  check(upload: UploadCandidate): Result<string, DocumentUploadError> {
+    const { name, fileName, declaredType, size, head } = upload
+    const { allowedTypes, maxFileSize, blockedExtensions, onTypeMismatch } =
+      this.policy
+
+    if (maxFileSize !== undefined && size > maxFileSize) {
+      return Result.Err(
+        new DocumentUploadError(
+          `Files over ${maxFileSize} bytes are not accepted`,
+          { name, size, maxFileSize },
+        ),
+      )
+    }
+
+    for (const candidateName of [name, fileName]) {
+      const extension = candidateName ? extensionOf(candidateName) : undefined
+      if (extension && blockedExtensions.includes(extension)) {
+        return Result.Err(
+          new DocumentUploadError(`'.${extension}' files are not accepted`, {
+            name: candidateName,
+          }),
+        )
+      }
+    }
+
+    const claimedType =
+      declaredType && baseMimeType(declaredType) !== FALLBACK_MIME_TYPE
+        ? declaredType
+        : mimeTypeFromExtension(fileName ?? name)
+    const sniffedType = head ? sniffMimeType(head) : undefined
+
+    let mimeType = claimedType ?? sniffedType ?? FALLBACK_MIME_TYPE
+    if (
+      claimedType &&
+      sniffedType &&
+      head &&
+      !isConsistentWith(head, claimedType)
+    ) {
+      if (onTypeMismatch === "reject") {
+        return Result.Err(
+          new DocumentUploadError(
+            `The content of '${fileName ?? name}' is ${sniffedType}, not ${claimedType}`,
+            { name, declaredType: claimedType, detectedType: sniffedType },
+          ),
+        )
+      }
+      if (onTypeMismatch === "correct") {
+        mimeType = sniffedType
+      }
+    }
+
+    if (
+      allowedTypes.length > 0 &&
+      !allowedTypes.some((pattern) => matchesMimeType(mimeType, pattern))
+    ) {
+      return Result.Err(
+        new DocumentUploadError(`Files of type ${mimeType} are not accepted`, {
+          name,
+          mimeType,
+        }),
+      )
+    }
+
+    return Result.Ok(mimeType)
+  }
+}
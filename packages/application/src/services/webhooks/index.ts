@@ -0,0 +1,2 @@
+export * from "./webhook-dispatcher"
+export * from "./webhook-signature"
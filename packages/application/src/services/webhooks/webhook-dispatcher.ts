@@ -0,0 +1,232 @@
+import type { Result } from "@carbonteq/fp"
+import type { DomainEvent } from "@domain/events"
+import { CircuitBreaker, Retry } from "@domain/resilience"
+import {
+  WebhookDeliveryEntity,
+  WebhookDeliveryRepository,
+  type WebhookEntity,
+  WebhookEventSchema,
+  WebhookRepository,
+  type WebhookType,
+} from "@domain/webhook"
+import { Schema as S } from "effect"
+import { injectable } from "tsyringe"
+import { signWebhookPayload, WEBHOOK_HEADERS } from "./webhook-signature"
+
+// Responses are kept in the delivery log up to this many characters
+const MAX_RESPONSE_BODY_LENGTH = 1024
+const MAX_RETRY_DELAY_MS = 60_000
+
+export interface WebhookDeliveryPolicy {
+  // Attempts per delivery, waiting retryDelayMs after the first failure and doubling from there
+  maxAttempts: number
+  retryDelayMs: number
+  timeoutMs: number // Per attempt
+  // Failed deliveries after which an endpoint is skipped until cooldownMs passed
+  failureThreshold: number
+  cooldownMs: number
+}
+
+const positiveOr = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback
+}
+
+@injectable()
+export class WebhookDispatcher {
+  readonly policy: WebhookDeliveryPolicy
+
+  private readonly retry: Retry
+  // One per endpoint, so a failing endpoint doesn't hold up the deliveries to the others
+  private readonly circuitBreakers = new Map<
+    WebhookType["id"],
+    CircuitBreaker
+  >()
+  private readonly inFlight = new Set<Promise<void>>()
+
+  constructor(
+    private readonly webhookRepository: WebhookRepository,
+    private readonly webhookDeliveryRepository: WebhookDeliveryRepository,
+  ) {
+    this.policy = {
+      maxAttempts: positiveOr(process.env.WEBHOOK_MAX_ATTEMPTS, 5),
+      retryDelayMs: positiveOr(process.env.WEBHOOK_RETRY_DELAY_MS, 1000),
+      timeoutMs: positiveOr(process.env.WEBHOOK_TIMEOUT_MS, 10_000),
+      failureThreshold: positiveOr(process.env.WEBHOOK_FAILURE_THRESHOLD, 5),
+      cooldownMs: positiveOr(process.env.WEBHOOK_COOLDOWN_MS, 60_000),
+    }
+    this.retry = new Retry({
+      maxAttempts: this.policy.maxAttempts,
+      baseDelay: this.policy.retryDelayMs,
+      maxDelay: Math.max(this.policy.retryDelayMs, MAX_RETRY_DELAY_MS),
+    })
+  }
+
+  /**
+   * Queue a delivery of a domain event to every webhook subscribed to it - events webhooks can't
+   * subscribe to are ignored. Deliveries are sent in the background, so the outbox relay handing
+   * the event over doesn't wait for slow endpoints. Failing to queue them is thrown for the relay to
+   * hand the event over again, which may queue a second delivery to some endpoints; the eventId in
+   * the payload tells them apart.
+   */
+  async dispatch(domainEvent: DomainEvent): Promise<void> {
+    const event = domainEvent.type
+    if (!S.is(WebhookEventSchema)(event)) {
+      return
+    }
+
+    const webhooksResult = await this.webhookRepository.findSubscribedTo(event)
+    if (webhooksResult.isErr()) {
+      throw webhooksResult.unwrapErr()
+    }
+
+    const payload = {
+      eventId: domainEvent.id,
+      event,
+      occurredAt: new Date(domainEvent.occurredAt.epochMillis).toISOString(),
+      data: domainEvent.payload,
+    }
+    const failures: Error[] = []
+    for (const webhook of webhooksResult.unwrap()) {
+      const createResult = await this.webhookDeliveryRepository.create(
+        WebhookDeliveryEntity.create({
+          webhookId: webhook.id,
+          event,
+          payload,
+        }),
+      )
+      if (createResult.isErr()) {
+        failures.push(createResult.unwrapErr())
+        continue
+      }
+
+      this.inBackground(this.deliver(webhook, createResult.unwrap()))
+    }
+
+    if (failures.length > 0) {
+      throw new AggregateError(
+        failures,
+        `Failed to queue ${event} for ${failures.length} webhook(s)`,
+      )
+    }
+  }
+
+  /**
+   * Send the payload of an earlier delivery again, as a new delivery, and wait for the outcome
+   */
+  async redeliver(
+    webhook: WebhookEntity,
+    delivery: WebhookDeliveryEntity,
+  ): Promise<Result<WebhookDeliveryEntity, Error>> {
+    const createResult = await this.webhookDeliveryRepository.create(
+      delivery.redeliver(),
+    )
+    if (createResult.isErr()) {
+      return createResult
+    }
+
+    return this.deliver(webhook, createResult.unwrap())
+  }
+
+  /**
+   * Wait for the deliveries sent in the background - before shutting down, for instance
+   */
+  async settle(): Promise<void> {
+    await Promise.all(this.inFlight)
+  }
+
+  private async deliver(
+    webhook: WebhookEntity,
+    delivery: WebhookDeliveryEntity,
+  ): Promise<Result<WebhookDeliveryEntity, Error>> {
+    const body = JSON.stringify(delivery.payload)
+    let attempts = 0
+    let response: { responseStatus?: number; responseBody?: string } = {}
+
+    // The circuit breaker counts whole deliveries - a delivery fails once its retries ran out
+    const result = await this.circuitBreakerFor(webhook).execute(() =>
+      this.retry.retry(async () => {
+        attempts++
+        response = {}
+        const answer = await this.send(webhook, delivery, body)
+        response = {
+          responseStatus: answer.status,
+          responseBody: (await answer.text()).slice(
+            0,
+            MAX_RESPONSE_BODY_LENGTH,
+          ),
+        }
+
+        if (!answer.ok) {
+          throw new Error(`Endpoint answered ${answer.status}`)
+        }
+      }),
+    )
+
+    const outcome = { attempts, ...response }
+    return this.webhookDeliveryRepository.update(
+      result.isOk()
+        ? delivery.succeed(outcome)
+        : delivery.fail({ ...outcome, error: result.unwrapErr().message }),
+    )
+  }
+
+  private send(
+    webhook: WebhookEntity,
+    delivery: WebhookDeliveryEntity,
+    body: string,
+  ): Promise<Response> {
+    // Signed per attempt, so the timestamp tells the endpoint when the attempt was made
+    const timestamp = Math.floor(Date.now() / 1000)
+
+    return fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        [WEBHOOK_HEADERS.id]: delivery.id,
+        [WEBHOOK_HEADERS.event]: delivery.event,
+        [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+        [WEBHOOK_HEADERS.signature]: signWebhookPayload(
+          webhook.secret,
+          timestamp,
+          body,
+        ),
+      },
+      body,
+      // Redirects aren't followed - they could point the delivery anywhere
+      redirect: "manual",
+      signal: AbortSignal.timeout(this.policy.timeoutMs),
+    })
+  }
+
+  private circuitBreakerFor(webhook: WebhookEntity): CircuitBreaker {
+    let circuitBreaker = this.circuitBreakers.get(webhook.id)
+    if (!circuitBreaker) {
+      circuitBreaker = new CircuitBreaker({
+        failureThreshold: this.policy.failureThreshold,
+        timeoutMs: this.policy.cooldownMs,
+      })
+      this.circuitBreakers.set(webhook.id, circuitBreaker)
+    }
+
+    return circuitBreaker
+  }
+
+  private inBackground(
+    delivery: Promise<Result<WebhookDeliveryEntity, Error>>,
+  ): void {
+    const settled = delivery
+      .then((result) => {
+        if (result.isErr()) {
+          console.error(
+            "Failed to record a webhook delivery:",
+            result.unwrapErr(),
+          )
+        }
+      })
+      .catch((error) => console.error("Failed to deliver a webhook:", error))
+      .finally(() => this.inFlight.delete(settled))
+
+    this.inFlight.add(settled)
+  }
+}
@@ -0,0 +1,42 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto"
+
+// Endpoints receive the delivery id, the event and the signature of every delivery in these
+export const WEBHOOK_HEADERS = {
+  id: "X-Webhook-Id",
+  event: "X-Webhook-Event",
+  timestamp: "X-Webhook-Timestamp",
+  signature: "X-Webhook-Signature",
+} as const
+
+/**
+ * Generate the secret an endpoint checks signatures with
+ */
+export const generateWebhookSecret = (): string =>
+  `whsec_${randomBytes(32).toString("base64url")}`
+
+/**
+ * Sign a delivery body: the HMAC-SHA256 of `<timestamp>.<body>` keyed with the webhook secret,
+ * hex-encoded. The timestamp (unix seconds) is signed along so a captured delivery can't be
+ * replayed later on.
+ */
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: number,
+  body: string,
+): string =>
+  `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`
+
+/**
+ * Check a signature the way endpoints should - in constant time
+ */
+export const verifyWebhookSignature = (
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+): boolean => {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body))
+  const actual = Buffer.from(signature)
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
@@ -5,6 +5,7 @@ import {
   ForbiddenError,
   InternalError,
   NotFoundError,
+  PreconditionFailedError,
   UnauthorizedError,
   ValidationError,
 } from "@domain/utils/base.errors"
@@ -16,6 +17,7 @@ export enum AppErrStatus {
   Forbidden = "Forbidden",
   InvalidData = "InvalidData",
   Conflict = "Conflict",
+  PreconditionFailed = "PreconditionFailed",
   InternalError = "InternalError",
   ExternalServiceError = "ExternalServiceError",
   Generic = "Generic",
@@ -45,6 +47,9 @@ export class AppError extends Error {
   static Conflict = (msg: string, cause?: unknown): AppError =>
     new AppError(AppErrStatus.Conflict, msg, cause)
 
+  static PreconditionFailed = (msg: string, cause?: unknown): AppError =>
+    new AppError(AppErrStatus.PreconditionFailed, msg, cause)
+
   static InternalError = (msg: string, cause?: unknown): AppError =>
     new AppError(AppErrStatus.InternalError, msg, cause)
 
@@ -79,6 +84,10 @@ export class AppError extends Error {
       return AppError.Conflict(e.message, e)
     }
 
+    if (e instanceof PreconditionFailedError) {
+      return AppError.PreconditionFailed(e.message, e)
+    }
+
     if (e instanceof InternalError) {
       return AppError.InternalError(e.message, e)
     }
@@ -0,0 +1,96 @@
+import { Result } from "@carbonteq/fp"
+
+// Undoes a step that completed - an Err (or a throw) means the undo failed
+export type Compensation = () => Promise<Result<unknown, Error>>
+
+interface RecordedCompensation {
+  description: string
+  compensate: Compensation
+}
+
+/**
+ * A unit of work spanning systems that share no transaction, such as storage and the database.
+ * Every completed step records how to undo it; when a later step fails, the completed ones are
+ * undone in reverse order.
+ */
+export class Saga {
+  private readonly compensations: RecordedCompensation[] = []
+
+  constructor(readonly name: string) {}
+
+  /**
+   * Run the work and undo its completed steps if it returns an Err or throws
+   */
+  static async run<T, E>(
+    name: string,
+    work: (saga: Saga) => Promise<Result<T, E>>,
+  ): Promise<Result<T, E>> {
+    const saga = new Saga(name)
+
+    try {
+      const result = await work(saga)
+      if (result.isErr()) {
+        await saga.compensate()
+      }
+      return result
+    } catch (error) {
+      await saga.compensate()
+      throw error
+    }
+  }
+
+  /**
+   * Run a step and, once it succeeded, record how to undo it
+   */
+  async step<T, E>(
+    description: string,
+    action: () => Promise<Result<T, E>>,
+    compensate: (value: T) => Promise<Result<unknown, Error>>,
+  ): Promise<Result<T, E>> {
+    const result = await action()
+    if (result.isOk()) {
+      const value = result.unwrap()
+      this.onCompensate(description, () => compensate(value))
+    }
+    return result
+  }
+
+  /**
+   * Record how to undo work that was done outside a step
+   */
+  onCompensate(description: string, compensate: Compensation): void {
+    this.compensations.push({ description, compensate })
+  }
+
+  /**
+   * Undo the completed steps, latest first. A failing compensation doesn't stop the others; the
+   * failures are logged and reported once all of them ran.
+   */
+  async compensate(): Promise<Result<void, Error>> {
+    const failures: unknown[] = []
+    const compensations = this.compensations.splice(0).reverse()
+
+    for (const { description, compensate } of compensations) {
+      try {
+        const result = await compensate()
+        if (result.isErr()) {
+          throw result.unwrapErr()
+        }
+      } catch (error) {
+        console.error(`Failed to undo "${description}" of ${this.name}:`, error)
+        failures.push(error)
+      }
+    }
+
+    if (failures.length > 0) {
+      return Result.Err(
+        new AggregateError(
+          failures,
+          `${failures.length} step(s) of ${this.name} couldn't be undone`,
+        ),
+      )
+    }
+
+    return Result.Ok(undefined)
+  }
+}
@@ -0,0 +1,124 @@
+import {
+  AuditEventFiltersDto,
+  AuditPaginationDto,
+} from "@application/dtos/audit.dto"
+import { toAuditCsv } from "@application/services/audit"
+import { ApplicationResult } from "@application/utils/application-result.utils"
+import { Result } from "@carbonteq/fp"
+import {
+  AuditEventEntity,
+  type AuditEventFilterQuery,
+  AuditEventRepository,
+} from "@domain/audit"
+import type { UserType } from "@domain/user"
+import { UserEntity } from "@domain/user"
+import { autoInjectable } from "tsyringe"
+
+// Events fetched per query while exporting
+const EXPORT_BATCH_SIZE = 1000
+
+@autoInjectable()
+export class AuditWorkflows {
+  constructor(private readonly auditEventRepository: AuditEventRepository) {}
+
+  /**
+   * Get audit events, newest first, with optional filtering and pagination (admin only)
+   */
+  async getAuditEvents(
+    currentUser: UserEntity,
+    filters?: AuditEventFiltersDto,
+    pagination?: AuditPaginationDto,
+  ): Promise<ApplicationResult<{ events: AuditEventEntity[]; total: number }>> {
+    try {
+      // Domain-level RBAC guard
+      if (!currentUser.isAdmin()) {
+        return ApplicationResult.fromResult(
+          Result.Err(
+            new Error("Insufficient permissions: Admin access required"),
+          ),
+        )
+      }
+
+      const paginationParams = pagination
+        ? { page: pagination.data.page, limit: pagination.data.limit }
+        : undefined
+
+      const eventsResult = await this.auditEventRepository.find(
+        this.toFilterQuery(filters),
+        paginationParams,
+      )
+
+      return ApplicationResult.fromResult(eventsResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(
+          error instanceof Error
+            ? error
+            : new Error("Failed to get audit events"),
+        ),
+      )
+    }
+  }
+
+  /**
+   * Export every matching audit event as CSV, newest first (admin only)
+   */
+  async exportAuditEvents(
+    currentUser: UserEntity,
+    filters?: AuditEventFiltersDto,
+  ): Promise<ApplicationResult<string>> {
+    try {
+      // Domain-level RBAC guard
+      if (!currentUser.isAdmin()) {
+        return ApplicationResult.fromResult(
+          Result.Err(
+            new Error("Insufficient permissions: Admin access required"),
+          ),
+        )
+      }
+
+      // Events recorded while exporting would shift the pages - leave them out
+      const now = new Date()
+      const query = this.toFilterQuery(filters)
+      query.toDate = query.toDate && query.toDate < now ? query.toDate : now
+
+      const events: AuditEventEntity[] = []
+      for (let page = 1; ; page++) {
+        const pageResult = await this.auditEventRepository.find(query, {
+          page,
+          limit: EXPORT_BATCH_SIZE,
+        })
+        if (pageResult.isErr()) {
+          return ApplicationResult.fromResult(pageResult)
+        }
+
+        const { events: pageEvents, total } = pageResult.unwrap()
+        events.push(...pageEvents)
+        if (pageEvents.length < EXPORT_BATCH_SIZE || events.length >= total) {
+          break
+        }
+      }
+
+      return ApplicationResult.fromResult(Result.Ok(toAuditCsv(events)))
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(
+          error instanceof Error
+            ? error
+            : new Error("Failed to export audit events"),
+        ),
+      )
+    }
+  }
+
+  private toFilterQuery(filters?: AuditEventFiltersDto): AuditEventFilterQuery {
+    return {
+      actorId: filters?.data.actorId as UserType["id"] | undefined,
+      targetType: filters?.data.targetType,
+      targetId: filters?.data.targetId,
+      action: filters?.data.action ? [...filters.data.action] : undefined,
+      fromDate: filters?.data.from,
+      toDate: filters?.data.to,
+    }
+  }
+}
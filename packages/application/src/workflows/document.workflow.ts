@@ -7,16 +7,174 @@ import {
   DownloadDocumentByTokenDto,
   DocumentFiltersDto,
   DocumentPaginationDto,
+  UploadDocumentVersionDto,
+  MoveDocumentDto,
+  GrantDocumentPermissionDto,
+  CreateDocumentUploadDto,
+  CreateDirectUploadDto,
+  SearchDocumentsDto,
+  CheckoutDocumentDto,
+  BreakDocumentLockDto,
 } from "@application/dtos/document.dto"
 import { ApplicationResult } from "@application/utils/application-result.utils"
+import { Saga } from "@application/utils/saga.utils"
 import { Result } from "@carbonteq/fp"
-import { DocumentEntity, DocumentRepository } from "@domain/document"
-import type { DocumentType } from "@domain/document"
+import type { AuditAction, AuditSnapshot } from "@domain/audit"
+import {
+  DocumentContentEntity,
+  DocumentContentRepository,
+  DocumentEntity,
+  DocumentPermissionEntity,
+  DocumentPermissionRepository,
+  DocumentRenditionEntity,
+  DocumentRenditionRepository,
+  DocumentRepository,
+  DocumentUploadEntity,
+  DocumentUploadRepository,
+  DocumentVersionEntity,
+  DocumentVersionRepository,
+} from "@domain/document"
+import type {
+  DocumentDuplicateGroup,
+  DocumentPermissionLevel,
+  DocumentSearchHit,
+  DocumentType,
+  DocumentUploadType,
+  DocumentVersionType,
+  NewDocumentType,
+  ScanStatus,
+} from "@domain/document"
 import { UserEntity } from "@domain/user"
-import { DocumentNotFoundError } from "@domain/document/document.errors"
+import type { UserType } from "@domain/user"
+import {
+  DocumentAccessDeniedError,
+  DocumentAlreadyExistsError,
+  DocumentDuplicateError,
+  DocumentFileError,
+  DocumentLockedError,
+  DocumentNotCleanError,
+  DocumentNotFoundError,
+  DocumentRenditionNotFoundError,
+  DocumentUploadError,
+  DocumentUploadNotFoundError,
+  DocumentUploadOffsetMismatchError,
+  DocumentVersionNotFoundError,
+} from "@domain/document/document.errors"
+import { FolderRepository } from "@domain/folder"
+import type { FolderType } from "@domain/folder"
+import { FolderNotFoundError } from "@domain/folder/folder.errors"
+import { createHash } from "node:crypto"
 import { autoInjectable } from "tsyringe"
 import { JwtService } from "@application/services/jwt.service"
+import { AuditLogger } from "@application/services/audit"
+import { ContentExtractionService } from "@application/services/content-extraction"
+import { ContentScanner } from "@application/services/content-scanning"
+import { RenditionService } from "@application/services/renditions"
+import { SNIFF_LENGTH, UploadPolicyService } from "@application/services/upload-policy"
 import { StorageService } from "../../../../apps/backend/src/infra/storage/storage.service"
+import type { ByteRange, PresignedUpload } from "../../../../apps/backend/src/infra/storage/storage.strategy"
+
+export interface DocumentDownload {
+  document: DocumentEntity
+  version?: DocumentVersionEntity // Set when the download token is pinned to a version
+  requestedBy?: UserType["id"] // The user the download token was issued to
+}
+
+// Where a stored file ended up after its malware scan, and the verdict
+interface StoredFile {
+  filePath: string
+  scanStatus: ScanStatus
+}
+
+// A multipart file as the transport hands it over - a web File, an object holding its bytes (named
+// like a File or like a multer upload) or raw bytes
+type UploadedFile =
+  | File
+  | {
+      buffer: Buffer
+      name?: string
+      originalname?: string
+      type?: string
+      mimetype?: string
+      size?: number
+    }
+  | Buffer
+
+// A direct upload and where the client sends its file
+export interface DirectUpload {
+  upload: DocumentUploadEntity
+  target: PresignedUpload
+}
+
+export interface DocumentThumbnail {
+  rendition: DocumentRenditionEntity
+  file: Buffer
+}
+
+// A stored file that is gone or no longer matches the hash recorded when it was uploaded
+export interface DocumentIntegrityIssue {
+  documentId: DocumentType["id"]
+  filePath: string
+  versionNumbers: number[] // Restored versions share their file with the original
+  status: "mismatch" | "missing"
+  expectedHash: string
+  actualHash?: string // Only set for mismatches
+}
+
+// The fields of a document recorded in the audit log, JSON-encoded
+const auditSnapshot = (document: DocumentEntity): AuditSnapshot => ({
+  name: document.name,
+  filePath: document.filePath,
+  mimeType: document.mimeType,
+  size: document.size,
+  contentHash: document.contentHash ?? null,
+  scanStatus: document.scanStatus ?? null,
+  tags: document.tags ?? [],
+  metadata: document.metadata ?? {},
+  folderId: document.folderId ?? null,
+  ownerId: document.ownerId ?? null,
+  deletedAt: document.deletedAt ? new Date(document.deletedAt.epochMillis).toISOString() : null,
+  lockedBy: document.lockedBy ?? null,
+  lockExpiresAt: document.lockExpiresAt ? new Date(document.lockExpiresAt.epochMillis).toISOString() : null,
+})
+
+// How long a checkout lasts unless the caller asks for another duration
+const DEFAULT_CHECKOUT_MINUTES = 60
+
+export interface DocumentIntegrityReport {
+  checked: number // Files re-hashed
+  unhashed: number // Files stored before hashing, which have nothing to compare with
+  issues: DocumentIntegrityIssue[]
+  total: number // Documents - each report covers one page of them
+}
+
+// A stored file no document refers to
+export interface StorageOrphan {
+  filePath: string
+  size: number
+  modifiedAt: Date
+  deleted: boolean // Only ever set when cleaning up
+}
+
+// A file documents refer to that isn't in storage
+export interface StorageMissingFile {
+  filePath: string
+  documentIds: DocumentType["id"][] // Duplicates and restored versions share their files
+}
+
+export interface StorageReconciliationOptions {
+  cleanup: boolean // Delete the orphans - without it the run only reports them
+  graceMinutes: number // Newer files may belong to uploads that are still in flight, so they're left alone
+}
+
+export interface StorageReconciliationReport {
+  stored: number // Files in storage
+  referenced: number // Distinct files documents refer to
+  recent: number // Unreferenced files still within the grace period
+  orphans: StorageOrphan[]
+  missing: StorageMissingFile[]
+  deleted: number
+}
 
 @autoInjectable()
 export class DocumentWorkflows {
@@ -24,84 +182,84 @@ export class DocumentWorkflows {
     private readonly documentRepository: DocumentRepository,
     private readonly storageService: StorageService,
     private readonly jwtService: JwtService,
+    private readonly documentVersionRepository: DocumentVersionRepository,
+    private readonly folderRepository: FolderRepository,
+    private readonly documentPermissionRepository: DocumentPermissionRepository,
+    private readonly documentUploadRepository: DocumentUploadRepository,
+    private readonly documentContentRepository: DocumentContentRepository,
+    private readonly contentExtractionService: ContentExtractionService,
+    private readonly documentRenditionRepository: DocumentRenditionRepository,
+    private readonly renditionService: RenditionService,
+    private readonly uploadPolicyService: UploadPolicyService,
+    private readonly contentScanner: ContentScanner,
+    private readonly auditLogger: AuditLogger,
   ) {}
 
   /**
-   * Upload document (this IS creation - no separate create method)
+   * Upload document (this IS creation - no separate create method); the uploader becomes the owner
    */
   async uploadDocument(currentUser: UserEntity, dto: UploadDocumentDto): Promise<ApplicationResult<DocumentEntity>> {
     try {
-      // Domain-level RBAC guard
-      if (!currentUser.isAdmin()) {
-        return ApplicationResult.fromResult(
-          Result.Err(new Error("Insufficient permissions: Admin access required"))
-        )
+      // Documents can only be filed into folders that exist
+      const folderId = dto.data.folderId as FolderType["id"] | undefined
+      if (folderId) {
+        const folderResult = await this.folderRepository.findById(folderId)
+        if (folderResult.isErr()) {
+          return ApplicationResult.fromResult(Result.Err(new FolderNotFoundError(folderId)))
+        }
       }
+
       // 1. Extract file data from multipart form-data
-      const fileData = dto.data.file as any
-      console.log("🔍 File Debug - Raw file data:", fileData)
-      console.log("🔍 File Debug - File data type:", typeof fileData)
-      console.log("🔍 File Debug - File data keys:", Object.keys(fileData || {}))
-      
-      // Convert File object to Buffer
-      let fileBuffer: Buffer
-      if (fileData.arrayBuffer) {
-        // Web API File object
-        const arrayBuffer = await fileData.arrayBuffer()
-        fileBuffer = Buffer.from(arrayBuffer)
-      } else if (fileData.buffer) {
-        // Already a Buffer
-        fileBuffer = fileData.buffer
-      } else if (Buffer.isBuffer(fileData)) {
-        // Direct Buffer
-        fileBuffer = fileData
-      } else {
-        throw new Error("Unsupported file format")
+      const fileResult = await this.readUploadedFile(dto.data.file as UploadedFile, dto.data.name)
+      if (fileResult.isErr()) {
+        return ApplicationResult.fromResult(fileResult)
       }
-      
-      const fileName = fileData.name || fileData.originalname || dto.data.name
-      const fileMimeType = fileData.type || fileData.mimetype || this.getMimeType(fileBuffer, fileName)
-      const fileSize = fileData.size || fileBuffer.length
-
-      console.log("🔍 File Debug - Converted buffer type:", typeof fileBuffer)
-      console.log("🔍 File Debug - Buffer is Buffer:", Buffer.isBuffer(fileBuffer))
-      console.log("🔍 File Debug - File name:", fileName)
-      console.log("🔍 File Debug - MIME type:", fileMimeType)
-      console.log("🔍 File Debug - File size:", fileSize)
+      const { fileBuffer, fileName, mimeType: fileMimeType, size: fileSize, contentHash } = fileResult.unwrap()
 
-      // 2. Save file to storage
-      const uploadResult = await this.storageService.upload(
-        fileBuffer,
-        dto.data.name,
-        fileMimeType
-      )
-
-      if (uploadResult.isErr()) {
-        return ApplicationResult.fromResult(
-          Result.Err(new Error(`Failed to upload file: ${uploadResult.unwrapErr().message}`))
-        )
+      // 2. Save file to storage - unless the caller can already read a document with the same file
+      // and asked to reject such uploads or share the stored file
+      const duplicateMode = dto.data.duplicates ?? "allow"
+      const duplicateResult = duplicateMode === "allow"
+        ? Result.Ok(undefined)
+        : await this.findReadableDuplicate(currentUser, contentHash)
+      if (duplicateResult.isErr()) {
+        return ApplicationResult.fromResult(duplicateResult)
       }
 
-      const filePath = uploadResult.unwrap()
+      const duplicate = duplicateResult.unwrap()
+      if (duplicate && duplicateMode === "reject") {
+        return ApplicationResult.fromResult(Result.Err(new DocumentDuplicateError(duplicate.id)))
+      }
 
       // 3. Parse tags and metadata from form-data strings
-      const tags = dto.data.tags ? dto.data.tags.split(',').map(t => t.trim()).filter(t => t.length > 0) : undefined
-      const metadata = dto.data.metadata ? JSON.parse(dto.data.metadata) : undefined
+      const { tags, metadata } = this.parseFormFields(dto.data.tags, dto.data.metadata)
 
-      // 4. Create document entity
-      const document = DocumentEntity.create({
-        name: dto.data.name,
-        filePath,
-        mimeType: fileMimeType,
-        size: fileSize,
-        tags,
-        metadata,
+      // A stored file is deleted again when the document can't be saved
+      const createResult = await Saga.run("document upload", async (saga): Promise<Result<DocumentEntity, Error>> => {
+        // Only files found clean are shared - anything else is stored (and scanned) again
+        const storeResult = duplicate?.isClean()
+          ? Result.Ok<StoredFile, Error>({ filePath: duplicate.filePath, scanStatus: "clean" })
+          : await this.storeScannedFile(saga, fileBuffer, dto.data.name, fileMimeType)
+        if (storeResult.isErr()) {
+          return storeResult
+        }
+        const { filePath, scanStatus } = storeResult.unwrap()
+
+        // 4. Save the document (names are unique per folder) with the file as version 1
+        return this.createDocumentWithFile(saga, currentUser, fileBuffer, {
+          name: dto.data.name,
+          filePath,
+          mimeType: fileMimeType,
+          size: fileSize,
+          contentHash,
+          scanStatus,
+          tags,
+          metadata,
+          folderId,
+        })
       })
 
-      // 5. Save to repository
-      const saveResult = await this.documentRepository.create(document)
-      
-      return ApplicationResult.fromResult(saveResult)
+      return ApplicationResult.fromResult(createResult)
     } catch (error) {
       return ApplicationResult.fromResult(
         Result.Err(error instanceof Error ? error : new Error("Failed to upload document"))
@@ -110,19 +268,21 @@ export class DocumentWorkflows {
   }
 
   /**
-   * Get documents with optional filtering and pagination
+   * Get documents with optional filtering and pagination - non-admins only see documents they own or were granted
    */
   async getDocuments(
+    currentUser: UserEntity,
     filters?: DocumentFiltersDto,
     pagination?: DocumentPaginationDto
   ): Promise<ApplicationResult<{ documents: DocumentEntity[]; total: number }>> {
     try {
-      const filterQuery = filters ? {
-        name: filters.data.name,
-        mimeType: filters.data.mimeType,
-        tags: filters.data.tags ? [...filters.data.tags] : undefined,
-        metadata: filters.data.metadata ? { ...filters.data.metadata } : undefined,
-      } : undefined
+      const filterQuery = {
+        name: filters?.data.name,
+        mimeType: filters?.data.mimeType,
+        tags: filters?.data.tags ? [...filters.data.tags] : undefined,
+        metadata: filters?.data.metadata ? { ...filters.data.metadata } : undefined,
+        visibleTo: currentUser.isAdmin() ? undefined : currentUser.id,
+      }
 
       const paginationParams = pagination ? {
         page: pagination.data.page,
@@ -139,12 +299,46 @@ export class DocumentWorkflows {
     }
   }
 
+  /**
+   * Full-text search over names, tags, metadata values and the content of text files, best matches
+   * first - combined with the same filters as getDocuments
+   */
+  async searchDocuments(
+    currentUser: UserEntity,
+    dto: SearchDocumentsDto,
+    filters?: DocumentFiltersDto,
+    pagination?: DocumentPaginationDto
+  ): Promise<ApplicationResult<{ hits: DocumentSearchHit[]; total: number }>> {
+    try {
+      const filterQuery = {
+        name: filters?.data.name,
+        mimeType: filters?.data.mimeType,
+        tags: filters?.data.tags ? [...filters.data.tags] : undefined,
+        metadata: filters?.data.metadata ? { ...filters.data.metadata } : undefined,
+        visibleTo: currentUser.isAdmin() ? undefined : currentUser.id,
+      }
+
+      const paginationParams = pagination ? {
+        page: pagination.data.page,
+        limit: pagination.data.limit,
+      } : undefined
+
+      const searchResult = await this.documentRepository.searchDocuments(dto.data.query, filterQuery, paginationParams)
+
+      return ApplicationResult.fromResult(searchResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to search documents"))
+      )
+    }
+  }
+
   /**
    * Get document by ID
    */
-  async getDocumentById(id: string): Promise<ApplicationResult<DocumentEntity>> {
+  async getDocumentById(currentUser: UserEntity, id: string): Promise<ApplicationResult<DocumentEntity>> {
     try {
-      const documentResult = await this.documentRepository.findById(id as DocumentType["id"])
+      const documentResult = await this.authorize(currentUser, id, "read")
       return ApplicationResult.fromResult(documentResult)
     } catch (error) {
       return ApplicationResult.fromResult(
@@ -154,40 +348,42 @@ export class DocumentWorkflows {
   }
 
   /**
-   * Patch document (replaces tags/metadata if provided, doesn't add to existing)
+   * Patch document (replaces tags/metadata if provided, doesn't add to existing) - with an expected
+   * version, only if nobody saved the document since
    */
   async patchDocument(
     currentUser: UserEntity,
     id: string,
-    dto: PatchDocumentDto
+    dto: PatchDocumentDto,
+    expectedVersion?: number
   ): Promise<ApplicationResult<DocumentEntity>> {
     try {
-      // Domain-level RBAC guard
-      if (!currentUser.isAdmin()) {
-        return ApplicationResult.fromResult(
-          Result.Err(new Error("Insufficient permissions: Admin access required"))
-        )
+      const documentResult = await this.authorizeChange(currentUser, id, "write")
+      if (documentResult.isErr()) {
+        return ApplicationResult.fromResult(documentResult)
       }
-      // Build updates object with only provided fields
-      const updates: any = {}
-      
+
       if (dto.data.name !== undefined) {
-        updates.name = dto.data.name
-      }
-      
-      if (dto.data.tags !== undefined) {
-        updates.tags = dto.data.tags
-      }
-      
-      if (dto.data.metadata !== undefined) {
-        updates.metadata = dto.data.metadata
+        // Renames must stay unique within the document's folder
+        const conflictResult = await this.ensureNameAvailable(id, dto.data.name, documentResult.unwrap().folderId)
+        if (conflictResult.isErr()) {
+          return ApplicationResult.fromResult(conflictResult)
+        }
       }
 
-      // Use updateDocumentFields for direct field updates (same pattern as user workflow)
-      const saveResult = await this.documentRepository.updateDocumentFields(
-        id as DocumentType["id"], 
-        updates
+      // Fields left out of the request keep their values
+      const saveResult = await this.documentRepository.update(
+        documentResult.unwrap().update({
+          name: dto.data.name,
+          tags: dto.data.tags,
+          metadata: dto.data.metadata,
+        }),
+        expectedVersion ?? documentResult.unwrap().version,
+        currentUser.id
       )
+      if (saveResult.isOk()) {
+        await this.audit("document.update", currentUser, { before: documentResult.unwrap(), after: saveResult.unwrap() })
+      }
       
       return ApplicationResult.fromResult(saveResult)
     } catch (error) {
@@ -198,9 +394,85 @@ export class DocumentWorkflows {
   }
 
   /**
-   * Delete document
+   * Delete document - moves it to the trash, files are kept until it is purged (requires manage access)
    */
   async deleteDocument(currentUser: UserEntity, id: string): Promise<ApplicationResult<{ success: boolean; message: string }>> {
+    try {
+      const documentResult = await this.authorizeChange(currentUser, id, "manage")
+      if (documentResult.isErr()) {
+        return ApplicationResult.fromResult(documentResult)
+      }
+
+      const document = documentResult.unwrap()
+      const trashResult = await this.documentRepository.update(document.moveToTrash(), document.version, currentUser.id)
+      if (trashResult.isOk()) {
+        await this.audit("document.delete", currentUser, { before: document, after: trashResult.unwrap() })
+      }
+
+      return ApplicationResult.fromResult(
+        trashResult.map(() => ({
+          success: true,
+          message: "Document moved to trash"
+        }))
+      )
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to delete document"))
+      )
+    }
+  }
+
+  /**
+   * Get trashed documents - non-admins only see documents they own or were granted
+   */
+  async getTrash(
+    currentUser: UserEntity,
+    pagination?: DocumentPaginationDto
+  ): Promise<ApplicationResult<{ documents: DocumentEntity[]; total: number }>> {
+    try {
+      const trashResult = await this.documentRepository.findDeleted(
+        { visibleTo: currentUser.isAdmin() ? undefined : currentUser.id },
+        pagination ? { page: pagination.data.page, limit: pagination.data.limit } : undefined
+      )
+
+      return ApplicationResult.fromResult(trashResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to get trash"))
+      )
+    }
+  }
+
+  /**
+   * Get groups of documents with identical files, largest files first - non-admins only see
+   * documents they own or were granted
+   */
+  async getDuplicates(
+    currentUser: UserEntity,
+    pagination?: DocumentPaginationDto
+  ): Promise<ApplicationResult<{ groups: DocumentDuplicateGroup[]; total: number }>> {
+    try {
+      const duplicatesResult = await this.documentRepository.findDuplicates(
+        { visibleTo: currentUser.isAdmin() ? undefined : currentUser.id },
+        pagination ? { page: pagination.data.page, limit: pagination.data.limit } : undefined
+      )
+
+      return ApplicationResult.fromResult(duplicatesResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to get duplicate documents"))
+      )
+    }
+  }
+
+  /**
+   * Re-hash the stored files of a page of documents (every version) and report the ones that are
+   * missing or don't match their recorded hash (admin only)
+   */
+  async verifyDocumentIntegrity(
+    currentUser: UserEntity,
+    pagination?: DocumentPaginationDto
+  ): Promise<ApplicationResult<DocumentIntegrityReport>> {
     try {
       // Domain-level RBAC guard
       if (!currentUser.isAdmin()) {
@@ -208,30 +480,110 @@ export class DocumentWorkflows {
           Result.Err(new Error("Insufficient permissions: Admin access required"))
         )
       }
-      // Get document to get file path
-      const documentResult = await this.documentRepository.findById(id as DocumentType["id"])
+
+      const documentsResult = await this.documentRepository.find(
+        undefined,
+        pagination ? { page: pagination.data.page, limit: pagination.data.limit } : undefined
+      )
+      if (documentsResult.isErr()) {
+        return ApplicationResult.fromResult(documentsResult)
+      }
+
+      const { documents, total } = documentsResult.unwrap()
+      const report: DocumentIntegrityReport = { checked: 0, unhashed: 0, issues: [], total }
+
+      for (const document of documents) {
+        const versionsResult = await this.documentVersionRepository.findByDocumentId(document.id)
+        if (versionsResult.isErr()) {
+          return ApplicationResult.fromResult(versionsResult)
+        }
+
+        const versionsByPath = Map.groupBy(versionsResult.unwrap(), version => version.filePath)
+        for (const [filePath, versions] of versionsByPath) {
+          const expectedHash = versions.find(version => version.contentHash)?.contentHash
+          if (!expectedHash) {
+            report.unhashed++
+            continue
+          }
+
+          const issue = { documentId: document.id, filePath, versionNumbers: versions.map(v => v.versionNumber), expectedHash }
+          const fileResult = await this.storageService.download(filePath)
+          report.checked++
+
+          if (fileResult.isErr()) {
+            report.issues.push({ ...issue, status: "missing" })
+            continue
+          }
+
+          const actualHash = createHash("sha256").update(fileResult.unwrap()).digest("hex")
+          if (actualHash !== expectedHash) {
+            report.issues.push({ ...issue, status: "mismatch", actualHash })
+          }
+        }
+      }
+
+      return ApplicationResult.fromResult(Result.Ok(report))
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to verify document integrity"))
+      )
+    }
+  }
+
+  /**
+   * Restore a trashed document to its folder (requires manage access)
+   */
+  async restoreDocument(currentUser: UserEntity, id: string): Promise<ApplicationResult<DocumentEntity>> {
+    try {
+      const documentResult = await this.authorizeChange(currentUser, id, "manage", "trash")
       if (documentResult.isErr()) {
-        return ApplicationResult.fromResult(
-          Result.Err(new DocumentNotFoundError(id as DocumentType["id"]))
-        )
+        return ApplicationResult.fromResult(documentResult)
       }
 
       const document = documentResult.unwrap()
 
-      // Delete file from storage
-      const deleteFileResult = await this.storageService.delete(document.filePath)
-      if (deleteFileResult.isErr()) {
-        // Log error but continue with database deletion
-        console.error("Failed to delete file from storage:", deleteFileResult.unwrapErr())
+      // Another document may have taken the name while this one was in the trash
+      const conflictResult = await this.ensureNameAvailable(id, document.name, document.folderId)
+      if (conflictResult.isErr()) {
+        return ApplicationResult.fromResult(conflictResult)
+      }
+
+      const restoreResult = await this.documentRepository.update(document.restoreFromTrash(), document.version, currentUser.id)
+      if (restoreResult.isOk()) {
+        await this.audit("document.restore", currentUser, { before: document, after: restoreResult.unwrap() })
+      }
+
+      return ApplicationResult.fromResult(restoreResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to restore document"))
+      )
+    }
+  }
+
+  /**
+   * Permanently delete a trashed document and all of its files (requires manage access)
+   */
+  async permanentlyDeleteDocument(
+    currentUser: UserEntity,
+    id: string
+  ): Promise<ApplicationResult<{ success: boolean; message: string }>> {
+    try {
+      const documentResult = await this.authorizeChange(currentUser, id, "manage", "trash")
+      if (documentResult.isErr()) {
+        return ApplicationResult.fromResult(documentResult)
       }
 
-      // Delete from repository
-      const deleteResult = await this.documentRepository.delete(id as DocumentType["id"])
+      const deleteResult = await this.destroyDocument(documentResult.unwrap(), currentUser.id)
+      if (deleteResult.isOk()) {
+        await this.audit("document.purge", currentUser, { before: documentResult.unwrap() })
+      }
 
       return ApplicationResult.fromResult(
-        deleteResult.map(() => ({
+        deleteResult.map((deleted) => ({
           success: true,
-          message: "Document deleted successfully"
+          // Files that couldn't be deleted yet are retried by the deletion job
+          message: deleted ? "Document deleted permanently" : "Document deleted permanently, its files are removed later"
         }))
       )
     } catch (error) {
@@ -242,110 +594,1855 @@ export class DocumentWorkflows {
   }
 
   /**
-   * Generate download token
+   * Scan the documents whose scan is pending or failed again (run by the scan retry job). Their
+   * files may be shared with older versions, so infected files are flagged where they are rather
+   * than moved to quarantine.
    */
-  async generateDownloadToken(
-    documentId: string,
-    expiresInMinutes: number = 5
-  ): Promise<ApplicationResult<string>> {
+  async rescanDocuments(limit: number = 100): Promise<ApplicationResult<{ scanned: number; infected: number; failed: number }>> {
     try {
-      // Verify document exists
-      const documentResult = await this.documentRepository.findById(documentId as DocumentType["id"])
-      if (documentResult.isErr()) {
-        return ApplicationResult.fromResult(
-          Result.Err(new DocumentNotFoundError(documentId as DocumentType["id"]))
-        )
+      const documentsResult = await this.documentRepository.find(
+        { scanStatus: ["pending", "error"] },
+        { page: 1, limit }
+      )
+      if (documentsResult.isErr()) {
+        return ApplicationResult.fromResult(documentsResult)
       }
 
-      // Generate token
-      const token = await this.jwtService.generateToken(documentId, expiresInMinutes)
+      let scanned = 0
+      let infected = 0
+      let failed = 0
 
-      return ApplicationResult.fromResult(Result.Ok(token))
+      for (const document of documentsResult.unwrap().documents) {
+        const { scanStatus } = await this.scanStoredFile(document.filePath, false)
+        const updateResult = await this.documentRepository.updateDocumentFields(document.id, { scanStatus })
+        if (updateResult.isErr()) {
+          console.error(`Failed to record the scan of document ${document.id}:`, updateResult.unwrapErr())
+          failed++
+        } else if (scanStatus === "error") {
+          failed++
+        } else {
+          scanned++
+          if (scanStatus === "infected") infected++
+          // Text and thumbnails were held back until the file was found clean
+          if (scanStatus === "clean") {
+            await this.extractContent(updateResult.unwrap())
+            await this.generateRenditions(updateResult.unwrap())
+          }
+        }
+      }
+
+      return ApplicationResult.fromResult(Result.Ok({ scanned, infected, failed }))
     } catch (error) {
       return ApplicationResult.fromResult(
-        Result.Err(error instanceof Error ? error : new Error("Failed to generate download token"))
+        Result.Err(error instanceof Error ? error : new Error("Failed to rescan documents"))
       )
     }
   }
 
   /**
-   * Download document by token
+   * Permanently delete every document that was trashed before the cutoff (run by the purge job)
    */
-  async downloadDocumentByToken(token: string): Promise<ApplicationResult<{ document: DocumentEntity; file: Buffer }>> {
+  async purgeDeletedDocuments(cutoff: Date): Promise<ApplicationResult<{ purged: number; failed: number }>> {
     try {
-      // Verify and decode token
-      const documentIdResult = await this.jwtService.verifyToken(token)
-      if (documentIdResult.isErr()) {
-        return ApplicationResult.fromResult(
-          Result.Err(new Error("Invalid or expired download token"))
-        )
+      const expiredResult = await this.documentRepository.findDeletedBefore(cutoff)
+      if (expiredResult.isErr()) {
+        return ApplicationResult.fromResult(expiredResult)
       }
 
-      const documentId = documentIdResult.unwrap()
+      let purged = 0
+      let failed = 0
 
-      // Get document
-      const documentResult = await this.documentRepository.findById(documentId as DocumentType["id"])
-      if (documentResult.isErr()) {
-        return ApplicationResult.fromResult(
-          Result.Err(new DocumentNotFoundError(documentId as DocumentType["id"]))
-        )
+      // One failing document shouldn't block the rest - it is retried on the next run
+      for (const document of expiredResult.unwrap()) {
+        const deleteResult = await this.destroyDocument(document)
+        if (deleteResult.isErr()) {
+          console.error(`Failed to purge document ${document.id}:`, deleteResult.unwrapErr())
+          failed++
+        } else {
+          await this.audit("document.purge", undefined, { before: document })
+          purged++
+        }
       }
 
-      const document = documentResult.unwrap()
+      return ApplicationResult.fromResult(Result.Ok({ purged, failed }))
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to purge deleted documents"))
+      )
+    }
+  }
 
-      // Download file from storage
-      const fileResult = await this.storageService.download(document.filePath)
-      if (fileResult.isErr()) {
-        return ApplicationResult.fromResult(
-          Result.Err(new Error(`Failed to download file: ${fileResult.unwrapErr().message}`))
-        )
+  /**
+   * Finish the purges whose files couldn't all be deleted (run by the deletion retry job)
+   */
+  async finishPendingDeletions(limit: number = 100): Promise<ApplicationResult<{ deleted: number; pending: number }>> {
+    try {
+      const pendingResult = await this.documentRepository.findPendingDelete(limit)
+      if (pendingResult.isErr()) {
+        return ApplicationResult.fromResult(pendingResult)
       }
 
-      const file = fileResult.unwrap()
+      let deleted = 0
+      let pending = 0
+
+      for (const document of pendingResult.unwrap()) {
+        const deleteResult = await this.destroyDocument(document)
+        if (deleteResult.isErr()) {
+          console.error(`Failed to finish the deletion of document ${document.id}:`, deleteResult.unwrapErr())
+          pending++
+        } else if (deleteResult.unwrap()) {
+          deleted++
+        } else {
+          pending++
+        }
+      }
 
+      return ApplicationResult.fromResult(Result.Ok({ deleted, pending }))
+    } catch (error) {
       return ApplicationResult.fromResult(
-        Result.Ok({ document, file })
+        Result.Err(error instanceof Error ? error : new Error("Failed to finish pending deletions"))
       )
+    }
+  }
+
+  /**
+   * Compare the stored files with the files documents refer to, reporting orphaned files and
+   * documents whose files are missing, and delete the orphans when cleaning up. Admin only when
+   * requested by a user; the reconciliation job and script run it without one.
+   */
+  async reconcileStorage(
+    currentUser: UserEntity | undefined,
+    options: StorageReconciliationOptions
+  ): Promise<ApplicationResult<StorageReconciliationReport>> {
+    try {
+      // Domain-level RBAC guard
+      if (currentUser && !currentUser.isAdmin()) {
+        return ApplicationResult.fromResult(
+          Result.Err(new Error("Insufficient permissions: Admin access required"))
+        )
+      }
+
+      // Storage is listed first, so files stored in the meantime are never taken for orphans
+      const listResult = await this.storageService.list("")
+      if (listResult.isErr()) {
+        return ApplicationResult.fromResult(listResult)
+      }
+
+      const referencesResult = await this.documentRepository.findFileReferences()
+      if (referencesResult.isErr()) {
+        return ApplicationResult.fromResult(referencesResult)
+      }
+
+      // Paths with and without a backend marker may name the same file
+      const canonical = (filePath: string) => this.storageService.canonicalPath(filePath)
+      const stored = listResult.unwrap()
+      const references = Map.groupBy(referencesResult.unwrap(), reference => canonical(reference.filePath))
+      const report: StorageReconciliationReport = {
+        stored: stored.length,
+        referenced: references.size,
+        recent: 0,
+        orphans: [],
+        missing: [],
+        deleted: 0,
+      }
+
+      const graceCutoff = Date.now() - options.graceMinutes * 60 * 1000
+      for (const object of stored) {
+        if (references.has(canonical(object.path))) continue
+
+        if (object.modifiedAt.getTime() > graceCutoff) {
+          report.recent++
+          continue
+        }
+
+        let deleted = false
+        if (options.cleanup) {
+          const deleteResult = await this.storageService.delete(object.path)
+          if (deleteResult.isErr()) {
+            console.error(`Failed to delete orphaned file ${object.path}:`, deleteResult.unwrapErr())
+          } else {
+            deleted = true
+            report.deleted++
+          }
+        }
+        report.orphans.push({ filePath: object.path, size: object.size, modifiedAt: object.modifiedAt, deleted })
+      }
+
+      const storedPaths = new Set(stored.map(object => canonical(object.path)))
+      for (const [canonicalPath, fileReferences] of references) {
+        const [first] = fileReferences
+        if (!first || storedPaths.has(canonicalPath)) continue
+        const { filePath } = first
+
+        // Documents created after the listing have files it couldn't see yet
+        const existsResult = await this.storageService.exists(filePath)
+        if (existsResult.isOk() && existsResult.unwrap()) continue
+
+        report.missing.push({
+          filePath,
+          documentIds: [...new Set(fileReferences.map(reference => reference.documentId))],
+        })
+      }
+
+      return ApplicationResult.fromResult(Result.Ok(report))
     } catch (error) {
       return ApplicationResult.fromResult(
-        Result.Err(error instanceof Error ? error : new Error("Failed to download document"))
+        Result.Err(error instanceof Error ? error : new Error("Failed to reconcile storage"))
       )
     }
   }
 
   /**
-   * Helper method to determine MIME type from file buffer and name
-   */
-  private getMimeType(file: Buffer, fileName: string): string {
-    // Simple MIME type detection based on file extension
-    const extension = fileName.split('.').pop()?.toLowerCase()
-    
-    const mimeTypes: Record<string, string> = {
-      'pdf': 'application/pdf',
-      'doc': 'application/msword',
-      'docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'xls': 'application/vnd.ms-excel',
-      'xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-      'ppt': 'application/vnd.ms-powerpoint',
-      'pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-      'txt': 'text/plain',
-      'rtf': 'application/rtf',
-      'jpg': 'image/jpeg',
-      'jpeg': 'image/jpeg',
-      'png': 'image/png',
-      'gif': 'image/gif',
-      'bmp': 'image/bmp',
-      'svg': 'image/svg+xml',
-      'mp4': 'video/mp4',
-      'avi': 'video/x-msvideo',
-      'mov': 'video/quicktime',
-      'mp3': 'audio/mpeg',
-      'wav': 'audio/wav',
-      'zip': 'application/zip',
-      'rar': 'application/vnd.rar',
-      '7z': 'application/x-7z-compressed',
-    }
-
-    return mimeTypes[extension || ''] || 'application/octet-stream'
+   * Generate download token (for the current file, or a specific version when versionId is given)
+   */
+  async generateDownloadToken(
+    currentUser: UserEntity,
+    documentId: string,
+    expiresInMinutes: number = 5,
+    versionId?: string
+  ): Promise<ApplicationResult<string>> {
+    try {
+      // Verify document exists and is readable - the token records who it was issued to for the audit log
+      const documentResult = await this.authorize(currentUser, documentId, "read")
+      if (documentResult.isErr()) {
+        return ApplicationResult.fromResult(documentResult)
+      }
+
+      // Verify the version belongs to this document
+      if (versionId) {
+        const versionResult = await this.findDocumentVersion(documentId, versionId)
+        if (versionResult.isErr()) {
+          return ApplicationResult.fromResult(versionResult)
+        }
+      }
+
+      // Generate token
+      const token = await this.jwtService.generateToken(documentId, expiresInMinutes, versionId, currentUser.id)
+
+      return ApplicationResult.fromResult(Result.Ok(token))
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to generate download token"))
+      )
+    }
+  }
+
+  /**
+   * Generate a URL the file can be downloaded from straight out of storage, when the storage
+   * backend issues them. Resolves to undefined otherwise - and for files not found clean, so the
+   * token download reports why - and callers fall back to a download token. Nothing is left to
+   * record the download once the URL is out, so it is recorded when issued
+   */
+  async generatePresignedDownloadUrl(
+    currentUser: UserEntity,
+    documentId: string,
+    expiresInMinutes: number = 5,
+    versionId?: string
+  ): Promise<ApplicationResult<string | undefined>> {
+    try {
+      const documentResult = await this.authorize(currentUser, documentId, "read")
+      if (documentResult.isErr()) {
+        return ApplicationResult.fromResult(documentResult)
+      }
+
+      const document = documentResult.unwrap()
+      let version: DocumentVersionEntity | undefined
+      if (versionId) {
+        const versionResult = await this.findDocumentVersion(documentId, versionId)
+        if (versionResult.isErr()) {
+          return ApplicationResult.fromResult(versionResult)
+        }
+        version = versionResult.unwrap()
+      }
+
+      const filePath = version?.filePath ?? document.filePath
+      if (document.scanStatus !== "clean" || this.storageService.isQuarantined(filePath)) {
+        return ApplicationResult.fromResult(Result.Ok(undefined))
+      }
+
+      const urlResult = await this.storageService.createDownloadUrl(filePath, {
+        fileName: document.name,
+        mimeType: version?.mimeType ?? document.mimeType,
+        expiresInSeconds: expiresInMinutes * 60,
+      })
+      if (urlResult.isErr()) {
+        return ApplicationResult.fromResult(urlResult)
+      }
+
+      const url = urlResult.unwrap()
+      if (url) {
+        await this.auditDownload({ document, version, requestedBy: currentUser.id })
+      }
+
+      return ApplicationResult.fromResult(Result.Ok(url))
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to generate download URL"))
+      )
+    }
+  }
+
+  /**
+   * Resolve a download token to the document (and the version it is pinned to) without reading the file,
+   * so callers can answer conditional and range requests first
+   */
+  async resolveDownload(token: string): Promise<ApplicationResult<DocumentDownload>> {
+    try {
+      // Verify and decode token
+      const payloadResult = await this.jwtService.verifyToken(token)
+      if (payloadResult.isErr()) {
+        return ApplicationResult.fromResult(
+          Result.Err(new Error("Invalid or expired download token"))
+        )
+      }
+
+      const { documentId, versionId, userId } = payloadResult.unwrap()
+
+      // Get document
+      const documentResult = await this.documentRepository.findById(documentId as DocumentType["id"])
+      if (documentResult.isErr()) {
+        return ApplicationResult.fromResult(
+          Result.Err(new DocumentNotFoundError(documentId as DocumentType["id"]))
+        )
+      }
+
+      const document = documentResult.unwrap()
+
+      // Resolve the requested version, if the token is pinned to one
+      let version: DocumentVersionEntity | undefined
+      if (versionId) {
+        const versionResult = await this.findDocumentVersion(documentId, versionId)
+        if (versionResult.isErr()) {
+          return ApplicationResult.fromResult(versionResult)
+        }
+        version = versionResult.unwrap()
+      }
+
+      // Only files found clean are served - a pinned version may have been quarantined on its own
+      const scanStatus = version && this.storageService.isQuarantined(version.filePath)
+        ? "infected"
+        : document.scanStatus
+      if (scanStatus !== "clean") {
+        return ApplicationResult.fromResult(Result.Err(new DocumentNotCleanError(document.id, scanStatus)))
+      }
+
+      return ApplicationResult.fromResult(Result.Ok({ document, version, requestedBy: userId as UserType["id"] | undefined }))
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to resolve download"))
+      )
+    }
+  }
+
+  /**
+   * Stream a resolved download, or only the given byte range of it. Only requests from the first
+   * byte are recorded as downloads - the rest continue one (e.g. resumed or seeking players).
+   */
+  async openDownloadStream(
+    download: DocumentDownload,
+    range?: ByteRange
+  ): Promise<ApplicationResult<ReadableStream<Uint8Array>>> {
+    try {
+      const { document, version } = download
+      const streamResult = await this.storageService.createReadStream(version?.filePath ?? document.filePath, range)
+      if (streamResult.isErr()) {
+        return ApplicationResult.fromResult(
+          Result.Err(new Error(`Failed to download file: ${streamResult.unwrapErr().message}`))
+        )
+      }
+
+      if (!range || range.start === 0) {
+        await this.auditDownload(download)
+      }
+
+      return ApplicationResult.fromResult(Result.Ok(streamResult.unwrap()))
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to download document"))
+      )
+    }
+  }
+
+  /**
+   * Download document by token
+   */
+  async downloadDocumentByToken(token: string): Promise<ApplicationResult<DocumentDownload & { file: Buffer }>> {
+    try {
+      const downloadResult = await this.resolveDownload(token)
+      if (downloadResult.isErr()) {
+        return ApplicationResult.fromResult(Result.Err(downloadResult.unwrapErr()))
+      }
+
+      const download = downloadResult.unwrap()
+      const { document, version } = download
+
+      // Download file from storage
+      const fileResult = await this.storageService.download(version?.filePath ?? document.filePath)
+      if (fileResult.isErr()) {
+        return ApplicationResult.fromResult(
+          Result.Err(new Error(`Failed to download file: ${fileResult.unwrapErr().message}`))
+        )
+      }
+
+      const file = fileResult.unwrap()
+      await this.auditDownload(download)
+
+      return ApplicationResult.fromResult(
+        Result.Ok({ ...download, file })
+      )
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to download document"))
+      )
+    }
+  }
+
+  /**
+   * Move document into a folder, or to the root when folderId is null (requires write access)
+   */
+  async moveDocument(
+    currentUser: UserEntity,
+    id: string,
+    dto: MoveDocumentDto
+  ): Promise<ApplicationResult<DocumentEntity>> {
+    try {
+      const documentResult = await this.authorizeChange(currentUser, id, "write")
+      if (documentResult.isErr()) {
+        return ApplicationResult.fromResult(documentResult)
+      }
+
+      const document = documentResult.unwrap()
+      const folderId = (dto.data.folderId ?? undefined) as FolderType["id"] | undefined
+
+      if (folderId) {
+        const folderResult = await this.folderRepository.findById(folderId)
+        if (folderResult.isErr()) {
+          return ApplicationResult.fromResult(Result.Err(new FolderNotFoundError(folderId)))
+        }
+      }
+
+      const conflictResult = await this.ensureNameAvailable(id, document.name, folderId)
+      if (conflictResult.isErr()) {
+        return ApplicationResult.fromResult(conflictResult)
+      }
+
+      const saveResult = await this.documentRepository.update(document.moveToFolder(folderId), document.version, currentUser.id)
+      if (saveResult.isOk()) {
+        await this.audit("document.move", currentUser, { before: document, after: saveResult.unwrap() })
+      }
+
+      return ApplicationResult.fromResult(saveResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to move document"))
+      )
+    }
+  }
+
+  /**
+   * Upload a new version of an existing document - previous files stay in the version history
+   */
+  async uploadDocumentVersion(
+    currentUser: UserEntity,
+    documentId: string,
+    dto: UploadDocumentVersionDto
+  ): Promise<ApplicationResult<DocumentVersionEntity>> {
+    try {
+      const documentResult = await this.authorizeChange(currentUser, documentId, "write")
+      if (documentResult.isErr()) {
+        return ApplicationResult.fromResult(documentResult)
+      }
+
+      const document = documentResult.unwrap()
+      const fileResult = await this.readUploadedFile(dto.data.file as UploadedFile, document.name)
+      if (fileResult.isErr()) {
+        return ApplicationResult.fromResult(fileResult)
+      }
+      const { fileBuffer, mimeType, size, contentHash } = fileResult.unwrap()
+
+      // The stored file is deleted again when the version can't be recorded
+      const versionResult = await Saga.run("version upload", async (saga): Promise<Result<DocumentVersionEntity, Error>> => {
+        const storeResult = await this.storeScannedFile(saga, fileBuffer, document.name, mimeType)
+        if (storeResult.isErr()) {
+          return storeResult
+        }
+        const { filePath, scanStatus } = storeResult.unwrap()
+
+        return this.recordNewVersion(saga, "document.version.upload", currentUser, document, {
+          filePath,
+          mimeType,
+          size,
+          contentHash,
+          scanStatus,
+        }, fileBuffer)
+      })
+
+      return ApplicationResult.fromResult(versionResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to upload document version"))
+      )
+    }
+  }
+
+  /**
+   * Get the version history of a document (newest first)
+   */
+  async getDocumentVersions(currentUser: UserEntity, documentId: string): Promise<ApplicationResult<DocumentVersionEntity[]>> {
+    try {
+      const documentResult = await this.authorize(currentUser, documentId, "read")
+      if (documentResult.isErr()) {
+        return ApplicationResult.fromResult(documentResult)
+      }
+
+      const versionsResult = await this.documentVersionRepository.findByDocumentId(documentId as DocumentType["id"])
+      return ApplicationResult.fromResult(versionsResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to get document versions"))
+      )
+    }
+  }
+
+  /**
+   * Get the text extracted from the current file of a document, with the status of the extraction
+   */
+  async getDocumentContent(currentUser: UserEntity, documentId: string): Promise<ApplicationResult<DocumentContentEntity>> {
+    try {
+      const documentResult = await this.authorize(currentUser, documentId, "read")
+      if (documentResult.isErr()) {
+        return ApplicationResult.fromResult(documentResult)
+      }
+
+      const document = documentResult.unwrap()
+      if (!document.isClean()) {
+        return ApplicationResult.fromResult(Result.Err(new DocumentNotCleanError(document.id, document.scanStatus)))
+      }
+
+      const contentResult = await this.documentContentRepository.findByDocumentId(documentId as DocumentType["id"])
+      return ApplicationResult.fromResult(contentResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to get document content"))
+      )
+    }
+  }
+
+  /**
+   * Get the thumbnail of an image closest to the requested size (in pixels of its longest edge).
+   * Images uploaded before renditions existed get theirs on the first request.
+   */
+  async getDocumentThumbnail(
+    currentUser: UserEntity,
+    documentId: string,
+    size?: number
+  ): Promise<ApplicationResult<DocumentThumbnail>> {
+    try {
+      const documentResult = await this.authorize(currentUser, documentId, "read")
+      if (documentResult.isErr()) {
+        return ApplicationResult.fromResult(documentResult)
+      }
+
+      const document = documentResult.unwrap()
+      if (!document.isClean()) {
+        return ApplicationResult.fromResult(Result.Err(new DocumentNotCleanError(document.id, document.scanStatus)))
+      }
+
+      const renditionsResult = await this.documentRenditionRepository.findByDocumentId(document.id)
+      if (renditionsResult.isErr()) {
+        return ApplicationResult.fromResult(renditionsResult)
+      }
+
+      let renditions = renditionsResult.unwrap()
+      if (renditions.length === 0 && document.isImage()) {
+        renditions = await this.generateRenditions(document)
+      }
+
+      const rendition = DocumentRenditionEntity.closestTo(renditions, size)
+      if (!rendition) {
+        return ApplicationResult.fromResult(Result.Err(new DocumentRenditionNotFoundError(document.id)))
+      }
+
+      const fileResult = await this.storageService.download(rendition.filePath)
+      if (fileResult.isErr()) {
+        return ApplicationResult.fromResult(
+          Result.Err(new Error(`Failed to download thumbnail: ${fileResult.unwrapErr().message}`))
+        )
+      }
+
+      return ApplicationResult.fromResult(Result.Ok({ rendition, file: fileResult.unwrap() }))
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to get document thumbnail"))
+      )
+    }
+  }
+
+  /**
+   * Restore an earlier version - recorded as a new version so the history is never rewritten
+   */
+  async restoreDocumentVersion(
+    currentUser: UserEntity,
+    documentId: string,
+    versionId: string
+  ): Promise<ApplicationResult<DocumentVersionEntity>> {
+    try {
+      const documentResult = await this.authorizeChange(currentUser, documentId, "write")
+      if (documentResult.isErr()) {
+        return ApplicationResult.fromResult(documentResult)
+      }
+
+      const versionResult = await this.findDocumentVersion(documentId, versionId)
+      if (versionResult.isErr()) {
+        return ApplicationResult.fromResult(versionResult)
+      }
+
+      const version = versionResult.unwrap()
+      // The file stays shared with the restored version, so it is only flagged when infected
+      const { scanStatus } = await this.scanStoredFile(version.filePath, false)
+
+      const restoreResult = await Saga.run("version restore", (saga) =>
+        this.recordNewVersion(saga, "document.version.restore", currentUser, documentResult.unwrap(), {
+          filePath: version.filePath,
+          mimeType: version.mimeType,
+          size: version.size,
+          contentHash: version.contentHash,
+          scanStatus,
+        })
+      )
+
+      return ApplicationResult.fromResult(restoreResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to restore document version"))
+      )
+    }
+  }
+
+  /**
+   * List the users granted access to a document (requires manage access)
+   */
+  async getDocumentPermissions(
+    currentUser: UserEntity,
+    documentId: string
+  ): Promise<ApplicationResult<DocumentPermissionEntity[]>> {
+    try {
+      const documentResult = await this.authorize(currentUser, documentId, "manage")
+      if (documentResult.isErr()) {
+        return ApplicationResult.fromResult(documentResult)
+      }
+
+      const permissionsResult = await this.documentPermissionRepository.findByDocumentId(documentResult.unwrap().id)
+      return ApplicationResult.fromResult(permissionsResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to get document permissions"))
+      )
+    }
+  }
+
+  /**
+   * Grant a user access to a document, replacing any level they were granted before (requires manage access)
+   */
+  async grantDocumentPermission(
+    currentUser: UserEntity,
+    documentId: string,
+    dto: GrantDocumentPermissionDto
+  ): Promise<ApplicationResult<DocumentPermissionEntity>> {
+    try {
+      const documentResult = await this.authorize(currentUser, documentId, "manage")
+      if (documentResult.isErr()) {
+        return ApplicationResult.fromResult(documentResult)
+      }
+
+      const document = documentResult.unwrap()
+      const userId = dto.data.userId as UserType["id"]
+
+      const existingResult = await this.documentPermissionRepository.findByDocumentAndUser(document.id, userId)
+      const permission = existingResult.isOk()
+        ? existingResult.unwrap().changeLevel(dto.data.level, currentUser.id)
+        : DocumentPermissionEntity.create({
+            documentId: document.id,
+            userId,
+            level: dto.data.level,
+            grantedBy: currentUser.id,
+          })
+
+      const saveResult = await this.documentPermissionRepository.upsert(permission)
+      if (saveResult.isOk()) {
+        const previous = existingResult.isOk() ? existingResult.unwrap() : undefined
+        await this.auditLogger.record({
+          action: "document.permission.grant",
+          actor: currentUser,
+          targetType: "document",
+          targetId: document.id,
+          before: { permission: previous ? { userId, level: previous.level } : null },
+          after: { permission: { userId, level: permission.level } },
+        })
+      }
+
+      return ApplicationResult.fromResult(saveResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to grant document permission"))
+      )
+    }
+  }
+
+  /**
+   * Revoke a user's access to a document (requires manage access)
+   */
+  async revokeDocumentPermission(
+    currentUser: UserEntity,
+    documentId: string,
+    userId: string
+  ): Promise<ApplicationResult<{ success: boolean; message: string }>> {
+    try {
+      const documentResult = await this.authorize(currentUser, documentId, "manage")
+      if (documentResult.isErr()) {
+        return ApplicationResult.fromResult(documentResult)
+      }
+
+      const revokeResult = await this.documentPermissionRepository.revoke(
+        documentResult.unwrap().id,
+        userId as UserType["id"]
+      )
+      if (revokeResult.isOk()) {
+        await this.auditLogger.record({
+          action: "document.permission.revoke",
+          actor: currentUser,
+          targetType: "document",
+          targetId: documentResult.unwrap().id,
+          before: { permission: { userId } },
+          after: { permission: null },
+        })
+      }
+
+      return ApplicationResult.fromResult(
+        revokeResult.map(() => ({
+          success: true,
+          message: "Document permission revoked successfully"
+        }))
+      )
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to revoke document permission"))
+      )
+    }
+  }
+
+  /**
+   * Check a document out - until it is checked in or the checkout lapses, nobody else can change it
+   * (requires write access). Checking out a document the caller already holds extends the checkout.
+   */
+  async checkoutDocument(
+    currentUser: UserEntity,
+    documentId: string,
+    dto: CheckoutDocumentDto
+  ): Promise<ApplicationResult<DocumentEntity>> {
+    try {
+      const documentResult = await this.authorize(currentUser, documentId, "write")
+      if (documentResult.isErr()) {
+        return ApplicationResult.fromResult(documentResult)
+      }
+
+      const document = documentResult.unwrap()
+      const expiresInMinutes = dto.data.expiresInMinutes ?? DEFAULT_CHECKOUT_MINUTES
+      const expiresAt = new Date(Date.now() + expiresInMinutes * 60 * 1000)
+
+      const lockResult = await this.documentRepository.saveCheckout(
+        document.checkOut(currentUser.id, expiresAt),
+        currentUser.id
+      )
+      if (lockResult.isOk()) {
+        await this.audit("document.checkout", currentUser, { before: document, after: lockResult.unwrap() })
+      }
+
+      return ApplicationResult.fromResult(lockResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to check out document"))
+      )
+    }
+  }
+
+  /**
+   * Check a document in again (requires write access) - only the user holding the checkout can
+   */
+  async checkinDocument(currentUser: UserEntity, documentId: string): Promise<ApplicationResult<DocumentEntity>> {
+    try {
+      const documentResult = await this.authorizeChange(currentUser, documentId, "write")
+      if (documentResult.isErr()) {
+        return ApplicationResult.fromResult(documentResult)
+      }
+
+      // Nothing to check in
+      const document = documentResult.unwrap()
+      if (document.lockedBy === undefined) {
+        return ApplicationResult.fromResult(Result.Ok(document))
+      }
+
+      const unlockResult = await this.documentRepository.saveCheckout(document.checkIn(), currentUser.id)
+      if (unlockResult.isOk()) {
+        await this.audit("document.checkin", currentUser, { before: document, after: unlockResult.unwrap() })
+      }
+
+      return ApplicationResult.fromResult(unlockResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to check in document"))
+      )
+    }
+  }
+
+  /**
+   * Break someone's checkout of a document, recording why in the audit log (admin only)
+   */
+  async breakDocumentLock(
+    currentUser: UserEntity,
+    documentId: string,
+    dto: BreakDocumentLockDto
+  ): Promise<ApplicationResult<DocumentEntity>> {
+    try {
+      // Domain-level RBAC guard
+      if (!currentUser.isAdmin()) {
+        return ApplicationResult.fromResult(
+          Result.Err(new Error("Insufficient permissions: Admin access required"))
+        )
+      }
+
+      const documentResult = await this.authorize(currentUser, documentId, "manage")
+      if (documentResult.isErr()) {
+        return ApplicationResult.fromResult(documentResult)
+      }
+
+      // Nothing to break - a lapsed checkout no longer locks the document
+      const document = documentResult.unwrap()
+      if (!document.isLocked()) {
+        return ApplicationResult.fromResult(Result.Ok(document))
+      }
+
+      const unlockResult = await this.documentRepository.saveCheckout(document.checkIn())
+      if (unlockResult.isOk()) {
+        await this.auditLogger.record({
+          action: "document.lock.break",
+          actor: currentUser,
+          targetType: "document",
+          targetId: document.id,
+          before: auditSnapshot(document),
+          after: { ...auditSnapshot(unlockResult.unwrap()), reason: dto.data.reason },
+        })
+      }
+
+      return ApplicationResult.fromResult(unlockResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to break document lock"))
+      )
+    }
+  }
+
+  /**
+   * Start a resumable upload - the document is only created once every byte has arrived
+   */
+  async createUpload(currentUser: UserEntity, dto: CreateDocumentUploadDto): Promise<ApplicationResult<DocumentUploadEntity>> {
+    try {
+      const folderId = dto.data.folderId as FolderType["id"] | undefined
+      const policyResult = await this.checkNewUpload(dto.data.name, dto.data.mimeType, dto.data.size, folderId)
+      if (policyResult.isErr()) {
+        return ApplicationResult.fromResult(policyResult)
+      }
+
+      const { tags, metadata } = this.parseFormFields(dto.data.tags, dto.data.metadata)
+
+      const upload = DocumentUploadEntity.create({
+        name: dto.data.name,
+        mimeType: policyResult.unwrap(),
+        size: dto.data.size,
+        tags,
+        metadata,
+        folderId,
+        ownerId: currentUser.id,
+      })
+
+      const createResult = await this.documentUploadRepository.create(upload)
+      return ApplicationResult.fromResult(createResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to create upload"))
+      )
+    }
+  }
+
+  /**
+   * Start a direct upload: the client uploads the file straight to storage through the returned
+   * URL, then finalizes the upload to create the document. Needs a backend that issues upload URLs
+   */
+  async createDirectUpload(
+    currentUser: UserEntity,
+    dto: CreateDirectUploadDto,
+    expiresInMinutes: number = 15
+  ): Promise<ApplicationResult<DirectUpload>> {
+    try {
+      const folderId = dto.data.folderId as FolderType["id"] | undefined
+      const policyResult = await this.checkNewUpload(dto.data.name, dto.data.mimeType, dto.data.size, folderId)
+      if (policyResult.isErr()) {
+        return ApplicationResult.fromResult(policyResult)
+      }
+      const mimeType = policyResult.unwrap()
+
+      const targetResult = await this.storageService.createUploadUrl(dto.data.name, mimeType, dto.data.size, expiresInMinutes * 60)
+      if (targetResult.isErr()) {
+        return ApplicationResult.fromResult(
+          Result.Err(new DocumentUploadError(targetResult.unwrapErr().message))
+        )
+      }
+      const target = targetResult.unwrap()
+
+      const upload = DocumentUploadEntity.create({
+        name: dto.data.name,
+        mimeType,
+        size: dto.data.size,
+        tags: dto.data.tags,
+        metadata: dto.data.metadata,
+        folderId,
+        ownerId: currentUser.id,
+        filePath: target.filePath,
+      })
+
+      const createResult = await this.documentUploadRepository.create(upload)
+      return ApplicationResult.fromResult(createResult.map(created => ({ upload: created, target })))
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to create direct upload"))
+      )
+    }
+  }
+
+  /**
+   * Create the document from the file the client uploaded directly. The file gets the checks every
+   * upload gets, and stays in place when the document can't be created, so finalizing can be retried.
+   * Finalizing an upload again returns its document
+   */
+  async finalizeDirectUpload(currentUser: UserEntity, uploadId: string): Promise<ApplicationResult<DocumentEntity>> {
+    try {
+      const uploadResult = await this.findOwnUpload(currentUser, uploadId)
+      if (uploadResult.isErr()) {
+        return ApplicationResult.fromResult(uploadResult)
+      }
+
+      const upload = uploadResult.unwrap()
+      if (!upload.filePath) {
+        return ApplicationResult.fromResult(
+          Result.Err(new DocumentUploadError("Resumable uploads are finalized by their last chunk", { uploadId }))
+        )
+      }
+      if (upload.documentId) {
+        return ApplicationResult.fromResult(await this.documentRepository.findById(upload.documentId))
+      }
+
+      const infoResult = await this.storageService.getFileInfo(upload.filePath)
+      if (infoResult.isErr()) {
+        return ApplicationResult.fromResult(
+          Result.Err(new DocumentUploadError("The file has not been uploaded yet", { uploadId }))
+        )
+      }
+      if (infoResult.unwrap().size !== upload.size) {
+        return ApplicationResult.fromResult(
+          Result.Err(new DocumentUploadError(
+            `Expected ${upload.size} bytes, but ${infoResult.unwrap().size} were uploaded`,
+            { uploadId },
+          ))
+        )
+      }
+
+      const policyResult = await this.checkStoredFile(upload, upload.filePath)
+      if (policyResult.isErr()) {
+        // Uploading the same bytes again can't help, so the upload goes with the file
+        await this.storageService.delete(upload.filePath)
+        await this.discardUpload(upload)
+        return ApplicationResult.fromResult(Result.Err(policyResult.unwrapErr()))
+      }
+
+      const hashResult = await this.hashStoredFile(upload.filePath)
+      if (hashResult.isErr()) {
+        return ApplicationResult.fromResult(hashResult)
+      }
+
+      const scan = await this.scanStoredFile(upload.filePath, true)
+      const createResult = await Saga.run("direct upload finalization", (saga) => {
+        // Infected files moved to quarantine can't be finalized again, so they go
+        if (scan.filePath !== upload.filePath) {
+          saga.onCompensate("quarantine the file", () => this.storageService.delete(scan.filePath))
+        }
+
+        return this.createDocumentWithFile(saga, currentUser, undefined, {
+          name: upload.name,
+          filePath: scan.filePath,
+          mimeType: policyResult.unwrap(),
+          size: upload.size,
+          contentHash: hashResult.unwrap(),
+          scanStatus: scan.scanStatus,
+          tags: upload.tags,
+          metadata: upload.metadata,
+          folderId: upload.folderId,
+        })
+      })
+      if (createResult.isErr()) {
+        return ApplicationResult.fromResult(createResult)
+      }
+
+      const document = createResult.unwrap()
+      const updateResult = await this.documentUploadRepository.update(upload.finalize(document.id))
+      return ApplicationResult.fromResult(updateResult.map(() => document))
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to finalize direct upload"))
+      )
+    }
+  }
+
+  /**
+   * Get a resumable upload - uploads of other users are not found
+   */
+  async getUpload(currentUser: UserEntity, uploadId: string): Promise<ApplicationResult<DocumentUploadEntity>> {
+    try {
+      const uploadResult = await this.findOwnUpload(currentUser, uploadId)
+      return ApplicationResult.fromResult(uploadResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to get upload"))
+      )
+    }
+  }
+
+  /**
+   * Append a chunk at `offset`; the chunk that completes the upload turns it into a document.
+   * Sending an empty chunk at the end retries a finalization that failed.
+   */
+  async appendUploadChunk(
+    currentUser: UserEntity,
+    uploadId: string,
+    offset: number,
+    chunk: Buffer
+  ): Promise<ApplicationResult<DocumentUploadEntity>> {
+    try {
+      const uploadResult = await this.findOwnUpload(currentUser, uploadId)
+      if (uploadResult.isErr()) {
+        return ApplicationResult.fromResult(uploadResult)
+      }
+
+      let upload = uploadResult.unwrap()
+      if (upload.isDirect()) {
+        return ApplicationResult.fromResult(
+          Result.Err(new DocumentUploadError("Direct uploads are sent to storage and finalized instead", { uploadId }))
+        )
+      }
+      if (offset !== upload.offset) {
+        return ApplicationResult.fromResult(
+          Result.Err(new DocumentUploadOffsetMismatchError(upload.id, upload.offset, offset))
+        )
+      }
+      if (!upload.fits(offset, chunk.length)) {
+        return ApplicationResult.fromResult(
+          Result.Err(new DocumentUploadError(`Chunk exceeds the upload length of ${upload.size} bytes`, { uploadId }))
+        )
+      }
+
+      if (chunk.length > 0) {
+        const stageResult = await this.storageService.stageChunk(upload.id, offset, chunk)
+        if (stageResult.isErr()) {
+          return ApplicationResult.fromResult(
+            Result.Err(new Error(`Failed to store chunk: ${stageResult.unwrapErr().message}`))
+          )
+        }
+
+        const updateResult = await this.documentUploadRepository.update(upload.advance(chunk.length))
+        if (updateResult.isErr()) {
+          return ApplicationResult.fromResult(updateResult)
+        }
+        upload = updateResult.unwrap()
+      }
+
+      if (!upload.isComplete() || upload.isFinalized()) {
+        return ApplicationResult.fromResult(Result.Ok(upload))
+      }
+
+      const finalizeResult = await this.finalizeUpload(currentUser, upload)
+      return ApplicationResult.fromResult(finalizeResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to append upload chunk"))
+      )
+    }
+  }
+
+  /**
+   * Abort a resumable upload and discard whatever was received
+   */
+  async terminateUpload(
+    currentUser: UserEntity,
+    uploadId: string
+  ): Promise<ApplicationResult<{ success: boolean; message: string }>> {
+    try {
+      const uploadResult = await this.findOwnUpload(currentUser, uploadId)
+      if (uploadResult.isErr()) {
+        return ApplicationResult.fromResult(uploadResult)
+      }
+
+      const deleteResult = await this.discardUpload(uploadResult.unwrap())
+      return ApplicationResult.fromResult(
+        deleteResult.map(() => ({ success: true, message: "Upload terminated" }))
+      )
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to terminate upload"))
+      )
+    }
+  }
+
+  /**
+   * Discard unfinished uploads that received nothing since the cutoff (used by the scheduled cleanup)
+   */
+  async purgeStaleUploads(cutoff: Date): Promise<ApplicationResult<{ purged: number; failed: number }>> {
+    try {
+      const staleResult = await this.documentUploadRepository.findStaleBefore(cutoff)
+      if (staleResult.isErr()) {
+        return ApplicationResult.fromResult(staleResult)
+      }
+
+      let purged = 0
+      let failed = 0
+
+      for (const upload of staleResult.unwrap()) {
+        const deleteResult = await this.discardUpload(upload)
+        if (deleteResult.isErr()) {
+          console.error(`Failed to purge upload ${upload.id}:`, deleteResult.unwrapErr())
+          failed++
+        } else {
+          purged++
+        }
+      }
+
+      return ApplicationResult.fromResult(Result.Ok({ purged, failed }))
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(error instanceof Error ? error : new Error("Failed to purge stale uploads"))
+      )
+    }
+  }
+
+  /**
+   * Assemble the staged chunks into a file and create the document from it. The chunks are only
+   * discarded once the document exists, so a failed attempt can be retried.
+   */
+  private async finalizeUpload(
+    currentUser: UserEntity,
+    upload: DocumentUploadEntity
+  ): Promise<Result<DocumentUploadEntity, Error>> {
+    const assembleResult = await this.storageService.assembleChunks(upload.id, upload.name, upload.mimeType)
+    if (assembleResult.isErr()) {
+      return Result.Err(new Error(`Failed to assemble upload: ${assembleResult.unwrapErr().message}`))
+    }
+
+    const { filePath, contentHash } = assembleResult.unwrap()
+    const policyResult = await this.checkStoredFile(upload, filePath)
+    if (policyResult.isErr()) {
+      // Sending the same bytes again can't help, so the upload goes with the file
+      await this.storageService.delete(filePath)
+      await this.discardUpload(upload)
+      return Result.Err(policyResult.unwrapErr())
+    }
+
+    const scan = await this.scanStoredFile(filePath, true)
+    // The chunks stay for a retry, but the assembled file is deleted again
+    const createResult = await Saga.run("upload finalization", (saga) => {
+      saga.onCompensate("assemble the file", () => this.storageService.delete(scan.filePath))
+
+      return this.createDocumentWithFile(saga, currentUser, undefined, {
+        name: upload.name,
+        filePath: scan.filePath,
+        mimeType: policyResult.unwrap(),
+        size: upload.size,
+        contentHash,
+        scanStatus: scan.scanStatus,
+        tags: upload.tags,
+        metadata: upload.metadata,
+        folderId: upload.folderId,
+      })
+    })
+    if (createResult.isErr()) {
+      return createResult
+    }
+
+    const discardResult = await this.storageService.discardChunks(upload.id)
+    if (discardResult.isErr()) {
+      // The document is complete either way - leftover chunks only cost space
+      console.error(`Failed to discard chunks of upload ${upload.id}:`, discardResult.unwrapErr())
+    }
+
+    return this.documentUploadRepository.update(upload.finalize(createResult.unwrap().id))
+  }
+
+  /**
+   * Check the signature of an assembled upload against the upload policy
+   */
+  private async checkStoredFile(upload: DocumentUploadEntity, filePath: string): Promise<Result<string, Error>> {
+    let head = Buffer.alloc(0)
+    if (upload.size > 0) {
+      const streamResult = await this.storageService.createReadStream(filePath, {
+        start: 0,
+        end: Math.min(upload.size, SNIFF_LENGTH) - 1,
+      })
+      if (streamResult.isErr()) {
+        return Result.Err(streamResult.unwrapErr())
+      }
+      head = Buffer.from(await new Response(streamResult.unwrap()).arrayBuffer())
+    }
+
+    return this.uploadPolicyService.check({
+      name: upload.name,
+      declaredType: upload.mimeType,
+      size: upload.size,
+      head,
+    })
+  }
+
+  /**
+   * Store an uploaded file and scan it. The file is deleted again - from the quarantine area, if
+   * that's where the scan moved it - when the saga fails afterwards.
+   */
+  private async storeScannedFile(
+    saga: Saga,
+    file: Buffer,
+    name: string,
+    mimeType: string
+  ): Promise<Result<StoredFile, Error>> {
+    const uploadResult = await this.storageService.upload(file, name, mimeType)
+    if (uploadResult.isErr()) {
+      return Result.Err(new Error(`Failed to upload file: ${uploadResult.unwrapErr().message}`))
+    }
+
+    const scan = await this.scanStoredFile(uploadResult.unwrap(), true)
+    saga.onCompensate("store the file", () => this.storageService.delete(scan.filePath))
+
+    return Result.Ok(scan)
+  }
+
+  /**
+   * Scan a stored file for malware. Files nothing else refers to yet (fresh uploads) move to the
+   * quarantine area when infected. Scanner failures are recorded as "error" rather than failing
+   * the upload, and the scan retry job tries again later - until then the file isn't served.
+   */
+  private async scanStoredFile(filePath: string, quarantine: boolean): Promise<StoredFile> {
+    if (this.storageService.isQuarantined(filePath)) {
+      return { filePath, scanStatus: "infected" }
+    }
+
+    const streamResult = await this.storageService.createReadStream(filePath)
+    const verdictResult = streamResult.isOk()
+      ? await this.contentScanner.scan(streamResult.unwrap())
+      : Result.Err(streamResult.unwrapErr())
+    if (verdictResult.isErr()) {
+      console.error(`Failed to scan ${filePath} with ${this.contentScanner.name}:`, verdictResult.unwrapErr())
+      return { filePath, scanStatus: "error" }
+    }
+
+    const verdict = verdictResult.unwrap()
+    if (verdict.status === "clean") {
+      return { filePath, scanStatus: "clean" }
+    }
+
+    console.warn(`Malware found in ${filePath} by ${this.contentScanner.name}: ${verdict.signature}`)
+    if (!quarantine) {
+      return { filePath, scanStatus: "infected" }
+    }
+
+    const quarantineResult = await this.storageService.quarantine(filePath)
+    if (quarantineResult.isErr()) {
+      // The document is flagged either way, so the file is never served
+      console.error(`Failed to quarantine ${filePath}:`, quarantineResult.unwrapErr())
+      return { filePath, scanStatus: "infected" }
+    }
+
+    return { filePath: quarantineResult.unwrap(), scanStatus: "infected" }
+  }
+
+  /**
+   * Check a new upload before any bytes are sent rather than after the last one - the folder, the
+   * name (no document exists yet, so any match conflicts) and the upload policy. The content can
+   * only be checked once it has arrived. Resolves to the accepted MIME type
+   */
+  private async checkNewUpload(
+    name: string,
+    mimeType: string | undefined,
+    size: number,
+    folderId: FolderType["id"] | undefined
+  ): Promise<Result<string, Error>> {
+    if (folderId) {
+      const folderResult = await this.folderRepository.findById(folderId)
+      if (folderResult.isErr()) {
+        return Result.Err(new FolderNotFoundError(folderId))
+      }
+    }
+
+    const nameResult = await this.ensureNameAvailable("", name, folderId)
+    if (nameResult.isErr()) {
+      return Result.Err(nameResult.unwrapErr())
+    }
+
+    return this.uploadPolicyService.check({ name, declaredType: mimeType, size })
+  }
+
+  /**
+   * Delete the staged chunks of an upload - or the file of an unfinished direct upload - then the
+   * upload itself
+   */
+  private async discardUpload(upload: DocumentUploadEntity): Promise<Result<void, Error>> {
+    const discardResult = upload.filePath
+      ? upload.isFinalized()
+        ? Result.Ok(false)
+        : await this.storageService.delete(upload.filePath)
+      : await this.storageService.discardChunks(upload.id)
+    if (discardResult.isErr()) {
+      return Result.Err(discardResult.unwrapErr())
+    }
+
+    return this.documentUploadRepository.delete(upload.id)
+  }
+
+  /**
+   * Find an upload of the current user, treating uploads of other users as not found
+   */
+  private async findOwnUpload(
+    currentUser: UserEntity,
+    uploadId: string
+  ): Promise<Result<DocumentUploadEntity, Error>> {
+    const id = uploadId as DocumentUploadType["id"]
+    const uploadResult = await this.documentUploadRepository.findById(id)
+    if (uploadResult.isErr() || !uploadResult.unwrap().isOwnedBy(currentUser.id)) {
+      return Result.Err(new DocumentUploadNotFoundError(id))
+    }
+
+    return uploadResult
+  }
+
+  /**
+   * Save a new document owned by the current user and record its file as version 1. The file
+   * content is read back from storage for extraction and renditions when it isn't at hand. The
+   * document is purged again when the saga fails afterwards.
+   */
+  private async createDocumentWithFile(
+    saga: Saga,
+    currentUser: UserEntity,
+    file: Buffer | undefined,
+    data: Omit<NewDocumentType, "ownerId">
+  ): Promise<Result<DocumentEntity, Error>> {
+    const document = DocumentEntity.create({ ...data, ownerId: currentUser.id })
+
+    const saveResult = await saga.step(
+      "save the document",
+      () => this.documentRepository.create(document),
+      (saved) => this.documentRepository.delete(saved.purge())
+    )
+    if (saveResult.isErr()) {
+      return saveResult
+    }
+
+    const versionResult = await this.documentVersionRepository.create(
+      DocumentVersionEntity.create({
+        documentId: document.id,
+        versionNumber: 1,
+        filePath: document.filePath,
+        mimeType: document.mimeType,
+        size: document.size,
+        contentHash: document.contentHash,
+        createdBy: currentUser.id,
+      })
+    )
+
+    if (versionResult.isErr()) {
+      return Result.Err(versionResult.unwrapErr())
+    }
+
+    await this.extractContent(document, file)
+    await this.generateRenditions(document, file)
+    await this.audit("document.upload", currentUser, { after: document })
+
+    return Result.Ok(document)
+  }
+
+  /**
+   * Parse the comma-separated tags and JSON metadata sent alongside uploads
+   */
+  private parseFormFields(
+    rawTags?: string,
+    rawMetadata?: string
+  ): { tags?: string[]; metadata?: Record<string, string> } {
+    const tags = rawTags ? rawTags.split(',').map(t => t.trim()).filter(t => t.length > 0) : undefined
+    const metadata = rawMetadata ? JSON.parse(rawMetadata) : undefined
+
+    return { tags, metadata }
+  }
+
+  /**
+   * Delete every file in the version history and every rendition, then the row itself. Files
+   * shared with duplicates linked to them stay for the other documents. The document is marked
+   * pending_delete first, which takes it out of the trash; if a file can't be deleted it stays
+   * that way - files can't be brought back - and the deletion retry job finishes the purge.
+   * Resolves to whether the document is gone. A user purging it must not be locked out by a checkout.
+   */
+  private async destroyDocument(document: DocumentEntity, userId?: UserType["id"]): Promise<Result<boolean, Error>> {
+    const pendingResult = document.isPendingDelete()
+      ? Result.Ok<DocumentEntity, Error>(document)
+      : await this.documentRepository.update(document.markPendingDelete(), document.version, userId)
+    if (pendingResult.isErr()) {
+      return Result.Err(pendingResult.unwrapErr())
+    }
+
+    // Restored versions share a file path
+    const versionsResult = await this.documentVersionRepository.findByDocumentId(document.id)
+    const versionPaths = versionsResult.isOk() ? versionsResult.unwrap().map(v => v.filePath) : []
+    const renditionsResult = await this.documentRenditionRepository.findByDocumentId(document.id)
+    const renditionPaths = renditionsResult.isOk() ? renditionsResult.unwrap().map(r => r.filePath) : []
+    const filePaths = new Set([document.filePath, ...versionPaths, ...renditionPaths])
+
+    let failed = 0
+    for (const filePath of filePaths) {
+      const sharedResult = await this.documentVersionRepository.isFileShared(filePath, document.id)
+      if (sharedResult.isErr()) {
+        // A file that may still be in use is kept rather than risk losing it
+        console.error("Failed to check whether the file is shared:", sharedResult.unwrapErr())
+        failed++
+        continue
+      }
+      if (sharedResult.unwrap()) {
+        continue
+      }
+
+      const deleteFileResult = await this.storageService.delete(filePath)
+      if (deleteFileResult.isErr()) {
+        console.error("Failed to delete file from storage:", deleteFileResult.unwrapErr())
+        failed++
+      }
+    }
+
+    if (failed > 0) {
+      console.error(`Document ${document.id} stays pending deletion, ${failed} file(s) are left`)
+      return Result.Ok(false)
+    }
+
+    return (await this.documentRepository.delete(pendingResult.unwrap().purge())).map(() => true)
+  }
+
+  /**
+   * Append a version to the history and point the document at its file. The version is removed
+   * again when the saga fails afterwards.
+   */
+  private async recordNewVersion(
+    saga: Saga,
+    action: "document.version.upload" | "document.version.restore",
+    currentUser: UserEntity,
+    document: DocumentEntity,
+    fileInfo: { filePath: string; mimeType: string; size: number; contentHash?: string; scanStatus: ScanStatus },
+    file?: Buffer
+  ): Promise<Result<DocumentVersionEntity, Error>> {
+    const versionsResult = await this.documentVersionRepository.findByDocumentId(document.id)
+    if (versionsResult.isErr()) {
+      return Result.Err(versionsResult.unwrapErr())
+    }
+
+    const { scanStatus: _, ...versionFile } = fileInfo
+    const version = DocumentVersionEntity.create({
+      documentId: document.id,
+      versionNumber: DocumentVersionEntity.nextVersionNumber(versionsResult.unwrap()),
+      ...versionFile,
+      createdBy: currentUser.id,
+    })
+
+    const saveResult = await saga.step(
+      "record the version",
+      () => this.documentVersionRepository.create(version),
+      (saved) => this.documentVersionRepository.delete(saved.id)
+    )
+    if (saveResult.isErr()) {
+      return Result.Err(saveResult.unwrapErr())
+    }
+
+    // A file without a hash (uploaded before hashing) doesn't keep the previous file's hash
+    const updateResult = await this.documentRepository.update(document.replaceFile(fileInfo), document.version, currentUser.id)
+    if (updateResult.isErr()) {
+      return Result.Err(updateResult.unwrapErr())
+    }
+
+    await this.extractContent(updateResult.unwrap(), file)
+    await this.generateRenditions(updateResult.unwrap(), file)
+    await this.audit(action, currentUser, { before: document, after: updateResult.unwrap() })
+
+    return Result.Ok(saveResult.unwrap())
+  }
+
+  /**
+   * Extract the text of the current file of a document for search and previews, recording the
+   * outcome in its content row. Failures are recorded (or logged) rather than returned, as a file
+   * that can't be read as text is still a valid upload. A file not found clean stays pending until
+   * a rescan clears it.
+   */
+  private async extractContent(document: DocumentEntity, file?: Buffer): Promise<void> {
+    try {
+      const pending = DocumentContentEntity.create({ documentId: document.id })
+      if (!document.isClean()) {
+        await this.saveContent(pending)
+        return
+      }
+
+      const extractor = this.contentExtractionService.findExtractor(document.mimeType)
+      if (!extractor) {
+        await this.saveContent(pending.unsupported())
+        return
+      }
+
+      if (document.size > this.contentExtractionService.maxFileSize) {
+        await this.saveContent(
+          pending.failed(`Files over ${this.contentExtractionService.maxFileSize} bytes are not extracted`, extractor.name)
+        )
+        return
+      }
+
+      // Keeps the previous file's text from being served while the new one is extracted
+      await this.saveContent(pending)
+
+      const fileResult = file ? Result.Ok(file) : await this.readStoredFile(document.filePath)
+      if (fileResult.isErr()) {
+        await this.saveContent(pending.failed(`Failed to read file: ${fileResult.unwrapErr().message}`, extractor.name))
+        return
+      }
+
+      const extractResult = await this.contentExtractionService.extract(document.mimeType, fileResult.unwrap())
+      await this.saveContent(
+        extractResult.isOk()
+          ? pending.extracted(extractResult.unwrap().extractor, extractResult.unwrap().content)
+          : pending.failed(extractResult.unwrapErr().message, extractor.name)
+      )
+    } catch (error) {
+      console.error(`Failed to extract the content of document ${document.id}:`, error)
+    }
+  }
+
+  private async saveContent(content: DocumentContentEntity): Promise<void> {
+    const saveResult = await this.documentContentRepository.save(content)
+    if (saveResult.isErr()) {
+      throw saveResult.unwrapErr()
+    }
+  }
+
+  /**
+   * Replace the renditions of a document with thumbnails of its current file. Renditions of the
+   * previous file are removed even when the new one can't be rendered; failures are logged, as an
+   * image without thumbnails is still a valid upload. A file not found clean isn't rendered.
+   */
+  private async generateRenditions(document: DocumentEntity, file?: Buffer): Promise<DocumentRenditionEntity[]> {
+    try {
+      await this.deleteRenditions(document.id)
+
+      if (!document.isClean() || !document.isImage() || !this.renditionService.findDecoder(document.mimeType)) {
+        return []
+      }
+      if (document.size > this.renditionService.maxFileSize) {
+        return []
+      }
+
+      const fileResult = file ? Result.Ok(file) : await this.readStoredFile(document.filePath)
+      if (fileResult.isErr()) {
+        throw fileResult.unwrapErr()
+      }
+
+      const thumbnailsResult = await this.renditionService.generateThumbnails(document.mimeType, fileResult.unwrap())
+      if (thumbnailsResult.isErr()) {
+        throw thumbnailsResult.unwrapErr()
+      }
+
+      // Stored next to the original, named after it
+      const baseName = document.name.replace(/\.[^.]*$/, "")
+      const renditions: DocumentRenditionEntity[] = []
+
+      for (const thumbnail of thumbnailsResult.unwrap()) {
+        const uploadResult = await this.storageService.upload(
+          thumbnail.file,
+          `${baseName}_${thumbnail.size}px.png`,
+          thumbnail.mimeType
+        )
+        if (uploadResult.isErr()) {
+          throw uploadResult.unwrapErr()
+        }
+
+        const saveResult = await this.documentRenditionRepository.create(
+          DocumentRenditionEntity.create({
+            documentId: document.id,
+            size: thumbnail.size,
+            width: thumbnail.width,
+            height: thumbnail.height,
+            filePath: uploadResult.unwrap(),
+            mimeType: thumbnail.mimeType,
+            fileSize: thumbnail.file.length,
+          })
+        )
+        if (saveResult.isErr()) {
+          await this.storageService.delete(uploadResult.unwrap())
+          throw saveResult.unwrapErr()
+        }
+
+        renditions.push(saveResult.unwrap())
+      }
+
+      return renditions
+    } catch (error) {
+      console.error(`Failed to generate the renditions of document ${document.id}:`, error)
+      return []
+    }
+  }
+
+  /**
+   * Delete the rendition files of a document, then their rows
+   */
+  private async deleteRenditions(documentId: DocumentType["id"]): Promise<void> {
+    const renditionsResult = await this.documentRenditionRepository.findByDocumentId(documentId)
+    if (renditionsResult.isErr()) {
+      throw renditionsResult.unwrapErr()
+    }
+
+    for (const rendition of renditionsResult.unwrap()) {
+      const deleteFileResult = await this.storageService.delete(rendition.filePath)
+      if (deleteFileResult.isErr()) {
+        console.error("Failed to delete rendition from storage:", deleteFileResult.unwrapErr())
+      }
+    }
+
+    const deleteResult = await this.documentRenditionRepository.deleteByDocumentId(documentId)
+    if (deleteResult.isErr()) {
+      throw deleteResult.unwrapErr()
+    }
+  }
+
+  /**
+   * Read a whole stored file into memory
+   */
+  private async readStoredFile(filePath: string): Promise<Result<Buffer, Error>> {
+    const streamResult = await this.storageService.createReadStream(filePath)
+    if (streamResult.isErr()) {
+      return Result.Err(streamResult.unwrapErr())
+    }
+
+    return Result.Ok(Buffer.from(await new Response(streamResult.unwrap()).arrayBuffer()))
+  }
+
+  /**
+   * Hash a stored file as it is read, without holding all of it
+   */
+  private async hashStoredFile(filePath: string): Promise<Result<string, Error>> {
+    const streamResult = await this.storageService.createReadStream(filePath)
+    if (streamResult.isErr()) {
+      return Result.Err(streamResult.unwrapErr())
+    }
+
+    const hash = createHash("sha256")
+    for await (const chunk of streamResult.unwrap()) {
+      hash.update(chunk)
+    }
+    return Result.Ok(hash.digest("hex"))
+  }
+
+  /**
+   * Find a document the user can read whose current file has the given content
+   */
+  private async findReadableDuplicate(
+    currentUser: UserEntity,
+    contentHash: string
+  ): Promise<Result<DocumentEntity | undefined, Error>> {
+    const documentsResult = await this.documentRepository.find(
+      { contentHash, visibleTo: currentUser.isAdmin() ? undefined : currentUser.id },
+      { page: 1, limit: 1 }
+    )
+
+    return documentsResult.map(({ documents }) => documents[0])
+  }
+
+  /**
+   * Record an operation on a document in the audit log - system operations have no actor
+   */
+  private async audit(
+    action: AuditAction,
+    actor: UserEntity | undefined,
+    document: { before?: DocumentEntity; after?: DocumentEntity }
+  ): Promise<void> {
+    const { before, after } = document
+    const target = after ?? before
+    if (!target) {
+      return
+    }
+
+    await this.auditLogger.record({
+      action,
+      actor,
+      targetType: "document",
+      targetId: target.id,
+      before: before && auditSnapshot(before),
+      after: after && auditSnapshot(after),
+    })
+  }
+
+  private async auditDownload(download: DocumentDownload): Promise<void> {
+    const { document, version, requestedBy } = download
+
+    await this.auditLogger.record({
+      action: "document.download",
+      actor: requestedBy && { id: requestedBy },
+      targetType: "document",
+      targetId: document.id,
+      after: version ? { versionNumber: version.versionNumber } : undefined,
+    })
+  }
+
+  /**
+   * Load a document the current user may access at the given level, from the live documents or the trash.
+   * Documents the user cannot read at all are reported as not found so their existence doesn't leak.
+   */
+  private async authorize(
+    currentUser: UserEntity,
+    documentId: string,
+    level: DocumentPermissionLevel,
+    scope: "active" | "trash" = "active"
+  ): Promise<Result<DocumentEntity, Error>> {
+    const documentResult = scope === "trash"
+      ? await this.documentRepository.findDeletedById(documentId as DocumentType["id"])
+      : await this.documentRepository.findById(documentId as DocumentType["id"])
+    if (documentResult.isErr()) {
+      return Result.Err(new DocumentNotFoundError(documentId as DocumentType["id"]))
+    }
+
+    const document = documentResult.unwrap()
+    const granted = await this.effectivePermission(currentUser, document)
+
+    if (!granted) {
+      return Result.Err(new DocumentNotFoundError(document.id))
+    }
+    if (!DocumentPermissionEntity.satisfies(granted, level)) {
+      return Result.Err(new DocumentAccessDeniedError(document.id, level))
+    }
+
+    return Result.Ok(document)
+  }
+
+  /**
+   * authorize() for operations that change the document - they fail while someone else has it checked out
+   */
+  private async authorizeChange(
+    currentUser: UserEntity,
+    documentId: string,
+    level: DocumentPermissionLevel,
+    scope: "active" | "trash" = "active"
+  ): Promise<Result<DocumentEntity, Error>> {
+    const documentResult = await this.authorize(currentUser, documentId, level, scope)
+    if (documentResult.isOk() && documentResult.unwrap().isLockedAgainst(currentUser.id)) {
+      return Result.Err(new DocumentLockedError(documentResult.unwrap()))
+    }
+
+    return documentResult
+  }
+
+  /**
+   * Admins and owners can manage every document they see; everyone else gets what they were granted
+   */
+  private async effectivePermission(
+    currentUser: UserEntity,
+    document: DocumentEntity
+  ): Promise<DocumentPermissionLevel | undefined> {
+    if (currentUser.isAdmin() || document.isOwnedBy(currentUser.id)) {
+      return "manage"
+    }
+
+    const permissionResult = await this.documentPermissionRepository.findByDocumentAndUser(document.id, currentUser.id)
+    return permissionResult.isOk() ? permissionResult.unwrap().level : undefined
+  }
+
+  /**
+   * Fail if another document in the target folder already uses the name
+   */
+  private async ensureNameAvailable(
+    documentId: string,
+    name: string,
+    folderId: FolderType["id"] | undefined
+  ): Promise<Result<void, DocumentAlreadyExistsError>> {
+    const existingResult = await this.documentRepository.findByNameInFolder(name, folderId ?? null)
+    if (existingResult.isOk() && existingResult.unwrap().id !== documentId) {
+      return Result.Err(new DocumentAlreadyExistsError(name))
+    }
+
+    return Result.Ok(undefined)
+  }
+
+  /**
+   * Find a version, treating versions of other documents as not found
+   */
+  private async findDocumentVersion(
+    documentId: string,
+    versionId: string
+  ): Promise<Result<DocumentVersionEntity, Error>> {
+    const versionResult = await this.documentVersionRepository.findById(versionId as DocumentVersionType["id"])
+    if (versionResult.isErr() || !versionResult.unwrap().belongsTo(documentId)) {
+      return Result.Err(new DocumentVersionNotFoundError(versionId as DocumentVersionType["id"]))
+    }
+
+    return Result.Ok(versionResult.unwrap())
+  }
+
+  /**
+   * Helper method to convert an uploaded multipart file into a Buffer, checked against the upload
+   * policy
+   */
+  private async readUploadedFile(
+    fileData: UploadedFile,
+    fallbackName: string
+  ): Promise<Result<{ fileBuffer: Buffer; fileName: string; mimeType: string; size: number; contentHash: string }, Error>> {
+    let fileBuffer: Buffer
+    let fileName: string
+    let declaredType: string | undefined
+    let declaredSize: number | undefined
+    if (Buffer.isBuffer(fileData)) {
+      // Direct Buffer - checked first, since a Buffer's own `buffer` is its backing ArrayBuffer
+      fileBuffer = fileData
+      fileName = fallbackName
+    } else if (fileData instanceof File) {
+      // Web API File object
+      fileBuffer = Buffer.from(await fileData.arrayBuffer())
+      fileName = fileData.name || fallbackName
+      declaredType = fileData.type
+      declaredSize = fileData.size
+    } else if (Buffer.isBuffer(fileData?.buffer)) {
+      // An upload that already holds its bytes
+      fileBuffer = fileData.buffer
+      fileName = fileData.name || fileData.originalname || fallbackName
+      declaredType = fileData.type || fileData.mimetype
+      declaredSize = fileData.size
+    } else {
+      return Result.Err(new DocumentFileError("Unsupported file format"))
+    }
+
+    const policyResult = this.uploadPolicyService.check({
+      name: fallbackName,
+      fileName,
+      declaredType,
+      size: fileBuffer.length,
+      head: fileBuffer.subarray(0, SNIFF_LENGTH),
+    })
+    if (policyResult.isErr()) {
+      return Result.Err(policyResult.unwrapErr())
+    }
+
+    const mimeType = policyResult.unwrap()
+    const size = declaredSize || fileBuffer.length
+    const contentHash = createHash("sha256").update(fileBuffer).digest("hex")
+
+    return Result.Ok({ fileBuffer, fileName, mimeType, size, contentHash })
   }
 }
@@ -0,0 +1,350 @@
+import {
+  CreateFolderDto,
+  MoveFolderDto,
+  RenameFolderDto,
+} from "@application/dtos/folder.dto"
+import { ApplicationResult } from "@application/utils/application-result.utils"
+import { Result } from "@carbonteq/fp"
+import { DocumentEntity, DocumentRepository } from "@domain/document"
+import type { FolderParentId, FolderType } from "@domain/folder"
+import { FolderEntity, FolderRepository } from "@domain/folder"
+import {
+  FolderAlreadyExistsError,
+  FolderMoveError,
+  FolderNotEmptyError,
+  FolderNotFoundError,
+} from "@domain/folder/folder.errors"
+import { UserEntity } from "@domain/user"
+import { autoInjectable } from "tsyringe"
+
+export interface FolderContents {
+  folder?: FolderEntity // Undefined when listing the root
+  breadcrumbs: FolderEntity[] // From the root down to (and including) the listed folder
+  folders: FolderEntity[]
+  documents: DocumentEntity[]
+}
+
+@autoInjectable()
+export class FolderWorkflows {
+  constructor(
+    private readonly folderRepository: FolderRepository,
+    private readonly documentRepository: DocumentRepository,
+  ) {}
+
+  /**
+   * Create folder (admin only)
+   */
+  async createFolder(
+    currentUser: UserEntity,
+    dto: CreateFolderDto,
+  ): Promise<ApplicationResult<FolderEntity>> {
+    try {
+      // Domain-level RBAC guard
+      if (!currentUser.isAdmin()) {
+        return ApplicationResult.fromResult(
+          Result.Err(
+            new Error("Insufficient permissions: Admin access required"),
+          ),
+        )
+      }
+
+      const parentId = dto.data.parentId as FolderType["id"] | undefined
+      if (parentId) {
+        const parentResult = await this.folderRepository.findById(parentId)
+        if (parentResult.isErr()) {
+          return ApplicationResult.fromResult(
+            Result.Err(new FolderNotFoundError(parentId)),
+          )
+        }
+      }
+
+      const folder = FolderEntity.create({ name: dto.data.name, parentId })
+
+      const createResult = await this.folderRepository.create(folder)
+      return ApplicationResult.fromResult(createResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(
+          error instanceof Error ? error : new Error("Failed to create folder"),
+        ),
+      )
+    }
+  }
+
+  /**
+   * Get folder by ID
+   */
+  async getFolderById(id: string): Promise<ApplicationResult<FolderEntity>> {
+    try {
+      const folderResult = await this.folderRepository.findById(
+        id as FolderType["id"],
+      )
+      return ApplicationResult.fromResult(folderResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(
+          error instanceof Error ? error : new Error("Failed to get folder"),
+        ),
+      )
+    }
+  }
+
+  /**
+   * List the subfolders and documents of a folder (or of the root when folderId is null).
+   * Non-admins only see the documents they own or were granted access to.
+   */
+  async getFolderChildren(
+    currentUser: UserEntity,
+    folderId: string | null,
+  ): Promise<ApplicationResult<FolderContents>> {
+    try {
+      const parentId = folderId as FolderParentId
+
+      let folder: FolderEntity | undefined
+      let breadcrumbs: FolderEntity[] = []
+
+      if (parentId) {
+        const folderResult = await this.folderRepository.findById(parentId)
+        if (folderResult.isErr()) {
+          return ApplicationResult.fromResult(folderResult)
+        }
+        folder = folderResult.unwrap()
+
+        const ancestorsResult =
+          await this.folderRepository.findAncestors(parentId)
+        if (ancestorsResult.isErr()) {
+          return ApplicationResult.fromResult(ancestorsResult)
+        }
+        breadcrumbs = [...ancestorsResult.unwrap(), folder]
+      }
+
+      const foldersResult = await this.folderRepository.findChildren(parentId)
+      if (foldersResult.isErr()) {
+        return ApplicationResult.fromResult(foldersResult)
+      }
+
+      const documentsResult = await this.documentRepository.findByFolder(
+        parentId,
+        currentUser.isAdmin() ? undefined : currentUser.id,
+      )
+      if (documentsResult.isErr()) {
+        return ApplicationResult.fromResult(documentsResult)
+      }
+
+      return ApplicationResult.fromResult(
+        Result.Ok({
+          folder,
+          breadcrumbs,
+          folders: foldersResult.unwrap(),
+          documents: documentsResult.unwrap(),
+        }),
+      )
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(
+          error instanceof Error
+            ? error
+            : new Error("Failed to list folder contents"),
+        ),
+      )
+    }
+  }
+
+  /**
+   * Rename folder (admin only) - names are unique among siblings
+   */
+  async renameFolder(
+    currentUser: UserEntity,
+    id: string,
+    dto: RenameFolderDto,
+  ): Promise<ApplicationResult<FolderEntity>> {
+    try {
+      // Domain-level RBAC guard
+      if (!currentUser.isAdmin()) {
+        return ApplicationResult.fromResult(
+          Result.Err(
+            new Error("Insufficient permissions: Admin access required"),
+          ),
+        )
+      }
+
+      const folderResult = await this.folderRepository.findById(
+        id as FolderType["id"],
+      )
+      if (folderResult.isErr()) {
+        return ApplicationResult.fromResult(folderResult)
+      }
+
+      const folder = folderResult.unwrap()
+      const renamed = folder.rename(dto.data.name)
+
+      const conflictResult = await this.ensureNameAvailable(renamed)
+      if (conflictResult.isErr()) {
+        return ApplicationResult.fromResult(conflictResult)
+      }
+
+      const updateResult = await this.folderRepository.update(renamed)
+      return ApplicationResult.fromResult(updateResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(
+          error instanceof Error ? error : new Error("Failed to rename folder"),
+        ),
+      )
+    }
+  }
+
+  /**
+   * Move folder under another folder, or to the root (admin only)
+   */
+  async moveFolder(
+    currentUser: UserEntity,
+    id: string,
+    dto: MoveFolderDto,
+  ): Promise<ApplicationResult<FolderEntity>> {
+    try {
+      // Domain-level RBAC guard
+      if (!currentUser.isAdmin()) {
+        return ApplicationResult.fromResult(
+          Result.Err(
+            new Error("Insufficient permissions: Admin access required"),
+          ),
+        )
+      }
+
+      const folderResult = await this.folderRepository.findById(
+        id as FolderType["id"],
+      )
+      if (folderResult.isErr()) {
+        return ApplicationResult.fromResult(folderResult)
+      }
+
+      const folder = folderResult.unwrap()
+      const parentId = (dto.data.parentId ?? undefined) as
+        | FolderType["id"]
+        | undefined
+
+      // Collect the target's ancestry so the folder can't end up inside its own subtree
+      let ancestorIds: string[] = []
+      if (parentId) {
+        const parentResult = await this.folderRepository.findById(parentId)
+        if (parentResult.isErr()) {
+          return ApplicationResult.fromResult(parentResult)
+        }
+
+        const ancestorsResult =
+          await this.folderRepository.findAncestors(parentId)
+        if (ancestorsResult.isErr()) {
+          return ApplicationResult.fromResult(ancestorsResult)
+        }
+        ancestorIds = ancestorsResult.unwrap().map((ancestor) => ancestor.id)
+      }
+
+      if (!folder.canMoveUnder(parentId, ancestorIds)) {
+        return ApplicationResult.fromResult(
+          Result.Err(new FolderMoveError(folder.id)),
+        )
+      }
+
+      const moved = folder.moveTo(parentId)
+
+      const conflictResult = await this.ensureNameAvailable(moved)
+      if (conflictResult.isErr()) {
+        return ApplicationResult.fromResult(conflictResult)
+      }
+
+      const updateResult = await this.folderRepository.update(moved)
+      return ApplicationResult.fromResult(updateResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(
+          error instanceof Error ? error : new Error("Failed to move folder"),
+        ),
+      )
+    }
+  }
+
+  /**
+   * Delete folder (admin only) - only empty folders can be deleted, and trashed documents still count
+   */
+  async deleteFolder(
+    currentUser: UserEntity,
+    id: string,
+  ): Promise<ApplicationResult<{ success: boolean; message: string }>> {
+    try {
+      // Domain-level RBAC guard
+      if (!currentUser.isAdmin()) {
+        return ApplicationResult.fromResult(
+          Result.Err(
+            new Error("Insufficient permissions: Admin access required"),
+          ),
+        )
+      }
+
+      const folderId = id as FolderType["id"]
+      const folderResult = await this.folderRepository.findById(folderId)
+      if (folderResult.isErr()) {
+        return ApplicationResult.fromResult(folderResult)
+      }
+
+      const foldersResult = await this.folderRepository.findChildren(folderId)
+      const documentsResult =
+        await this.documentRepository.findByFolder(folderId)
+      const trashResult = await this.documentRepository.findDeleted(
+        { folderId },
+        { page: 1, limit: 1 },
+      )
+      if (foldersResult.isErr()) {
+        return ApplicationResult.fromResult(foldersResult)
+      }
+      if (documentsResult.isErr()) {
+        return ApplicationResult.fromResult(documentsResult)
+      }
+      if (trashResult.isErr()) {
+        return ApplicationResult.fromResult(trashResult)
+      }
+
+      if (
+        foldersResult.unwrap().length > 0 ||
+        documentsResult.unwrap().length > 0 ||
+        trashResult.unwrap().total > 0
+      ) {
+        return ApplicationResult.fromResult(
+          Result.Err(new FolderNotEmptyError(folderId)),
+        )
+      }
+
+      const deleteResult = await this.folderRepository.delete(folderId)
+      if (deleteResult.isErr()) {
+        return ApplicationResult.fromResult(deleteResult)
+      }
+
+      return ApplicationResult.fromResult(
+        Result.Ok({ success: true, message: "Folder deleted successfully" }),
+      )
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(
+          error instanceof Error ? error : new Error("Failed to delete folder"),
+        ),
+      )
+    }
+  }
+
+  /**
+   * Fail if a sibling of the (renamed or moved) folder already uses its name
+   */
+  private async ensureNameAvailable(
+    folder: FolderEntity,
+  ): Promise<Result<void, FolderAlreadyExistsError>> {
+    const existingResult = await this.folderRepository.findByName(
+      folder.name,
+      folder.parentId ?? null,
+    )
+    if (existingResult.isOk() && existingResult.unwrap().id !== folder.id) {
+      return Result.Err(new FolderAlreadyExistsError(folder.name))
+    }
+
+    return Result.Ok(undefined)
+  }
+}
@@ -1,2 +1,5 @@
 export { UserWorkflows } from "./user.workflow"
 export { DocumentWorkflows } from "./document.workflow"
+export { FolderWorkflows } from "./folder.workflow"
+export { AuditWorkflows } from "./audit.workflow"
+export { WebhookWorkflows } from "./webhook.workflow"
@@ -3,6 +3,7 @@ import {
   UserFiltersDto,
   UserPaginationParamsDto,
 } from "@application/dtos/user.dto"
+import { AuditLogger } from "@application/services/audit"
 import { ApplicationResult } from "@application/utils/application-result.utils"
 import { Result } from "@carbonteq/fp"
 import { UserEntity, UserRepository } from "@domain/user"
@@ -14,6 +15,7 @@ import { autoInjectable } from "tsyringe"
 export class UserWorkflows {
   constructor(
     private readonly userRepository: UserRepository,
+    private readonly auditLogger: AuditLogger,
   ) {}
 
 
@@ -86,11 +88,13 @@ export class UserWorkflows {
 
 
 
+  // With an expected version, the role is only changed if nobody saved the user since
   async updateUserRole(
     currentUser: UserEntity,
     targetUserId: string,
-    dto: UpdateUserRoleDto
-  ): Promise<ApplicationResult<{ success: boolean; message: string }>> {
+    dto: UpdateUserRoleDto,
+    expectedVersion?: number
+  ): Promise<ApplicationResult<{ success: boolean; message: string; version: UserEntity["version"] }>> {
     try {
       // Domain-level RBAC guard
       if (!currentUser.isAdmin()) {
@@ -101,16 +105,30 @@ export class UserWorkflows {
 
       // Convert string ID to branded type - use type assertion for now
       const brandedUserId = targetUserId as any
+
+      // The previous role goes into the audit log and the role change event
+      const targetResult = await this.userRepository.findById(brandedUserId)
+      if (targetResult.isErr()) {
+        return ApplicationResult.fromResult(targetResult)
+      }
       
-      // Use updateUserFields for simpler partial update
-      const saveResult = await this.userRepository.updateUserFields(brandedUserId, {
-        role: dto.data.newRole
-      })
+      const saveResult = await this.userRepository.update(targetResult.unwrap().updateRole(dto.data.newRole), expectedVersion)
+      if (saveResult.isOk()) {
+        await this.auditLogger.record({
+          action: "user.role.update",
+          actor: currentUser,
+          targetType: "user",
+          targetId: targetUserId,
+          before: { role: targetResult.unwrap().role },
+          after: { role: saveResult.unwrap().role },
+        })
+      }
 
       return ApplicationResult.fromResult(
-        saveResult.map(() => ({
+        saveResult.map((user) => ({
           success: true,
-          message: `User role updated to ${dto.data.newRole}`
+          message: `User role updated to ${dto.data.newRole}`,
+          version: user.version,
         }))
       )
     } catch (error) {
@@ -131,9 +149,25 @@ export class UserWorkflows {
 
       // Convert string ID to branded type - use type assertion for now
       const brandedUserId = targetUserId as any
+
+      // Who the user was goes into the audit log
+      const targetResult = await this.userRepository.findById(brandedUserId)
+      if (targetResult.isErr()) {
+        return ApplicationResult.fromResult(targetResult)
+      }
       
-      // Delete user directly - repository handles "not found" case
-      const deleteResult = await this.userRepository.delete(brandedUserId)
+      // Repository handles "not found" case
+      const deleteResult = await this.userRepository.delete(targetResult.unwrap().remove())
+      if (deleteResult.isOk()) {
+        const target = targetResult.unwrap()
+        await this.auditLogger.record({
+          action: "user.delete",
+          actor: currentUser,
+          targetType: "user",
+          targetId: targetUserId,
+          before: { email: target.email, name: target.name, role: target.role },
+        })
+      }
 
       return ApplicationResult.fromResult(
         deleteResult.map(() => ({
@@ -0,0 +1,308 @@
+import {
+  CreateWebhookDto,
+  UpdateWebhookDto,
+  WebhookDeliveryPaginationDto,
+} from "@application/dtos/webhook.dto"
+import {
+  generateWebhookSecret,
+  WebhookDispatcher,
+} from "@application/services/webhooks"
+import { ApplicationResult } from "@application/utils/application-result.utils"
+import { Result } from "@carbonteq/fp"
+import { UserEntity } from "@domain/user"
+import type { WebhookDeliveryType, WebhookType } from "@domain/webhook"
+import {
+  WebhookDeliveryEntity,
+  WebhookDeliveryNotFoundError,
+  WebhookDeliveryRepository,
+  WebhookEntity,
+  WebhookRepository,
+} from "@domain/webhook"
+import { autoInjectable } from "tsyringe"
+
+@autoInjectable()
+export class WebhookWorkflows {
+  constructor(
+    private readonly webhookRepository: WebhookRepository,
+    private readonly webhookDeliveryRepository: WebhookDeliveryRepository,
+    private readonly webhookDispatcher: WebhookDispatcher,
+  ) {}
+
+  /**
+   * Register a webhook with a generated secret (admin only)
+   */
+  async createWebhook(
+    currentUser: UserEntity,
+    dto: CreateWebhookDto,
+  ): Promise<ApplicationResult<WebhookEntity>> {
+    try {
+      // Domain-level RBAC guard
+      if (!currentUser.isAdmin()) {
+        return ApplicationResult.fromResult(
+          Result.Err(
+            new Error("Insufficient permissions: Admin access required"),
+          ),
+        )
+      }
+
+      const webhook = WebhookEntity.create({
+        url: dto.data.url,
+        secret: generateWebhookSecret(),
+        events: dto.data.events,
+        description: dto.data.description,
+        createdBy: currentUser.id,
+      })
+
+      const createResult = await this.webhookRepository.create(webhook)
+      return ApplicationResult.fromResult(createResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(
+          error instanceof Error
+            ? error
+            : new Error("Failed to create webhook"),
+        ),
+      )
+    }
+  }
+
+  /**
+   * List registered webhooks, oldest first (admin only)
+   */
+  async getWebhooks(
+    currentUser: UserEntity,
+  ): Promise<ApplicationResult<WebhookEntity[]>> {
+    try {
+      // Domain-level RBAC guard
+      if (!currentUser.isAdmin()) {
+        return ApplicationResult.fromResult(
+          Result.Err(
+            new Error("Insufficient permissions: Admin access required"),
+          ),
+        )
+      }
+
+      const webhooksResult = await this.webhookRepository.findAll()
+      return ApplicationResult.fromResult(webhooksResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(
+          error instanceof Error ? error : new Error("Failed to get webhooks"),
+        ),
+      )
+    }
+  }
+
+  /**
+   * Get webhook by ID (admin only)
+   */
+  async getWebhookById(
+    currentUser: UserEntity,
+    id: string,
+  ): Promise<ApplicationResult<WebhookEntity>> {
+    try {
+      // Domain-level RBAC guard
+      if (!currentUser.isAdmin()) {
+        return ApplicationResult.fromResult(
+          Result.Err(
+            new Error("Insufficient permissions: Admin access required"),
+          ),
+        )
+      }
+
+      const webhookResult = await this.webhookRepository.findById(
+        id as WebhookType["id"],
+      )
+      return ApplicationResult.fromResult(webhookResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(
+          error instanceof Error ? error : new Error("Failed to get webhook"),
+        ),
+      )
+    }
+  }
+
+  /**
+   * Change the URL, events, description or active state of a webhook (admin only)
+   */
+  async updateWebhook(
+    currentUser: UserEntity,
+    id: string,
+    dto: UpdateWebhookDto,
+  ): Promise<ApplicationResult<WebhookEntity>> {
+    try {
+      // Domain-level RBAC guard
+      if (!currentUser.isAdmin()) {
+        return ApplicationResult.fromResult(
+          Result.Err(
+            new Error("Insufficient permissions: Admin access required"),
+          ),
+        )
+      }
+
+      const webhookResult = await this.webhookRepository.findById(
+        id as WebhookType["id"],
+      )
+      if (webhookResult.isErr()) {
+        return ApplicationResult.fromResult(webhookResult)
+      }
+
+      const updateResult = await this.webhookRepository.update(
+        webhookResult.unwrap().update(dto.data),
+      )
+      return ApplicationResult.fromResult(updateResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(
+          error instanceof Error
+            ? error
+            : new Error("Failed to update webhook"),
+        ),
+      )
+    }
+  }
+
+  /**
+   * Delete a webhook along with its delivery history (admin only)
+   */
+  async deleteWebhook(
+    currentUser: UserEntity,
+    id: string,
+  ): Promise<ApplicationResult<{ success: boolean; message: string }>> {
+    try {
+      // Domain-level RBAC guard
+      if (!currentUser.isAdmin()) {
+        return ApplicationResult.fromResult(
+          Result.Err(
+            new Error("Insufficient permissions: Admin access required"),
+          ),
+        )
+      }
+
+      const deleteResult = await this.webhookRepository.delete(
+        id as WebhookType["id"],
+      )
+      return ApplicationResult.fromResult(
+        deleteResult.map(() => ({
+          success: true,
+          message: "Webhook deleted successfully",
+        })),
+      )
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(
+          error instanceof Error
+            ? error
+            : new Error("Failed to delete webhook"),
+        ),
+      )
+    }
+  }
+
+  /**
+   * Get the deliveries sent to a webhook, newest first (admin only)
+   */
+  async getWebhookDeliveries(
+    currentUser: UserEntity,
+    id: string,
+    pagination?: WebhookDeliveryPaginationDto,
+  ): Promise<
+    ApplicationResult<{ deliveries: WebhookDeliveryEntity[]; total: number }>
+  > {
+    try {
+      // Domain-level RBAC guard
+      if (!currentUser.isAdmin()) {
+        return ApplicationResult.fromResult(
+          Result.Err(
+            new Error("Insufficient permissions: Admin access required"),
+          ),
+        )
+      }
+
+      const webhookResult = await this.webhookRepository.findById(
+        id as WebhookType["id"],
+      )
+      if (webhookResult.isErr()) {
+        return ApplicationResult.fromResult(webhookResult)
+      }
+
+      const paginationParams = pagination
+        ? { page: pagination.data.page, limit: pagination.data.limit }
+        : undefined
+
+      const deliveriesResult =
+        await this.webhookDeliveryRepository.findByWebhookId(
+          webhookResult.unwrap().id,
+          paginationParams,
+        )
+      return ApplicationResult.fromResult(deliveriesResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(
+          error instanceof Error
+            ? error
+            : new Error("Failed to get webhook deliveries"),
+        ),
+      )
+    }
+  }
+
+  /**
+   * Send the payload of an earlier delivery again and return the new delivery once it was
+   * attempted (admin only)
+   */
+  async redeliverWebhookDelivery(
+    currentUser: UserEntity,
+    id: string,
+    deliveryId: string,
+  ): Promise<ApplicationResult<WebhookDeliveryEntity>> {
+    try {
+      // Domain-level RBAC guard
+      if (!currentUser.isAdmin()) {
+        return ApplicationResult.fromResult(
+          Result.Err(
+            new Error("Insufficient permissions: Admin access required"),
+          ),
+        )
+      }
+
+      const webhookResult = await this.webhookRepository.findById(
+        id as WebhookType["id"],
+      )
+      if (webhookResult.isErr()) {
+        return ApplicationResult.fromResult(webhookResult)
+      }
+
+      const brandedDeliveryId = deliveryId as WebhookDeliveryType["id"]
+      const deliveryResult =
+        await this.webhookDeliveryRepository.findById(brandedDeliveryId)
+      if (deliveryResult.isErr()) {
+        return ApplicationResult.fromResult(deliveryResult)
+      }
+
+      // The delivery has to belong to the webhook in the path
+      const webhook = webhookResult.unwrap()
+      const delivery = deliveryResult.unwrap()
+      if (delivery.webhookId !== webhook.id) {
+        return ApplicationResult.fromResult(
+          Result.Err(new WebhookDeliveryNotFoundError(brandedDeliveryId)),
+        )
+      }
+
+      const redeliveryResult = await this.webhookDispatcher.redeliver(
+        webhook,
+        delivery,
+      )
+      return ApplicationResult.fromResult(redeliveryResult)
+    } catch (error) {
+      return ApplicationResult.fromResult(
+        Result.Err(
+          error instanceof Error
+            ? error
+            : new Error("Failed to redeliver webhook delivery"),
+        ),
+      )
+    }
+  }
+}
@@ -11,6 +11,7 @@ import {
   ForbiddenError,
   InternalError,
   NotFoundError,
+  PreconditionFailedError,
   UnauthorizedError,
   ValidationError,
 } from "@domain/utils/base.errors"
@@ -124,6 +125,11 @@ describe("ApplicationResult", () => {
       const conflictError = new ConflictError("resource already exists")
       expect(AppError.fromErr(conflictError).status).toBe(AppErrStatus.Conflict)
 
+      const preconditionFailedError = new PreconditionFailedError()
+      expect(AppError.fromErr(preconditionFailedError).status).toBe(
+        AppErrStatus.PreconditionFailed,
+      )
+
       const internalError = new InternalError("internal error")
       expect(AppError.fromErr(internalError).status).toBe(
         AppErrStatus.InternalError,
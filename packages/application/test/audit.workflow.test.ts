@@ -0,0 +1,260 @@
+import "reflect-metadata"
+import { beforeEach, describe, expect, it } from "bun:test"
+import { Result } from "@carbonteq/fp"
+import {
+  AuditEventEntity,
+  type AuditEventFilterQuery,
+  AuditEventRepository,
+} from "@domain/audit"
+import { UserEntity } from "@domain/user"
+import { AuditEventFiltersDto } from "../src/dtos/audit.dto"
+import { AuditLogger, diffSnapshots, toAuditCsv } from "../src/services/audit"
+import { AuditWorkflows } from "../src/workflows/audit.workflow"
+
+// Mock audit event repository that filters like the real one
+class MockAuditEventRepository extends AuditEventRepository {
+  events: AuditEventEntity[] = []
+
+  async append(
+    event: AuditEventEntity,
+  ): Promise<Result<AuditEventEntity, Error>> {
+    this.events.push(event)
+    return Result.Ok(event)
+  }
+
+  async find(
+    query: AuditEventFilterQuery = {},
+    pagination?: { page?: number; limit?: number },
+  ) {
+    const matching = this.events
+      .filter(
+        (e) =>
+          (!query.actorId || e.actorId === query.actorId) &&
+          (!query.targetType || e.targetType === query.targetType) &&
+          (!query.targetId || e.targetId === query.targetId) &&
+          (!query.action || query.action.includes(e.action)) &&
+          (!query.fromDate || e.createdAt.epochMillis >= query.fromDate.getTime()) &&
+          (!query.toDate || e.createdAt.epochMillis <= query.toDate.getTime()),
+      )
+      .reverse()
+    const page = pagination?.page ?? 1
+    const limit = pagination?.limit ?? 10
+
+    return Result.Ok({
+      events: matching.slice((page - 1) * limit, page * limit),
+      total: matching.length,
+    })
+  }
+}
+
+describe("AuditWorkflows", () => {
+  let repository: MockAuditEventRepository
+  let auditLogger: AuditLogger
+  let auditWorkflows: AuditWorkflows
+  let admin: UserEntity
+  let member: UserEntity
+
+  const documentId = "0d9f4a52-8c1e-4a7b-9a55-2f7c7e3f1b10"
+
+  // Backdate an event - the logger always stamps the current time
+  const backdate = (event: AuditEventEntity, date: Date) =>
+    AuditEventEntity.fromEncoded({
+      ...event.serialize().unwrap(),
+      createdAt: date,
+    }).unwrap()
+
+  beforeEach(async () => {
+    repository = new MockAuditEventRepository()
+    auditLogger = new AuditLogger(repository)
+    auditWorkflows = new AuditWorkflows(repository)
+
+    admin = UserEntity.create({
+      name: "Admin",
+      email: "admin@example.com",
+      password: "password123",
+      role: "admin",
+    })
+    member = UserEntity.create({
+      name: "Member",
+      email: "member@example.com",
+      password: "password123",
+      role: "user",
+    })
+
+    await auditLogger.record({
+      action: "document.upload",
+      actor: member,
+      targetType: "document",
+      targetId: documentId,
+      after: { name: '=HYPERLINK("http://evil")' },
+    })
+    await auditLogger.record({
+      action: "user.role.update",
+      actor: admin,
+      targetType: "user",
+      targetId: member.id,
+      before: { role: "user" },
+      after: { role: "admin" },
+    })
+  })
+
+  describe("AuditLogger", () => {
+    it("should stamp events with the request context they were recorded in", async () => {
+      await AuditLogger.runWithContext(
+        { ipAddress: "198.51.100.4", userAgent: "Mozilla/5.0" },
+        async () => {
+          await Promise.resolve()
+          await auditLogger.record({
+            action: "document.download",
+            actor: member,
+            targetType: "document",
+            targetId: documentId,
+          })
+        },
+      )
+
+      const event = repository.events.at(-1)!
+      expect(event.ipAddress).toBe("198.51.100.4")
+      expect(event.userAgent).toBe("Mozilla/5.0")
+      expect(repository.events[0]!.ipAddress).toBeUndefined()
+    })
+
+    it("should not fail when the event can't be stored", async () => {
+      repository.append = async () => Result.Err(new Error("database is down"))
+
+      await expect(
+        auditLogger.record({
+          action: "user.delete",
+          actor: admin,
+          targetType: "user",
+          targetId: member.id,
+        }),
+      ).resolves.toBeUndefined()
+    })
+  })
+
+  describe("diffSnapshots", () => {
+    it("should keep only the fields that changed", () => {
+      expect(
+        diffSnapshots(
+          { name: "a.txt", tags: ["x"], folderId: null },
+          { name: "b.txt", tags: ["x"], folderId: "f1" },
+        ),
+      ).toEqual({
+        before: { name: "a.txt", folderId: null },
+        after: { name: "b.txt", folderId: "f1" },
+      })
+    })
+  })
+
+  describe("getAuditEvents", () => {
+    it("should only be available to admins", async () => {
+      const result = await auditWorkflows.getAuditEvents(member)
+
+      expect(result.isErr()).toBe(true)
+    })
+
+    it("should return events newest first", async () => {
+      const result = await auditWorkflows.getAuditEvents(admin)
+
+      const { events, total } = result.unwrap()
+      expect(total).toBe(2)
+      expect(events.map((e) => e.action)).toEqual([
+        "user.role.update",
+        "document.upload",
+      ])
+    })
+
+    it("should filter by actor, target and action", async () => {
+      const filters = (data: object) =>
+        AuditEventFiltersDto.create(data).unwrap()
+
+      const byActor = await auditWorkflows.getAuditEvents(
+        admin,
+        filters({ actorId: member.id }),
+      )
+      const byTarget = await auditWorkflows.getAuditEvents(
+        admin,
+        filters({ targetType: "user", targetId: member.id }),
+      )
+      const byAction = await auditWorkflows.getAuditEvents(
+        admin,
+        filters({ action: ["document.download", "user.role.update"] }),
+      )
+
+      expect(byActor.unwrap().events.map((e) => e.action)).toEqual([
+        "document.upload",
+      ])
+      expect(byTarget.unwrap().events.map((e) => e.action)).toEqual([
+        "user.role.update",
+      ])
+      expect(byAction.unwrap().total).toBe(1)
+    })
+
+    it("should filter by time range", async () => {
+      repository.events[0] = backdate(
+        repository.events[0]!,
+        new Date("2026-01-15T12:00:00Z"),
+      )
+
+      const result = await auditWorkflows.getAuditEvents(
+        admin,
+        AuditEventFiltersDto.create({
+          from: new Date("2026-01-01T00:00:00Z"),
+          to: new Date("2026-03-31T23:59:59Z"),
+        }).unwrap(),
+      )
+
+      expect(result.unwrap().events.map((e) => e.action)).toEqual([
+        "document.upload",
+      ])
+    })
+  })
+
+  describe("exportAuditEvents", () => {
+    it("should only be available to admins", async () => {
+      const result = await auditWorkflows.exportAuditEvents(member)
+
+      expect(result.isErr()).toBe(true)
+    })
+
+    it("should export every matching event as CSV", async () => {
+      const csv = (await auditWorkflows.exportAuditEvents(admin)).unwrap()
+      const lines = csv.trimEnd().split("\r\n")
+
+      expect(lines).toHaveLength(3)
+      expect(lines[0]).toBe(
+        "occurredAt,action,actorId,actorEmail,targetType,targetId,ipAddress,userAgent,before,after",
+      )
+      expect(lines[1]).toContain(
+        `user.role.update,${admin.id},admin@example.com,user,${member.id}`,
+      )
+      expect(lines[1]).toContain('"{""role"":""user""}","{""role"":""admin""}"')
+    })
+
+    it("should leave out events recorded after the export started", async () => {
+      repository.events.push(
+        backdate(repository.events[0]!, new Date(Date.now() + 60_000)),
+      )
+
+      const csv = (await auditWorkflows.exportAuditEvents(admin)).unwrap()
+
+      expect(csv.trimEnd().split("\r\n")).toHaveLength(3)
+    })
+  })
+
+  describe("toAuditCsv", () => {
+    it("should keep spreadsheets from evaluating fields as formulas", () => {
+      const event = AuditEventEntity.create({
+        action: "document.download",
+        targetType: "document",
+        targetId: documentId,
+        userAgent: "=cmd|' /C calc'!A0",
+      })
+
+      const [, row] = toAuditCsv([event]).split("\r\n")
+
+      expect(row).toContain(",'=cmd|' /C calc'!A0,")
+    })
+  })
+})
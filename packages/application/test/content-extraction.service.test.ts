@@ -0,0 +1,287 @@
+import "reflect-metadata"
+import { beforeEach, describe, expect, it } from "bun:test"
+import { deflateRawSync, deflateSync } from "node:zlib"
+import {
+  ContentExtractionService,
+  MAX_EXTRACTED_TEXT_LENGTH,
+} from "../src/services/content-extraction"
+
+// Minimal zip writer - the reader doesn't check CRCs, so they are left at 0
+const buildZip = (entries: Record<string, string>) => {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  for (const [name, content] of Object.entries(entries)) {
+    const nameBytes = Buffer.from(name)
+    const data = deflateRawSync(Buffer.from(content))
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(8, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(content.length, 22)
+    local.writeUInt16LE(nameBytes.length, 26)
+    locals.push(local, nameBytes, data)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(content.length, 24)
+    central.writeUInt16LE(nameBytes.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centrals.push(central, nameBytes)
+
+    offset += local.length + nameBytes.length + data.length
+  }
+
+  const directory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(Object.keys(entries).length, 8)
+  end.writeUInt16LE(Object.keys(entries).length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...locals, directory, end])
+}
+
+// Minimal PDF writer - objects are dictionaries, or [dictionary, stream content] pairs
+const buildPdf = (
+  objects: (string | [string, string])[],
+  trailer = "/Root 1 0 R",
+) => {
+  const parts: Buffer[] = [Buffer.from("%PDF-1.7\n")]
+  objects.forEach((object, index) => {
+    if (typeof object === "string") {
+      parts.push(Buffer.from(`${index + 1} 0 obj\n${object}\nendobj\n`))
+      return
+    }
+    const data = deflateSync(Buffer.from(object[1], "latin1"))
+    parts.push(
+      Buffer.from(
+        `${index + 1} 0 obj\n<< ${object[0]} /Filter /FlateDecode /Length ${data.length} >>\nstream\n`,
+      ),
+      data,
+      Buffer.from("\nendstream\nendobj\n"),
+    )
+  })
+  parts.push(Buffer.from(`trailer\n<< ${trailer} >>\n%%EOF\n`))
+  return Buffer.concat(parts)
+}
+
+const TO_UNICODE = `/CIDInit /ProcSet findresource begin
+begincmap
+1 begincodespacerange <0000> <FFFF> endcodespacerange
+1 beginbfchar <0001> <00C9> endbfchar
+1 beginbfrange <0002> <0003> <0074> endbfrange
+endcmap`
+
+const twoPagePdf = () =>
+  buildPdf([
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R 6 0 R] /Count 2 /Resources << /Font << /F1 4 0 R /F2 7 0 R >> >> >>",
+    "<< /Type /Page /Parent 2 0 R /Contents 5 0 R >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    [
+      "",
+      "BT /F1 12 Tf 72 700 Td (Quarterly \\(Q3\\) report) Tj 0 -14 Td [(Reve) 10 (nue) -300 (grew)] TJ ET",
+    ],
+    "<< /Type /Page /Parent 2 0 R /Contents 8 0 R >>",
+    "<< /Type /Font /Subtype /Type0 /BaseFont /Custom /Encoding /Identity-H /ToUnicode 9 0 R >>",
+    ["", "BT /F2 12 Tf 72 700 Td <000100020003> Tj ET"],
+    ["", TO_UNICODE],
+  ])
+
+describe("ContentExtractionService", () => {
+  let service: ContentExtractionService
+
+  const extract = async (mimeType: string, file: string | Buffer) =>
+    (await service.extract(mimeType, Buffer.from(file))).unwrap()
+
+  beforeEach(() => {
+    service = new ContentExtractionService()
+  })
+
+  describe("findExtractor", () => {
+    it("should prefer exact MIME types over suffixes and wildcards", () => {
+      expect(service.findExtractor("text/csv; charset=utf-8")?.name).toBe("csv")
+      expect(service.findExtractor("application/ld+json")?.name).toBe("json")
+      expect(service.findExtractor("image/svg+xml")?.name).toBe("html")
+      expect(service.findExtractor("text/x-log")?.name).toBe("text")
+      expect(service.findExtractor("TEXT/HTML")?.name).toBe("html")
+    })
+
+    it("should have no extractor for binary formats", () => {
+      expect(service.findExtractor("image/png")).toBeUndefined()
+      expect(service.findExtractor("application/octet-stream")).toBeUndefined()
+    })
+
+    it("should let registered extractors take over MIME types", async () => {
+      service.register({
+        name: "upper",
+        mimeTypes: ["text/plain"],
+        extract: async (file) => file.toString().toUpperCase(),
+      })
+
+      expect(await extract("text/plain", "shout")).toEqual({
+        extractor: "upper",
+        content: "SHOUT",
+      })
+    })
+  })
+
+  describe("text formats", () => {
+    it("should decode plain text, honouring UTF-16 byte order marks", async () => {
+      const utf16 = Buffer.concat([
+        Buffer.from([0xff, 0xfe]),
+        Buffer.from("Grüße  aus\r\n\r\n\r\nBerlin", "utf16le"),
+      ])
+
+      expect((await extract("text/plain", utf16)).content).toBe(
+        "Grüße aus\n\nBerlin",
+      )
+    })
+
+    it("should strip Markdown syntax", async () => {
+      const markdown = [
+        "## Release notes",
+        "",
+        "- Added **search** and [docs](https://example.com)",
+        "- Kept snake_case_names intact",
+        "",
+        "```ts",
+        "const x = 1",
+        "```",
+      ].join("\n")
+
+      expect((await extract("text/markdown", markdown)).content).toBe(
+        "Release notes\n\nAdded search and docs\nKept snake_case_names intact\n\nconst x = 1",
+      )
+    })
+
+    it("should split CSV rows with quoted fields", async () => {
+      const csv = 'name,notes\n"Smith, Jane","said ""hi""\nthen left"\n'
+
+      expect((await extract("text/csv", csv)).content).toBe(
+        'name notes\nSmith, Jane said "hi"\nthen left',
+      )
+    })
+
+    it("should keep the values of JSON documents", async () => {
+      const json = JSON.stringify({
+        title: "Invoice",
+        lines: [{ item: "Widget", qty: 3 }],
+        paid: false,
+      })
+
+      expect((await extract("application/json", json)).content).toBe(
+        "Invoice\nWidget\n3",
+      )
+    })
+
+    it("should fail on invalid JSON", async () => {
+      const result = await service.extract("application/json", Buffer.from("{"))
+
+      expect(result.isErr()).toBe(true)
+      expect(result.unwrapErr().message).toStartWith("Invalid JSON")
+    })
+
+    it("should reduce HTML to its text", async () => {
+      const html = `<!DOCTYPE html><html><head><title>Q3 &amp; Q4</title>
+        <style>body { color: red }</style><script>alert("x")</script></head>
+        <body><h1>Results</h1><p>Revenue&nbsp;up <b>12%</b> &#8212; see <a href="#">notes</a></p></body></html>`
+
+      expect((await extract("text/html", html)).content).toBe(
+        "Q3 & Q4\nResults\nRevenue up 12% — see notes",
+      )
+    })
+  })
+
+  describe("office documents", () => {
+    it("should read the paragraphs of a Word document", async () => {
+      const docx = buildZip({
+        "[Content_Types].xml": "<Types/>",
+        "word/document.xml":
+          '<w:document><w:body><w:p><w:r><w:t>Hello</w:t></w:r><w:r><w:tab/><w:t xml:space="preserve">world &amp; co</w:t></w:r></w:p>' +
+          "<w:p><w:r><w:instrText>HYPERLINK</w:instrText><w:t>Second</w:t></w:r></w:p></w:body></w:document>",
+      })
+
+      expect(
+        await extract(
+          "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+          docx,
+        ),
+      ).toEqual({ extractor: "docx", content: "Hello world & co\nSecond" })
+    })
+
+    it("should reject zip files that aren't Word documents", async () => {
+      const result = await service.extract(
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+        buildZip({ "readme.txt": "hi" }),
+      )
+
+      expect(result.unwrapErr().message).toContain("word/document.xml")
+    })
+  })
+
+  describe("PDF", () => {
+    it("should read the text layer of every page in order", async () => {
+      expect(await extract("application/pdf", twoPagePdf())).toEqual({
+        extractor: "pdf",
+        content: "Quarterly (Q3) report\nRevenue grew\n\nÉtu",
+      })
+    })
+
+    it("should read objects packed into object streams", async () => {
+      const packed = "<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>"
+      const pdf = buildPdf([
+        "<< /Type /Catalog /Pages 2 0 R >>",
+        "<< /Type /Pages /Kids [6 0 R] /Count 1 /Resources << /Font << /F1 5 0 R >> >> >>",
+        ["/Type /ObjStm /N 1 /First 4", `6 0 ${packed}`],
+        ["", "BT /F1 10 Tf (Packed page) Tj ET"],
+        "<< /Type /Font /Subtype /Type1 /BaseFont /Times-Roman >>",
+      ])
+
+      expect((await extract("application/pdf", pdf)).content).toBe(
+        "Packed page",
+      )
+    })
+
+    it("should report scanned, encrypted and malformed files", async () => {
+      const scanned = buildPdf([
+        "<< /Type /Catalog /Pages 2 0 R >>",
+        "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+        "<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>",
+        ["", "q 612 0 0 792 0 0 cm /Im1 Do Q"],
+      ])
+      const encrypted = buildPdf(
+        ["<< /Type /Catalog /Pages 2 0 R >>"],
+        "/Root 1 0 R /Encrypt << /Filter /Standard >>",
+      )
+
+      const messages = await Promise.all(
+        [scanned, encrypted, Buffer.from("plain text")].map(
+          async (file) =>
+            (await service.extract("application/pdf", file)).unwrapErr()
+              .message,
+        ),
+      )
+
+      expect(messages).toEqual([
+        "The PDF has no text layer",
+        "Encrypted PDFs are not supported",
+        "Not a PDF file",
+      ])
+    })
+  })
+
+  it("should truncate long texts", async () => {
+    const long = "word ".repeat(MAX_EXTRACTED_TEXT_LENGTH)
+
+    expect((await extract("text/plain", long)).content).toHaveLength(
+      MAX_EXTRACTED_TEXT_LENGTH,
+    )
+  })
+})
@@ -1,5 +1,6 @@
 import "reflect-metadata"
 import { describe, it, expect, beforeEach } from "bun:test"
+import { createHash } from "node:crypto"
 import { DocumentWorkflows } from "../src/workflows/document.workflow"
 import { 
   UploadDocumentDto, 
@@ -7,45 +8,100 @@ import {
   DocumentPaginationDto,
   PatchDocumentDto,
   GenerateDownloadTokenDto,
-  DownloadDocumentByTokenDto
+  DownloadDocumentByTokenDto,
+  UploadDocumentVersionDto,
+  MoveDocumentDto,
+  GrantDocumentPermissionDto,
+  CreateDocumentUploadDto,
+  CreateDirectUploadDto,
+  SearchDocumentsDto,
+  CheckoutDocumentDto,
+  BreakDocumentLockDto
 } from "../src/dtos/document.dto"
-import { DocumentEntity } from "@domain/document"
+import { DocumentContentEntity, DocumentEntity, DocumentPermissionEntity, DocumentRenditionEntity, DocumentUploadEntity, DocumentVersionEntity } from "@domain/document"
+import { DocumentContentRepository } from "@domain/document/document-content.repository"
 import { DocumentRepository } from "@domain/document/document.repository"
-import { DocumentNotFoundError, DocumentAlreadyExistsError } from "@domain/document/document.errors"
+import { DocumentPermissionRepository } from "@domain/document/document-permission.repository"
+import { DocumentRenditionRepository } from "@domain/document/document-rendition.repository"
+import { DocumentUploadRepository } from "@domain/document/document-upload.repository"
+import { DocumentVersionRepository } from "@domain/document/document-version.repository"
+import {
+  DocumentContentNotFoundError,
+  DocumentFileError,
+  DocumentLockedError,
+  DocumentModifiedError,
+  DocumentNotCleanError,
+  DocumentNotFoundError,
+  DocumentPermissionNotFoundError,
+  DocumentUploadNotFoundError,
+  DocumentAlreadyExistsError,
+  DocumentVersionNotFoundError,
+  DocumentVersionAlreadyExistsError
+} from "@domain/document/document.errors"
+import { FolderEntity, FolderRepository } from "@domain/folder"
+import { FolderNotFoundError } from "@domain/folder/folder.errors"
 import { UserEntity } from "@domain/user"
+import { AuditEventEntity, AuditEventRepository } from "@domain/audit"
+import type { DomainEvent } from "@domain/events"
 import { Result } from "@carbonteq/fp"
 import { JwtService } from "../src/services/jwt.service"
+import { AuditLogger } from "../src/services/audit"
+import { ContentExtractionService } from "../src/services/content-extraction"
+import { RenditionService } from "../src/services/renditions"
+import { UploadPolicyService } from "../src/services/upload-policy"
+import { EicarScanner } from "../src/services/content-scanning"
+import { encodePng } from "../src/services/renditions/utils/png.utils"
+import { AppErrStatus } from "../src/utils/application-result.utils"
 import { StorageService } from "../../../apps/backend/src/infra/storage/storage.service"
 
+const sha256 = (content: Buffer) => createHash("sha256").update(content).digest("hex")
+
 // Mock JWT service for testing
 class MockJwtService {
-  private tokens: Map<string, string> = new Map()
+  private tokens: Map<string, { documentId: string; versionId?: string; userId?: string }> = new Map()
 
-  async generateToken(documentId: string, expiresInMinutes: number = 60): Promise<string> {
+  async generateToken(documentId: string, expiresInMinutes: number = 60, versionId?: string, userId?: string): Promise<string> {
     const token = `mock-token-${documentId}-${Date.now()}`
-    this.tokens.set(token, documentId)
+    this.tokens.set(token, { documentId, versionId, userId })
     return token
   }
 
-  async verifyToken(token: string): Promise<Result<string, Error>> {
-    const documentId = this.tokens.get(token)
-    if (!documentId) {
+  async verifyToken(token: string): Promise<Result<{ documentId: string; versionId?: string; userId?: string }, Error>> {
+    const payload = this.tokens.get(token)
+    if (!payload) {
       return Result.Err(new Error("Invalid or expired token"))
     }
-    return Result.Ok(documentId)
+    return Result.Ok(payload)
   }
 }
 
 // Mock storage service for testing
 class MockStorageService {
-  private files: Map<string, Buffer> = new Map()
+  files: Map<string, Buffer> = new Map()
+  // When each file was last written, as listings report it
+  modifiedAt: Map<string, Date> = new Map()
+  failDeletes = false
+  private uploadCount = 0
 
   async upload(file: Buffer, fileName: string, mimeType: string): Promise<Result<string, Error>> {
-    const filePath = `/uploads/${Date.now()}-${fileName}`
+    const filePath = `/uploads/${Date.now()}-${++this.uploadCount}-${fileName}`
     this.files.set(filePath, file)
+    this.modifiedAt.set(filePath, new Date())
     return Result.Ok(filePath)
   }
 
+  async exists(filePath: string): Promise<Result<boolean, Error>> {
+    return Result.Ok(this.files.has(filePath))
+  }
+
+  async list(prefix: string): Promise<Result<{ path: string; size: number; modifiedAt: Date }[], Error>> {
+    return Result.Ok(
+      Array.from(this.files.entries())
+        .filter(([path]) => path.startsWith(prefix))
+        .map(([path, file]) => ({ path, size: file.length, modifiedAt: this.modifiedAt.get(path) ?? new Date() }))
+    )
+  }
+
   async download(filePath: string): Promise<Result<Buffer, Error>> {
     const file = this.files.get(filePath)
     if (!file) {
@@ -54,52 +110,238 @@ class MockStorageService {
     return Result.Ok(file)
   }
 
+  async createReadStream(filePath: string, range?: { start: number; end: number }): Promise<Result<ReadableStream<Uint8Array>, Error>> {
+    const file = this.files.get(filePath)
+    if (!file) {
+      return Result.Err(new Error("File not found"))
+    }
+    const bytes = range ? file.subarray(range.start, range.end + 1) : file
+    return Result.Ok(new Blob([bytes]).stream())
+  }
+
   async delete(filePath: string): Promise<Result<void, Error>> {
+    if (this.failDeletes) {
+      return Result.Err(new Error("Storage unavailable"))
+    }
     if (!this.files.has(filePath)) {
       return Result.Err(new Error("File not found"))
     }
     this.files.delete(filePath)
     return Result.Ok(undefined)
   }
+
+  // Staged chunks per upload, keyed by offset
+  chunks: Map<string, Map<number, Buffer>> = new Map()
+
+  async stageChunk(uploadId: string, offset: number, chunk: Buffer): Promise<Result<void, Error>> {
+    const staged = this.chunks.get(uploadId) ?? new Map<number, Buffer>()
+    staged.set(offset, chunk)
+    this.chunks.set(uploadId, staged)
+    return Result.Ok(undefined)
+  }
+
+  async assembleChunks(uploadId: string, fileName: string, mimeType: string): Promise<Result<{ filePath: string; contentHash: string }, Error>> {
+    const staged = this.chunks.get(uploadId)
+    if (!staged) {
+      return Result.Err(new Error("No chunks staged"))
+    }
+    const ordered = Array.from(staged.entries()).sort(([a], [b]) => a - b).map(([, chunk]) => chunk)
+    const file = Buffer.concat(ordered)
+    const uploadResult = await this.upload(file, fileName, mimeType)
+    return uploadResult.map((filePath) => ({ filePath, contentHash: sha256(file) }))
+  }
+
+  async discardChunks(uploadId: string): Promise<Result<boolean, Error>> {
+    return Result.Ok(this.chunks.delete(uploadId))
+  }
+
+  async quarantine(filePath: string): Promise<Result<string, Error>> {
+    const file = this.files.get(filePath)
+    if (!file) {
+      return Result.Err(new Error("File not found"))
+    }
+    this.files.delete(filePath)
+    this.files.set(`.quarantine/${filePath}`, file)
+    return Result.Ok(`.quarantine/${filePath}`)
+  }
+
+  isQuarantined(filePath: string): boolean {
+    return filePath.startsWith(".quarantine/")
+  }
+
+  canonicalPath(filePath: string): string {
+    return filePath
+  }
+
+  async getFileInfo(filePath: string): Promise<Result<{ size: number; mimeType: string; lastModified: Date }, Error>> {
+    const file = this.files.get(filePath)
+    if (!file) {
+      return Result.Err(new Error("File not found"))
+    }
+    return Result.Ok({ size: file.length, mimeType: "application/octet-stream", lastModified: new Date() })
+  }
+
+  // Whether the backend issues URLs to upload and download files directly
+  presignedUrls = false
+
+  async createUploadUrl(fileName: string, mimeType: string, size: number, expiresInSeconds: number) {
+    if (!this.presignedUrls) {
+      return Result.Err(new Error("local storage can't accept direct uploads"))
+    }
+    const filePath = `/uploads/${Date.now()}-${++this.uploadCount}-${fileName}`
+    return Result.Ok({
+      filePath,
+      url: `https://storage.example.com${filePath}`,
+      headers: { "content-length": String(size), "content-type": mimeType },
+      expiresAt: new Date(Date.now() + expiresInSeconds * 1000),
+    })
+  }
+
+  async createDownloadUrl(filePath: string, options: { fileName: string }): Promise<Result<string | undefined, Error>> {
+    return Result.Ok(this.presignedUrls ? `https://storage.example.com${filePath}?download=${options.fileName}` : undefined)
+  }
+}
+
+// Detects the EICAR test file, or fails every scan while the scanner is "down"
+class MockContentScanner extends EicarScanner {
+  available = true
+
+  override async scan(content: ReadableStream<Uint8Array>) {
+    if (!this.available) {
+      return Result.Err(new Error("Scanner unavailable"))
+    }
+    return super.scan(content)
+  }
 }
 
 // Mock repository for testing
 class MockDocumentRepository implements DocumentRepository {
   private documents: Map<string, DocumentEntity> = new Map()
+  // The events saved along with the documents, standing in for the outbox
+  outbox: DomainEvent[] = []
+
+  constructor(
+    private readonly permissions: MockDocumentPermissionRepository,
+    private readonly contents: MockDocumentContentRepository,
+    private readonly versions: MockDocumentVersionRepository
+  ) {}
+
+  // Mirrors the visibleTo filter: owned documents plus documents with a grant
+  private isVisibleTo(document: DocumentEntity, userId?: string) {
+    return !userId || document.ownerId === userId || this.permissions.hasGrant(document.id, userId)
+  }
 
   async create(document: DocumentEntity) {
-    if (this.documents.has(document.name)) {
+    const duplicate = Array.from(this.documents.values()).some(
+      d => d.name === document.name && d.folderId === document.folderId && !d.isDeleted()
+    )
+    if (duplicate) {
       return Result.Err(new DocumentAlreadyExistsError(document.name as any))
     }
-    this.documents.set(document.id, document)
-    return Result.Ok(document)
+    return Result.Ok(this.save(document))
+  }
+
+  async update(document: DocumentEntity, expectedVersion?: number, userId?: UserEntity["id"]) {
+    const current = this.documents.get(document.id)
+    if (!current) {
+      return Result.Err(new DocumentNotFoundError(document.id as any))
+    }
+    if (userId && current.isLockedAgainst(userId)) {
+      return Result.Err(new DocumentLockedError(current))
+    }
+    if (expectedVersion !== undefined && current.version !== expectedVersion) {
+      return Result.Err(new DocumentModifiedError(current, expectedVersion))
+    }
+    return Result.Ok(this.save(document, (current.version ?? 1) + 1))
+  }
+
+  // Mirrors the conditional write: only the checkout is saved, and never over someone else's
+  async saveCheckout(document: DocumentEntity, userId?: UserEntity["id"]) {
+    const current = this.documents.get(document.id)
+    if (!current || current.isDeleted()) {
+      return Result.Err(new DocumentNotFoundError(document.id))
+    }
+    if (userId && current.isLockedAgainst(userId)) {
+      return Result.Err(new DocumentLockedError(current))
+    }
+    return Result.Ok(this.save(DocumentEntity.from({
+      ...current,
+      lockedBy: document.lockedBy,
+      lockExpiresAt: document.lockExpiresAt,
+    })))
   }
 
-  async update(document: DocumentEntity) {
+  async delete(document: DocumentEntity) {
     if (!this.documents.has(document.id)) {
       return Result.Err(new DocumentNotFoundError(document.id as any))
     }
-    this.documents.set(document.id, document)
-    return Result.Ok(document)
+    this.documents.delete(document.id)
+    this.outbox.push(...document.domainEvents)
+    this.versions.deleteByDocumentId(document.id) // Mirrors the cascade
+    return Result.Ok(undefined)
   }
 
-  async delete(id: any) {
+  // Saved documents come back without the events they recorded
+  private save(document: DocumentEntity, version = document.version) {
+    const saved = DocumentEntity.from({ ...document, version })
+    this.documents.set(document.id, saved)
+    this.outbox.push(...document.domainEvents)
+    return saved
+  }
+
+  async findById(id: any) {
     const document = this.documents.get(id)
-    if (!document) {
+    if (!document || document.isDeleted()) {
       return Result.Err(new DocumentNotFoundError(id as any))
     }
-    this.documents.delete(id)
-    return Result.Ok(undefined)
+    return Result.Ok(document)
   }
 
-  async findById(id: any) {
+  async findDeletedById(id: any) {
     const document = this.documents.get(id)
-    if (!document) {
+    if (!document || !document.isDeleted() || document.isPendingDelete()) {
       return Result.Err(new DocumentNotFoundError(id as any))
     }
     return Result.Ok(document)
   }
 
+  async findDeleted(query?: any) {
+    const documents = Array.from(this.documents.values()).filter(
+      d => d.isDeleted() && !d.isPendingDelete() && this.isVisibleTo(d, query?.visibleTo)
+    )
+    return Result.Ok({ documents, total: documents.length })
+  }
+
+  async findDeletedBefore(cutoff: Date) {
+    return Result.Ok(Array.from(this.documents.values()).filter(d => d.isDeletedBefore(cutoff) && !d.isPendingDelete()))
+  }
+
+  async findPendingDelete(limit: number) {
+    return Result.Ok(Array.from(this.documents.values()).filter(d => d.isPendingDelete()).slice(0, limit))
+  }
+
+  async relocateFile(fromPath: string, toPath: string) {
+    let relocated = 0
+    for (const document of this.documents.values()) {
+      if (document.filePath === fromPath) {
+        this.documents.set(document.id, DocumentEntity.from({ ...document, filePath: toPath }))
+        relocated++
+      }
+    }
+    return Result.Ok(relocated)
+  }
+
+  async findFileReferences() {
+    const references = []
+    for (const document of this.documents.values()) {
+      references.push({ documentId: document.id, filePath: document.filePath })
+      for (const version of (await this.versions.findByDocumentId(document.id)).unwrap()) {
+        references.push({ documentId: document.id, filePath: version.filePath })
+      }
+    }
+    return Result.Ok(references)
+  }
+
   async findByName(name: string) {
     const document = Array.from(this.documents.values()).find(d => d.name === name)
     if (!document) {
@@ -108,6 +350,23 @@ class MockDocumentRepository implements DocumentRepository {
     return Result.Ok(document)
   }
 
+  async findByNameInFolder(name: string, folderId: any) {
+    const document = Array.from(this.documents.values()).find(
+      d => d.name === name && d.folderId === (folderId ?? undefined) && !d.isDeleted()
+    )
+    if (!document) {
+      return Result.Err(new DocumentNotFoundError("unknown" as any))
+    }
+    return Result.Ok(document)
+  }
+
+  async findByFolder(folderId: any, visibleTo?: any) {
+    const documents = Array.from(this.documents.values()).filter(
+      d => d.folderId === (folderId ?? undefined) && !d.isDeleted() && this.isVisibleTo(d, visibleTo)
+    )
+    return Result.Ok(documents)
+  }
+
   async findByFilePath(filePath: string) {
     const document = Array.from(this.documents.values()).find(d => d.filePath === filePath)
     if (!document) {
@@ -117,16 +376,23 @@ class MockDocumentRepository implements DocumentRepository {
   }
 
   async find(query?: any, pagination?: any) {
-    let documents = Array.from(this.documents.values())
+    let documents = Array.from(this.documents.values()).filter(d => !d.isDeleted())
 
     // Apply filters if provided
     if (query) {
+      documents = documents.filter(d => this.isVisibleTo(d, query.visibleTo))
       if (query.name) {
         documents = documents.filter(d => d.name.includes(query.name))
       }
       if (query.mimeType) {
         documents = documents.filter(d => d.mimeType === query.mimeType)
       }
+      if (query.contentHash) {
+        documents = documents.filter(d => d.contentHash === query.contentHash)
+      }
+      if (query.scanStatus) {
+        documents = documents.filter(d => query.scanStatus.includes(d.scanStatus ?? "pending"))
+      }
       if (query.tags && query.tags.length > 0) {
         documents = documents.filter(d => 
           d.tags && query.tags.some((tag: string) => d.tags!.includes(tag))
@@ -146,6 +412,20 @@ class MockDocumentRepository implements DocumentRepository {
     return Result.Ok({ documents, total })
   }
 
+  async findDuplicates(query?: any) {
+    const byHash = Map.groupBy(
+      Array.from(this.documents.values()).filter(
+        d => d.contentHash && !d.isDeleted() && this.isVisibleTo(d, query?.visibleTo)
+      ),
+      d => d.contentHash!
+    )
+    const groups = Array.from(byHash)
+      .filter(([, documents]) => documents.length > 1)
+      .map(([contentHash, documents]) => ({ contentHash, size: documents[0]!.size, documents }))
+      .sort((a, b) => b.size - a.size)
+    return Result.Ok({ groups, total: groups.length })
+  }
+
   async findByTags(tags: string[]) {
     const documents = Array.from(this.documents.values()).filter(d => 
       d.tags && tags.some(tag => d.tags!.includes(tag))
@@ -178,19 +458,28 @@ class MockDocumentRepository implements DocumentRepository {
       return Result.Err(new DocumentNotFoundError(id as any))
     }
     
-    // Create updated document with new fields
-    const updatedDocument = {
+    // Create updated document with new fields (kept as an entity so ownership checks still work)
+    const updatedDocument = DocumentEntity.from({
       ...document,
       ...updates,
-      updatedAt: new Date()
-    }
+      ...(updates.folderId === null && { folderId: undefined }),
+      ...(updates.contentHash === null && { contentHash: undefined }),
+    })
     
     this.documents.set(id, updatedDocument)
     return Result.Ok(updatedDocument)
   }
 
-  async searchDocuments() {
-    return Result.Ok([])
+  // Substring matching stands in for full-text search
+  async searchDocuments(searchTerm: string, query?: any) {
+    const term = searchTerm.toLowerCase()
+    const hits = Array.from(this.documents.values())
+      .filter(d => !d.isDeleted() && this.isVisibleTo(d, query?.visibleTo))
+      .filter(d =>
+        [d.name, ...(d.tags ?? []), this.contents.contents.get(d.id)?.content ?? ""].some(text => text.toLowerCase().includes(term))
+      )
+      .map(document => ({ document, rank: 1, snippet: document.name }))
+    return Result.Ok({ hits, total: hits.length })
   }
 
   async findRecentDocuments() {
@@ -213,11 +502,249 @@ class MockDocumentRepository implements DocumentRepository {
   }
 }
 
+// Mock folder repository for testing
+class MockFolderRepository implements FolderRepository {
+  private folders: Map<string, FolderEntity> = new Map()
+
+  async create(folder: FolderEntity) {
+    this.folders.set(folder.id, folder)
+    return Result.Ok(folder)
+  }
+
+  async update(folder: FolderEntity) {
+    this.folders.set(folder.id, folder)
+    return Result.Ok(folder)
+  }
+
+  async delete(id: any) {
+    this.folders.delete(id)
+    return Result.Ok(undefined)
+  }
+
+  async findById(id: any) {
+    const folder = this.folders.get(id)
+    if (!folder) {
+      return Result.Err(new FolderNotFoundError(id))
+    }
+    return Result.Ok(folder)
+  }
+
+  async findByName(name: string, parentId: any) {
+    const folder = Array.from(this.folders.values()).find(
+      f => f.name === name && f.parentId === (parentId ?? undefined)
+    )
+    if (!folder) {
+      return Result.Err(new FolderNotFoundError("unknown" as any))
+    }
+    return Result.Ok(folder)
+  }
+
+  async findChildren(parentId: any) {
+    return Result.Ok(Array.from(this.folders.values()).filter(f => f.parentId === (parentId ?? undefined)))
+  }
+
+  async findAncestors() {
+    return Result.Ok([])
+  }
+}
+
+// Mock version repository for testing
+class MockDocumentVersionRepository implements DocumentVersionRepository {
+  private versions: Map<string, DocumentVersionEntity> = new Map()
+  failCreates = false
+
+  async create(version: DocumentVersionEntity) {
+    if (this.failCreates) {
+      return Result.Err(new DocumentVersionAlreadyExistsError(version.documentId, version.versionNumber))
+    }
+    const duplicate = Array.from(this.versions.values()).some(
+      v => v.documentId === version.documentId && v.versionNumber === version.versionNumber
+    )
+    if (duplicate) {
+      return Result.Err(new DocumentVersionAlreadyExistsError(version.documentId, version.versionNumber))
+    }
+    this.versions.set(version.id, version)
+    return Result.Ok(version)
+  }
+
+  async findById(id: any) {
+    const version = this.versions.get(id)
+    if (!version) {
+      return Result.Err(new DocumentVersionNotFoundError(id))
+    }
+    return Result.Ok(version)
+  }
+
+  async delete(id: any) {
+    if (!this.versions.delete(id)) {
+      return Result.Err(new DocumentVersionNotFoundError(id))
+    }
+    return Result.Ok(undefined)
+  }
+
+  async findByDocumentId(documentId: any) {
+    const versions = Array.from(this.versions.values())
+      .filter(v => v.documentId === documentId)
+      .sort((a, b) => b.versionNumber - a.versionNumber)
+    return Result.Ok(versions)
+  }
+
+  async isFileShared(filePath: string, documentId: any) {
+    return Result.Ok(
+      Array.from(this.versions.values()).some(v => v.filePath === filePath && v.documentId !== documentId)
+    )
+  }
+
+  deleteByDocumentId(documentId: string) {
+    for (const version of Array.from(this.versions.values())) {
+      if (version.documentId === documentId) {
+        this.versions.delete(version.id)
+      }
+    }
+  }
+}
+
+// Mock permission repository for testing
+class MockDocumentPermissionRepository implements DocumentPermissionRepository {
+  private permissions: Map<string, DocumentPermissionEntity> = new Map()
+
+  hasGrant(documentId: string, userId: string) {
+    return this.permissions.has(`${documentId}/${userId}`)
+  }
+
+  async upsert(permission: DocumentPermissionEntity) {
+    this.permissions.set(`${permission.documentId}/${permission.userId}`, permission)
+    return Result.Ok(permission)
+  }
+
+  async revoke(documentId: any, userId: any) {
+    if (!this.permissions.delete(`${documentId}/${userId}`)) {
+      return Result.Err(new DocumentPermissionNotFoundError(documentId, userId))
+    }
+    return Result.Ok(undefined)
+  }
+
+  async findByDocumentAndUser(documentId: any, userId: any) {
+    const permission = this.permissions.get(`${documentId}/${userId}`)
+    if (!permission) {
+      return Result.Err(new DocumentPermissionNotFoundError(documentId, userId))
+    }
+    return Result.Ok(permission)
+  }
+
+  async findByDocumentId(documentId: any) {
+    return Result.Ok(Array.from(this.permissions.values()).filter(p => p.documentId === documentId))
+  }
+}
+
+// Mock upload repository for testing
+class MockDocumentUploadRepository implements DocumentUploadRepository {
+  uploads: Map<string, DocumentUploadEntity> = new Map()
+
+  async create(upload: DocumentUploadEntity) {
+    this.uploads.set(upload.id, upload)
+    return Result.Ok(upload)
+  }
+
+  async update(upload: DocumentUploadEntity) {
+    if (!this.uploads.has(upload.id)) {
+      return Result.Err(new DocumentUploadNotFoundError(upload.id))
+    }
+    this.uploads.set(upload.id, upload)
+    return Result.Ok(upload)
+  }
+
+  async delete(id: any) {
+    if (!this.uploads.delete(id)) {
+      return Result.Err(new DocumentUploadNotFoundError(id))
+    }
+    return Result.Ok(undefined)
+  }
+
+  async findById(id: any) {
+    const upload = this.uploads.get(id)
+    if (!upload) {
+      return Result.Err(new DocumentUploadNotFoundError(id))
+    }
+    return Result.Ok(upload)
+  }
+
+  async findStaleBefore(cutoff: Date) {
+    return Result.Ok(
+      Array.from(this.uploads.values()).filter(
+        u => !u.isFinalized() && u.updatedAt.epochMillis < cutoff.getTime()
+      )
+    )
+  }
+}
+
+// Mock content repository for testing - keeps the latest extraction per document
+class MockDocumentContentRepository implements DocumentContentRepository {
+  contents: Map<string, DocumentContentEntity> = new Map()
+
+  async save(content: DocumentContentEntity) {
+    this.contents.set(content.documentId, content)
+    return Result.Ok(content)
+  }
+
+  async findByDocumentId(documentId: any) {
+    const content = this.contents.get(documentId)
+    if (!content) {
+      return Result.Err(new DocumentContentNotFoundError(documentId))
+    }
+    return Result.Ok(content)
+  }
+}
+
+// Mock rendition repository for testing
+class MockDocumentRenditionRepository implements DocumentRenditionRepository {
+  renditions: DocumentRenditionEntity[] = []
+
+  async create(rendition: DocumentRenditionEntity) {
+    this.renditions.push(rendition)
+    return Result.Ok(rendition)
+  }
+
+  async findByDocumentId(documentId: any) {
+    return Result.Ok(
+      this.renditions.filter(r => r.documentId === documentId).sort((a, b) => a.size - b.size)
+    )
+  }
+
+  async deleteByDocumentId(documentId: any) {
+    this.renditions = this.renditions.filter(r => r.documentId !== documentId)
+    return Result.Ok(undefined)
+  }
+}
+
+// Mock audit event repository for testing
+class MockAuditEventRepository implements AuditEventRepository {
+  events: AuditEventEntity[] = []
+
+  async append(event: AuditEventEntity) {
+    this.events.push(event)
+    return Result.Ok(event)
+  }
+
+  async find() {
+    const events = [...this.events].reverse()
+    return Result.Ok({ events, total: events.length })
+  }
+}
+
 describe("DocumentWorkflows", () => {
   let documentWorkflows: DocumentWorkflows
   let mockRepository: MockDocumentRepository
   let mockStorageService: MockStorageService
   let mockJwtService: MockJwtService
+  let mockVersionRepository: MockDocumentVersionRepository
+  let mockFolderRepository: MockFolderRepository
+  let mockPermissionRepository: MockDocumentPermissionRepository
+  let mockUploadRepository: MockDocumentUploadRepository
+  let mockContentRepository: MockDocumentContentRepository
+  let mockRenditionRepository: MockDocumentRenditionRepository
+  let mockContentScanner: MockContentScanner
+  let mockAuditRepository: MockAuditEventRepository
   let mockAdminUser: UserEntity
 
   // Helper function to create a proper file object for tests
@@ -229,9 +756,17 @@ describe("DocumentWorkflows", () => {
   })
 
   beforeEach(() => {
-    mockRepository = new MockDocumentRepository()
+    mockPermissionRepository = new MockDocumentPermissionRepository()
+    mockContentRepository = new MockDocumentContentRepository()
+    mockVersionRepository = new MockDocumentVersionRepository()
+    mockRepository = new MockDocumentRepository(mockPermissionRepository, mockContentRepository, mockVersionRepository)
     mockStorageService = new MockStorageService()
     mockJwtService = new MockJwtService()
+    mockFolderRepository = new MockFolderRepository()
+    mockUploadRepository = new MockDocumentUploadRepository()
+    mockRenditionRepository = new MockDocumentRenditionRepository()
+    mockContentScanner = new MockContentScanner()
+    mockAuditRepository = new MockAuditEventRepository()
     mockAdminUser = UserEntity.create({
       name: "Admin User",
       email: "admin@example.com",
@@ -241,7 +776,18 @@ describe("DocumentWorkflows", () => {
     documentWorkflows = new DocumentWorkflows(
       mockRepository,
       mockStorageService as any,
-      mockJwtService as any
+      mockJwtService as any,
+      mockVersionRepository,
+      mockFolderRepository,
+      mockPermissionRepository,
+      mockUploadRepository,
+      mockContentRepository,
+      new ContentExtractionService(),
+      mockRenditionRepository,
+      new RenditionService(),
+      new UploadPolicyService(),
+      mockContentScanner,
+      new AuditLogger(mockAuditRepository)
     )
   })
 
@@ -293,6 +839,19 @@ describe("DocumentWorkflows", () => {
         expect(document.metadata).toEqual({})
       }
     })
+
+    it("should report a file it cannot read as invalid", async () => {
+      const uploadDto = UploadDocumentDto.create({
+        name: "test-document.txt",
+        file: { name: "test-document.txt" }
+      }).unwrap()
+
+      const result = await documentWorkflows.uploadDocument(mockAdminUser, uploadDto)
+
+      expect(result.isErr()).toBe(true)
+      expect(result.unwrapErr().status).toBe(AppErrStatus.InvalidData)
+      expect(result.unwrapErr().cause).toBeInstanceOf(DocumentFileError)
+    })
   })
 
   describe("getDocuments", () => {
@@ -319,7 +878,7 @@ describe("DocumentWorkflows", () => {
     })
 
     it("should get all documents without filters", async () => {
-      const result = await documentWorkflows.getDocuments()
+      const result = await documentWorkflows.getDocuments(mockAdminUser)
       
       expect(result.isOk()).toBe(true)
       if (result.isOk()) {
@@ -337,7 +896,7 @@ describe("DocumentWorkflows", () => {
         throw new Error("Failed to create filters")
       }
 
-      const result = await documentWorkflows.getDocuments(filters.unwrap())
+      const result = await documentWorkflows.getDocuments(mockAdminUser, filters.unwrap())
       
       expect(result.isOk()).toBe(true)
       if (result.isOk()) {
@@ -356,7 +915,7 @@ describe("DocumentWorkflows", () => {
         throw new Error("Failed to create filters")
       }
 
-      const result = await documentWorkflows.getDocuments(filters.unwrap())
+      const result = await documentWorkflows.getDocuments(mockAdminUser, filters.unwrap())
       
       expect(result.isOk()).toBe(true)
       if (result.isOk()) {
@@ -375,7 +934,7 @@ describe("DocumentWorkflows", () => {
         throw new Error("Failed to create filters")
       }
 
-      const result = await documentWorkflows.getDocuments(filters.unwrap())
+      const result = await documentWorkflows.getDocuments(mockAdminUser, filters.unwrap())
       
       expect(result.isOk()).toBe(true)
       if (result.isOk()) {
@@ -395,7 +954,7 @@ describe("DocumentWorkflows", () => {
         throw new Error("Failed to create pagination")
       }
 
-      const result = await documentWorkflows.getDocuments(undefined, pagination.unwrap())
+      const result = await documentWorkflows.getDocuments(mockAdminUser, undefined, pagination.unwrap())
       
       expect(result.isOk()).toBe(true)
       if (result.isOk()) {
@@ -424,7 +983,7 @@ describe("DocumentWorkflows", () => {
       }
 
       const documentId = uploadResult.unwrap().id
-      const result = await documentWorkflows.getDocumentById(documentId)
+      const result = await documentWorkflows.getDocumentById(mockAdminUser, documentId)
       
       expect(result.isOk()).toBe(true)
       if (result.isOk()) {
@@ -434,7 +993,7 @@ describe("DocumentWorkflows", () => {
     })
 
     it("should fail for non-existent document", async () => {
-      const result = await documentWorkflows.getDocumentById("non-existent-id")
+      const result = await documentWorkflows.getDocumentById(mockAdminUser, "non-existent-id")
       
       expect(result.isErr()).toBe(true)
     })
@@ -534,10 +1093,62 @@ describe("DocumentWorkflows", () => {
         throw new Error("Failed to create DTO")
       }
 
-      const result = await documentWorkflows.patchDocument(mockAdminUser,"non-existent-id", patchDto.unwrap())
+      const result = await documentWorkflows.patchDocument(mockAdminUser, "non-existent-id", patchDto.unwrap())
       
       expect(result.isErr()).toBe(true)
     })
+
+    it("should save the patch when the document is still at the expected version", async () => {
+      const patch = PatchDocumentDto.create({ name: "updated-name.txt" }).unwrap()
+
+      const result = await documentWorkflows.patchDocument(mockAdminUser, documentId, patch, 1)
+
+      expect(result.unwrap().name).toBe("updated-name.txt")
+      expect(result.unwrap().version).toBe(2)
+    })
+
+    it("should refuse a patch made against an older version", async () => {
+      const first = PatchDocumentDto.create({ name: "first-name.txt" }).unwrap()
+      const second = PatchDocumentDto.create({ name: "second-name.txt" }).unwrap()
+      await documentWorkflows.patchDocument(mockAdminUser, documentId, first, 1)
+
+      const result = await documentWorkflows.patchDocument(mockAdminUser, documentId, second, 1)
+
+      expect(result.unwrapErr().status).toBe(AppErrStatus.PreconditionFailed)
+      expect(result.unwrapErr().cause).toBeInstanceOf(DocumentModifiedError)
+      expect((await documentWorkflows.getDocumentById(mockAdminUser, documentId)).unwrap().name).toBe("first-name.txt")
+    })
+
+    it("should not overwrite a change saved since the document was read", async () => {
+      // Someone else tags the document between each read and write below
+      const tagAfterRead = () => {
+        const findById = mockRepository.findById.bind(mockRepository)
+        mockRepository.findById = async (id: any) => {
+          const read = await findById(id)
+          mockRepository.findById = findById
+          const current = (await documentWorkflows.getDocumentById(mockAdminUser, id)).unwrap()
+          await mockRepository.update(current.update({ tags: ["concurrent"] }))
+          return read
+        }
+      }
+
+      tagAfterRead()
+      const patch = await documentWorkflows.patchDocument(mockAdminUser, documentId, PatchDocumentDto.create({ name: "renamed.txt" }).unwrap())
+      tagAfterRead()
+      const move = await documentWorkflows.moveDocument(mockAdminUser, documentId, MoveDocumentDto.create({ folderId: null }).unwrap())
+      tagAfterRead()
+      const trash = await documentWorkflows.deleteDocument(mockAdminUser, documentId)
+
+      for (const result of [patch, move, trash]) {
+        expect(result.isErr()).toBe(true)
+        expect(result.unwrapErr().status).toBe(AppErrStatus.PreconditionFailed)
+        expect(result.unwrapErr().cause).toBeInstanceOf(DocumentModifiedError)
+      }
+      const document = (await documentWorkflows.getDocumentById(mockAdminUser, documentId)).unwrap()
+      expect(document.name).not.toBe("renamed.txt")
+      expect(document.tags).toEqual(["concurrent"])
+      expect(document.isDeleted()).toBe(false)
+    })
   })
 
   describe("deleteDocument", () => {
@@ -559,51 +1170,150 @@ describe("DocumentWorkflows", () => {
       }
 
       const documentId = uploadResult.unwrap().id
-      const result = await documentWorkflows.deleteDocument(mockAdminUser,documentId)
+      const result = await documentWorkflows.deleteDocument(mockAdminUser, documentId)
       
       expect(result.isOk()).toBe(true)
       if (result.isOk()) {
         const data = result.unwrap()
         expect(data.success).toBe(true)
-        expect(data.message).toBe("Document deleted successfully")
+        expect(data.message).toBe("Document moved to trash")
       }
     })
 
     it("should fail for non-existent document", async () => {
-      const result = await documentWorkflows.deleteDocument(mockAdminUser,"non-existent-id")
+      const result = await documentWorkflows.deleteDocument(mockAdminUser, "non-existent-id")
       
       expect(result.isErr()).toBe(true)
     })
   })
 
-  describe("generateDownloadToken", () => {
-    let documentId: string
+  describe("trash", () => {
+    let document: DocumentEntity
 
-    beforeEach(async () => {
-      // Upload a test document
-      const fileBuffer = Buffer.from("test content")
+    const upload = async (name: string, user: UserEntity = mockAdminUser) => {
       const uploadDto = UploadDocumentDto.create({
-        name: "test-document.txt",
-        file: createFileObject(fileBuffer, "test-document.txt", "text/plain")
+        name,
+        file: createFileObject(Buffer.from("test content"), name, "text/plain")
       })
+      return (await documentWorkflows.uploadDocument(user, uploadDto.unwrap())).unwrap()
+    }
 
-      if (uploadDto.isErr()) {
-        throw new Error("Failed to create DTO")
-      }
+    beforeEach(async () => {
+      document = await upload("contract.txt")
+      await documentWorkflows.deleteDocument(mockAdminUser, document.id)
+    })
 
-      const uploadResult = await documentWorkflows.uploadDocument(mockAdminUser, uploadDto.unwrap())
-      if (!uploadResult.isOk()) {
-        throw new Error("Failed to upload document")
-      }
+    it("should hide trashed documents but keep their files", async () => {
+      const byId = await documentWorkflows.getDocumentById(mockAdminUser, document.id)
+      const list = await documentWorkflows.getDocuments(mockAdminUser)
+      const file = await mockStorageService.download(document.filePath)
 
-      documentId = uploadResult.unwrap().id
+      expect(byId.isErr()).toBe(true)
+      expect(list.unwrap().documents).toHaveLength(0)
+      expect(file.isOk()).toBe(true)
     })
 
-    it("should generate download token", async () => {
-      const result = await documentWorkflows.generateDownloadToken(documentId)
-      
+    it("should list trashed documents", async () => {
+      const result = await documentWorkflows.getTrash(mockAdminUser)
+
       expect(result.isOk()).toBe(true)
-      if (result.isOk()) {
+      expect(result.unwrap().documents.map(d => d.id)).toEqual([document.id])
+      expect(result.unwrap().documents[0]?.isDeleted()).toBe(true)
+    })
+
+    it("should only list trashed documents the caller can see", async () => {
+      const user = UserEntity.create({
+        name: "Regular User",
+        email: "user@example.com",
+        password: "password123",
+        role: "user"
+      })
+      const own = await upload("notes.txt", user)
+      await documentWorkflows.deleteDocument(user, own.id)
+
+      const result = await documentWorkflows.getTrash(user)
+
+      expect(result.unwrap().documents.map(d => d.id)).toEqual([own.id])
+    })
+
+    it("should restore a trashed document", async () => {
+      const result = await documentWorkflows.restoreDocument(mockAdminUser, document.id)
+
+      expect(result.isOk()).toBe(true)
+      expect(result.unwrap().isDeleted()).toBe(false)
+      expect((await documentWorkflows.getDocumentById(mockAdminUser, document.id)).isOk()).toBe(true)
+      expect((await documentWorkflows.getTrash(mockAdminUser)).unwrap().total).toBe(0)
+    })
+
+    it("should not restore onto a name taken while in the trash", async () => {
+      await upload("contract.txt")
+
+      const result = await documentWorkflows.restoreDocument(mockAdminUser, document.id)
+
+      expect(result.isErr()).toBe(true)
+    })
+
+    it("should only restore or permanently delete documents in the trash", async () => {
+      const live = await upload("live.txt")
+
+      const restore = await documentWorkflows.restoreDocument(mockAdminUser, live.id)
+      const permanent = await documentWorkflows.permanentlyDeleteDocument(mockAdminUser, live.id)
+
+      expect(restore.isErr()).toBe(true)
+      expect(permanent.isErr()).toBe(true)
+    })
+
+    it("should permanently delete a trashed document and its files", async () => {
+      const result = await documentWorkflows.permanentlyDeleteDocument(mockAdminUser, document.id)
+
+      expect(result.isOk()).toBe(true)
+      expect(result.unwrap().message).toBe("Document deleted permanently")
+      expect((await documentWorkflows.getTrash(mockAdminUser)).unwrap().total).toBe(0)
+      expect((await mockStorageService.download(document.filePath)).isErr()).toBe(true)
+    })
+
+    it("should purge only documents trashed before the cutoff", async () => {
+      const recent = await upload("recent.txt")
+
+      const first = await documentWorkflows.purgeDeletedDocuments(new Date(Date.now() + 60_000))
+      await documentWorkflows.deleteDocument(mockAdminUser, recent.id)
+      const second = await documentWorkflows.purgeDeletedDocuments(new Date(Date.now() - 60_000))
+
+      expect(first.unwrap()).toEqual({ purged: 1, failed: 0 })
+      expect(second.unwrap()).toEqual({ purged: 0, failed: 0 })
+      expect((await documentWorkflows.getTrash(mockAdminUser)).unwrap().documents.map(d => d.id)).toEqual([recent.id])
+      expect((await mockStorageService.download(document.filePath)).isErr()).toBe(true)
+    })
+  })
+
+  describe("generateDownloadToken", () => {
+    let documentId: string
+
+    beforeEach(async () => {
+      // Upload a test document
+      const fileBuffer = Buffer.from("test content")
+      const uploadDto = UploadDocumentDto.create({
+        name: "test-document.txt",
+        file: createFileObject(fileBuffer, "test-document.txt", "text/plain")
+      })
+
+      if (uploadDto.isErr()) {
+        throw new Error("Failed to create DTO")
+      }
+
+      const uploadResult = await documentWorkflows.uploadDocument(mockAdminUser, uploadDto.unwrap())
+      if (!uploadResult.isOk()) {
+        throw new Error("Failed to upload document")
+      }
+
+      documentId = uploadResult.unwrap().id
+    })
+
+    it("should generate download token", async () => {
+      const result = await documentWorkflows.generateDownloadToken(mockAdminUser, documentId)
+      
+      expect(result.isOk()).toBe(true)
+      if (result.isOk()) {
         const token = result.unwrap()
         expect(token).toContain("mock-token-")
         expect(token).toContain(documentId)
@@ -611,7 +1321,7 @@ describe("DocumentWorkflows", () => {
     })
 
     it("should generate token with custom expiry", async () => {
-      const result = await documentWorkflows.generateDownloadToken(documentId, 120)
+      const result = await documentWorkflows.generateDownloadToken(mockAdminUser, documentId, 120)
       
       expect(result.isOk()).toBe(true)
       if (result.isOk()) {
@@ -622,7 +1332,7 @@ describe("DocumentWorkflows", () => {
     })
 
     it("should fail for non-existent document", async () => {
-      const result = await documentWorkflows.generateDownloadToken("non-existent-id")
+      const result = await documentWorkflows.generateDownloadToken(mockAdminUser, "non-existent-id")
       
       expect(result.isErr()).toBe(true)
     })
@@ -652,7 +1362,7 @@ describe("DocumentWorkflows", () => {
       documentId = uploadResult.unwrap().id
 
       // Generate a token
-      const tokenResult = await documentWorkflows.generateDownloadToken(documentId)
+      const tokenResult = await documentWorkflows.generateDownloadToken(mockAdminUser, documentId)
       if (!tokenResult.isOk()) {
         throw new Error("Failed to generate token")
       }
@@ -678,5 +1388,1697 @@ describe("DocumentWorkflows", () => {
       
       expect(result.isErr()).toBe(true)
     })
+
+    it("should record the content hash of the uploaded file", async () => {
+      const download = (await documentWorkflows.resolveDownload(token)).unwrap()
+      const versions = (await documentWorkflows.getDocumentVersions(mockAdminUser, documentId)).unwrap()
+
+      expect(download.document.contentHash).toBe(sha256(Buffer.from("test content")))
+      expect(versions[0]!.contentHash).toBe(download.document.contentHash)
+    })
+
+    it("should stream the whole file or a byte range of it", async () => {
+      const download = (await documentWorkflows.resolveDownload(token)).unwrap()
+
+      const full = await documentWorkflows.openDownloadStream(download)
+      const partial = await documentWorkflows.openDownloadStream(download, { start: 5, end: 11 })
+
+      expect(await new Response(full.unwrap()).text()).toBe("test content")
+      expect(await new Response(partial.unwrap()).text()).toBe("content")
+    })
+  })
+
+  describe("document versions", () => {
+    let documentId: string
+
+    const uploadVersion = async (content: string) => {
+      const versionDto = UploadDocumentVersionDto.create({
+        file: createFileObject(Buffer.from(content), "test-document.txt", "text/plain")
+      })
+
+      if (versionDto.isErr()) {
+        throw new Error("Failed to create DTO")
+      }
+
+      return documentWorkflows.uploadDocumentVersion(mockAdminUser, documentId, versionDto.unwrap())
+    }
+
+    beforeEach(async () => {
+      const fileBuffer = Buffer.from("version one")
+      const uploadDto = UploadDocumentDto.create({
+        name: "test-document.txt",
+        file: createFileObject(fileBuffer, "test-document.txt", "text/plain")
+      })
+
+      if (uploadDto.isErr()) {
+        throw new Error("Failed to create DTO")
+      }
+
+      const uploadResult = await documentWorkflows.uploadDocument(mockAdminUser, uploadDto.unwrap())
+      if (!uploadResult.isOk()) {
+        throw new Error("Failed to upload document")
+      }
+
+      documentId = String(uploadResult.unwrap().id)
+    })
+
+    it("should record the initial upload as version 1", async () => {
+      const result = await documentWorkflows.getDocumentVersions(mockAdminUser, documentId)
+
+      expect(result.isOk()).toBe(true)
+      if (result.isOk()) {
+        const versions = result.unwrap()
+        expect(versions).toHaveLength(1)
+        expect(versions[0]?.versionNumber).toBe(1)
+        expect(versions[0]?.createdBy).toBe(mockAdminUser.id)
+      }
+    })
+
+    it("should upload a new version and update the document", async () => {
+      const result = await uploadVersion("version two!")
+
+      expect(result.isOk()).toBe(true)
+      if (result.isOk()) {
+        const version = result.unwrap()
+        expect(version.versionNumber).toBe(2)
+        expect(version.size).toBe("version two!".length)
+
+        const documentResult = await documentWorkflows.getDocumentById(mockAdminUser, documentId)
+        expect(documentResult.unwrap().filePath).toBe(version.filePath)
+      }
+
+      const versions = await documentWorkflows.getDocumentVersions(mockAdminUser, documentId)
+      expect(versions.unwrap().map(v => v.versionNumber)).toEqual([2, 1])
+    })
+
+    it("should restore an earlier version as a new version", async () => {
+      await uploadVersion("version two!")
+      const versions = (await documentWorkflows.getDocumentVersions(mockAdminUser, documentId)).unwrap()
+      const firstVersion = versions.find(v => v.versionNumber === 1)!
+
+      const result = await documentWorkflows.restoreDocumentVersion(mockAdminUser, documentId, String(firstVersion.id))
+
+      expect(result.isOk()).toBe(true)
+      if (result.isOk()) {
+        const restored = result.unwrap()
+        expect(restored.versionNumber).toBe(3)
+        expect(restored.filePath).toBe(firstVersion.filePath)
+
+        const documentResult = await documentWorkflows.getDocumentById(mockAdminUser, documentId)
+        expect(documentResult.unwrap().filePath).toBe(firstVersion.filePath)
+        expect(documentResult.unwrap().size).toBe(firstVersion.size)
+        expect(documentResult.unwrap().contentHash).toBe(sha256(Buffer.from("version one")))
+      }
+    })
+
+    it("should not restore a version of another document", async () => {
+      const otherUpload = UploadDocumentDto.create({
+        name: "other-document.txt",
+        file: createFileObject(Buffer.from("other"), "other-document.txt", "text/plain")
+      })
+      const otherDocument = (await documentWorkflows.uploadDocument(mockAdminUser, otherUpload.unwrap())).unwrap()
+      const otherVersion = (await documentWorkflows.getDocumentVersions(mockAdminUser, String(otherDocument.id))).unwrap()[0]!
+
+      const result = await documentWorkflows.restoreDocumentVersion(mockAdminUser, documentId, String(otherVersion.id))
+
+      expect(result.isErr()).toBe(true)
+    })
+
+    it("should fail to list versions for non-existent document", async () => {
+      const result = await documentWorkflows.getDocumentVersions(mockAdminUser, "non-existent-id")
+
+      expect(result.isErr()).toBe(true)
+    })
+
+    it("should download a specific version by token", async () => {
+      await uploadVersion("version two!")
+      const versions = (await documentWorkflows.getDocumentVersions(mockAdminUser, documentId)).unwrap()
+      const firstVersion = versions.find(v => v.versionNumber === 1)!
+
+      const tokenResult = await documentWorkflows.generateDownloadToken(mockAdminUser, documentId, 5, String(firstVersion.id))
+      expect(tokenResult.isOk()).toBe(true)
+
+      const result = await documentWorkflows.downloadDocumentByToken(tokenResult.unwrap())
+
+      expect(result.isOk()).toBe(true)
+      if (result.isOk()) {
+        const data = result.unwrap()
+        expect(data.file.toString()).toBe("version one")
+        expect(data.version?.versionNumber).toBe(1)
+      }
+    })
+  })
+
+  describe("folders", () => {
+    let folder: FolderEntity
+
+    const upload = (name: string, folderId?: string) => {
+      const uploadDto = UploadDocumentDto.create({
+        name,
+        file: createFileObject(Buffer.from("test content"), name, "text/plain"),
+        folderId
+      })
+
+      if (uploadDto.isErr()) {
+        throw new Error("Failed to create DTO")
+      }
+
+      return documentWorkflows.uploadDocument(mockAdminUser, uploadDto.unwrap())
+    }
+
+    beforeEach(async () => {
+      folder = FolderEntity.create({ name: "Acme" })
+      await mockFolderRepository.create(folder)
+    })
+
+    it("should upload a document into a folder", async () => {
+      const result = await upload("contract.txt", folder.id)
+
+      expect(result.isOk()).toBe(true)
+      expect(result.unwrap().folderId).toBe(folder.id)
+    })
+
+    it("should fail to upload into a non-existent folder", async () => {
+      const result = await upload("contract.txt", "00000000-0000-4000-8000-000000000000")
+
+      expect(result.isErr()).toBe(true)
+    })
+
+    it("should allow the same name in different folders", async () => {
+      const atRoot = await upload("contract.txt")
+      const inFolder = await upload("contract.txt", folder.id)
+
+      expect(atRoot.isOk()).toBe(true)
+      expect(inFolder.isOk()).toBe(true)
+    })
+
+    it("should reject the same name twice in one folder", async () => {
+      await upload("contract.txt", folder.id)
+      const result = await upload("contract.txt", folder.id)
+
+      expect(result.isErr()).toBe(true)
+    })
+
+    it("should move a document into a folder and back to the root", async () => {
+      const document = (await upload("contract.txt")).unwrap()
+
+      const moved = await documentWorkflows.moveDocument(
+        mockAdminUser,
+        document.id,
+        MoveDocumentDto.create({ folderId: folder.id }).unwrap()
+      )
+      expect(moved.isOk()).toBe(true)
+      expect(moved.unwrap().folderId).toBe(folder.id)
+
+      const backToRoot = await documentWorkflows.moveDocument(
+        mockAdminUser,
+        document.id,
+        MoveDocumentDto.create({ folderId: null }).unwrap()
+      )
+      expect(backToRoot.isOk()).toBe(true)
+      expect(backToRoot.unwrap().folderId).toBeUndefined()
+    })
+
+    it("should not move a document onto a name already used in the target folder", async () => {
+      await upload("contract.txt", folder.id)
+      const document = (await upload("contract.txt")).unwrap()
+
+      const result = await documentWorkflows.moveDocument(
+        mockAdminUser,
+        document.id,
+        MoveDocumentDto.create({ folderId: folder.id }).unwrap()
+      )
+
+      expect(result.isErr()).toBe(true)
+    })
+
+    it("should not rename a document onto a sibling's name", async () => {
+      await upload("first.txt", folder.id)
+      const second = (await upload("second.txt", folder.id)).unwrap()
+
+      const result = await documentWorkflows.patchDocument(
+        mockAdminUser,
+        second.id,
+        PatchDocumentDto.create({ name: "first.txt" }).unwrap()
+      )
+
+      expect(result.isErr()).toBe(true)
+    })
+  })
+
+  describe("searchDocuments", () => {
+    const upload = async (name: string, content: string | Buffer, mimeType: string, user: UserEntity = mockAdminUser) => {
+      const uploadDto = UploadDocumentDto.create({
+        name,
+        file: createFileObject(Buffer.from(content), name, mimeType)
+      })
+      return (await documentWorkflows.uploadDocument(user, uploadDto.unwrap())).unwrap()
+    }
+
+    const search = (query: string, user: UserEntity = mockAdminUser) =>
+      documentWorkflows.searchDocuments(user, SearchDocumentsDto.create({ query }).unwrap())
+
+    it("should find documents by the content of text files", async () => {
+      const minutes = await upload("minutes.md", "Quarterly budget review", "text/markdown")
+      const photo = await upload("photo.png", Buffer.from([0x89, 0x50, 0x4e, 0x47]), "image/png")
+
+      const result = await search("budget")
+
+      expect(result.isOk()).toBe(true)
+      expect(result.unwrap().hits.map(hit => hit.document.id)).toEqual([minutes.id])
+      expect(mockContentRepository.contents.get(photo.id)?.content).toBeUndefined()
+    })
+
+    it("should reindex the content when a new version is uploaded", async () => {
+      const notes = await upload("notes.txt", "first draft", "text/plain")
+
+      await documentWorkflows.uploadDocumentVersion(
+        mockAdminUser,
+        notes.id,
+        UploadDocumentVersionDto.create({
+          file: createFileObject(Buffer.from("final wording"), "notes.txt", "text/plain")
+        }).unwrap()
+      )
+
+      expect((await search("draft")).unwrap().total).toBe(0)
+      expect((await search("wording")).unwrap().total).toBe(1)
+    })
+
+    it("should index resumable uploads from storage", async () => {
+      const started = (await documentWorkflows.createUpload(
+        mockAdminUser,
+        CreateDocumentUploadDto.create({ name: "log.txt", size: 12, mimeType: "text/plain" }).unwrap()
+      )).unwrap()
+
+      const completed = await documentWorkflows.appendUploadChunk(mockAdminUser, started.id, 0, Buffer.from("disk failure"))
+
+      expect(mockContentRepository.contents.get(completed.unwrap().documentId!)?.content).toBe("disk failure")
+    })
+
+    it("should only return documents the caller can read", async () => {
+      const user = UserEntity.create({
+        name: "Regular User",
+        email: "user@example.com",
+        password: "password123",
+        role: "user"
+      })
+      await upload("admin-budget.txt", "budget", "text/plain")
+      const own = await upload("my-budget.txt", "budget", "text/plain", user)
+
+      const result = await search("budget", user)
+
+      expect(result.unwrap().hits.map(hit => hit.document.id)).toEqual([own.id])
+    })
+  })
+
+  describe("content extraction", () => {
+    const upload = async (name: string, content: string | Buffer, mimeType: string) => {
+      const uploadDto = UploadDocumentDto.create({
+        name,
+        file: createFileObject(Buffer.from(content), name, mimeType)
+      })
+      return (await documentWorkflows.uploadDocument(mockAdminUser, uploadDto.unwrap())).unwrap()
+    }
+
+    it("should record the extracted text after an upload", async () => {
+      const notes = await upload("notes.md", "# Minutes\n\nThe **budget** was approved.", "text/markdown")
+
+      const result = await documentWorkflows.getDocumentContent(mockAdminUser, notes.id)
+
+      expect(result.isOk()).toBe(true)
+      const content = result.unwrap()
+      expect(content.status).toBe("extracted")
+      expect(content.extractor).toBe("markdown")
+      expect(content.content).toBe("Minutes\n\nThe budget was approved.")
+    })
+
+    it("should record unsupported types and failed extractions without failing the upload", async () => {
+      const photo = await upload("photo.png", Buffer.from([0x89, 0x50, 0x4e, 0x47]), "image/png")
+      const broken = await upload("broken.pdf", "not really a pdf", "application/pdf")
+
+      const photoContent = (await documentWorkflows.getDocumentContent(mockAdminUser, photo.id)).unwrap()
+      const brokenContent = (await documentWorkflows.getDocumentContent(mockAdminUser, broken.id)).unwrap()
+
+      expect(photoContent.status).toBe("unsupported")
+      expect(brokenContent.status).toBe("failed")
+      expect(brokenContent.extractor).toBe("pdf")
+      expect(brokenContent.error).toBe("Not a PDF file")
+    })
+
+    it("should extract restored versions from storage", async () => {
+      const data = await upload("data.json", JSON.stringify({ title: "first" }), "application/json")
+      await documentWorkflows.uploadDocumentVersion(
+        mockAdminUser,
+        data.id,
+        UploadDocumentVersionDto.create({
+          file: createFileObject(Buffer.from("{ broken"), "data.json", "application/json")
+        }).unwrap()
+      )
+      expect(mockContentRepository.contents.get(data.id)?.status).toBe("failed")
+
+      const versions = (await documentWorkflows.getDocumentVersions(mockAdminUser, data.id)).unwrap()
+      const first = versions.find(v => v.versionNumber === 1)!
+      await documentWorkflows.restoreDocumentVersion(mockAdminUser, data.id, first.id)
+
+      const content = mockContentRepository.contents.get(data.id)
+      expect(content?.status).toBe("extracted")
+      expect(content?.content).toBe("first")
+    })
+
+    it("should hide the content of documents the caller can't read", async () => {
+      const user = UserEntity.create({
+        name: "Regular User",
+        email: "user@example.com",
+        password: "password123",
+        role: "user"
+      })
+      const notes = await upload("notes.txt", "confidential", "text/plain")
+
+      const result = await documentWorkflows.getDocumentContent(user, notes.id)
+
+      expect(result.isErr()).toBe(true)
+      expect(result.unwrapErr().status).toBe(AppErrStatus.NotFound)
+    })
+  })
+
+  describe("duplicates", () => {
+    const regularUser = UserEntity.create({
+      name: "Regular User",
+      email: "user@example.com",
+      password: "password123",
+      role: "user"
+    })
+
+    const upload = async (
+      name: string,
+      content: string,
+      duplicates?: "allow" | "reject" | "link",
+      user: UserEntity = mockAdminUser
+    ) => {
+      const uploadDto = UploadDocumentDto.create({
+        name,
+        file: createFileObject(Buffer.from(content), name, "text/plain"),
+        duplicates
+      })
+      return documentWorkflows.uploadDocument(user, uploadDto.unwrap())
+    }
+
+    it("should group documents with identical files", async () => {
+      const first = (await upload("first.txt", "same content")).unwrap()
+      const second = (await upload("second.txt", "same content")).unwrap()
+      await upload("other.txt", "other content")
+
+      const { groups, total } = (await documentWorkflows.getDuplicates(mockAdminUser)).unwrap()
+
+      expect(total).toBe(1)
+      expect(groups[0]?.contentHash).toBe(sha256(Buffer.from("same content")))
+      expect(groups[0]?.documents.map(d => d.id)).toEqual([first.id, second.id])
+    })
+
+    it("should only group documents the caller can read", async () => {
+      await upload("admin.txt", "same content")
+      await upload("user.txt", "same content", "allow", regularUser)
+
+      const { groups } = (await documentWorkflows.getDuplicates(regularUser)).unwrap()
+
+      expect(groups).toHaveLength(0)
+    })
+
+    it("should reject duplicates on request", async () => {
+      const first = (await upload("first.txt", "same content")).unwrap()
+
+      const result = await upload("second.txt", "same content", "reject")
+
+      expect(result.isErr()).toBe(true)
+      expect(result.unwrapErr().status).toBe(AppErrStatus.Conflict)
+      expect(result.unwrapErr().message).toContain(first.id)
+      expect((await upload("third.txt", "new content", "reject")).isOk()).toBe(true)
+    })
+
+    it("should link duplicates to the stored file and keep it while any document uses it", async () => {
+      const first = (await upload("first.txt", "same content")).unwrap()
+      const storedFiles = mockStorageService.files.size
+
+      const linked = (await upload("second.txt", "same content", "link")).unwrap()
+
+      expect(linked.id).not.toBe(first.id)
+      expect(linked.filePath).toBe(first.filePath)
+      expect(mockStorageService.files.size).toBe(storedFiles)
+
+      await documentWorkflows.deleteDocument(mockAdminUser, first.id)
+      await documentWorkflows.permanentlyDeleteDocument(mockAdminUser, first.id)
+      expect(mockStorageService.files.has(first.filePath)).toBe(true)
+
+      await documentWorkflows.deleteDocument(mockAdminUser, linked.id)
+      await documentWorkflows.permanentlyDeleteDocument(mockAdminUser, linked.id)
+      expect(mockStorageService.files.has(first.filePath)).toBe(false)
+    })
+
+    it("should ignore documents the caller can't read when rejecting or linking", async () => {
+      const hidden = (await upload("hidden.txt", "same content")).unwrap()
+
+      const rejected = await upload("mine.txt", "same content", "reject", regularUser)
+      const linked = await upload("linked.txt", "same content", "link", regularUser)
+
+      expect(rejected.isOk()).toBe(true)
+      expect(linked.unwrap().filePath).not.toBe(hidden.filePath)
+    })
+
+    it("should report stored files that are missing or changed", async () => {
+      const intact = (await upload("intact.txt", "intact")).unwrap()
+      const changed = (await upload("changed.txt", "original")).unwrap()
+      const missing = (await upload("missing.txt", "missing")).unwrap()
+      mockStorageService.files.set(changed.filePath, Buffer.from("tampered"))
+      await mockStorageService.delete(missing.filePath)
+
+      const report = (await documentWorkflows.verifyDocumentIntegrity(mockAdminUser)).unwrap()
+
+      expect(report.checked).toBe(3)
+      expect(report.total).toBe(3)
+      expect(report.issues.find(i => i.documentId === intact.id)).toBeUndefined()
+      expect(report.issues).toContainEqual({
+        documentId: changed.id,
+        filePath: changed.filePath,
+        versionNumbers: [1],
+        status: "mismatch",
+        expectedHash: sha256(Buffer.from("original")),
+        actualHash: sha256(Buffer.from("tampered"))
+      })
+      expect(report.issues).toContainEqual({
+        documentId: missing.id,
+        filePath: missing.filePath,
+        versionNumbers: [1],
+        status: "missing",
+        expectedHash: sha256(Buffer.from("missing"))
+      })
+    })
+
+    it("should only let admins verify stored files", async () => {
+      const result = await documentWorkflows.verifyDocumentIntegrity(regularUser)
+
+      expect(result.isErr()).toBe(true)
+    })
+  })
+
+  describe("renditions", () => {
+    // A solid-colour PNG of the given dimensions
+    const png = (width: number, height: number) =>
+      encodePng({ width, height, data: new Uint8Array(width * height * 4).fill(200) })
+
+    const upload = async (name: string, content: Buffer, mimeType: string) => {
+      const uploadDto = UploadDocumentDto.create({
+        name,
+        file: createFileObject(content, name, mimeType)
+      })
+      return (await documentWorkflows.uploadDocument(mockAdminUser, uploadDto.unwrap())).unwrap()
+    }
+
+    const isStored = async (filePath: string) => (await mockStorageService.download(filePath)).isOk()
+
+    it("should render thumbnails of uploaded images", async () => {
+      const photo = await upload("photo.png", png(600, 300), "image/png")
+
+      const renditions = mockRenditionRepository.renditions
+      expect(renditions.map(r => [r.size, r.width, r.height])).toEqual([
+        [512, 512, 256],
+        [256, 256, 128],
+        [128, 128, 64]
+      ])
+      expect(renditions.every(r => r.documentId === photo.id && r.mimeType === "image/png")).toBe(true)
+    })
+
+    it("should serve the smallest thumbnail at least as large as requested", async () => {
+      const photo = await upload("photo.png", png(600, 300), "image/png")
+
+      const medium = (await documentWorkflows.getDocumentThumbnail(mockAdminUser, photo.id, 200)).unwrap()
+      const largest = (await documentWorkflows.getDocumentThumbnail(mockAdminUser, photo.id, 4000)).unwrap()
+      const smallest = (await documentWorkflows.getDocumentThumbnail(mockAdminUser, photo.id)).unwrap()
+
+      expect(medium.rendition.size).toBe(256)
+      expect(medium.file.subarray(1, 4).toString()).toBe("PNG")
+      expect(medium.file.length).toBe(medium.rendition.fileSize)
+      expect(largest.rendition.size).toBe(512)
+      expect(smallest.rendition.size).toBe(128)
+    })
+
+    it("should replace the thumbnails of a new version", async () => {
+      const photo = await upload("photo.png", png(600, 300), "image/png")
+      const oldPaths = mockRenditionRepository.renditions.map(r => r.filePath)
+
+      await documentWorkflows.uploadDocumentVersion(
+        mockAdminUser,
+        photo.id,
+        UploadDocumentVersionDto.create({
+          file: createFileObject(png(100, 200), "photo.png", "image/png")
+        }).unwrap()
+      )
+
+      for (const filePath of oldPaths) {
+        expect(await isStored(filePath)).toBe(false)
+      }
+      expect(mockRenditionRepository.renditions.map(r => [r.size, r.width, r.height])).toEqual([
+        [512, 100, 200],
+        [256, 100, 200],
+        [128, 64, 128]
+      ])
+    })
+
+    it("should render missing thumbnails on request", async () => {
+      const photo = await upload("photo.png", png(40, 20), "image/png")
+      await mockRenditionRepository.deleteByDocumentId(photo.id)
+
+      const result = await documentWorkflows.getDocumentThumbnail(mockAdminUser, photo.id, 128)
+
+      expect(result.isOk()).toBe(true)
+      expect(result.unwrap().rendition.width).toBe(40)
+      expect(mockRenditionRepository.renditions).toHaveLength(3)
+    })
+
+    it("should have no thumbnail for documents that aren't images", async () => {
+      const notes = await upload("notes.txt", Buffer.from("just text"), "text/plain")
+      const broken = await upload("broken.png", Buffer.from("not a png"), "image/png")
+
+      for (const document of [notes, broken]) {
+        const result = await documentWorkflows.getDocumentThumbnail(mockAdminUser, document.id)
+        expect(result.isErr()).toBe(true)
+        expect(result.unwrapErr().status).toBe(AppErrStatus.NotFound)
+      }
+      expect(mockRenditionRepository.renditions).toHaveLength(0)
+    })
+
+    it("should delete the thumbnails along with the document", async () => {
+      const photo = await upload("photo.png", png(600, 300), "image/png")
+      const paths = mockRenditionRepository.renditions.map(r => r.filePath)
+
+      await documentWorkflows.deleteDocument(mockAdminUser, photo.id)
+      expect(await isStored(paths[0]!)).toBe(true)
+
+      await documentWorkflows.permanentlyDeleteDocument(mockAdminUser, photo.id)
+      for (const filePath of paths) {
+        expect(await isStored(filePath)).toBe(false)
+      }
+    })
+
+    it("should hide the thumbnails of documents the caller can't read", async () => {
+      const user = UserEntity.create({
+        name: "Regular User",
+        email: "user@example.com",
+        password: "password123",
+        role: "user"
+      })
+      const photo = await upload("photo.png", png(60, 30), "image/png")
+
+      const result = await documentWorkflows.getDocumentThumbnail(user, photo.id)
+
+      expect(result.isErr()).toBe(true)
+      expect(result.unwrapErr().status).toBe(AppErrStatus.NotFound)
+    })
+  })
+
+  describe("resumable uploads", () => {
+    const startUpload = async (size: number, user: UserEntity = mockAdminUser) =>
+      (await documentWorkflows.createUpload(
+        user,
+        CreateDocumentUploadDto.create({ name: "scan.txt", size, mimeType: "text/plain", tags: "scans" }).unwrap()
+      )).unwrap()
+
+    it("should create the document once the last chunk arrives", async () => {
+      const upload = await startUpload(11)
+
+      const first = await documentWorkflows.appendUploadChunk(mockAdminUser, upload.id, 0, Buffer.from("hello "))
+      expect(first.unwrap().offset).toBe(6)
+      expect(first.unwrap().isFinalized()).toBe(false)
+
+      const last = await documentWorkflows.appendUploadChunk(mockAdminUser, upload.id, 6, Buffer.from("world"))
+      expect(last.isOk()).toBe(true)
+      expect(last.unwrap().isFinalized()).toBe(true)
+
+      const document = (await documentWorkflows.getDocumentById(mockAdminUser, last.unwrap().documentId!)).unwrap()
+      const file = await mockStorageService.download(document.filePath)
+      const versions = await documentWorkflows.getDocumentVersions(mockAdminUser, document.id)
+
+      expect(document.name).toBe("scan.txt")
+      expect(document.size).toBe(11)
+      expect(document.tags).toEqual(["scans"])
+      expect(document.ownerId).toBe(mockAdminUser.id)
+      expect(file.unwrap().toString()).toBe("hello world")
+      expect(versions.unwrap()).toHaveLength(1)
+      expect(mockStorageService.chunks.has(upload.id)).toBe(false)
+    })
+
+    it("should reject a chunk at the wrong offset", async () => {
+      const upload = await startUpload(11)
+      await documentWorkflows.appendUploadChunk(mockAdminUser, upload.id, 0, Buffer.from("hello "))
+
+      const result = await documentWorkflows.appendUploadChunk(mockAdminUser, upload.id, 0, Buffer.from("hello "))
+
+      expect(result.isErr()).toBe(true)
+      expect(result.unwrapErr().status).toBe(AppErrStatus.Conflict)
+    })
+
+    it("should reject a chunk running past the upload length", async () => {
+      const upload = await startUpload(5)
+
+      const result = await documentWorkflows.appendUploadChunk(mockAdminUser, upload.id, 0, Buffer.from("hello world"))
+
+      expect(result.isErr()).toBe(true)
+      expect(result.unwrapErr().status).toBe(AppErrStatus.InvalidData)
+    })
+
+    it("should refuse to start an upload whose name is taken", async () => {
+      const uploadDto = UploadDocumentDto.create({
+        name: "scan.txt",
+        file: createFileObject(Buffer.from("existing"), "scan.txt", "text/plain")
+      })
+      await documentWorkflows.uploadDocument(mockAdminUser, uploadDto.unwrap())
+
+      const result = await documentWorkflows.createUpload(
+        mockAdminUser,
+        CreateDocumentUploadDto.create({ name: "scan.txt", size: 5 }).unwrap()
+      )
+
+      expect(result.isErr()).toBe(true)
+      expect(result.unwrapErr().status).toBe(AppErrStatus.Conflict)
+    })
+
+    it("should hide uploads from other users", async () => {
+      const upload = await startUpload(11)
+      const otherUser = UserEntity.create({
+        name: "Other User",
+        email: "other@example.com",
+        password: "password123",
+        role: "user"
+      })
+
+      const head = await documentWorkflows.getUpload(otherUser, upload.id)
+      const patch = await documentWorkflows.appendUploadChunk(otherUser, upload.id, 0, Buffer.from("hello "))
+
+      expect(head.unwrapErr().status).toBe(AppErrStatus.NotFound)
+      expect(patch.unwrapErr().status).toBe(AppErrStatus.NotFound)
+    })
+
+    it("should discard received chunks when terminated", async () => {
+      const upload = await startUpload(11)
+      await documentWorkflows.appendUploadChunk(mockAdminUser, upload.id, 0, Buffer.from("hello "))
+
+      const result = await documentWorkflows.terminateUpload(mockAdminUser, upload.id)
+
+      expect(result.isOk()).toBe(true)
+      expect(mockStorageService.chunks.has(upload.id)).toBe(false)
+      expect((await documentWorkflows.getUpload(mockAdminUser, upload.id)).isErr()).toBe(true)
+    })
+
+    it("should purge unfinished uploads that went quiet", async () => {
+      const upload = await startUpload(11)
+      await documentWorkflows.appendUploadChunk(mockAdminUser, upload.id, 0, Buffer.from("hello "))
+
+      const result = await documentWorkflows.purgeStaleUploads(new Date(Date.now() + 1000))
+
+      expect(result.unwrap()).toEqual({ purged: 1, failed: 0 })
+      expect(mockUploadRepository.uploads.size).toBe(0)
+      expect(mockStorageService.chunks.has(upload.id)).toBe(false)
+    })
+  })
+
+  describe("direct uploads", () => {
+    const startDirectUpload = async (name: string, size: number) =>
+      (await documentWorkflows.createDirectUpload(
+        mockAdminUser,
+        CreateDirectUploadDto.create({ name, size, mimeType: "text/plain", tags: ["scans"] }).unwrap()
+      )).unwrap()
+
+    beforeEach(() => {
+      mockStorageService.presignedUrls = true
+    })
+
+    it("should create the document from the file sent straight to storage", async () => {
+      const { upload, target } = await startDirectUpload("scan.txt", 11)
+      expect(target.url).toContain(target.filePath)
+      expect(target.headers["content-type"]).toBe("text/plain")
+      mockStorageService.files.set(target.filePath, Buffer.from("hello world"))
+
+      const result = await documentWorkflows.finalizeDirectUpload(mockAdminUser, upload.id)
+
+      const document = result.unwrap()
+      const versions = await documentWorkflows.getDocumentVersions(mockAdminUser, document.id)
+      expect(document.name).toBe("scan.txt")
+      expect(document.filePath).toBe(target.filePath)
+      expect(document.contentHash).toBe(sha256(Buffer.from("hello world")))
+      expect(document.tags).toEqual(["scans"])
+      expect(versions.unwrap()).toHaveLength(1)
+      expect((await documentWorkflows.getUpload(mockAdminUser, upload.id)).unwrap().documentId).toBe(document.id)
+    })
+
+    it("should return the same document when finalized again", async () => {
+      const { upload, target } = await startDirectUpload("scan.txt", 11)
+      mockStorageService.files.set(target.filePath, Buffer.from("hello world"))
+
+      const first = await documentWorkflows.finalizeDirectUpload(mockAdminUser, upload.id)
+      const second = await documentWorkflows.finalizeDirectUpload(mockAdminUser, upload.id)
+
+      expect(second.unwrap().id).toBe(first.unwrap().id)
+      expect((await documentWorkflows.getDocumentVersions(mockAdminUser, first.unwrap().id)).unwrap()).toHaveLength(1)
+    })
+
+    it("should refuse to finalize before the file was uploaded, or with another size", async () => {
+      const { upload, target } = await startDirectUpload("scan.txt", 11)
+
+      const missing = await documentWorkflows.finalizeDirectUpload(mockAdminUser, upload.id)
+      mockStorageService.files.set(target.filePath, Buffer.from("hello"))
+      const truncated = await documentWorkflows.finalizeDirectUpload(mockAdminUser, upload.id)
+
+      expect(missing.unwrapErr().status).toBe(AppErrStatus.InvalidData)
+      expect(truncated.unwrapErr().status).toBe(AppErrStatus.InvalidData)
+      expect((await documentWorkflows.getUpload(mockAdminUser, upload.id)).unwrap().isFinalized()).toBe(false)
+    })
+
+    it("should refuse direct uploads when storage doesn't issue upload URLs", async () => {
+      mockStorageService.presignedUrls = false
+
+      const result = await documentWorkflows.createDirectUpload(
+        mockAdminUser,
+        CreateDirectUploadDto.create({ name: "scan.txt", size: 11 }).unwrap()
+      )
+
+      expect(result.unwrapErr().status).toBe(AppErrStatus.InvalidData)
+      expect(mockUploadRepository.uploads.size).toBe(0)
+    })
+
+    it("should not accept chunks for direct uploads", async () => {
+      const { upload } = await startDirectUpload("scan.txt", 11)
+
+      const result = await documentWorkflows.appendUploadChunk(mockAdminUser, upload.id, 0, Buffer.from("hello world"))
+
+      expect(result.unwrapErr().status).toBe(AppErrStatus.InvalidData)
+    })
+
+    it("should delete the uploaded file when the upload is terminated", async () => {
+      const { upload, target } = await startDirectUpload("scan.txt", 11)
+      mockStorageService.files.set(target.filePath, Buffer.from("hello world"))
+
+      const result = await documentWorkflows.terminateUpload(mockAdminUser, upload.id)
+
+      expect(result.isOk()).toBe(true)
+      expect(mockStorageService.files.has(target.filePath)).toBe(false)
+    })
+
+    it("should hand out download URLs and record the download", async () => {
+      const document = (await documentWorkflows.uploadDocument(
+        mockAdminUser,
+        UploadDocumentDto.create({
+          name: "report.txt",
+          file: createFileObject(Buffer.from("quarterly numbers"), "report.txt", "text/plain")
+        }).unwrap()
+      )).unwrap()
+
+      const url = await documentWorkflows.generatePresignedDownloadUrl(mockAdminUser, document.id)
+      mockStorageService.presignedUrls = false
+      const fallback = await documentWorkflows.generatePresignedDownloadUrl(mockAdminUser, document.id)
+
+      expect(url.unwrap()).toBe(`https://storage.example.com${document.filePath}?download=report.txt`)
+      expect(fallback.unwrap()).toBeUndefined()
+      expect(mockAuditRepository.events.filter(event => event.action === "document.download")).toHaveLength(1)
+    })
+  })
+
+  describe("upload policy", () => {
+    // A DOS stub pointing at a PE header
+    const executable = Buffer.alloc(128)
+    executable.write("MZ", 0, "latin1")
+    executable.writeUInt32LE(64, 0x3c)
+    executable.write("PE\0\0", 64, "latin1")
+
+    it("should reject an executable disguised as a PDF", async () => {
+      const uploadDto = UploadDocumentDto.create({
+        name: "invoice.pdf",
+        file: createFileObject(executable, "invoice.pdf", "application/pdf")
+      })
+
+      const result = await documentWorkflows.uploadDocument(mockAdminUser, uploadDto.unwrap())
+
+      expect(result.isErr()).toBe(true)
+      expect(result.unwrapErr().status).toBe(AppErrStatus.InvalidData)
+      expect(mockStorageService.files.size).toBe(0)
+    })
+
+    it("should reject blocked extensions", async () => {
+      const uploadDto = UploadDocumentDto.create({
+        name: "report",
+        file: createFileObject(Buffer.from("@echo off"), "report.bat", "text/plain")
+      })
+
+      const result = await documentWorkflows.uploadDocument(mockAdminUser, uploadDto.unwrap())
+
+      expect(result.isErr()).toBe(true)
+      expect(result.unwrapErr().status).toBe(AppErrStatus.InvalidData)
+    })
+
+    it("should fall back to the type implied by the extension", async () => {
+      const png = encodePng({ width: 1, height: 1, data: new Uint8Array([0, 0, 0, 255]) })
+      const uploadDto = UploadDocumentDto.create({
+        name: "pixel.png",
+        file: createFileObject(png, "pixel.png", "application/octet-stream")
+      })
+
+      const result = await documentWorkflows.uploadDocument(mockAdminUser, uploadDto.unwrap())
+
+      expect(result.unwrap().mimeType).toBe("image/png")
+    })
+
+    it("should reject new versions that don't match their type", async () => {
+      const uploadDto = UploadDocumentDto.create({
+        name: "notes.txt",
+        file: createFileObject(Buffer.from("notes"), "notes.txt", "text/plain")
+      })
+      const document = (await documentWorkflows.uploadDocument(mockAdminUser, uploadDto.unwrap())).unwrap()
+
+      const result = await documentWorkflows.uploadDocumentVersion(
+        mockAdminUser,
+        document.id,
+        UploadDocumentVersionDto.create({ file: createFileObject(executable, "notes.txt", "text/plain") }).unwrap()
+      )
+
+      expect(result.isErr()).toBe(true)
+      expect(result.unwrapErr().status).toBe(AppErrStatus.InvalidData)
+    })
+
+    it("should refuse to start a resumable upload of a blocked file", async () => {
+      const result = await documentWorkflows.createUpload(
+        mockAdminUser,
+        CreateDocumentUploadDto.create({ name: "setup.exe", size: 128 }).unwrap()
+      )
+
+      expect(result.isErr()).toBe(true)
+      expect(result.unwrapErr().status).toBe(AppErrStatus.InvalidData)
+    })
+
+    it("should check the content of a resumable upload once assembled", async () => {
+      const upload = (await documentWorkflows.createUpload(
+        mockAdminUser,
+        CreateDocumentUploadDto.create({ name: "scan.pdf", size: executable.length, mimeType: "application/pdf" }).unwrap()
+      )).unwrap()
+
+      const result = await documentWorkflows.appendUploadChunk(mockAdminUser, upload.id, 0, executable)
+
+      expect(result.isErr()).toBe(true)
+      expect(result.unwrapErr().status).toBe(AppErrStatus.InvalidData)
+      expect(mockStorageService.files.size).toBe(0)
+      expect(mockUploadRepository.uploads.size).toBe(0)
+      expect((await mockRepository.find()).unwrap().total).toBe(0)
+    })
+  })
+
+  describe("malware scanning", () => {
+    const eicar = Buffer.from("X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*\r\n")
+
+    const upload = async (name: string, content: Buffer) => {
+      const uploadDto = UploadDocumentDto.create({
+        name,
+        file: createFileObject(content, name, "text/plain")
+      })
+      return (await documentWorkflows.uploadDocument(mockAdminUser, uploadDto.unwrap())).unwrap()
+    }
+
+    const download = async (documentId: string, versionId?: string) => {
+      const token = (await documentWorkflows.generateDownloadToken(mockAdminUser, documentId, 5, versionId)).unwrap()
+      return documentWorkflows.downloadDocumentByToken(token)
+    }
+
+    it("should mark clean uploads as clean", async () => {
+      const document = await upload("notes.txt", Buffer.from("notes"))
+
+      expect(document.scanStatus).toBe("clean")
+      expect((await download(document.id)).isOk()).toBe(true)
+    })
+
+    it("should quarantine infected uploads and refuse to serve them", async () => {
+      const document = await upload("eicar.txt", eicar)
+
+      const result = await download(document.id)
+
+      expect(document.scanStatus).toBe("infected")
+      expect(document.filePath.startsWith(".quarantine/")).toBe(true)
+      expect(Array.from(mockStorageService.files.keys())).toEqual([document.filePath])
+      expect(result.isErr()).toBe(true)
+      expect(result.unwrapErr().status).toBe(AppErrStatus.Forbidden)
+    })
+
+    it("should keep quarantined versions out of reach once a clean version replaces them", async () => {
+      const document = await upload("notes.txt", Buffer.from("notes"))
+      const infected = (await documentWorkflows.uploadDocumentVersion(
+        mockAdminUser,
+        document.id,
+        UploadDocumentVersionDto.create({ file: createFileObject(eicar, "notes.txt", "text/plain") }).unwrap()
+      )).unwrap()
+
+      expect((await documentWorkflows.getDocumentById(mockAdminUser, document.id)).unwrap().scanStatus).toBe("infected")
+
+      await documentWorkflows.uploadDocumentVersion(
+        mockAdminUser,
+        document.id,
+        UploadDocumentVersionDto.create({ file: createFileObject(Buffer.from("clean again"), "notes.txt", "text/plain") }).unwrap()
+      )
+
+      expect((await download(document.id)).isOk()).toBe(true)
+      expect((await download(document.id, infected.id)).unwrapErr().status).toBe(AppErrStatus.Forbidden)
+    })
+
+    it("should flag a restored infected version without moving it", async () => {
+      const document = await upload("notes.txt", Buffer.from("notes"))
+      const infected = (await documentWorkflows.uploadDocumentVersion(
+        mockAdminUser,
+        document.id,
+        UploadDocumentVersionDto.create({ file: createFileObject(eicar, "notes.txt", "text/plain") }).unwrap()
+      )).unwrap()
+      await documentWorkflows.uploadDocumentVersion(
+        mockAdminUser,
+        document.id,
+        UploadDocumentVersionDto.create({ file: createFileObject(Buffer.from("clean again"), "notes.txt", "text/plain") }).unwrap()
+      )
+
+      const restored = (await documentWorkflows.restoreDocumentVersion(mockAdminUser, document.id, infected.id)).unwrap()
+
+      expect(restored.filePath).toBe(infected.filePath)
+      expect((await documentWorkflows.getDocumentById(mockAdminUser, document.id)).unwrap().scanStatus).toBe("infected")
+    })
+
+    it("should quarantine infected resumable uploads", async () => {
+      const upload = (await documentWorkflows.createUpload(
+        mockAdminUser,
+        CreateDocumentUploadDto.create({ name: "eicar.txt", size: eicar.length, mimeType: "text/plain" }).unwrap()
+      )).unwrap()
+
+      const finalized = (await documentWorkflows.appendUploadChunk(mockAdminUser, upload.id, 0, eicar)).unwrap()
+      const document = (await documentWorkflows.getDocumentById(mockAdminUser, finalized.documentId!)).unwrap()
+
+      expect(document.scanStatus).toBe("infected")
+      expect(document.filePath.startsWith(".quarantine/")).toBe(true)
+    })
+
+    it("should hold documents back while the scanner is down and scan them again later", async () => {
+      mockContentScanner.available = false
+      const document = await upload("notes.txt", Buffer.from("notes"))
+      const infected = await upload("eicar.txt", eicar)
+
+      expect(document.scanStatus).toBe("error")
+      expect((await download(document.id)).unwrapErr().status).toBe(AppErrStatus.Forbidden)
+
+      mockContentScanner.available = true
+      const result = await documentWorkflows.rescanDocuments()
+
+      expect(result.unwrap()).toEqual({ scanned: 2, infected: 1, failed: 0 })
+      expect((await download(document.id)).isOk()).toBe(true)
+      expect((await documentWorkflows.getDocumentById(mockAdminUser, infected.id)).unwrap().scanStatus).toBe("infected")
+      expect((await documentWorkflows.rescanDocuments()).unwrap()).toEqual({ scanned: 0, infected: 0, failed: 0 })
+    })
+
+    it("should neither extract nor render infected uploads", async () => {
+      const document = await upload("eicar.txt", eicar)
+
+      const content = await documentWorkflows.getDocumentContent(mockAdminUser, document.id)
+      const thumbnail = await documentWorkflows.getDocumentThumbnail(mockAdminUser, document.id)
+
+      for (const result of [content, thumbnail]) {
+        expect(result.isErr()).toBe(true)
+        expect(result.unwrapErr().status).toBe(AppErrStatus.Forbidden)
+        expect(result.unwrapErr().cause).toBeInstanceOf(DocumentNotCleanError)
+      }
+      expect(mockContentRepository.contents.get(document.id)!.status).toBe("pending")
+      expect(mockContentRepository.contents.get(document.id)!.content).toBeUndefined()
+    })
+
+    it("should extract and render documents once a rescan finds them clean", async () => {
+      mockContentScanner.available = false
+      const notes = await upload("notes.txt", Buffer.from("minutes"))
+      const photo = (await documentWorkflows.uploadDocument(
+        mockAdminUser,
+        UploadDocumentDto.create({
+          name: "photo.png",
+          file: createFileObject(
+            Buffer.from(encodePng({ width: 1, height: 1, data: new Uint8Array([0, 0, 0, 255]) })),
+            "photo.png",
+            "image/png"
+          )
+        }).unwrap()
+      )).unwrap()
+
+      const heldContent = await documentWorkflows.getDocumentContent(mockAdminUser, notes.id)
+      const heldThumbnail = await documentWorkflows.getDocumentThumbnail(mockAdminUser, photo.id)
+
+      expect(heldContent.unwrapErr().cause).toBeInstanceOf(DocumentNotCleanError)
+      expect(heldThumbnail.unwrapErr().cause).toBeInstanceOf(DocumentNotCleanError)
+      expect(mockRenditionRepository.renditions).toHaveLength(0)
+
+      mockContentScanner.available = true
+      await documentWorkflows.rescanDocuments()
+
+      expect(mockRenditionRepository.renditions.length).toBeGreaterThan(0)
+      expect((await documentWorkflows.getDocumentContent(mockAdminUser, notes.id)).unwrap().content).toBe("minutes")
+      expect((await documentWorkflows.getDocumentThumbnail(mockAdminUser, photo.id)).isOk()).toBe(true)
+    })
+  })
+
+  describe("audit log", () => {
+    let documentId: string
+
+    const actionsOf = (targetId: string) =>
+      mockAuditRepository.events.filter(e => e.targetId === targetId).map(e => e.action)
+
+    beforeEach(async () => {
+      const uploadDto = UploadDocumentDto.create({
+        name: "contract.txt",
+        file: createFileObject(Buffer.from("terms"), "contract.txt", "text/plain"),
+        tags: "legal"
+      })
+      documentId = String((await documentWorkflows.uploadDocument(mockAdminUser, uploadDto.unwrap())).unwrap().id)
+    })
+
+    it("should record uploads with who made them and the new document", async () => {
+      const [event] = mockAuditRepository.events
+
+      expect(event!.action).toBe("document.upload")
+      expect(event!.actorId).toBe(mockAdminUser.id)
+      expect(event!.actorEmail).toBe("admin@example.com")
+      expect(event!.targetId).toBe(documentId)
+      expect(event!.before).toBeUndefined()
+      expect(event!.after).toMatchObject({ name: "contract.txt", tags: ["legal"] })
+    })
+
+    it("should record only the fields an update changed", async () => {
+      await documentWorkflows.patchDocument(
+        mockAdminUser,
+        documentId,
+        PatchDocumentDto.create({ name: "contract-v2.txt" }).unwrap()
+      )
+
+      const event = mockAuditRepository.events.at(-1)!
+      expect(event.action).toBe("document.update")
+      expect(event.before).toEqual({ name: "contract.txt" })
+      expect(event.after).toEqual({ name: "contract-v2.txt" })
+    })
+
+    it("should not record operations that failed", async () => {
+      const outsider = UserEntity.create({
+        name: "Outsider",
+        email: "outsider@example.com",
+        password: "password123",
+        role: "user"
+      })
+
+      await documentWorkflows.deleteDocument(outsider, documentId)
+
+      expect(actionsOf(documentId)).toEqual(["document.upload"])
+    })
+
+    it("should record downloads for the user the token was issued to", async () => {
+      const token = (await documentWorkflows.generateDownloadToken(mockAdminUser, documentId)).unwrap()
+      const download = (await documentWorkflows.resolveDownload(token)).unwrap()
+
+      await documentWorkflows.openDownloadStream(download)
+      // Range requests continuing the download aren't downloads of their own
+      await documentWorkflows.openDownloadStream(download, { start: 2, end: 4 })
+
+      const downloads = mockAuditRepository.events.filter(e => e.action === "document.download")
+      expect(downloads).toHaveLength(1)
+      expect(downloads[0]!.actorId).toBe(mockAdminUser.id)
+    })
+
+    it("should record the purge job as a system operation", async () => {
+      await documentWorkflows.deleteDocument(mockAdminUser, documentId)
+      await documentWorkflows.purgeDeletedDocuments(new Date(Date.now() + 60_000))
+
+      const event = mockAuditRepository.events.at(-1)!
+      expect(actionsOf(documentId)).toEqual(["document.upload", "document.delete", "document.purge"])
+      expect(event.isSystemEvent()).toBe(true)
+    })
+
+    it("should record permission grants with the level they replaced", async () => {
+      const colleague = UserEntity.create({
+        name: "Colleague",
+        email: "colleague@example.com",
+        password: "password123",
+        role: "user"
+      })
+      const grant = (level: "read" | "write") =>
+        documentWorkflows.grantDocumentPermission(
+          mockAdminUser,
+          documentId,
+          GrantDocumentPermissionDto.create({ userId: colleague.id, level }).unwrap()
+        )
+
+      await grant("read")
+      await grant("write")
+
+      const event = mockAuditRepository.events.at(-1)!
+      expect(event.action).toBe("document.permission.grant")
+      expect(event.before).toEqual({ permission: { userId: colleague.id, level: "read" } })
+      expect(event.after).toEqual({ permission: { userId: colleague.id, level: "write" } })
+    })
+
+    it("should stamp events with the request they came from", async () => {
+      await AuditLogger.runWithContext({ ipAddress: "203.0.113.7", userAgent: "curl/8.5.0" }, () =>
+        documentWorkflows.deleteDocument(mockAdminUser, documentId)
+      )
+
+      const event = mockAuditRepository.events.at(-1)!
+      expect(event.action).toBe("document.delete")
+      expect(event.ipAddress).toBe("203.0.113.7")
+      expect(event.userAgent).toBe("curl/8.5.0")
+    })
+  })
+
+  describe("access control", () => {
+    let owner: UserEntity
+    let colleague: UserEntity
+    let documentId: string
+
+    const grant = (level: "read" | "write" | "manage", grantor: UserEntity = owner) =>
+      documentWorkflows.grantDocumentPermission(
+        grantor,
+        documentId,
+        GrantDocumentPermissionDto.create({ userId: colleague.id, level }).unwrap()
+      )
+
+    beforeEach(async () => {
+      owner = UserEntity.create({
+        name: "HR Manager",
+        email: "hr@example.com",
+        password: "password123",
+        role: "user"
+      })
+      colleague = UserEntity.create({
+        name: "Colleague",
+        email: "colleague@example.com",
+        password: "password123",
+        role: "user"
+      })
+
+      const uploadDto = UploadDocumentDto.create({
+        name: "salaries.txt",
+        file: createFileObject(Buffer.from("confidential"), "salaries.txt", "text/plain")
+      })
+      const uploadResult = await documentWorkflows.uploadDocument(owner, uploadDto.unwrap())
+      if (!uploadResult.isOk()) {
+        throw new Error("Failed to upload document")
+      }
+
+      documentId = String(uploadResult.unwrap().id)
+    })
+
+    it("should make the uploader the owner", async () => {
+      const result = await documentWorkflows.getDocumentById(owner, documentId)
+
+      expect(result.isOk()).toBe(true)
+      expect(result.unwrap().ownerId).toBe(owner.id)
+    })
+
+    it("should hide documents from users without a grant", async () => {
+      const byId = await documentWorkflows.getDocumentById(colleague, documentId)
+      const token = await documentWorkflows.generateDownloadToken(colleague, documentId)
+      const list = await documentWorkflows.getDocuments(colleague)
+
+      expect(byId.isErr()).toBe(true)
+      expect(byId.unwrapErr().status).toBe(AppErrStatus.NotFound)
+      expect(token.isErr()).toBe(true)
+      expect(list.unwrap().documents).toHaveLength(0)
+    })
+
+    it("should let admins see every document", async () => {
+      const list = await documentWorkflows.getDocuments(mockAdminUser)
+
+      expect(list.unwrap().documents.map(d => d.name)).toEqual(["salaries.txt"])
+    })
+
+    it("should let a read grant see but not change the document", async () => {
+      await grant("read")
+
+      const byId = await documentWorkflows.getDocumentById(colleague, documentId)
+      const list = await documentWorkflows.getDocuments(colleague)
+      const patch = await documentWorkflows.patchDocument(
+        colleague,
+        documentId,
+        PatchDocumentDto.create({ name: "renamed.txt" }).unwrap()
+      )
+
+      expect(byId.isOk()).toBe(true)
+      expect(list.unwrap().documents).toHaveLength(1)
+      expect(patch.isErr()).toBe(true)
+      expect(patch.unwrapErr().status).toBe(AppErrStatus.Forbidden)
+    })
+
+    it("should let a write grant change but not delete or share the document", async () => {
+      await grant("write")
+
+      const patch = await documentWorkflows.patchDocument(
+        colleague,
+        documentId,
+        PatchDocumentDto.create({ name: "renamed.txt" }).unwrap()
+      )
+      const deleteResult = await documentWorkflows.deleteDocument(colleague, documentId)
+      const reshare = await grant("manage", colleague)
+
+      expect(patch.isOk()).toBe(true)
+      expect(deleteResult.unwrapErr().status).toBe(AppErrStatus.Forbidden)
+      expect(reshare.unwrapErr().status).toBe(AppErrStatus.Forbidden)
+    })
+
+    it("should replace the level of an existing grant", async () => {
+      await grant("read")
+      const upgraded = await grant("manage")
+
+      const permissions = await documentWorkflows.getDocumentPermissions(owner, documentId)
+
+      expect(upgraded.unwrap().level).toBe("manage")
+      expect(permissions.unwrap()).toHaveLength(1)
+      expect(permissions.unwrap()[0]?.level).toBe("manage")
+    })
+
+    it("should revoke access", async () => {
+      await grant("read")
+
+      const revoked = await documentWorkflows.revokeDocumentPermission(owner, documentId, colleague.id)
+      const byId = await documentWorkflows.getDocumentById(colleague, documentId)
+
+      expect(revoked.isOk()).toBe(true)
+      expect(byId.isErr()).toBe(true)
+    })
+
+    it("should fail to revoke a grant that does not exist", async () => {
+      const result = await documentWorkflows.revokeDocumentPermission(owner, documentId, colleague.id)
+
+      expect(result.isErr()).toBe(true)
+    })
+  })
+
+  describe("checkout", () => {
+    let owner: UserEntity
+    let colleague: UserEntity
+    let documentId: string
+
+    const checkout = (user: UserEntity, expiresInMinutes?: number) =>
+      documentWorkflows.checkoutDocument(user, documentId, CheckoutDocumentDto.create({ expiresInMinutes }).unwrap())
+
+    const rename = (user: UserEntity, name: string) =>
+      documentWorkflows.patchDocument(user, documentId, PatchDocumentDto.create({ name }).unwrap())
+
+    beforeEach(async () => {
+      owner = UserEntity.create({
+        name: "Counsel",
+        email: "counsel@example.com",
+        password: "password123",
+        role: "user"
+      })
+      colleague = UserEntity.create({
+        name: "Paralegal",
+        email: "paralegal@example.com",
+        password: "password123",
+        role: "user"
+      })
+
+      const uploadDto = UploadDocumentDto.create({
+        name: "agreement.txt",
+        file: createFileObject(Buffer.from("draft"), "agreement.txt", "text/plain")
+      })
+      documentId = String((await documentWorkflows.uploadDocument(owner, uploadDto.unwrap())).unwrap().id)
+
+      await documentWorkflows.grantDocumentPermission(
+        owner,
+        documentId,
+        GrantDocumentPermissionDto.create({ userId: colleague.id, level: "write" }).unwrap()
+      )
+    })
+
+    it("should check the document out to the caller for an hour by default", async () => {
+      const before = Date.now()
+
+      const result = await checkout(colleague)
+
+      const document = result.unwrap()
+      expect(document.lockedBy).toBe(colleague.id)
+      expect(document.lockExpiresAt!.epochMillis).toBeGreaterThanOrEqual(before + 60 * 60 * 1000)
+      expect(document.isLockedBy(colleague.id)).toBe(true)
+    })
+
+    it("should reject changes by anyone but the holder", async () => {
+      await checkout(colleague)
+
+      const ownerRename = await rename(owner, "renamed.txt")
+      const adminRename = await rename(mockAdminUser, "renamed.txt")
+      const ownerDelete = await documentWorkflows.deleteDocument(owner, documentId)
+      const ownerMove = await documentWorkflows.moveDocument(owner, documentId, MoveDocumentDto.create({ folderId: null }).unwrap())
+      const ownerVersion = await documentWorkflows.uploadDocumentVersion(
+        owner,
+        documentId,
+        UploadDocumentVersionDto.create({
+          file: createFileObject(Buffer.from("counter draft"), "agreement.txt", "text/plain")
+        }).unwrap()
+      )
+      const holderRename = await rename(colleague, "agreement-v2.txt")
+
+      for (const result of [ownerRename, adminRename, ownerDelete, ownerMove, ownerVersion]) {
+        expect(result.isErr()).toBe(true)
+        expect(result.unwrapErr().status).toBe(AppErrStatus.Conflict)
+        expect(result.unwrapErr().cause).toBeInstanceOf(DocumentLockedError)
+      }
+      expect(holderRename.unwrap().name).toBe("agreement-v2.txt")
+    })
+
+    it("should reject a change when the document is checked out after it was read", async () => {
+      // The colleague checks the document out between the owner's read and write
+      const findById = mockRepository.findById.bind(mockRepository)
+      mockRepository.findById = async (id: any) => {
+        const read = await findById(id)
+        mockRepository.findById = findById
+        await checkout(colleague)
+        return read
+      }
+
+      const result = await rename(owner, "renamed.txt")
+
+      expect(result.isErr()).toBe(true)
+      expect(result.unwrapErr().status).toBe(AppErrStatus.Conflict)
+      expect(result.unwrapErr().cause).toBeInstanceOf(DocumentLockedError)
+      const document = (await documentWorkflows.getDocumentById(owner, documentId)).unwrap()
+      expect(document.name).toBe("agreement.txt")
+      expect(document.lockedBy).toBe(colleague.id)
+    })
+
+    it("should not let a second user check the document out", async () => {
+      await checkout(colleague)
+
+      const result = await checkout(owner)
+
+      expect(result.isErr()).toBe(true)
+      expect(result.unwrapErr().status).toBe(AppErrStatus.Conflict)
+    })
+
+    it("should extend the checkout when the holder checks the document out again", async () => {
+      const first = (await checkout(colleague, 5)).unwrap()
+
+      const second = (await checkout(colleague, 120)).unwrap()
+
+      expect(second.lockedBy).toBe(colleague.id)
+      expect(second.lockExpiresAt!.epochMillis).toBeGreaterThan(first.lockExpiresAt!.epochMillis)
+    })
+
+    it("should let only the holder check the document in", async () => {
+      await checkout(colleague)
+
+      const byOwner = await documentWorkflows.checkinDocument(owner, documentId)
+      const byHolder = await documentWorkflows.checkinDocument(colleague, documentId)
+      const ownerRename = await rename(owner, "renamed.txt")
+
+      expect(byOwner.unwrapErr().status).toBe(AppErrStatus.Conflict)
+      expect(byHolder.unwrap().lockedBy).toBeUndefined()
+      expect(ownerRename.isOk()).toBe(true)
+    })
+
+    it("should ignore checkouts that lapsed", async () => {
+      const document = (await documentWorkflows.getDocumentById(owner, documentId)).unwrap()
+      await mockRepository.saveCheckout(document.checkOut(colleague.id, new Date(Date.now() - 1000)))
+
+      const ownerRename = await rename(owner, "renamed.txt")
+      const ownerCheckout = await checkout(owner)
+
+      expect(ownerRename.isOk()).toBe(true)
+      expect(ownerCheckout.unwrap().lockedBy).toBe(owner.id)
+    })
+
+    it("should let admins break the checkout, recording why", async () => {
+      await checkout(colleague)
+
+      const result = await documentWorkflows.breakDocumentLock(
+        mockAdminUser,
+        documentId,
+        BreakDocumentLockDto.create({ reason: "Paralegal is on leave" }).unwrap()
+      )
+      const ownerRename = await rename(owner, "renamed.txt")
+
+      expect(result.unwrap().isLocked()).toBe(false)
+      expect(ownerRename.isOk()).toBe(true)
+
+      const event = mockAuditRepository.events.find(e => e.action === "document.lock.break")!
+      expect(event.actorId).toBe(mockAdminUser.id)
+      expect(event.before).toMatchObject({ lockedBy: colleague.id })
+      expect(event.after).toEqual({ lockedBy: null, lockExpiresAt: null, reason: "Paralegal is on leave" })
+    })
+
+    it("should only let admins break a checkout", async () => {
+      await checkout(colleague)
+
+      const result = await documentWorkflows.breakDocumentLock(
+        owner,
+        documentId,
+        BreakDocumentLockDto.create({ reason: "I need it" }).unwrap()
+      )
+
+      expect(result.isErr()).toBe(true)
+      expect((await documentWorkflows.getDocumentById(owner, documentId)).unwrap().lockedBy).toBe(colleague.id)
+    })
+
+    it("should record checkouts and check-ins in the audit log", async () => {
+      await checkout(colleague)
+      await documentWorkflows.checkinDocument(colleague, documentId)
+
+      const actions = mockAuditRepository.events.filter(e => e.targetId === documentId).map(e => e.action)
+      expect(actions).toEqual(["document.upload", "document.permission.grant", "document.checkout", "document.checkin"])
+    })
+  })
+
+  describe("domain events", () => {
+    let documentId: string
+
+    const eventsOf = () => mockRepository.outbox.map(({ type }) => type)
+
+    beforeEach(async () => {
+      const uploadDto = UploadDocumentDto.create({
+        name: "invoice.txt",
+        file: createFileObject(Buffer.from("total: 42"), "invoice.txt", "text/plain"),
+        tags: "finance"
+      })
+      documentId = String((await documentWorkflows.uploadDocument(mockAdminUser, uploadDto.unwrap())).unwrap().id)
+    })
+
+    it("should record uploads with the new document", () => {
+      const [uploaded] = mockRepository.outbox
+
+      expect(uploaded!.type).toBe("document.uploaded")
+      expect(String(uploaded!.aggregateId)).toBe(documentId)
+      expect(uploaded!.payload).toMatchObject({
+        id: documentId,
+        name: "invoice.txt",
+        tags: ["finance"],
+        contentHash: sha256(Buffer.from("total: 42")),
+        deletedAt: null
+      })
+    })
+
+    it("should record updates, deletions and restores", async () => {
+      await documentWorkflows.patchDocument(
+        mockAdminUser,
+        documentId,
+        PatchDocumentDto.create({ name: "invoice-2024.txt" }).unwrap()
+      )
+      await documentWorkflows.deleteDocument(mockAdminUser, documentId)
+      await documentWorkflows.restoreDocument(mockAdminUser, documentId)
+
+      expect(eventsOf()).toEqual([
+        "document.uploaded",
+        "document.updated",
+        "document.deleted",
+        "document.restored"
+      ])
+      expect(mockRepository.outbox[1]!.payload.name).toBe("invoice-2024.txt")
+      expect(mockRepository.outbox[1]!.payload.tags).toEqual(["finance"]) // Left out of the patch
+      expect(mockRepository.outbox[2]!.payload.deletedAt).not.toBeNull()
+    })
+
+    it("should record moves, new versions and purges once each", async () => {
+      await documentWorkflows.moveDocument(
+        mockAdminUser,
+        documentId,
+        MoveDocumentDto.create({ folderId: null }).unwrap()
+      )
+      await documentWorkflows.uploadDocumentVersion(
+        mockAdminUser,
+        documentId,
+        UploadDocumentVersionDto.create({
+          file: createFileObject(Buffer.from("total: 43"), "invoice.txt", "text/plain")
+        }).unwrap()
+      )
+      await documentWorkflows.deleteDocument(mockAdminUser, documentId)
+      await documentWorkflows.permanentlyDeleteDocument(mockAdminUser, documentId)
+
+      expect(eventsOf()).toEqual([
+        "document.uploaded",
+        "document.moved",
+        "document.version_created",
+        "document.deleted",
+        "document.purged"
+      ])
+      expect(mockRepository.outbox[2]!.payload.contentHash).toBe(sha256(Buffer.from("total: 43")))
+    })
+
+    it("should not record operations that failed", async () => {
+      const outsider = UserEntity.create({
+        name: "Outsider",
+        email: "outsider@example.com",
+        password: "password123",
+        role: "user"
+      })
+
+      await documentWorkflows.deleteDocument(outsider, documentId)
+
+      expect(eventsOf()).toEqual(["document.uploaded"])
+    })
+  })
+
+  describe("compensation", () => {
+    const upload = (name: string, content: string) =>
+      documentWorkflows.uploadDocument(
+        mockAdminUser,
+        UploadDocumentDto.create({
+          name,
+          file: createFileObject(Buffer.from(content), name, "text/plain")
+        }).unwrap()
+      )
+
+    it("should delete the stored file and the document when the upload can't be completed", async () => {
+      mockVersionRepository.failCreates = true
+
+      const result = await upload("report.txt", "quarterly numbers")
+
+      expect(result.isErr()).toBe(true)
+      expect(mockStorageService.files.size).toBe(0)
+      expect((await documentWorkflows.getDocuments(mockAdminUser)).unwrap().total).toBe(0)
+      expect(mockRepository.outbox.map(({ type }) => type)).toEqual(["document.uploaded", "document.purged"])
+    })
+
+    it("should delete the stored file of a version that can't be recorded", async () => {
+      const document = (await upload("report.txt", "version one")).unwrap()
+      mockVersionRepository.failCreates = true
+
+      const result = await documentWorkflows.uploadDocumentVersion(
+        mockAdminUser,
+        document.id,
+        UploadDocumentVersionDto.create({
+          file: createFileObject(Buffer.from("version two"), "report.txt", "text/plain")
+        }).unwrap()
+      )
+
+      expect(result.isErr()).toBe(true)
+      expect(Array.from(mockStorageService.files.keys())).toEqual([document.filePath])
+    })
+
+    it("should keep a document pending deletion while its files can't be deleted", async () => {
+      const document = (await upload("report.txt", "quarterly numbers")).unwrap()
+      await documentWorkflows.deleteDocument(mockAdminUser, document.id)
+      mockStorageService.failDeletes = true
+
+      const result = await documentWorkflows.permanentlyDeleteDocument(mockAdminUser, document.id)
+
+      expect(result.isOk()).toBe(true)
+      expect(result.unwrap().message).toBe("Document deleted permanently, its files are removed later")
+      expect(mockStorageService.files.has(document.filePath)).toBe(true)
+      // Out of the trash, so it can't be restored with its files half gone
+      expect((await documentWorkflows.getTrash(mockAdminUser)).unwrap().total).toBe(0)
+      expect((await documentWorkflows.restoreDocument(mockAdminUser, document.id)).isErr()).toBe(true)
+      expect((await mockRepository.findPendingDelete(10)).unwrap().map(d => d.id)).toEqual([document.id])
+    })
+
+    it("should finish pending deletions once the files can be deleted", async () => {
+      const document = (await upload("report.txt", "quarterly numbers")).unwrap()
+      await documentWorkflows.deleteDocument(mockAdminUser, document.id)
+      mockStorageService.failDeletes = true
+      await documentWorkflows.permanentlyDeleteDocument(mockAdminUser, document.id)
+
+      const stillFailing = await documentWorkflows.finishPendingDeletions()
+      mockStorageService.failDeletes = false
+      const finished = await documentWorkflows.finishPendingDeletions()
+
+      expect(stillFailing.unwrap()).toEqual({ deleted: 0, pending: 1 })
+      expect(finished.unwrap()).toEqual({ deleted: 1, pending: 0 })
+      expect(mockStorageService.files.size).toBe(0)
+      expect((await mockRepository.findPendingDelete(10)).unwrap()).toHaveLength(0)
+      expect(mockRepository.outbox.at(-1)?.type).toBe("document.purged")
+    })
+  })
+
+  describe("storage reconciliation", () => {
+    const upload = async (name: string, content: string) => {
+      const result = await documentWorkflows.uploadDocument(
+        mockAdminUser,
+        UploadDocumentDto.create({
+          name,
+          file: createFileObject(Buffer.from(content), name, "text/plain")
+        }).unwrap()
+      )
+      return result.unwrap()
+    }
+
+    // Stores a file no document refers to, written the given number of minutes ago
+    const storeOrphan = (filePath: string, minutesAgo: number) => {
+      mockStorageService.files.set(filePath, Buffer.from("left behind"))
+      mockStorageService.modifiedAt.set(filePath, new Date(Date.now() - minutesAgo * 60 * 1000))
+    }
+
+    it("should report orphaned files and missing files without deleting anything", async () => {
+      const kept = await upload("kept.txt", "still here")
+      const lost = await upload("lost.txt", "gone missing")
+      mockStorageService.files.delete(lost.filePath)
+      storeOrphan("/uploads/orphan.txt", 120)
+
+      const result = await documentWorkflows.reconcileStorage(mockAdminUser, { cleanup: false, graceMinutes: 60 })
+
+      const report = result.unwrap()
+      expect(report.stored).toBe(2)
+      expect(report.referenced).toBe(2)
+      expect(report.orphans).toEqual([
+        { filePath: "/uploads/orphan.txt", size: 11, modifiedAt: expect.any(Date), deleted: false }
+      ])
+      expect(report.missing).toEqual([{ filePath: lost.filePath, documentIds: [lost.id] }])
+      expect(report.deleted).toBe(0)
+      expect(mockStorageService.files.has("/uploads/orphan.txt")).toBe(true)
+      expect(mockStorageService.files.has(kept.filePath)).toBe(true)
+    })
+
+    it("should delete the orphans older than the grace period when cleaning up", async () => {
+      const document = await upload("kept.txt", "still here")
+      storeOrphan("/uploads/orphan.txt", 120)
+      storeOrphan("/uploads/in-flight.txt", 5)
+
+      const result = await documentWorkflows.reconcileStorage(undefined, { cleanup: true, graceMinutes: 60 })
+
+      const report = result.unwrap()
+      expect(report.deleted).toBe(1)
+      expect(report.recent).toBe(1)
+      expect(report.orphans.map(orphan => orphan.deleted)).toEqual([true])
+      expect(Array.from(mockStorageService.files.keys()).sort()).toEqual(
+        [document.filePath, "/uploads/in-flight.txt"].sort()
+      )
+    })
+
+    it("should keep the files of trashed documents", async () => {
+      const document = await upload("trashed.txt", "in the trash")
+      await documentWorkflows.deleteDocument(mockAdminUser, document.id)
+
+      const result = await documentWorkflows.reconcileStorage(undefined, { cleanup: true, graceMinutes: 0 })
+
+      expect(result.unwrap().orphans).toEqual([])
+      expect(mockStorageService.files.has(document.filePath)).toBe(true)
+    })
+
+    it("should not let regular users reconcile storage", async () => {
+      const regularUser = UserEntity.create({
+        name: "Regular User",
+        email: "user@example.com",
+        password: "password123",
+        role: "user"
+      })
+
+      const result = await documentWorkflows.reconcileStorage(regularUser, { cleanup: true, graceMinutes: 0 })
+
+      expect(result.isErr()).toBe(true)
+    })
   })
 })
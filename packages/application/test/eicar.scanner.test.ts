@@ -0,0 +1,66 @@
+import "reflect-metadata"
+import { describe, expect, it } from "bun:test"
+import { EicarScanner } from "../src/services/content-scanning"
+
+const EICAR =
+  "X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*"
+
+const streamOf = (...chunks: string[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(Buffer.from(chunk))
+      controller.close()
+    },
+  })
+
+describe("EicarScanner", () => {
+  const scanner = new EicarScanner()
+
+  it("should detect the test file, split across chunks", async () => {
+    const result = await scanner.scan(
+      streamOf(EICAR.slice(0, 20), EICAR.slice(20), "\r\n"),
+    )
+
+    expect(result.unwrap()).toEqual({
+      status: "infected",
+      signature: "Eicar-Test-Signature",
+    })
+  })
+
+  it("should pass files that only contain the signature somewhere", async () => {
+    const prefixed = await scanner.scan(streamOf(`echo ${EICAR}`))
+    const trailing = await scanner.scan(streamOf(EICAR, " and more"))
+    const padded = await scanner.scan(streamOf(EICAR, " ".repeat(100)))
+
+    expect(prefixed.unwrap()).toEqual({ status: "clean" })
+    expect(trailing.unwrap()).toEqual({ status: "clean" })
+    expect(padded.unwrap()).toEqual({ status: "clean" })
+  })
+
+  it("should stop reading large files early", async () => {
+    let pulled = 0
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++
+        controller.enqueue(Buffer.alloc(64))
+      },
+    })
+
+    const result = await scanner.scan(endless)
+
+    expect(result.unwrap()).toEqual({ status: "clean" })
+    expect(pulled).toBeLessThan(10)
+  })
+
+  it("should fail when the file can't be read", async () => {
+    const broken = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.error(new Error("disk on fire"))
+      },
+    })
+
+    const result = await scanner.scan(broken)
+
+    expect(result.unwrapErr().message).toBe("disk on fire")
+  })
+})
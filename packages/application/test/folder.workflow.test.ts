@@ -0,0 +1,385 @@
+import "reflect-metadata"
+import { beforeEach, describe, expect, it } from "bun:test"
+import { Result } from "@carbonteq/fp"
+import { DocumentEntity } from "@domain/document"
+import { FolderEntity, FolderRepository } from "@domain/folder"
+import {
+  FolderAlreadyExistsError,
+  FolderNotFoundError,
+} from "@domain/folder/folder.errors"
+import { UserEntity } from "@domain/user"
+import {
+  CreateFolderDto,
+  MoveFolderDto,
+  RenameFolderDto,
+} from "../src/dtos/folder.dto"
+import { FolderWorkflows } from "../src/workflows/folder.workflow"
+
+// Mock repository for testing
+class MockFolderRepository implements FolderRepository {
+  private folders: Map<string, FolderEntity> = new Map()
+
+  async create(folder: FolderEntity) {
+    const existing = await this.findByName(folder.name, folder.parentId ?? null)
+    if (existing.isOk()) {
+      return Result.Err(new FolderAlreadyExistsError(folder.name))
+    }
+    this.folders.set(folder.id, folder)
+    return Result.Ok(folder)
+  }
+
+  async update(folder: FolderEntity) {
+    if (!this.folders.has(folder.id)) {
+      return Result.Err(new FolderNotFoundError(folder.id))
+    }
+    this.folders.set(folder.id, folder)
+    return Result.Ok(folder)
+  }
+
+  async delete(id: any) {
+    if (!this.folders.delete(id)) {
+      return Result.Err(new FolderNotFoundError(id))
+    }
+    return Result.Ok(undefined)
+  }
+
+  async findById(id: any) {
+    const folder = this.folders.get(id)
+    if (!folder) {
+      return Result.Err(new FolderNotFoundError(id))
+    }
+    return Result.Ok(folder)
+  }
+
+  async findByName(name: string, parentId: any) {
+    const folder = Array.from(this.folders.values()).find(
+      (f) => f.name === name && f.parentId === (parentId ?? undefined),
+    )
+    if (!folder) {
+      return Result.Err(new FolderNotFoundError("unknown" as any))
+    }
+    return Result.Ok(folder)
+  }
+
+  async findChildren(parentId: any) {
+    return Result.Ok(
+      Array.from(this.folders.values()).filter(
+        (f) => f.parentId === (parentId ?? undefined),
+      ),
+    )
+  }
+
+  async findAncestors(id: any) {
+    const ancestors: FolderEntity[] = []
+    let current = this.folders.get(id)
+    while (current?.parentId) {
+      const parent = this.folders.get(current.parentId)
+      if (!parent) break
+      ancestors.unshift(parent)
+      current = parent
+    }
+    return Result.Ok(ancestors)
+  }
+}
+
+// Only the folder lookups are needed from the document repository
+class MockDocumentRepository {
+  documents: DocumentEntity[] = []
+  trash: DocumentEntity[] = []
+
+  async findDeleted(query: any) {
+    const documents = this.trash.filter(
+      (d) => d.folderId === (query.folderId ?? undefined),
+    )
+    return Result.Ok({ documents, total: documents.length })
+  }
+
+  async findByFolder(folderId: any, visibleTo?: any) {
+    return Result.Ok(
+      this.documents.filter(
+        (d) =>
+          d.folderId === (folderId ?? undefined) &&
+          (!visibleTo || d.ownerId === visibleTo),
+      ),
+    )
+  }
+}
+
+describe("FolderWorkflows", () => {
+  let folderWorkflows: FolderWorkflows
+  let mockFolderRepository: MockFolderRepository
+  let mockDocumentRepository: MockDocumentRepository
+  let mockAdminUser: UserEntity
+  let mockRegularUser: UserEntity
+
+  const createFolder = async (name: string, parentId?: string) => {
+    const result = await folderWorkflows.createFolder(
+      mockAdminUser,
+      CreateFolderDto.create({ name, parentId }).unwrap(),
+    )
+    return result.unwrap()
+  }
+
+  beforeEach(() => {
+    mockFolderRepository = new MockFolderRepository()
+    mockDocumentRepository = new MockDocumentRepository()
+    mockAdminUser = UserEntity.create({
+      name: "Admin User",
+      email: "admin@example.com",
+      password: "password123",
+      role: "admin",
+    })
+    mockRegularUser = UserEntity.create({
+      name: "Regular User",
+      email: "user@example.com",
+      password: "password123",
+      role: "user",
+    })
+    folderWorkflows = new FolderWorkflows(
+      mockFolderRepository,
+      mockDocumentRepository as any,
+    )
+  })
+
+  describe("createFolder", () => {
+    it("should create root and nested folders", async () => {
+      const clients = await createFolder("Clients")
+      const acme = await createFolder("Acme", clients.id)
+
+      expect(clients.isRoot()).toBe(true)
+      expect(acme.parentId).toBe(clients.id)
+    })
+
+    it("should reject duplicate names within the same parent", async () => {
+      await createFolder("Clients")
+      const result = await folderWorkflows.createFolder(
+        mockAdminUser,
+        CreateFolderDto.create({ name: "Clients" }).unwrap(),
+      )
+
+      expect(result.isErr()).toBe(true)
+    })
+
+    it("should fail for a non-existent parent", async () => {
+      const result = await folderWorkflows.createFolder(
+        mockAdminUser,
+        CreateFolderDto.create({
+          name: "Acme",
+          parentId: "00000000-0000-4000-8000-000000000000",
+        }).unwrap(),
+      )
+
+      expect(result.isErr()).toBe(true)
+    })
+
+    it("should require admin access", async () => {
+      const result = await folderWorkflows.createFolder(
+        mockRegularUser,
+        CreateFolderDto.create({ name: "Clients" }).unwrap(),
+      )
+
+      expect(result.isErr()).toBe(true)
+    })
+  })
+
+  describe("getFolderChildren", () => {
+    it("should list subfolders, documents and breadcrumbs", async () => {
+      const clients = await createFolder("Clients")
+      const acme = await createFolder("Acme", clients.id)
+      const projects = await createFolder("Projects", acme.id)
+      mockDocumentRepository.documents.push(
+        DocumentEntity.create({
+          name: "contract.pdf",
+          filePath: "/uploads/contract.pdf",
+          mimeType: "application/pdf",
+          size: 1024,
+          folderId: acme.id,
+        }),
+      )
+
+      const result = await folderWorkflows.getFolderChildren(
+        mockAdminUser,
+        acme.id,
+      )
+
+      expect(result.isOk()).toBe(true)
+      const contents = result.unwrap()
+      expect(contents.folder?.id).toBe(acme.id)
+      expect(contents.breadcrumbs.map((f) => f.name)).toEqual([
+        "Clients",
+        "Acme",
+      ])
+      expect(contents.folders.map((f) => f.id)).toEqual([projects.id])
+      expect(contents.documents.map((d) => d.name)).toEqual(["contract.pdf"])
+    })
+
+    it("should list the root when no folder is given", async () => {
+      await createFolder("Clients")
+
+      const result = await folderWorkflows.getFolderChildren(
+        mockAdminUser,
+        null,
+      )
+
+      expect(result.isOk()).toBe(true)
+      const contents = result.unwrap()
+      expect(contents.folder).toBeUndefined()
+      expect(contents.breadcrumbs).toEqual([])
+      expect(contents.folders.map((f) => f.name)).toEqual(["Clients"])
+    })
+
+    it("should only list documents the caller can see", async () => {
+      const hr = await createFolder("HR")
+      mockDocumentRepository.documents.push(
+        DocumentEntity.create({
+          name: "salaries.xlsx",
+          filePath: "/uploads/salaries.xlsx",
+          mimeType: "application/vnd.ms-excel",
+          size: 2048,
+          folderId: hr.id,
+          ownerId: mockAdminUser.id,
+        }),
+      )
+
+      const asAdmin = await folderWorkflows.getFolderChildren(
+        mockAdminUser,
+        hr.id,
+      )
+      const asUser = await folderWorkflows.getFolderChildren(
+        mockRegularUser,
+        hr.id,
+      )
+
+      expect(asAdmin.unwrap().documents).toHaveLength(1)
+      expect(asUser.unwrap().documents).toHaveLength(0)
+    })
+
+    it("should fail for a non-existent folder", async () => {
+      const result = await folderWorkflows.getFolderChildren(
+        mockAdminUser,
+        "00000000-0000-4000-8000-000000000000",
+      )
+
+      expect(result.isErr()).toBe(true)
+    })
+  })
+
+  describe("renameFolder", () => {
+    it("should rename a folder", async () => {
+      const clients = await createFolder("Clients")
+
+      const result = await folderWorkflows.renameFolder(
+        mockAdminUser,
+        clients.id,
+        RenameFolderDto.create({ name: "Customers" }).unwrap(),
+      )
+
+      expect(result.isOk()).toBe(true)
+      expect(result.unwrap().name).toBe("Customers")
+    })
+
+    it("should reject a name used by a sibling", async () => {
+      await createFolder("Clients")
+      const archive = await createFolder("Archive")
+
+      const result = await folderWorkflows.renameFolder(
+        mockAdminUser,
+        archive.id,
+        RenameFolderDto.create({ name: "Clients" }).unwrap(),
+      )
+
+      expect(result.isErr()).toBe(true)
+    })
+  })
+
+  describe("moveFolder", () => {
+    it("should move a folder under another folder and back to the root", async () => {
+      const archive = await createFolder("Archive")
+      const acme = await createFolder("Acme")
+
+      const moved = await folderWorkflows.moveFolder(
+        mockAdminUser,
+        acme.id,
+        MoveFolderDto.create({ parentId: archive.id }).unwrap(),
+      )
+      expect(moved.isOk()).toBe(true)
+      expect(moved.unwrap().parentId).toBe(archive.id)
+
+      const backToRoot = await folderWorkflows.moveFolder(
+        mockAdminUser,
+        acme.id,
+        MoveFolderDto.create({ parentId: null }).unwrap(),
+      )
+      expect(backToRoot.isOk()).toBe(true)
+      expect(backToRoot.unwrap().isRoot()).toBe(true)
+    })
+
+    it("should reject moving a folder into its own subtree", async () => {
+      const clients = await createFolder("Clients")
+      const acme = await createFolder("Acme", clients.id)
+      const projects = await createFolder("Projects", acme.id)
+
+      const intoItself = await folderWorkflows.moveFolder(
+        mockAdminUser,
+        clients.id,
+        MoveFolderDto.create({ parentId: clients.id }).unwrap(),
+      )
+      const intoDescendant = await folderWorkflows.moveFolder(
+        mockAdminUser,
+        clients.id,
+        MoveFolderDto.create({ parentId: projects.id }).unwrap(),
+      )
+
+      expect(intoItself.isErr()).toBe(true)
+      expect(intoDescendant.isErr()).toBe(true)
+    })
+  })
+
+  describe("deleteFolder", () => {
+    it("should delete an empty folder", async () => {
+      const clients = await createFolder("Clients")
+
+      const result = await folderWorkflows.deleteFolder(
+        mockAdminUser,
+        clients.id,
+      )
+
+      expect(result.isOk()).toBe(true)
+      expect((await folderWorkflows.getFolderById(clients.id)).isErr()).toBe(
+        true,
+      )
+    })
+
+    it("should refuse to delete a folder with documents in the trash", async () => {
+      const clients = await createFolder("Clients")
+      mockDocumentRepository.trash.push(
+        DocumentEntity.create({
+          name: "contract.pdf",
+          filePath: "/uploads/contract.pdf",
+          mimeType: "application/pdf",
+          size: 1024,
+          folderId: clients.id,
+        }).moveToTrash(),
+      )
+
+      const result = await folderWorkflows.deleteFolder(
+        mockAdminUser,
+        clients.id,
+      )
+
+      expect(result.isErr()).toBe(true)
+    })
+
+    it("should refuse to delete a folder with subfolders", async () => {
+      const clients = await createFolder("Clients")
+      await createFolder("Acme", clients.id)
+
+      const result = await folderWorkflows.deleteFolder(
+        mockAdminUser,
+        clients.id,
+      )
+
+      expect(result.isErr()).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,222 @@
+import "reflect-metadata"
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+import { Result } from "@carbonteq/fp"
+import { DocumentEntity } from "@domain/document"
+import {
+  type DomainEvent,
+  OutboxMessageEntity,
+  OutboxMessageNotFoundError,
+  OutboxRepository,
+} from "@domain/events"
+import { DomainEventBus, OutboxRelay } from "../src/services/events"
+
+const POLICY_VARIABLES = ["OUTBOX_RETRY_DELAY_MS", "OUTBOX_LEASE_MS"] as const
+
+// Mock outbox repository for testing
+class MockOutboxRepository extends OutboxRepository {
+  messages = new Map<string, OutboxMessageEntity>()
+
+  add(event: DomainEvent) {
+    this.messages.set(event.id, OutboxMessageEntity.fromEvent(event))
+  }
+
+  async claimDue(limit: number, leaseMs: number) {
+    const now = Date.now()
+    const due = [...this.messages.values()]
+      .filter(
+        (message) =>
+          !message.isPublished() && message.availableAt.epochMillis <= now,
+      )
+      .sort((a, b) => a.occurredAt.epochMillis - b.occurredAt.epochMillis)
+      .slice(0, limit)
+
+    // Claimed messages come back as they were, only the stored ones are pushed back
+    for (const message of due) {
+      this.messages.set(
+        message.id,
+        message.markFailed("claimed", new Date(now + leaseMs)),
+      )
+    }
+    return Result.Ok(due)
+  }
+
+  async update(message: OutboxMessageEntity) {
+    if (!this.messages.has(message.id)) {
+      return Result.Err(new OutboxMessageNotFoundError(message.id))
+    }
+    this.messages.set(message.id, message)
+    return Result.Ok(message)
+  }
+
+  async deletePublishedBefore(cutoff: Date) {
+    let deleted = 0
+    for (const message of this.messages.values()) {
+      if (
+        message.publishedAt &&
+        message.publishedAt.epochMillis < cutoff.getTime()
+      ) {
+        this.messages.delete(message.id)
+        deleted++
+      }
+    }
+    return Result.Ok(deleted)
+  }
+}
+
+const uploadEvent = (name: string) =>
+  DocumentEntity.create({
+    name,
+    filePath: `/uploads/${name}`,
+    mimeType: "text/plain",
+    size: 10,
+  }).domainEvents[0]!
+
+describe("DomainEventBus", () => {
+  it("should hand events to the subscribers of their type only", async () => {
+    const bus = new DomainEventBus()
+    const uploads: string[] = []
+    const roles: string[] = []
+    bus.subscribe(["document.uploaded", "document.uploaded"], (event) => {
+      uploads.push(event.id)
+    })
+    bus.subscribe(["user.role_changed"], (event) => {
+      roles.push(event.id)
+    })
+
+    const event = uploadEvent("notes.txt")
+    const result = await bus.publish(event)
+
+    expect(result.isOk()).toBe(true)
+    expect(uploads).toEqual([event.id])
+    expect(roles).toEqual([])
+  })
+
+  it("should stop handing events to unsubscribed handlers", async () => {
+    const bus = new DomainEventBus()
+    const handled: string[] = []
+    const unsubscribe = bus.subscribe(["document.uploaded"], (event) => {
+      handled.push(event.id)
+    })
+
+    unsubscribe()
+    await bus.publish(uploadEvent("notes.txt"))
+
+    expect(handled).toEqual([])
+  })
+
+  it("should reach every subscriber and then report the failures", async () => {
+    const bus = new DomainEventBus()
+    const handled: string[] = []
+    bus.subscribe(["document.uploaded"], () => {
+      throw new Error("Index unavailable")
+    })
+    bus.subscribe(["document.uploaded"], async (event) => {
+      handled.push(event.id)
+    })
+
+    const result = await bus.publish(uploadEvent("notes.txt"))
+
+    expect(result.isErr()).toBe(true)
+    expect(result.unwrapErr().message).toContain("document.uploaded")
+    expect(handled).toHaveLength(1)
+  })
+})
+
+describe("OutboxRelay", () => {
+  const saved = Object.fromEntries(
+    POLICY_VARIABLES.map((name) => [name, process.env[name]]),
+  )
+
+  let repository: MockOutboxRepository
+  let bus: DomainEventBus
+  let relay: OutboxRelay
+  let failing: boolean
+  let handled: DomainEvent[]
+
+  beforeEach(() => {
+    process.env.OUTBOX_RETRY_DELAY_MS = "60000"
+    process.env.OUTBOX_LEASE_MS = "60000"
+
+    repository = new MockOutboxRepository()
+    bus = new DomainEventBus()
+    relay = new OutboxRelay(repository, bus)
+    failing = false
+    handled = []
+
+    bus.subscribe(["document.uploaded"], (event) => {
+      if (failing) {
+        throw new Error("Subscriber down")
+      }
+      handled.push(event)
+    })
+  })
+
+  afterEach(() => {
+    for (const name of POLICY_VARIABLES) {
+      if (saved[name] === undefined) {
+        delete process.env[name]
+      } else {
+        process.env[name] = saved[name]
+      }
+    }
+  })
+
+  it("should publish the due messages and mark them as published", async () => {
+    const first = uploadEvent("first.txt")
+    const second = uploadEvent("second.txt")
+    repository.add(first)
+    repository.add(second)
+
+    const result = await relay.relay()
+
+    expect(result.unwrap()).toEqual({ published: 2, failed: 0 })
+    expect(handled).toEqual([first, second])
+    expect(
+      [...repository.messages.values()].every((message) =>
+        message.isPublished(),
+      ),
+    ).toBe(true)
+  })
+
+  it("should not publish messages twice", async () => {
+    repository.add(uploadEvent("notes.txt"))
+
+    await relay.relay()
+    const result = await relay.relay()
+
+    expect(result.unwrap()).toEqual({ published: 0, failed: 0 })
+    expect(handled).toHaveLength(1)
+  })
+
+  it("should keep failed messages for a later retry", async () => {
+    const event = uploadEvent("notes.txt")
+    repository.add(event)
+    failing = true
+
+    const result = await relay.relay()
+
+    expect(result.unwrap()).toEqual({ published: 0, failed: 1 })
+    const message = repository.messages.get(event.id)!
+    expect(message.isPublished()).toBe(false)
+    expect(message.attempts).toBe(1)
+    expect(message.lastError).toContain("document.uploaded")
+    expect(message.availableAt.epochMillis).toBeGreaterThan(Date.now())
+
+    // Not due again until the retry delay passed
+    failing = false
+    expect((await relay.relay()).unwrap()).toEqual({ published: 0, failed: 0 })
+  })
+
+  it("should delete messages published before the cutoff", async () => {
+    repository.add(uploadEvent("published.txt"))
+    await relay.relay()
+    failing = true
+    repository.add(uploadEvent("pending.txt"))
+    await relay.relay()
+
+    const result = await relay.prune(new Date(Date.now() + 1000))
+
+    expect(result.unwrap()).toBe(1)
+    expect(repository.messages.size).toBe(1)
+  })
+})
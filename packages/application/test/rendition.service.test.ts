@@ -0,0 +1,269 @@
+import "reflect-metadata"
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+import type { RawImage } from "../src/services/renditions"
+import {
+  RenditionService,
+  THUMBNAIL_MIME_TYPE,
+} from "../src/services/renditions"
+import { orient, resize } from "../src/services/renditions/utils/image.utils"
+import { encodePng } from "../src/services/renditions/utils/png.utils"
+
+// 16x8 fixtures with a red (or black) left half and a blue (or white) right half
+const FIXTURES = {
+  jpeg: "/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAIBAQEBAQIBAQECAgICAgQDAgICAgUEBAMEBgUGBgYFBgYGBwkIBgcJBwYGCAsICQoKCgoKBggLDAsKDAkKCgr/2wBDAQICAgICAgUDAwUKBwYHCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgr/wAARCAAIABADASIAAhEBAxEB/8QAHwAAAQUBAQEBAQEAAAAAAAAAAAECAwQFBgcICQoL/8QAtRAAAgEDAwIEAwUFBAQAAAF9AQIDAAQRBRIhMUEGE1FhByJxFDKBkaEII0KxwRVS0fAkM2JyggkKFhcYGRolJicoKSo0NTY3ODk6Q0RFRkdISUpTVFVWV1hZWmNkZWZnaGlqc3R1dnd4eXqDhIWGh4iJipKTlJWWl5iZmqKjpKWmp6ipqrKztLW2t7i5usLDxMXGx8jJytLT1NXW19jZ2uHi4+Tl5ufo6erx8vP09fb3+Pn6/8QAHwEAAwEBAQEBAQEBAQAAAAAAAAECAwQFBgcICQoL/8QAtREAAgECBAQDBAcFBAQAAQJ3AAECAxEEBSExBhJBUQdhcRMiMoEIFEKRobHBCSMzUvAVYnLRChYkNOEl8RcYGRomJygpKjU2Nzg5OkNERUZHSElKU1RVVldYWVpjZGVmZ2hpanN0dXZ3eHl6goOEhYaHiImKkpOUlZaXmJmaoqOkpaanqKmqsrO0tba3uLm6wsPExcbHyMnK0tPU1dbX2Nna4uPk5ebn6Onq8vP09fb3+Pn6/9oADAMBAAIRAxEAPwD4vr5Door+qP2Zf/NV/wDcj/7uH9qftDP+aZ/7nf8A3UP/2Q==",
+  // Progressive, tagged with EXIF orientation 6 (turn clockwise for display)
+  progressiveJpeg:
+    "/9j/4AAQSkZJRgABAQAAAQABAAD/4QAiRXhpZgAATU0AKgAAAAgAAQESAAMAAAABAAYAAAAAAAD/2wBDAAIBAQEBAQIBAQECAgICAgQDAgICAgUEBAMEBgUGBgYFBgYGBwkIBgcJBwYGCAsICQoKCgoKBggLDAsKDAkKCgr/2wBDAQICAgICAgUDAwUKBwYHCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgr/wgARCAAIABADASIAAhEBAxEB/8QAFQABAQAAAAAAAAAAAAAAAAAAAAf/xAAUAQEAAAAAAAAAAAAAAAAAAAAH/9oADAMBAAIQAxAAAAGLyEVGr//EABQQAQAAAAAAAAAAAAAAAAAAABD/2gAIAQEAAQUCP//EABgRAAIDAAAAAAAAAAAAAAAAAAAIRYPD/9oACAEDAQE/AWGjLsj/xAAYEQACAwAAAAAAAAAAAAAAAAAACEWDw//aAAgBAgEBPwFZZWjY/8QAFBABAAAAAAAAAAAAAAAAAAAAEP/aAAgBAQAGPwI//8QAFBABAAAAAAAAAAAAAAAAAAAAEP/aAAgBAQABPyE//9oADAMBAAIAAwAAABAD/8QAFBEBAAAAAAAAAAAAAAAAAAAAAP/aAAgBAwEBPxAf/8QAFBEBAAAAAAAAAAAAAAAAAAAAAP/aAAgBAgEBPxAn/8QAFBABAAAAAAAAAAAAAAAAAAAAEP/aAAgBAQABPxA//9k=",
+  grayJpeg:
+    "/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAIBAQEBAQIBAQECAgICAgQDAgICAgUEBAMEBgUGBgYFBgYGBwkIBgcJBwYGCAsICQoKCgoKBggLDAsKDAkKCgr/wAALCAAIABABAREA/8QAHwAAAQUBAQEBAQEAAAAAAAAAAAECAwQFBgcICQoL/8QAtRAAAgEDAwIEAwUFBAQAAAF9AQIDAAQRBRIhMUEGE1FhByJxFDKBkaEII0KxwRVS0fAkM2JyggkKFhcYGRolJicoKSo0NTY3ODk6Q0RFRkdISUpTVFVWV1hZWmNkZWZnaGlqc3R1dnd4eXqDhIWGh4iJipKTlJWWl5iZmqKjpKWmp6ipqrKztLW2t7i5usLDxMXGx8jJytLT1NXW19jZ2uHi4+Tl5ufo6erx8vP09fb3+Pn6/9oACAEBAAA/AP5/6/v8r//Z",
+  // Interlaced, the right half is the transparent colour
+  gif: "R0lGODlhEAAIAIEAAP8AAAD/AAAAAAAAACH5BAEAAAEALAAAAAAQAAgAAAgkAAEIHCgwgMGDBgkSRIhQ4UCGBx0WhBhAIgCKFSVitLhRI8WAADs=",
+  // Interlaced palette PNG, the right half's palette entry is transparent
+  palettePng:
+    "iVBORw0KGgoAAAANSUhEUgAAABAAAAAIAQMAAADKuO3UAAAABlBMVEX/AAAAAP9sof2OAAAAAnRSTlP/AOW3MEoAAAAPSURBVHicY2D4z8TAgIkAFqoBDmjKHp8AAAAASUVORK5CYII=",
+  gray16Png:
+    "iVBORw0KGgoAAAANSUhEUgAAABAAAAAIEAAAAACFjfwIAAAAF0lEQVR4nGNkQAP//6PymdAVoIPhoQAA9GoCDpRN10oAAAAASUVORK5CYII=",
+}
+
+const fixture = (name: keyof typeof FIXTURES) =>
+  Buffer.from(FIXTURES[name], "base64")
+
+const pixel = (image: RawImage, x: number, y: number) => [
+  ...image.data.subarray(
+    (y * image.width + x) * 4,
+    (y * image.width + x) * 4 + 4,
+  ),
+]
+
+// Lossy formats only come close to the source colours
+const expectColour = (actual: number[], expected: number[], tolerance = 0) => {
+  actual.forEach((value, index) => {
+    expect(Math.abs(value - (expected[index] as number))).toBeLessThanOrEqual(
+      tolerance,
+    )
+  })
+}
+
+const solidImage = (
+  width: number,
+  height: number,
+  rgba: number[],
+): RawImage => {
+  const data = new Uint8Array(width * height * 4)
+  for (let p = 0; p < data.length; p += 4) data.set(rgba, p)
+  return { width, height, data }
+}
+
+describe("RenditionService", () => {
+  let service: RenditionService
+
+  const decode = (mimeType: string, file: Buffer) => {
+    const decoder = service.findDecoder(mimeType)
+    if (!decoder) throw new Error(`No decoder for ${mimeType}`)
+    return decoder.decode(file)
+  }
+
+  beforeEach(() => {
+    service = new RenditionService()
+  })
+
+  describe("findDecoder", () => {
+    it("should match MIME types case-insensitively, ignoring parameters", () => {
+      expect(service.findDecoder("image/png")?.name).toBe("png")
+      expect(service.findDecoder("IMAGE/JPEG; foo=bar")?.name).toBe("jpeg")
+      expect(service.findDecoder("image/gif")?.name).toBe("gif")
+    })
+
+    it("should have no decoder for other formats", () => {
+      expect(service.findDecoder("image/svg+xml")).toBeUndefined()
+      expect(service.findDecoder("image/webp")).toBeUndefined()
+      expect(service.findDecoder("application/pdf")).toBeUndefined()
+    })
+  })
+
+  describe("decoders", () => {
+    it("should round-trip PNGs written by the encoder", async () => {
+      const image = solidImage(5, 3, [10, 20, 30, 255])
+      image.data.set([200, 100, 0, 64], 4 * 7)
+
+      const decoded = await decode("image/png", encodePng(image))
+
+      expect(decoded.width).toBe(5)
+      expect(decoded.height).toBe(3)
+      expect([...decoded.data]).toEqual([...image.data])
+    })
+
+    it("should decode interlaced palette PNGs with transparency", async () => {
+      const decoded = await decode("image/png", fixture("palettePng"))
+
+      expect(pixel(decoded, 0, 0)).toEqual([255, 0, 0, 255])
+      expect(pixel(decoded, 7, 7)).toEqual([255, 0, 0, 255])
+      expect(pixel(decoded, 8, 0)[3]).toBe(0)
+      expect(pixel(decoded, 15, 7)[3]).toBe(0)
+    })
+
+    it("should decode 16-bit grayscale PNGs", async () => {
+      const decoded = await decode("image/png", fixture("gray16Png"))
+
+      expect(pixel(decoded, 3, 4)).toEqual([0, 0, 0, 255])
+      expect(pixel(decoded, 12, 4)).toEqual([255, 255, 255, 255])
+    })
+
+    it("should decode baseline JPEGs", async () => {
+      const decoded = await decode("image/jpeg", fixture("jpeg"))
+
+      expect(decoded.width).toBe(16)
+      expect(decoded.height).toBe(8)
+      expect(decoded.orientation).toBe(1)
+      expectColour(pixel(decoded, 1, 4), [255, 0, 0, 255], 40)
+      expectColour(pixel(decoded, 14, 4), [0, 0, 255, 255], 40)
+    })
+
+    it("should decode progressive JPEGs and report their EXIF orientation", async () => {
+      const decoded = await decode("image/jpeg", fixture("progressiveJpeg"))
+
+      expect(decoded.orientation).toBe(6)
+      expectColour(pixel(decoded, 1, 4), [255, 0, 0, 255], 40)
+      expectColour(pixel(decoded, 14, 4), [0, 0, 255, 255], 40)
+    })
+
+    it("should decode grayscale JPEGs", async () => {
+      const decoded = await decode("image/jpeg", fixture("grayJpeg"))
+
+      expectColour(pixel(decoded, 1, 4), [0, 0, 0, 255], 8)
+      expectColour(pixel(decoded, 14, 4), [255, 255, 255, 255], 8)
+    })
+
+    it("should decode the first frame of interlaced GIFs with transparency", async () => {
+      const decoded = await decode("image/gif", fixture("gif"))
+
+      expect(decoded.width).toBe(16)
+      expect(decoded.height).toBe(8)
+      for (const y of [0, 3, 7]) {
+        expect(pixel(decoded, 2, y)).toEqual([255, 0, 0, 255])
+        expect(pixel(decoded, 13, y)[3]).toBe(0)
+      }
+    })
+
+    it("should reject files that aren't in the decoder's format", async () => {
+      const text = Buffer.from("definitely not an image")
+
+      for (const mimeType of ["image/png", "image/jpeg", "image/gif"]) {
+        await expect(decode(mimeType, text)).rejects.toThrow()
+      }
+    })
+
+    it("should refuse to decode images over the pixel limit", async () => {
+      const file = encodePng(solidImage(1, 1, [0, 0, 0, 255]))
+      // The decoder checks the header before it ever looks at the CRCs or the pixel data
+      file.writeUInt32BE(100_000, 16)
+      file.writeUInt32BE(100_000, 20)
+
+      await expect(decode("image/png", file)).rejects.toThrow("megapixels")
+    })
+  })
+
+  describe("image utils", () => {
+    it("should average pixels when shrinking", () => {
+      const image = solidImage(2, 1, [0, 0, 0, 255])
+      image.data.set([255, 255, 255, 255], 4)
+
+      expect(pixel(resize(image, 1, 1), 0, 0)).toEqual([128, 128, 128, 255])
+    })
+
+    it("should not bleed the colour of transparent pixels", () => {
+      const image = solidImage(2, 1, [255, 0, 0, 255])
+      image.data.set([0, 255, 0, 0], 4)
+
+      expect(pixel(resize(image, 1, 1), 0, 0)).toEqual([255, 0, 0, 128])
+    })
+
+    it("should turn images upright according to their orientation", () => {
+      const image = solidImage(3, 2, [0, 0, 0, 255])
+      image.data.set([255, 0, 0, 255], 0)
+
+      const upright = orient({ ...image, orientation: 6 })
+
+      expect(upright.width).toBe(2)
+      expect(upright.height).toBe(3)
+      expect(upright.orientation).toBe(1)
+      expect(pixel(upright, 1, 0)).toEqual([255, 0, 0, 255])
+    })
+  })
+
+  describe("generateThumbnails", () => {
+    const sizes = process.env.THUMBNAIL_SIZES
+
+    afterEach(() => {
+      process.env.THUMBNAIL_SIZES = sizes
+    })
+
+    it("should render a PNG for every configured size, largest first", async () => {
+      process.env.THUMBNAIL_SIZES = "8, 4, nope, 4"
+      service = new RenditionService()
+
+      const thumbnails = (
+        await service.generateThumbnails("image/jpeg", fixture("jpeg"))
+      ).unwrap()
+
+      expect(
+        thumbnails.map(({ size, width, height }) => ({ size, width, height })),
+      ).toEqual([
+        { size: 8, width: 8, height: 4 },
+        { size: 4, width: 4, height: 2 },
+      ])
+      for (const thumbnail of thumbnails) {
+        expect(thumbnail.mimeType).toBe(THUMBNAIL_MIME_TYPE)
+        const decoded = await decode("image/png", thumbnail.file)
+        expect(decoded.width).toBe(thumbnail.width)
+        expectColour(pixel(decoded, 0, 0), [255, 0, 0, 255], 40)
+        expectColour(
+          pixel(decoded, thumbnail.width - 1, 0),
+          [0, 0, 255, 255],
+          40,
+        )
+      }
+    })
+
+    it("should keep the dimensions of images smaller than a size", async () => {
+      const thumbnails = (
+        await service.generateThumbnails("image/gif", fixture("gif"))
+      ).unwrap()
+
+      expect(service.thumbnailSizes).toEqual([128, 256, 512])
+      expect(
+        thumbnails.every(({ width, height }) => width === 16 && height === 8),
+      ).toBe(true)
+    })
+
+    it("should turn thumbnails of rotated photos upright", async () => {
+      const thumbnails = (
+        await service.generateThumbnails(
+          "image/jpeg",
+          fixture("progressiveJpeg"),
+        )
+      ).unwrap()
+      const decoded = await decode("image/png", thumbnails[0]!.file)
+
+      expect(decoded.width).toBe(8)
+      expect(decoded.height).toBe(16)
+      expectColour(pixel(decoded, 4, 1), [255, 0, 0, 255], 40)
+      expectColour(pixel(decoded, 4, 14), [0, 0, 255, 255], 40)
+    })
+
+    it("should fail for types without a decoder and for broken images", async () => {
+      const unsupported = await service.generateThumbnails(
+        "text/plain",
+        Buffer.from("hi"),
+      )
+      expect(unsupported.isErr()).toBe(true)
+      expect(unsupported.unwrapErr().message).toContain("text/plain")
+
+      const broken = await service.generateThumbnails(
+        "image/png",
+        Buffer.from("not a png"),
+      )
+      expect(broken.isErr()).toBe(true)
+    })
+  })
+})
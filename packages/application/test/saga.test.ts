@@ -0,0 +1,89 @@
+import { describe, expect, it } from "bun:test"
+import { Result } from "@carbonteq/fp"
+import { Saga } from "../src/utils/saga.utils"
+
+describe("Saga", () => {
+  it("should keep the completed steps when the work succeeds", async () => {
+    const undone: string[] = []
+
+    const result = await Saga.run("test", async (saga) => {
+      await saga.step(
+        "first",
+        async () => Result.Ok(1),
+        async () => {
+          undone.push("first")
+          return Result.Ok(undefined)
+        },
+      )
+      return Result.Ok("done")
+    })
+
+    expect(result.unwrap()).toBe("done")
+    expect(undone).toEqual([])
+  })
+
+  it("should undo the completed steps in reverse order when the work fails", async () => {
+    const undone: number[] = []
+    const undo = (value: number) => async () => {
+      undone.push(value)
+      return Result.Ok(undefined)
+    }
+
+    const result = await Saga.run("test", async (saga) => {
+      await saga.step(
+        "first",
+        async () => Result.Ok(1),
+        (value) => undo(value)(),
+      )
+      saga.onCompensate("second", undo(2))
+      await saga.step(
+        "third",
+        async () => Result.Err(new Error("Failed")),
+        undo(3),
+      )
+      return Result.Err(new Error("Failed"))
+    })
+
+    expect(result.isErr()).toBe(true)
+    expect(undone).toEqual([2, 1])
+  })
+
+  it("should undo the completed steps when the work throws", async () => {
+    const undone: string[] = []
+
+    const run = Saga.run("test", async (saga) => {
+      saga.onCompensate("first", async () => {
+        undone.push("first")
+        return Result.Ok(undefined)
+      })
+      throw new Error("Crashed")
+    })
+
+    await expect(run).rejects.toThrow("Crashed")
+    expect(undone).toEqual(["first"])
+  })
+
+  it("should run every compensation and then report the failures", async () => {
+    const undone: string[] = []
+    const saga = new Saga("test")
+    saga.onCompensate("first", async () => {
+      undone.push("first")
+      return Result.Ok(undefined)
+    })
+    saga.onCompensate("second", async () =>
+      Result.Err(new Error("Storage unavailable")),
+    )
+    saga.onCompensate("third", async () => {
+      throw new Error("Crashed")
+    })
+
+    const result = await saga.compensate()
+
+    expect(result.isErr()).toBe(true)
+    expect(result.unwrapErr().message).toBe(
+      "2 step(s) of test couldn't be undone",
+    )
+    expect(undone).toEqual(["first"])
+    expect((await saga.compensate()).isOk()).toBe(true) // Nothing left to undo
+  })
+})
@@ -0,0 +1,333 @@
+import "reflect-metadata"
+import { afterEach, describe, expect, it } from "bun:test"
+import { DocumentUploadError } from "@domain/document/document.errors"
+import { encodePng } from "../src/services/renditions/utils/png.utils"
+import {
+  isConsistentWith,
+  matchesMimeType,
+  sniffMimeType,
+  UploadPolicyService,
+} from "../src/services/upload-policy"
+
+const png = encodePng({
+  width: 1,
+  height: 1,
+  data: new Uint8Array([0, 0, 0, 255]),
+})
+
+// A DOS stub pointing at a PE header
+const executable = Buffer.alloc(128)
+executable.write("MZ", 0, "latin1")
+executable.writeUInt32LE(64, 0x3c)
+executable.write("PE\0\0", 64, "latin1")
+
+// A zip package whose first entry is a Word document part
+const docx = Buffer.concat([
+  Buffer.from("PK\x03\x04", "latin1"),
+  Buffer.alloc(26),
+  Buffer.from("word/document.xml", "latin1"),
+])
+
+const tar = Buffer.alloc(512)
+tar.write("notes.txt", 0, "latin1")
+tar.write("ustar", 257, "latin1")
+
+const POLICY_VARIABLES = [
+  "UPLOAD_ALLOWED_TYPES",
+  "UPLOAD_MAX_FILE_SIZE",
+  "UPLOAD_BLOCKED_EXTENSIONS",
+  "UPLOAD_TYPE_MISMATCH",
+] as const
+
+describe("sniffMimeType", () => {
+  it.each([
+    [
+      "a PDF",
+      Buffer.from("%PDF-1.7\n%\xe2\xe3\xcf\xd3\n", "latin1"),
+      "application/pdf",
+    ],
+    ["a PNG", png, "image/png"],
+    ["a JPEG", Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]), "image/jpeg"],
+    ["a GIF", Buffer.from("GIF89a\x01\x00\x01\x00", "latin1"), "image/gif"],
+    [
+      "a WebP image",
+      Buffer.from("RIFF\x24\x00\x00\x00WEBPVP8 ", "latin1"),
+      "image/webp",
+    ],
+    [
+      "a Word document",
+      docx,
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    ],
+    [
+      "a zip archive",
+      Buffer.from("PK\x03\x04\x14\x00", "latin1"),
+      "application/zip",
+    ],
+    ["a tar archive", tar, "application/x-tar"],
+    [
+      "an MP4 video",
+      Buffer.from("\x00\x00\x00\x18ftypmp42", "latin1"),
+      "video/mp4",
+    ],
+    [
+      "a Windows executable",
+      executable,
+      "application/vnd.microsoft.portable-executable",
+    ],
+    [
+      "an ELF binary",
+      Buffer.from("\x7fELF\x02\x01\x01", "latin1"),
+      "application/x-executable",
+    ],
+    [
+      "a shell script",
+      Buffer.from("#!/bin/sh\nrm -rf /\n"),
+      "text/x-shellscript",
+    ],
+    [
+      "an SVG image",
+      Buffer.from(
+        '\ufeff  <?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg">',
+      ),
+      "image/svg+xml",
+    ],
+    ["an HTML page", Buffer.from("<!DOCTYPE html>\n<html>"), "text/html"],
+  ])("should recognise %s", (_, head, mimeType) => {
+    expect(sniffMimeType(head)).toBe(mimeType)
+  })
+
+  it("should not recognise content without a signature", () => {
+    expect(sniffMimeType(Buffer.from("plain old text"))).toBeUndefined()
+    expect(sniffMimeType(Buffer.alloc(0))).toBeUndefined()
+    expect(sniffMimeType(Buffer.from("MZ"))).toBeUndefined()
+  })
+})
+
+describe("isConsistentWith", () => {
+  it("should accept the sniffed type and its aliases", () => {
+    expect(isConsistentWith(png, "image/png")).toBe(true)
+    expect(isConsistentWith(png, "IMAGE/PNG; charset=binary")).toBe(true)
+    expect(isConsistentWith(Buffer.from([0xff, 0xd8, 0xff]), "image/jpg")).toBe(
+      true,
+    )
+  })
+
+  it("should accept every format packaged as a zip file", () => {
+    expect(isConsistentWith(docx, "application/zip")).toBe(true)
+    expect(
+      isConsistentWith(
+        Buffer.from("PK\x03\x04", "latin1"),
+        "application/vnd.oasis.opendocument.text",
+      ),
+    ).toBe(true)
+  })
+
+  it("should reject a type the content contradicts", () => {
+    expect(isConsistentWith(executable, "application/pdf")).toBe(false)
+    expect(isConsistentWith(png, "image/jpeg")).toBe(false)
+    expect(isConsistentWith(Buffer.from("<html><body>"), "text/plain")).toBe(
+      false,
+    )
+  })
+
+  it("should accept any type for content without a signature", () => {
+    expect(
+      isConsistentWith(Buffer.from("plain old text"), "application/pdf"),
+    ).toBe(true)
+  })
+})
+
+describe("matchesMimeType", () => {
+  it("should match exact types, wildcards and suffixes", () => {
+    expect(matchesMimeType("image/png", "image/png")).toBe(true)
+    expect(matchesMimeType("image/png", "image/*")).toBe(true)
+    expect(matchesMimeType("image/svg+xml", "+xml")).toBe(true)
+    expect(
+      matchesMimeType(
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        "application/vnd.openxmlformats-officedocument.*",
+      ),
+    ).toBe(true)
+    expect(matchesMimeType("image/png", "image/jpeg")).toBe(false)
+    expect(matchesMimeType("imagery/png", "image/*")).toBe(false)
+  })
+})
+
+describe("UploadPolicyService", () => {
+  const saved = Object.fromEntries(
+    POLICY_VARIABLES.map((name) => [name, process.env[name]]),
+  )
+
+  const serviceWith = (
+    env: Partial<Record<(typeof POLICY_VARIABLES)[number], string>>,
+  ) => {
+    for (const name of POLICY_VARIABLES) {
+      delete process.env[name]
+    }
+    Object.assign(process.env, env)
+    return new UploadPolicyService()
+  }
+
+  afterEach(() => {
+    for (const name of POLICY_VARIABLES) {
+      if (saved[name] === undefined) {
+        delete process.env[name]
+      } else {
+        process.env[name] = saved[name]
+      }
+    }
+  })
+
+  it("should keep a declared type the content agrees with", () => {
+    const service = serviceWith({})
+
+    const result = service.check({
+      name: "pixel.png",
+      declaredType: "image/png",
+      size: png.length,
+      head: png,
+    })
+
+    expect(result.unwrap()).toBe("image/png")
+  })
+
+  it("should use the extension's type when none is declared", () => {
+    const service = serviceWith({})
+
+    expect(
+      service
+        .check({ name: "notes.txt", size: 5, head: Buffer.from("notes") })
+        .unwrap(),
+    ).toBe("text/plain")
+    expect(
+      service
+        .check({
+          name: "pixel",
+          declaredType: "application/octet-stream",
+          size: png.length,
+          head: png,
+        })
+        .unwrap(),
+    ).toBe("image/png")
+    expect(
+      service
+        .check({ name: "data.bin", size: 3, head: Buffer.from("abc") })
+        .unwrap(),
+    ).toBe("application/octet-stream")
+  })
+
+  it("should reject content that contradicts its declared type by default", () => {
+    const service = serviceWith({})
+
+    const result = service.check({
+      name: "invoice.pdf",
+      declaredType: "application/pdf",
+      size: executable.length,
+      head: executable,
+    })
+
+    expect(result.isErr()).toBe(true)
+    expect(result.unwrapErr()).toBeInstanceOf(DocumentUploadError)
+    expect(result.unwrapErr().message).toContain(
+      "application/vnd.microsoft.portable-executable",
+    )
+  })
+
+  it("should check the extension's type against the content", () => {
+    const service = serviceWith({})
+
+    const result = service.check({
+      name: "invoice.pdf",
+      size: png.length,
+      head: png,
+    })
+
+    expect(result.isErr()).toBe(true)
+  })
+
+  it("should store the detected type when told to correct mismatches", () => {
+    const service = serviceWith({ UPLOAD_TYPE_MISMATCH: "correct" })
+
+    const result = service.check({
+      name: "photo.jpg",
+      declaredType: "image/jpeg",
+      size: png.length,
+      head: png,
+    })
+
+    expect(result.unwrap()).toBe("image/png")
+  })
+
+  it("should keep the declared type when told to allow mismatches", () => {
+    const service = serviceWith({ UPLOAD_TYPE_MISMATCH: "allow" })
+
+    const result = service.check({
+      name: "photo.jpg",
+      declaredType: "image/jpeg",
+      size: png.length,
+      head: png,
+    })
+
+    expect(result.unwrap()).toBe("image/jpeg")
+  })
+
+  it("should reject files over the size limit", () => {
+    const service = serviceWith({ UPLOAD_MAX_FILE_SIZE: "4" })
+
+    expect(service.check({ name: "small.txt", size: 4 }).isOk()).toBe(true)
+    expect(service.check({ name: "large.txt", size: 5 }).isErr()).toBe(true)
+  })
+
+  it("should reject blocked extensions in the document or file name", () => {
+    const service = serviceWith({})
+
+    expect(service.check({ name: "setup.EXE", size: 1 }).isErr()).toBe(true)
+    expect(
+      service
+        .check({ name: "report", fileName: "report.bat", size: 1 })
+        .isErr(),
+    ).toBe(true)
+    expect(service.check({ name: ".exe", size: 1 }).isOk()).toBe(true)
+  })
+
+  it("should take the blocked extensions from the environment", () => {
+    const service = serviceWith({ UPLOAD_BLOCKED_EXTENSIONS: ".txt, md" })
+
+    expect(service.check({ name: "notes.txt", size: 1 }).isErr()).toBe(true)
+    expect(service.check({ name: "notes.md", size: 1 }).isErr()).toBe(true)
+    expect(service.check({ name: "setup.exe", size: 1 }).isOk()).toBe(true)
+  })
+
+  it("should only accept the allowed types", () => {
+    const service = serviceWith({
+      UPLOAD_ALLOWED_TYPES: "image/*, application/pdf",
+    })
+
+    expect(
+      service.check({ name: "pixel.png", size: png.length, head: png }).isOk(),
+    ).toBe(true)
+    expect(
+      service
+        .check({ name: "scan", declaredType: "application/pdf", size: 1 })
+        .isOk(),
+    ).toBe(true)
+    expect(service.check({ name: "notes.txt", size: 1 }).isErr()).toBe(true)
+  })
+
+  it("should apply the allowed types to the corrected type", () => {
+    const service = serviceWith({
+      UPLOAD_ALLOWED_TYPES: "application/pdf",
+      UPLOAD_TYPE_MISMATCH: "correct",
+    })
+
+    const result = service.check({
+      name: "invoice.pdf",
+      declaredType: "application/pdf",
+      size: executable.length,
+      head: executable,
+    })
+
+    expect(result.isErr()).toBe(true)
+  })
+})
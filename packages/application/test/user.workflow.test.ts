@@ -4,35 +4,44 @@ import { UserWorkflows } from "../src/workflows/user.workflow"
 
 import { UserEntity } from "@domain/user"
 import { UserRepository } from "@domain/user/user.repository"
-import { UserNotFoundError, UserAlreadyExistsError } from "@domain/user/user.errors"
+import { UserNotFoundError, UserAlreadyExistsError, UserModifiedError } from "@domain/user/user.errors"
+import { AuditEventEntity, AuditEventRepository } from "@domain/audit"
+import type { DomainEvent } from "@domain/events"
 import { Result } from "@carbonteq/fp"
+import { AuditLogger } from "../src/services/audit"
+import { UpdateUserRoleDto } from "../src/dtos/user.dto"
+import { AppErrStatus } from "../src/utils/application-result.utils"
 
 // Mock repository for testing
 class MockUserRepository implements UserRepository {
   private users: Map<string, UserEntity> = new Map()
+  // The events saved along with the users, standing in for the outbox
+  outbox: DomainEvent[] = []
 
   async create(user: UserEntity) {
     if (this.users.has(user.email)) {
       return Result.Err(new UserAlreadyExistsError(user.email as any))
     }
-    this.users.set(user.email, user)
-    return Result.Ok(user)
+    return Result.Ok(this.save(user))
   }
 
-  async update(user: UserEntity) {
-    if (!this.users.has(user.email)) {
+  async update(user: UserEntity, expectedVersion?: number) {
+    const current = this.users.get(user.email)
+    if (!current) {
       return Result.Err(new UserNotFoundError(user.id as any))
     }
-    this.users.set(user.email, user)
-    return Result.Ok(user)
+    if (expectedVersion !== undefined && current.version !== expectedVersion) {
+      return Result.Err(new UserModifiedError(current, expectedVersion))
+    }
+    return Result.Ok(this.save(user, (current.version ?? 1) + 1))
   }
 
-  async delete(id: any) {
-    const user = Array.from(this.users.values()).find(u => u.id === id)
-    if (!user) {
-      return Result.Err(new UserNotFoundError(id as any))
+  async delete(user: UserEntity) {
+    if (!this.users.has(user.email)) {
+      return Result.Err(new UserNotFoundError(user.id as any))
     }
     this.users.delete(user.email)
+    this.outbox.push(...user.domainEvents)
     return Result.Ok(undefined)
   }
 
@@ -70,21 +79,141 @@ class MockUserRepository implements UserRepository {
     return Result.Ok(this.users.size)
   }
 
-  async updateUserFields() {
-    return Result.Err(new UserNotFoundError("unknown" as any))
+  async updateUserFields(id: any, updates: any) {
+    const user = Array.from(this.users.values()).find(u => u.id === id)
+    if (!user) {
+      return Result.Err(new UserNotFoundError(id as any))
+    }
+    const updated = UserEntity.from({ ...user, ...updates })
+    this.users.set(updated.email, updated)
+    return Result.Ok(updated)
   }
 
+  // Saved users come back without the events they recorded
+  private save(user: UserEntity, version = user.version) {
+    const saved = UserEntity.from({ ...user, version })
+    this.users.set(user.email, saved)
+    this.outbox.push(...user.domainEvents)
+    return saved
+  }
+}
+
+// Mock audit event repository for testing
+class MockAuditEventRepository implements AuditEventRepository {
+  events: AuditEventEntity[] = []
+
+  async append(event: AuditEventEntity) {
+    this.events.push(event)
+    return Result.Ok(event)
+  }
 
+  async find() {
+    return Result.Ok({ events: [...this.events].reverse(), total: this.events.length })
+  }
 }
 
 describe("UserWorkflows", () => {
   let userWorkflows: UserWorkflows
   let mockRepository: MockUserRepository
+  let mockAuditRepository: MockAuditEventRepository
+  let admin: UserEntity
+  let member: UserEntity
 
-  beforeEach(() => {
+  beforeEach(async () => {
     mockRepository = new MockUserRepository()
-    userWorkflows = new UserWorkflows(mockRepository)
+    mockAuditRepository = new MockAuditEventRepository()
+    userWorkflows = new UserWorkflows(
+      mockRepository,
+      new AuditLogger(mockAuditRepository)
+    )
+
+    admin = UserEntity.create({
+      name: "Admin",
+      email: "admin@example.com",
+      password: "password123",
+      role: "admin"
+    })
+    member = UserEntity.create({
+      name: "Member",
+      email: "member@example.com",
+      password: "password123",
+      role: "user"
+    })
+    await mockRepository.create(admin)
+    await mockRepository.create(member)
+  })
+
+  describe("audit log", () => {
+    it("should record role changes with the previous role", async () => {
+      const dto = UpdateUserRoleDto.create({ newRole: "admin" }).unwrap()
+
+      const result = await userWorkflows.updateUserRole(admin, member.id, dto)
+
+      expect(result.isOk()).toBe(true)
+      const [event] = mockAuditRepository.events
+      expect(event!.action).toBe("user.role.update")
+      expect(event!.actorId).toBe(admin.id)
+      expect(event!.targetType).toBe("user")
+      expect(event!.targetId).toBe(member.id)
+      expect(event!.before).toEqual({ role: "user" })
+      expect(event!.after).toEqual({ role: "admin" })
+    })
+
+    it("should record deletions with who the user was", async () => {
+      await userWorkflows.deleteUser(admin, member.id)
+
+      const [event] = mockAuditRepository.events
+      expect(event!.action).toBe("user.delete")
+      expect(event!.before).toEqual({ email: "member@example.com", name: "Member", role: "user" })
+    })
+
+    it("should not record operations that were refused", async () => {
+      const dto = UpdateUserRoleDto.create({ newRole: "admin" }).unwrap()
+
+      await userWorkflows.updateUserRole(member, member.id, dto)
+      await userWorkflows.deleteUser(admin, "00000000-0000-4000-8000-000000000000")
+
+      expect(mockAuditRepository.events).toHaveLength(0)
+    })
   })
 
+  describe("expected versions", () => {
+    it("should change the role while the user is at the expected version", async () => {
+      const dto = UpdateUserRoleDto.create({ newRole: "admin" }).unwrap()
+
+      const result = await userWorkflows.updateUserRole(admin, member.id, dto, 1)
+
+      expect(result.unwrap().version).toBe(2)
+    })
+
+    it("should refuse a role change made against an older version", async () => {
+      const promote = UpdateUserRoleDto.create({ newRole: "admin" }).unwrap()
+      const demote = UpdateUserRoleDto.create({ newRole: "user" }).unwrap()
+      await userWorkflows.updateUserRole(admin, member.id, promote, 1)
 
+      const result = await userWorkflows.updateUserRole(admin, member.id, demote, 1)
+
+      expect(result.unwrapErr().status).toBe(AppErrStatus.PreconditionFailed)
+      expect(result.unwrapErr().cause).toBeInstanceOf(UserModifiedError)
+      expect((await userWorkflows.getUserById(admin, member.id)).unwrap().role).toBe("admin")
+      expect(mockAuditRepository.events).toHaveLength(1)
+    })
+  })
+
+  describe("domain events", () => {
+    it("should record role changes and deletions", async () => {
+      const dto = UpdateUserRoleDto.create({ newRole: "admin" }).unwrap()
+
+      await userWorkflows.updateUserRole(admin, member.id, dto)
+      await userWorkflows.deleteUser(admin, member.id)
+
+      expect(mockRepository.outbox.map(({ type, payload }) => ({ type, payload }))).toEqual([
+        {
+          type: "user.role_changed",
+          payload: { id: member.id, email: "member@example.com", previousRole: "user", role: "admin" }
+        },
+        { type: "user.deleted", payload: { id: member.id, email: "member@example.com" } }
+      ])
+    })
+  })
 })
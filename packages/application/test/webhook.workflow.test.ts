@@ -0,0 +1,446 @@
+import "reflect-metadata"
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from "bun:test"
+import { Result } from "@carbonteq/fp"
+import { createDomainEvent, type DomainEventType } from "@domain/events"
+import { UserEntity } from "@domain/user"
+import {
+  type WebhookDeliveryEntity,
+  WebhookDeliveryNotFoundError,
+  WebhookDeliveryRepository,
+  type WebhookEntity,
+  type WebhookEvent,
+  WebhookNotFoundError,
+  WebhookRepository,
+} from "@domain/webhook"
+import { CreateWebhookDto, UpdateWebhookDto } from "../src/dtos/webhook.dto"
+import {
+  verifyWebhookSignature,
+  WEBHOOK_HEADERS,
+  WebhookDispatcher,
+} from "../src/services/webhooks"
+import { WebhookWorkflows } from "../src/workflows/webhook.workflow"
+
+const POLICY_VARIABLES = [
+  "WEBHOOK_MAX_ATTEMPTS",
+  "WEBHOOK_RETRY_DELAY_MS",
+  "WEBHOOK_FAILURE_THRESHOLD",
+] as const
+
+const eventOf = (type: DomainEventType, data: Record<string, unknown>) =>
+  createDomainEvent(type, crypto.randomUUID(), data)
+
+// Mock webhook repository for testing
+class MockWebhookRepository extends WebhookRepository {
+  webhooks = new Map<string, WebhookEntity>()
+
+  async create(webhook: WebhookEntity): Promise<Result<WebhookEntity, Error>> {
+    this.webhooks.set(webhook.id, webhook)
+    return Result.Ok(webhook)
+  }
+
+  async update(webhook: WebhookEntity) {
+    if (!this.webhooks.has(webhook.id)) {
+      return Result.Err(new WebhookNotFoundError(webhook.id))
+    }
+    this.webhooks.set(webhook.id, webhook)
+    return Result.Ok(webhook)
+  }
+
+  async delete(id: WebhookEntity["id"]) {
+    if (!this.webhooks.delete(id)) {
+      return Result.Err(new WebhookNotFoundError(id))
+    }
+    return Result.Ok(undefined)
+  }
+
+  async findById(id: WebhookEntity["id"]) {
+    const webhook = this.webhooks.get(id)
+    return webhook
+      ? Result.Ok(webhook)
+      : Result.Err(new WebhookNotFoundError(id))
+  }
+
+  async findAll(): Promise<Result<WebhookEntity[], Error>> {
+    return Result.Ok([...this.webhooks.values()])
+  }
+
+  async findSubscribedTo(
+    event: WebhookEvent,
+  ): Promise<Result<WebhookEntity[], Error>> {
+    return Result.Ok(
+      [...this.webhooks.values()].filter((webhook) =>
+        webhook.isSubscribedTo(event),
+      ),
+    )
+  }
+}
+
+// Mock webhook delivery repository for testing
+class MockWebhookDeliveryRepository extends WebhookDeliveryRepository {
+  deliveries = new Map<string, WebhookDeliveryEntity>()
+
+  async create(
+    delivery: WebhookDeliveryEntity,
+  ): Promise<Result<WebhookDeliveryEntity, Error>> {
+    this.deliveries.set(delivery.id, delivery)
+    return Result.Ok(delivery)
+  }
+
+  async update(delivery: WebhookDeliveryEntity) {
+    if (!this.deliveries.has(delivery.id)) {
+      return Result.Err(new WebhookDeliveryNotFoundError(delivery.id))
+    }
+    this.deliveries.set(delivery.id, delivery)
+    return Result.Ok(delivery)
+  }
+
+  async findById(id: WebhookDeliveryEntity["id"]) {
+    const delivery = this.deliveries.get(id)
+    return delivery
+      ? Result.Ok(delivery)
+      : Result.Err(new WebhookDeliveryNotFoundError(id))
+  }
+
+  async findByWebhookId(
+    webhookId: WebhookEntity["id"],
+    pagination?: { page?: number; limit?: number },
+  ) {
+    const matching = [...this.deliveries.values()]
+      .filter((delivery) => delivery.webhookId === webhookId)
+      .reverse()
+    const page = pagination?.page ?? 1
+    const limit = pagination?.limit ?? 10
+
+    return Result.Ok({
+      deliveries: matching.slice((page - 1) * limit, page * limit),
+      total: matching.length,
+    })
+  }
+}
+
+interface ReceivedDelivery {
+  path: string
+  headers: Headers
+  body: string
+}
+
+describe("WebhookWorkflows", () => {
+  // A local endpoint answering with the statuses queued for its path, 200 once they ran out
+  const received: ReceivedDelivery[] = []
+  const answers = new Map<string, number[]>()
+  let server: ReturnType<typeof Bun.serve>
+
+  let webhookRepository: MockWebhookRepository
+  let deliveryRepository: MockWebhookDeliveryRepository
+  let dispatcher: WebhookDispatcher
+  let webhookWorkflows: WebhookWorkflows
+  let admin: UserEntity
+  let member: UserEntity
+
+  const saved = Object.fromEntries(
+    POLICY_VARIABLES.map((name) => [name, process.env[name]]),
+  )
+
+  const endpoint = (path: string) => `http://localhost:${server.port}${path}`
+
+  const register = async (path: string, events: WebhookEvent[]) =>
+    (
+      await webhookWorkflows.createWebhook(
+        admin,
+        CreateWebhookDto.create({ url: endpoint(path), events }).unwrap(),
+      )
+    ).unwrap()
+
+  const deliveriesOf = (webhook: WebhookEntity) =>
+    [...deliveryRepository.deliveries.values()].filter(
+      (delivery) => delivery.webhookId === webhook.id,
+    )
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const path = new URL(request.url).pathname
+        received.push({
+          path,
+          headers: request.headers,
+          body: await request.text(),
+        })
+        const status = answers.get(path)?.shift() ?? 200
+        return new Response(`answered ${status}`, { status })
+      },
+    })
+  })
+
+  afterAll(() => {
+    server.stop(true)
+  })
+
+  beforeEach(() => {
+    received.length = 0
+    answers.clear()
+    process.env.WEBHOOK_MAX_ATTEMPTS = "3"
+    process.env.WEBHOOK_RETRY_DELAY_MS = "1"
+    process.env.WEBHOOK_FAILURE_THRESHOLD = "2"
+
+    webhookRepository = new MockWebhookRepository()
+    deliveryRepository = new MockWebhookDeliveryRepository()
+    dispatcher = new WebhookDispatcher(webhookRepository, deliveryRepository)
+    webhookWorkflows = new WebhookWorkflows(
+      webhookRepository,
+      deliveryRepository,
+      dispatcher,
+    )
+
+    admin = UserEntity.create({
+      name: "Admin",
+      email: "admin@example.com",
+      password: "password123",
+      role: "admin",
+    })
+    member = UserEntity.create({
+      name: "Member",
+      email: "member@example.com",
+      password: "password123",
+      role: "user",
+    })
+  })
+
+  afterEach(() => {
+    for (const name of POLICY_VARIABLES) {
+      if (saved[name] === undefined) {
+        delete process.env[name]
+      } else {
+        process.env[name] = saved[name]
+      }
+    }
+  })
+
+  describe("createWebhook", () => {
+    it("should register webhooks with a generated secret", async () => {
+      const webhook = await register("/indexer", ["document.uploaded"])
+
+      expect(webhook.secret).toStartWith("whsec_")
+      expect(webhook.createdBy).toBe(admin.id)
+      expect(webhook.active).toBe(true)
+      expect(webhookRepository.webhooks.has(webhook.id)).toBe(true)
+    })
+
+    it("should only let admins manage webhooks", async () => {
+      const dto = CreateWebhookDto.create({
+        url: endpoint("/indexer"),
+        events: ["document.uploaded"],
+      }).unwrap()
+
+      const result = await webhookWorkflows.createWebhook(member, dto)
+      const listed = await webhookWorkflows.getWebhooks(member)
+
+      expect(result.isErr()).toBe(true)
+      expect(listed.isErr()).toBe(true)
+    })
+
+    it("should reject URLs that aren't HTTP(S)", () => {
+      const dto = CreateWebhookDto.create({
+        url: "file:///etc/passwd",
+        events: ["document.uploaded"],
+      })
+
+      expect(dto.isErr()).toBe(true)
+    })
+  })
+
+  describe("dispatch", () => {
+    it("should POST signed JSON to the subscribed webhooks only", async () => {
+      const subscribed = await register("/indexer", ["document.uploaded"])
+      await register("/roles", ["user.role_changed"])
+      const event = eventOf("document.uploaded", { id: "doc-1" })
+
+      await dispatcher.dispatch(event)
+      await dispatcher.settle()
+
+      expect(received).toHaveLength(1)
+      const [request] = received
+      const timestamp = Number(request!.headers.get(WEBHOOK_HEADERS.timestamp))
+      const signature = request!.headers.get(WEBHOOK_HEADERS.signature)!
+
+      expect(request!.path).toBe("/indexer")
+      expect(request!.headers.get(WEBHOOK_HEADERS.event)).toBe(
+        "document.uploaded",
+      )
+      expect(
+        verifyWebhookSignature(
+          subscribed.secret,
+          timestamp,
+          request!.body,
+          signature,
+        ),
+      ).toBe(true)
+      expect(
+        verifyWebhookSignature(
+          "whsec_someone-else",
+          timestamp,
+          request!.body,
+          signature,
+        ),
+      ).toBe(false)
+      expect(JSON.parse(request!.body)).toMatchObject({
+        eventId: event.id,
+        event: "document.uploaded",
+        data: { id: "doc-1" },
+      })
+
+      const [delivery] = deliveriesOf(subscribed)
+      expect(request!.headers.get(WEBHOOK_HEADERS.id)).toBe(delivery!.id)
+      expect(delivery!.status).toBe("succeeded")
+      expect(delivery!.attempts).toBe(1)
+      expect(delivery!.responseStatus).toBe(200)
+      expect(delivery!.responseBody).toBe("answered 200")
+    })
+
+    it("should skip inactive webhooks", async () => {
+      const webhook = await register("/indexer", ["document.uploaded"])
+      await webhookWorkflows.updateWebhook(
+        admin,
+        webhook.id,
+        UpdateWebhookDto.create({ active: false }).unwrap(),
+      )
+
+      await dispatcher.dispatch(eventOf("document.uploaded", { id: "doc-1" }))
+      await dispatcher.settle()
+
+      expect(received).toHaveLength(0)
+    })
+
+    it("should ignore events webhooks can't subscribe to", async () => {
+      await register("/indexer", ["document.uploaded"])
+
+      await dispatcher.dispatch(eventOf("user.updated", { id: "user-1" }))
+      await dispatcher.settle()
+
+      expect(received).toHaveLength(0)
+    })
+
+    it("should retry failed attempts", async () => {
+      const webhook = await register("/flaky", ["document.deleted"])
+      answers.set("/flaky", [500, 503])
+
+      await dispatcher.dispatch(eventOf("document.deleted", { id: "doc-1" }))
+      await dispatcher.settle()
+
+      const [delivery] = deliveriesOf(webhook)
+      expect(received).toHaveLength(3)
+      expect(delivery!.status).toBe("succeeded")
+      expect(delivery!.attempts).toBe(3)
+    })
+
+    it("should record the last answer once the attempts ran out", async () => {
+      const webhook = await register("/broken", ["document.deleted"])
+      answers.set("/broken", [500, 500, 502])
+
+      await dispatcher.dispatch(eventOf("document.deleted", { id: "doc-1" }))
+      await dispatcher.settle()
+
+      const [delivery] = deliveriesOf(webhook)
+      expect(delivery!.status).toBe("failed")
+      expect(delivery!.attempts).toBe(3)
+      expect(delivery!.responseStatus).toBe(502)
+      expect(delivery!.error).toContain("502")
+    })
+
+    it("should stop contacting an endpoint once its circuit opened", async () => {
+      const broken = await register("/broken", ["document.deleted"])
+      const healthy = await register("/healthy", ["document.deleted"])
+      answers.set("/broken", Array(6).fill(500))
+
+      for (let i = 0; i < 3; i++) {
+        await dispatcher.dispatch(
+          eventOf("document.deleted", { id: `doc-${i}` }),
+        )
+        await dispatcher.settle()
+      }
+
+      const [, , skipped] = deliveriesOf(broken)
+      expect(received.filter(({ path }) => path === "/broken")).toHaveLength(6)
+      expect(skipped!.status).toBe("failed")
+      expect(skipped!.attempts).toBe(0)
+      expect(skipped!.error).toContain("Circuit breaker is open")
+      // Other endpoints are unaffected
+      expect(deliveriesOf(healthy).map(({ status }) => status)).toEqual([
+        "succeeded",
+        "succeeded",
+        "succeeded",
+      ])
+    })
+  })
+
+  describe("deliveries", () => {
+    it("should list the deliveries of a webhook, newest first", async () => {
+      const webhook = await register("/indexer", [
+        "document.uploaded",
+        "document.deleted",
+      ])
+
+      await dispatcher.dispatch(eventOf("document.uploaded", { id: "doc-1" }))
+      await dispatcher.dispatch(eventOf("document.deleted", { id: "doc-1" }))
+      await dispatcher.settle()
+
+      const result = await webhookWorkflows.getWebhookDeliveries(
+        admin,
+        webhook.id,
+      )
+
+      expect(result.unwrap().total).toBe(2)
+      expect(result.unwrap().deliveries.map(({ event }) => event)).toEqual([
+        "document.deleted",
+        "document.uploaded",
+      ])
+    })
+
+    it("should redeliver the same payload as a new delivery", async () => {
+      const webhook = await register("/flaky", ["document.deleted"])
+      answers.set("/flaky", [500, 500, 500])
+      await dispatcher.dispatch(eventOf("document.deleted", { id: "doc-1" }))
+      await dispatcher.settle()
+      const [failed] = deliveriesOf(webhook)
+
+      const result = await webhookWorkflows.redeliverWebhookDelivery(
+        admin,
+        webhook.id,
+        failed!.id,
+      )
+
+      const redelivery = result.unwrap()
+      expect(redelivery.id).not.toBe(failed!.id)
+      expect(redelivery.redeliveryOf).toBe(failed!.id)
+      expect(redelivery.status).toBe("succeeded")
+      expect(received.at(-1)!.body).toBe(received[0]!.body)
+      expect(received.at(-1)!.headers.get(WEBHOOK_HEADERS.id)).toBe(
+        redelivery.id,
+      )
+    })
+
+    it("should not redeliver a delivery of another webhook", async () => {
+      const first = await register("/first", ["document.deleted"])
+      const second = await register("/second", ["user.deleted"])
+      await dispatcher.dispatch(eventOf("document.deleted", { id: "doc-1" }))
+      await dispatcher.settle()
+      const [delivery] = deliveriesOf(first)
+
+      const result = await webhookWorkflows.redeliverWebhookDelivery(
+        admin,
+        second.id,
+        delivery!.id,
+      )
+
+      expect(result.isErr()).toBe(true)
+    })
+  })
+})
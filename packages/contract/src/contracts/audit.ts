@@ -0,0 +1,82 @@
+import { appAuthenticatedBase } from "@contract/utils/oc.base"
+import { AuditActions, AuditTargetTypes } from "@domain/audit"
+import { type } from "@orpc/contract"
+import { Schema as S } from "effect"
+
+const auditBase = appAuthenticatedBase
+
+// Filters shared by the listing and the CSV export - time bounds are inclusive ISO dates
+const AuditFiltersSchema = {
+  actorId: S.optional(S.UUID),
+  targetType: S.optional(S.Literal(...AuditTargetTypes)),
+  targetId: S.optional(S.String),
+  action: S.optional(S.String), // Comma-separated actions
+  from: S.optional(S.Date),
+  to: S.optional(S.Date),
+}
+
+const AuditEventOutputSchema = S.Struct({
+  id: S.String,
+  action: S.Literal(...AuditActions),
+  actorId: S.optional(S.String), // Unset for operations run by the system
+  actorEmail: S.optional(S.String),
+  targetType: S.Literal(...AuditTargetTypes),
+  targetId: S.String,
+  before: S.optional(S.Record({ key: S.String, value: S.Unknown })),
+  after: S.optional(S.Record({ key: S.String, value: S.Unknown })),
+  ipAddress: S.optional(S.String),
+  userAgent: S.optional(S.String),
+  occurredAt: S.Date,
+})
+
+// Get audit events, newest first, with filtering and pagination (admin only)
+export const getAuditEvents = auditBase
+  .route({
+    method: "GET",
+    path: "/audit",
+    summary:
+      "Get audit events with optional filtering and pagination (admin only)",
+    tags: ["audit"],
+  })
+  .input(
+    S.standardSchemaV1(
+      S.Struct({
+        page: S.optional(S.NumberFromString.pipe(S.greaterThan(0))),
+        limit: S.optional(
+          S.NumberFromString.pipe(S.greaterThan(0)).pipe(
+            S.lessThanOrEqualTo(100),
+          ),
+        ),
+        ...AuditFiltersSchema,
+      }),
+    ),
+  )
+  .output(
+    S.standardSchemaV1(
+      S.Struct({
+        events: S.Array(AuditEventOutputSchema),
+        pagination: S.Struct({
+          page: S.Number,
+          limit: S.Number,
+          total: S.Number,
+          totalPages: S.Number,
+        }),
+      }),
+    ),
+  )
+
+// Export every matching audit event as CSV (admin only)
+export const exportAuditEvents = auditBase
+  .route({
+    method: "GET",
+    path: "/audit/export",
+    summary: "Export audit events as CSV (admin only)",
+    tags: ["audit"],
+  })
+  .input(S.standardSchemaV1(S.Struct(AuditFiltersSchema)))
+  .output(type<File>())
+
+export default {
+  getAuditEvents,
+  exportAuditEvents,
+}
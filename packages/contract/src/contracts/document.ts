@@ -5,13 +5,60 @@ import {
   PatchDocumentDto,
   GenerateDownloadTokenDto,
   DownloadDocumentByTokenDto,
-  PatchDocumentDtoSchema
+  PatchDocumentDtoSchema,
+  UploadDocumentVersionDtoSchema,
+  MoveDocumentDtoSchema,
+  GrantDocumentPermissionDtoSchema,
+  SearchDocumentsDtoSchema,
+  CreateDirectUploadDtoSchema,
+  CheckoutDocumentDtoSchema,
+  BreakDocumentLockDtoSchema
 } from "@application/dtos/document.dto"
 import { type } from "@orpc/contract"
 import { Schema as S } from "effect"
 
 const documentBase = appAuthenticatedBase
-// Get documents with filtering and pagination (authenticated)
+
+const DocumentVersionOutputSchema = S.Struct({
+  id: S.String,
+  documentId: S.String,
+  versionNumber: S.Number,
+  filePath: S.String,
+  mimeType: S.String,
+  size: S.Number,
+  contentHash: S.optional(S.String),
+  createdBy: S.optional(S.String),
+  createdAt: S.Date,
+})
+
+const DocumentContentOutputSchema = S.Struct({
+  documentId: S.String,
+  status: S.Literal("pending", "extracted", "unsupported", "failed"),
+  extractor: S.optional(S.String),
+  content: S.optional(S.String),
+  error: S.optional(S.String),
+  updatedAt: S.Date,
+})
+
+const DocumentPermissionOutputSchema = S.Struct({
+  id: S.String,
+  documentId: S.String,
+  userId: S.String,
+  level: S.Literal("read", "write", "manage"),
+  grantedBy: S.optional(S.String),
+  createdAt: S.Date,
+  updatedAt: S.Date,
+})
+
+// The checkout of a document - lockedBy and expiresAt are only set while it is checked out
+const DocumentLockOutputSchema = S.Struct({
+  documentId: S.String,
+  locked: S.Boolean,
+  lockedBy: S.optional(S.String),
+  expiresAt: S.optional(S.Date),
+})
+
+// Get documents with filtering and pagination - only documents the caller can read (authenticated)
 export const getDocuments = documentBase
   .route({
     method: "GET",
@@ -39,6 +86,9 @@ export const getDocuments = documentBase
       size: S.Number,
       tags: S.optional(S.Array(S.String)),
       metadata: S.optional(S.Record({ key: S.String, value: S.String })),
+      folderId: S.optional(S.String),
+      ownerId: S.optional(S.String),
+      version: S.optional(S.Number),
       createdAt: S.Date,
       updatedAt: S.Date,
     })),
@@ -50,6 +100,52 @@ export const getDocuments = documentBase
     })
   })))
 
+// Full-text search, best matches first - only documents the caller can read (authenticated)
+export const searchDocuments = documentBase
+  .route({
+    method: "GET",
+    path: "/document/search",
+    summary: "Search documents by name, tags, metadata and content",
+    tags: ["document"],
+  })
+  .input(S.standardSchemaV1(S.Struct({
+    q: SearchDocumentsDtoSchema.fields.query, // "quoted phrases", OR and -excluded words are supported
+    page: S.optional(S.NumberFromString.pipe(S.greaterThan(0))),
+    limit: S.optional(S.NumberFromString.pipe(S.greaterThan(0)).pipe(S.lessThanOrEqualTo(100))),
+    name: S.optional(S.String),
+    mimeType: S.optional(S.String),
+    tags: S.optional(S.String), // Comma-separated tags
+    metadata: S.optional(S.String), // JSON string or key=value format
+    metadataKey: S.optional(S.String), // Single metadata key
+    metadataValue: S.optional(S.String), // Single metadata value
+  })))
+  .output(S.standardSchemaV1(S.Struct({
+    results: S.Array(S.Struct({
+      document: S.Struct({
+        id: S.String,
+        name: S.String,
+        filePath: S.String,
+        mimeType: S.String,
+        size: S.Number,
+        tags: S.optional(S.Array(S.String)),
+        metadata: S.optional(S.Record({ key: S.String, value: S.String })),
+        folderId: S.optional(S.String),
+        ownerId: S.optional(S.String),
+        version: S.optional(S.Number),
+        createdAt: S.Date,
+        updatedAt: S.Date,
+      }),
+      rank: S.Number,
+      snippet: S.String, // Matches are wrapped in <mark> tags; the rest of the text is not escaped
+    })),
+    pagination: S.Struct({
+      page: S.Number,
+      limit: S.Number,
+      total: S.Number,
+      totalPages: S.Number,
+    })
+  })))
+
 // Get document by ID (authenticated)
 export const getDocumentById = documentBase
   .route({
@@ -70,18 +166,25 @@ export const getDocumentById = documentBase
     filePath: S.String,
     mimeType: S.String,
     size: S.Number,
+    contentHash: S.optional(S.String), // SHA-256 (hex) of the file
+    scanStatus: S.optional(S.Literal("pending", "clean", "infected", "error")), // Malware scan of the file
     tags: S.optional(S.Array(S.String)),
     metadata: S.optional(S.Record({ key: S.String, value: S.String })),
+    folderId: S.optional(S.String),
+    ownerId: S.optional(S.String),
+    lockedBy: S.optional(S.String), // Set while the document is checked out
+    lockExpiresAt: S.optional(S.Date),
+    version: S.optional(S.Number), // Raised by every save - also sent as the ETag
     createdAt: S.Date,
     updatedAt: S.Date,
   })))
 
-// Upload document (admin only)
+// Upload document - the uploader becomes its owner (authenticated)
 export const uploadDocument = documentBase
   .route({
     method: "POST",
     path: "/document/upload",
-    summary: "Upload document (admin only)",
+    summary: "Upload document",
     tags: ["document"],
   })
   .input(dtoStandardSchema(UploadDocumentDto))
@@ -91,18 +194,71 @@ export const uploadDocument = documentBase
     filePath: S.String,
     mimeType: S.String,
     size: S.Number,
+    contentHash: S.optional(S.String), // SHA-256 (hex) of the file
+    scanStatus: S.optional(S.Literal("pending", "clean", "infected", "error")), // Malware scan of the file
+    tags: S.optional(S.Array(S.String)),
+    metadata: S.optional(S.Record({ key: S.String, value: S.String })),
+    folderId: S.optional(S.String),
+    ownerId: S.optional(S.String),
+    version: S.optional(S.Number),
+    createdAt: S.Date,
+    updatedAt: S.Date,
+  })))
+
+// Request a URL to upload a file straight to storage (authenticated, S3 with S3_PRESIGNED_URLS only)
+export const createUploadUrl = documentBase
+  .route({
+    method: "POST",
+    path: "/document/upload-url",
+    summary: "Request a URL to upload a file straight to storage, then finalize the upload to create the document",
+    tags: ["document"],
+  })
+  .input(S.standardSchemaV1(CreateDirectUploadDtoSchema))
+  .output(S.standardSchemaV1(S.Struct({
+    uploadId: S.String,
+    uploadUrl: S.String,
+    method: S.Literal("PUT"),
+    headers: S.Record({ key: S.String, value: S.String }), // Must be sent with the file as they are
+    expiresAt: S.Date,
+  })))
+
+// Create the document from a file uploaded straight to storage - the uploader becomes its owner
+export const finalizeUpload = documentBase
+  .route({
+    method: "POST",
+    path: "/document/upload-url/:id/finalize",
+    summary: "Create the document from a file uploaded straight to storage",
+    tags: ["document"],
+    inputStructure: "detailed",
+  })
+  .input(S.standardSchemaV1(S.Struct({
+    params: S.Struct({
+      id: S.String.pipe(S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)),
+    })
+  })))
+  .output(S.standardSchemaV1(S.Struct({
+    id: S.String,
+    name: S.String,
+    filePath: S.String,
+    mimeType: S.String,
+    size: S.Number,
+    contentHash: S.optional(S.String),
+    scanStatus: S.optional(S.Literal("pending", "clean", "infected", "error")),
     tags: S.optional(S.Array(S.String)),
     metadata: S.optional(S.Record({ key: S.String, value: S.String })),
+    folderId: S.optional(S.String),
+    ownerId: S.optional(S.String),
+    version: S.optional(S.Number),
     createdAt: S.Date,
     updatedAt: S.Date,
   })))
 
-// Update document (admin only)
+// Update document (write access) - with If-Match, only if the document is still at that version
 export const updateDocument = documentBase
   .route({
     method: "PATCH",
     path: "/document/:id",
-    summary: "Update document (admin only)",
+    summary: "Update document (requires write access)",
     tags: ["document"],
     inputStructure: "detailed",
   })
@@ -110,6 +266,9 @@ export const updateDocument = documentBase
     params: S.Struct({
       id: S.String.pipe(S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)),
     }),
+    headers: S.Struct({
+      "if-match": S.optional(S.String), // The ETag the document was read with
+    }),
     body: PatchDocumentDtoSchema
   })))
   .output(S.standardSchemaV1(S.Struct({
@@ -120,6 +279,39 @@ export const updateDocument = documentBase
     size: S.Number,
     tags: S.optional(S.Array(S.String)),
     metadata: S.optional(S.Record({ key: S.String, value: S.String })),
+    folderId: S.optional(S.String),
+    ownerId: S.optional(S.String),
+    version: S.optional(S.Number),
+    createdAt: S.Date,
+    updatedAt: S.Date,
+  })))
+
+// Move document into a folder (write access)
+export const moveDocument = documentBase
+  .route({
+    method: "POST",
+    path: "/document/:id/move",
+    summary: "Move document into a folder, or to the root with a null folderId (requires write access)",
+    tags: ["document"],
+    inputStructure: "detailed",
+  })
+  .input(S.standardSchemaV1(S.Struct({
+    params: S.Struct({
+      id: S.String.pipe(S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)),
+    }),
+    body: MoveDocumentDtoSchema
+  })))
+  .output(S.standardSchemaV1(S.Struct({
+    id: S.String,
+    name: S.String,
+    filePath: S.String,
+    mimeType: S.String,
+    size: S.Number,
+    tags: S.optional(S.Array(S.String)),
+    metadata: S.optional(S.Record({ key: S.String, value: S.String })),
+    folderId: S.optional(S.String),
+    ownerId: S.optional(S.String),
+    version: S.optional(S.Number),
     createdAt: S.Date,
     updatedAt: S.Date,
   })))
@@ -145,18 +337,360 @@ export const generateDownloadLink = documentBase
 
 
 
-// Delete document (admin only)
+// Move document to the trash (manage access)
 export const deleteDocument = documentBase
   .route({
     method: "DELETE",
     path: "/document/:id",
-    summary: "Delete document (admin only)",
+    summary: "Move document to the trash (requires manage access)",
+    tags: ["document"],
+    inputStructure: "detailed",
+  })
+  .input(S.standardSchemaV1(S.Struct({
+    params: S.Struct({
+      id: S.String.pipe(S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)),
+    })
+  })))
+  .output(S.standardSchemaV1(S.Struct({
+    success: S.Boolean,
+    message: S.String,
+  })))
+
+// List trashed documents, most recently deleted first - only documents the caller can read (authenticated)
+export const getTrash = documentBase
+  .route({
+    method: "GET",
+    path: "/document/trash",
+    summary: "List documents in the trash",
+    tags: ["document"],
+  })
+  .input(S.standardSchemaV1(S.Struct({
+    page: S.optional(S.NumberFromString.pipe(S.greaterThan(0))),
+    limit: S.optional(S.NumberFromString.pipe(S.greaterThan(0)).pipe(S.lessThanOrEqualTo(100))),
+  })))
+  .output(S.standardSchemaV1(S.Struct({
+    documents: S.Array(S.Struct({
+      id: S.String,
+      name: S.String,
+      filePath: S.String,
+      mimeType: S.String,
+      size: S.Number,
+      tags: S.optional(S.Array(S.String)),
+      metadata: S.optional(S.Record({ key: S.String, value: S.String })),
+      folderId: S.optional(S.String),
+      ownerId: S.optional(S.String),
+      version: S.optional(S.Number),
+      createdAt: S.Date,
+      updatedAt: S.Date,
+      deletedAt: S.Date,
+    })),
+    pagination: S.Struct({
+      page: S.Number,
+      limit: S.Number,
+      total: S.Number,
+      totalPages: S.Number,
+    })
+  })))
+
+// List groups of documents with identical files, largest files first - only documents the caller can read (authenticated)
+export const getDuplicates = documentBase
+  .route({
+    method: "GET",
+    path: "/document/duplicates",
+    summary: "List groups of documents whose files have the same content",
+    tags: ["document"],
+  })
+  .input(S.standardSchemaV1(S.Struct({
+    page: S.optional(S.NumberFromString.pipe(S.greaterThan(0))),
+    limit: S.optional(S.NumberFromString.pipe(S.greaterThan(0)).pipe(S.lessThanOrEqualTo(100))),
+  })))
+  .output(S.standardSchemaV1(S.Struct({
+    groups: S.Array(S.Struct({
+      contentHash: S.String,
+      size: S.Number,
+      documents: S.Array(S.Struct({
+        id: S.String,
+        name: S.String,
+        filePath: S.String,
+        mimeType: S.String,
+        folderId: S.optional(S.String),
+        ownerId: S.optional(S.String),
+        version: S.optional(S.Number),
+        createdAt: S.Date,
+      })),
+    })),
+    pagination: S.Struct({
+      page: S.Number,
+      limit: S.Number,
+      total: S.Number,
+      totalPages: S.Number,
+    })
+  })))
+
+// Re-hash the stored files of a page of documents and report missing or changed ones (admin only)
+export const verifyDocumentIntegrity = documentBase
+  .route({
+    method: "GET",
+    path: "/document/integrity",
+    summary: "Verify the stored files of a page of documents against their SHA-256 (admin only)",
+    tags: ["document"],
+  })
+  .input(S.standardSchemaV1(S.Struct({
+    page: S.optional(S.NumberFromString.pipe(S.greaterThan(0))),
+    limit: S.optional(S.NumberFromString.pipe(S.greaterThan(0)).pipe(S.lessThanOrEqualTo(100))),
+  })))
+  .output(S.standardSchemaV1(S.Struct({
+    checked: S.Number,
+    unhashed: S.Number,
+    issues: S.Array(S.Struct({
+      documentId: S.String,
+      filePath: S.String,
+      versionNumbers: S.Array(S.Number),
+      status: S.Literal("mismatch", "missing"),
+      expectedHash: S.String,
+      actualHash: S.optional(S.String),
+    })),
+    pagination: S.Struct({
+      page: S.Number,
+      limit: S.Number,
+      total: S.Number,
+      totalPages: S.Number,
+    })
+  })))
+
+// Reconcile storage with the documents (admin only)
+export const reconcileStorage = documentBase
+  .route({
+    method: "POST",
+    path: "/document/reconcile",
+    summary: "Report stored files no document refers to and documents whose files are missing, deleting the orphans unless it is a dry run (admin only)",
+    tags: ["document"],
+  })
+  .input(S.standardSchemaV1(S.Struct({
+    dryRun: S.optional(S.Boolean), // Defaults to true - orphans are only deleted when it is false
+    graceMinutes: S.optional(S.Number.pipe(S.int(), S.greaterThanOrEqualTo(0))), // Files younger than this are left alone
+  })))
+  .output(S.standardSchemaV1(S.Struct({
+    dryRun: S.Boolean,
+    stored: S.Number,
+    referenced: S.Number,
+    recent: S.Number,
+    orphans: S.Array(S.Struct({
+      filePath: S.String,
+      size: S.Number,
+      modifiedAt: S.Date,
+      deleted: S.Boolean,
+    })),
+    missing: S.Array(S.Struct({
+      filePath: S.String,
+      documentIds: S.Array(S.String),
+    })),
+    deleted: S.Number,
+  })))
+
+// Restore a document from the trash (manage access)
+export const restoreDocument = documentBase
+  .route({
+    method: "POST",
+    path: "/document/:id/restore",
+    summary: "Restore a document from the trash (requires manage access)",
+    tags: ["document"],
+    inputStructure: "detailed",
+  })
+  .input(S.standardSchemaV1(S.Struct({
+    params: S.Struct({
+      id: S.String.pipe(S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)),
+    })
+  })))
+  .output(S.standardSchemaV1(S.Struct({
+    id: S.String,
+    name: S.String,
+    filePath: S.String,
+    mimeType: S.String,
+    size: S.Number,
+    tags: S.optional(S.Array(S.String)),
+    metadata: S.optional(S.Record({ key: S.String, value: S.String })),
+    folderId: S.optional(S.String),
+    ownerId: S.optional(S.String),
+    version: S.optional(S.Number),
+    createdAt: S.Date,
+    updatedAt: S.Date,
+  })))
+
+// Permanently delete a trashed document and its files (manage access)
+export const permanentlyDeleteDocument = documentBase
+  .route({
+    method: "DELETE",
+    path: "/document/:id/permanent",
+    summary: "Permanently delete a document from the trash, including all its versions (requires manage access)",
+    tags: ["document"],
+    inputStructure: "detailed",
+  })
+  .input(S.standardSchemaV1(S.Struct({
+    params: S.Struct({
+      id: S.String.pipe(S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)),
+    })
+  })))
+  .output(S.standardSchemaV1(S.Struct({
+    success: S.Boolean,
+    message: S.String,
+  })))
+
+// Upload a new version of a document (write access)
+export const uploadDocumentVersion = documentBase
+  .route({
+    method: "POST",
+    path: "/document/:id/versions",
+    summary: "Upload a new version of a document (requires write access)",
+    tags: ["document"],
+    inputStructure: "detailed",
+  })
+  .input(S.standardSchemaV1(S.Struct({
+    params: S.Struct({
+      id: S.String.pipe(S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)),
+    }),
+    body: UploadDocumentVersionDtoSchema
+  })))
+  .output(S.standardSchemaV1(DocumentVersionOutputSchema))
+
+// Get document version history, newest first (authenticated)
+export const getDocumentVersions = documentBase
+  .route({
+    method: "GET",
+    path: "/document/:id/versions",
+    summary: "Get version history of a document",
+    tags: ["document"],
+    inputStructure: "detailed",
+  })
+  .input(S.standardSchemaV1(S.Struct({
+    params: S.Struct({
+      id: S.String.pipe(S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)),
+    })
+  })))
+  .output(S.standardSchemaV1(S.Struct({
+    versions: S.Array(DocumentVersionOutputSchema),
+  })))
+
+// Get the text extracted from the current file of a document (read access)
+export const getDocumentContent = documentBase
+  .route({
+    method: "GET",
+    path: "/document/:id/content",
+    summary: "Get the extracted text of a document and the status of its extraction",
+    tags: ["document"],
+    inputStructure: "detailed",
+  })
+  .input(S.standardSchemaV1(S.Struct({
+    params: S.Struct({
+      id: S.String.pipe(S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)),
+    })
+  })))
+  .output(S.standardSchemaV1(DocumentContentOutputSchema))
+
+// Get a PNG thumbnail of an image document (read access)
+export const getDocumentThumbnail = documentBase
+  .route({
+    method: "GET",
+    path: "/document/:id/thumbnail",
+    summary: "Get the thumbnail closest to the requested size (longest edge in pixels) of an image document",
+    tags: ["document"],
+    inputStructure: "detailed",
+  })
+  .input(S.standardSchemaV1(S.Struct({
+    params: S.Struct({
+      id: S.String.pipe(S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)),
+    }),
+    query: S.Struct({
+      size: S.optional(S.NumberFromString.pipe(S.int()).pipe(S.greaterThan(0))),
+    }),
+  })))
+  .output(type<File>())
+
+// Restore an earlier version of a document (write access)
+export const restoreDocumentVersion = documentBase
+  .route({
+    method: "POST",
+    path: "/document/:id/versions/:versionId/restore",
+    summary: "Restore an earlier version of a document (requires write access)",
+    tags: ["document"],
+    inputStructure: "detailed",
+  })
+  .input(S.standardSchemaV1(S.Struct({
+    params: S.Struct({
+      id: S.String.pipe(S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)),
+      versionId: S.String.pipe(S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)),
+    })
+  })))
+  .output(S.standardSchemaV1(DocumentVersionOutputSchema))
+
+// Generate download link for a specific version (authenticated)
+export const generateVersionDownloadLink = documentBase
+  .route({
+    method: "GET",
+    path: "/document/:id/versions/:versionId/download-link",
+    summary: "Generate download link for a specific document version",
+    tags: ["document"],
+    inputStructure: "detailed",
+  })
+  .input(S.standardSchemaV1(S.Struct({
+    params: S.Struct({
+      id: S.String.pipe(S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)),
+      versionId: S.String.pipe(S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)),
+    })
+  })))
+  .output(S.standardSchemaV1(S.Struct({
+    downloadUrl: S.String,
+    expiresAt: S.Date,
+  })))
+
+// List the users granted access to a document (manage access)
+export const getDocumentPermissions = documentBase
+  .route({
+    method: "GET",
+    path: "/document/:id/permissions",
+    summary: "List access grants of a document (requires manage access)",
+    tags: ["document"],
+    inputStructure: "detailed",
+  })
+  .input(S.standardSchemaV1(S.Struct({
+    params: S.Struct({
+      id: S.String.pipe(S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)),
+    })
+  })))
+  .output(S.standardSchemaV1(S.Struct({
+    permissions: S.Array(DocumentPermissionOutputSchema),
+  })))
+
+// Grant a user read, write or manage access to a document (manage access)
+export const grantDocumentPermission = documentBase
+  .route({
+    method: "POST",
+    path: "/document/:id/permissions",
+    summary: "Grant a user access to a document, replacing any previous level (requires manage access)",
+    tags: ["document"],
+    inputStructure: "detailed",
+  })
+  .input(S.standardSchemaV1(S.Struct({
+    params: S.Struct({
+      id: S.String.pipe(S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)),
+    }),
+    body: GrantDocumentPermissionDtoSchema
+  })))
+  .output(S.standardSchemaV1(DocumentPermissionOutputSchema))
+
+// Revoke a user's access to a document (manage access)
+export const revokeDocumentPermission = documentBase
+  .route({
+    method: "DELETE",
+    path: "/document/:id/permissions/:userId",
+    summary: "Revoke a user's access to a document (requires manage access)",
     tags: ["document"],
     inputStructure: "detailed",
   })
   .input(S.standardSchemaV1(S.Struct({
     params: S.Struct({
       id: S.String.pipe(S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)),
+      userId: S.String.pipe(S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)),
     })
   })))
   .output(S.standardSchemaV1(S.Struct({
@@ -164,11 +698,83 @@ export const deleteDocument = documentBase
     message: S.String,
   })))
 
+// Check a document out so nobody else can change it until it is checked in or the checkout lapses (write access)
+export const checkoutDocument = documentBase
+  .route({
+    method: "POST",
+    path: "/document/:id/checkout",
+    summary: "Check out a document, or extend your checkout of it (requires write access)",
+    tags: ["document"],
+    inputStructure: "detailed",
+  })
+  .input(S.standardSchemaV1(S.Struct({
+    params: S.Struct({
+      id: S.String.pipe(S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)),
+    }),
+    body: S.optional(CheckoutDocumentDtoSchema),
+  })))
+  .output(S.standardSchemaV1(DocumentLockOutputSchema))
+
+// Check a document in again (only the user holding the checkout)
+export const checkinDocument = documentBase
+  .route({
+    method: "POST",
+    path: "/document/:id/checkin",
+    summary: "Check in a document you have checked out",
+    tags: ["document"],
+    inputStructure: "detailed",
+  })
+  .input(S.standardSchemaV1(S.Struct({
+    params: S.Struct({
+      id: S.String.pipe(S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)),
+    })
+  })))
+  .output(S.standardSchemaV1(DocumentLockOutputSchema))
+
+// Break another user's checkout of a document, recording the reason in the audit log (admin only)
+export const breakDocumentLock = documentBase
+  .route({
+    method: "POST",
+    path: "/document/:id/checkout/break",
+    summary: "Break the checkout of a document, giving the reason (admin only)",
+    tags: ["document"],
+    inputStructure: "detailed",
+  })
+  .input(S.standardSchemaV1(S.Struct({
+    params: S.Struct({
+      id: S.String.pipe(S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)),
+    }),
+    body: BreakDocumentLockDtoSchema,
+  })))
+  .output(S.standardSchemaV1(DocumentLockOutputSchema))
+
 export default {
   getDocuments,
+  searchDocuments,
   getDocumentById,
   uploadDocument,
+  createUploadUrl,
+  finalizeUpload,
   updateDocument,
+  moveDocument,
   generateDownloadLink,
   deleteDocument,
+  getTrash,
+  getDuplicates,
+  verifyDocumentIntegrity,
+  reconcileStorage,
+  restoreDocument,
+  permanentlyDeleteDocument,
+  uploadDocumentVersion,
+  getDocumentVersions,
+  getDocumentContent,
+  getDocumentThumbnail,
+  restoreDocumentVersion,
+  generateVersionDownloadLink,
+  getDocumentPermissions,
+  grantDocumentPermission,
+  revokeDocumentPermission,
+  checkoutDocument,
+  checkinDocument,
+  breakDocumentLock,
 }
@@ -0,0 +1,190 @@
+import {
+  CreateFolderDto,
+  MoveFolderDtoSchema,
+  RenameFolderDtoSchema,
+} from "@application/dtos/folder.dto"
+import { dtoStandardSchema } from "@application/utils/validation.utils"
+import { appAuthenticatedBase } from "@contract/utils/oc.base"
+import { Schema as S } from "effect"
+
+const folderBase = appAuthenticatedBase
+
+const FolderIdParamSchema = S.String.pipe(
+  S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i),
+)
+
+const FolderOutputSchema = S.Struct({
+  id: S.String,
+  name: S.String,
+  parentId: S.optional(S.String),
+  createdAt: S.Date,
+  updatedAt: S.Date,
+})
+
+const FolderContentsOutputSchema = S.Struct({
+  folder: S.optional(FolderOutputSchema),
+  breadcrumbs: S.Array(
+    S.Struct({
+      id: S.String,
+      name: S.String,
+    }),
+  ),
+  folders: S.Array(FolderOutputSchema),
+  documents: S.Array(
+    S.Struct({
+      id: S.String,
+      name: S.String,
+      filePath: S.String,
+      mimeType: S.String,
+      size: S.Number,
+      tags: S.optional(S.Array(S.String)),
+      metadata: S.optional(S.Record({ key: S.String, value: S.String })),
+      folderId: S.optional(S.String),
+      ownerId: S.optional(S.String),
+      version: S.optional(S.Number),
+      createdAt: S.Date,
+      updatedAt: S.Date,
+    }),
+  ),
+})
+
+// Create folder (admin only)
+export const createFolder = folderBase
+  .route({
+    method: "POST",
+    path: "/folder",
+    summary: "Create folder (admin only)",
+    tags: ["folder"],
+  })
+  .input(dtoStandardSchema(CreateFolderDto))
+  .output(S.standardSchemaV1(FolderOutputSchema))
+
+// List root folders and documents (authenticated)
+export const getRootChildren = folderBase
+  .route({
+    method: "GET",
+    path: "/folder",
+    summary: "List folders and documents at the root",
+    tags: ["folder"],
+  })
+  .output(S.standardSchemaV1(FolderContentsOutputSchema))
+
+// Get folder by ID (authenticated)
+export const getFolderById = folderBase
+  .route({
+    method: "GET",
+    path: "/folder/:id",
+    summary: "Get folder by ID",
+    tags: ["folder"],
+    inputStructure: "detailed",
+  })
+  .input(
+    S.standardSchemaV1(
+      S.Struct({
+        params: S.Struct({
+          id: FolderIdParamSchema,
+        }),
+      }),
+    ),
+  )
+  .output(S.standardSchemaV1(FolderOutputSchema))
+
+// List folder children with breadcrumb ancestry (authenticated)
+export const getFolderChildren = folderBase
+  .route({
+    method: "GET",
+    path: "/folder/:id/children",
+    summary: "List subfolders and documents of a folder, with breadcrumbs",
+    tags: ["folder"],
+    inputStructure: "detailed",
+  })
+  .input(
+    S.standardSchemaV1(
+      S.Struct({
+        params: S.Struct({
+          id: FolderIdParamSchema,
+        }),
+      }),
+    ),
+  )
+  .output(S.standardSchemaV1(FolderContentsOutputSchema))
+
+// Rename folder (admin only)
+export const renameFolder = folderBase
+  .route({
+    method: "PATCH",
+    path: "/folder/:id",
+    summary: "Rename folder (admin only)",
+    tags: ["folder"],
+    inputStructure: "detailed",
+  })
+  .input(
+    S.standardSchemaV1(
+      S.Struct({
+        params: S.Struct({
+          id: FolderIdParamSchema,
+        }),
+        body: RenameFolderDtoSchema,
+      }),
+    ),
+  )
+  .output(S.standardSchemaV1(FolderOutputSchema))
+
+// Move folder (admin only)
+export const moveFolder = folderBase
+  .route({
+    method: "POST",
+    path: "/folder/:id/move",
+    summary:
+      "Move folder under another folder, or to the root with a null parentId (admin only)",
+    tags: ["folder"],
+    inputStructure: "detailed",
+  })
+  .input(
+    S.standardSchemaV1(
+      S.Struct({
+        params: S.Struct({
+          id: FolderIdParamSchema,
+        }),
+        body: MoveFolderDtoSchema,
+      }),
+    ),
+  )
+  .output(S.standardSchemaV1(FolderOutputSchema))
+
+// Delete folder (admin only)
+export const deleteFolder = folderBase
+  .route({
+    method: "DELETE",
+    path: "/folder/:id",
+    summary: "Delete an empty folder (admin only)",
+    tags: ["folder"],
+    inputStructure: "detailed",
+  })
+  .input(
+    S.standardSchemaV1(
+      S.Struct({
+        params: S.Struct({
+          id: FolderIdParamSchema,
+        }),
+      }),
+    ),
+  )
+  .output(
+    S.standardSchemaV1(
+      S.Struct({
+        success: S.Boolean,
+        message: S.String,
+      }),
+    ),
+  )
+
+export default {
+  createFolder,
+  getRootChildren,
+  getFolderById,
+  getFolderChildren,
+  renameFolder,
+  moveFolder,
+  deleteFolder,
+}
@@ -3,6 +3,9 @@ import type { ContractRouterClient } from "@orpc/contract"
 // import userContract from "./user-orpc"
 import documentContract from "./document"
 import userContract from "./user"
+import folderContract from "./folder"
+import auditContract from "./audit"
+import webhookContract from "./webhook"
 
 export const CONTRACT = {
   public: {
@@ -13,6 +16,9 @@ export const CONTRACT = {
     user: userContract,
     // groceryList: groceryListContract,
     document: documentContract,
+    folder: folderContract,
+    audit: auditContract,
+    webhook: webhookContract,
   },
 }
 
@@ -46,6 +46,7 @@ export const getUsers = userBase
       id: S.String,
       email: S.String,
       role: S.Literal("user", "admin"),
+      version: S.optional(S.Number),
       createdAt: S.String,
       updatedAt: S.String,
     })),
@@ -75,11 +76,12 @@ export const getUserById = userBase
     id: S.String,
     email: S.String,
     role: S.Literal("user", "admin"),
+    version: S.optional(S.Number), // Raised by every save - also sent as the ETag
     createdAt: S.String,
     updatedAt: S.String,
   })))
 
-// Update user role (admin only)
+// Update user role (admin only) - with If-Match, only if the user is still at that version
 export const updateUserRole = userBase
   .route({
     method: "PATCH",
@@ -92,6 +94,9 @@ export const updateUserRole = userBase
     params: S.Struct({
       id: S.String.pipe(S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)),
     }),
+    headers: S.Struct({
+      "if-match": S.optional(S.String), // The ETag the user was read with
+    }),
     body: UpdateUserRoleDtoSchema
   })))
   .output(dtoStandardSchema(SuccessResponseDto))
@@ -0,0 +1,195 @@
+import {
+  CreateWebhookDto,
+  UpdateWebhookDtoSchema,
+} from "@application/dtos/webhook.dto"
+import { dtoStandardSchema } from "@application/utils/validation.utils"
+import { appAuthenticatedBase } from "@contract/utils/oc.base"
+import { WebhookDeliveryStatuses, WebhookEvents } from "@domain/webhook"
+import { Schema as S } from "effect"
+
+const webhookBase = appAuthenticatedBase
+
+const UuidParamSchema = S.String.pipe(
+  S.pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i),
+)
+
+const WebhookIdParamsSchema = S.Struct({
+  id: UuidParamSchema,
+})
+
+// The secret is only ever returned when the webhook is registered
+const WebhookOutputSchema = S.Struct({
+  id: S.String,
+  url: S.String,
+  events: S.Array(S.Literal(...WebhookEvents)),
+  active: S.Boolean,
+  description: S.optional(S.String),
+  createdBy: S.optional(S.String),
+  createdAt: S.Date,
+  updatedAt: S.Date,
+})
+
+const WebhookDeliveryOutputSchema = S.Struct({
+  id: S.String,
+  webhookId: S.String,
+  event: S.Literal(...WebhookEvents),
+  payload: S.Record({ key: S.String, value: S.Unknown }),
+  status: S.Literal(...WebhookDeliveryStatuses),
+  attempts: S.Number,
+  responseStatus: S.optional(S.Number),
+  responseBody: S.optional(S.String),
+  error: S.optional(S.String),
+  redeliveryOf: S.optional(S.String),
+  createdAt: S.Date,
+  updatedAt: S.Date,
+})
+
+// Register webhook (admin only)
+export const createWebhook = webhookBase
+  .route({
+    method: "POST",
+    path: "/webhook",
+    summary:
+      "Register a webhook - the response holds the signing secret, which is not shown again (admin only)",
+    tags: ["webhook"],
+  })
+  .input(dtoStandardSchema(CreateWebhookDto))
+  .output(
+    S.standardSchemaV1(
+      S.Struct({
+        ...WebhookOutputSchema.fields,
+        secret: S.String,
+      }),
+    ),
+  )
+
+// List webhooks (admin only)
+export const getWebhooks = webhookBase
+  .route({
+    method: "GET",
+    path: "/webhook",
+    summary: "List registered webhooks (admin only)",
+    tags: ["webhook"],
+  })
+  .output(S.standardSchemaV1(S.Array(WebhookOutputSchema)))
+
+// Get webhook by ID (admin only)
+export const getWebhookById = webhookBase
+  .route({
+    method: "GET",
+    path: "/webhook/:id",
+    summary: "Get webhook by ID (admin only)",
+    tags: ["webhook"],
+    inputStructure: "detailed",
+  })
+  .input(S.standardSchemaV1(S.Struct({ params: WebhookIdParamsSchema })))
+  .output(S.standardSchemaV1(WebhookOutputSchema))
+
+// Update webhook (admin only)
+export const updateWebhook = webhookBase
+  .route({
+    method: "PATCH",
+    path: "/webhook/:id",
+    summary:
+      "Change the URL, events, description or active state of a webhook (admin only)",
+    tags: ["webhook"],
+    inputStructure: "detailed",
+  })
+  .input(
+    S.standardSchemaV1(
+      S.Struct({
+        params: WebhookIdParamsSchema,
+        body: UpdateWebhookDtoSchema,
+      }),
+    ),
+  )
+  .output(S.standardSchemaV1(WebhookOutputSchema))
+
+// Delete webhook (admin only)
+export const deleteWebhook = webhookBase
+  .route({
+    method: "DELETE",
+    path: "/webhook/:id",
+    summary: "Delete a webhook and its delivery history (admin only)",
+    tags: ["webhook"],
+    inputStructure: "detailed",
+  })
+  .input(S.standardSchemaV1(S.Struct({ params: WebhookIdParamsSchema })))
+  .output(
+    S.standardSchemaV1(
+      S.Struct({
+        success: S.Boolean,
+        message: S.String,
+      }),
+    ),
+  )
+
+// List the deliveries of a webhook, newest first (admin only)
+export const getWebhookDeliveries = webhookBase
+  .route({
+    method: "GET",
+    path: "/webhook/:id/deliveries",
+    summary: "List the deliveries sent to a webhook, newest first (admin only)",
+    tags: ["webhook"],
+    inputStructure: "detailed",
+  })
+  .input(
+    S.standardSchemaV1(
+      S.Struct({
+        params: WebhookIdParamsSchema,
+        query: S.Struct({
+          page: S.optional(S.NumberFromString.pipe(S.greaterThan(0))),
+          limit: S.optional(
+            S.NumberFromString.pipe(S.greaterThan(0)).pipe(
+              S.lessThanOrEqualTo(100),
+            ),
+          ),
+        }),
+      }),
+    ),
+  )
+  .output(
+    S.standardSchemaV1(
+      S.Struct({
+        deliveries: S.Array(WebhookDeliveryOutputSchema),
+        pagination: S.Struct({
+          page: S.Number,
+          limit: S.Number,
+          total: S.Number,
+          totalPages: S.Number,
+        }),
+      }),
+    ),
+  )
+
+// Send a delivery again (admin only)
+export const redeliverWebhookDelivery = webhookBase
+  .route({
+    method: "POST",
+    path: "/webhook/:id/deliveries/:deliveryId/redeliver",
+    summary:
+      "Send the payload of a delivery again and return the new delivery once attempted (admin only)",
+    tags: ["webhook"],
+    inputStructure: "detailed",
+  })
+  .input(
+    S.standardSchemaV1(
+      S.Struct({
+        params: S.Struct({
+          id: UuidParamSchema,
+          deliveryId: UuidParamSchema,
+        }),
+      }),
+    ),
+  )
+  .output(S.standardSchemaV1(WebhookDeliveryOutputSchema))
+
+export default {
+  createWebhook,
+  getWebhooks,
+  getWebhookById,
+  updateWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  redeliverWebhookDelivery,
+}
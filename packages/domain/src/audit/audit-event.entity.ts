@@ -0,0 +1,130 @@
+import { BaseEntity, defineEntityStruct } from "@domain/utils/base.entity"
+import { UUID } from "@domain/utils/refined-types"
+import { createEncoderDecoderBridge } from "@domain/utils/schema-utils"
+import { Schema as S } from "effect"
+
+// Every operation that leaves a trace in the audit log
+export const AuditActions = [
+  "document.upload",
+  "document.update",
+  "document.move",
+  "document.download",
+  "document.delete",
+  "document.restore",
+  "document.purge",
+  "document.version.upload",
+  "document.version.restore",
+  "document.permission.grant",
+  "document.permission.revoke",
+  "document.checkout",
+  "document.checkin",
+  "document.lock.break",
+  "user.role.update",
+  "user.delete",
+] as const
+export const AuditActionSchema = S.Literal(...AuditActions)
+export type AuditAction = S.Schema.Type<typeof AuditActionSchema>
+
+export const AuditTargetTypes = ["document", "user"] as const
+export const AuditTargetTypeSchema = S.Literal(...AuditTargetTypes)
+export type AuditTargetType = S.Schema.Type<typeof AuditTargetTypeSchema>
+
+// Field values of the target, JSON-encoded as they were stored
+const AuditSnapshotSchema = S.Record({ key: S.String, value: S.Unknown })
+export type AuditSnapshot = S.Schema.Type<typeof AuditSnapshotSchema>
+
+// Define the AuditEvent schema - one operation on a document or user, recorded once and never changed
+export const AuditEventSchema = defineEntityStruct("AuditEventId", {
+  action: AuditActionSchema,
+  // Unset for operations run by the system (background jobs)
+  actorId: S.optional(UUID.extend("UserId")),
+  // Kept alongside the id so the event stays readable after the user is deleted
+  actorEmail: S.optional(S.String),
+  targetType: AuditTargetTypeSchema,
+  targetId: S.String,
+  // Only the fields the operation changed, before and after it
+  before: S.optional(AuditSnapshotSchema),
+  after: S.optional(AuditSnapshotSchema),
+  ipAddress: S.optional(S.String),
+  userAgent: S.optional(S.String),
+})
+
+export const AuditEventIdSchema = AuditEventSchema.id
+
+export type AuditEventType = S.Schema.Type<typeof AuditEventSchema>
+export type AuditEventEncoded = S.Schema.Encoded<typeof AuditEventSchema>
+
+// Schema for recording new events
+export const NewAuditEventSchema = AuditEventSchema.pipe(
+  S.pick(
+    "action",
+    "actorId",
+    "actorEmail",
+    "targetType",
+    "targetId",
+    "before",
+    "after",
+    "ipAddress",
+    "userAgent",
+  ),
+)
+export type NewAuditEventType = S.Schema.Type<typeof NewAuditEventSchema>
+
+const bridge = createEncoderDecoderBridge(AuditEventSchema)
+
+export class AuditEventEntity extends BaseEntity implements AuditEventType {
+  override readonly id: AuditEventType["id"]
+
+  readonly action: AuditAction
+  readonly actorId: AuditEventType["actorId"]
+  readonly actorEmail: AuditEventType["actorEmail"]
+  readonly targetType: AuditTargetType
+  readonly targetId: AuditEventType["targetId"]
+  readonly before: AuditEventType["before"]
+  readonly after: AuditEventType["after"]
+  readonly ipAddress: AuditEventType["ipAddress"]
+  readonly userAgent: AuditEventType["userAgent"]
+
+  private constructor(data: AuditEventType) {
+    super(data)
+    this.id = data.id
+    this.action = data.action
+    this.actorId = data.actorId
+    this.actorEmail = data.actorEmail
+    this.targetType = data.targetType
+    this.targetId = data.targetId
+    this.before = data.before
+    this.after = data.after
+    this.ipAddress = data.ipAddress
+    this.userAgent = data.userAgent
+  }
+
+  static from(data: AuditEventType): AuditEventEntity {
+    return new AuditEventEntity(data)
+  }
+
+  static fromEncoded(data: AuditEventEncoded) {
+    return bridge
+      .deserialize(data)
+      .map((eventData) => new AuditEventEntity(eventData))
+  }
+
+  // Factory method for recording new events
+  static create(data: NewAuditEventType): AuditEventEntity {
+    const validatedData = S.decodeUnknownSync(NewAuditEventSchema)(data)
+
+    return new AuditEventEntity({
+      ...AuditEventSchema.baseInit(),
+      ...validatedData,
+    })
+  }
+
+  // Whether the operation was run by the system rather than a user
+  isSystemEvent(): boolean {
+    return this.actorId === undefined
+  }
+
+  serialize() {
+    return bridge.serialize(this)
+  }
+}
@@ -0,0 +1,30 @@
+import type { Result } from "@carbonteq/fp"
+import type { UserType } from "@domain/user/user.entity"
+import type {
+  AuditAction,
+  AuditEventEntity,
+  AuditTargetType,
+} from "./audit-event.entity"
+
+export interface AuditEventFilterQuery {
+  actorId?: UserType["id"]
+  targetType?: AuditTargetType
+  targetId?: string
+  action?: AuditAction[]
+  // Inclusive bounds on when the events happened
+  fromDate?: Date
+  toDate?: Date
+}
+
+// Events are only ever appended - there is deliberately no way to change or remove them
+export abstract class AuditEventRepository {
+  abstract append(
+    event: AuditEventEntity,
+  ): Promise<Result<AuditEventEntity, Error>>
+
+  // Newest events first
+  abstract find(
+    query?: AuditEventFilterQuery,
+    pagination?: { page?: number; limit?: number },
+  ): Promise<Result<{ events: AuditEventEntity[]; total: number }, Error>>
+}
@@ -0,0 +1,133 @@
+import { BaseEntity, defineEntityStruct } from "@domain/utils/base.entity"
+import { DateTime } from "@domain/utils/refined-types"
+import { createEncoderDecoderBridge } from "@domain/utils/schema-utils"
+import { Schema as S } from "effect"
+import { DocumentIdSchema } from "./document.entity"
+
+// pending while the extractor runs, then one of the final outcomes
+export const DocumentContentStatuses = [
+  "pending",
+  "extracted",
+  "unsupported",
+  "failed",
+] as const
+export const DocumentContentStatusSchema = S.Literal(...DocumentContentStatuses)
+export type DocumentContentStatus = S.Schema.Type<
+  typeof DocumentContentStatusSchema
+>
+
+// Define the DocumentContent schema - the text extracted from the current file of a document
+export const DocumentContentSchema = defineEntityStruct("DocumentContentId", {
+  documentId: DocumentIdSchema,
+  status: DocumentContentStatusSchema,
+  extractor: S.optional(S.String), // Name of the extractor that handled the file
+  content: S.optional(S.String), // Only set once extracted
+  error: S.optional(S.String), // Only set when the extraction failed
+})
+
+export const DocumentContentIdSchema = DocumentContentSchema.id
+
+export type DocumentContentType = S.Schema.Type<typeof DocumentContentSchema>
+export type DocumentContentEncoded = S.Schema.Encoded<
+  typeof DocumentContentSchema
+>
+
+// Schema for starting an extraction
+export const NewDocumentContentSchema = DocumentContentSchema.pipe(
+  S.pick("documentId"),
+)
+export type NewDocumentContentType = S.Schema.Type<
+  typeof NewDocumentContentSchema
+>
+
+const bridge = createEncoderDecoderBridge(DocumentContentSchema)
+
+export class DocumentContentEntity
+  extends BaseEntity
+  implements DocumentContentType
+{
+  override readonly id: DocumentContentType["id"]
+
+  readonly documentId: DocumentContentType["documentId"]
+  readonly status: DocumentContentStatus
+  readonly extractor: string | undefined
+  readonly content: string | undefined
+  readonly error: string | undefined
+
+  private constructor(data: DocumentContentType) {
+    super(data)
+    this.id = data.id
+    this.documentId = data.documentId
+    this.status = data.status
+    this.extractor = data.extractor
+    this.content = data.content
+    this.error = data.error
+  }
+
+  static from(data: DocumentContentType): DocumentContentEntity {
+    return new DocumentContentEntity(data)
+  }
+
+  static fromEncoded(data: DocumentContentEncoded) {
+    return bridge
+      .deserialize(data)
+      .map((contentData) => new DocumentContentEntity(contentData))
+  }
+
+  // Factory method for new extractions - nothing has been extracted yet
+  static create(data: NewDocumentContentType): DocumentContentEntity {
+    const validatedData = S.decodeUnknownSync(NewDocumentContentSchema)(data)
+
+    return new DocumentContentEntity({
+      ...DocumentContentSchema.baseInit(),
+      ...validatedData,
+      status: "pending",
+    })
+  }
+
+  isPending(): boolean {
+    return this.status === "pending"
+  }
+
+  isExtracted(): boolean {
+    return this.status === "extracted"
+  }
+
+  // Update methods that return new instances - each records the outcome of an extraction
+  extracted(extractor: string, content: string): DocumentContentEntity {
+    return new DocumentContentEntity({
+      ...this,
+      status: "extracted",
+      extractor,
+      content,
+      error: undefined,
+      updatedAt: DateTime.now(),
+    })
+  }
+
+  unsupported(): DocumentContentEntity {
+    return new DocumentContentEntity({
+      ...this,
+      status: "unsupported",
+      extractor: undefined,
+      content: undefined,
+      error: undefined,
+      updatedAt: DateTime.now(),
+    })
+  }
+
+  failed(error: string, extractor?: string): DocumentContentEntity {
+    return new DocumentContentEntity({
+      ...this,
+      status: "failed",
+      extractor,
+      content: undefined,
+      error,
+      updatedAt: DateTime.now(),
+    })
+  }
+
+  serialize() {
+    return bridge.serialize(this)
+  }
+}
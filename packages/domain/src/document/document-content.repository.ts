@@ -0,0 +1,16 @@
+import type { Result } from "@carbonteq/fp"
+import type { RepoResult } from "@domain/utils"
+import type { DocumentType } from "./document.entity"
+import type { DocumentContentNotFoundError } from "./document.errors"
+import type { DocumentContentEntity } from "./document-content.entity"
+
+export abstract class DocumentContentRepository {
+  // A document has at most one content row - saving replaces the previous extraction
+  abstract save(
+    content: DocumentContentEntity,
+  ): Promise<Result<DocumentContentEntity, Error>>
+
+  abstract findByDocumentId(
+    documentId: DocumentType["id"],
+  ): Promise<RepoResult<DocumentContentEntity, DocumentContentNotFoundError>>
+}
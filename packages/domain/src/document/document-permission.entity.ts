@@ -0,0 +1,116 @@
+import { BaseEntity, defineEntityStruct } from "@domain/utils/base.entity"
+import { DateTime, UUID } from "@domain/utils/refined-types"
+import { createEncoderDecoderBridge } from "@domain/utils/schema-utils"
+import { Schema as S } from "effect"
+import { DocumentIdSchema } from "./document.entity"
+
+// Each level includes the ones before it: manage > write > read
+export const DocumentPermissionLevels = ["read", "write", "manage"] as const
+export const DocumentPermissionLevelSchema = S.Literal(
+  ...DocumentPermissionLevels,
+)
+export type DocumentPermissionLevel = S.Schema.Type<
+  typeof DocumentPermissionLevelSchema
+>
+
+// Define the DocumentPermission schema - a grant of access on one document to one user
+export const DocumentPermissionSchema = defineEntityStruct(
+  "DocumentPermissionId",
+  {
+    documentId: DocumentIdSchema,
+    userId: UUID.extend("UserId"),
+    level: DocumentPermissionLevelSchema,
+    grantedBy: S.optional(UUID.extend("UserId")),
+  },
+)
+
+export const DocumentPermissionIdSchema = DocumentPermissionSchema.id
+
+export type DocumentPermissionType = S.Schema.Type<
+  typeof DocumentPermissionSchema
+>
+export type DocumentPermissionEncoded = S.Schema.Encoded<
+  typeof DocumentPermissionSchema
+>
+
+// Schema for creating new grants
+export const NewDocumentPermissionSchema = DocumentPermissionSchema.pipe(
+  S.pick("documentId", "userId", "level", "grantedBy"),
+)
+export type NewDocumentPermissionType = S.Schema.Type<
+  typeof NewDocumentPermissionSchema
+>
+
+const bridge = createEncoderDecoderBridge(DocumentPermissionSchema)
+
+export class DocumentPermissionEntity
+  extends BaseEntity
+  implements DocumentPermissionType
+{
+  override readonly id: DocumentPermissionType["id"]
+
+  readonly documentId: DocumentPermissionType["documentId"]
+  readonly userId: DocumentPermissionType["userId"]
+  readonly level: DocumentPermissionLevel
+  readonly grantedBy: DocumentPermissionType["grantedBy"]
+
+  private constructor(data: DocumentPermissionType) {
+    super(data)
+    this.id = data.id
+    this.documentId = data.documentId
+    this.userId = data.userId
+    this.level = data.level
+    this.grantedBy = data.grantedBy
+  }
+
+  static from(data: DocumentPermissionType): DocumentPermissionEntity {
+    return new DocumentPermissionEntity(data)
+  }
+
+  static fromEncoded(data: DocumentPermissionEncoded) {
+    return bridge
+      .deserialize(data)
+      .map((permissionData) => new DocumentPermissionEntity(permissionData))
+  }
+
+  // Factory method for creating new grants
+  static create(data: NewDocumentPermissionType): DocumentPermissionEntity {
+    const validatedData = S.decodeUnknownSync(NewDocumentPermissionSchema)(data)
+
+    return new DocumentPermissionEntity({
+      ...DocumentPermissionSchema.baseInit(),
+      ...validatedData,
+    })
+  }
+
+  // Whether `granted` is at least as strong as `required`
+  static satisfies(
+    granted: DocumentPermissionLevel,
+    required: DocumentPermissionLevel,
+  ): boolean {
+    return (
+      DocumentPermissionLevels.indexOf(granted) >=
+      DocumentPermissionLevels.indexOf(required)
+    )
+  }
+
+  allows(required: DocumentPermissionLevel): boolean {
+    return DocumentPermissionEntity.satisfies(this.level, required)
+  }
+
+  changeLevel(
+    level: DocumentPermissionLevel,
+    grantedBy: DocumentPermissionType["grantedBy"],
+  ): DocumentPermissionEntity {
+    return new DocumentPermissionEntity({
+      ...this,
+      level,
+      grantedBy,
+      updatedAt: DateTime.now(),
+    })
+  }
+
+  serialize() {
+    return bridge.serialize(this)
+  }
+}
@@ -0,0 +1,27 @@
+import type { Result } from "@carbonteq/fp"
+import type { UserType } from "@domain/user/user.entity"
+import type { RepoResult } from "@domain/utils"
+import type { DocumentType } from "./document.entity"
+import type { DocumentPermissionNotFoundError } from "./document.errors"
+import type { DocumentPermissionEntity } from "./document-permission.entity"
+
+export abstract class DocumentPermissionRepository {
+  // Inserts the grant, or replaces the level of an existing grant for the same user
+  abstract upsert(
+    permission: DocumentPermissionEntity,
+  ): Promise<Result<DocumentPermissionEntity, Error>>
+  abstract revoke(
+    documentId: DocumentType["id"],
+    userId: UserType["id"],
+  ): Promise<Result<void, DocumentPermissionNotFoundError>>
+
+  abstract findByDocumentAndUser(
+    documentId: DocumentType["id"],
+    userId: UserType["id"],
+  ): Promise<
+    RepoResult<DocumentPermissionEntity, DocumentPermissionNotFoundError>
+  >
+  abstract findByDocumentId(
+    documentId: DocumentType["id"],
+  ): Promise<Result<DocumentPermissionEntity[], Error>>
+}
@@ -0,0 +1,110 @@
+import { BaseEntity, defineEntityStruct } from "@domain/utils/base.entity"
+import { createEncoderDecoderBridge } from "@domain/utils/schema-utils"
+import { Schema as S } from "effect"
+import { DocumentIdSchema } from "./document.entity"
+
+// Define the DocumentRendition schema - a derived file (e.g. a thumbnail) of the current file of a document
+export const DocumentRenditionSchema = defineEntityStruct(
+  "DocumentRenditionId",
+  {
+    documentId: DocumentIdSchema,
+    size: S.Number.pipe(S.int(), S.positive()), // Longest edge it was generated for, in pixels
+    width: S.Number.pipe(S.int(), S.positive()),
+    height: S.Number.pipe(S.int(), S.positive()),
+    filePath: S.String.pipe(S.minLength(1)),
+    mimeType: S.String.pipe(S.minLength(1)),
+    fileSize: S.Number.pipe(S.int(), S.positive()),
+  },
+)
+
+export const DocumentRenditionIdSchema = DocumentRenditionSchema.id
+
+export type DocumentRenditionType = S.Schema.Type<
+  typeof DocumentRenditionSchema
+>
+export type DocumentRenditionEncoded = S.Schema.Encoded<
+  typeof DocumentRenditionSchema
+>
+
+// Schema for recording generated renditions
+export const NewDocumentRenditionSchema = DocumentRenditionSchema.pipe(
+  S.pick(
+    "documentId",
+    "size",
+    "width",
+    "height",
+    "filePath",
+    "mimeType",
+    "fileSize",
+  ),
+)
+export type NewDocumentRenditionType = S.Schema.Type<
+  typeof NewDocumentRenditionSchema
+>
+
+const bridge = createEncoderDecoderBridge(DocumentRenditionSchema)
+
+export class DocumentRenditionEntity
+  extends BaseEntity
+  implements DocumentRenditionType
+{
+  override readonly id: DocumentRenditionType["id"]
+
+  readonly documentId: DocumentRenditionType["documentId"]
+  readonly size: number
+  readonly width: number
+  readonly height: number
+  readonly filePath: string
+  readonly mimeType: string
+  readonly fileSize: number
+
+  private constructor(data: DocumentRenditionType) {
+    super(data)
+    this.id = data.id
+    this.documentId = data.documentId
+    this.size = data.size
+    this.width = data.width
+    this.height = data.height
+    this.filePath = data.filePath
+    this.mimeType = data.mimeType
+    this.fileSize = data.fileSize
+  }
+
+  static from(data: DocumentRenditionType): DocumentRenditionEntity {
+    return new DocumentRenditionEntity(data)
+  }
+
+  static fromEncoded(data: DocumentRenditionEncoded) {
+    return bridge
+      .deserialize(data)
+      .map((renditionData) => new DocumentRenditionEntity(renditionData))
+  }
+
+  // Factory method for newly generated renditions
+  static create(data: NewDocumentRenditionType): DocumentRenditionEntity {
+    const validatedData = S.decodeUnknownSync(NewDocumentRenditionSchema)(data)
+
+    return new DocumentRenditionEntity({
+      ...DocumentRenditionSchema.baseInit(),
+      ...validatedData,
+    })
+  }
+
+  // The smallest rendition covering the requested size, or the largest one when none does.
+  // Without a requested size the smallest rendition is picked.
+  static closestTo(
+    renditions: DocumentRenditionEntity[],
+    size?: number,
+  ): DocumentRenditionEntity | undefined {
+    const sorted = [...renditions].sort((a, b) => a.size - b.size)
+    if (size === undefined) {
+      return sorted[0]
+    }
+
+    return sorted.find((rendition) => rendition.size >= size) ?? sorted.at(-1)
+  }
+
+  serialize() {
+    return bridge.serialize(this)
+  }
+}
@@ -0,0 +1,18 @@
+import type { Result } from "@carbonteq/fp"
+import type { DocumentType } from "./document.entity"
+import type { DocumentRenditionEntity } from "./document-rendition.entity"
+
+export abstract class DocumentRenditionRepository {
+  abstract create(
+    rendition: DocumentRenditionEntity,
+  ): Promise<Result<DocumentRenditionEntity, Error>>
+
+  abstract findByDocumentId(
+    documentId: DocumentType["id"],
+  ): Promise<Result<DocumentRenditionEntity[], Error>>
+
+  // Removes the rows only - the rendition files are the caller's to delete
+  abstract deleteByDocumentId(
+    documentId: DocumentType["id"],
+  ): Promise<Result<void, Error>>
+}
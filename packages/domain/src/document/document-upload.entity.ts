@@ -0,0 +1,144 @@
+import { FolderIdSchema } from "@domain/folder/folder.entity"
+import { BaseEntity, defineEntityStruct } from "@domain/utils/base.entity"
+import { DateTime, UUID } from "@domain/utils/refined-types"
+import { createEncoderDecoderBridge } from "@domain/utils/schema-utils"
+import { Schema as S } from "effect"
+import { DocumentIdSchema } from "./document.entity"
+
+// Define the DocumentUpload schema - a resumable upload whose chunks are staged until all bytes arrived,
+// or a direct upload the client sends straight to storage in one go
+export const DocumentUploadSchema = defineEntityStruct("DocumentUploadId", {
+  name: S.String.pipe(S.minLength(1), S.maxLength(255)),
+  mimeType: S.String.pipe(S.minLength(1)),
+  size: S.Number.pipe(S.int(), S.positive()), // Total length announced by the client
+  offset: S.Number.pipe(S.int(), S.nonNegative()), // Bytes received so far
+  tags: S.optional(S.Array(S.String.pipe(S.minLength(1), S.maxLength(50)))),
+  metadata: S.optional(S.Record({ key: S.String, value: S.String })),
+  folderId: S.optional(FolderIdSchema),
+  ownerId: UUID.extend("UserId"),
+  documentId: S.optional(DocumentIdSchema), // Set once the upload was turned into a document
+  filePath: S.optional(S.String), // Only set for direct uploads - where the client puts the file
+})
+
+export const DocumentUploadIdSchema = DocumentUploadSchema.id
+
+export type DocumentUploadType = S.Schema.Type<typeof DocumentUploadSchema>
+export type DocumentUploadEncoded = S.Schema.Encoded<
+  typeof DocumentUploadSchema
+>
+
+// Schema for starting new uploads
+export const NewDocumentUploadSchema = DocumentUploadSchema.pipe(
+  S.pick(
+    "name",
+    "mimeType",
+    "size",
+    "tags",
+    "metadata",
+    "folderId",
+    "ownerId",
+    "filePath",
+  ),
+)
+export type NewDocumentUploadType = S.Schema.Type<
+  typeof NewDocumentUploadSchema
+>
+
+const bridge = createEncoderDecoderBridge(DocumentUploadSchema)
+
+export class DocumentUploadEntity
+  extends BaseEntity
+  implements DocumentUploadType
+{
+  override readonly id: DocumentUploadType["id"]
+
+  readonly name: string
+  readonly mimeType: string
+  readonly size: number
+  readonly offset: number
+  readonly tags: DocumentUploadType["tags"]
+  readonly metadata: DocumentUploadType["metadata"]
+  readonly folderId: DocumentUploadType["folderId"]
+  readonly ownerId: DocumentUploadType["ownerId"]
+  readonly documentId: DocumentUploadType["documentId"]
+  readonly filePath: DocumentUploadType["filePath"]
+
+  private constructor(data: DocumentUploadType) {
+    super(data)
+    this.id = data.id
+    this.name = data.name
+    this.mimeType = data.mimeType
+    this.size = data.size
+    this.offset = data.offset
+    this.tags = data.tags
+    this.metadata = data.metadata
+    this.folderId = data.folderId
+    this.ownerId = data.ownerId
+    this.documentId = data.documentId
+    this.filePath = data.filePath
+  }
+
+  static from(data: DocumentUploadType): DocumentUploadEntity {
+    return new DocumentUploadEntity(data)
+  }
+
+  static fromEncoded(data: DocumentUploadEncoded) {
+    return bridge
+      .deserialize(data)
+      .map((uploadData) => new DocumentUploadEntity(uploadData))
+  }
+
+  // Factory method for starting new uploads - nothing has been received yet
+  static create(data: NewDocumentUploadType): DocumentUploadEntity {
+    const validatedData = S.decodeUnknownSync(NewDocumentUploadSchema)(data)
+
+    return new DocumentUploadEntity({
+      ...DocumentUploadSchema.baseInit(),
+      ...validatedData,
+      offset: 0,
+    })
+  }
+
+  isOwnedBy(userId: string): boolean {
+    return this.ownerId === userId
+  }
+
+  isComplete(): boolean {
+    return this.offset >= this.size
+  }
+
+  isFinalized(): boolean {
+    return this.documentId !== undefined
+  }
+
+  // Direct uploads never receive chunks - the file is checked once the client says it's there
+  isDirect(): boolean {
+    return this.filePath !== undefined
+  }
+
+  // Whether a chunk of `length` bytes starting at `offset` still fits into the upload
+  fits(offset: number, length: number): boolean {
+    return offset + length <= this.size
+  }
+
+  // Update methods that return new instances
+  advance(bytes: number): DocumentUploadEntity {
+    return new DocumentUploadEntity({
+      ...this,
+      offset: this.offset + bytes,
+      updatedAt: DateTime.now(),
+    })
+  }
+
+  finalize(documentId: DocumentUploadType["documentId"]): DocumentUploadEntity {
+    return new DocumentUploadEntity({
+      ...this,
+      documentId,
+      updatedAt: DateTime.now(),
+    })
+  }
+
+  serialize() {
+    return bridge.serialize(this)
+  }
+}
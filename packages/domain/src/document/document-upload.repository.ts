@@ -0,0 +1,27 @@
+import type { Result } from "@carbonteq/fp"
+import type { RepoResult } from "@domain/utils"
+import type { DocumentUploadNotFoundError } from "./document.errors"
+import type {
+  DocumentUploadEntity,
+  DocumentUploadType,
+} from "./document-upload.entity"
+
+export abstract class DocumentUploadRepository {
+  abstract create(
+    upload: DocumentUploadEntity,
+  ): Promise<Result<DocumentUploadEntity, Error>>
+  abstract update(
+    upload: DocumentUploadEntity,
+  ): Promise<RepoResult<DocumentUploadEntity, DocumentUploadNotFoundError>>
+  abstract delete(
+    id: DocumentUploadType["id"],
+  ): Promise<Result<void, DocumentUploadNotFoundError>>
+
+  abstract findById(
+    id: DocumentUploadType["id"],
+  ): Promise<RepoResult<DocumentUploadEntity, DocumentUploadNotFoundError>>
+  // Unfinished uploads that received nothing since the cutoff
+  abstract findStaleBefore(
+    cutoff: Date,
+  ): Promise<Result<DocumentUploadEntity[], Error>>
+}
@@ -0,0 +1,105 @@
+import { BaseEntity, defineEntityStruct } from "@domain/utils/base.entity"
+import { createEncoderDecoderBridge } from "@domain/utils/schema-utils"
+import { Schema as S } from "effect"
+import { DocumentIdSchema } from "./document.entity"
+
+// Define the DocumentVersion schema - an immutable snapshot of a document's file
+export const DocumentVersionSchema = defineEntityStruct("DocumentVersionId", {
+  documentId: DocumentIdSchema,
+  versionNumber: S.Number.pipe(S.int(), S.positive()),
+  filePath: S.String.pipe(S.minLength(1)),
+  mimeType: S.String.pipe(S.minLength(1)),
+  size: S.Number.pipe(S.positive()),
+  createdBy: S.optional(S.String),
+  contentHash: S.optional(S.String), // SHA-256 (hex) of the file, undefined for files stored before hashing
+})
+
+export const DocumentVersionIdSchema = DocumentVersionSchema.id
+
+export type DocumentVersionType = S.Schema.Type<typeof DocumentVersionSchema>
+export type DocumentVersionEncoded = S.Schema.Encoded<
+  typeof DocumentVersionSchema
+>
+
+// Schema for creating new versions
+export const NewDocumentVersionSchema = DocumentVersionSchema.pipe(
+  S.pick(
+    "documentId",
+    "versionNumber",
+    "filePath",
+    "mimeType",
+    "size",
+    "createdBy",
+    "contentHash",
+  ),
+)
+export type NewDocumentVersionType = S.Schema.Type<
+  typeof NewDocumentVersionSchema
+>
+
+const bridge = createEncoderDecoderBridge(DocumentVersionSchema)
+
+export class DocumentVersionEntity
+  extends BaseEntity
+  implements DocumentVersionType
+{
+  override readonly id: DocumentVersionType["id"]
+
+  readonly documentId: DocumentVersionType["documentId"]
+  readonly versionNumber: number
+  readonly filePath: string
+  readonly mimeType: string
+  readonly size: number
+  readonly createdBy: DocumentVersionType["createdBy"]
+  readonly contentHash: DocumentVersionType["contentHash"]
+
+  private constructor(data: DocumentVersionType) {
+    super(data)
+    this.id = data.id
+    this.documentId = data.documentId
+    this.versionNumber = data.versionNumber
+    this.filePath = data.filePath
+    this.mimeType = data.mimeType
+    this.size = data.size
+    this.createdBy = data.createdBy
+    this.contentHash = data.contentHash
+  }
+
+  static from(data: DocumentVersionType): DocumentVersionEntity {
+    return new DocumentVersionEntity(data)
+  }
+
+  static fromEncoded(data: DocumentVersionEncoded) {
+    return bridge
+      .deserialize(data)
+      .map((versionData) => new DocumentVersionEntity(versionData))
+  }
+
+  // Factory method for creating new versions
+  static create(data: NewDocumentVersionType): DocumentVersionEntity {
+    const validatedData = S.decodeUnknownSync(NewDocumentVersionSchema)(data)
+
+    return new DocumentVersionEntity({
+      ...DocumentVersionSchema.baseInit(),
+      ...validatedData,
+    })
+  }
+
+  // Version numbers start at 1 and only ever increase, restores included
+  static nextVersionNumber(existing: DocumentVersionEntity[]): number {
+    return (
+      existing.reduce(
+        (max, version) => Math.max(max, version.versionNumber),
+        0,
+      ) + 1
+    )
+  }
+
+  belongsTo(documentId: string): boolean {
+    return this.documentId === documentId
+  }
+
+  serialize() {
+    return bridge.serialize(this)
+  }
+}
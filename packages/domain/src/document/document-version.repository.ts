@@ -0,0 +1,34 @@
+import type { Result } from "@carbonteq/fp"
+import type { RepoResult } from "@domain/utils"
+import type { DocumentType } from "./document.entity"
+import type {
+  DocumentVersionAlreadyExistsError,
+  DocumentVersionNotFoundError,
+} from "./document.errors"
+import type {
+  DocumentVersionEntity,
+  DocumentVersionType,
+} from "./document-version.entity"
+
+export abstract class DocumentVersionRepository {
+  abstract create(
+    version: DocumentVersionEntity,
+  ): Promise<Result<DocumentVersionEntity, DocumentVersionAlreadyExistsError>>
+  abstract findById(
+    id: DocumentVersionType["id"],
+  ): Promise<RepoResult<DocumentVersionEntity, DocumentVersionNotFoundError>>
+  abstract delete(
+    id: DocumentVersionType["id"],
+  ): Promise<Result<void, DocumentVersionNotFoundError>>
+
+  // Ordered newest first
+  abstract findByDocumentId(
+    documentId: DocumentType["id"],
+  ): Promise<Result<DocumentVersionEntity[], Error>>
+
+  // Whether versions of any other document point at the file (duplicates linked on upload)
+  abstract isFileShared(
+    filePath: string,
+    documentId: DocumentType["id"],
+  ): Promise<Result<boolean, Error>>
+}
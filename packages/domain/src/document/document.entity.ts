@@ -1,7 +1,22 @@
+import type { DomainEventPayload, DomainEventType } from "@domain/events/domain-event"
 import { BaseEntity, defineEntityStruct } from "@domain/utils/base.entity"
 import { createEncoderDecoderBridge } from "@domain/utils/schema-utils"
+import { FolderIdSchema } from "@domain/folder/folder.entity"
+import { DateTime, UUID } from "@domain/utils/refined-types"
 import { Schema as S } from "effect"
 
+// pending until the current file was scanned for malware, then the verdict - error when the
+// scanner couldn't be reached and the file is due for another scan
+export const ScanStatuses = ["pending", "clean", "infected", "error"] as const
+export const ScanStatusSchema = S.Literal(...ScanStatuses)
+export type ScanStatus = S.Schema.Type<typeof ScanStatusSchema>
+
+// pending_delete once a purge started - the row is kept until every file of the document is gone,
+// so purges whose file deletions failed can be finished later
+export const DocumentStatuses = ["active", "pending_delete"] as const
+export const DocumentStatusSchema = S.Literal(...DocumentStatuses)
+export type DocumentStatus = S.Schema.Type<typeof DocumentStatusSchema>
+
 // Define the Document schema with DMS-specific fields
 export const DocumentSchema = defineEntityStruct("DocumentId", {
   name: S.String.pipe(S.minLength(1), S.maxLength(255)),
@@ -10,6 +25,15 @@ export const DocumentSchema = defineEntityStruct("DocumentId", {
   size: S.Number.pipe(S.positive()),
   tags: S.optional(S.Array(S.String.pipe(S.minLength(1), S.maxLength(50)))),
   metadata: S.optional(S.Record({key:S.String, value:S.String})),
+  folderId: S.optional(FolderIdSchema), // Undefined for documents at the root
+  ownerId: S.optional(UUID.extend("UserId")), // Undefined for documents uploaded before ownership existed
+  deletedAt: S.optional(DateTime), // Set while the document sits in the trash
+  contentHash: S.optional(S.String), // SHA-256 (hex) of the current file, undefined for files stored before hashing
+  scanStatus: S.optional(ScanStatusSchema), // Undefined is treated as pending
+  status: S.optional(DocumentStatusSchema), // Undefined is treated as active
+  lockedBy: S.optional(UUID.extend("UserId")), // The user who checked the document out
+  lockExpiresAt: S.optional(DateTime), // When the checkout lapses - set along with lockedBy
+  version: S.optional(S.Int.pipe(S.positive())), // Starts at 1 and is raised by the repository on every save - checkouts leave it alone
 })
 
 export const DocumentIdSchema = DocumentSchema.id
@@ -24,6 +48,10 @@ export const NewDocumentSchema = DocumentSchema.pipe(
     S.Struct({
       tags: S.optional(S.Array(S.String.pipe(S.minLength(1), S.maxLength(50)))),
       metadata: S.optional(S.Record({key:S.String, value:S.String})),
+      folderId: S.optional(FolderIdSchema),
+      ownerId: S.optional(UUID.extend("UserId")),
+      contentHash: S.optional(S.String),
+      scanStatus: S.optional(ScanStatusSchema),
     }),
   ),
 )
@@ -38,11 +66,46 @@ export const DocumentUpdateSchema = S.Struct({
   size: S.optional(S.Number.pipe(S.positive())),
   tags: S.optional(S.Array(S.String.pipe(S.minLength(1), S.maxLength(50)))),
   metadata: S.optional(S.Record({key:S.String, value:S.String})),
+  folderId: S.optional(S.NullOr(FolderIdSchema)), // null moves the document to the root
+  contentHash: S.optional(S.NullOr(S.String)), // null when the new file was stored before hashing
+  scanStatus: S.optional(ScanStatusSchema),
 })
 export type DocumentUpdateType = S.Schema.Type<typeof DocumentUpdateSchema>
 
+// The fields users edit directly, changed together with update()
+export type DocumentChanges = Pick<DocumentUpdateType, "name" | "tags" | "metadata">
+
+// The file a new version points the document at
+export interface DocumentFile {
+  filePath: string
+  mimeType: string
+  size: number
+  contentHash?: string // Undefined for files stored before hashing
+  scanStatus: ScanStatus
+}
+
 const bridge = createEncoderDecoderBridge(DocumentSchema)
 
+// Some of the older update methods set plain Dates rather than DateTimes
+const isoString = (value: DocumentType["updatedAt"] | Date): string =>
+  (value instanceof Date ? value : new Date(value.epochMillis)).toISOString()
+
+// The document as its events carry it - the payload webhook endpoints receive as well
+const eventPayload = (document: DocumentEntity): DomainEventPayload => ({
+  id: document.id,
+  name: document.name,
+  mimeType: document.mimeType,
+  size: document.size,
+  contentHash: document.contentHash ?? null,
+  tags: document.tags ?? [],
+  metadata: document.metadata ?? {},
+  folderId: document.folderId ?? null,
+  ownerId: document.ownerId ?? null,
+  createdAt: isoString(document.createdAt),
+  updatedAt: isoString(document.updatedAt),
+  deletedAt: document.deletedAt ? isoString(document.deletedAt) : null,
+})
+
 export class DocumentEntity extends BaseEntity implements DocumentType {
   override readonly id: DocumentType["id"]
 
@@ -52,6 +115,15 @@ export class DocumentEntity extends BaseEntity implements DocumentType {
   readonly size: number
   readonly tags: DocumentType["tags"]
   readonly metadata: DocumentType["metadata"]
+  readonly folderId: DocumentType["folderId"]
+  readonly ownerId: DocumentType["ownerId"]
+  readonly deletedAt: DocumentType["deletedAt"]
+  readonly contentHash: DocumentType["contentHash"]
+  readonly scanStatus: DocumentType["scanStatus"]
+  readonly status: DocumentType["status"]
+  readonly lockedBy: DocumentType["lockedBy"]
+  readonly lockExpiresAt: DocumentType["lockExpiresAt"]
+  readonly version: DocumentType["version"]
 
   private constructor(data: DocumentType) {
     super(data)
@@ -62,6 +134,15 @@ export class DocumentEntity extends BaseEntity implements DocumentType {
     this.size = data.size
     this.tags = data.tags
     this.metadata = data.metadata
+    this.folderId = data.folderId
+    this.ownerId = data.ownerId
+    this.deletedAt = data.deletedAt
+    this.contentHash = data.contentHash
+    this.scanStatus = data.scanStatus
+    this.status = data.status
+    this.lockedBy = data.lockedBy
+    this.lockExpiresAt = data.lockExpiresAt
+    this.version = data.version
   }
 
   static from(data: DocumentType): DocumentEntity {
@@ -85,8 +166,15 @@ export class DocumentEntity extends BaseEntity implements DocumentType {
       size: validatedData.size,
       tags: validatedData.tags || [],
       metadata: validatedData.metadata || {},
+      folderId: validatedData.folderId,
+      ownerId: validatedData.ownerId,
+      contentHash: validatedData.contentHash,
+      scanStatus: validatedData.scanStatus ?? "pending",
+      status: "active",
+      version: 1,
     }
-    return new DocumentEntity(documentData)
+    const document = new DocumentEntity(documentData)
+    return document.record("document.uploaded", document)
   }
 
   // Factory method for creating from repository data
@@ -132,6 +220,104 @@ export class DocumentEntity extends BaseEntity implements DocumentType {
     return this.isPDF() || this.mimeType.includes('document') || this.mimeType.includes('word')
   }
 
+  // Ownership operations
+  isOwnedBy(userId: string): boolean {
+    return this.ownerId !== undefined && this.ownerId === userId
+  }
+
+  // Trash operations
+  isDeleted(): boolean {
+    return this.deletedAt !== undefined
+  }
+
+  // Whether the document was trashed before the cutoff and is due for purging
+  isDeletedBefore(cutoff: Date): boolean {
+    return this.deletedAt !== undefined && this.deletedAt.epochMillis < cutoff.getTime()
+  }
+
+  moveToTrash(): DocumentEntity {
+    const now = DateTime.now()
+    return this.record("document.deleted", new DocumentEntity({
+      ...this,
+      deletedAt: now,
+      updatedAt: now,
+    }))
+  }
+
+  restoreFromTrash(): DocumentEntity {
+    return this.record("document.restored", new DocumentEntity({
+      ...this,
+      deletedAt: undefined,
+      updatedAt: DateTime.now(),
+    }))
+  }
+
+  isPendingDelete(): boolean {
+    return this.status === "pending_delete"
+  }
+
+  // Starts the purge - the document leaves the trash, but stays until its files were deleted
+  markPendingDelete(): DocumentEntity {
+    return new DocumentEntity({
+      ...this,
+      status: "pending_delete",
+      updatedAt: DateTime.now(),
+    })
+  }
+
+  // Records the purge - the repository's delete() removes the document for good
+  purge(): DocumentEntity {
+    return this.record("document.purged", new DocumentEntity(this))
+  }
+
+  // Checkout operations - a lapsed checkout no longer locks the document, even before it is checked in
+  isLocked(at: Date = new Date()): boolean {
+    return this.lockedBy !== undefined
+      && this.lockExpiresAt !== undefined
+      && this.lockExpiresAt.epochMillis > at.getTime()
+  }
+
+  isLockedBy(userId: string, at?: Date): boolean {
+    return this.isLocked(at) && this.lockedBy === userId
+  }
+
+  // Whether someone other than the user has the document checked out
+  isLockedAgainst(userId: string, at?: Date): boolean {
+    return this.isLocked(at) && this.lockedBy !== userId
+  }
+
+  // Checking out a document the user already holds extends the checkout
+  checkOut(userId: NonNullable<DocumentType["lockedBy"]>, expiresAt: Date): DocumentEntity {
+    return new DocumentEntity({
+      ...this,
+      lockedBy: userId,
+      lockExpiresAt: S.decodeUnknownSync(DateTime)(expiresAt),
+    })
+  }
+
+  // Releases the checkout - breaking someone else's lock releases it the same way
+  checkIn(): DocumentEntity {
+    return new DocumentEntity({
+      ...this,
+      lockedBy: undefined,
+      lockExpiresAt: undefined,
+    })
+  }
+
+  // Malware scan operations - only clean files may be downloaded
+  isClean(): boolean {
+    return this.scanStatus === "clean"
+  }
+
+  isInfected(): boolean {
+    return this.scanStatus === "infected"
+  }
+
+  // Folder operations
+  isInFolder(folderId: string | undefined): boolean {
+    return this.folderId === folderId
+  }
+
   // File size utilities
   getFileSizeInBytes(): number {
     return this.size
@@ -189,13 +375,23 @@ export class DocumentEntity extends BaseEntity implements DocumentType {
   }
 
   // Update methods that return new instances
+  update(changes: DocumentChanges): DocumentEntity {
+    return this.record("document.updated", new DocumentEntity({
+      ...this,
+      name: changes.name ?? this.name,
+      tags: changes.tags ?? this.tags,
+      metadata: changes.metadata ?? this.metadata,
+      updatedAt: DateTime.now(),
+    }))
+  }
+
   updateName(newName: string): DocumentEntity {
     const updatedData: DocumentType = {
       ...this,
       name: newName,
       updatedAt: new Date() as any, // Type assertion for now
     }
-    return new DocumentEntity(updatedData)
+    return this.record("document.updated", new DocumentEntity(updatedData))
   }
 
   updateFileInfo(newFilePath: string, newMimeType: string, newSize: number): DocumentEntity {
@@ -206,7 +402,29 @@ export class DocumentEntity extends BaseEntity implements DocumentType {
       size: newSize,
       updatedAt: new Date() as any, // Type assertion for now
     }
-    return new DocumentEntity(updatedData)
+    return this.record("document.updated", new DocumentEntity(updatedData))
+  }
+
+  // Point the document at the file of a new version
+  replaceFile(file: DocumentFile): DocumentEntity {
+    return this.record("document.version_created", new DocumentEntity({
+      ...this,
+      filePath: file.filePath,
+      mimeType: file.mimeType,
+      size: file.size,
+      contentHash: file.contentHash,
+      scanStatus: file.scanStatus,
+      updatedAt: DateTime.now(),
+    }))
+  }
+
+  moveToFolder(folderId: DocumentType["folderId"]): DocumentEntity {
+    const updatedData: DocumentType = {
+      ...this,
+      folderId,
+      updatedAt: DateTime.now(),
+    }
+    return this.record("document.moved", new DocumentEntity(updatedData))
   }
 
   updateTags(newTags: string[]): DocumentEntity {
@@ -215,7 +433,7 @@ export class DocumentEntity extends BaseEntity implements DocumentType {
       tags: newTags, // Always set tags, even if empty array
       updatedAt: new Date() as any, // Type assertion for now
     }
-    return new DocumentEntity(updatedData)
+    return this.record("document.updated", new DocumentEntity(updatedData))
   }
 
   addTags(tagsToAdd: string[]): DocumentEntity {
@@ -246,7 +464,7 @@ export class DocumentEntity extends BaseEntity implements DocumentType {
       metadata: newMetadata, // Always replace metadata completely
       updatedAt: new Date() as any, // Type assertion for now
     }
-    return new DocumentEntity(updatedData)
+    return this.record("document.updated", new DocumentEntity(updatedData))
   }
 
   // Utility methods
@@ -269,6 +487,10 @@ export class DocumentEntity extends BaseEntity implements DocumentType {
     return bridge.serialize(this)
   }
 
+  private record(type: DomainEventType, next: DocumentEntity): DocumentEntity {
+    return this.withEvent(next, type, eventPayload(next))
+  }
+
   // Convert to repository format
   toRepository(): {
     id: string
@@ -1,5 +1,9 @@
-import { NotFoundError, ValidationError, ConflictError } from "@domain/utils/base.errors"
-import type { DocumentType } from "./document.entity"
+import { NotFoundError, ValidationError, ConflictError, ForbiddenError, PreconditionFailedError } from "@domain/utils/base.errors"
+import type { UserType } from "@domain/user/user.entity"
+import type { DocumentType, ScanStatus } from "./document.entity"
+import type { DocumentPermissionLevel } from "./document-permission.entity"
+import type { DocumentUploadType } from "./document-upload.entity"
+import type { DocumentVersionType } from "./document-version.entity"
 
 // Document not found error
 export class DocumentNotFoundError extends NotFoundError {
@@ -24,6 +28,15 @@ export class DocumentAlreadyExistsError extends ConflictError {
   }
 }
 
+// Document duplicate error (the upload asked to reject files that are already stored)
+export class DocumentDuplicateError extends ConflictError {
+  override readonly code = "DOCUMENT_DUPLICATE" as const
+
+  constructor(existingId: DocumentType["id"], context?: Record<string, unknown>) {
+    super(`The file is already stored as document '${existingId}'`, { existingId, ...context })
+  }
+}
+
 // Document file error
 export class DocumentFileError extends ValidationError {
   override readonly code = "DOCUMENT_FILE_ERROR" as const
@@ -50,3 +63,115 @@ export class DocumentUploadError extends ValidationError {
     super(message, [], context)
   }
 }
+
+// Document version not found error
+export class DocumentVersionNotFoundError extends NotFoundError {
+  override readonly code = "DOCUMENT_VERSION_NOT_FOUND" as const
+
+  constructor(versionId: DocumentVersionType["id"], context?: Record<string, unknown>) {
+    super("Document version", versionId, context)
+  }
+}
+
+// Document version already exists error (concurrent uploads racing for the same number)
+export class DocumentVersionAlreadyExistsError extends ConflictError {
+  override readonly code = "DOCUMENT_VERSION_ALREADY_EXISTS" as const
+
+  constructor(documentId: DocumentType["id"], versionNumber: number, context?: Record<string, unknown>) {
+    super(`Version ${versionNumber} of document '${documentId}' already exists`, context)
+  }
+}
+
+// Document access denied error (caller can see the document but lacks the required grant)
+export class DocumentAccessDeniedError extends ForbiddenError {
+  override readonly code = "DOCUMENT_ACCESS_DENIED" as const
+
+  constructor(documentId: DocumentType["id"], requiredLevel: DocumentPermissionLevel, context?: Record<string, unknown>) {
+    super(`'${requiredLevel}' access to document '${documentId}' is required`, requiredLevel, context)
+  }
+}
+
+// Document not clean error (its file is quarantined, or wasn't scanned for malware successfully yet)
+export class DocumentNotCleanError extends ForbiddenError {
+  override readonly code = "DOCUMENT_NOT_CLEAN" as const
+
+  constructor(documentId: DocumentType["id"], scanStatus: ScanStatus | undefined, context?: Record<string, unknown>) {
+    super(
+      scanStatus === "infected"
+        ? `Document '${documentId}' is quarantined: malware was found in its file`
+        : `Document '${documentId}' can't be downloaded until its file is scanned for malware`,
+      undefined,
+      { scanStatus: scanStatus ?? "pending", ...context }
+    )
+  }
+}
+
+// Document locked error (someone else has the document checked out)
+export class DocumentLockedError extends ConflictError {
+  override readonly code = "DOCUMENT_LOCKED" as const
+
+  constructor(document: Pick<DocumentType, "id" | "lockedBy" | "lockExpiresAt">, context?: Record<string, unknown>) {
+    const expiresAt = document.lockExpiresAt ? new Date(document.lockExpiresAt.epochMillis).toISOString() : undefined
+    super(
+      `Document '${document.id}' is checked out by another user${expiresAt ? ` until ${expiresAt}` : ""}`,
+      { lockedBy: document.lockedBy, expiresAt, ...context }
+    )
+  }
+}
+
+// Document modified error (the caller's copy is out of date - someone saved the document since)
+export class DocumentModifiedError extends PreconditionFailedError {
+  override readonly code = "DOCUMENT_MODIFIED" as const
+
+  constructor(document: Pick<DocumentType, "id" | "version">, expectedVersion: number, context?: Record<string, unknown>) {
+    super(
+      `Document '${document.id}' was changed - it is at version ${document.version}, not ${expectedVersion}`,
+      { version: document.version, expectedVersion, ...context }
+    )
+  }
+}
+
+// Document permission not found error (revoking a grant that does not exist)
+export class DocumentPermissionNotFoundError extends NotFoundError {
+  override readonly code = "DOCUMENT_PERMISSION_NOT_FOUND" as const
+
+  constructor(documentId: DocumentType["id"], userId: UserType["id"], context?: Record<string, unknown>) {
+    super("Document permission", `${documentId}/${userId}`, context)
+  }
+}
+
+// Document upload not found error (unknown, terminated or someone else's resumable upload)
+export class DocumentUploadNotFoundError extends NotFoundError {
+  override readonly code = "DOCUMENT_UPLOAD_NOT_FOUND" as const
+
+  constructor(uploadId: DocumentUploadType["id"], context?: Record<string, unknown>) {
+    super("Document upload", uploadId, context)
+  }
+}
+
+// Document upload offset mismatch error (a chunk doesn't continue where the upload left off)
+export class DocumentUploadOffsetMismatchError extends ConflictError {
+  override readonly code = "DOCUMENT_UPLOAD_OFFSET_MISMATCH" as const
+
+  constructor(uploadId: DocumentUploadType["id"], expected: number, received: number, context?: Record<string, unknown>) {
+    super(`Upload '${uploadId}' continues at offset ${expected}, got ${received}`, { expected, received, ...context })
+  }
+}
+
+// Document content not found error (no extraction was recorded for the document yet)
+export class DocumentContentNotFoundError extends NotFoundError {
+  override readonly code = "DOCUMENT_CONTENT_NOT_FOUND" as const
+
+  constructor(documentId: DocumentType["id"], context?: Record<string, unknown>) {
+    super("Document content", documentId, context)
+  }
+}
+
+// Document rendition not found error (the document has no rendition, e.g. it isn't an image)
+export class DocumentRenditionNotFoundError extends NotFoundError {
+  override readonly code = "DOCUMENT_RENDITION_NOT_FOUND" as const
+
+  constructor(documentId: DocumentType["id"], context?: Record<string, unknown>) {
+    super("Document rendition", documentId, context)
+  }
+}
@@ -1,7 +1,9 @@
 import type { Result } from "@carbonteq/fp"
 import type { RepoResult } from "@domain/utils"
-import type { DocumentEntity, DocumentType, DocumentUpdateType } from "./document.entity"
-import type { DocumentNotFoundError, DocumentAlreadyExistsError } from "./document.errors"
+import type { DocumentEntity, DocumentType, DocumentUpdateType, ScanStatus } from "./document.entity"
+import type { DocumentNotFoundError, DocumentAlreadyExistsError, DocumentLockedError, DocumentModifiedError } from "./document.errors"
+import type { FolderParentId } from "@domain/folder/folder.repository"
+import type { UserType } from "@domain/user/user.entity"
 
 export interface DocumentFilterQuery {
   name?: string
@@ -12,19 +14,63 @@ export interface DocumentFilterQuery {
   toDate?: Date
   minSize?: number
   maxSize?: number
+  contentHash?: string // Documents whose current file has this SHA-256 (hex)
+  scanStatus?: ScanStatus[] // Documents whose current file has any of these scan statuses
+  folderId?: FolderParentId // null matches documents at the root
+  visibleTo?: UserType["id"] // Only documents the user owns or holds a grant on
 }
 
+// A full-text search match, ranked by how well the document matches
+export interface DocumentSearchHit {
+  document: DocumentEntity
+  rank: number
+  snippet: string // Matching fragments of the name, tags and content, with matches wrapped in <mark> tags
+}
+
+// Documents whose current files have the same content, oldest first
+export interface DocumentDuplicateGroup {
+  contentHash: string
+  size: number
+  documents: DocumentEntity[]
+}
+
+// A stored file a document refers to - its current file, an earlier version or a rendition
+export interface DocumentFileReference {
+  documentId: DocumentType["id"]
+  filePath: string
+}
+
+// Queries only ever see documents outside the trash, except for the trash operations below
+
 
 
 export abstract class DocumentRepository {
-  // Essential CRUD operations
+  // Essential CRUD operations - the events the document recorded are written to the outbox in the
+  // same transaction, and the saved document comes back without them
   abstract create(document: DocumentEntity): Promise<Result<DocumentEntity, DocumentAlreadyExistsError>>
-  abstract update(document: DocumentEntity): Promise<RepoResult<DocumentEntity, DocumentNotFoundError>>
-  abstract delete(id: DocumentType["id"]): Promise<Result<void, DocumentNotFoundError>>
+  // With an expected version, the document is only saved if nobody saved it since that version; for
+  // a user, only if nobody else has it checked out. Both are checked by the write itself, so a change
+  // made since the document was read can't be overwritten.
+  abstract update(
+    document: DocumentEntity,
+    expectedVersion?: number,
+    userId?: UserType["id"]
+  ): Promise<RepoResult<DocumentEntity, DocumentNotFoundError | DocumentModifiedError | DocumentLockedError>>
+  // Saves the checkout of document.checkOut() or checkIn() for the user, unless someone else's checkout
+  // is still running - two users checking the document out at once can't both get it. Only the
+  // checkout is saved; without a user, whatever checkout is running is broken.
+  abstract saveCheckout(
+    document: DocumentEntity,
+    userId?: UserType["id"]
+  ): Promise<RepoResult<DocumentEntity, DocumentNotFoundError | DocumentLockedError>>
+  // Removes the document for good - pass document.purge() to record the purge
+  abstract delete(document: DocumentEntity): Promise<Result<void, DocumentNotFoundError>>
   
   // Essential query operations
   abstract findById(id: DocumentType["id"]): Promise<RepoResult<DocumentEntity, DocumentNotFoundError>>
   abstract findByName(name: string): Promise<RepoResult<DocumentEntity, DocumentNotFoundError>>
+  // Names are unique per folder, so lookups by name are scoped to one
+  abstract findByNameInFolder(name: string, folderId: FolderParentId): Promise<RepoResult<DocumentEntity, DocumentNotFoundError>>
   
   // Essential pagination and filtering
   abstract find(
@@ -46,10 +92,42 @@ export abstract class DocumentRepository {
     updates: DocumentUpdateType
   ): Promise<RepoResult<DocumentEntity, DocumentNotFoundError>>
   
+  // Folder operations
+  abstract findByFolder(folderId: FolderParentId, visibleTo?: UserType["id"]): Promise<Result<DocumentEntity[], Error>>
+
   // File operations
   abstract findByFilePath(filePath: string): Promise<RepoResult<DocumentEntity, DocumentNotFoundError>>
   
-  // Search operations
-  abstract searchDocuments(searchTerm: string): Promise<Result<DocumentEntity[], Error>>
+  // Search operations - best matches first, narrowed by the same filters as find()
+  abstract searchDocuments(
+    searchTerm: string,
+    query?: DocumentFilterQuery,
+    pagination?: { page?: number; limit?: number }
+  ): Promise<Result<{ hits: DocumentSearchHit[]; total: number }, Error>>
   abstract findRecentDocuments(hours: number): Promise<Result<DocumentEntity[], Error>>
+
+  // Duplicate operations - groups of two or more documents matching the filters, largest files first
+  abstract findDuplicates(
+    query?: DocumentFilterQuery,
+    pagination?: { page?: number; limit?: number }
+  ): Promise<Result<{ groups: DocumentDuplicateGroup[]; total: number }, Error>>
+
+  // Trash operations - documents are moved to the trash with update(document.moveToTrash())
+  abstract findDeletedById(id: DocumentType["id"]): Promise<RepoResult<DocumentEntity, DocumentNotFoundError>>
+  abstract findDeleted(
+    query?: DocumentFilterQuery,
+    pagination?: { page?: number; limit?: number }
+  ): Promise<Result<{ documents: DocumentEntity[]; total: number }, Error>>
+  abstract findDeletedBefore(cutoff: Date): Promise<Result<DocumentEntity[], Error>>
+
+  // Purges that were started with update(document.markPendingDelete()) but whose files couldn't all
+  // be deleted yet, oldest first. Pending documents are left out of the trash operations above.
+  abstract findPendingDelete(limit: number): Promise<Result<DocumentEntity[], Error>>
+
+  // Storage reconciliation - the files of every document, trashed and pending ones included
+  abstract findFileReferences(): Promise<Result<DocumentFileReference[], Error>>
+
+  // Storage migration - points the documents, versions and renditions using a file at its new path,
+  // all at once. Returns how many of them were pointed there, 0 once nothing used the file anymore.
+  abstract relocateFile(fromPath: string, toPath: string): Promise<Result<number, Error>>
 }
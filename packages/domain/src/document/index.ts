@@ -1,3 +1,13 @@
 export * from "./document.entity"
 export * from "./document.errors"
 export * from "./document.repository"
+export * from "./document-version.entity"
+export * from "./document-version.repository"
+export * from "./document-permission.entity"
+export * from "./document-permission.repository"
+export * from "./document-upload.entity"
+export * from "./document-upload.repository"
+export * from "./document-content.entity"
+export * from "./document-content.repository"
+export * from "./document-rendition.entity"
+export * from "./document-rendition.repository"
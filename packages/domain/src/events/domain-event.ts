@@ -0,0 +1,47 @@
+import { DateTime, UUID } from "@domain/utils/refined-types"
+import { Schema as S } from "effect"
+
+// Every event the entities record - the changes other parts of the system react to
+export const DomainEventTypes = [
+  "document.uploaded",
+  "document.updated",
+  "document.moved",
+  "document.deleted",
+  "document.restored",
+  "document.purged",
+  "document.version_created",
+  "user.updated",
+  "user.role_changed",
+  "user.deleted",
+] as const
+export const DomainEventTypeSchema = S.Literal(...DomainEventTypes)
+export type DomainEventType = S.Schema.Type<typeof DomainEventTypeSchema>
+
+export const DomainEventIdSchema = UUID.extend("DomainEventId")
+
+// The state of the entity the event is about, JSON-encoded so it can be stored as is
+const DomainEventPayloadSchema = S.Record({ key: S.String, value: S.Unknown })
+export type DomainEventPayload = S.Schema.Type<typeof DomainEventPayloadSchema>
+
+// Subscribers may see an event more than once - the id tells the repeats apart
+export const DomainEventSchema = S.Struct({
+  id: DomainEventIdSchema,
+  type: DomainEventTypeSchema,
+  aggregateId: UUID,
+  occurredAt: DateTime,
+  payload: DomainEventPayloadSchema,
+})
+export type DomainEvent = S.Schema.Type<typeof DomainEventSchema>
+
+export const createDomainEvent = (
+  type: DomainEventType,
+  aggregateId: string,
+  payload: DomainEventPayload,
+): DomainEvent =>
+  S.decodeUnknownSync(DomainEventSchema)({
+    id: DomainEventIdSchema.new(),
+    type,
+    aggregateId,
+    occurredAt: DateTime.now(),
+    payload,
+  })
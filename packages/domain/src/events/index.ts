@@ -0,0 +1,4 @@
+export * from "./domain-event"
+export * from "./outbox-message.entity"
+export * from "./outbox.errors"
+export * from "./outbox.repository"
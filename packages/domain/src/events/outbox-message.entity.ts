@@ -0,0 +1,130 @@
+import { BaseEntity, defineEntityStruct } from "@domain/utils/base.entity"
+import { DateTime, UUID } from "@domain/utils/refined-types"
+import { createEncoderDecoderBridge } from "@domain/utils/schema-utils"
+import { Schema as S } from "effect"
+import {
+  type DomainEvent,
+  type DomainEventPayload,
+  DomainEventSchema,
+  DomainEventTypeSchema,
+} from "./domain-event"
+
+// Define the OutboxMessage schema - a domain event saved with the change that caused it, until it
+// was handed to every subscriber. Messages take the id of their event.
+export const OutboxMessageSchema = defineEntityStruct("OutboxMessageId", {
+  eventType: DomainEventTypeSchema,
+  aggregateId: UUID,
+  payload: S.Record({ key: S.String, value: S.Unknown }),
+  occurredAt: DateTime,
+  // Relayed attempts, including the ones that failed
+  attempts: S.Number.pipe(S.int(), S.nonNegative()),
+  // Not relayed before then - pushed back while a relay holds the message and after failures
+  availableAt: DateTime,
+  publishedAt: S.optional(DateTime),
+  lastError: S.optional(S.String),
+})
+
+export const OutboxMessageIdSchema = OutboxMessageSchema.id
+
+export type OutboxMessageType = S.Schema.Type<typeof OutboxMessageSchema>
+export type OutboxMessageEncoded = S.Schema.Encoded<typeof OutboxMessageSchema>
+
+const bridge = createEncoderDecoderBridge(OutboxMessageSchema)
+
+export class OutboxMessageEntity
+  extends BaseEntity
+  implements OutboxMessageType
+{
+  override readonly id: OutboxMessageType["id"]
+
+  readonly eventType: OutboxMessageType["eventType"]
+  readonly aggregateId: OutboxMessageType["aggregateId"]
+  readonly payload: DomainEventPayload
+  readonly occurredAt: OutboxMessageType["occurredAt"]
+  readonly attempts: number
+  readonly availableAt: OutboxMessageType["availableAt"]
+  readonly publishedAt: OutboxMessageType["publishedAt"]
+  readonly lastError: OutboxMessageType["lastError"]
+
+  private constructor(data: OutboxMessageType) {
+    super(data)
+    this.id = data.id
+    this.eventType = data.eventType
+    this.aggregateId = data.aggregateId
+    this.payload = data.payload
+    this.occurredAt = data.occurredAt
+    this.attempts = data.attempts
+    this.availableAt = data.availableAt
+    this.publishedAt = data.publishedAt
+    this.lastError = data.lastError
+  }
+
+  static from(data: OutboxMessageType): OutboxMessageEntity {
+    return new OutboxMessageEntity(data)
+  }
+
+  static fromEncoded(data: OutboxMessageEncoded) {
+    return bridge
+      .deserialize(data)
+      .map((messageData) => new OutboxMessageEntity(messageData))
+  }
+
+  // Factory method for saving a recorded event - it can be relayed right away
+  static fromEvent(event: DomainEvent): OutboxMessageEntity {
+    const now = DateTime.now()
+
+    return new OutboxMessageEntity({
+      id: S.decodeUnknownSync(OutboxMessageIdSchema)(event.id),
+      createdAt: now,
+      updatedAt: now,
+      eventType: event.type,
+      aggregateId: event.aggregateId,
+      payload: event.payload,
+      occurredAt: event.occurredAt,
+      attempts: 0,
+      availableAt: now,
+    })
+  }
+
+  toEvent(): DomainEvent {
+    return S.decodeUnknownSync(DomainEventSchema)({
+      id: this.id,
+      type: this.eventType,
+      aggregateId: this.aggregateId,
+      occurredAt: this.occurredAt,
+      payload: this.payload,
+    })
+  }
+
+  isPublished(): boolean {
+    return this.publishedAt !== undefined
+  }
+
+  // Update methods that return new instances
+  markPublished(): OutboxMessageEntity {
+    const now = DateTime.now()
+
+    return new OutboxMessageEntity({
+      ...this,
+      attempts: this.attempts + 1,
+      publishedAt: now,
+      lastError: undefined,
+      updatedAt: now,
+    })
+  }
+
+  // A subscriber failed - the whole event is relayed again once retryAt passed
+  markFailed(error: string, retryAt: Date): OutboxMessageEntity {
+    return new OutboxMessageEntity({
+      ...this,
+      attempts: this.attempts + 1,
+      availableAt: S.decodeUnknownSync(DateTime)(retryAt),
+      lastError: error,
+      updatedAt: DateTime.now(),
+    })
+  }
+
+  serialize() {
+    return bridge.serialize(this)
+  }
+}
@@ -0,0 +1,14 @@
+import { NotFoundError } from "@domain/utils/base.errors"
+import type { OutboxMessageType } from "./outbox-message.entity"
+
+// Outbox message not found error
+export class OutboxMessageNotFoundError extends NotFoundError {
+  override readonly code = "OUTBOX_MESSAGE_NOT_FOUND" as const
+
+  constructor(
+    messageId: OutboxMessageType["id"],
+    context?: Record<string, unknown>,
+  ) {
+    super("Outbox message", messageId, context)
+  }
+}
@@ -0,0 +1,21 @@
+import type { Result } from "@carbonteq/fp"
+import type { RepoResult } from "@domain/utils"
+import type { OutboxMessageEntity } from "./outbox-message.entity"
+import type { OutboxMessageNotFoundError } from "./outbox.errors"
+
+// Messages are written by the repositories of the entities that recorded the events, in the same
+// transaction as the change itself
+export abstract class OutboxRepository {
+  // Unpublished messages that are due, oldest events first. Claimed messages aren't due again for
+  // leaseMs, so concurrent relays skip them - and pick them up again if the relay holding them died.
+  abstract claimDue(
+    limit: number,
+    leaseMs: number,
+  ): Promise<Result<OutboxMessageEntity[], Error>>
+  abstract update(
+    message: OutboxMessageEntity,
+  ): Promise<RepoResult<OutboxMessageEntity, OutboxMessageNotFoundError>>
+
+  // Returns the number of messages deleted
+  abstract deletePublishedBefore(cutoff: Date): Promise<Result<number, Error>>
+}
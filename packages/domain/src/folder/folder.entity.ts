@@ -0,0 +1,97 @@
+import { BaseEntity, defineEntityStruct } from "@domain/utils/base.entity"
+import { DateTime, UUID } from "@domain/utils/refined-types"
+import { createEncoderDecoderBridge } from "@domain/utils/schema-utils"
+import { Schema as S } from "effect"
+
+const FolderNameSchema = S.String.pipe(
+  S.minLength(1),
+  S.maxLength(255),
+  S.filter((name) => !/[/\\]/.test(name), {
+    message: () => "Folder name cannot contain path separators",
+  }),
+)
+
+// Define the Folder schema - folders without a parent live at the root
+export const FolderSchema = defineEntityStruct("FolderId", {
+  name: FolderNameSchema,
+  parentId: S.optional(UUID.extend("FolderId")),
+})
+
+export const FolderIdSchema = FolderSchema.id
+
+export type FolderType = S.Schema.Type<typeof FolderSchema>
+export type FolderEncoded = S.Schema.Encoded<typeof FolderSchema>
+
+// Schema for creating new folders
+export const NewFolderSchema = FolderSchema.pipe(S.pick("name", "parentId"))
+export type NewFolderType = S.Schema.Type<typeof NewFolderSchema>
+
+const bridge = createEncoderDecoderBridge(FolderSchema)
+
+export class FolderEntity extends BaseEntity implements FolderType {
+  override readonly id: FolderType["id"]
+
+  readonly name: string
+  readonly parentId: FolderType["parentId"]
+
+  private constructor(data: FolderType) {
+    super(data)
+    this.id = data.id
+    this.name = data.name
+    this.parentId = data.parentId
+  }
+
+  static from(data: FolderType): FolderEntity {
+    return new FolderEntity(data)
+  }
+
+  static fromEncoded(data: FolderEncoded) {
+    return bridge
+      .deserialize(data)
+      .map((folderData) => new FolderEntity(folderData))
+  }
+
+  // Factory method for creating new folders
+  static create(data: NewFolderType): FolderEntity {
+    const validatedData = S.decodeUnknownSync(NewFolderSchema)(data)
+
+    return new FolderEntity({
+      ...FolderSchema.baseInit(),
+      ...validatedData,
+    })
+  }
+
+  isRoot(): boolean {
+    return this.parentId === undefined
+  }
+
+  // A folder may not be moved below itself - `ancestorIds` is the target parent's ancestry
+  canMoveUnder(
+    parentId: FolderType["id"] | undefined,
+    ancestorIds: readonly string[],
+  ): boolean {
+    if (parentId === undefined) return true
+    return parentId !== this.id && !ancestorIds.includes(this.id)
+  }
+
+  // Update methods that return new instances
+  rename(newName: string): FolderEntity {
+    return new FolderEntity({
+      ...this,
+      name: S.decodeUnknownSync(FolderNameSchema)(newName),
+      updatedAt: DateTime.now(),
+    })
+  }
+
+  moveTo(parentId: FolderType["id"] | undefined): FolderEntity {
+    return new FolderEntity({
+      ...this,
+      parentId,
+      updatedAt: DateTime.now(),
+    })
+  }
+
+  serialize() {
+    return bridge.serialize(this)
+  }
+}
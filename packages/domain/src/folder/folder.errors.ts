@@ -0,0 +1,51 @@
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "@domain/utils/base.errors"
+import type { FolderType } from "./folder.entity"
+
+// Folder not found error
+export class FolderNotFoundError extends NotFoundError {
+  override readonly code = "FOLDER_NOT_FOUND" as const
+
+  constructor(folderId: FolderType["id"], context?: Record<string, unknown>) {
+    super("Folder", folderId, context)
+  }
+}
+
+// Folder validation error
+export class FolderValidationError extends ValidationError {
+  override readonly code = "FOLDER_VALIDATION_ERROR" as const
+}
+
+// Folder already exists error (for duplicate names within the same parent)
+export class FolderAlreadyExistsError extends ConflictError {
+  override readonly code = "FOLDER_ALREADY_EXISTS" as const
+
+  constructor(name: string, context?: Record<string, unknown>) {
+    super(`Folder with name '${name}' already exists in this location`, context)
+  }
+}
+
+// Folder move error (moving a folder into itself or one of its descendants)
+export class FolderMoveError extends ValidationError {
+  override readonly code = "FOLDER_MOVE_ERROR" as const
+
+  constructor(folderId: FolderType["id"], context?: Record<string, unknown>) {
+    super(
+      `Folder '${folderId}' cannot be moved into itself or one of its subfolders`,
+      [],
+      context,
+    )
+  }
+}
+
+// Folder not empty error (deleting a folder that still has children)
+export class FolderNotEmptyError extends ConflictError {
+  override readonly code = "FOLDER_NOT_EMPTY" as const
+
+  constructor(folderId: FolderType["id"], context?: Record<string, unknown>) {
+    super(`Folder '${folderId}' is not empty`, context)
+  }
+}
@@ -0,0 +1,41 @@
+import type { Result } from "@carbonteq/fp"
+import type { RepoResult } from "@domain/utils"
+import type { FolderEntity, FolderType } from "./folder.entity"
+import type {
+  FolderAlreadyExistsError,
+  FolderNotFoundError,
+} from "./folder.errors"
+
+// `null` addresses the root level, which has no folder row of its own
+export type FolderParentId = FolderType["id"] | null
+
+export abstract class FolderRepository {
+  // Essential CRUD operations
+  abstract create(
+    folder: FolderEntity,
+  ): Promise<Result<FolderEntity, FolderAlreadyExistsError>>
+  abstract update(
+    folder: FolderEntity,
+  ): Promise<RepoResult<FolderEntity, FolderNotFoundError>>
+  abstract delete(
+    id: FolderType["id"],
+  ): Promise<Result<void, FolderNotFoundError>>
+
+  // Essential query operations
+  abstract findById(
+    id: FolderType["id"],
+  ): Promise<RepoResult<FolderEntity, FolderNotFoundError>>
+  abstract findByName(
+    name: string,
+    parentId: FolderParentId,
+  ): Promise<RepoResult<FolderEntity, FolderNotFoundError>>
+
+  // Hierarchy operations
+  abstract findChildren(
+    parentId: FolderParentId,
+  ): Promise<Result<FolderEntity[], Error>>
+  // Ordered from the root down to the direct parent, excluding the folder itself
+  abstract findAncestors(
+    id: FolderType["id"],
+  ): Promise<Result<FolderEntity[], Error>>
+}
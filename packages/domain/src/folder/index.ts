@@ -0,0 +1,3 @@
+export * from "./folder.entity"
+export * from "./folder.errors"
+export * from "./folder.repository"
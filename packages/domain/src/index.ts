@@ -11,3 +11,7 @@ export * from "./resilience"
 // Domain entities
 export * from "./user"
 export * from "./document"
+export * from "./folder"
+export * from "./audit"
+export * from "./webhook"
+export * from "./events"
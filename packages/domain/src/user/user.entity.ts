@@ -1,7 +1,8 @@
+import type { DomainEventType } from "@domain/events/domain-event"
 import { BaseEntity, defineEntityStruct } from "@domain/utils/base.entity"
-import { Opt } from "@domain/utils/refined-types"
+import { DateTime, Opt } from "@domain/utils/refined-types"
 import { createEncoderDecoderBridge } from "@domain/utils/schema-utils"
-import { Schema as S } from "effect"
+import { DateTime as DT, Schema as S } from "effect"
 
 // Define the User schema with DMS-specific fields
 export const UserSchema = defineEntityStruct("UserId", {
@@ -20,6 +21,7 @@ export const UserSchema = defineEntityStruct("UserId", {
     S.Literal("admin")
   ),
   emailVerified: S.Boolean,
+  version: S.optional(S.Int.pipe(S.positive())), // Starts at 1 and is raised by the repository on every save
 })
 
 export const UserIdSchema = UserSchema.id
@@ -66,6 +68,14 @@ export type UserUpdateEncoded = S.Schema.Encoded<typeof UserUpdateSchema>
 
 const bridge = createEncoderDecoderBridge(UserSchema)
 
+// A change always moves updatedAt forward, even one made within the millisecond of the last
+const touched = (previous: UserType["updatedAt"]): UserType["updatedAt"] => {
+  const now = DateTime.now()
+  return now.epochMillis > previous.epochMillis
+    ? now
+    : DT.unsafeMake(previous.epochMillis + 1)
+}
+
 export class UserEntity extends BaseEntity implements UserType {
   override readonly id: UserType["id"]
 
@@ -73,6 +83,7 @@ export class UserEntity extends BaseEntity implements UserType {
   readonly email: UserType["email"]
   readonly role: UserType["role"]
   readonly emailVerified: UserType["emailVerified"]
+  readonly version: UserType["version"]
 
   private constructor(data: UserType) {
     super(data)
@@ -81,6 +92,7 @@ export class UserEntity extends BaseEntity implements UserType {
     this.email = data.email
     this.role = data.role
     this.emailVerified = data.emailVerified
+    this.version = data.version
   }
 
   static from(data: UserType): UserEntity {
@@ -119,6 +131,7 @@ export class UserEntity extends BaseEntity implements UserType {
       email: emailValidation.right.email,
       role: validatedData.role,
       emailVerified: false, // Default to false for new users
+      version: 1,
     }
     return new UserEntity(userData)
   }
@@ -130,6 +143,7 @@ export class UserEntity extends BaseEntity implements UserType {
     email: string
     role: string
     emailVerified: boolean
+    version?: number
     createdAt: Date
     updatedAt: Date
   }): UserEntity {
@@ -140,6 +154,7 @@ export class UserEntity extends BaseEntity implements UserType {
       email: data.email,
       role: data.role,
       emailVerified: data.emailVerified,
+      version: data.version,
       createdAt: data.createdAt,
       updatedAt: data.updatedAt,
     })
@@ -174,9 +189,9 @@ export class UserEntity extends BaseEntity implements UserType {
     const updatedData: UserType = {
       ...this,
       name: nameValidation.right.name,
-      updatedAt: new Date() as any, // Type assertion for now
+      updatedAt: touched(this.updatedAt),
     }
-    return new UserEntity(updatedData)
+    return this.record("user.updated", new UserEntity(updatedData))
   }
 
   updateEmail(newEmail: string): UserEntity {
@@ -189,18 +204,31 @@ export class UserEntity extends BaseEntity implements UserType {
     const updatedData: UserType = {
       ...this,
       email: emailValidation.right.email,
-      updatedAt: new Date() as any, // Type assertion for now
+      updatedAt: touched(this.updatedAt),
     }
-    return new UserEntity(updatedData)
+    return this.record("user.updated", new UserEntity(updatedData))
   }
 
   updateRole(newRole: "user" | "admin"): UserEntity {
     const updatedData: UserType = {
       ...this,
       role: newRole,
-      updatedAt: new Date() as any, // Type assertion for now
+      updatedAt: touched(this.updatedAt),
     }
-    return new UserEntity(updatedData)
+    return this.withEvent(new UserEntity(updatedData), "user.role_changed", {
+      id: this.id,
+      email: this.email,
+      previousRole: this.role,
+      role: newRole,
+    })
+  }
+
+  // Records the deletion - the repository's delete() removes the user
+  remove(): UserEntity {
+    return this.withEvent(new UserEntity(this), "user.deleted", {
+      id: this.id,
+      email: this.email,
+    })
   }
 
   // Password management is now handled by Better-Auth in the account table
@@ -210,15 +238,25 @@ export class UserEntity extends BaseEntity implements UserType {
     const updatedData: UserType = {
       ...this,
       emailVerified: true,
-      updatedAt: new Date() as any, // Type assertion for now
+      updatedAt: touched(this.updatedAt),
     }
-    return new UserEntity(updatedData)
+    return this.record("user.updated", new UserEntity(updatedData))
   }
 
   serialize() {
     return bridge.serialize(this)
   }
 
+  private record(type: DomainEventType, next: UserEntity): UserEntity {
+    return this.withEvent(next, type, {
+      id: next.id,
+      name: next.name,
+      email: next.email,
+      role: next.role,
+      emailVerified: next.emailVerified,
+    })
+  }
+
   // Convert to repository format
   toRepository(): {
     id: string
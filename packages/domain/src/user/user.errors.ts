@@ -1,4 +1,4 @@
-import { NotFoundError, ValidationError, ConflictError } from "@domain/utils/base.errors"
+import { NotFoundError, ValidationError, ConflictError, PreconditionFailedError } from "@domain/utils/base.errors"
 import type { UserType } from "./user.entity"
 
 // User not found error
@@ -24,6 +24,18 @@ export class UserAlreadyExistsError extends ConflictError {
   }
 }
 
+// User modified error (the caller's copy is out of date - someone saved the user since)
+export class UserModifiedError extends PreconditionFailedError {
+  override readonly code = "USER_MODIFIED" as const
+
+  constructor(user: Pick<UserType, "id" | "version">, expectedVersion: number, context?: Record<string, unknown>) {
+    super(
+      `User '${user.id}' was changed - it is at version ${user.version}, not ${expectedVersion}`,
+      { version: user.version, expectedVersion, ...context }
+    )
+  }
+}
+
 // User role change error
 export class UserRoleChangeError extends ValidationError {
   override readonly code = "USER_ROLE_CHANGE_ERROR" as const
@@ -1,7 +1,7 @@
 import type { Result } from "@carbonteq/fp"
 import type { RepoResult } from "@domain/utils"
 import type { UserEntity, UserType, UserUpdateType } from "./user.entity"
-import type { UserNotFoundError, UserAlreadyExistsError } from "./user.errors"
+import type { UserNotFoundError, UserAlreadyExistsError, UserModifiedError } from "./user.errors"
 
 export interface UserFilterQuery {
   email?: string
@@ -9,10 +9,16 @@ export interface UserFilterQuery {
 }
 
 export abstract class UserRepository {
-  // Essential CRUD operations
+  // Essential CRUD operations - the events the user recorded are written to the outbox in the same
+  // transaction, and the saved user comes back without them
   abstract create(user: UserEntity): Promise<Result<UserEntity, UserAlreadyExistsError>>
-  abstract update(user: UserEntity): Promise<RepoResult<UserEntity, UserNotFoundError>>
-  abstract delete(id: UserType["id"]): Promise<Result<void, UserNotFoundError>>
+  // With an expected version, the user is only saved if nobody saved them since that version
+  abstract update(
+    user: UserEntity,
+    expectedVersion?: number
+  ): Promise<RepoResult<UserEntity, UserNotFoundError | UserModifiedError>>
+  // Pass user.remove() to record the deletion
+  abstract delete(user: UserEntity): Promise<Result<void, UserNotFoundError>>
   
   // Essential query operations
   abstract findById(id: UserType["id"]): Promise<RepoResult<UserEntity, UserNotFoundError>>
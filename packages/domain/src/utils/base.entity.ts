@@ -1,4 +1,10 @@
 import { Schema as S } from "effect"
+import {
+  createDomainEvent,
+  type DomainEvent,
+  type DomainEventPayload,
+  type DomainEventType,
+} from "../events/domain-event"
 import { DateTime, UUID } from "./refined-types"
 import { addMethodsToSchema } from "./schema-utils"
 
@@ -45,9 +51,30 @@ export class BaseEntity implements BaseEntityType {
   readonly createdAt: BaseEntityType["createdAt"]
   readonly updatedAt: BaseEntityType["updatedAt"]
 
+  // Recorded by the mutations that led to this instance and saved to the outbox along with it.
+  // Not a field, so the events are neither serialized nor copied when the entity is spread.
+  #domainEvents: readonly DomainEvent[] = []
+
   protected constructor(data: BaseEntityType) {
     this.id = data.id
     this.createdAt = data.createdAt
     this.updatedAt = data.updatedAt
   }
+
+  get domainEvents(): readonly DomainEvent[] {
+    return this.#domainEvents
+  }
+
+  // Mutations return new instances, which carry over the events recorded before
+  protected withEvent<T extends BaseEntity>(
+    next: T,
+    type: DomainEventType,
+    payload: DomainEventPayload,
+  ): T {
+    next.#domainEvents = [
+      ...this.#domainEvents,
+      createDomainEvent(type, next.id, payload),
+    ]
+    return next
+  }
 }
@@ -136,6 +136,19 @@ export class ConflictError extends AppError {
   }
 }
 
+// The caller's copy of a resource is out of date - it changed since the caller read it
+export class PreconditionFailedError extends AppError {
+  readonly code: string = "PRECONDITION_FAILED"
+
+  constructor(
+    message = "The resource was changed since it was read",
+    context?: Record<string, unknown>,
+    cause?: unknown,
+  ) {
+    super(message, context, cause)
+  }
+}
+
 export class InternalError extends AppError {
   readonly code: string = "INTERNAL_ERROR"
   readonly originalError?: Error
@@ -197,6 +210,12 @@ export const isConflictError = (error: unknown): error is ConflictError => {
   return error instanceof ConflictError
 }
 
+export const isPreconditionFailedError = (
+  error: unknown,
+): error is PreconditionFailedError => {
+  return error instanceof PreconditionFailedError
+}
+
 export const isInternalError = (error: unknown): error is InternalError => {
   return error instanceof InternalError
 }
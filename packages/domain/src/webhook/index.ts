@@ -0,0 +1,5 @@
+export * from "./webhook.entity"
+export * from "./webhook.errors"
+export * from "./webhook.repository"
+export * from "./webhook-delivery.entity"
+export * from "./webhook-delivery.repository"
@@ -0,0 +1,153 @@
+import { BaseEntity, defineEntityStruct } from "@domain/utils/base.entity"
+import { DateTime } from "@domain/utils/refined-types"
+import { createEncoderDecoderBridge } from "@domain/utils/schema-utils"
+import { Schema as S } from "effect"
+import { WebhookEventSchema, WebhookIdSchema } from "./webhook.entity"
+
+export const WebhookDeliveryStatuses = [
+  "pending",
+  "succeeded",
+  "failed",
+] as const
+export const WebhookDeliveryStatusSchema = S.Literal(...WebhookDeliveryStatuses)
+export type WebhookDeliveryStatus = S.Schema.Type<
+  typeof WebhookDeliveryStatusSchema
+>
+
+// The JSON body POSTed to the endpoint
+const WebhookPayloadSchema = S.Record({ key: S.String, value: S.Unknown })
+export type WebhookPayload = S.Schema.Type<typeof WebhookPayloadSchema>
+
+// Define the WebhookDelivery schema - one event sent to one webhook, with every retry
+export const WebhookDeliverySchema = defineEntityStruct("WebhookDeliveryId", {
+  webhookId: WebhookIdSchema,
+  event: WebhookEventSchema,
+  payload: WebhookPayloadSchema,
+  status: WebhookDeliveryStatusSchema,
+  attempts: S.Number.pipe(S.int(), S.nonNegative()),
+  // What the endpoint answered to the last attempt, if it answered at all
+  responseStatus: S.optional(S.Number.pipe(S.int())),
+  responseBody: S.optional(S.String),
+  error: S.optional(S.String), // Why the delivery failed
+  redeliveryOf: S.optional(S.UUID), // The delivery an admin asked to send again
+})
+
+export const WebhookDeliveryIdSchema = WebhookDeliverySchema.id
+
+export type WebhookDeliveryType = S.Schema.Type<typeof WebhookDeliverySchema>
+export type WebhookDeliveryEncoded = S.Schema.Encoded<
+  typeof WebhookDeliverySchema
+>
+
+// Schema for queueing new deliveries
+export const NewWebhookDeliverySchema = WebhookDeliverySchema.pipe(
+  S.pick("webhookId", "event", "payload", "redeliveryOf"),
+)
+export type NewWebhookDeliveryType = S.Schema.Type<
+  typeof NewWebhookDeliverySchema
+>
+
+// How a delivery went, once every attempt has been made
+export interface WebhookDeliveryOutcome {
+  attempts: number
+  responseStatus?: number
+  responseBody?: string
+  error?: string
+}
+
+const bridge = createEncoderDecoderBridge(WebhookDeliverySchema)
+
+export class WebhookDeliveryEntity
+  extends BaseEntity
+  implements WebhookDeliveryType
+{
+  override readonly id: WebhookDeliveryType["id"]
+
+  readonly webhookId: WebhookDeliveryType["webhookId"]
+  readonly event: WebhookDeliveryType["event"]
+  readonly payload: WebhookPayload
+  readonly status: WebhookDeliveryStatus
+  readonly attempts: number
+  readonly responseStatus: WebhookDeliveryType["responseStatus"]
+  readonly responseBody: WebhookDeliveryType["responseBody"]
+  readonly error: WebhookDeliveryType["error"]
+  readonly redeliveryOf: WebhookDeliveryType["redeliveryOf"]
+
+  private constructor(data: WebhookDeliveryType) {
+    super(data)
+    this.id = data.id
+    this.webhookId = data.webhookId
+    this.event = data.event
+    this.payload = data.payload
+    this.status = data.status
+    this.attempts = data.attempts
+    this.responseStatus = data.responseStatus
+    this.responseBody = data.responseBody
+    this.error = data.error
+    this.redeliveryOf = data.redeliveryOf
+  }
+
+  static from(data: WebhookDeliveryType): WebhookDeliveryEntity {
+    return new WebhookDeliveryEntity(data)
+  }
+
+  static fromEncoded(data: WebhookDeliveryEncoded) {
+    return bridge
+      .deserialize(data)
+      .map((deliveryData) => new WebhookDeliveryEntity(deliveryData))
+  }
+
+  // Factory method for queueing new deliveries - nothing has been sent yet
+  static create(data: NewWebhookDeliveryType): WebhookDeliveryEntity {
+    const validatedData = S.decodeUnknownSync(NewWebhookDeliverySchema)(data)
+
+    return new WebhookDeliveryEntity({
+      ...WebhookDeliverySchema.baseInit(),
+      ...validatedData,
+      status: "pending",
+      attempts: 0,
+    })
+  }
+
+  // A new delivery of the same payload, sent again on an admin's request
+  redeliver(): WebhookDeliveryEntity {
+    return WebhookDeliveryEntity.create({
+      webhookId: this.webhookId,
+      event: this.event,
+      payload: this.payload,
+      redeliveryOf: this.id,
+    })
+  }
+
+  isPending(): boolean {
+    return this.status === "pending"
+  }
+
+  // Update methods that return new instances
+  succeed(outcome: WebhookDeliveryOutcome): WebhookDeliveryEntity {
+    return this.complete("succeeded", outcome)
+  }
+
+  fail(outcome: WebhookDeliveryOutcome): WebhookDeliveryEntity {
+    return this.complete("failed", outcome)
+  }
+
+  serialize() {
+    return bridge.serialize(this)
+  }
+
+  private complete(
+    status: WebhookDeliveryStatus,
+    outcome: WebhookDeliveryOutcome,
+  ): WebhookDeliveryEntity {
+    return new WebhookDeliveryEntity({
+      ...this,
+      status,
+      attempts: outcome.attempts,
+      responseStatus: outcome.responseStatus,
+      responseBody: outcome.responseBody,
+      error: outcome.error,
+      updatedAt: DateTime.now(),
+    })
+  }
+}
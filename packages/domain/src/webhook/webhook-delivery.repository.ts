@@ -0,0 +1,28 @@
+import type { Result } from "@carbonteq/fp"
+import type { RepoResult } from "@domain/utils"
+import type { WebhookType } from "./webhook.entity"
+import type { WebhookDeliveryNotFoundError } from "./webhook.errors"
+import type {
+  WebhookDeliveryEntity,
+  WebhookDeliveryType,
+} from "./webhook-delivery.entity"
+
+export abstract class WebhookDeliveryRepository {
+  abstract create(
+    delivery: WebhookDeliveryEntity,
+  ): Promise<Result<WebhookDeliveryEntity, Error>>
+  abstract update(
+    delivery: WebhookDeliveryEntity,
+  ): Promise<RepoResult<WebhookDeliveryEntity, WebhookDeliveryNotFoundError>>
+
+  abstract findById(
+    id: WebhookDeliveryType["id"],
+  ): Promise<RepoResult<WebhookDeliveryEntity, WebhookDeliveryNotFoundError>>
+  // Newest deliveries first
+  abstract findByWebhookId(
+    webhookId: WebhookType["id"],
+    pagination?: { page?: number; limit?: number },
+  ): Promise<
+    Result<{ deliveries: WebhookDeliveryEntity[]; total: number }, Error>
+  >
+}
@@ -0,0 +1,129 @@
+import type { DomainEventType } from "@domain/events/domain-event"
+import { BaseEntity, defineEntityStruct } from "@domain/utils/base.entity"
+import { DateTime, UUID } from "@domain/utils/refined-types"
+import { createEncoderDecoderBridge } from "@domain/utils/schema-utils"
+import { Schema as S } from "effect"
+
+// Every event webhooks can subscribe to - the domain events endpoints are told about
+export const WebhookEvents = [
+  "document.uploaded",
+  "document.updated",
+  "document.moved",
+  "document.deleted",
+  "document.restored",
+  "document.purged",
+  "document.version_created",
+  "user.role_changed",
+  "user.deleted",
+] as const satisfies readonly DomainEventType[]
+export const WebhookEventSchema = S.Literal(...WebhookEvents)
+export type WebhookEvent = S.Schema.Type<typeof WebhookEventSchema>
+
+// Deliveries are POSTed to the endpoint, so only plain HTTP(S) URLs are accepted
+export const WebhookUrlSchema = S.String.pipe(
+  S.maxLength(2048),
+  S.pattern(/^https?:\/\/[^\s/?#]+[^\s]*$/i),
+)
+
+// Define the Webhook schema - an endpoint notified of the events it subscribed to
+export const WebhookSchema = defineEntityStruct("WebhookId", {
+  url: WebhookUrlSchema,
+  // Shared with the endpoint, which checks the signature of every delivery with it
+  secret: S.String.pipe(S.minLength(16)),
+  events: S.Array(WebhookEventSchema).pipe(S.minItems(1)),
+  active: S.Boolean,
+  description: S.optional(S.String.pipe(S.maxLength(255))),
+  createdBy: S.optional(UUID.extend("UserId")),
+})
+
+export const WebhookIdSchema = WebhookSchema.id
+
+export type WebhookType = S.Schema.Type<typeof WebhookSchema>
+export type WebhookEncoded = S.Schema.Encoded<typeof WebhookSchema>
+
+// Schema for registering new webhooks
+export const NewWebhookSchema = WebhookSchema.pipe(
+  S.pick("url", "secret", "events", "description", "createdBy"),
+)
+export type NewWebhookType = S.Schema.Type<typeof NewWebhookSchema>
+
+// Schema for changing registered webhooks
+export const WebhookUpdateSchema = WebhookSchema.pipe(
+  S.pick("url", "events", "active", "description"),
+  S.partial,
+)
+export type WebhookUpdateType = S.Schema.Type<typeof WebhookUpdateSchema>
+
+const bridge = createEncoderDecoderBridge(WebhookSchema)
+
+export class WebhookEntity extends BaseEntity implements WebhookType {
+  override readonly id: WebhookType["id"]
+
+  readonly url: string
+  readonly secret: string
+  readonly events: WebhookType["events"]
+  readonly active: boolean
+  readonly description: WebhookType["description"]
+  readonly createdBy: WebhookType["createdBy"]
+
+  private constructor(data: WebhookType) {
+    super(data)
+    this.id = data.id
+    this.url = data.url
+    this.secret = data.secret
+    this.events = data.events
+    this.active = data.active
+    this.description = data.description
+    this.createdBy = data.createdBy
+  }
+
+  static from(data: WebhookType): WebhookEntity {
+    return new WebhookEntity(data)
+  }
+
+  static fromEncoded(data: WebhookEncoded) {
+    return bridge
+      .deserialize(data)
+      .map((webhookData) => new WebhookEntity(webhookData))
+  }
+
+  // Factory method for registering new webhooks - they are active right away
+  static create(data: NewWebhookType): WebhookEntity {
+    const validatedData = S.decodeUnknownSync(NewWebhookSchema)(data)
+
+    return new WebhookEntity({
+      ...WebhookSchema.baseInit(),
+      ...validatedData,
+      events: [...new Set(validatedData.events)],
+      active: true,
+    })
+  }
+
+  // Whether deliveries of the event go to this webhook
+  isSubscribedTo(event: WebhookEvent): boolean {
+    return this.active && this.events.includes(event)
+  }
+
+  // Update methods that return new instances
+  update(data: WebhookUpdateType): WebhookEntity {
+    const validatedData = S.decodeUnknownSync(WebhookUpdateSchema)(data)
+
+    return new WebhookEntity({
+      ...this,
+      url: validatedData.url ?? this.url,
+      events: validatedData.events
+        ? [...new Set(validatedData.events)]
+        : this.events,
+      active: validatedData.active ?? this.active,
+      description:
+        "description" in validatedData
+          ? validatedData.description
+          : this.description,
+      updatedAt: DateTime.now(),
+    })
+  }
+
+  serialize() {
+    return bridge.serialize(this)
+  }
+}
@@ -0,0 +1,24 @@
+import { NotFoundError } from "@domain/utils/base.errors"
+import type { WebhookType } from "./webhook.entity"
+import type { WebhookDeliveryType } from "./webhook-delivery.entity"
+
+// Webhook not found error
+export class WebhookNotFoundError extends NotFoundError {
+  override readonly code = "WEBHOOK_NOT_FOUND" as const
+
+  constructor(webhookId: WebhookType["id"], context?: Record<string, unknown>) {
+    super("Webhook", webhookId, context)
+  }
+}
+
+// Webhook delivery not found error
+export class WebhookDeliveryNotFoundError extends NotFoundError {
+  override readonly code = "WEBHOOK_DELIVERY_NOT_FOUND" as const
+
+  constructor(
+    deliveryId: WebhookDeliveryType["id"],
+    context?: Record<string, unknown>,
+  ) {
+    super("Webhook delivery", deliveryId, context)
+  }
+}
@@ -0,0 +1,25 @@
+import type { Result } from "@carbonteq/fp"
+import type { RepoResult } from "@domain/utils"
+import type { WebhookEntity, WebhookEvent, WebhookType } from "./webhook.entity"
+import type { WebhookNotFoundError } from "./webhook.errors"
+
+export abstract class WebhookRepository {
+  abstract create(webhook: WebhookEntity): Promise<Result<WebhookEntity, Error>>
+  abstract update(
+    webhook: WebhookEntity,
+  ): Promise<RepoResult<WebhookEntity, WebhookNotFoundError>>
+  // Deleting a webhook deletes its delivery history too
+  abstract delete(
+    id: WebhookType["id"],
+  ): Promise<Result<void, WebhookNotFoundError>>
+
+  abstract findById(
+    id: WebhookType["id"],
+  ): Promise<RepoResult<WebhookEntity, WebhookNotFoundError>>
+  // Oldest first
+  abstract findAll(): Promise<Result<WebhookEntity[], Error>>
+  // Active webhooks subscribed to the event
+  abstract findSubscribedTo(
+    event: WebhookEvent,
+  ): Promise<Result<WebhookEntity[], Error>>
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "bun:test"
+import { AuditEventEntity } from "@domain/audit/audit-event.entity"
+import { UserEntity } from "@domain/user/user.entity"
+
+describe("AuditEventEntity", () => {
+  const admin = UserEntity.create({
+    name: "Admin",
+    email: "admin@example.com",
+    password: "password123",
+    role: "admin",
+  })
+  const target = UserEntity.create({
+    name: "Target",
+    email: "target@example.com",
+    password: "password123",
+    role: "user",
+  })
+
+  const roleChange = () =>
+    AuditEventEntity.create({
+      action: "user.role.update",
+      actorId: admin.id,
+      actorEmail: admin.email,
+      targetType: "user",
+      targetId: target.id,
+      before: { role: "user" },
+      after: { role: "admin" },
+      ipAddress: "203.0.113.7",
+      userAgent: "curl/8.5.0",
+    })
+
+  describe("create", () => {
+    it("should record who did what to which target", () => {
+      const event = roleChange()
+
+      expect(event.action).toBe("user.role.update")
+      expect(event.actorId).toBe(admin.id)
+      expect(event.actorEmail).toBe("admin@example.com")
+      expect(event.targetType).toBe("user")
+      expect(event.targetId).toBe(target.id)
+      expect(event.before).toEqual({ role: "user" })
+      expect(event.after).toEqual({ role: "admin" })
+      expect(event.ipAddress).toBe("203.0.113.7")
+      expect(event.userAgent).toBe("curl/8.5.0")
+      expect(event.isSystemEvent()).toBe(false)
+    })
+
+    it("should record events without an actor as system events", () => {
+      const event = AuditEventEntity.create({
+        action: "document.purge",
+        targetType: "document",
+        targetId: "0d9f4a52-8c1e-4a7b-9a55-2f7c7e3f1b10",
+      })
+
+      expect(event.isSystemEvent()).toBe(true)
+      expect(event.before).toBeUndefined()
+    })
+
+    it("should reject unknown actions and target types", () => {
+      expect(() =>
+        AuditEventEntity.create({
+          action: "document.print" as any,
+          targetType: "document",
+          targetId: target.id,
+        }),
+      ).toThrow()
+      expect(() =>
+        AuditEventEntity.create({
+          action: "user.delete",
+          targetType: "group" as any,
+          targetId: target.id,
+        }),
+      ).toThrow()
+    })
+  })
+
+  describe("serialization", () => {
+    it("should round-trip through its encoded form", () => {
+      const event = roleChange()
+
+      const restored = AuditEventEntity.fromEncoded(
+        event.serialize().unwrap(),
+      ).unwrap()
+
+      expect(restored.id).toBe(event.id)
+      expect(restored.action).toBe("user.role.update")
+      expect(restored.after).toEqual({ role: "admin" })
+    })
+  })
+})
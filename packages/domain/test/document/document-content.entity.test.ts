@@ -0,0 +1,71 @@
+import { describe, expect, it } from "bun:test"
+import { DocumentEntity } from "@domain/document/document.entity"
+import { DocumentContentEntity } from "@domain/document/document-content.entity"
+
+describe("DocumentContentEntity", () => {
+  const document = DocumentEntity.create({
+    name: "report.pdf",
+    filePath: "/uploads/report.pdf",
+    mimeType: "application/pdf",
+    size: 2048,
+  })
+
+  const startExtraction = () =>
+    DocumentContentEntity.create({ documentId: document.id })
+
+  describe("create", () => {
+    it("should start out pending without content", () => {
+      const content = startExtraction()
+
+      expect(content.documentId).toBe(document.id)
+      expect(content.isPending()).toBe(true)
+      expect(content.content).toBeUndefined()
+      expect(content.error).toBeUndefined()
+    })
+  })
+
+  describe("outcomes", () => {
+    it("should record the extracted text and its extractor", () => {
+      const pending = startExtraction()
+      const extracted = pending.extracted("pdf", "Quarterly report")
+
+      expect(pending.isPending()).toBe(true)
+      expect(extracted.isExtracted()).toBe(true)
+      expect(extracted.extractor).toBe("pdf")
+      expect(extracted.content).toBe("Quarterly report")
+    })
+
+    it("should clear previous text when an extraction fails", () => {
+      const failed = startExtraction()
+        .extracted("pdf", "Quarterly report")
+        .failed("Encrypted PDFs are not supported", "pdf")
+
+      expect(failed.status).toBe("failed")
+      expect(failed.error).toBe("Encrypted PDFs are not supported")
+      expect(failed.content).toBeUndefined()
+    })
+
+    it("should mark files without an extractor as unsupported", () => {
+      const unsupported = startExtraction()
+        .failed("Unreadable", "pdf")
+        .unsupported()
+
+      expect(unsupported.status).toBe("unsupported")
+      expect(unsupported.extractor).toBeUndefined()
+      expect(unsupported.error).toBeUndefined()
+    })
+  })
+
+  describe("serialization", () => {
+    it("should round-trip through the encoded form", () => {
+      const content = startExtraction().extracted("text", "hello")
+      const restored = DocumentContentEntity.fromEncoded(
+        content.serialize().unwrap(),
+      ).unwrap()
+
+      expect(restored.id).toBe(content.id)
+      expect(restored.status).toBe("extracted")
+      expect(restored.content).toBe("hello")
+    })
+  })
+})
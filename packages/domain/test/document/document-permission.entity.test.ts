@@ -0,0 +1,90 @@
+import { describe, expect, it } from "bun:test"
+import { DocumentEntity } from "@domain/document/document.entity"
+import { DocumentPermissionEntity } from "@domain/document/document-permission.entity"
+import { UserEntity } from "@domain/user/user.entity"
+
+describe("DocumentPermissionEntity", () => {
+  const owner = UserEntity.create({
+    name: "Owner",
+    email: "owner@example.com",
+    password: "password123",
+    role: "user",
+  })
+  const grantee = UserEntity.create({
+    name: "Grantee",
+    email: "grantee@example.com",
+    password: "password123",
+    role: "user",
+  })
+  const document = DocumentEntity.create({
+    name: "salaries.xlsx",
+    filePath: "/uploads/salaries.xlsx",
+    mimeType: "application/vnd.ms-excel",
+    size: 2048,
+    ownerId: owner.id,
+  })
+
+  const grant = (level: "read" | "write" | "manage") =>
+    DocumentPermissionEntity.create({
+      documentId: document.id,
+      userId: grantee.id,
+      level,
+      grantedBy: owner.id,
+    })
+
+  describe("create", () => {
+    it("should create a grant", () => {
+      const permission = grant("read")
+
+      expect(permission.documentId).toBe(document.id)
+      expect(permission.userId).toBe(grantee.id)
+      expect(permission.level).toBe("read")
+      expect(permission.grantedBy).toBe(owner.id)
+    })
+
+    it("should reject unknown levels", () => {
+      expect(() => grant("admin" as any)).toThrow()
+    })
+  })
+
+  describe("allows", () => {
+    it("should treat levels as cumulative", () => {
+      expect(grant("read").allows("read")).toBe(true)
+      expect(grant("read").allows("write")).toBe(false)
+      expect(grant("write").allows("read")).toBe(true)
+      expect(grant("write").allows("manage")).toBe(false)
+      expect(grant("manage").allows("write")).toBe(true)
+      expect(grant("manage").allows("manage")).toBe(true)
+    })
+  })
+
+  describe("changeLevel", () => {
+    it("should return a copy with the new level", () => {
+      const permission = grant("read")
+      const upgraded = permission.changeLevel("write", owner.id)
+
+      expect(upgraded.id).toBe(permission.id)
+      expect(upgraded.level).toBe("write")
+      expect(permission.level).toBe("read")
+    })
+  })
+
+  describe("document ownership", () => {
+    it("should recognise the owner", () => {
+      expect(document.isOwnedBy(owner.id)).toBe(true)
+      expect(document.isOwnedBy(grantee.id)).toBe(false)
+    })
+
+    it("should treat unowned documents as owned by nobody", () => {
+      const legacy = DocumentEntity.create({
+        name: "legacy.pdf",
+        filePath: "/uploads/legacy.pdf",
+        mimeType: "application/pdf",
+        size: 1024,
+      })
+
+      expect(legacy.ownerId).toBeUndefined()
+      expect(legacy.isOwnedBy(owner.id)).toBe(false)
+    })
+  })
+})
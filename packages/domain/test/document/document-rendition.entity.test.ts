@@ -0,0 +1,62 @@
+import { describe, expect, it } from "bun:test"
+import { DocumentEntity } from "@domain/document/document.entity"
+import { DocumentRenditionEntity } from "@domain/document/document-rendition.entity"
+
+describe("DocumentRenditionEntity", () => {
+  const document = DocumentEntity.create({
+    name: "photo.jpg",
+    filePath: "/uploads/photo.jpg",
+    mimeType: "image/jpeg",
+    size: 2048,
+  })
+
+  const createRendition = (size: number) =>
+    DocumentRenditionEntity.create({
+      documentId: document.id,
+      size,
+      width: size,
+      height: Math.round(size * 0.75),
+      filePath: `/uploads/photo_${size}.png`,
+      mimeType: "image/png",
+      fileSize: size * 10,
+    })
+
+  describe("create", () => {
+    it("should create a rendition of the document", () => {
+      const rendition = createRendition(256)
+
+      expect(rendition.documentId).toBe(document.id)
+      expect(rendition.size).toBe(256)
+      expect(rendition.height).toBe(192)
+      expect(rendition.mimeType).toBe("image/png")
+    })
+
+    it("should reject sizes that aren't whole pixels", () => {
+      expect(() => createRendition(0)).toThrow()
+      expect(() => createRendition(12.5)).toThrow()
+    })
+  })
+
+  describe("closestTo", () => {
+    const renditions = [512, 128, 256].map(createRendition)
+
+    it("should pick the smallest rendition covering the requested size", () => {
+      expect(DocumentRenditionEntity.closestTo(renditions, 200)?.size).toBe(256)
+      expect(DocumentRenditionEntity.closestTo(renditions, 128)?.size).toBe(128)
+    })
+
+    it("should fall back to the largest rendition for bigger sizes", () => {
+      expect(DocumentRenditionEntity.closestTo(renditions, 2000)?.size).toBe(
+        512,
+      )
+    })
+
+    it("should pick the smallest rendition when no size is requested", () => {
+      expect(DocumentRenditionEntity.closestTo(renditions)?.size).toBe(128)
+    })
+
+    it("should find nothing without renditions", () => {
+      expect(DocumentRenditionEntity.closestTo([], 256)).toBeUndefined()
+    })
+  })
+})
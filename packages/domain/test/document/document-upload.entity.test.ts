@@ -0,0 +1,92 @@
+import { describe, expect, it } from "bun:test"
+import { DocumentEntity } from "@domain/document/document.entity"
+import { DocumentUploadEntity } from "@domain/document/document-upload.entity"
+import { UserEntity } from "@domain/user/user.entity"
+
+describe("DocumentUploadEntity", () => {
+  const owner = UserEntity.create({
+    name: "Owner",
+    email: "owner@example.com",
+    password: "password123",
+    role: "user",
+  })
+
+  const startUpload = (size = 1000) =>
+    DocumentUploadEntity.create({
+      name: "scan.pdf",
+      mimeType: "application/pdf",
+      size,
+      ownerId: owner.id,
+    })
+
+  describe("create", () => {
+    it("should start with nothing received", () => {
+      const upload = startUpload()
+
+      expect(upload.offset).toBe(0)
+      expect(upload.size).toBe(1000)
+      expect(upload.isOwnedBy(owner.id)).toBe(true)
+      expect(upload.isComplete()).toBe(false)
+      expect(upload.isFinalized()).toBe(false)
+      expect(upload.isDirect()).toBe(false)
+    })
+
+    it("should mark uploads sent straight to storage as direct", () => {
+      const upload = DocumentUploadEntity.create({
+        name: "scan.pdf",
+        mimeType: "application/pdf",
+        size: 1000,
+        ownerId: owner.id,
+        filePath: "2025/01/31/scan_1738281600000_ab12cd.pdf",
+      })
+
+      expect(upload.isDirect()).toBe(true)
+      expect(upload.filePath).toBe("2025/01/31/scan_1738281600000_ab12cd.pdf")
+    })
+
+    it("should reject empty or fractional lengths", () => {
+      expect(() => startUpload(0)).toThrow()
+      expect(() => startUpload(10.5)).toThrow()
+    })
+  })
+
+  describe("advance", () => {
+    it("should move the offset and complete once all bytes arrived", () => {
+      const upload = startUpload()
+      const partial = upload.advance(400)
+      const complete = partial.advance(600)
+
+      expect(upload.offset).toBe(0)
+      expect(partial.offset).toBe(400)
+      expect(partial.isComplete()).toBe(false)
+      expect(complete.isComplete()).toBe(true)
+    })
+  })
+
+  describe("fits", () => {
+    it("should reject chunks running past the announced length", () => {
+      const upload = startUpload().advance(400)
+
+      expect(upload.fits(400, 600)).toBe(true)
+      expect(upload.fits(400, 601)).toBe(false)
+    })
+  })
+
+  describe("finalize", () => {
+    it("should remember the document created from the upload", () => {
+      const upload = startUpload().advance(1000)
+      const document = DocumentEntity.create({
+        name: upload.name,
+        filePath: "/uploads/scan.pdf",
+        mimeType: upload.mimeType,
+        size: upload.size,
+        ownerId: owner.id,
+      })
+
+      const finalized = upload.finalize(document.id)
+
+      expect(finalized.isFinalized()).toBe(true)
+      expect(finalized.documentId).toBe(document.id)
+    })
+  })
+})
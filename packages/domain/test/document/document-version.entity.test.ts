@@ -0,0 +1,74 @@
+import { describe, expect, it } from "bun:test"
+import { DocumentEntity } from "@domain/document/document.entity"
+import { DocumentVersionEntity } from "@domain/document/document-version.entity"
+
+describe("DocumentVersionEntity", () => {
+  const document = DocumentEntity.create({
+    name: "test-document.pdf",
+    filePath: "/uploads/test-document.pdf",
+    mimeType: "application/pdf",
+    size: 1024,
+  })
+
+  const createVersion = (versionNumber: number) =>
+    DocumentVersionEntity.create({
+      documentId: document.id,
+      versionNumber,
+      filePath: `/uploads/v${versionNumber}-test-document.pdf`,
+      mimeType: "application/pdf",
+      size: 1024,
+    })
+
+  describe("create", () => {
+    it("should create a version for a document", () => {
+      const version = createVersion(1)
+
+      expect(version.id).toBeDefined()
+      expect(version.documentId).toBe(document.id)
+      expect(version.versionNumber).toBe(1)
+      expect(version.filePath).toBe("/uploads/v1-test-document.pdf")
+      expect(version.createdBy).toBeUndefined()
+    })
+
+    it("should reject non-positive version numbers", () => {
+      expect(() => createVersion(0)).toThrow()
+    })
+
+    it("should reject fractional version numbers", () => {
+      expect(() => createVersion(1.5)).toThrow()
+    })
+  })
+
+  describe("nextVersionNumber", () => {
+    it("should start at 1 when there are no versions", () => {
+      expect(DocumentVersionEntity.nextVersionNumber([])).toBe(1)
+    })
+
+    it("should continue from the highest existing version", () => {
+      const versions = [createVersion(3), createVersion(1), createVersion(2)]
+
+      expect(DocumentVersionEntity.nextVersionNumber(versions)).toBe(4)
+    })
+  })
+
+  describe("belongsTo", () => {
+    it("should match only its own document", () => {
+      const version = createVersion(1)
+
+      expect(version.belongsTo(document.id)).toBe(true)
+      expect(version.belongsTo("another-document-id")).toBe(false)
+    })
+  })
+
+  describe("serialization", () => {
+    it("should round-trip through serialize and fromEncoded", () => {
+      const version = createVersion(2)
+      const encoded = version.serialize().unwrap()
+      const decoded = DocumentVersionEntity.fromEncoded(encoded).unwrap()
+
+      expect(decoded.id).toBe(version.id)
+      expect(decoded.versionNumber).toBe(2)
+      expect(decoded.documentId).toBe(document.id)
+    })
+  })
+})
@@ -1,5 +1,6 @@
 import { describe, expect, it } from "bun:test"
 import { DocumentEntity, DocumentSchema, NewDocumentSchema, DocumentUpdateSchema } from "@domain/document/document.entity"
+import { UserEntity } from "@domain/user/user.entity"
 import { Schema as S } from "effect"
 
 describe("DocumentEntity", () => {
@@ -160,6 +161,20 @@ describe("DocumentEntity", () => {
         expect(document.name).toBe("minimal.pdf")
         expect(document.tags).toEqual([])
         expect(document.metadata).toEqual({})
+        expect(document.contentHash).toBeUndefined()
+      })
+
+      it("should keep the content hash of the file", () => {
+        const contentHash = "a".repeat(64)
+        const document = DocumentEntity.create({
+          name: "hashed.pdf",
+          filePath: "/uploads/hashed.pdf",
+          mimeType: "application/pdf",
+          size: 512,
+          contentHash
+        })
+
+        expect(document.contentHash).toBe(contentHash)
       })
     })
 
@@ -678,6 +693,204 @@ describe("DocumentEntity", () => {
     })
   })
 
+  describe("Trash Operations", () => {
+    const createDocument = () => DocumentEntity.create({
+      name: "contract.pdf",
+      filePath: "/uploads/contract.pdf",
+      mimeType: "application/pdf",
+      size: 1024
+    })
+
+    it("should start outside the trash", () => {
+      const document = createDocument()
+
+      expect(document.deletedAt).toBeUndefined()
+      expect(document.isDeleted()).toBe(false)
+    })
+
+    it("should move to the trash and back", () => {
+      const document = createDocument()
+
+      const trashed = document.moveToTrash()
+      expect(trashed.isDeleted()).toBe(true)
+      expect(trashed.id).toBe(document.id)
+      expect(document.isDeleted()).toBe(false) // Original is untouched
+
+      const restored = trashed.restoreFromTrash()
+      expect(restored.isDeleted()).toBe(false)
+      expect(restored.deletedAt).toBeUndefined()
+    })
+
+    it("should only be due for purging once trashed before the cutoff", () => {
+      const document = createDocument()
+      const trashed = document.moveToTrash()
+      const past = new Date(Date.now() - 60_000)
+      const future = new Date(Date.now() + 60_000)
+
+      expect(document.isDeletedBefore(future)).toBe(false)
+      expect(trashed.isDeletedBefore(past)).toBe(false)
+      expect(trashed.isDeletedBefore(future)).toBe(true)
+    })
+
+    it("should stay trashed while pending deletion", () => {
+      const trashed = createDocument().moveToTrash()
+
+      const pending = trashed.markPendingDelete()
+
+      expect(trashed.isPendingDelete()).toBe(false)
+      expect(pending.isPendingDelete()).toBe(true)
+      expect(pending.isDeleted()).toBe(true)
+      expect(pending.domainEvents).toEqual([]) // The purge is recorded once it's done
+    })
+  })
+
+  describe("Checkout Operations", () => {
+    const createUser = (email: string) => UserEntity.create({
+      name: "Checkout User",
+      email,
+      password: "password123",
+      role: "user"
+    })
+    const holder = createUser("holder@example.com").id
+    const other = createUser("other@example.com").id
+    const inAnHour = () => new Date(Date.now() + 60 * 60 * 1000)
+
+    const createDocument = () => DocumentEntity.create({
+      name: "contract.pdf",
+      filePath: "/uploads/contract.pdf",
+      mimeType: "application/pdf",
+      size: 1024
+    })
+
+    it("should start checked in", () => {
+      const document = createDocument()
+
+      expect(document.lockedBy).toBeUndefined()
+      expect(document.isLocked()).toBe(false)
+      expect(document.isLockedAgainst(other)).toBe(false)
+    })
+
+    it("should lock the document against everyone but the holder", () => {
+      const expiresAt = inAnHour()
+
+      const checkedOut = createDocument().checkOut(holder, expiresAt)
+
+      expect(checkedOut.lockedBy).toBe(holder)
+      expect(checkedOut.lockExpiresAt?.epochMillis).toBe(expiresAt.getTime())
+      expect(checkedOut.isLockedBy(holder)).toBe(true)
+      expect(checkedOut.isLockedAgainst(holder)).toBe(false)
+      expect(checkedOut.isLockedAgainst(other)).toBe(true)
+    })
+
+    it("should no longer lock the document once the checkout lapsed", () => {
+      const checkedOut = createDocument().checkOut(holder, inAnHour())
+      const later = new Date(Date.now() + 2 * 60 * 60 * 1000)
+
+      expect(checkedOut.isLocked(later)).toBe(false)
+      expect(checkedOut.isLockedAgainst(other, later)).toBe(false)
+    })
+
+    it("should release the checkout on check-in", () => {
+      const checkedOut = createDocument().checkOut(holder, inAnHour())
+
+      const checkedIn = checkedOut.checkIn()
+
+      expect(checkedIn.lockedBy).toBeUndefined()
+      expect(checkedIn.lockExpiresAt).toBeUndefined()
+      expect(checkedIn.isLocked()).toBe(false)
+      expect(checkedOut.isLocked()).toBe(true) // Original is untouched
+    })
+  })
+
+  describe("Domain Events", () => {
+    const createDocument = () => DocumentEntity.create({
+      name: "contract.pdf",
+      filePath: "/uploads/contract.pdf",
+      mimeType: "application/pdf",
+      size: 1024
+    })
+
+    it("should record an upload when created", () => {
+      const document = createDocument()
+
+      expect(document.domainEvents.map(e => e.type)).toEqual(["document.uploaded"])
+      expect(document.domainEvents[0]!.aggregateId).toBe(document.id)
+      expect(document.domainEvents[0]!.payload).toMatchObject({ id: document.id, name: "contract.pdf", deletedAt: null })
+    })
+
+    it("should carry the recorded events over to the new instances", () => {
+      const document = createDocument()
+
+      const changed = document
+        .update({ name: "contract-signed.pdf", tags: ["signed"] })
+        .moveToTrash()
+        .restoreFromTrash()
+
+      expect(changed.domainEvents.map(e => e.type)).toEqual([
+        "document.uploaded",
+        "document.updated",
+        "document.deleted",
+        "document.restored",
+      ])
+      expect(changed.domainEvents[1]!.payload).toMatchObject({ name: "contract-signed.pdf", tags: ["signed"] })
+      expect(changed.domainEvents[2]!.payload.deletedAt).not.toBeNull()
+      expect(document.domainEvents).toHaveLength(1) // Original is untouched
+    })
+
+    it("should give every event its own id", () => {
+      const events = createDocument().updateTags(["a"]).updateTags(["b"]).domainEvents
+
+      expect(new Set(events.map(e => e.id)).size).toBe(3)
+    })
+
+    it("should record moves, new files and purges", () => {
+      const document = DocumentEntity.fromEncoded(createDocument().serialize().unwrap()).unwrap()
+
+      const purged = document
+        .replaceFile({ filePath: "/uploads/contract-v2.pdf", mimeType: "application/pdf", size: 2048, scanStatus: "clean" })
+        .moveToFolder(undefined)
+        .purge()
+
+      expect(document.domainEvents).toEqual([]) // Loaded entities start without events
+      expect(purged.filePath).toBe("/uploads/contract-v2.pdf")
+      expect(purged.contentHash).toBeUndefined()
+      expect(purged.domainEvents.map(e => e.type)).toEqual([
+        "document.version_created",
+        "document.moved",
+        "document.purged",
+      ])
+    })
+
+    it("should not record events for changes that change nothing", () => {
+      const document = DocumentEntity.fromEncoded(createDocument().serialize().unwrap()).unwrap()
+
+      expect(document.removeTags(["missing"]).domainEvents).toEqual([])
+    })
+  })
+
+  describe("Scan Operations", () => {
+    it("should wait for a scan unless created with a verdict", () => {
+      const unscanned = DocumentEntity.create({
+        name: "scan.pdf",
+        filePath: "/uploads/scan.pdf",
+        mimeType: "application/pdf",
+        size: 1024
+      })
+      const infected = DocumentEntity.create({
+        name: "eicar.com.txt",
+        filePath: "/uploads/eicar.com.txt",
+        mimeType: "text/plain",
+        size: 68,
+        scanStatus: "infected"
+      })
+
+      expect(unscanned.scanStatus).toBe("pending")
+      expect(unscanned.isClean()).toBe(false)
+      expect(infected.isInfected()).toBe(true)
+      expect(infected.isClean()).toBe(false)
+    })
+  })
+
   describe("Utility Methods", () => {
     it("should check if document was recently updated", () => {
       const document = DocumentEntity.create({
@@ -5,8 +5,26 @@ import {
   DocumentAlreadyExistsError,
   DocumentFileError, 
   DocumentPermissionError, 
-  DocumentUploadError 
+  DocumentUploadError,
+  DocumentAccessDeniedError,
+  DocumentPermissionNotFoundError,
+  DocumentUploadNotFoundError,
+  DocumentUploadOffsetMismatchError,
+  DocumentDuplicateError,
+  DocumentNotCleanError,
+  DocumentLockedError,
+  DocumentModifiedError
 } from "@domain/document/document.errors"
+import { DocumentEntity } from "@domain/document/document.entity"
+import { UserEntity } from "@domain/user/user.entity"
+import { ConflictError, ForbiddenError, PreconditionFailedError } from "@domain/utils/base.errors"
+
+const createDocument = () => DocumentEntity.create({
+  name: "contract.pdf",
+  filePath: "/uploads/contract.pdf",
+  mimeType: "application/pdf",
+  size: 1024
+})
 
 describe("Document Errors", () => {
   describe("DocumentNotFoundError", () => {
@@ -152,4 +170,91 @@ describe("Document Errors", () => {
       expect(validationError.context).toBeUndefined()
     })
   })
+
+  describe("DocumentAccessDeniedError", () => {
+    it("should be a forbidden error naming the required level", () => {
+      const error = new DocumentAccessDeniedError("doc-123" as any, "write") // Type assertion for UUID
+      expect(error.message).toBe("'write' access to document 'doc-123' is required")
+      expect(error.code).toBe("DOCUMENT_ACCESS_DENIED")
+      expect(error.requiredPermission).toBe("write")
+      expect(error).toBeInstanceOf(ForbiddenError)
+    })
+  })
+
+  describe("DocumentPermissionNotFoundError", () => {
+    it("should create error with message", () => {
+      const error = new DocumentPermissionNotFoundError("doc-123" as any, "user-456" as any) // Type assertion for UUID
+      expect(error.message).toBe("Document permission with id 'doc-123/user-456' not found")
+      expect(error.code).toBe("DOCUMENT_PERMISSION_NOT_FOUND")
+    })
+  })
+
+  describe("DocumentUploadNotFoundError", () => {
+    it("should create error with message", () => {
+      const error = new DocumentUploadNotFoundError("upload-123" as any) // Type assertion for UUID
+      expect(error.message).toBe("Document upload with id 'upload-123' not found")
+      expect(error.code).toBe("DOCUMENT_UPLOAD_NOT_FOUND")
+    })
+  })
+
+  describe("DocumentUploadOffsetMismatchError", () => {
+    it("should be a conflict error carrying both offsets", () => {
+      const error = new DocumentUploadOffsetMismatchError("upload-123" as any, 1024, 512) // Type assertion for UUID
+      expect(error.message).toBe("Conflict: Upload 'upload-123' continues at offset 1024, got 512")
+      expect(error.code).toBe("DOCUMENT_UPLOAD_OFFSET_MISMATCH")
+      expect(error.context).toEqual({ expected: 1024, received: 512 })
+      expect(error).toBeInstanceOf(ConflictError)
+    })
+  })
+
+  describe("DocumentDuplicateError", () => {
+    it("should be a conflict error naming the document that holds the file", () => {
+      const { id } = createDocument()
+      const error = new DocumentDuplicateError(id)
+      expect(error.message).toBe(`Conflict: The file is already stored as document '${id}'`)
+      expect(error.code).toBe("DOCUMENT_DUPLICATE")
+      expect(error.context).toEqual({ existingId: id })
+      expect(error).toBeInstanceOf(ConflictError)
+    })
+  })
+
+  describe("DocumentNotCleanError", () => {
+    it("should be a forbidden error telling quarantined documents apart", () => {
+      const infected = new DocumentNotCleanError("doc-123" as any, "infected") // Type assertion for UUID
+      const unscanned = new DocumentNotCleanError("doc-123" as any, undefined)
+      expect(infected.message).toBe("Document 'doc-123' is quarantined: malware was found in its file")
+      expect(infected.code).toBe("DOCUMENT_NOT_CLEAN")
+      expect(infected).toBeInstanceOf(ForbiddenError)
+      expect(unscanned.message).toBe("Document 'doc-123' can't be downloaded until its file is scanned for malware")
+      expect(unscanned.context).toEqual({ scanStatus: "pending" })
+    })
+  })
+
+  describe("DocumentLockedError", () => {
+    it("should be a conflict error naming the holder and when the checkout lapses", () => {
+      const holder = UserEntity.create({
+        name: "Checkout User",
+        email: "holder@example.com",
+        password: "password123",
+        role: "user"
+      })
+      const document = createDocument().checkOut(holder.id, new Date(Date.UTC(2030, 0, 1)))
+      const error = new DocumentLockedError(document)
+      expect(error.message).toBe(`Conflict: Document '${document.id}' is checked out by another user until 2030-01-01T00:00:00.000Z`)
+      expect(error.code).toBe("DOCUMENT_LOCKED")
+      expect(error.context).toEqual({ lockedBy: holder.id, expiresAt: "2030-01-01T00:00:00.000Z" })
+      expect(error).toBeInstanceOf(ConflictError)
+    })
+  })
+
+  describe("DocumentModifiedError", () => {
+    it("should be a precondition error naming the current and the expected version", () => {
+      const { id } = createDocument()
+      const error = new DocumentModifiedError({ id, version: 4 }, 3)
+      expect(error.message).toBe(`Document '${id}' was changed - it is at version 4, not 3`)
+      expect(error.code).toBe("DOCUMENT_MODIFIED")
+      expect(error.context).toEqual({ version: 4, expectedVersion: 3 })
+      expect(error).toBeInstanceOf(PreconditionFailedError)
+    })
+  })
 })
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "bun:test"
+import { DocumentEntity } from "@domain/document/document.entity"
+import { OutboxMessageEntity } from "@domain/events/outbox-message.entity"
+
+const recordedEvent = () =>
+  DocumentEntity.create({
+    name: "report.pdf",
+    filePath: "/uploads/report.pdf",
+    mimeType: "application/pdf",
+    size: 1024,
+  }).domainEvents[0]!
+
+describe("OutboxMessageEntity", () => {
+  describe("fromEvent", () => {
+    it("should take the id of the event and be due right away", () => {
+      const event = recordedEvent()
+
+      const message = OutboxMessageEntity.fromEvent(event)
+
+      expect(message.id as string).toBe(event.id)
+      expect(message.eventType).toBe("document.uploaded")
+      expect(message.attempts).toBe(0)
+      expect(message.isPublished()).toBe(false)
+      expect(message.availableAt.epochMillis).toBeLessThanOrEqual(Date.now())
+    })
+
+    it("should turn back into the same event", () => {
+      const event = recordedEvent()
+
+      expect(OutboxMessageEntity.fromEvent(event).toEvent()).toEqual(event)
+    })
+
+    it("should survive a round trip through its encoded form", () => {
+      const message = OutboxMessageEntity.fromEvent(recordedEvent())
+
+      const decoded = OutboxMessageEntity.fromEncoded(
+        message.serialize().unwrap(),
+      ).unwrap()
+
+      expect(decoded.toEvent()).toEqual(message.toEvent())
+    })
+  })
+
+  describe("markPublished", () => {
+    it("should count the attempt and forget earlier errors", () => {
+      const message = OutboxMessageEntity.fromEvent(recordedEvent())
+        .markFailed("Subscriber down", new Date())
+        .markPublished()
+
+      expect(message.isPublished()).toBe(true)
+      expect(message.attempts).toBe(2)
+      expect(message.lastError).toBeUndefined()
+    })
+  })
+
+  describe("markFailed", () => {
+    it("should push the message back until the retry is due", () => {
+      const retryAt = new Date(Date.now() + 60_000)
+
+      const message = OutboxMessageEntity.fromEvent(recordedEvent()).markFailed(
+        "Subscriber down",
+        retryAt,
+      )
+
+      expect(message.isPublished()).toBe(false)
+      expect(message.attempts).toBe(1)
+      expect(message.lastError).toBe("Subscriber down")
+      expect(message.availableAt.epochMillis).toBe(retryAt.getTime())
+    })
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "bun:test"
+import { FolderEntity } from "@domain/folder/folder.entity"
+
+describe("FolderEntity", () => {
+  describe("create", () => {
+    it("should create a root folder", () => {
+      const folder = FolderEntity.create({ name: "Clients" })
+
+      expect(folder.id).toBeDefined()
+      expect(folder.name).toBe("Clients")
+      expect(folder.parentId).toBeUndefined()
+      expect(folder.isRoot()).toBe(true)
+    })
+
+    it("should create a nested folder", () => {
+      const parent = FolderEntity.create({ name: "Clients" })
+      const child = FolderEntity.create({ name: "Acme", parentId: parent.id })
+
+      expect(child.parentId).toBe(parent.id)
+      expect(child.isRoot()).toBe(false)
+    })
+
+    it("should reject empty names", () => {
+      expect(() => FolderEntity.create({ name: "" })).toThrow()
+    })
+
+    it("should reject names containing path separators", () => {
+      expect(() => FolderEntity.create({ name: "a/b" })).toThrow()
+      expect(() => FolderEntity.create({ name: "a\\b" })).toThrow()
+    })
+  })
+
+  describe("rename", () => {
+    it("should return a renamed copy", () => {
+      const folder = FolderEntity.create({ name: "Clients" })
+      const renamed = folder.rename("Customers")
+
+      expect(renamed.name).toBe("Customers")
+      expect(renamed.id).toBe(folder.id)
+      expect(folder.name).toBe("Clients")
+    })
+
+    it("should validate the new name", () => {
+      const folder = FolderEntity.create({ name: "Clients" })
+
+      expect(() => folder.rename("")).toThrow()
+    })
+  })
+
+  describe("moveTo", () => {
+    it("should change the parent", () => {
+      const parent = FolderEntity.create({ name: "Archive" })
+      const folder = FolderEntity.create({ name: "2023" })
+
+      const moved = folder.moveTo(parent.id)
+      expect(moved.parentId).toBe(parent.id)
+
+      const backToRoot = moved.moveTo(undefined)
+      expect(backToRoot.isRoot()).toBe(true)
+    })
+  })
+
+  describe("canMoveUnder", () => {
+    const root = FolderEntity.create({ name: "Clients" })
+    const child = FolderEntity.create({ name: "Acme", parentId: root.id })
+    const other = FolderEntity.create({ name: "Archive" })
+
+    it("should allow moving to the root", () => {
+      expect(child.canMoveUnder(undefined, [])).toBe(true)
+    })
+
+    it("should allow moving under an unrelated folder", () => {
+      expect(child.canMoveUnder(other.id, [])).toBe(true)
+    })
+
+    it("should reject moving a folder under itself", () => {
+      expect(root.canMoveUnder(root.id, [])).toBe(false)
+    })
+
+    it("should reject moving a folder under one of its descendants", () => {
+      expect(root.canMoveUnder(child.id, [root.id])).toBe(false)
+    })
+  })
+
+  describe("serialization", () => {
+    it("should round-trip through serialize and fromEncoded", () => {
+      const parent = FolderEntity.create({ name: "Clients" })
+      const folder = FolderEntity.create({ name: "Acme", parentId: parent.id })
+      const decoded = FolderEntity.fromEncoded(
+        folder.serialize().unwrap(),
+      ).unwrap()
+
+      expect(decoded.id).toBe(folder.id)
+      expect(decoded.name).toBe("Acme")
+      expect(decoded.parentId).toBe(parent.id)
+    })
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "bun:test"
+import {
+  FolderAlreadyExistsError,
+  FolderMoveError,
+  FolderNotEmptyError,
+  FolderNotFoundError,
+  FolderValidationError,
+} from "@domain/folder/folder.errors"
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "@domain/utils/base.errors"
+
+describe("Folder Errors", () => {
+  describe("FolderNotFoundError", () => {
+    it("should create error with message", () => {
+      const error = new FolderNotFoundError("folder-123" as any) // Type assertion for UUID
+      expect(error.message).toBe("Folder with id 'folder-123' not found")
+      expect(error.code).toBe("FOLDER_NOT_FOUND")
+      expect(error).toBeInstanceOf(NotFoundError)
+    })
+  })
+
+  describe("FolderValidationError", () => {
+    it("should create error with message", () => {
+      const error = new FolderValidationError("Validation failed")
+      expect(error.message).toBe("Validation failed")
+      expect(error.code).toBe("FOLDER_VALIDATION_ERROR")
+    })
+  })
+
+  describe("FolderAlreadyExistsError", () => {
+    it("should create error with folder name", () => {
+      const error = new FolderAlreadyExistsError("Clients")
+      expect(error.message).toBe(
+        "Conflict: Folder with name 'Clients' already exists in this location",
+      )
+      expect(error.code).toBe("FOLDER_ALREADY_EXISTS")
+      expect(error).toBeInstanceOf(ConflictError)
+    })
+  })
+
+  describe("FolderMoveError", () => {
+    it("should be a validation error", () => {
+      const error = new FolderMoveError("folder-123" as any) // Type assertion for UUID
+      expect(error.message).toBe(
+        "Folder 'folder-123' cannot be moved into itself or one of its subfolders",
+      )
+      expect(error.code).toBe("FOLDER_MOVE_ERROR")
+      expect(error).toBeInstanceOf(ValidationError)
+    })
+  })
+
+  describe("FolderNotEmptyError", () => {
+    it("should be a conflict error", () => {
+      const error = new FolderNotEmptyError("folder-123" as any) // Type assertion for UUID
+      expect(error.message).toBe("Conflict: Folder 'folder-123' is not empty")
+      expect(error.code).toBe("FOLDER_NOT_EMPTY")
+      expect(error).toBeInstanceOf(ConflictError)
+    })
+  })
+})
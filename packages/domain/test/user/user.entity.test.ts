@@ -1,6 +1,6 @@
 import { describe, expect, it } from "bun:test"
 import { UserEntity, UserSchema, NewUserSchema, UserUpdateSchema } from "@domain/user/user.entity"
-import { Schema as S } from "effect"
+import { DateTime as DT, Schema as S } from "effect"
 
 describe("UserEntity", () => {
   describe("Schema Validation", () => {
@@ -445,6 +445,44 @@ describe("UserEntity", () => {
     })
   })
 
+  describe("Domain Events", () => {
+    const createUser = () => UserEntity.create({
+      name: "Event User",
+      email: "events@example.com",
+      password: "password123",
+      role: "user"
+    })
+
+    it("should not record events when created", () => {
+      expect(createUser().domainEvents).toEqual([])
+    })
+
+    it("should record role changes with the previous role", () => {
+      const user = createUser()
+
+      const [event] = user.updateRole("admin").domainEvents
+
+      expect(event!.type).toBe("user.role_changed")
+      expect(event!.aggregateId).toBe(user.id)
+      expect(event!.payload).toEqual({
+        id: user.id,
+        email: user.email,
+        previousRole: "user",
+        role: "admin",
+      })
+    })
+
+    it("should record profile changes and removals", () => {
+      const user = createUser()
+
+      const removed = user.updateName("Renamed User").verifyEmail().remove()
+
+      expect(removed.domainEvents.map(e => e.type)).toEqual(["user.updated", "user.updated", "user.deleted"])
+      expect(removed.domainEvents[1]!.payload).toMatchObject({ name: "Renamed User", emailVerified: true })
+      expect(removed.domainEvents[2]!.payload).toEqual({ id: user.id, email: user.email })
+    })
+  })
+
   describe("Serialization", () => {
     it("should serialize user correctly", () => {
       const user = UserEntity.create({
@@ -496,6 +534,65 @@ describe("UserEntity", () => {
     })
   })
 
+  describe("Versions and Timestamps", () => {
+    const savedUser = (version: number | undefined, updatedAt: Date) =>
+      UserEntity.fromRepository({
+        id: "550e8400-e29b-41d4-a716-446655440004", // Valid UUID
+        name: "Saved User",
+        email: "saved@example.com",
+        role: "user",
+        emailVerified: false,
+        version,
+        createdAt: new Date("2024-01-01"),
+        updatedAt,
+      })
+
+    it("should start new users at version 1", () => {
+      const user = UserEntity.create({
+        name: "New User",
+        email: "new@example.com",
+        password: "password123",
+        role: "user"
+      })
+
+      expect(user.version).toBe(1)
+    })
+
+    it("should keep the saved version through updates - the repository raises it", () => {
+      const user = savedUser(4, new Date("2024-01-02"))
+
+      expect(user.version).toBe(4)
+      expect(user.updateName("Renamed User").version).toBe(4)
+      expect(savedUser(undefined, new Date("2024-01-02")).version).toBeUndefined()
+    })
+
+    it("should stamp updates with DateTimes, so updated users serialize", () => {
+      const user = savedUser(1, new Date("2024-01-02"))
+
+      const updates = [
+        user.updateName("Renamed User"),
+        user.updateEmail("renamed@example.com"),
+        user.verifyEmail(),
+        user.updateRole("admin"),
+      ]
+
+      for (const updated of updates) {
+        expect(DT.isDateTime(updated.updatedAt)).toBe(true)
+        expect(updated.serialize().isOk()).toBe(true)
+      }
+    })
+
+    it("should move the timestamp forward even within the same millisecond", () => {
+      // Saved "later" than now, as with clock skew between servers
+      const later = new Date(Date.now() + 60_000)
+      const user = savedUser(1, later)
+
+      const updated = user.updateName("Renamed User")
+
+      expect(DT.toEpochMillis(updated.updatedAt)).toBe(later.getTime() + 1)
+    })
+  })
+
   describe("Edge Cases", () => {
     it("should handle email with special characters", () => {
       const user = UserEntity.create({
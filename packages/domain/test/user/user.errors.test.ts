@@ -4,8 +4,11 @@ import {
   UserValidationError, 
   UserAlreadyExistsError,
   UserRoleChangeError, 
-  UserAuthenticationError 
+  UserAuthenticationError,
+  UserModifiedError
 } from "@domain/user/user.errors"
+import { UserEntity } from "@domain/user/user.entity"
+import { PreconditionFailedError } from "@domain/utils/base.errors"
 
 describe("User Errors", () => {
   describe("UserNotFoundError", () => {
@@ -80,6 +83,22 @@ describe("User Errors", () => {
     })
   })
 
+  describe("UserModifiedError", () => {
+    it("should be a precondition error naming the current and the expected version", () => {
+      const { id } = UserEntity.create({
+        name: "Versioned User",
+        email: "versioned@example.com",
+        password: "password123",
+        role: "user"
+      })
+      const error = new UserModifiedError({ id, version: 2 }, 1)
+      expect(error.message).toBe(`User '${id}' was changed - it is at version 2, not 1`)
+      expect(error.code).toBe("USER_MODIFIED")
+      expect(error.context).toEqual({ version: 2, expectedVersion: 1 })
+      expect(error).toBeInstanceOf(PreconditionFailedError)
+    })
+  })
+
   describe("Error Inheritance", () => {
     it("should extend base error types", () => {
       const notFoundError = new UserNotFoundError("user-123" as any) // Type assertion for UUID
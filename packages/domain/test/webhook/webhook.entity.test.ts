@@ -0,0 +1,146 @@
+import { describe, expect, it } from "bun:test"
+import { WebhookEntity } from "@domain/webhook/webhook.entity"
+import { WebhookDeliveryEntity } from "@domain/webhook/webhook-delivery.entity"
+
+const SECRET = "whsec_0123456789abcdef"
+
+describe("WebhookEntity", () => {
+  const register = () =>
+    WebhookEntity.create({
+      url: "https://hooks.example.com/dms",
+      secret: SECRET,
+      events: ["document.uploaded", "document.deleted", "document.uploaded"],
+      description: "Search indexer",
+    })
+
+  describe("create", () => {
+    it("should register an active webhook without duplicate events", () => {
+      const webhook = register()
+
+      expect(webhook.url).toBe("https://hooks.example.com/dms")
+      expect(webhook.active).toBe(true)
+      expect(webhook.events).toEqual(["document.uploaded", "document.deleted"])
+      expect(webhook.description).toBe("Search indexer")
+    })
+
+    it("should reject URLs that aren't HTTP(S)", () => {
+      for (const url of [
+        "ftp://example.com",
+        "file:///etc/passwd",
+        "not a url",
+      ]) {
+        expect(() =>
+          WebhookEntity.create({
+            url,
+            secret: SECRET,
+            events: ["user.deleted"],
+          }),
+        ).toThrow()
+      }
+    })
+
+    it("should require at least one event and a long enough secret", () => {
+      expect(() =>
+        WebhookEntity.create({
+          url: "https://hooks.example.com",
+          secret: SECRET,
+          events: [],
+        }),
+      ).toThrow()
+      expect(() =>
+        WebhookEntity.create({
+          url: "https://hooks.example.com",
+          secret: "short",
+          events: ["user.deleted"],
+        }),
+      ).toThrow()
+    })
+  })
+
+  describe("isSubscribedTo", () => {
+    it("should only match the subscribed events of active webhooks", () => {
+      const webhook = register()
+
+      expect(webhook.isSubscribedTo("document.uploaded")).toBe(true)
+      expect(webhook.isSubscribedTo("user.role_changed")).toBe(false)
+      expect(
+        webhook.update({ active: false }).isSubscribedTo("document.uploaded"),
+      ).toBe(false)
+    })
+  })
+
+  describe("update", () => {
+    it("should only change the given fields", () => {
+      const webhook = register()
+      const updated = webhook.update({ events: ["user.role_changed"] })
+
+      expect(updated.id).toBe(webhook.id)
+      expect(updated.events).toEqual(["user.role_changed"])
+      expect(updated.url).toBe(webhook.url)
+      expect(updated.secret).toBe(webhook.secret)
+      expect(updated.description).toBe("Search indexer")
+      expect(webhook.events).toEqual(["document.uploaded", "document.deleted"])
+    })
+  })
+
+  it("should round-trip through serialization", () => {
+    const webhook = register()
+    const restored = WebhookEntity.fromEncoded(webhook.serialize().unwrap())
+
+    expect(restored.unwrap().events).toEqual(webhook.events)
+    expect(restored.unwrap().secret).toBe(SECRET)
+  })
+})
+
+describe("WebhookDeliveryEntity", () => {
+  const webhook = WebhookEntity.create({
+    url: "https://hooks.example.com/dms",
+    secret: SECRET,
+    events: ["document.uploaded"],
+  })
+
+  const queue = () =>
+    WebhookDeliveryEntity.create({
+      webhookId: webhook.id,
+      event: "document.uploaded",
+      payload: { event: "document.uploaded", data: { name: "report.pdf" } },
+    })
+
+  it("should queue deliveries as pending with no attempts", () => {
+    const delivery = queue()
+
+    expect(delivery.status).toBe("pending")
+    expect(delivery.attempts).toBe(0)
+    expect(delivery.isPending()).toBe(true)
+  })
+
+  it("should record how the delivery went", () => {
+    const succeeded = queue().succeed({
+      attempts: 2,
+      responseStatus: 204,
+      responseBody: "",
+    })
+    const failed = queue().fail({
+      attempts: 5,
+      responseStatus: 500,
+      error: "Endpoint answered 500",
+    })
+
+    expect(succeeded.status).toBe("succeeded")
+    expect(succeeded.attempts).toBe(2)
+    expect(succeeded.responseStatus).toBe(204)
+    expect(failed.status).toBe("failed")
+    expect(failed.error).toBe("Endpoint answered 500")
+  })
+
+  it("should redeliver the same payload as a new delivery", () => {
+    const original = queue().fail({ attempts: 5, error: "timeout" })
+    const redelivery = original.redeliver()
+
+    expect(redelivery.id).not.toBe(original.id)
+    expect(redelivery.redeliveryOf).toBe(original.id)
+    expect(redelivery.payload).toEqual(original.payload)
+    expect(redelivery.status).toBe("pending")
+    expect(redelivery.attempts).toBe(0)
+  })
+})